@@ -0,0 +1,110 @@
+// Tony Trivia service worker: caches the app shell so the app opens
+// offline, and shows scheduled game reminders sent with Web Push.
+
+const CACHE_NAME = 'tony-trivia-v1';
+const OFFLINE_URL = '/offline.html';
+const APP_SHELL = ['/', OFFLINE_URL, '/manifest.webmanifest', '/icons/icon.svg'];
+
+// Vite fingerprints built files, so anything under /assets/ never changes
+const isStaticAsset = url => url.pathname.startsWith('/assets/') || url.pathname.startsWith('/icons/');
+
+// Precache the scripts and styles index.html loads so the shell boots offline
+async function precacheShell() {
+  const cache = await caches.open(CACHE_NAME);
+  await cache.addAll(APP_SHELL);
+
+  const index = await cache.match('/');
+  if (!index) return;
+  const html = await index.text();
+  const assets = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map(match => match[1]);
+  await cache.addAll([...new Set(assets)]);
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // Pages: network first so players get the latest build, falling back to
+  // the cached shell and then the offline page
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(response => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(CACHE_NAME).then(cache => cache.put('/', copy));
+          }
+          return response;
+        })
+        .catch(async () => (await caches.match('/')) || caches.match(OFFLINE_URL))
+    );
+    return;
+  }
+
+  if (isStaticAsset(url)) {
+    event.respondWith(
+      caches.match(request).then(
+        cached =>
+          cached ||
+          fetch(request).then(response => {
+            if (response.ok) {
+              const copy = response.clone();
+              caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+            }
+            return response;
+          })
+      )
+    );
+  }
+});
+
+// Payloads come from send-game-reminders: { title, body, url, tag }
+self.addEventListener('push', event => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'Tony Trivia', {
+      body: payload.body || '',
+      icon: '/icons/icon.svg',
+      badge: '/icons/icon.svg',
+      tag: payload.tag,
+      renotify: Boolean(payload.tag),
+      data: { url: payload.url || '/' },
+    })
+  );
+});
+
+// Open the game the reminder links to, reusing an open tab when there is one
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const target = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(clients => {
+      const client = clients.find(c => new URL(c.url).origin === self.location.origin);
+      if (client) {
+        return client.focus().then(focused => (focused.navigate ? focused.navigate(target) : focused));
+      }
+      return self.clients.openWindow(target);
+    })
+  );
+});
@@ -2,11 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAuth } from '../hooks/useAuth';
 import AnimatedButton from './AnimatedButton';
-import {
-  SecuritySchemas,
-  rateLimiters,
-  validateSecurely,
-} from '../utils/security';
+import { SecuritySchemas, validateSecurely } from '../utils/security';
+import { describeRateLimit, getRateLimitInfo } from '../utils/rateLimit';
 
 export interface AuthFormProps {
   mode: 'signin' | 'signup';
@@ -244,22 +241,24 @@ export default function AuthForm({
     return isValid;
   };
 
+  // Supabase Auth limits sign-in and sign-up attempts
+  const failureMessage = (
+    error: { message?: string; details?: unknown } | undefined,
+    fallback: string
+  ) => {
+    const rateLimit = getRateLimitInfo(error?.details);
+    setIsRateLimited(rateLimit !== null);
+    return rateLimit
+      ? `⏰ ${describeRateLimit(rateLimit)}`
+      : error?.message || fallback;
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLocalError(null);
     setSuccessMessage(null);
     setIsRateLimited(false);
 
-    // Check rate limiting for login attempts
-    const clientId = `auth_${mode}_${Date.now() % 1000000}`; // Simple client identifier
-    if (!rateLimiters.loginAttempt.isAllowed(clientId)) {
-      setIsRateLimited(true);
-      setLocalError(
-        '⏰ Too many attempts. Please wait a few minutes before trying again.'
-      );
-      return;
-    }
-
     if (!validateForm()) {
       return;
     }
@@ -306,8 +305,10 @@ export default function AuthForm({
           onSuccess?.();
         } else {
           setLocalError(
-            result.error?.message ||
+            failureMessage(
+              result.error,
               '❌ Sign in failed - check your credentials and try again!'
+            )
           );
         }
       } else {
@@ -333,8 +334,10 @@ export default function AuthForm({
           }
         } else {
           setLocalError(
-            result.error?.message ||
+            failureMessage(
+              result.error,
               '❌ Account creation failed - please try again!'
+            )
           );
         }
       }
@@ -12,11 +12,8 @@ import {
   Info,
 } from 'lucide-react';
 import AnimatedButton from './AnimatedButton';
-import {
-  SecuritySchemas,
-  rateLimiters,
-  validateSecurely,
-} from '../utils/security';
+import { SecuritySchemas, validateSecurely } from '../utils/security';
+import { describeRateLimit, getRateLimitInfo } from '../utils/rateLimit';
 import { useTeamNameValidator } from '../hooks/useProfanityFilter';
 
 export interface CreateTeamFormData {
@@ -31,7 +28,6 @@ interface CreateTeamFormProps {
   onSubmit: (teamData: CreateTeamFormData) => Promise<void>;
   onCancel: () => void;
   isLoading?: boolean;
-  gameRoomId: string;
   existingTeamNames?: string[];
   className?: string;
 }
@@ -40,7 +36,6 @@ export function CreateTeamForm({
   onSubmit,
   onCancel,
   isLoading = false,
-  gameRoomId,
   existingTeamNames = [],
   className = '',
 }: CreateTeamFormProps) {
@@ -171,25 +166,19 @@ export function CreateTeamForm({
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    // Check rate limiting
-    const clientId = `team_create_${gameRoomId}_${Date.now() % 1000000}`;
-    const rateLimitValidation = validateSecurely(
+    const nameValidation = validateSecurely(
       SecuritySchemas.teamName,
-      formData.name,
-      clientId,
-      rateLimiters.teamCreation
+      formData.name
     );
-
-    if (!rateLimitValidation.success) {
-      setIsRateLimited(true);
-      setErrors({ name: rateLimitValidation.error });
+    if (!nameValidation.success) {
+      setErrors({ name: nameValidation.error });
       return;
     }
 
     if (validateStep(step)) {
       // Sanitize all data before submission
       const sanitizedData: CreateTeamFormData = {
-        name: rateLimitValidation.data,
+        name: nameValidation.data,
         maxMembers: formData.maxMembers,
         color: formData.color,
         isOpen: formData.isOpen,
@@ -199,7 +188,15 @@ export function CreateTeamForm({
           : '',
       };
 
-      await onSubmit(sanitizedData);
+      try {
+        await onSubmit(sanitizedData);
+      } catch (error) {
+        // The server limits how many teams can be created
+        const rateLimit = getRateLimitInfo(error);
+        if (!rateLimit) throw error;
+        setIsRateLimited(true);
+        setErrors({ name: describeRateLimit(rateLimit) });
+      }
     }
   };
 
@@ -252,6 +252,8 @@ export const useErrorDisplay = () => {
     showGameError: errorMessageService.showGameError.bind(errorMessageService),
     showValidationError:
       errorMessageService.showValidationError.bind(errorMessageService),
+    showRateLimitError:
+      errorMessageService.showRateLimitError.bind(errorMessageService),
     showSystemError:
       errorMessageService.showSystemError.bind(errorMessageService),
     showInfo: errorMessageService.showInfo.bind(errorMessageService),
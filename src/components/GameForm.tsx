@@ -1,11 +1,8 @@
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import {
-  SecuritySchemas,
-  rateLimiters,
-  validateSecurely,
-} from '../utils/security';
+import { SecuritySchemas } from '../utils/security';
+import { describeRateLimit, getRateLimitInfo } from '../utils/rateLimit';
 
 // Enhanced Zod schema for form validation with security measures
 const gameFormSchema = z.object({
@@ -73,30 +70,17 @@ export default function GameForm({
 
   const onFormSubmit = async (data: GameFormData) => {
     try {
-      // Check rate limiting for game room creation
-      const clientId = `game_create_${Date.now() % 1000000}`;
-      const rateLimitValidation = validateSecurely(
-        z.object({}),
-        {},
-        clientId,
-        rateLimiters.gameRoomCreation
-      );
-
-      if (!rateLimitValidation.success) {
-        setError('root', {
-          type: 'manual',
-          message: rateLimitValidation.error,
-        });
-        return;
-      }
-
       await onSubmit(data);
       reset(); // Reset form after successful submission
     } catch (error) {
       console.error('Form submission error:', error);
+      // The server limits how many rooms can be created
+      const rateLimit = getRateLimitInfo(error);
       setError('root', {
         type: 'manual',
-        message: 'Failed to create game. Please try again.',
+        message: rateLimit
+          ? describeRateLimit(rateLimit)
+          : 'Failed to create game. Please try again.',
       });
     }
   };
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   Clock,
@@ -12,11 +12,17 @@ import {
   Zap,
   Star,
   Crown,
-  Timer,
   MessageSquare,
 } from 'lucide-react';
 import { useTeamGameIntegration } from '../hooks/useTeamGameIntegration';
 import { useAuth } from '../hooks/useAuth';
+import { useClockSync } from '../hooks/useClockSync';
+import { useQuestionTimer } from '../hooks/useTimer';
+import TimerDisplay from './game/TimerDisplay';
+import type { TimerSchedule } from '../services/gameTimer';
+import { DEFAULT_ANSWER_GRACE_SECONDS } from '../services/gameReducer';
+import { useAnswerOutbox } from '../hooks/useAnswerOutbox';
+import AnswerDeliveryStatus from './game/AnswerDeliveryStatus';
 
 interface TeamGameInterfaceProps {
   teamId: string;
@@ -52,40 +58,27 @@ export function TeamGameInterface({
     teamScore,
     teamRank,
   } = useTeamGameIntegration({ teamId, gameRoomId });
+  const { now: serverNow, ...clockSync } = useClockSync(gameRoomId);
 
   const [answerText, setAnswerText] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showReadinessControls, setShowReadinessControls] = useState(true);
-  const [timeRemaining, setTimeRemaining] = useState<number | null>(null);
 
-  // Calculate time remaining for current question
-  useEffect(() => {
-    if (!currentQuestion) {
-      setTimeRemaining(null);
-      return;
-    }
-
-    const calculateTimeRemaining = () => {
-      const startTime = new Date(currentQuestion.startedAt).getTime();
-      const now = Date.now();
-      const elapsed = now - startTime;
-      const remaining = Math.max(0, currentQuestion.timeLimit * 1000 - elapsed);
-      return Math.floor(remaining / 1000);
-    };
-
-    setTimeRemaining(calculateTimeRemaining());
-
-    const interval = setInterval(() => {
-      const remaining = calculateTimeRemaining();
-      setTimeRemaining(remaining);
-
-      if (remaining <= 0) {
-        clearInterval(interval);
-      }
-    }, 1000);
-
-    return () => clearInterval(interval);
-  }, [currentQuestion]);
+  // The question timer counts down on the server's clock from when the
+  // server started the question
+  const schedule = useMemo<TimerSchedule | null>(
+    () =>
+      currentQuestion
+        ? { startedAt: Date.parse(currentQuestion.startedAt), duration: currentQuestion.timeLimit }
+        : null,
+    [currentQuestion]
+  );
+  const questionTimer = useQuestionTimer(currentQuestion?.timeLimit ?? 60, {
+    clock: serverNow,
+    schedule,
+    enableSoundEffects: false,
+  });
+  const timeRemaining = currentQuestion ? Math.ceil(questionTimer.timeRemaining) : null;
 
   // Handle readiness toggle
   const handleReadinessToggle = async () => {
@@ -97,9 +90,17 @@ export function TeamGameInterface({
     await updateReadiness(!isCurrentlyReady);
   };
 
+  // Replays answers given offline and tracks where ours is
+  const { getEntry } = useAnswerOutbox(gameRoomId);
+  const delivery = currentQuestion ? getEntry(teamId, currentQuestion.id) : undefined;
+
   // Handle answer submission
   const handleSubmitAnswer = async () => {
     if (!currentQuestion || !answerText.trim() || isSubmitting) return;
+    if (!questionTimer.timer.acceptsAnswerAt(serverNow(), DEFAULT_ANSWER_GRACE_SECONDS)) {
+      alert('Time is up for this question');
+      return;
+    }
 
     setIsSubmitting(true);
     try {
@@ -256,8 +257,12 @@ export function TeamGameInterface({
                       : 'bg-green-100 text-green-800'
                 }`}
               >
-                <Timer className="w-4 h-4" />
-                {timeRemaining}s
+                <TimerDisplay
+                  timer={questionTimer.timer}
+                  variant="minimal"
+                  size="small"
+                  clockSync={clockSync}
+                />
               </div>
             )}
           </div>
@@ -323,6 +328,7 @@ export function TeamGameInterface({
                 Submitted by {teamAnswer.submittedBy} at{' '}
                 {new Date(teamAnswer.submittedAt).toLocaleTimeString()}
               </p>
+              {delivery && <AnswerDeliveryStatus delivery={delivery} className="mt-3" />}
             </div>
           )}
 
@@ -1,13 +1,13 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Download, FileText, FileSpreadsheet, FileJson, Calendar } from 'lucide-react';
+import { X, Download, FileText, FileSpreadsheet, FileJson, Calendar, Loader2, AlertCircle } from 'lucide-react';
 import { ExportOptions } from '../../types/analytics';
 import { format } from 'date-fns';
 
 interface ExportModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onExport: (options: ExportOptions) => void;
+  onExport: (options: ExportOptions) => Promise<void> | void;
   availableMetrics: string[];
 }
 
@@ -15,6 +15,8 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, onExport, av
   const [selectedFormat, setSelectedFormat] = useState<ExportOptions['format']>('pdf');
   const [includeCharts, setIncludeCharts] = useState(true);
   const [selectedMetrics, setSelectedMetrics] = useState<string[]>(availableMetrics);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
   const [dateRange, setDateRange] = useState({
     start: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
     end: new Date()
@@ -27,14 +29,31 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, onExport, av
     { value: 'json', label: 'JSON', icon: FileJson, description: 'Best for developers' }
   ];
 
-  const handleExport = () => {
-    onExport({
-      format: selectedFormat,
-      dateRange,
-      includeCharts: selectedFormat === 'pdf' ? includeCharts : false,
-      includedMetrics: selectedMetrics
-    });
-    onClose();
+  const handleExport = async () => {
+    if (dateRange.start > dateRange.end) {
+      setExportError('The start date must be before the end date');
+      return;
+    }
+
+    // Include the whole end day
+    const end = new Date(dateRange.end);
+    end.setHours(23, 59, 59, 999);
+
+    try {
+      setIsExporting(true);
+      setExportError(null);
+      await onExport({
+        format: selectedFormat,
+        dateRange: { start: dateRange.start, end },
+        includeCharts: selectedFormat === 'pdf' ? includeCharts : false,
+        includedMetrics: selectedMetrics
+      });
+      onClose();
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'Failed to export report');
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   const toggleMetric = (metric: string) => {
@@ -179,6 +198,12 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, onExport, av
             </div>
 
             {/* Footer */}
+            {exportError && (
+              <div className="mx-6 mb-4 flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                {exportError}
+              </div>
+            )}
             <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200">
               <button
                 onClick={onClose}
@@ -188,11 +213,13 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, onExport, av
               </button>
               <motion.button
                 onClick={handleExport}
-                className="px-6 py-2 bg-gradient-to-r from-electric-500 to-plasma-500 text-white rounded-lg font-medium hover:shadow-lg transition-shadow"
+                disabled={isExporting || selectedMetrics.length === 0}
+                className="flex items-center gap-2 px-6 py-2 bg-gradient-to-r from-electric-500 to-plasma-500 text-white rounded-lg font-medium hover:shadow-lg transition-shadow disabled:opacity-50 disabled:cursor-not-allowed"
                 whileHover={{ scale: 1.05 }}
                 whileTap={{ scale: 0.95 }}
               >
-                Export Report
+                {isExporting && <Loader2 className="w-4 h-4 animate-spin" />}
+                {isExporting ? 'Exporting...' : 'Export Report'}
               </motion.button>
             </div>
           </motion.div>
@@ -97,7 +97,11 @@ const HostPerformanceSection: React.FC<HostPerformanceSectionProps> = ({ data, c
     }
   };
 
-  const getRatingStars = (rating: number) => {
+  const getRatingStars = (rating: number | null) => {
+    if (rating === null) {
+      return <div className="text-xs text-gray-500">No ratings yet</div>;
+    }
+
     const fullStars = Math.floor(rating);
     const hasHalfStar = rating % 1 !== 0;
     
@@ -143,7 +147,9 @@ const HostPerformanceSection: React.FC<HostPerformanceSectionProps> = ({ data, c
               </div>
               <div className="text-right">
                 {getRatingStars(host.averageGameRating)}
-                <div className="text-xs text-gray-600">{host.playerSatisfactionScore}% satisfaction</div>
+                <div className="text-xs text-gray-600">
+                  {host.playerSatisfactionScore === null ? 'Not rated' : `${host.playerSatisfactionScore}% satisfaction`}
+                </div>
               </div>
             </div>
           ))}
@@ -193,7 +199,7 @@ const HostPerformanceSection: React.FC<HostPerformanceSectionProps> = ({ data, c
           className="bg-white rounded-lg shadow-sm border border-gray-200 p-4"
         >
           <Star className="w-8 h-8 text-yellow-500 mb-3" />
-          <div className="text-2xl font-bold text-gray-900">{currentHost.averageGameRating.toFixed(1)}</div>
+          <div className="text-2xl font-bold text-gray-900">{currentHost.averageGameRating?.toFixed(1) ?? '—'}</div>
           <div className="text-sm text-gray-600">Avg Rating</div>
         </motion.div>
 
@@ -215,7 +221,7 @@ const HostPerformanceSection: React.FC<HostPerformanceSectionProps> = ({ data, c
           className="bg-white rounded-lg shadow-sm border border-gray-200 p-4"
         >
           <Award className="w-8 h-8 text-green-600 mb-3" />
-          <div className="text-2xl font-bold text-gray-900">{currentHost.playerSatisfactionScore}%</div>
+          <div className="text-2xl font-bold text-gray-900">{currentHost.playerSatisfactionScore === null ? '—' : `${currentHost.playerSatisfactionScore}%`}</div>
           <div className="text-sm text-gray-600">Satisfaction</div>
         </motion.div>
       </div>
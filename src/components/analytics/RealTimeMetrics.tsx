@@ -34,12 +34,12 @@ const RealTimeMetrics: React.FC<RealTimeMetricsProps> = ({ data }) => {
       icon: Zap,
       color: 'warning'
     },
-    {
+    ...(data.currentServerLoad === null ? [] : [{
       label: 'Server Load',
       value: `${data.currentServerLoad}%`,
       icon: TrendingUp,
       color: data.currentServerLoad > 80 ? 'danger' : data.currentServerLoad > 60 ? 'warning' : 'success'
-    }
+    }])
   ];
 
   const getColorClasses = (color: string) => {
@@ -0,0 +1,185 @@
+import React from 'react';
+import { createRoot } from 'react-dom/client';
+import { flushSync } from 'react-dom';
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  PieChart,
+  Pie,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Legend
+} from 'recharts';
+import type { AnalyticsDashboardData } from '../../types/analytics';
+import type { ReportChart, ReportMetric } from '../../utils/analyticsReport';
+
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 320;
+// Captured at twice the size so charts stay sharp when printed
+const CHART_SCALE = 2;
+
+const COLORS = ['#3b82f6', '#a855f7', '#06d6a0', '#ff6b35', '#ffd23f', '#ef476f'];
+
+interface ChartDefinition {
+  metric: ReportMetric;
+  title: string;
+  chart: React.ReactElement;
+}
+
+const size = { width: CHART_WIDTH, height: CHART_HEIGHT, margin: { top: 16, right: 24, bottom: 16, left: 8 } };
+
+const barChart = <T extends object>(rows: T[], xKey: keyof T & string, yKey: keyof T & string, name: string) => (
+  <BarChart {...size} data={rows}>
+    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+    <XAxis dataKey={xKey} tick={{ fontSize: 11, fill: '#374151' }} />
+    <YAxis tick={{ fontSize: 11, fill: '#374151' }} />
+    <Bar dataKey={yKey} name={name} fill={COLORS[0]} isAnimationActive={false} />
+  </BarChart>
+);
+
+/**
+ * The charts each report section gets, drawn at a fixed size
+ */
+function chartDefinitions(data: AnalyticsDashboardData): ChartDefinition[] {
+  const { gamePerformance, playerEngagement, questionAnalytics, hostPerformance, administrativeInsights } = data;
+  const difficulty = (['easy', 'medium', 'hard'] as const).map(level => ({
+    name: level,
+    value: questionAnalytics.difficultyDistribution[level]
+  }));
+
+  return [
+    {
+      metric: 'Game Performance',
+      title: 'Games by hour',
+      chart: barChart(gamePerformance.gamesByTimeOfDay.map(({ hour, count }) => ({ hour: `${hour}:00`, count })), 'hour', 'count', 'Games')
+    },
+    {
+      metric: 'Game Performance',
+      title: 'Games by day',
+      chart: barChart(gamePerformance.gamesByDayOfWeek.map(({ day, count }) => ({ day: day.slice(0, 3), count })), 'day', 'count', 'Games')
+    },
+    {
+      metric: 'Player Engagement',
+      title: 'Engagement by category',
+      chart: barChart(playerEngagement.engagementByCategory, 'category', 'engagementRate', 'Engagement (%)')
+    },
+    {
+      metric: 'Question Analytics',
+      title: 'Questions by difficulty',
+      chart: (
+        <PieChart {...size}>
+          <Pie data={difficulty} dataKey="value" nameKey="name" outerRadius={110} label isAnimationActive={false}>
+            {difficulty.map((entry, index) => (
+              <Cell key={entry.name} fill={COLORS[index % COLORS.length]} />
+            ))}
+          </Pie>
+          <Legend />
+        </PieChart>
+      )
+    },
+    {
+      metric: 'Question Analytics',
+      title: 'Correct answers by category (%)',
+      chart: barChart(questionAnalytics.questionsByCategory, 'category', 'averageCorrectRate', 'Correct (%)')
+    },
+    {
+      metric: 'Host Performance',
+      title: 'Games hosted',
+      chart: barChart(hostPerformance, 'hostName', 'totalGamesHosted', 'Games hosted')
+    },
+    ...(administrativeInsights.revenue ? [{
+      metric: 'Revenue Metrics' as const,
+      title: 'Revenue by day',
+      chart: (
+        <LineChart {...size} data={administrativeInsights.revenue.revenueByPeriod}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+          <XAxis dataKey="date" tick={{ fontSize: 11, fill: '#374151' }} />
+          <YAxis tick={{ fontSize: 11, fill: '#374151' }} />
+          <Line type="monotone" dataKey="amount" name="Revenue" stroke={COLORS[1]} strokeWidth={2} dot={false} isAnimationActive={false} />
+        </LineChart>
+      )
+    }] : [])
+  ];
+}
+
+async function rasterize(svg: SVGSVGElement): Promise<Pick<ReportChart, 'data' | 'width' | 'height'>> {
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  copy.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  copy.setAttribute('width', String(CHART_WIDTH));
+  copy.setAttribute('height', String(CHART_HEIGHT));
+  copy.style.fontFamily = 'Helvetica, Arial, sans-serif';
+
+  const url = URL.createObjectURL(
+    new Blob([new XMLSerializer().serializeToString(copy)], { type: 'image/svg+xml;charset=utf-8' })
+  );
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('Failed to draw chart'));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = CHART_WIDTH * CHART_SCALE;
+    canvas.height = CHART_HEIGHT * CHART_SCALE;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Failed to draw chart');
+    // JPEG has no transparency
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.92));
+    if (!blob) throw new Error('Failed to draw chart');
+    return { data: new Uint8Array(await blob.arrayBuffer()), width: canvas.width, height: canvas.height };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Draw the charts for the chosen sections off screen and capture them as
+ * images for a PDF report
+ */
+export async function captureReportCharts(data: AnalyticsDashboardData, metrics: string[]): Promise<ReportChart[]> {
+  const definitions = chartDefinitions(data).filter(definition => metrics.includes(definition.metric));
+  if (definitions.length === 0) return [];
+
+  const container = document.createElement('div');
+  container.setAttribute('aria-hidden', 'true');
+  container.style.cssText = `position:fixed;left:-10000px;top:0;width:${CHART_WIDTH}px;pointer-events:none;`;
+  document.body.appendChild(container);
+  const root = createRoot(container);
+
+  try {
+    flushSync(() => {
+      root.render(
+        <>
+          {definitions.map((definition, index) => (
+            <div key={index} data-report-chart={index} style={{ width: CHART_WIDTH, height: CHART_HEIGHT, background: '#ffffff' }}>
+              {definition.chart}
+            </div>
+          ))}
+        </>
+      );
+    });
+    // Give the charts a couple of frames to lay out their axes
+    await new Promise(resolve => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+
+    const charts: ReportChart[] = [];
+    for (const [index, definition] of definitions.entries()) {
+      const svg = container.querySelector<SVGSVGElement>(`[data-report-chart="${index}"] svg`);
+      if (!svg) continue;
+      charts.push({ metric: definition.metric, title: definition.title, ...(await rasterize(svg)) });
+    }
+    return charts;
+  } finally {
+    root.unmount();
+    container.remove();
+  }
+}
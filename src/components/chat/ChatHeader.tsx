@@ -8,13 +8,20 @@ interface ChatHeaderProps {
     isSubscribed: boolean;
   };
   messageCount: number;
+  mentionCount?: number;
+  // Hosts and captains get a button for the flagged-message queue
+  flagCount?: number;
+  onOpenModeration?: () => void;
 }
 
 export const ChatHeader: React.FC<ChatHeaderProps> = ({
   isMinimized,
   onToggleMinimize,
   connectionState,
-  messageCount
+  messageCount,
+  mentionCount = 0,
+  flagCount = 0,
+  onOpenModeration
 }) => {
   return (
     <div 
@@ -52,6 +59,45 @@ export const ChatHeader: React.FC<ChatHeaderProps> = ({
       </div>
       
       <div className="flex items-center gap-3">
+        {mentionCount > 0 && (
+          <span
+            className="badge badge--mention"
+            aria-label={`${mentionCount} unread mentions`}
+            style={{
+              background: 'var(--color-energy-yellow)',
+              color: 'var(--color-electric-900)',
+              padding: '0.125rem 0.5rem',
+              borderRadius: '0.5rem',
+              fontSize: 'var(--text-sm)',
+              fontWeight: '600',
+            }}
+          >
+            @{mentionCount}
+          </span>
+        )}
+
+        {onOpenModeration && (
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              onOpenModeration();
+            }}
+            aria-label={`Flagged messages (${flagCount})`}
+            style={{
+              background: flagCount > 0 ? 'var(--color-energy-red)' : 'rgba(255, 255, 255, 0.2)',
+              border: 'none',
+              color: 'white',
+              padding: '0.125rem 0.5rem',
+              borderRadius: '0.5rem',
+              fontSize: 'var(--text-sm)',
+              cursor: 'pointer',
+            }}
+          >
+            🚩 {flagCount}
+          </button>
+        )}
+
         <div 
           className="connection-indicator"
           style={{
@@ -1,18 +1,47 @@
-import React, { useState, useRef, KeyboardEvent } from 'react';
+import React, { useState, useRef, useEffect, KeyboardEvent } from 'react';
 import { EmojiPicker } from './EmojiPicker';
+import {
+  completeMention,
+  pendingMention,
+  suggestMentions,
+  type MentionCandidate,
+} from '../../utils/chatMentions';
 
 interface ChatInputProps {
   onSendMessage: (message: string, type: 'text' | 'emoji') => void;
   disabled?: boolean;
+  placeholder?: string;
+  members?: MentionCandidate[];
+  // Set while editing a message: the input starts with its text
+  editingMessage?: string | null;
+  onCancelEdit?: () => void;
 }
 
 export const ChatInput: React.FC<ChatInputProps> = ({ 
   onSendMessage, 
-  disabled = false 
+  disabled = false,
+  placeholder,
+  members = [],
+  editingMessage = null,
+  onCancelEdit
 }) => {
   const [message, setMessage] = useState('');
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
+  const isEditing = editingMessage !== null;
+
+  useEffect(() => {
+    setMessage(editingMessage ?? '');
+    if (editingMessage !== null) inputRef.current?.focus();
+  }, [editingMessage]);
+
+  const mentionQuery = pendingMention(message);
+  const suggestions = mentionQuery === null ? [] : suggestMentions(mentionQuery, members);
+
+  const handleMentionSelect = (member: MentionCandidate) => {
+    setMessage(completeMention(message, member));
+    inputRef.current?.focus();
+  };
 
   const handleSend = () => {
     if (message.trim() && !disabled) {
@@ -25,7 +54,13 @@ export const ChatInput: React.FC<ChatInputProps> = ({
   const handleKeyPress = (e: KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
-      handleSend();
+      if (suggestions.length > 0) {
+        handleMentionSelect(suggestions[0]);
+      } else {
+        handleSend();
+      }
+    } else if (e.key === 'Escape' && isEditing) {
+      onCancelEdit?.();
     }
   };
 
@@ -47,6 +82,66 @@ export const ChatInput: React.FC<ChatInputProps> = ({
         borderRadius: '0 0 1rem 1rem',
       }}
     >
+      {isEditing && (
+        <div
+          className="editing-banner"
+          style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            fontSize: 'var(--text-xs)',
+            color: 'var(--color-neutral)',
+            marginBottom: 'var(--space-xs)',
+          }}
+        >
+          <span>Editing message</span>
+          <button
+            type="button"
+            onClick={onCancelEdit}
+            style={{ background: 'transparent', border: 'none', color: 'var(--color-electric-600)', cursor: 'pointer' }}
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {/* Mention suggestions */}
+      {suggestions.length > 0 && (
+        <ul
+          className="mention-suggestions"
+          role="listbox"
+          aria-label="Mention a teammate"
+          style={{
+            listStyle: 'none',
+            margin: '0 0 var(--space-xs)',
+            padding: '0.25rem',
+            border: '1px solid var(--color-electric-200)',
+            borderRadius: '0.5rem',
+            background: 'white',
+          }}
+        >
+          {suggestions.map(member => (
+            <li key={member.user_id} role="option" aria-selected={false}>
+              <button
+                type="button"
+                onClick={() => handleMentionSelect(member)}
+                style={{
+                  width: '100%',
+                  textAlign: 'left',
+                  background: 'transparent',
+                  border: 'none',
+                  padding: '0.25rem var(--space-sm)',
+                  fontSize: 'var(--text-sm)',
+                  color: 'var(--color-electric-900)',
+                  cursor: 'pointer',
+                }}
+              >
+                @{member.display_name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
       <div 
         className="input-wrapper"
         style={{
@@ -62,7 +157,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({
             value={message}
             onChange={(e) => setMessage(e.target.value)}
             onKeyPress={handleKeyPress}
-            placeholder={disabled ? "Connecting..." : "Type a message..."}
+            placeholder={placeholder ?? (disabled ? "Connecting..." : "Type a message...")}
             disabled={disabled}
             maxLength={500}
             aria-label="Chat message"
@@ -109,26 +204,28 @@ export const ChatInput: React.FC<ChatInputProps> = ({
         </div>
         
         {/* Emoji button */}
-        <button
-          type="button"
-          onClick={() => setShowEmojiPicker(!showEmojiPicker)}
-          disabled={disabled}
-          className="btn-game-secondary"
-          style={{
-            padding: 'var(--space-sm)',
-            width: '40px',
-            height: '40px',
-            borderRadius: '0.5rem',
-            fontSize: '1.25rem',
-            display: 'flex',
-            alignItems: 'center',
-            justifyContent: 'center',
-            position: 'relative',
-          }}
-          aria-label="Add emoji"
-        >
-          😊
-        </button>
+        {!isEditing && (
+          <button
+            type="button"
+            onClick={() => setShowEmojiPicker(!showEmojiPicker)}
+            disabled={disabled}
+            className="btn-game-secondary"
+            style={{
+              padding: 'var(--space-sm)',
+              width: '40px',
+              height: '40px',
+              borderRadius: '0.5rem',
+              fontSize: '1.25rem',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              position: 'relative',
+            }}
+            aria-label="Add emoji"
+          >
+            😊
+          </button>
+        )}
         
         {/* Send button */}
         <button
@@ -146,7 +243,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({
             cursor: disabled || !message.trim() ? 'not-allowed' : 'pointer',
           }}
         >
-          Send
+          {isEditing ? 'Save' : 'Send'}
         </button>
       </div>
       
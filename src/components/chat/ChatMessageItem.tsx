@@ -1,20 +1,97 @@
-import React from 'react';
-import { ChatMessage } from '../../types/database';
+import React, { useState } from 'react';
+import { ChatMessage, type ChatMessageEdit } from '../../types/database';
 import { ChatReactions } from '../social/ChatReactions';
+import { ChatService } from '../../services/chatService';
+import { MUTE_DURATIONS } from '../../hooks/useChatModeration';
+import { segmentMentions, type MentionCandidate } from '../../utils/chatMentions';
 
-interface ChatMessageItemProps {
+export interface ChatMessageActions {
+  onReply?: (message: ChatMessage) => void;
+  onEdit?: (message: ChatMessage) => void;
+  onDelete?: (message: ChatMessage) => void;
+  onFlag?: (message: ChatMessage) => void;
+  onMute?: (message: ChatMessage, minutes: number) => void;
+}
+
+interface ChatMessageItemProps extends ChatMessageActions {
   message: ChatMessage;
   isOwnMessage: boolean;
   isHost: boolean;
   enableReactions?: boolean;
+  canModerate?: boolean;
+  currentUserId?: string;
+  members?: MentionCandidate[];
+  isMentioned?: boolean;
 }
 
+const actionButtonStyle: React.CSSProperties = {
+  background: 'transparent',
+  border: 'none',
+  padding: '0 0.25rem',
+  fontSize: 'var(--text-xs)',
+  color: 'var(--color-neutral)',
+  cursor: 'pointer',
+};
+
+// Earlier versions of an edited message, loaded when first opened
+const EditHistory: React.FC<{ messageId: string }> = ({ messageId }) => {
+  const [edits, setEdits] = useState<ChatMessageEdit[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  React.useEffect(() => {
+    ChatService.getEditHistory(messageId)
+      .then(setEdits)
+      .catch((err: Error) => setError(err.message));
+  }, [messageId]);
+
+  return (
+    <div
+      className="edit-history"
+      role="list"
+      aria-label="Edit history"
+      style={{
+        marginTop: 'var(--space-xs)',
+        padding: 'var(--space-xs) var(--space-sm)',
+        borderRadius: '0.5rem',
+        background: 'var(--color-electric-50)',
+        fontSize: 'var(--text-xs)',
+        color: 'var(--color-neutral)',
+        maxWidth: '70%',
+      }}
+    >
+      {error && <span>{error}</span>}
+      {!error && !edits && <span>Loading...</span>}
+      {edits?.map(edit => (
+        <div key={edit.id} role="listitem">
+          <span style={{ opacity: 0.7 }}>
+            {new Date(edit.edited_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </span>{' '}
+          <span style={{ textDecoration: 'line-through' }}>{edit.previous_message}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
 export const ChatMessageItem: React.FC<ChatMessageItemProps> = ({
   message,
   isOwnMessage,
   isHost,
-  enableReactions = false
+  enableReactions = true,
+  canModerate = false,
+  currentUserId,
+  members = [],
+  isMentioned = false,
+  onReply,
+  onEdit,
+  onDelete,
+  onFlag,
+  onMute
 }) => {
+  const [showHistory, setShowHistory] = useState(false);
+  const [showMuteOptions, setShowMuteOptions] = useState(false);
+  const isChatMessage = message.message_type === 'text' || message.message_type === 'emoji';
+
   const getMessageStyle = () => {
     switch (message.message_type) {
       case 'system':
@@ -62,6 +139,8 @@ export const ChatMessageItem: React.FC<ChatMessageItemProps> = ({
     boxShadow: '0 2px 8px rgba(0, 0, 0, 0.08)',
     transition: 'transform var(--transition-fast)',
     ...getMessageStyle(),
+    // Unread mentions of the current player stand out
+    ...(isMentioned ? { boxShadow: '0 0 0 2px var(--color-energy-yellow)' } : {}),
   };
 
   return (
@@ -134,8 +213,101 @@ export const ChatMessageItem: React.FC<ChatMessageItemProps> = ({
           e.currentTarget.style.transform = 'scale(1)';
         }}
       >
-        {message.message}
+        {message.message_type === 'text'
+          ? segmentMentions(message.message, members).map((segment, index) =>
+              segment.userId ? (
+                <strong
+                  key={index}
+                  className="chat-mention"
+                  style={{
+                    background: segment.userId === currentUserId ? 'var(--color-energy-yellow)' : 'rgba(255, 255, 255, 0.25)',
+                    color: segment.userId === currentUserId ? 'var(--color-electric-900)' : 'inherit',
+                    borderRadius: '0.25rem',
+                    padding: '0 0.125rem',
+                  }}
+                >
+                  {segment.text}
+                </strong>
+              ) : (
+                <React.Fragment key={index}>{segment.text}</React.Fragment>
+              )
+            )
+          : message.message}
       </div>
+
+      {/* Edited marker, replies and actions */}
+      {isChatMessage && (
+        <div
+          className="message-actions"
+          style={{
+            display: 'flex',
+            flexWrap: 'wrap',
+            alignItems: 'center',
+            gap: '0.125rem',
+            marginTop: '0.125rem',
+          }}
+        >
+          {message.edited_at && (
+            <button
+              type="button"
+              style={actionButtonStyle}
+              onClick={() => setShowHistory(!showHistory)}
+              aria-expanded={showHistory}
+              title="Show edit history"
+            >
+              (edited)
+            </button>
+          )}
+          {onReply && !message.thread_id && (
+            <button type="button" style={actionButtonStyle} onClick={() => onReply(message)}>
+              {message.reply_count ? `💬 ${message.reply_count} ${message.reply_count === 1 ? 'reply' : 'replies'}` : 'Reply'}
+            </button>
+          )}
+          {onEdit && isOwnMessage && message.message_type === 'text' && (
+            <button type="button" style={actionButtonStyle} onClick={() => onEdit(message)}>
+              Edit
+            </button>
+          )}
+          {onDelete && (isOwnMessage || canModerate) && (
+            <button type="button" style={actionButtonStyle} onClick={() => onDelete(message)}>
+              Delete
+            </button>
+          )}
+          {onFlag && !isOwnMessage && (
+            <button type="button" style={actionButtonStyle} onClick={() => onFlag(message)} aria-label="Flag message">
+              🚩
+            </button>
+          )}
+          {onMute && canModerate && !isOwnMessage && (
+            <>
+              <button
+                type="button"
+                style={actionButtonStyle}
+                onClick={() => setShowMuteOptions(!showMuteOptions)}
+                aria-expanded={showMuteOptions}
+              >
+                Mute
+              </button>
+              {showMuteOptions &&
+                MUTE_DURATIONS.map(minutes => (
+                  <button
+                    key={minutes}
+                    type="button"
+                    style={{ ...actionButtonStyle, fontWeight: 600 }}
+                    onClick={() => {
+                      onMute(message, minutes);
+                      setShowMuteOptions(false);
+                    }}
+                  >
+                    {minutes < 60 ? `${minutes}m` : `${minutes / 60}h`}
+                  </button>
+                ))}
+            </>
+          )}
+        </div>
+      )}
+
+      {showHistory && <EditHistory messageId={message.id} />}
       
       {/* Timestamp for own messages */}
       {isOwnMessage && (
@@ -155,7 +327,7 @@ export const ChatMessageItem: React.FC<ChatMessageItemProps> = ({
       )}
       
       {/* Reactions */}
-      {enableReactions && message.message_type === 'text' && (
+      {enableReactions && isChatMessage && (
         <div 
           className="message-reactions"
           style={{
@@ -1,18 +1,51 @@
 import React from 'react';
 import { ChatMessage } from '../../types/database';
-import { ChatMessageItem } from './ChatMessageItem';
+import { ChatMessageItem, type ChatMessageActions } from './ChatMessageItem';
+import type { MentionCandidate } from '../../utils/chatMentions';
 
-interface ChatMessageListProps {
+interface ChatMessageListProps extends ChatMessageActions {
   messages: ChatMessage[];
   currentUserId?: string;
   isHost: boolean;
+  canModerate?: (message: ChatMessage) => boolean;
+  members?: MentionCandidate[];
+  mentionedMessageIds?: Set<string>;
+  hasMore?: boolean;
+  isLoadingOlder?: boolean;
+  onLoadOlder?: () => void;
 }
 
 export const ChatMessageList: React.FC<ChatMessageListProps> = ({
   messages,
   currentUserId,
-  isHost
+  isHost,
+  canModerate,
+  members,
+  mentionedMessageIds,
+  hasMore = false,
+  isLoadingOlder = false,
+  onLoadOlder,
+  ...actions
 }) => {
+  const loadOlderButton = hasMore && onLoadOlder && (
+    <div style={{ textAlign: 'center', marginBottom: 'var(--space-sm)' }}>
+      <button
+        type="button"
+        onClick={onLoadOlder}
+        disabled={isLoadingOlder}
+        className="btn-game-secondary"
+        style={{
+          fontSize: 'var(--text-xs)',
+          padding: '0.25rem var(--space-sm)',
+          borderRadius: '0.5rem',
+          opacity: isLoadingOlder ? 0.5 : 1,
+        }}
+      >
+        {isLoadingOlder ? 'Loading...' : 'Load earlier messages'}
+      </button>
+    </div>
+  );
+
   if (messages.length === 0) {
     return (
       <div 
@@ -52,6 +85,7 @@ export const ChatMessageList: React.FC<ChatMessageListProps> = ({
 
   return (
     <div className="chat-messages">
+      {loadOlderButton}
       {Object.entries(groupedMessages).map(([timeKey, groupMessages]) => (
         <div key={timeKey} className="message-group">
           <div 
@@ -97,6 +131,11 @@ export const ChatMessageList: React.FC<ChatMessageListProps> = ({
               message={message}
               isOwnMessage={message.user_id === currentUserId}
               isHost={isHost}
+              canModerate={canModerate?.(message)}
+              currentUserId={currentUserId}
+              members={members}
+              isMentioned={mentionedMessageIds?.has(message.id)}
+              {...actions}
             />
           ))}
         </div>
@@ -0,0 +1,109 @@
+import React from 'react';
+import type { ChatMessageFlag } from '../../types/database';
+import { MUTE_DURATIONS } from '../../hooks/useChatModeration';
+
+interface ChatModerationQueueProps {
+  flags: ChatMessageFlag[];
+  isLoading: boolean;
+  onReview: (flag: ChatMessageFlag, remove: boolean) => void;
+  onMute: (flag: ChatMessageFlag, minutes: number) => void;
+  onClose: () => void;
+}
+
+// Flags on the same message are reviewed together, so show each message once
+function groupByMessage(flags: ChatMessageFlag[]) {
+  const groups = new Map<string, ChatMessageFlag[]>();
+  for (const flag of flags) {
+    groups.set(flag.message_id, [...(groups.get(flag.message_id) ?? []), flag]);
+  }
+  return [...groups.values()];
+}
+
+export const ChatModerationQueue: React.FC<ChatModerationQueueProps> = ({
+  flags,
+  isLoading,
+  onReview,
+  onMute,
+  onClose
+}) => {
+  const groups = groupByMessage(flags);
+
+  return (
+    <div className="chat-moderation-queue" role="region" aria-label="Flagged messages">
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          marginBottom: 'var(--space-sm)',
+        }}
+      >
+        <h4 style={{ fontWeight: '600', color: 'var(--color-electric-800)' }}>Flagged messages</h4>
+        <button
+          type="button"
+          onClick={onClose}
+          style={{ background: 'transparent', border: 'none', color: 'var(--color-electric-600)', cursor: 'pointer' }}
+        >
+          Back to chat
+        </button>
+      </div>
+
+      {isLoading && groups.length === 0 && (
+        <p style={{ fontSize: 'var(--text-sm)', color: 'var(--color-neutral)' }}>Loading...</p>
+      )}
+      {!isLoading && groups.length === 0 && (
+        <p style={{ fontSize: 'var(--text-sm)', color: 'var(--color-neutral)' }}>Nothing to review. Nice and friendly!</p>
+      )}
+
+      {groups.map(group => {
+        const [flag] = group;
+        const reasons = group.map(f => f.reason).filter(Boolean);
+        return (
+          <div
+            key={flag.message_id}
+            className="flagged-message"
+            style={{
+              padding: 'var(--space-sm)',
+              marginBottom: 'var(--space-sm)',
+              borderRadius: '0.75rem',
+              border: '1px solid var(--color-electric-200)',
+              background: 'white',
+            }}
+          >
+            <div style={{ fontSize: 'var(--text-xs)', color: 'var(--color-neutral)', marginBottom: 'var(--space-xs)' }}>
+              {flag.message?.user?.display_name ?? 'Unknown player'} · flagged {group.length}{' '}
+              {group.length === 1 ? 'time' : 'times'}
+            </div>
+            <p style={{ fontSize: 'var(--text-sm)', color: 'var(--color-electric-900)' }}>
+              {flag.message?.message ?? 'Message unavailable'}
+            </p>
+            {reasons.length > 0 && (
+              <p style={{ fontSize: 'var(--text-xs)', color: 'var(--color-neutral)', marginTop: 'var(--space-xs)' }}>
+                Reasons: {reasons.join('; ')}
+              </p>
+            )}
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: 'var(--space-xs)', marginTop: 'var(--space-sm)' }}>
+              <button type="button" className="btn-game-primary" onClick={() => onReview(flag, true)}>
+                Remove
+              </button>
+              <button type="button" className="btn-game-secondary" onClick={() => onReview(flag, false)}>
+                Keep
+              </button>
+              {flag.message &&
+                MUTE_DURATIONS.map(minutes => (
+                  <button
+                    key={minutes}
+                    type="button"
+                    className="btn-game-secondary"
+                    onClick={() => onMute(flag, minutes)}
+                  >
+                    Mute {minutes < 60 ? `${minutes}m` : `${minutes / 60}h`}
+                  </button>
+                ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React from 'react';
+import type { ChatMessage } from '../../types/database';
+import type { ChatThread } from '../../hooks/useChatMessages';
+import type { MentionCandidate } from '../../utils/chatMentions';
+import { ChatMessageItem, type ChatMessageActions } from './ChatMessageItem';
+
+interface ChatThreadPanelProps extends Omit<ChatMessageActions, 'onReply'> {
+  root: ChatMessage;
+  thread?: ChatThread;
+  currentUserId?: string;
+  isHost: boolean;
+  canModerate?: (message: ChatMessage) => boolean;
+  members?: MentionCandidate[];
+  mentionedMessageIds?: Set<string>;
+  onLoadOlder: () => void;
+  onClose: () => void;
+}
+
+export const ChatThreadPanel: React.FC<ChatThreadPanelProps> = ({
+  root,
+  thread,
+  currentUserId,
+  isHost,
+  canModerate,
+  members,
+  mentionedMessageIds,
+  onLoadOlder,
+  onClose,
+  ...actions
+}) => {
+  const renderMessage = (message: ChatMessage) => (
+    <ChatMessageItem
+      key={message.id}
+      message={message}
+      isOwnMessage={message.user_id === currentUserId}
+      isHost={isHost}
+      canModerate={canModerate?.(message)}
+      currentUserId={currentUserId}
+      members={members}
+      isMentioned={mentionedMessageIds?.has(message.id)}
+      {...actions}
+    />
+  );
+
+  return (
+    <div className="chat-thread" role="region" aria-label="Thread">
+      <button
+        type="button"
+        onClick={onClose}
+        style={{
+          background: 'transparent',
+          border: 'none',
+          color: 'var(--color-electric-600)',
+          fontSize: 'var(--text-sm)',
+          fontWeight: '600',
+          cursor: 'pointer',
+          marginBottom: 'var(--space-sm)',
+        }}
+      >
+        ← Back to chat
+      </button>
+
+      {renderMessage(root)}
+
+      <div
+        className="thread-replies"
+        style={{
+          borderLeft: '2px solid var(--color-electric-200)',
+          paddingLeft: 'var(--space-sm)',
+          marginLeft: 'var(--space-xs)',
+        }}
+      >
+        {thread?.nextCursor && (
+          <button
+            type="button"
+            onClick={onLoadOlder}
+            disabled={thread.isLoading}
+            className="btn-game-secondary"
+            style={{
+              fontSize: 'var(--text-xs)',
+              padding: '0.25rem var(--space-sm)',
+              borderRadius: '0.5rem',
+              marginBottom: 'var(--space-sm)',
+            }}
+          >
+            Load earlier replies
+          </button>
+        )}
+
+        {!thread || (thread.isLoading && thread.messages.length === 0) ? (
+          <p style={{ fontSize: 'var(--text-sm)', color: 'var(--color-neutral)' }}>Loading replies...</p>
+        ) : thread.messages.length === 0 ? (
+          <p style={{ fontSize: 'var(--text-sm)', color: 'var(--color-neutral)' }}>No replies yet. Start the thread!</p>
+        ) : (
+          thread.messages.map(renderMessage)
+        )}
+      </div>
+    </div>
+  );
+};
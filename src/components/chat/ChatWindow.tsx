@@ -3,8 +3,15 @@ import { ChatMessage } from '../../types/database';
 import { ChatMessageList } from './ChatMessageList';
 import { ChatInput } from './ChatInput';
 import { ChatHeader } from './ChatHeader';
+import { ChatThreadPanel } from './ChatThreadPanel';
+import { ChatModerationQueue } from './ChatModerationQueue';
 import { useChatMessages } from '../../hooks/useChatMessages';
+import { useChatModeration } from '../../hooks/useChatModeration';
+import { useChatMentions } from '../../hooks/useChatMentions';
 import { useAuth } from '../../hooks/useAuth';
+import { ChatService, type ChatMember } from '../../services/chatService';
+import { errorMessageService } from '../../services/errorMessageService';
+import { extractMentions } from '../../utils/chatMentions';
 
 interface ChatWindowProps {
   gameRoomId: string;
@@ -13,43 +20,143 @@ interface ChatWindowProps {
   className?: string;
 }
 
-export const ChatWindow: React.FC<ChatWindowProps> = ({ 
-  gameRoomId, 
-  teamId, 
+// How long mentions stay highlighted once the chat is open
+const MENTION_READ_DELAY_MS = 5000;
+
+export const ChatWindow: React.FC<ChatWindowProps> = ({
+  gameRoomId,
+  teamId,
   isHost = false,
-  className = '' 
+  className = ''
 }) => {
   const { user } = useAuth();
   const [isMinimized, setIsMinimized] = useState(false);
+  const [openThreadId, setOpenThreadId] = useState<string | null>(null);
+  const [showModeration, setShowModeration] = useState(false);
+  const [editing, setEditing] = useState<ChatMessage | null>(null);
+  const [members, setMembers] = useState<ChatMember[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  
+
   const {
     messages,
     sendMessage,
+    editMessage,
+    deleteMessage,
+    flagMessage,
+    loadOlder,
+    hasMore,
+    isLoadingOlder,
+    threads,
+    loadThread,
+    mutedUntil,
     isLoading,
     error,
     connectionState
-  } = useChatMessages(gameRoomId, teamId);
+  } = useChatMessages(gameRoomId, teamId, user?.id);
+
+  const isCaptain = members.some(member => member.user_id === user?.id && member.role === 'captain');
+  const moderation = useChatModeration(gameRoomId, isHost || isCaptain);
+  const { unreadCount: mentionCount, mentionedMessageIds, markAllRead } = useChatMentions(gameRoomId, user?.id);
 
-  // Auto-scroll to bottom when new messages arrive
+  useEffect(() => {
+    if (!teamId) return;
+    ChatService.getMembers(teamId).then(setMembers);
+  }, [teamId]);
+
+  // Hosts moderate every message; captains moderate their own team's
+  const canModerate = (message: ChatMessage) => isHost || (isCaptain && !!teamId && message.team_id === teamId);
+
+  const openThreadRoot = openThreadId ? messages.find(message => message.id === openThreadId) : undefined;
+  const openThread = openThreadId ? threads[openThreadId] : undefined;
+
+  // Auto-scroll to bottom when new messages arrive, but not when older
+  // history is loaded above
+  const newestMessageId = messages[messages.length - 1]?.id;
+  const newestReplyId = openThread?.messages[openThread.messages.length - 1]?.id;
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [newestMessageId, newestReplyId]);
+
+  useEffect(() => {
+    if (isMinimized || mentionCount === 0) return;
+    const timeout = setTimeout(markAllRead, MENTION_READ_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [isMinimized, mentionCount, markAllRead]);
+
+  // A thread whose first message was deleted closes
+  useEffect(() => {
+    if (openThreadId && !isLoading && !openThreadRoot) setOpenThreadId(null);
+  }, [openThreadId, openThreadRoot, isLoading]);
+
+  const reportError = (err: unknown) => {
+    errorMessageService.showGameError(err as Error, gameRoomId, 'chat');
+  };
+
+  const handleOpenThread = (message: ChatMessage) => {
+    setOpenThreadId(message.id);
+    setShowModeration(false);
+    if (!threads[message.id]) loadThread(message.id);
+  };
 
   const handleSendMessage = async (message: string, type: 'text' | 'emoji' = 'text') => {
     if (!user) return;
-    
+    const mentionedUserIds = type === 'text' ? extractMentions(message, members) : [];
+
+    if (editing) {
+      try {
+        await editMessage(editing.id, message, mentionedUserIds);
+        setEditing(null);
+      } catch (err) {
+        reportError(err);
+      }
+      return;
+    }
+
     await sendMessage({
       message,
       message_type: type,
       user_id: user.id,
       team_id: teamId,
-      game_room_id: gameRoomId
+      game_room_id: gameRoomId,
+      reply_to_id: openThreadRoot?.id ?? null,
+      mentioned_user_ids: mentionedUserIds
     });
   };
 
+  const handleDelete = async (message: ChatMessage) => {
+    if (!window.confirm('Are you sure you want to delete this message?')) return;
+    try {
+      await deleteMessage(message.id);
+    } catch (err) {
+      reportError(err);
+    }
+  };
+
+  const handleFlag = async (message: ChatMessage) => {
+    const reason = window.prompt('Why are you flagging this message? (optional)');
+    if (reason === null) return;
+    try {
+      await flagMessage(message.id, reason);
+    } catch (err) {
+      reportError(err);
+    }
+  };
+
+  const handleMute = (message: ChatMessage, minutes: number) => {
+    moderation.muteUser(message.user_id, minutes);
+  };
+
+  const messageActions = {
+    onEdit: setEditing,
+    onDelete: handleDelete,
+    onFlag: handleFlag,
+    onMute: handleMute,
+  };
+
+  const mutedMinutes = mutedUntil ? Math.max(Math.ceil((new Date(mutedUntil).getTime() - Date.now()) / 60000), 1) : 0;
+
   return (
-    <div 
+    <div
       className={`card-game ${isMinimized ? 'chat-minimized' : 'chat-expanded'} ${className}`}
       role="region"
       aria-label="Team chat"
@@ -65,23 +172,26 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
         transition: 'all var(--transition-normal)',
       }}
     >
-      <ChatHeader 
+      <ChatHeader
         isMinimized={isMinimized}
         onToggleMinimize={() => setIsMinimized(!isMinimized)}
         connectionState={connectionState}
         messageCount={messages.length}
+        mentionCount={mentionCount}
+        flagCount={moderation.flags.length}
+        onOpenModeration={isHost || isCaptain ? () => setShowModeration(!showModeration) : undefined}
       />
-      
+
       {!isMinimized && (
         <>
-          <div 
+          <div
             className="flex-1 overflow-y-auto p-4 bg-gradient-to-b from-white to-gray-50"
             role="log"
             aria-live="polite"
             aria-label="Chat messages"
           >
             {error && (
-              <div 
+              <div
                 className="error-message mb-4"
                 role="alert"
                 aria-live="assertive"
@@ -89,22 +199,65 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
                 <span>Oops! Chat connection got a bit mixed up</span>
               </div>
             )}
-            
-            <ChatMessageList 
-              messages={messages}
-              currentUserId={user?.id}
-              isHost={isHost}
-            />
-            
+
+            {showModeration ? (
+              <ChatModerationQueue
+                flags={moderation.flags}
+                isLoading={moderation.isLoading}
+                onReview={moderation.reviewFlag}
+                onMute={(flag, minutes) => flag.message && moderation.muteUser(flag.message.user_id, minutes)}
+                onClose={() => setShowModeration(false)}
+              />
+            ) : openThreadRoot ? (
+              <ChatThreadPanel
+                root={openThreadRoot}
+                thread={openThread}
+                currentUserId={user?.id}
+                isHost={isHost}
+                canModerate={canModerate}
+                members={members}
+                mentionedMessageIds={mentionedMessageIds}
+                onLoadOlder={() => loadThread(openThreadRoot.id)}
+                onClose={() => setOpenThreadId(null)}
+                {...messageActions}
+              />
+            ) : (
+              <ChatMessageList
+                messages={messages}
+                currentUserId={user?.id}
+                isHost={isHost}
+                canModerate={canModerate}
+                members={members}
+                mentionedMessageIds={mentionedMessageIds}
+                hasMore={hasMore}
+                isLoadingOlder={isLoadingOlder}
+                onLoadOlder={loadOlder}
+                onReply={handleOpenThread}
+                {...messageActions}
+              />
+            )}
+
             <div ref={messagesEndRef} aria-hidden="true" />
           </div>
-          
-          <ChatInput 
-            onSendMessage={handleSendMessage}
-            disabled={!connectionState.isConnected || isLoading}
-          />
+
+          {!showModeration && (
+            <ChatInput
+              onSendMessage={handleSendMessage}
+              disabled={!connectionState.isConnected || isLoading || !!mutedUntil}
+              placeholder={
+                mutedUntil
+                  ? `You're muted for ${mutedMinutes} more ${mutedMinutes === 1 ? 'minute' : 'minutes'}`
+                  : openThreadRoot
+                    ? 'Reply in thread...'
+                    : undefined
+              }
+              members={members}
+              editingMessage={editing?.message ?? null}
+              onCancelEdit={() => setEditing(null)}
+            />
+          )}
         </>
       )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -3,4 +3,6 @@ export { ChatHeader } from './ChatHeader';
 export { ChatMessageList } from './ChatMessageList';
 export { ChatMessageItem } from './ChatMessageItem';
 export { ChatInput } from './ChatInput';
-export { EmojiPicker } from './EmojiPicker';
\ No newline at end of file
+export { EmojiPicker } from './EmojiPicker';
+export { ChatThreadPanel } from './ChatThreadPanel';
+export { ChatModerationQueue } from './ChatModerationQueue';
\ No newline at end of file
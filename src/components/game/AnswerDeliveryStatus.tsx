@@ -0,0 +1,40 @@
+import React from 'react';
+import { AlertCircle, CheckCircle, Clock, Send } from 'lucide-react';
+import type { OutboxEntry, OutboxStatus } from '../../services/answerOutbox';
+
+export interface AnswerDeliveryStatusProps {
+  // Where the answer is on its way to the server, from the answer outbox
+  delivery: Pick<OutboxEntry, 'status' | 'error'>;
+  className?: string;
+}
+
+const DELIVERY_STATUS: Record<OutboxStatus, { label: string; className: string }> = {
+  queued: { label: 'Saved on this device, will send when you reconnect', className: 'bg-yellow-50 border-yellow-200 text-yellow-800' },
+  sent: { label: 'Sending…', className: 'bg-blue-50 border-blue-200 text-blue-800' },
+  acknowledged: { label: 'Received', className: 'bg-green-50 border-green-200 text-green-800' },
+  rejected: { label: 'Not accepted', className: 'bg-red-50 border-red-200 text-red-800' },
+};
+
+const AnswerDeliveryStatus: React.FC<AnswerDeliveryStatusProps> = ({ delivery, className = '' }) => (
+  <div className={`p-3 border rounded-md ${DELIVERY_STATUS[delivery.status].className} ${className}`}>
+    <div className="flex items-center space-x-2">
+      {delivery.status === 'acknowledged' ? (
+        <CheckCircle className="w-4 h-4" />
+      ) : delivery.status === 'rejected' ? (
+        <AlertCircle className="w-4 h-4" />
+      ) : delivery.status === 'sent' ? (
+        <Send className="w-4 h-4" />
+      ) : (
+        <Clock className="w-4 h-4" />
+      )}
+      <p className="text-sm font-medium">
+        {DELIVERY_STATUS[delivery.status].label}
+      </p>
+    </div>
+    {delivery.status === 'rejected' && delivery.error && (
+      <p className="mt-1 text-xs">{delivery.error}</p>
+    )}
+  </div>
+);
+
+export default AnswerDeliveryStatus;
@@ -15,6 +15,8 @@ import {
   SubmissionEventType,
 } from '../../services/answerSubmissionManager';
 import { Question } from '../../types/game';
+import type { OutboxEntry } from '../../services/answerOutbox';
+import AnswerDeliveryStatus from './AnswerDeliveryStatus';
 
 export interface AnswerSubmissionProps {
   question: Question;
@@ -30,6 +32,8 @@ export interface AnswerSubmissionProps {
   onValidationError?: (errors: string[]) => void;
   onSubmissionLocked?: (submissionId: string) => void;
   onSubmissionUnlocked?: (submissionId: string) => void;
+  // Where the answer is on its way to the server, from the answer outbox
+  delivery?: Pick<OutboxEntry, 'status' | 'error'>;
 }
 
 export interface AnswerSubmissionState {
@@ -57,6 +61,7 @@ const AnswerSubmission: React.FC<AnswerSubmissionProps> = ({
   onValidationError,
   onSubmissionLocked,
   onSubmissionUnlocked,
+  delivery,
 }) => {
   const [state, setState] = useState<AnswerSubmissionState>(() => {
     const existingSubmissionId =
@@ -496,6 +501,9 @@ const AnswerSubmission: React.FC<AnswerSubmissionProps> = ({
         </div>
       )}
 
+      {/* Delivery Status */}
+      {delivery && <AnswerDeliveryStatus delivery={delivery} className="mb-4" />}
+
       {/* Action Buttons */}
       <div className="flex items-center justify-between">
         <div className="flex items-center space-x-2">
@@ -37,7 +37,12 @@ import {
   AudioQuestion,
   VideoRound,
   VideoQuestion,
+  VideoLoadStatus,
+  AudioLoadStatus,
   TeamChallengeRound,
+  FinalJeopardyRound,
+  FinalJeopardyEntry,
+  FinalJeopardyPhase,
 } from '../../types/specialRounds';
 
 // Wager Round Components
@@ -625,12 +630,45 @@ export const LightningRoundDisplay: React.FC<LightningRoundDisplayProps> = ({
   );
 };
 
+// Shared media helpers
+const getMaxPlays = (allowReplay: boolean, maxReplays: number) =>
+  allowReplay ? Math.max(1, maxReplays) : 1;
+
+const formatTime = (time: number) => {
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const MediaLoadNotice: React.FC<{
+  status?: AudioLoadStatus | VideoLoadStatus;
+  kind: 'audio' | 'video';
+}> = ({ status, kind }) => {
+  if (status === 'loading') {
+    return (
+      <p className="text-sm text-gray-500 mt-2">Loading {kind}...</p>
+    );
+  }
+
+  if (status === 'error') {
+    return (
+      <p className="text-sm text-red-600 mt-2">
+        The {kind} didn't preload. It will stream when played.
+      </p>
+    );
+  }
+
+  return null;
+};
+
 // Audio Round Components
 export interface AudioRoundDisplayProps {
   audioRound: AudioRound;
   currentQuestion: AudioQuestion;
   onAudioPlay?: (questionId: string) => void;
-  onAudioPause?: (questionId: string) => void;
+  onAudioPause?: (questionId: string, currentTime: number) => void;
+  onAudioProgress?: (questionId: string, currentTime: number) => void;
+  onAudioEnded?: (questionId: string) => void;
   className?: string;
 }
 
@@ -639,26 +677,34 @@ export const AudioRoundDisplay: React.FC<AudioRoundDisplayProps> = ({
   currentQuestion,
   onAudioPlay,
   onAudioPause,
+  onAudioProgress,
+  onAudioEnded,
   className = '',
 }) => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
-  const [duration, setDuration] = useState(0);
+  const [duration, setDuration] = useState(currentQuestion.audioDuration || 0);
   const [playCount, setPlayCount] = useState(0);
   const audioRef = useRef<HTMLAudioElement>(null);
 
   const settings = audioRound.settings;
-  const canReplay = !settings.allowReplay || playCount < settings.maxReplays;
+  const maxPlays = getMaxPlays(settings.allowReplay, settings.maxReplays);
+  const canReplay = currentTime > 0 || playCount < maxPlays;
+  const loadStatus = audioRound.audioLoadingStatus.get(currentQuestion.id);
 
   useEffect(() => {
     const audio = audioRef.current;
     if (!audio) return;
 
-    const updateTime = () => setCurrentTime(audio.currentTime);
+    const updateTime = () => {
+      setCurrentTime(audio.currentTime);
+      onAudioProgress?.(currentQuestion.id, audio.currentTime);
+    };
     const updateDuration = () => setDuration(audio.duration);
     const handleEnded = () => {
       setIsPlaying(false);
-      setPlayCount(prev => prev + 1);
+      setCurrentTime(0);
+      onAudioEnded?.(currentQuestion.id);
     };
 
     audio.addEventListener('timeupdate', updateTime);
@@ -670,7 +716,7 @@ export const AudioRoundDisplay: React.FC<AudioRoundDisplayProps> = ({
       audio.removeEventListener('loadedmetadata', updateDuration);
       audio.removeEventListener('ended', handleEnded);
     };
-  }, []);
+  }, [currentQuestion.id, onAudioProgress, onAudioEnded]);
 
   const togglePlayback = () => {
     const audio = audioRef.current;
@@ -679,20 +725,17 @@ export const AudioRoundDisplay: React.FC<AudioRoundDisplayProps> = ({
     if (isPlaying) {
       audio.pause();
       setIsPlaying(false);
-      onAudioPause?.(currentQuestion.id);
+      onAudioPause?.(currentQuestion.id, audio.currentTime);
     } else if (canReplay) {
+      if (audio.currentTime === 0) {
+        setPlayCount(prev => prev + 1);
+      }
       audio.play();
       setIsPlaying(true);
       onAudioPlay?.(currentQuestion.id);
     }
   };
 
-  const formatTime = (time: number) => {
-    const minutes = Math.floor(time / 60);
-    const seconds = Math.floor(time % 60);
-    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
-  };
-
   return (
     <div
       className={`bg-white border-2 border-green-200 rounded-lg p-6 ${className}`}
@@ -701,6 +744,7 @@ export const AudioRoundDisplay: React.FC<AudioRoundDisplayProps> = ({
         <div className="text-6xl mb-2">🎵</div>
         <h2 className="text-2xl font-bold text-green-900">Audio Round</h2>
         <p className="text-green-700">Listen carefully to the audio clip</p>
+        <MediaLoadNotice status={loadStatus} kind="audio" />
       </div>
 
       <audio
@@ -747,7 +791,7 @@ export const AudioRoundDisplay: React.FC<AudioRoundDisplayProps> = ({
 
             {settings.allowReplay && (
               <div className="text-center text-sm text-gray-600">
-                Plays remaining: {Math.max(0, settings.maxReplays - playCount)}
+                Plays remaining: {Math.max(0, maxPlays - playCount)}
               </div>
             )}
           </div>
@@ -768,6 +812,151 @@ export const AudioRoundDisplay: React.FC<AudioRoundDisplayProps> = ({
   );
 };
 
+// Video Round Components
+export interface VideoRoundDisplayProps {
+  videoRound: VideoRound;
+  currentQuestion: VideoQuestion;
+  onVideoPlay?: (questionId: string) => void;
+  onVideoPause?: (questionId: string, currentTime: number) => void;
+  onVideoProgress?: (questionId: string, currentTime: number) => void;
+  onVideoEnded?: (questionId: string) => void;
+  className?: string;
+}
+
+export const VideoRoundDisplay: React.FC<VideoRoundDisplayProps> = ({
+  videoRound,
+  currentQuestion,
+  onVideoPlay,
+  onVideoPause,
+  onVideoProgress,
+  onVideoEnded,
+  className = '',
+}) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [playCount, setPlayCount] = useState(0);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  const settings = videoRound.settings;
+  const maxPlays = getMaxPlays(settings.allowReplay, settings.maxReplays);
+  const canPlay = currentTime > 0 || playCount < maxPlays;
+  const loadStatus = videoRound.videoLoadingStatus.get(currentQuestion.id);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const handlePlay = () => {
+      if (video.currentTime === 0) {
+        setPlayCount(prev => prev + 1);
+      }
+      setIsPlaying(true);
+      onVideoPlay?.(currentQuestion.id);
+    };
+    const handlePause = () => {
+      setIsPlaying(false);
+      if (!video.ended) {
+        onVideoPause?.(currentQuestion.id, video.currentTime);
+      }
+    };
+    const handleTimeUpdate = () => {
+      setCurrentTime(video.currentTime);
+      onVideoProgress?.(currentQuestion.id, video.currentTime);
+    };
+    const handleEnded = () => {
+      setIsPlaying(false);
+      setCurrentTime(0);
+      video.currentTime = 0;
+      onVideoEnded?.(currentQuestion.id);
+    };
+
+    video.addEventListener('play', handlePlay);
+    video.addEventListener('pause', handlePause);
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    video.addEventListener('ended', handleEnded);
+
+    return () => {
+      video.removeEventListener('play', handlePlay);
+      video.removeEventListener('pause', handlePause);
+      video.removeEventListener('timeupdate', handleTimeUpdate);
+      video.removeEventListener('ended', handleEnded);
+    };
+  }, [currentQuestion.id, onVideoPlay, onVideoPause, onVideoProgress, onVideoEnded]);
+
+  const togglePlayback = () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (isPlaying) {
+      video.pause();
+    } else if (canPlay) {
+      video.play();
+    }
+  };
+
+  return (
+    <div
+      className={`bg-white border-2 border-purple-200 rounded-lg p-6 ${className}`}
+    >
+      <div className="text-center mb-6">
+        <div className="text-6xl mb-2">🎬</div>
+        <h2 className="text-2xl font-bold text-purple-900">Video Round</h2>
+        <p className="text-purple-700">Watch the clip closely</p>
+        <MediaLoadNotice status={loadStatus} kind="video" />
+      </div>
+
+      <div className="bg-black rounded-lg overflow-hidden mb-4">
+        <video
+          ref={videoRef}
+          src={currentQuestion.videoUrl}
+          poster={currentQuestion.thumbnailUrl}
+          preload={settings.preloadVideo ? 'auto' : 'metadata'}
+          controls={settings.showControls && settings.allowSeek}
+          playsInline
+          className="w-full max-h-96"
+        >
+          {settings.showSubtitles && currentQuestion.subtitleUrl && (
+            <track
+              kind="subtitles"
+              src={currentQuestion.subtitleUrl}
+              srcLang="en"
+              label="Subtitles"
+              default
+            />
+          )}
+        </video>
+      </div>
+
+      {settings.showControls && (
+        <div className="flex items-center justify-between bg-purple-50 border border-purple-200 rounded-lg p-4">
+          <button
+            onClick={togglePlayback}
+            disabled={!canPlay && !isPlaying}
+            className="flex items-center space-x-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isPlaying ? (
+              <Pause className="w-5 h-5" />
+            ) : (
+              <Play className="w-5 h-5" />
+            )}
+            <span>{isPlaying ? 'Pause' : 'Play'}</span>
+          </button>
+
+          <span className="text-sm font-mono text-gray-600">
+            {formatTime(currentTime)} / {formatTime(currentQuestion.videoDuration)}
+          </span>
+
+          {settings.allowReplay && (
+            <span className="text-sm text-gray-600">
+              Plays remaining: {Math.max(0, maxPlays - playCount)}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
 // Team Challenge Round Components
 export interface TeamChallengeRoundDisplayProps {
   teamChallengeRound: TeamChallengeRound;
@@ -795,6 +984,10 @@ export const TeamChallengeRoundDisplay: React.FC<
   const [timeRemaining, setTimeRemaining] = useState(0);
 
   const teamSubmission = teamChallengeRound.teamSubmissions.get(teamId);
+  const discussionLog =
+    teamChallengeRound.discussionLogs?.get(teamId) ||
+    teamSubmission?.discussionLog ||
+    [];
   const settings = teamChallengeRound.settings;
 
   useEffect(() => {
@@ -856,7 +1049,12 @@ export const TeamChallengeRoundDisplay: React.FC<
             </div>
 
             <div className="space-y-3 max-h-48 overflow-y-auto mb-4">
-              {teamSubmission?.discussionLog?.map((entry, index) => (
+              {discussionLog.length === 0 && (
+                <p className="text-gray-500 text-center py-4">
+                  No discussion yet...
+                </p>
+              )}
+              {discussionLog.map((entry, index) => (
                 <div key={index} className="flex space-x-3">
                   <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
                     <span className="text-blue-600 font-medium text-sm">
@@ -864,7 +1062,18 @@ export const TeamChallengeRoundDisplay: React.FC<
                     </span>
                   </div>
                   <div className="flex-1">
-                    <div className="bg-gray-50 rounded-lg p-3">
+                    <div
+                      className={`rounded-lg p-3 ${
+                        entry.participantId === participantId
+                          ? 'bg-blue-50'
+                          : 'bg-gray-50'
+                      }`}
+                    >
+                      {entry.type !== 'message' && (
+                        <span className="text-xs font-semibold uppercase text-blue-600">
+                          {entry.type}
+                        </span>
+                      )}
                       <p className="text-sm text-gray-900">{entry.message}</p>
                       <p className="text-xs text-gray-500 mt-1">
                         {entry.timestamp.toLocaleTimeString()}
@@ -872,11 +1081,7 @@ export const TeamChallengeRoundDisplay: React.FC<
                     </div>
                   </div>
                 </div>
-              )) || (
-                <p className="text-gray-500 text-center py-4">
-                  No discussion yet...
-                </p>
-              )}
+              ))}
             </div>
 
             <form onSubmit={handleDiscussionSubmit} className="flex space-x-3">
@@ -935,8 +1140,11 @@ export const TeamChallengeRoundDisplay: React.FC<
                 {teamSubmission.answer}
               </p>
               <p className="text-xs text-green-600 mt-1">
-                Submitted by Captain at{' '}
-                {teamSubmission.submittedAt.toLocaleTimeString()}
+                Submitted by{' '}
+                {teamSubmission.captainId === participantId
+                  ? 'you'
+                  : teamSubmission.captainId}{' '}
+                at {teamSubmission.submittedAt.toLocaleTimeString()}
               </p>
             </div>
           )}
@@ -954,3 +1162,213 @@ export const TeamChallengeRoundDisplay: React.FC<
     </div>
   );
 };
+
+// Final Jeopardy Round Components
+export interface FinalJeopardyRoundDisplayProps {
+  finalJeopardyRound: FinalJeopardyRound;
+  participantId: string;
+  entries: FinalJeopardyEntry[]; // Already masked for this viewer
+  maxWager: number;
+  timeRemaining?: number;
+  isHost?: boolean;
+  onWagerSubmit?: (amount: number) => void;
+  onAnswerSubmit?: (answer: string) => void;
+  onRevealNext?: () => void;
+  onJudgeAnswer?: (participantId: string, isCorrect: boolean) => void;
+  className?: string;
+}
+
+export const FinalJeopardyRoundDisplay: React.FC<
+  FinalJeopardyRoundDisplayProps
+> = ({
+  finalJeopardyRound,
+  participantId,
+  entries,
+  maxWager,
+  timeRemaining = 0,
+  isHost = false,
+  onWagerSubmit,
+  onAnswerSubmit,
+  onRevealNext,
+  onJudgeAnswer,
+  className = '',
+}) => {
+  const [wagerAmount, setWagerAmount] = useState(0);
+  const [answer, setAnswer] = useState('');
+
+  const { phase, settings } = finalJeopardyRound;
+  const question = finalJeopardyRound.questions[0];
+  const ownEntry = entries.find(entry => entry.participantId === participantId);
+  const showQuestion =
+    phase !== FinalJeopardyPhase.CATEGORY_REVEAL &&
+    phase !== FinalJeopardyPhase.WAGER_SUBMISSION;
+
+  const handleWagerSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (wagerAmount >= 0 && wagerAmount <= maxWager) {
+      onWagerSubmit?.(wagerAmount);
+    }
+  };
+
+  const handleAnswerSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (answer.trim()) {
+      onAnswerSubmit?.(answer.trim());
+    }
+  };
+
+  return (
+    <div
+      className={`bg-gradient-to-br from-indigo-900 to-blue-900 text-white rounded-lg p-6 ${className}`}
+    >
+      <div className="text-center mb-6">
+        <Trophy className="w-10 h-10 mx-auto mb-2 text-yellow-400" />
+        <h2 className="text-2xl font-bold">Final Round</h2>
+        <p className="text-blue-200 uppercase tracking-wide mt-1">
+          {settings.category || 'Mystery Category'}
+        </p>
+        {finalJeopardyRound.phaseDeadline && (
+          <div className="flex items-center justify-center space-x-2 mt-2">
+            <Timer className="w-4 h-4 text-orange-300" />
+            <span className="font-mono font-bold text-orange-300">
+              {timeRemaining}s
+            </span>
+          </div>
+        )}
+      </div>
+
+      {showQuestion && question && (
+        <div className="bg-blue-800 border border-blue-600 rounded-lg p-6 mb-6 text-center">
+          <p className="text-xl font-semibold">{question.text}</p>
+        </div>
+      )}
+
+      {phase === FinalJeopardyPhase.CATEGORY_REVEAL && (
+        <p className="text-center text-blue-100">
+          Decide how much of your score to risk on this category. Wagers stay
+          secret until the reveal.
+        </p>
+      )}
+
+      {phase === FinalJeopardyPhase.WAGER_SUBMISSION && ownEntry && !isHost && (
+        <form onSubmit={handleWagerSubmit} className="space-y-3">
+          <label className="block text-sm text-blue-100">
+            Your wager (0 - {maxWager})
+          </label>
+          <input
+            type="number"
+            min={0}
+            max={maxWager}
+            value={wagerAmount}
+            onChange={e => setWagerAmount(Number(e.target.value))}
+            className="w-full px-3 py-2 rounded-lg text-gray-900"
+          />
+          <button
+            type="submit"
+            className="w-full flex items-center justify-center space-x-2 bg-yellow-500 text-gray-900 font-semibold px-4 py-3 rounded-lg hover:bg-yellow-400"
+          >
+            <Lock className="w-5 h-5" />
+            <span>{ownEntry.wagerSubmittedAt ? 'Update Wager' : 'Lock In Wager'}</span>
+          </button>
+          {ownEntry.wagerAmount !== undefined && (
+            <p className="text-sm text-center text-blue-200">
+              Current wager: {ownEntry.wagerAmount}
+            </p>
+          )}
+        </form>
+      )}
+
+      {phase === FinalJeopardyPhase.ANSWER_SUBMISSION && ownEntry && !isHost && (
+        <form onSubmit={handleAnswerSubmit} className="space-y-3">
+          <input
+            type="text"
+            value={answer}
+            onChange={e => setAnswer(e.target.value)}
+            placeholder="Your final answer..."
+            className="w-full px-3 py-2 rounded-lg text-gray-900"
+          />
+          <button
+            type="submit"
+            disabled={!answer.trim()}
+            className="w-full flex items-center justify-center space-x-2 bg-green-500 px-4 py-3 rounded-lg hover:bg-green-400 disabled:opacity-50"
+          >
+            <Send className="w-5 h-5" />
+            <span>{ownEntry.answerSubmittedAt ? 'Update Answer' : 'Submit Answer'}</span>
+          </button>
+        </form>
+      )}
+
+      <div className="mt-6 space-y-2">
+        {entries.map(entry => (
+          <div
+            key={entry.participantId}
+            className={`flex items-center justify-between rounded-lg px-4 py-2 ${
+              entry.isRevealed ? 'bg-blue-700' : 'bg-blue-800/60'
+            }`}
+          >
+            <span className="font-medium">
+              {entry.participantId === participantId ? 'You' : entry.participantId}
+            </span>
+            {entry.isRevealed ? (
+              <span className="flex items-center space-x-3 text-sm">
+                <span>{entry.answer || 'No answer'}</span>
+                <span
+                  className={entry.isCorrect ? 'text-green-300' : 'text-red-300'}
+                >
+                  {entry.isCorrect ? '+' : '-'}
+                  {entry.wagerAmount ?? 0}
+                </span>
+                <span className="font-bold">{entry.finalScore}</span>
+              </span>
+            ) : (
+              <span className="flex items-center space-x-3 text-sm text-blue-200">
+                {isHost && entry.answer !== undefined && (
+                  <>
+                    <span>
+                      {entry.answer} ({entry.wagerAmount ?? 0})
+                    </span>
+                    <button
+                      onClick={() => onJudgeAnswer?.(entry.participantId, !entry.isCorrect)}
+                      className={`px-2 py-1 rounded text-xs ${
+                        entry.isCorrect ? 'bg-green-600' : 'bg-red-600'
+                      }`}
+                    >
+                      {entry.isCorrect ? 'Correct' : 'Incorrect'}
+                    </button>
+                  </>
+                )}
+                {!isHost && (
+                  <>
+                    {entry.wagerSubmittedAt ? (
+                      <Lock className="w-4 h-4" />
+                    ) : (
+                      <Unlock className="w-4 h-4" />
+                    )}
+                    <span>
+                      {entry.answerSubmittedAt
+                        ? 'Answer locked'
+                        : entry.wagerSubmittedAt
+                          ? 'Wager locked'
+                          : 'Waiting'}
+                    </span>
+                  </>
+                )}
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {isHost && phase === FinalJeopardyPhase.REVEAL && (
+        <button
+          onClick={onRevealNext}
+          disabled={finalJeopardyRound.revealQueue.length === 0}
+          className="w-full mt-4 flex items-center justify-center space-x-2 bg-yellow-500 text-gray-900 font-semibold px-4 py-3 rounded-lg hover:bg-yellow-400 disabled:opacity-50"
+        >
+          <Star className="w-5 h-5" />
+          <span>Reveal Next ({finalJeopardyRound.revealQueue.length} left)</span>
+        </button>
+      )}
+    </div>
+  );
+};
@@ -3,8 +3,9 @@ import {
   GameTimer,
   TimerPhase,
   TimerEventType,
-  TimerEvent,
+  type TimerEvent,
 } from '../../services/gameTimer';
+import type { ClockSyncStatus } from '../../hooks/useClockSync';
 import {
   Clock,
   Play,
@@ -12,6 +13,7 @@ import {
   Square,
   RotateCcw,
   AlertTriangle,
+  Wifi,
 } from 'lucide-react';
 
 export interface TimerDisplayProps {
@@ -22,6 +24,8 @@ export interface TimerDisplayProps {
   showProgress?: boolean;
   showMilliseconds?: boolean;
   className?: string;
+  // Lets players see their clock is in step with the server's
+  clockSync?: ClockSyncStatus;
   onExpired?: () => void;
   onWarning?: () => void;
   onCritical?: () => void;
@@ -45,6 +49,7 @@ const TimerDisplay: React.FC<TimerDisplayProps> = ({
   showProgress = true,
   showMilliseconds = false,
   className = '',
+  clockSync,
   onExpired,
   onWarning,
   onCritical,
@@ -192,12 +197,22 @@ const TimerDisplay: React.FC<TimerDisplayProps> = ({
   const handleStop = () => timer.stop();
   const handleReset = () => timer.reset();
 
+  const clockSyncLabel = clockSync?.isSynced
+    ? `Synced with server${clockSync.roundTrip !== null ? ` (±${Math.round(clockSync.roundTrip / 2)}ms)` : ''}`
+    : 'Syncing clock...';
+
   const renderMinimal = () => (
     <div className={`inline-flex items-center space-x-2 ${className}`}>
       <Clock className={`${sizeClasses.icon} ${phaseClasses.icon}`} />
       <span className={`${sizeClasses.time} ${phaseClasses.time} tabular-nums`}>
         {state.formattedTime}
       </span>
+      {clockSync && (
+        <Wifi
+          className={`w-3 h-3 ${clockSync.isSynced ? 'text-green-500' : 'text-gray-400'}`}
+          aria-label={clockSyncLabel}
+        />
+      )}
     </div>
   );
 
@@ -368,6 +383,13 @@ const TimerDisplay: React.FC<TimerDisplayProps> = ({
         </div>
       )}
 
+      {clockSync && (
+        <div className="mt-3 flex items-center justify-center space-x-1 text-xs text-gray-500">
+          <Wifi className="w-3 h-3" />
+          <span>{clockSyncLabel}</span>
+        </div>
+      )}
+
       {/* Phase Indicator */}
       <div className="mt-3 text-center">
         <span
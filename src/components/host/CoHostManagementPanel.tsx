@@ -0,0 +1,221 @@
+import { useState, useEffect, useCallback } from 'react';
+import { UserPlus, Users, X, AlertTriangle, Clock } from 'lucide-react';
+import { CoHostService } from '../../services/coHostService';
+import {
+  CO_HOST_ROLE_PRESETS,
+  type CoHostInvite,
+  type GameCoHost,
+  type HostRole,
+} from '../../types/hostControls';
+
+interface CoHostManagementPanelProps {
+  gameId: string;
+  // Whether the viewer can change or remove existing co-hosts (host only)
+  canManage: boolean;
+  // Roles the viewer is allowed to hand out
+  canGrant: (role: HostRole) => boolean;
+  className?: string;
+}
+
+export function CoHostManagementPanel({
+  gameId,
+  canManage,
+  canGrant,
+  className = '',
+}: CoHostManagementPanelProps) {
+  const grantableRoles = CO_HOST_ROLE_PRESETS.filter(canGrant);
+
+  const [coHosts, setCoHosts] = useState<GameCoHost[]>([]);
+  const [invites, setInvites] = useState<CoHostInvite[]>([]);
+  const [inviteeId, setInviteeId] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [roleId, setRoleId] = useState(grantableRoles[0]?.id ?? '');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setError(null);
+      const [loadedCoHosts, loadedInvites] = await Promise.all([
+        CoHostService.getCoHosts(gameId),
+        CoHostService.getPendingInvites(gameId),
+      ]);
+      setCoHosts(loadedCoHosts);
+      setInvites(loadedInvites);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load co-hosts');
+    }
+  }, [gameId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = async (task: () => Promise<unknown>) => {
+    try {
+      setIsBusy(true);
+      setError(null);
+      await task();
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleInvite = () => {
+    const role = grantableRoles.find(preset => preset.id === roleId);
+    if (!role || !inviteeId.trim()) return;
+
+    run(async () => {
+      await CoHostService.inviteCoHost(gameId, inviteeId.trim(), role, displayName.trim() || undefined);
+      setInviteeId('');
+      setDisplayName('');
+    });
+  };
+
+  const handleRoleChange = (coHost: GameCoHost, newRoleId: string) => {
+    const role = CO_HOST_ROLE_PRESETS.find(preset => preset.id === newRoleId);
+    if (!role) return;
+    run(() => CoHostService.updateCoHostRole(gameId, coHost.userId, role));
+  };
+
+  return (
+    <div className={`bg-white rounded-lg p-4 space-y-4 ${className}`}>
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+          <Users className="w-5 h-5 mr-2 text-blue-500" />
+          Co-hosts
+        </h3>
+        <p className="text-sm text-gray-600">
+          Invite people to help run the game. Each role only unlocks the
+          controls it needs.
+        </p>
+      </div>
+
+      {error && (
+        <div className="flex items-center p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {grantableRoles.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+          <input
+            type="text"
+            value={inviteeId}
+            onChange={e => setInviteeId(e.target.value)}
+            placeholder="Account ID"
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="text"
+            value={displayName}
+            onChange={e => setDisplayName(e.target.value)}
+            placeholder="Name (optional)"
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <select
+            value={roleId}
+            onChange={e => setRoleId(e.target.value)}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {grantableRoles.map(role => (
+              <option key={role.id} value={role.id}>
+                {role.name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleInvite}
+            disabled={isBusy || !inviteeId.trim()}
+            className="flex items-center justify-center px-3 py-2 text-sm font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            <UserPlus className="w-4 h-4 mr-1" />
+            Invite
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {coHosts.map(coHost => (
+          <div
+            key={coHost.userId}
+            className="flex items-center justify-between p-3 border border-gray-200 rounded-lg"
+          >
+            <div>
+              <div className="font-medium text-sm">
+                {coHost.displayName || coHost.userId}
+              </div>
+              <div className="text-xs text-gray-500">
+                {coHost.role.permissions.join(', ')}
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              {canManage ? (
+                <select
+                  value={coHost.role.id}
+                  onChange={e => handleRoleChange(coHost, e.target.value)}
+                  disabled={isBusy}
+                  className="px-2 py-1 text-sm border border-gray-300 rounded-lg"
+                >
+                  {!CO_HOST_ROLE_PRESETS.some(preset => preset.id === coHost.role.id) && (
+                    <option value={coHost.role.id}>{coHost.role.name}</option>
+                  )}
+                  {CO_HOST_ROLE_PRESETS.map(role => (
+                    <option key={role.id} value={role.id}>
+                      {role.name}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <span className="text-sm text-gray-600">{coHost.role.name}</span>
+              )}
+              {canManage && (
+                <button
+                  onClick={() => run(() => CoHostService.removeCoHost(gameId, coHost.userId))}
+                  disabled={isBusy}
+                  className="p-1 text-gray-400 hover:text-red-600 rounded"
+                  title="Remove co-host"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {invites.map(invite => (
+          <div
+            key={invite.id}
+            className="flex items-center justify-between p-3 border border-dashed border-gray-300 rounded-lg"
+          >
+            <div className="flex items-center space-x-2 text-sm text-gray-600">
+              <Clock className="w-4 h-4" />
+              <span>
+                {invite.displayName || invite.inviteeId} invited as {invite.role.name}
+              </span>
+            </div>
+            <button
+              onClick={() => run(() => CoHostService.revokeInvite(invite.id))}
+              disabled={isBusy}
+              className="text-sm text-gray-500 hover:text-red-600"
+            >
+              Revoke
+            </button>
+          </div>
+        ))}
+
+        {coHosts.length === 0 && invites.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-2">
+            Nobody else is helping run this game.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default CoHostManagementPanel;
@@ -17,8 +17,20 @@ import {
   Activity,
   ArrowRight,
   RotateCcw,
+  Lock,
+  XCircle,
 } from 'lucide-react';
 import { useGameController } from '../../hooks/useGameController';
+import { useHostPermissions } from '../../hooks/useHostPermissions';
+import { useHostCommands } from '../../hooks/useHostCommands';
+import {
+  PHASE_ADVANCE_ACTIONS,
+  createAdvanceCommand,
+  createFlowCommand,
+  createGameActionCommand,
+  createRejectAnswerCommand,
+} from '../../services/hostCommands';
+import { HostActionHistory } from './HostActionHistory';
 import { GameProgressionPhase } from '../../types/gameController';
 import '../../styles/gameflow.css';
 
@@ -201,9 +213,16 @@ export function GameFlowControls({
     endGame,
     advancePhase,
     skipQuestion,
+    getFlowSnapshot,
+    restoreFlow,
+    getNextPhase,
+    gameStateManager,
     error,
     clearError,
   } = useGameController(gameId);
+  const { role, canPerform } = useHostPermissions(gameId);
+  const commands = useHostCommands(gameId);
+  const flow = { getFlowSnapshot, restoreFlow };
 
   const [confirmDialog, setConfirmDialog] = useState<{
     isOpen: boolean;
@@ -316,7 +335,9 @@ export function GameFlowControls({
       onConfirm: async () => {
         setIsLoading(true);
         try {
-          await skipQuestion();
+          await commands.run(
+            createFlowCommand(flow, 'skip-question', skipQuestion)
+          );
         } catch (err) {
           console.error('Failed to skip question:', err);
         } finally {
@@ -330,7 +351,9 @@ export function GameFlowControls({
   const handleAdvancePhase = async () => {
     setIsLoading(true);
     try {
-      await advancePhase();
+      await commands.run(
+        createAdvanceCommand(flow, getNextPhase(), () => advancePhase())
+      );
     } catch (err) {
       console.error('Failed to advance phase:', err);
     } finally {
@@ -338,6 +361,56 @@ export function GameFlowControls({
     }
   };
 
+  const handleLockAnswers = async () => {
+    if (!gameStateManager) return;
+
+    setIsLoading(true);
+    try {
+      await commands.run(
+        createGameActionCommand(gameStateManager, 'lock-answers', {
+          type: 'lock-answers',
+        })
+      );
+    } catch (err) {
+      console.error('Failed to lock answers:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRejectAnswer = async (participantId: string, answer: string) => {
+    if (!gameStateManager) return;
+
+    setIsLoading(true);
+    try {
+      await commands.run(
+        createRejectAnswerCommand(gameStateManager, participantId, `"${answer}"`)
+      );
+    } catch (err) {
+      console.error('Failed to reject answer:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // The advance button does whatever the next phase needs permission for
+  const nextPhase = isInitialized ? getNextPhase() : null;
+  const advanceAction =
+    (nextPhase && PHASE_ADVANCE_ACTIONS[nextPhase]?.type) || 'next-question';
+
+  // Once answers are revealed, the host can overrule a lucky match
+  const revealedQuestion =
+    gameStateManager?.getPhase() === 'scoring'
+      ? gameStateManager.getCurrentQuestion()
+      : undefined;
+  const acceptedAnswers =
+    revealedQuestion?.submissions.filter(submission => submission.isCorrect) ??
+    [];
+
+  // Only offer to undo or redo what this host could have done themselves
+  const lastAction = commands.history.done[commands.history.done.length - 1];
+  const nextRedo = commands.history.undone[0];
+
   const formatPhase = (phase: GameProgressionPhase) => {
     return phase.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
   };
@@ -490,6 +563,14 @@ export function GameFlowControls({
           </div>
         )}
 
+        {isInitialized && role && !canPerform('start-game') && (
+          <div className="flex items-center mb-4 p-3 bg-white/70 rounded-xl border border-yellow-200 text-sm text-gray-700">
+            <AlertTriangle className="w-4 h-4 mr-2 text-yellow-500 flex-shrink-0" />
+            Your role ({role.name}) can't control the game flow. Ask the host
+            for the Co-host role if you need to.
+          </div>
+        )}
+
         {isInitialized && (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
             {/* Start/Resume Game */}
@@ -498,7 +579,9 @@ export function GameFlowControls({
                 whileHover={{ scale: 1.02, y: -2 }}
                 whileTap={{ scale: 0.98 }}
                 onClick={isPaused ? resumeGame : handleStartGame}
-                disabled={isLoading}
+                disabled={
+                  isLoading || !canPerform(isPaused ? 'resume-game' : 'start-game')
+                }
                 className="flex flex-col items-center p-6 bg-gradient-to-br from-green-500 to-emerald-600 text-white rounded-xl shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed group"
               >
                 <div className="bg-white/20 p-3 rounded-lg mb-3 group-hover:bg-white/30 transition-colors">
@@ -519,7 +602,7 @@ export function GameFlowControls({
                 whileHover={{ scale: 1.02, y: -2 }}
                 whileTap={{ scale: 0.98 }}
                 onClick={handlePauseGame}
-                disabled={isLoading}
+                disabled={isLoading || !canPerform('pause-game')}
                 className="flex flex-col items-center p-6 bg-gradient-to-br from-yellow-500 to-orange-500 text-white rounded-xl shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed group"
               >
                 <div className="bg-white/20 p-3 rounded-lg mb-3 group-hover:bg-white/30 transition-colors">
@@ -538,7 +621,7 @@ export function GameFlowControls({
                 whileHover={{ scale: 1.02, y: -2 }}
                 whileTap={{ scale: 0.98 }}
                 onClick={handleAdvancePhase}
-                disabled={isLoading}
+                disabled={isLoading || !canPerform(advanceAction)}
                 className="flex flex-col items-center p-6 bg-gradient-to-br from-blue-500 to-purple-600 text-white rounded-xl shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed group"
               >
                 <div className="bg-white/20 p-3 rounded-lg mb-3 group-hover:bg-white/30 transition-colors">
@@ -559,7 +642,7 @@ export function GameFlowControls({
                   whileHover={{ scale: 1.02, y: -2 }}
                   whileTap={{ scale: 0.98 }}
                   onClick={handleSkipQuestion}
-                  disabled={isLoading}
+                  disabled={isLoading || !canPerform('skip-question')}
                   className="flex flex-col items-center p-6 bg-gradient-to-br from-gray-500 to-gray-600 text-white rounded-xl shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed group"
                 >
                   <div className="bg-white/20 p-3 rounded-lg mb-3 group-hover:bg-white/30 transition-colors">
@@ -572,13 +655,37 @@ export function GameFlowControls({
                 </motion.button>
               )}
 
+            {/* Lock Answers */}
+            {isActive &&
+              currentPhase === GameProgressionPhase.ANSWER_COLLECTION && (
+                <motion.button
+                  whileHover={{ scale: 1.02, y: -2 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={handleLockAnswers}
+                  disabled={
+                    isLoading ||
+                    !gameStateManager ||
+                    !canPerform('lock-answers')
+                  }
+                  className="flex flex-col items-center p-6 bg-gradient-to-br from-indigo-500 to-blue-600 text-white rounded-xl shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed group"
+                >
+                  <div className="bg-white/20 p-3 rounded-lg mb-3 group-hover:bg-white/30 transition-colors">
+                    <Lock className="w-8 h-8" />
+                  </div>
+                  <span className="text-lg font-bold">Lock Answers</span>
+                  <span className="text-indigo-100 text-sm">
+                    Stop accepting answers
+                  </span>
+                </motion.button>
+              )}
+
             {/* End Game */}
             {isActive && (
               <motion.button
                 whileHover={{ scale: 1.02, y: -2 }}
                 whileTap={{ scale: 0.98 }}
                 onClick={handleEndGame}
-                disabled={isLoading}
+                disabled={isLoading || !canPerform('end-game')}
                 className="flex flex-col items-center p-6 bg-gradient-to-br from-red-500 to-pink-600 text-white rounded-xl shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed group"
               >
                 <div className="bg-white/20 p-3 rounded-lg mb-3 group-hover:bg-white/30 transition-colors">
@@ -594,6 +701,58 @@ export function GameFlowControls({
         )}
       </div>
 
+      {/* Rulings */}
+      {acceptedAnswers.length > 0 && (
+        <div className="mt-6 bg-white rounded-xl shadow-lg p-6 border border-gray-100">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            Accepted Answers
+          </h3>
+          <ul className="space-y-2">
+            {acceptedAnswers.map(submission => {
+              const participantId = submission.teamId ?? submission.playerId;
+              return (
+                <li
+                  key={participantId}
+                  className="flex items-center justify-between px-3 py-2 rounded-lg bg-gray-50"
+                >
+                  <span className="text-sm text-gray-800">
+                    <span className="font-medium">{participantId}</span>:{' '}
+                    {submission.answer}
+                  </span>
+                  <button
+                    onClick={() =>
+                      handleRejectAnswer(participantId, submission.answer)
+                    }
+                    disabled={isLoading || !canPerform('reject-answer')}
+                    className="flex items-center px-3 py-1 bg-red-100 text-red-700 rounded-lg text-sm font-medium hover:bg-red-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <XCircle className="w-4 h-4 mr-1" />
+                    Reject
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {/* Undo/Redo */}
+      {isInitialized && (
+        <HostActionHistory
+          className="mt-6"
+          history={commands.history}
+          canUndo={
+            commands.canUndo && !!lastAction && canPerform(lastAction.type)
+          }
+          canRedo={
+            commands.canRedo && !!nextRedo && canPerform(nextRedo.type)
+          }
+          onUndo={() => commands.undo().catch(() => undefined)}
+          onRedo={() => commands.redo().catch(() => undefined)}
+          error={commands.error}
+        />
+      )}
+
       {/* Loading Overlay */}
       <AnimatePresence>
         {isLoading && (
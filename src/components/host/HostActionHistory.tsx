@@ -0,0 +1,96 @@
+import { Undo2, Redo2, History, AlertTriangle } from 'lucide-react';
+import type { HostCommandHistory } from '../../services/hostCommands';
+
+interface HostActionHistoryProps {
+  history: HostCommandHistory;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  error?: string | null;
+  className?: string;
+}
+
+export function HostActionHistory({
+  history,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  error,
+  className = '',
+}: HostActionHistoryProps) {
+  const lastDone = history.done[history.done.length - 1];
+  const nextRedo = history.undone[0];
+  const formatTime = (date: Date) =>
+    date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+  return (
+    <div className={`bg-white rounded-xl shadow-lg p-6 border border-gray-100 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+          <History className="w-5 h-5 mr-2 text-gray-500" />
+          Action History
+        </h3>
+        <div className="flex space-x-2">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            title={lastDone ? `Undo ${lastDone.label}` : 'Nothing to undo'}
+            className="flex items-center px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Undo2 className="w-4 h-4 mr-1" />
+            Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            title={nextRedo ? `Redo ${nextRedo.label}` : 'Nothing to redo'}
+            className="flex items-center px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Redo2 className="w-4 h-4 mr-1" />
+            Redo
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center mb-3 p-3 bg-red-50 rounded-lg border border-red-200 text-sm text-red-700">
+          <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {history.done.length === 0 && history.undone.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Actions you take show up here and can be undone.
+        </p>
+      ) : (
+        <ol className="space-y-1 max-h-60 overflow-y-auto">
+          {[...history.undone].reverse().map(record => (
+            <li
+              key={record.id}
+              className="flex items-center justify-between px-3 py-2 rounded-lg text-sm text-gray-400 line-through"
+            >
+              <span>{record.label}</span>
+              <span className="text-xs">undone</span>
+            </li>
+          ))}
+          {[...history.done].reverse().map((record, index) => (
+            <li
+              key={record.id}
+              className={`flex items-center justify-between px-3 py-2 rounded-lg text-sm ${
+                index === 0 ? 'bg-blue-50 text-blue-900 font-medium' : 'text-gray-700'
+              }`}
+            >
+              <span>{record.label}</span>
+              <span className="text-xs text-gray-500">{formatTime(record.performedAt)}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+export default HostActionHistory;
@@ -72,7 +72,7 @@ export const HostAnalyticsDashboard: React.FC<HostAnalyticsDashboardProps> = ({
       value: `${gameStats.questionsAnswered}/${gameStats.totalQuestions}`,
       icon: Target,
       color: 'electric',
-      progress: (gameStats.questionsAnswered / gameStats.totalQuestions) * 100
+      progress: gameStats.totalQuestions > 0 ? (gameStats.questionsAnswered / gameStats.totalQuestions) * 100 : 0
     },
     {
       label: 'Active Players',
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   Play,
@@ -31,6 +31,15 @@ import { QuestionManagementInterface } from './QuestionManagementInterface';
 import { AdvancedScoringControls } from './AdvancedScoringControls';
 import { AdvancedTimerControls } from './AdvancedTimerControls';
 import { HostAnalyticsDashboard } from './HostAnalyticsDashboard';
+import { HostHandoffPanel } from './HostHandoffPanel';
+import { CoHostManagementPanel } from './CoHostManagementPanel';
+import { useHostPermissions } from '../../hooks/useHostPermissions';
+import { useGameAnalytics } from '../../hooks/useGameAnalytics';
+import { useQuestionSets } from '../../hooks/useQuestionSets';
+import { CoHostService } from '../../services/coHostService';
+import type { CoHostInvite, HostPermission } from '../../types/hostControls';
+import type { CustomQuestion } from '../../types/questionSets';
+import type { Question as EditorQuestion } from './QuestionEditor';
 
 interface HostControlsLayoutProps {
   gameId: string;
@@ -54,6 +63,7 @@ interface TabConfig {
   icon: React.ComponentType<{ className?: string }>;
   color: string;
   description: string;
+  permission?: HostPermission; // tab is hidden from co-hosts without it
 }
 
 const hostTabs: TabConfig[] = [
@@ -63,6 +73,7 @@ const hostTabs: TabConfig[] = [
     icon: Gamepad2,
     color: 'electric',
     description: 'Control game progression and flow',
+    permission: 'control-game-flow',
   },
   {
     id: 'question-management',
@@ -70,6 +81,7 @@ const hostTabs: TabConfig[] = [
     icon: FileText,
     color: 'plasma',
     description: 'Manage and edit questions on-the-fly',
+    permission: 'configure-settings',
   },
   {
     id: 'answer-management',
@@ -77,6 +89,7 @@ const hostTabs: TabConfig[] = [
     icon: CheckCircle,
     color: 'plasma',
     description: 'Review and manage team answers',
+    permission: 'manage-answers',
   },
   {
     id: 'score-management',
@@ -84,6 +97,7 @@ const hostTabs: TabConfig[] = [
     icon: Target,
     color: 'energy-orange',
     description: 'Advanced scoring with bonuses and penalties',
+    permission: 'override-scores',
   },
   {
     id: 'timer-controls',
@@ -91,6 +105,7 @@ const hostTabs: TabConfig[] = [
     icon: Clock,
     color: 'energy-yellow',
     description: 'Advanced timer controls for timed rounds',
+    permission: 'control-game-flow',
   },
   {
     id: 'analytics',
@@ -98,6 +113,7 @@ const hostTabs: TabConfig[] = [
     icon: BarChart3,
     color: 'electric',
     description: 'Real-time game analytics and insights',
+    permission: 'view-analytics',
   },
   {
     id: 'leaderboard',
@@ -122,152 +138,161 @@ const hostTabs: TabConfig[] = [
   },
 ];
 
+// Question set questions as the question editor shows them
+const toEditorQuestion = (question: CustomQuestion): EditorQuestion => ({
+  id: question.id,
+  text: question.text,
+  answer: question.correct_answer,
+  category: question.category ?? '',
+  difficulty: question.difficulty,
+  points: question.points,
+  timeLimit: question.time_limit
+});
+
 export function HostControlsLayout({
   gameId,
   className = '',
 }: HostControlsLayoutProps) {
   const [activeTab, setActiveTab] = useState<HostTabType>('game-flow');
   const [isMinimized, setIsMinimized] = useState(false);
-  const [currentQuestionSetId, setCurrentQuestionSetId] = useState<string>('set-1');
-
-  const { state, isInitialized, isActive, isPaused, currentPhase, error } =
-    useGameController(gameId);
+  const [currentQuestionSetId, setCurrentQuestionSetId] = useState<string>();
+
+  const {
+    state,
+    isInitialized,
+    isActive,
+    isPaused,
+    currentPhase,
+    error,
+    resumedFrom,
+    transferHost,
+  } = useGameController(gameId);
 
   const { unreadCount, hasNewNotifications } = useNotifications(gameId);
 
-  // Mock data for new components
-  const mockQuestionSets = [
-    {
-      id: 'set-1',
-      name: 'General Knowledge Round 1',
-      description: 'A mix of various topics',
-      questions: [
-        {
-          id: '1',
-          text: 'What is the capital of France?',
-          answer: 'Paris',
-          category: 'Geography',
-          difficulty: 'easy' as const,
-          points: 10,
-          timeLimit: 30
-        },
-        {
-          id: '2',
-          text: 'Who painted the Mona Lisa?',
-          answer: 'Leonardo da Vinci',
-          category: 'Art',
-          difficulty: 'medium' as const,
-          points: 15,
-          timeLimit: 45
-        }
-      ],
-      categories: ['Geography', 'Art', 'Science', 'History'],
-      createdAt: new Date(),
-      updatedAt: new Date()
+  const {
+    role,
+    isPrimaryHost,
+    isLoading: roleLoading,
+    can,
+    canGrant,
+    refresh: refreshRole,
+  } = useHostPermissions(gameId);
+  const [pendingInvite, setPendingInvite] = useState<CoHostInvite | null>(null);
+
+  // Co-hosts only see the tabs their role allows
+  const visibleTabs = useMemo(
+    () => hostTabs.filter(tab => !tab.permission || can(tab.permission)),
+    [can]
+  );
+
+  const showTab = (tab: HostTabType) =>
+    activeTab === tab && visibleTabs.some(visible => visible.id === tab);
+
+  useEffect(() => {
+    if (roleLoading) return;
+    if (!visibleTabs.some(tab => tab.id === activeTab) && visibleTabs.length > 0) {
+      setActiveTab(visibleTabs[0].id);
     }
-  ];
-
-  const mockTeams = [
-    { id: '1', name: 'Team Alpha', score: 85, bonusPoints: 10, penalties: 5, streakCount: 3 },
-    { id: '2', name: 'Team Beta', score: 70, bonusPoints: 5, penalties: 0, streakCount: 1 },
-    { id: '3', name: 'Team Gamma', score: 90, bonusPoints: 15, penalties: 10, streakCount: 4 },
-    { id: '4', name: 'Team Delta', score: 60, bonusPoints: 0, penalties: 15, streakCount: 0 }
-  ];
-
-  const mockGameStats = {
-    totalQuestions: 20,
-    questionsAnswered: 12,
-    averageResponseTime: 18.5,
-    totalTeams: 4,
-    activePlayers: 16,
-    correctAnswerRate: 72.5,
-    averageScore: 76.25,
-    highestScore: 90,
-    lowestScore: 60
-  };
+  }, [roleLoading, visibleTabs, activeTab]);
 
-  const mockTeamPerformances = [
-    {
-      teamId: '1',
-      teamName: 'Team Alpha',
-      score: 85,
-      correctAnswers: 15,
-      incorrectAnswers: 5,
-      avgResponseTime: 16.2,
-      streakBest: 5,
-      rank: 2,
-      trend: 'up' as const
-    },
-    {
-      teamId: '2',
-      teamName: 'Team Beta',
-      score: 70,
-      correctAnswers: 12,
-      incorrectAnswers: 8,
-      avgResponseTime: 22.1,
-      streakBest: 3,
-      rank: 3,
-      trend: 'stable' as const
-    },
-    {
-      teamId: '3',
-      teamName: 'Team Gamma',
-      score: 90,
-      correctAnswers: 17,
-      incorrectAnswers: 3,
-      avgResponseTime: 14.8,
-      streakBest: 7,
-      rank: 1,
-      trend: 'up' as const
-    },
-    {
-      teamId: '4',
-      teamName: 'Team Delta',
-      score: 60,
-      correctAnswers: 10,
-      incorrectAnswers: 10,
-      avgResponseTime: 25.3,
-      streakBest: 2,
-      rank: 4,
-      trend: 'down' as const
+  // Someone without a role may have been invited to help run this game
+  useEffect(() => {
+    if (roleLoading || role) {
+      setPendingInvite(null);
+      return;
     }
-  ];
-
-  const mockQuestionAnalytics = [
-    {
-      questionId: '1',
-      questionText: 'What is the capital of France?',
-      category: 'Geography',
-      difficulty: 'easy',
-      correctRate: 95,
-      avgResponseTime: 8.2,
-      totalAttempts: 20
-    },
-    {
-      questionId: '2',
-      questionText: 'Who painted the Mona Lisa?',
-      category: 'Art',
-      difficulty: 'medium',
-      correctRate: 75,
-      avgResponseTime: 15.3,
-      totalAttempts: 20
-    },
-    {
-      questionId: '3',
-      questionText: 'What is the chemical symbol for gold?',
-      category: 'Science',
-      difficulty: 'easy',
-      correctRate: 85,
-      avgResponseTime: 10.1,
-      totalAttempts: 20
+    CoHostService.getMyInvites()
+      .then(invites =>
+        setPendingInvite(invites.find(invite => invite.gameId === gameId) ?? null)
+      )
+      .catch(err => console.error('Failed to load co-host invites:', err));
+  }, [roleLoading, role, gameId]);
+
+  const respondToInvite = async (accept: boolean) => {
+    if (!pendingInvite) return;
+    try {
+      await CoHostService.respondToInvite(pendingInvite.id, accept);
+      setPendingInvite(null);
+      await refreshRole();
+    } catch (err) {
+      console.error('Failed to respond to co-host invite:', err);
     }
-  ];
+  };
+
+  const {
+    questionSets: hostQuestionSets,
+    currentQuestionSet,
+    loadQuestionSet,
+    createQuestionSet,
+    importQuestionSet,
+    exportQuestionSet,
+    addQuestion,
+    updateQuestion,
+    deleteQuestion,
+  } = useQuestionSets();
+  const selectedQuestionSetId = currentQuestionSetId ?? hostQuestionSets[0]?.id;
 
-  // Auto-focus on answer management when answers come in
   useEffect(() => {
-    // This would be connected to real-time answer submissions
-    // For now, just a placeholder for the structure
-  }, []);
+    if (selectedQuestionSetId) {
+      loadQuestionSet(selectedQuestionSetId);
+    }
+  }, [selectedQuestionSetId, loadQuestionSet]);
+
+  // The host's question sets; only the open one has its questions loaded
+  const questionSets = useMemo(
+    () =>
+      hostQuestionSets.map(set => {
+        const questions =
+          (set.id === currentQuestionSet?.id ? currentQuestionSet.questions : set.questions) ?? [];
+        return {
+          id: set.id,
+          name: set.title,
+          description: set.description ?? '',
+          questions: questions.map(toEditorQuestion),
+          categories: Array.from(
+            new Set(questions.map(question => question.category).filter((c): c is string => !!c))
+          ),
+          createdAt: new Date(set.created_at),
+          updatedAt: new Date(set.updated_at)
+        };
+      }),
+    [hostQuestionSets, currentQuestionSet]
+  );
+
+  const saveQuestion = async (question: EditorQuestion, questionId?: string) => {
+    if (!selectedQuestionSetId) return;
+
+    const data = {
+      question_set_id: selectedQuestionSetId,
+      text: question.text,
+      correct_answer: question.answer,
+      category: question.category || undefined,
+      difficulty: question.difficulty,
+      points: question.points,
+      time_limit: question.timeLimit
+    };
+    if (questionId) {
+      await updateQuestion({ ...data, id: questionId });
+    } else {
+      await addQuestion(selectedQuestionSetId, { ...data, type: 'short_answer' });
+    }
+    await loadQuestionSet(selectedQuestionSetId);
+  };
+
+  const { analytics: gameAnalytics, error: gameAnalyticsError } = useGameAnalytics(gameId);
+  const scoringTeams = useMemo(
+    () =>
+      (gameAnalytics?.teamPerformances ?? []).map(team => ({
+        id: team.teamId,
+        name: team.teamName,
+        score: team.score,
+        bonusPoints: team.bonusPoints,
+        penalties: team.penalties,
+        streakCount: team.streakCurrent
+      })),
+    [gameAnalytics]
+  );
 
   const getStatusColor = () => {
     if (error) return 'bg-red-500';
@@ -313,6 +338,14 @@ export function HostControlsLayout({
               <span className="font-medium">{getStatusText()}</span>
             </div>
 
+            {/* Role of the signed-in account */}
+            {role && (
+              <div className="flex items-center space-x-2 bg-white/20 px-3 py-2 rounded-lg backdrop-blur-sm text-sm">
+                <Shield className="w-4 h-4" />
+                <span>{role.name}</span>
+              </div>
+            )}
+
             {/* Current Phase */}
             <div className="text-right">
               <div className="text-sm text-blue-100">Current Phase</div>
@@ -344,6 +377,42 @@ export function HostControlsLayout({
             </button>
           </div>
         </div>
+
+        {/* Invited to help run this game */}
+        {pendingInvite && (
+          <div className="mt-4 flex flex-wrap items-center justify-between gap-2 text-sm bg-white/20 px-4 py-2 rounded-lg backdrop-blur-sm">
+            <span>
+              You've been invited to help run this game as{' '}
+              <strong>{pendingInvite.role.name}</strong>
+            </span>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => respondToInvite(true)}
+                className="px-3 py-1 rounded-lg bg-white text-blue-700 font-medium hover:bg-blue-50"
+              >
+                Accept
+              </button>
+              <button
+                onClick={() => respondToInvite(false)}
+                className="px-3 py-1 rounded-lg bg-white/20 hover:bg-white/30"
+              >
+                Decline
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Resumed after a crash or reload */}
+        {resumedFrom && (
+          <div className="mt-4 flex items-center text-sm bg-white/20 px-4 py-2 rounded-lg backdrop-blur-sm">
+            <Shield className="w-4 h-4 mr-2" />
+            Resumed at {resumedFrom.phase.replace(/-/g, ' ')}
+            {resumedFrom.roundNumber > 0 && `, round ${resumedFrom.roundNumber}`}
+            {resumedFrom.timerRemaining !== undefined &&
+              `, ${Math.ceil(resumedFrom.timerRemaining)}s left`}
+            {resumedFrom.isPaused && ' (paused)'}
+          </div>
+        )}
       </div>
 
       <AnimatePresence>
@@ -358,7 +427,7 @@ export function HostControlsLayout({
             {/* Navigation Tabs */}
             <div className="border-b border-gray-200">
               <nav className="flex space-x-0 overflow-x-auto">
-                {hostTabs.map(tab => {
+                {visibleTabs.map(tab => {
                   const Icon = tab.icon;
                   const isActive = activeTab === tab.id;
 
@@ -437,11 +506,11 @@ export function HostControlsLayout({
 
                   {/* Tab Content */}
                   <div className="space-y-4">
-                    {activeTab === 'game-flow' && (
+                    {showTab('game-flow') && (
                       <GameFlowControls gameId={gameId} />
                     )}
 
-                    {activeTab === 'answer-management' && (
+                    {showTab('answer-management') && (
                       <AnswerManagementInterface
                         gameId={gameId}
                         currentQuestionId={
@@ -453,35 +522,41 @@ export function HostControlsLayout({
                       />
                     )}
 
-                    {activeTab === 'question-management' && (
+                    {showTab('question-management') && (
                       <QuestionManagementInterface
-                        questionSets={mockQuestionSets}
-                        currentSetId={currentQuestionSetId}
+                        questionSets={questionSets}
+                        currentSetId={selectedQuestionSetId}
                         onQuestionSetChange={setCurrentQuestionSetId}
-                        onQuestionAdd={async (question) => {
-                          console.log('Adding question:', question);
-                        }}
-                        onQuestionEdit={async (question) => {
-                          console.log('Editing question:', question);
-                        }}
-                        onQuestionDelete={async (questionId) => {
-                          console.log('Deleting question:', questionId);
+                        onQuestionAdd={question => saveQuestion(question)}
+                        onQuestionEdit={question => saveQuestion(question, question.id)}
+                        onQuestionDelete={async questionId => {
+                          await deleteQuestion(questionId);
+                          if (selectedQuestionSetId) {
+                            await loadQuestionSet(selectedQuestionSetId);
+                          }
                         }}
-                        onQuestionSetCreate={async (set) => {
-                          console.log('Creating question set:', set);
+                        onQuestionSetCreate={async set => {
+                          const created = await createQuestionSet({
+                            title: set.name,
+                            description: set.description || undefined
+                          });
+                          setCurrentQuestionSetId(created.id);
                         }}
-                        onQuestionSetImport={async (file) => {
-                          console.log('Importing question set:', file);
+                        onQuestionSetImport={async file => {
+                          const imported = await importQuestionSet(file);
+                          setCurrentQuestionSetId(imported.id);
                         }}
-                        onQuestionSetExport={(setId) => {
-                          console.log('Exporting question set:', setId);
+                        onQuestionSetExport={setId => {
+                          exportQuestionSet(setId).catch(err =>
+                            console.error('Failed to export question set:', err)
+                          );
                         }}
                       />
                     )}
 
-                    {activeTab === 'score-management' && (
+                    {showTab('score-management') && (
                       <AdvancedScoringControls
-                        teams={mockTeams}
+                        teams={scoringTeams}
                         onScoreUpdate={(teamId, adjustment, reason) => {
                           console.log('Score update:', { teamId, adjustment, reason });
                         }}
@@ -495,7 +570,7 @@ export function HostControlsLayout({
                       />
                     )}
 
-                    {activeTab === 'timer-controls' && (
+                    {showTab('timer-controls') && (
                       <AdvancedTimerControls
                         onTimeUp={() => {
                           console.log('Time is up!');
@@ -511,15 +586,21 @@ export function HostControlsLayout({
                       />
                     )}
 
-                    {activeTab === 'analytics' && (
-                      <HostAnalyticsDashboard
-                        gameStats={mockGameStats}
-                        teamPerformances={mockTeamPerformances}
-                        questionAnalytics={mockQuestionAnalytics}
-                        onExportReport={() => {
-                          console.log('Exporting analytics report');
-                        }}
-                      />
+                    {showTab('analytics') && (
+                      gameAnalytics ? (
+                        <HostAnalyticsDashboard
+                          gameStats={gameAnalytics.gameStats}
+                          teamPerformances={gameAnalytics.teamPerformances}
+                          questionAnalytics={gameAnalytics.questionAnalytics}
+                          onExportReport={() => {
+                            console.log('Exporting analytics report');
+                          }}
+                        />
+                      ) : (
+                        <div className="bg-white rounded-lg p-4 text-sm text-gray-600">
+                          {gameAnalyticsError ?? 'Loading game stats...'}
+                        </div>
+                      )
                     )}
 
                     {activeTab === 'notifications' && (
@@ -543,13 +624,37 @@ export function HostControlsLayout({
                       </div>
                     )}
 
+                    {activeTab === 'settings' && (
+                      <>
+                        {role?.canDelegate && (
+                          <CoHostManagementPanel
+                            gameId={gameId}
+                            canManage={isPrimaryHost}
+                            canGrant={canGrant}
+                          />
+                        )}
+                        {isPrimaryHost && (
+                          <HostHandoffPanel
+                            gameId={gameId}
+                            onTransfer={transferHost}
+                          />
+                        )}
+                        {!role?.canDelegate && !isPrimaryHost && (
+                          <div className="bg-white rounded-lg p-4 text-sm text-gray-600">
+                            Only the host can manage co-hosts and settings.
+                          </div>
+                        )}
+                      </>
+                    )}
+
                     {activeTab !== 'game-flow' &&
                       activeTab !== 'question-management' &&
                       activeTab !== 'answer-management' &&
                       activeTab !== 'score-management' &&
                       activeTab !== 'timer-controls' &&
                       activeTab !== 'analytics' &&
-                      activeTab !== 'notifications' && (
+                      activeTab !== 'notifications' &&
+                      activeTab !== 'settings' && (
                         <div className="bg-white p-4 rounded-lg border-2 border-dashed border-gray-300">
                           <p className="text-gray-500 text-center">
                             {activeTab.charAt(0).toUpperCase() +
@@ -0,0 +1,187 @@
+import { useState, useEffect, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Crown, Shield, UserCheck, AlertTriangle, RefreshCw } from 'lucide-react';
+import { CoHostService } from '../../services/coHostService';
+import {
+  canTakeOverHosting,
+  type GameCoHost,
+  type HostTransfer,
+} from '../../types/hostControls';
+
+interface HostHandoffPanelProps {
+  gameId: string;
+  onTransfer: (toUserId: string, reason?: string) => Promise<HostTransfer>;
+  className?: string;
+}
+
+export function HostHandoffPanel({
+  gameId,
+  onTransfer,
+  className = '',
+}: HostHandoffPanelProps) {
+  const [coHosts, setCoHosts] = useState<GameCoHost[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<GameCoHost | null>(null);
+  const [reason, setReason] = useState('');
+  const [isTransferring, setIsTransferring] = useState(false);
+  const [lastTransfer, setLastTransfer] = useState<HostTransfer | null>(null);
+
+  const loadCoHosts = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setCoHosts(await CoHostService.getCoHosts(gameId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load co-hosts');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [gameId]);
+
+  useEffect(() => {
+    loadCoHosts();
+  }, [loadCoHosts]);
+
+  const handleConfirm = async () => {
+    if (!selected) return;
+
+    try {
+      setIsTransferring(true);
+      setError(null);
+      const transfer = await onTransfer(selected.userId, reason.trim() || undefined);
+      setLastTransfer(transfer);
+      setSelected(null);
+      setReason('');
+      await loadCoHosts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to transfer host');
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  const nameOf = (userId: string) =>
+    coHosts.find(coHost => coHost.userId === userId)?.displayName || userId;
+
+  return (
+    <div className={`bg-white rounded-lg p-4 space-y-4 ${className}`}>
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Crown className="w-5 h-5 mr-2 text-yellow-500" />
+            Host Hand-off
+          </h3>
+          <p className="text-sm text-gray-600">
+            Pass the game to a co-host. You stay on as a co-host with their role.
+          </p>
+        </div>
+        <button
+          onClick={loadCoHosts}
+          disabled={isLoading}
+          className="p-2 text-gray-500 hover:text-gray-700 rounded-lg hover:bg-gray-100 disabled:opacity-50"
+          title="Refresh co-hosts"
+        >
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-center p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {lastTransfer && (
+        <div className="flex items-center p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+          <UserCheck className="w-4 h-4 mr-2 flex-shrink-0" />
+          Hosting handed to {nameOf(lastTransfer.toUserId)} at{' '}
+          {new Date(lastTransfer.transferredAt).toLocaleTimeString()}
+        </div>
+      )}
+
+      {!isLoading && coHosts.length === 0 && (
+        <p className="text-sm text-gray-500 text-center py-4">
+          No co-hosts have been added to this game yet.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        {coHosts.map(coHost => {
+          const eligible = canTakeOverHosting(coHost.role);
+          return (
+            <div
+              key={coHost.userId}
+              className="flex items-center justify-between p-3 border border-gray-200 rounded-lg"
+            >
+              <div className="flex items-center space-x-3">
+                <Shield className="w-5 h-5 text-blue-500" />
+                <div>
+                  <div className="font-medium text-sm">
+                    {coHost.displayName || coHost.userId}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {coHost.role.name} · {coHost.role.permissions.length} permissions
+                  </div>
+                </div>
+              </div>
+              <button
+                onClick={() => setSelected(coHost)}
+                disabled={!eligible || isTransferring}
+                title={eligible ? undefined : 'This co-host cannot run the game flow'}
+                className="px-3 py-1.5 text-sm font-medium rounded-lg bg-purple-600 text-white hover:bg-purple-700 disabled:bg-gray-200 disabled:text-gray-500 disabled:cursor-not-allowed"
+              >
+                Make host
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <AnimatePresence>
+        {selected && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="p-4 border-2 border-yellow-300 bg-yellow-50 rounded-lg space-y-3"
+          >
+            <p className="text-sm text-gray-800">
+              Hand hosting to{' '}
+              <span className="font-semibold">
+                {selected.displayName || selected.userId}
+              </span>
+              ? They will control the game from their own device.
+            </p>
+            <input
+              type="text"
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              placeholder="Reason (optional)"
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            <div className="flex justify-end space-x-2">
+              <button
+                onClick={() => setSelected(null)}
+                disabled={isTransferring}
+                className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 hover:bg-gray-100"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirm}
+                disabled={isTransferring}
+                className="px-3 py-1.5 text-sm font-medium rounded-lg bg-yellow-500 text-white hover:bg-yellow-600 disabled:opacity-50"
+              >
+                {isTransferring ? 'Transferring...' : 'Confirm hand-off'}
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+export default HostHandoffPanel;
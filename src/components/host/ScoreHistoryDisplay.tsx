@@ -16,6 +16,7 @@ import {
   FileText,
 } from 'lucide-react';
 import { type ScoreHistoryDisplayProps } from '../../types/scoreManagement';
+import { getScoreAsOfQuestion } from '../../services/scoreLedgerService';
 
 export function ScoreHistoryDisplay({
   history,
@@ -29,6 +30,49 @@ export function ScoreHistoryDisplay({
   );
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
   const [expandedEntry, setExpandedEntry] = useState<string | null>(null);
+  const [asOfQuestionId, setAsOfQuestionId] = useState('');
+
+  // Questions in the order they were first scored
+  const scoredQuestions = useMemo(() => {
+    const labels = new Map<string, string>();
+    history.forEach(entry => {
+      if (entry.questionId && !labels.has(entry.questionId)) {
+        labels.set(
+          entry.questionId,
+          entry.questionText || `Question ${labels.size + 1}`
+        );
+      }
+    });
+    return [...labels].map(([id, label]) => ({ id, label }));
+  }, [history]);
+
+  // Each entity's score right after the chosen question was scored
+  const scoresAsOf = useMemo(() => {
+    if (!asOfQuestionId) return [];
+
+    const entities = new Map<
+      string,
+      { name: string; type: 'team' | 'player' }
+    >();
+    history.forEach(entry => {
+      if (filters.entityType && filters.entityType !== 'all') {
+        if (entry.entityType !== filters.entityType) return;
+      }
+      if (filters.entityId && entry.entityId !== filters.entityId) return;
+      entities.set(entry.entityId, {
+        name: entry.entityName,
+        type: entry.entityType,
+      });
+    });
+
+    return [...entities]
+      .map(([id, entity]) => ({
+        id,
+        ...entity,
+        score: getScoreAsOfQuestion(history, id, asOfQuestionId) ?? 0,
+      }))
+      .sort((a, b) => b.score - a.score);
+  }, [history, asOfQuestionId, filters.entityType, filters.entityId]);
 
   // Filtered and sorted history
   const filteredHistory = useMemo(() => {
@@ -209,6 +253,57 @@ export function ScoreHistoryDisplay({
         </div>
       )}
 
+      {/* Scores as of a question */}
+      {scoredQuestions.length > 0 && (
+        <div className="border border-gray-200 rounded-lg p-3 mb-4">
+          <div className="flex items-center space-x-2">
+            <Calendar className="w-4 h-4 text-purple-600" />
+            <label
+              htmlFor="score-as-of"
+              className="text-sm font-medium text-gray-700"
+            >
+              Scores as of
+            </label>
+            <select
+              id="score-as-of"
+              value={asOfQuestionId}
+              onChange={e => setAsOfQuestionId(e.target.value)}
+              className="flex-1 px-3 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            >
+              <option value="">Choose a question...</option>
+              {scoredQuestions.map(question => (
+                <option key={question.id} value={question.id}>
+                  {question.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {asOfQuestionId && (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mt-3">
+              {scoresAsOf.map(entity => (
+                <div
+                  key={entity.id}
+                  className="flex items-center justify-between bg-gray-50 rounded-lg px-3 py-2 text-sm"
+                >
+                  <div className="flex items-center space-x-2">
+                    {entity.type === 'team' ? (
+                      <Users className="w-4 h-4 text-blue-600" />
+                    ) : (
+                      <User className="w-4 h-4 text-green-600" />
+                    )}
+                    <span className="text-gray-900">{entity.name}</span>
+                  </div>
+                  <span className="font-bold text-gray-900">
+                    {entity.score}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* History Entries */}
       <div className="space-y-3 max-h-96 overflow-y-auto">
         <AnimatePresence>
@@ -287,12 +382,10 @@ export function ScoreHistoryDisplay({
 
                     {showActions &&
                       onRevert &&
-                      entry.type === 'manual' &&
+                      entry.type !== 'revert' &&
                       !entry.isReverted && (
                         <button
-                          onClick={() =>
-                            onRevert(entry.relatedAdjustmentId || entry.id)
-                          }
+                          onClick={() => onRevert(entry.id)}
                           className="p-1 text-orange-600 hover:text-orange-700 transition-colors"
                           title="Revert this adjustment"
                         >
@@ -3,6 +3,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import type {
   ScoreHistoryEntry,
   ScoreAdjustment,
+  ScoreLedgerEntry,
 } from '../../types/scoreManagement';
 import {
   Trophy,
@@ -24,6 +25,18 @@ import {
 } from 'lucide-react';
 import { useScoreManager } from '../../hooks/useScoreManager';
 import { useTeamFormation } from '../../hooks/useTeamFormation';
+import { useHostPermissions } from '../../hooks/useHostPermissions';
+import { useScoreLedger } from '../../hooks/useScoreLedger';
+import { useHostCommands } from '../../hooks/useHostCommands';
+import {
+  buildScoreHistory,
+  getLedgerTotals,
+  toScoreAdjustments,
+} from '../../services/scoreLedgerService';
+import {
+  createScoreOverrideCommand,
+  type ScoreLedgerWriter,
+} from '../../services/hostCommands';
 import type {
   ScoreManagementInterfaceProps,
   ScoreDisplayMode,
@@ -70,6 +83,16 @@ export function ScoreManagementInterface({
     error: scoreError,
   } = useScoreManager(gameId);
   const { teams, isLoading: teamsLoading, loadTeams } = useTeamFormation();
+  const { userId, canPerform } = useHostPermissions(gameId);
+  const canOverrideScores = canPerform('override-score');
+  const {
+    entries: ledgerEntries,
+    isLoading: ledgerLoading,
+    error: ledgerError,
+    adjustScore: recordAdjustment,
+    revertEntry,
+  } = useScoreLedger(gameId);
+  const { run: runCommand } = useHostCommands(gameId);
 
   // Load teams when gameId changes
   useEffect(() => {
@@ -111,9 +134,36 @@ export function ScoreManagementInterface({
     return allPlayers;
   }, [teams]);
 
-  // Score adjustment functions
+  // Score changes go to the ledger as undoable host actions; the local
+  // score manager just follows
   const adjustScore = useCallback(
     async (data: ScoreOverrideData) => {
+      const recorded: { entry?: ScoreLedgerEntry } = {};
+      const ledger: ScoreLedgerWriter = {
+        adjustScore: async (_gameId, input) => {
+          recorded.entry = await recordAdjustment(input);
+          return recorded.entry;
+        },
+        revertEntry,
+      };
+      await runCommand(
+        createScoreOverrideCommand(
+          gameId,
+          {
+            entityId: data.entityId,
+            entityType: data.entityType,
+            points: data.adjustment,
+            reason: data.reason,
+            questionId: data.questionId,
+          },
+          ledger
+        )
+      );
+      const { entry } = recorded;
+      if (!entry) {
+        throw new Error('Failed to adjust score');
+      }
+
       if (data.entityType === 'team') {
         const currentScore = teamScores.get(data.entityId);
         if (currentScore) {
@@ -129,24 +179,48 @@ export function ScoreManagementInterface({
           });
         }
       }
+      return entry;
     },
-    [scoreManager, teamScores, playerScores]
+    [gameId, runCommand, recordAdjustment, revertEntry, scoreManager, teamScores, playerScores]
   );
 
   const revertAdjustment = useCallback(
     async (adjustmentId: string, reason: string) => {
-      // This would need to be implemented in the score manager
-      console.log('Revert adjustment:', adjustmentId, reason);
+      await revertEntry(adjustmentId, reason);
     },
-    []
+    [revertEntry]
   );
 
-  // Mock score history and adjustments for now
-  const scoreHistory: ScoreHistoryEntry[] = [];
-  const adjustments: ScoreAdjustment[] = [];
+  const entityNames = useMemo(() => {
+    const names: Record<string, string> = {};
+    teams.forEach(team => {
+      names[team.id] = team.name;
+    });
+    players.forEach(player => {
+      names[player.id] = player.username || player.email;
+    });
+    return names;
+  }, [teams, players]);
+
+  const scoreHistory: ScoreHistoryEntry[] = useMemo(
+    () =>
+      buildScoreHistory(ledgerEntries, {
+        entityNames,
+        performerNames: userId ? { [userId]: 'You' } : {},
+      }),
+    [ledgerEntries, entityNames, userId]
+  );
+  const adjustments: ScoreAdjustment[] = useMemo(
+    () => toScoreAdjustments(ledgerEntries),
+    [ledgerEntries]
+  );
+  const ledgerTotals = useMemo(
+    () => getLedgerTotals(ledgerEntries),
+    [ledgerEntries]
+  );
 
-  const isLoading = scoreLoading || teamsLoading;
-  const error = scoreError;
+  const isLoading = scoreLoading || teamsLoading || ledgerLoading;
+  const error = scoreError || ledgerError;
 
   // Combined entities list for search and display
   const allEntities = useMemo(() => {
@@ -155,7 +229,9 @@ export function ScoreManagementInterface({
       type: 'team' as const,
       name: team.name,
       memberCount: team.team_members?.length || 0,
-      score: scoreData.teamScores[team.id]?.totalScore || 0,
+      score:
+        ledgerTotals.get(team.id) ??
+        (scoreData.teamScores[team.id]?.totalScore || 0),
     }));
 
     const playerEntities = players.map(player => ({
@@ -165,11 +241,13 @@ export function ScoreManagementInterface({
       teamName: teams.find(t =>
         t.team_members?.some(m => m.user_id === player.id)
       )?.name,
-      score: scoreData.playerScores[player.id]?.totalScore || 0,
+      score:
+        ledgerTotals.get(player.id) ??
+        (scoreData.playerScores[player.id]?.totalScore || 0),
     }));
 
     return [...teamEntities, ...playerEntities];
-  }, [teams, players, scoreData]);
+  }, [teams, players, scoreData, ledgerTotals]);
 
   // Filtered entities based on search and filters
   const filteredEntities = useMemo(() => {
@@ -201,11 +279,13 @@ export function ScoreManagementInterface({
   const handleScoreAdjustment = useCallback(
     async (data: ScoreOverrideData) => {
       try {
-        await adjustScore(data);
+        if (!canOverrideScores) {
+          throw new Error('Your role is not allowed to override scores');
+        }
+        const entry = await adjustScore(data);
 
-        // Create adjustment record for callback
         const adjustment: ScoreAdjustment = {
-          id: `adj_${Date.now()}`,
+          id: entry.id,
           type: data.questionId ? 'question' : 'total',
           entityId: data.entityId,
           entityType: data.entityType,
@@ -214,8 +294,8 @@ export function ScoreManagementInterface({
           newScore: data.newScore,
           adjustment: data.adjustment,
           reason: data.reason,
-          adjustedBy: 'current-host', // TODO: Get from auth context
-          timestamp: new Date(),
+          adjustedBy: entry.performedBy ?? 'host',
+          timestamp: entry.createdAt,
         };
 
         onScoreChanged?.(adjustment);
@@ -226,13 +306,16 @@ export function ScoreManagementInterface({
         onError?.(errorMessage);
       }
     },
-    [adjustScore, onScoreChanged, onError]
+    [adjustScore, onScoreChanged, onError, canOverrideScores]
   );
 
   // Handle revert adjustment
   const handleRevertAdjustment = useCallback(
     async (adjustmentId: string) => {
       try {
+        if (!canOverrideScores) {
+          throw new Error('Your role is not allowed to revert score changes');
+        }
         await revertAdjustment(adjustmentId, 'Manual revert by host');
       } catch (err) {
         const errorMessage =
@@ -240,7 +323,7 @@ export function ScoreManagementInterface({
         onError?.(errorMessage);
       }
     },
-    [revertAdjustment, onError]
+    [revertAdjustment, onError, canOverrideScores]
   );
 
   // Display mode configurations
@@ -284,15 +367,16 @@ export function ScoreManagementInterface({
       selectedEntity.type === 'team'
         ? scoreData.teamScores[selectedEntity.id]
         : scoreData.playerScores[selectedEntity.id];
+    const ledgerTotal = ledgerTotals.get(selectedEntity.id);
 
-    return entityData
+    return entityData || ledgerTotal !== undefined
       ? {
           ...selectedEntity,
-          totalScore: entityData.totalScore,
-          questionScores: entityData.questionScores || [],
+          totalScore: ledgerTotal ?? entityData?.totalScore ?? 0,
+          questionScores: entityData?.questionScores || [],
         }
       : null;
-  }, [selectedEntity, scoreData]);
+  }, [selectedEntity, scoreData, ledgerTotals]);
 
   return (
     <div className={`score-management-interface space-y-6 ${className}`}>
@@ -560,7 +644,7 @@ export function ScoreManagementInterface({
                   entityName={selectedEntityData.name}
                   currentScore={selectedEntityData.totalScore}
                   onAdjust={setConfirmationData}
-                  disabled={isLoading}
+                  disabled={isLoading || !canOverrideScores}
                 />
               </div>
 
@@ -590,7 +674,7 @@ export function ScoreManagementInterface({
                               questionText: questionScore.questionText,
                             });
                           }}
-                          canEdit={true}
+                          canEdit={canOverrideScores}
                         />
                       ))}
                     </div>
@@ -627,7 +711,7 @@ export function ScoreManagementInterface({
                 setFilters(prev => ({ ...prev, ...newFilters }))
               }
               onRevert={handleRevertAdjustment}
-              showActions={true}
+              showActions={canOverrideScores}
             />
           </motion.div>
         )}
@@ -10,6 +10,7 @@ export { NotificationToast } from './NotificationToast';
 
 // Game Flow Controls
 export { GameFlowControls } from './GameFlowControls';
+export { HostActionHistory } from './HostActionHistory';
 
 // Answer Management
 export { AnswerManagementInterface } from './AnswerManagementInterface';
@@ -33,5 +34,9 @@ export { QuestionManagementInterface } from './QuestionManagementInterface';
 export { QuestionEditor } from './QuestionEditor';
 export { HostAnalyticsDashboard } from './HostAnalyticsDashboard';
 
+// Host Recovery and Co-hosts
+export { HostHandoffPanel } from './HostHandoffPanel';
+export { CoHostManagementPanel } from './CoHostManagementPanel';
+
 // Types
 export type * from '../../types/hostControls'; 
\ No newline at end of file
@@ -13,7 +13,8 @@ import {
   Settings,
   Tag as TagIcon,
   AlertCircle,
-  CheckCircle
+  CheckCircle,
+  BarChart3
 } from 'lucide-react';
 import type { 
   QuestionSet, 
@@ -24,9 +25,17 @@ import type {
   CreateCustomQuestionData,
   UpdateCustomQuestionData,
   QuestionType,
-  QuestionDifficulty
+  QuestionDifficulty,
+  QuestionSetFileFormat,
+  QuestionMediaType,
+  ExportQuestion,
+  QuestionSetStats
 } from '../../types/questionSets';
 import { QuestionSetService } from '../../services/questionSetService';
+import { FILE_FORMAT_LABELS, serializeQuestionSet } from '../../utils/questionSetFormats';
+import { CURRENT_EXPORT_VERSION } from '../../utils/questionSetSchema';
+import { ITEM_FLAG_LABELS } from '../../utils/itemAnalysis';
+import { QuestionSetImportModal } from './QuestionSetImportModal';
 import Card, { CardHeader, CardTitle, CardContent } from '../ui/host/Card';
 import Button from '../ui/host/Button';
 import Badge from '../ui/host/Badge';
@@ -51,6 +60,11 @@ interface QuestionFormData {
   time_limit: number;
   difficulty: QuestionDifficulty;
   category: string;
+  alternative_answers: string; // One per line
+  tags: string; // Comma separated
+  media_type: QuestionMediaType | '';
+  media_url: string;
+  media_alt_text: string;
 }
 
 const defaultQuestionForm: QuestionFormData = {
@@ -62,7 +76,12 @@ const defaultQuestionForm: QuestionFormData = {
   points: 1,
   time_limit: 30,
   difficulty: 'medium',
-  category: ''
+  category: '',
+  alternative_answers: '',
+  tags: '',
+  media_type: '',
+  media_url: '',
+  media_alt_text: ''
 };
 
 export const QuestionSetEditor: React.FC<QuestionSetEditorProps> = ({
@@ -89,6 +108,8 @@ export const QuestionSetEditor: React.FC<QuestionSetEditorProps> = ({
   
   const [showSettings, setShowSettings] = useState(false);
   const [showImport, setShowImport] = useState(false);
+  const [exportFormat, setExportFormat] = useState<QuestionSetFileFormat>('json');
+  const [stats, setStats] = useState<QuestionSetStats | null>(null);
 
   const isEditing = !!questionSet;
 
@@ -97,6 +118,7 @@ export const QuestionSetEditor: React.FC<QuestionSetEditorProps> = ({
       loadAvailableTags();
       if (questionSet) {
         loadQuestionSetData();
+        loadQuestionStats();
       } else {
         resetForm();
       }
@@ -112,6 +134,18 @@ export const QuestionSetEditor: React.FC<QuestionSetEditorProps> = ({
     }
   };
 
+  // Stats are a bonus; the editor works without them
+  const loadQuestionStats = async () => {
+    if (!questionSet) return;
+
+    try {
+      setStats(await QuestionSetService.getQuestionSetStats(questionSet.id));
+    } catch (err) {
+      console.error('Failed to load question stats:', err);
+      setStats(null);
+    }
+  };
+
   const loadQuestionSetData = async () => {
     if (!questionSet) return;
 
@@ -138,6 +172,7 @@ export const QuestionSetEditor: React.FC<QuestionSetEditorProps> = ({
     setIsPublic(false);
     setSelectedTags([]);
     setQuestions([]);
+    setStats(null);
     setError(null);
     setIsDirty(false);
     setEditingQuestion(null);
@@ -192,6 +227,9 @@ export const QuestionSetEditor: React.FC<QuestionSetEditorProps> = ({
             time_limit: q.time_limit || 30,
             difficulty: q.difficulty || 'medium',
             category: q.category,
+            alternative_answers: q.alternative_answers || [],
+            tags: q.tags || [],
+            media: q.media || null,
             order_index: index
           }));
           await QuestionSetService.createMultipleQuestions(questionsToCreate);
@@ -216,6 +254,10 @@ export const QuestionSetEditor: React.FC<QuestionSetEditorProps> = ({
       return;
     }
 
+    // Keep transcripts and captions, which the form doesn't edit
+    const existingMedia = editingQuestion !== null ? questions[editingQuestion].media : null;
+    const mediaUrl = questionForm.media_url.trim();
+
     const newQuestion: CreateCustomQuestionData = {
       question_set_id: questionSet?.id || '',
       text: questionForm.text.trim(),
@@ -227,6 +269,22 @@ export const QuestionSetEditor: React.FC<QuestionSetEditorProps> = ({
       time_limit: questionForm.time_limit,
       difficulty: questionForm.difficulty,
       category: questionForm.category.trim() || undefined,
+      alternative_answers: questionForm.alternative_answers
+        .split('\n')
+        .map(a => a.trim())
+        .filter(Boolean),
+      tags: questionForm.tags
+        .split(',')
+        .map(t => t.trim())
+        .filter(Boolean),
+      media: questionForm.media_type && mediaUrl
+        ? {
+            ...existingMedia,
+            type: questionForm.media_type,
+            url: mediaUrl,
+            alt_text: questionForm.media_alt_text.trim() || undefined
+          }
+        : null,
       order_index: questions.length
     };
 
@@ -257,7 +315,12 @@ export const QuestionSetEditor: React.FC<QuestionSetEditorProps> = ({
       points: question.points || 1,
       time_limit: question.time_limit || 30,
       difficulty: question.difficulty || 'medium',
-      category: question.category || ''
+      category: question.category || '',
+      alternative_answers: (question.alternative_answers || []).join('\n'),
+      tags: (question.tags || []).join(', '),
+      media_type: question.media?.type || '',
+      media_url: question.media?.url || '',
+      media_alt_text: question.media?.alt_text || ''
     });
     setEditingQuestion(index);
     setShowQuestionModal(true);
@@ -268,6 +331,74 @@ export const QuestionSetEditor: React.FC<QuestionSetEditorProps> = ({
     setIsDirty(true);
   };
 
+  const handleImportQuestions = (imported: ExportQuestion[]) => {
+    setQuestions(prev => [
+      ...prev,
+      ...imported.map((q, i): CreateCustomQuestionData => ({
+        question_set_id: questionSet?.id || '',
+        text: q.text,
+        type: q.type,
+        options: q.options || [],
+        correct_answer: q.correct_answer,
+        explanation: q.explanation,
+        points: q.points,
+        time_limit: q.time_limit,
+        difficulty: q.difficulty,
+        category: q.category,
+        alternative_answers: q.alternative_answers || [],
+        tags: q.tags || [],
+        media: q.media || null,
+        order_index: prev.length + i
+      }))
+    ]);
+    setIsDirty(true);
+  };
+
+  const handleExport = () => {
+    try {
+      const exportFile = serializeQuestionSet({
+        metadata: {
+          title: title.trim() || 'Question set',
+          description: description.trim() || undefined,
+          created_at: new Date().toISOString(),
+          question_count: questions.length,
+          export_version: CURRENT_EXPORT_VERSION,
+          tags: availableTags.filter(t => selectedTags.includes(t.id)).map(t => t.name)
+        },
+        questions: questions.map(q => ({
+          text: q.text,
+          type: q.type,
+          options: q.options || [],
+          correct_answer: q.correct_answer,
+          explanation: q.explanation,
+          points: q.points || 1,
+          time_limit: q.time_limit || 30,
+          difficulty: q.difficulty || 'medium',
+          category: q.category,
+          alternative_answers: q.alternative_answers || [],
+          tags: q.tags || [],
+          media: q.media || null
+        }))
+      }, exportFormat);
+
+      const blob = new Blob([exportFile.content], { type: exportFile.mimeType });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = exportFile.fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      if (exportFile.warnings.length > 0) {
+        setError(`Exported with changes: ${exportFile.warnings.map(w => w.message).join('; ')}`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export question set');
+    }
+  };
+
   const moveQuestion = (fromIndex: number, toIndex: number) => {
     const updatedQuestions = [...questions];
     const [movedQuestion] = updatedQuestions.splice(fromIndex, 1);
@@ -279,98 +410,138 @@ export const QuestionSetEditor: React.FC<QuestionSetEditorProps> = ({
   const QuestionCard: React.FC<{ question: CustomQuestion | CreateCustomQuestionData; index: number }> = ({ 
     question, 
     index 
-  }) => (
-    <motion.div
-      layout
-      initial={{ opacity: 0, y: 20 }}
-      animate={{ opacity: 1, y: 0 }}
-      exit={{ opacity: 0, y: -20 }}
-      className="group"
-    >
-      <Card variant="default" className="hover:shadow-md transition-shadow">
-        <CardContent className="p-4">
-          <div className="flex items-start space-x-3">
-            <div className="flex flex-col items-center space-y-2">
-              <button
-                className="cursor-grab hover:cursor-grabbing p-1 text-gray-400 hover:text-gray-600"
-                // onMouseDown={() => setDragging(index)}
-              >
-                <GripVertical className="w-4 h-4" />
-              </button>
-              <span className="text-sm font-medium text-gray-500 bg-gray-100 rounded-full w-6 h-6 flex items-center justify-center">
-                {index + 1}
-              </span>
-            </div>
-            
-            <div className="flex-1 min-w-0">
-              <p className="text-sm font-medium text-gray-900 mb-2">
-                {question.text}
-              </p>
-              
-              <div className="flex items-center space-x-4 text-xs text-gray-500 mb-2">
-                <Badge variant="default" size="sm">
-                  {question.type.replace('_', ' ')}
-                </Badge>
-                <span>{question.points} pts</span>
-                <span>{question.time_limit}s</span>
-                <Badge 
-                  variant={
-                    question.difficulty === 'easy' ? 'success' :
-                    question.difficulty === 'hard' ? 'danger' : 'warning'
-                  }
-                  size="sm"
+  }) => {
+    // Only saved questions have been played
+    const itemStats = 'id' in question ? stats?.item_stats[question.id] : undefined;
+    const played = itemStats && itemStats.attempts > 0 ? itemStats : undefined;
+    const optionShare = (option: string) => played?.option_shares.find(share => share.option === option)?.share;
+    const otherShare = optionShare('Other');
+
+    return (
+      <motion.div
+        layout
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: -20 }}
+        className="group"
+      >
+        <Card variant="default" className="hover:shadow-md transition-shadow">
+          <CardContent className="p-4">
+            <div className="flex items-start space-x-3">
+              <div className="flex flex-col items-center space-y-2">
+                <button
+                  className="cursor-grab hover:cursor-grabbing p-1 text-gray-400 hover:text-gray-600"
+                  // onMouseDown={() => setDragging(index)}
                 >
-                  {question.difficulty}
-                </Badge>
+                  <GripVertical className="w-4 h-4" />
+                </button>
+                <span className="text-sm font-medium text-gray-500 bg-gray-100 rounded-full w-6 h-6 flex items-center justify-center">
+                  {index + 1}
+                </span>
               </div>
-
-              {question.type === 'multiple_choice' && question.options && question.options.length > 0 && (
-                <div className="space-y-1">
-                  {question.options.map((option, optionIndex) => (
-                    <div 
-                      key={optionIndex}
-                      className={cn(
-                        "text-xs px-2 py-1 rounded",
-                        option === question.correct_answer 
-                          ? "bg-green-100 text-green-800 font-medium" 
-                          : "bg-gray-50 text-gray-600"
-                      )}
+            
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 mb-2">
+                  {question.text}
+                </p>
+              
+                <div className="flex items-center space-x-4 text-xs text-gray-500 mb-2">
+                  <Badge variant="default" size="sm">
+                    {question.type.replace('_', ' ')}
+                  </Badge>
+                  <span>{question.points} pts</span>
+                  <span>{question.time_limit}s</span>
+                  <Badge 
+                    variant={
+                      question.difficulty === 'easy' ? 'success' :
+                      question.difficulty === 'hard' ? 'danger' : 'warning'
+                    }
+                    size="sm"
+                  >
+                    {question.difficulty}
+                  </Badge>
+                  {played?.flags.map(flag => (
+                    <Badge
+                      key={flag}
+                      variant={flag === 'ambiguous' ? 'danger' : 'warning'}
+                      size="sm"
+                      title={ITEM_FLAG_LABELS[flag].description}
                     >
-                      {String.fromCharCode(65 + optionIndex)}. {option}
-                    </div>
+                      {ITEM_FLAG_LABELS[flag].label}
+                    </Badge>
                   ))}
                 </div>
-              )}
 
-              {question.type !== 'multiple_choice' && (
-                <div className="text-xs px-2 py-1 bg-green-100 text-green-800 rounded font-medium">
-                  Answer: {question.correct_answer}
-                </div>
-              )}
-            </div>
+                {played && (
+                  <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-500 mb-2">
+                    <BarChart3 className="w-3 h-3" />
+                    <span>{played.percent_correct}% correct</span>
+                    <span title="How much better the top teams do on this question than the bottom ones (-1 to 1)">
+                      Discrimination {played.discrimination === null ? '—' : played.discrimination.toFixed(2)}
+                    </span>
+                    {played.average_confidence !== null && <span>{played.average_confidence} pts wagered</span>}
+                    {played.average_response_seconds !== null && <span>{played.average_response_seconds}s to answer</span>}
+                    <span>{played.attempts} answers in {played.games_used} {played.games_used === 1 ? 'game' : 'games'}</span>
+                  </div>
+                )}
 
-            <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => handleQuestionEdit(index)}
-              >
-                <Edit className="w-4 h-4" />
-              </Button>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => handleQuestionDelete(index)}
-                className="text-red-600 hover:text-red-700"
-              >
-                <Trash2 className="w-4 h-4" />
-              </Button>
+                {question.type === 'multiple_choice' && question.options && question.options.length > 0 && (
+                  <div className="space-y-1">
+                    {question.options.map((option, optionIndex) => (
+                      <div 
+                        key={optionIndex}
+                        className={cn(
+                          "text-xs px-2 py-1 rounded",
+                          option === question.correct_answer 
+                            ? "bg-green-100 text-green-800 font-medium" 
+                            : "bg-gray-50 text-gray-600"
+                        )}
+                      >
+                        {String.fromCharCode(65 + optionIndex)}. {option}
+                        {optionShare(option) !== undefined && (
+                          <span className="float-right">{optionShare(option)}%</span>
+                        )}
+                      </div>
+                    ))}
+                    {otherShare !== undefined && (
+                      <div className="text-xs px-2 py-1 rounded bg-gray-50 text-gray-500 italic">
+                        Other answers
+                        <span className="float-right">{otherShare}%</span>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {question.type !== 'multiple_choice' && (
+                  <div className="text-xs px-2 py-1 bg-green-100 text-green-800 rounded font-medium">
+                    Answer: {question.correct_answer}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleQuestionEdit(index)}
+                >
+                  <Edit className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleQuestionDelete(index)}
+                  className="text-red-600 hover:text-red-700"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
             </div>
-          </div>
-        </CardContent>
-      </Card>
-    </motion.div>
-  );
+          </CardContent>
+        </Card>
+      </motion.div>
+    );
+  };
 
   const QuestionFormModal: React.FC = () => (
     <Modal 
@@ -488,6 +659,22 @@ export const QuestionSetEditor: React.FC<QuestionSetEditorProps> = ({
           )}
         </div>
 
+        {/* Alternative Answers */}
+        {(questionForm.type === 'short_answer' || questionForm.type === 'fill_blank') && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Also Accept (one per line)
+            </label>
+            <textarea
+              value={questionForm.alternative_answers}
+              onChange={(e) => setQuestionForm(prev => ({ ...prev, alternative_answers: e.target.value }))}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-electric-500"
+              placeholder="e.g., NYC"
+            />
+          </div>
+        )}
+
         {/* Additional Settings */}
         <div className="grid grid-cols-2 gap-4">
           <div>
@@ -545,6 +732,67 @@ export const QuestionSetEditor: React.FC<QuestionSetEditorProps> = ({
           </div>
         </div>
 
+        {/* Media */}
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Media
+            </label>
+            <select
+              value={questionForm.media_type}
+              onChange={(e) => setQuestionForm(prev => ({ ...prev, media_type: e.target.value as QuestionMediaType | '' }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-electric-500"
+            >
+              <option value="">None</option>
+              <option value="image">Image</option>
+              <option value="audio">Audio</option>
+              <option value="video">Video</option>
+            </select>
+          </div>
+          {questionForm.media_type && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Media URL
+                </label>
+                <input
+                  type="url"
+                  value={questionForm.media_url}
+                  onChange={(e) => setQuestionForm(prev => ({ ...prev, media_url: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-electric-500"
+                  placeholder="https://..."
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Alt Text
+                </label>
+                <input
+                  type="text"
+                  value={questionForm.media_alt_text}
+                  onChange={(e) => setQuestionForm(prev => ({ ...prev, media_alt_text: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-electric-500"
+                  placeholder="Describe the media..."
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Tags */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Question Tags
+          </label>
+          <input
+            type="text"
+            value={questionForm.tags}
+            onChange={(e) => setQuestionForm(prev => ({ ...prev, tags: e.target.value }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-electric-500"
+            placeholder="e.g., 1980s, movies"
+          />
+        </div>
+
         {/* Explanation */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -728,15 +976,27 @@ export const QuestionSetEditor: React.FC<QuestionSetEditorProps> = ({
           {/* Actions */}
           <div className="flex justify-between pt-4 border-t">
             <div className="flex space-x-2">
-              <Button variant="ghost" size="sm">
+              <Button variant="ghost" size="sm" onClick={() => setShowImport(true)}>
                 <Upload className="w-4 h-4 mr-2" />
                 Import
               </Button>
               {questions.length > 0 && (
-                <Button variant="ghost" size="sm">
-                  <Download className="w-4 h-4 mr-2" />
-                  Export
-                </Button>
+                <div className="flex items-center space-x-1">
+                  <select
+                    value={exportFormat}
+                    onChange={(e) => setExportFormat(e.target.value as QuestionSetFileFormat)}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    aria-label="Export format"
+                  >
+                    {(Object.keys(FILE_FORMAT_LABELS) as QuestionSetFileFormat[]).map(key => (
+                      <option key={key} value={key}>{FILE_FORMAT_LABELS[key]}</option>
+                    ))}
+                  </select>
+                  <Button variant="ghost" size="sm" onClick={handleExport}>
+                    <Download className="w-4 h-4 mr-2" />
+                    Export
+                  </Button>
+                </div>
               )}
             </div>
 
@@ -766,6 +1026,12 @@ export const QuestionSetEditor: React.FC<QuestionSetEditorProps> = ({
       </Modal>
 
       <QuestionFormModal />
+
+      <QuestionSetImportModal
+        isOpen={showImport}
+        onClose={() => setShowImport(false)}
+        onImport={handleImportQuestions}
+      />
     </>
   );
 };
\ No newline at end of file
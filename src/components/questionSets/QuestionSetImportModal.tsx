@@ -0,0 +1,285 @@
+import React, { useState, useEffect } from 'react';
+import { Upload, AlertCircle, AlertTriangle, CheckCircle, FileText } from 'lucide-react';
+import type {
+  ExportQuestion,
+  ImportColumnField,
+  ImportColumnMapping,
+  ImportPreview,
+  ImportValidationError,
+  QuestionSetFileFormat
+} from '../../types/questionSets';
+import { QuestionSetService } from '../../services/questionSetService';
+import { FILE_FORMAT_LABELS, IMPORT_COLUMN_LABELS } from '../../utils/questionSetFormats';
+import Button from '../ui/host/Button';
+import Badge from '../ui/host/Badge';
+import Modal from '../ui/host/Modal';
+import { cn } from '../../utils/cn';
+
+interface QuestionSetImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImport: (questions: ExportQuestion[]) => void;
+}
+
+const ACCEPTED_FILES = '.json,.csv,.tsv,.txt,.gift,.xlsx';
+
+const groupByQuestion = (issues: ImportValidationError[]) => {
+  const grouped = new Map<number, ImportValidationError[]>();
+  issues.forEach(issue => {
+    if (issue.question_index === undefined) return;
+    grouped.set(issue.question_index, [...(grouped.get(issue.question_index) || []), issue]);
+  });
+  return grouped;
+};
+
+export const QuestionSetImportModal: React.FC<QuestionSetImportModalProps> = ({
+  isOpen,
+  onClose,
+  onImport
+}) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<QuestionSetFileFormat | undefined>();
+  const [columnMapping, setColumnMapping] = useState<ImportColumnMapping | undefined>();
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setFile(null);
+      setFormat(undefined);
+      setColumnMapping(undefined);
+      setPreview(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  // Re-run the dry run whenever the file, format or column mapping changes
+  useEffect(() => {
+    if (!file) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    QuestionSetService.previewImportFile(file, { format, columnMapping })
+      .then(result => {
+        if (!cancelled) setPreview(result);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setPreview(null);
+        setError(err instanceof Error ? err.message : 'Failed to read file');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file, format, columnMapping]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    setFormat(undefined);
+    setColumnMapping(undefined);
+    setFile(selected);
+  };
+
+  const handleMappingChange = (column: number, field: ImportColumnField | null) => {
+    const current = columnMapping || preview?.columnMapping || [];
+    const updated = [...current];
+    updated[column] = field;
+    setColumnMapping(updated);
+  };
+
+  const errorsByQuestion = groupByQuestion(preview?.validation.errors || []);
+  const warningsByQuestion = groupByQuestion(preview?.validation.warnings || []);
+  const fileErrors = (preview?.validation.errors || []).filter(issue => issue.question_index === undefined);
+  const fileWarnings = (preview?.validation.warnings || []).filter(issue => issue.question_index === undefined);
+  const validQuestions = (preview?.data.questions || []).filter((_, index) => !errorsByQuestion.has(index));
+  const migrationNotes = (preview?.migration?.changes || []).filter(change => change.question_index === undefined);
+  const isColumnFormat = preview?.format === 'csv' || preview?.format === 'tsv';
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Import Questions" size="xl">
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <label className="flex-1 min-w-[16rem]">
+            <span className="block text-sm font-medium text-gray-700 mb-2">File</span>
+            <div className="flex items-center px-3 py-2 border border-dashed border-gray-300 rounded-lg">
+              <FileText className="w-4 h-4 mr-2 text-gray-400" />
+              <input
+                type="file"
+                accept={ACCEPTED_FILES}
+                onChange={handleFileChange}
+                className="text-sm text-gray-700"
+              />
+            </div>
+          </label>
+
+          <label>
+            <span className="block text-sm font-medium text-gray-700 mb-2">Format</span>
+            <select
+              value={format || preview?.format || ''}
+              onChange={(e) => {
+                setColumnMapping(undefined);
+                setFormat(e.target.value as QuestionSetFileFormat);
+              }}
+              disabled={!file}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-electric-500 focus:border-electric-500"
+            >
+              <option value="" disabled>Detect from file</option>
+              {(Object.keys(FILE_FORMAT_LABELS) as QuestionSetFileFormat[]).map(key => (
+                <option key={key} value={key}>{FILE_FORMAT_LABELS[key]}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {/* Column mapping */}
+        {isColumnFormat && preview?.headers && (
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Columns</h4>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {preview.headers.map((header, column) => (
+                <label key={`${header}-${column}`} className="text-xs text-gray-600">
+                  <span className="block truncate mb-1">{header || `Column ${column + 1}`}</span>
+                  <select
+                    value={preview.columnMapping?.[column] || ''}
+                    onChange={(e) =>
+                      handleMappingChange(column, (e.target.value || null) as ImportColumnField | null)
+                    }
+                    className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value="">Ignore</option>
+                    {(Object.keys(IMPORT_COLUMN_LABELS) as ImportColumnField[]).map(field => (
+                      <option key={field} value={field}>{IMPORT_COLUMN_LABELS[field]}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {isLoading && (
+          <div className="flex items-center text-sm text-gray-500">
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-electric-500 mr-2"></div>
+            Checking file...
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded-lg flex items-center">
+            <AlertCircle className="w-4 h-4 mr-2" />
+            {error}
+          </div>
+        )}
+
+        {/* Dry-run preview */}
+        {preview && !isLoading && (
+          <div className="space-y-3">
+            <div className="flex items-center space-x-2">
+              <Badge variant="success" size="sm" icon={CheckCircle}>
+                {validQuestions.length} ready
+              </Badge>
+              {errorsByQuestion.size > 0 && (
+                <Badge variant="danger" size="sm" icon={AlertCircle}>
+                  {errorsByQuestion.size} with errors
+                </Badge>
+              )}
+              {warningsByQuestion.size > 0 && (
+                <Badge variant="warning" size="sm" icon={AlertTriangle}>
+                  {warningsByQuestion.size} with warnings
+                </Badge>
+              )}
+            </div>
+
+            {preview.migration && (preview.migration.steps.length > 0 || migrationNotes.length > 0) && (
+              <div className="bg-electric-50 border border-electric-200 rounded-lg px-4 py-3 text-sm">
+                <p className="font-medium text-electric-800">
+                  {preview.migration.steps.length > 0
+                    ? `Upgraded from version ${preview.migration.source_version} to ${preview.migration.target_version}`
+                    : `Adjusted to version ${preview.migration.target_version}`}
+                </p>
+                <ul className="mt-1 text-electric-700 list-disc list-inside">
+                  {migrationNotes.map((change, i) => (
+                    <li key={i}>{change.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {fileErrors.map((issue, i) => (
+              <p key={`e-${i}`} className="text-sm text-red-700">{issue.message}</p>
+            ))}
+            {fileWarnings.map((issue, i) => (
+              <p key={`w-${i}`} className="text-sm text-amber-700">{issue.message}</p>
+            ))}
+
+            <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-gray-600 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 w-16">Row</th>
+                    <th className="px-3 py-2">Question</th>
+                    <th className="px-3 py-2">Answer</th>
+                    <th className="px-3 py-2">Issues</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.data.questions.map((question, index) => {
+                    const errors = errorsByQuestion.get(index) || [];
+                    const warnings = warningsByQuestion.get(index) || [];
+                    return (
+                      <tr
+                        key={index}
+                        className={cn('border-t border-gray-100', errors.length > 0 && 'bg-red-50')}
+                      >
+                        <td className="px-3 py-2 text-gray-500">{preview.rows[index]}</td>
+                        <td className="px-3 py-2">
+                          <p className="text-gray-900 line-clamp-2">{question.text}</p>
+                          <p className="text-xs text-gray-500">{String(question.type).replace('_', ' ')}</p>
+                        </td>
+                        <td className="px-3 py-2 text-gray-700">{question.correct_answer}</td>
+                        <td className="px-3 py-2 text-xs">
+                          {errors.map((issue, i) => (
+                            <p key={`e-${i}`} className="text-red-700">{issue.message}</p>
+                          ))}
+                          {warnings.map((issue, i) => (
+                            <p key={`w-${i}`} className="text-amber-700">{issue.message}</p>
+                          ))}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4 border-t">
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => {
+              onImport(validQuestions);
+              onClose();
+            }}
+            disabled={isLoading || validQuestions.length === 0}
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            Add {validQuestions.length} Question{validQuestions.length === 1 ? '' : 's'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default QuestionSetImportModal;
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { useScheduledGameNotifications } from '../../hooks/useScheduledGameNotifications';
+import { usePushNotifications } from '../../hooks/usePushNotifications';
 import { ScheduledGameNotificationService } from '../../services/scheduledGameNotifications';
 import { useNavigate } from 'react-router-dom';
 
@@ -12,6 +13,7 @@ export function GameNotificationBell() {
     markAllAsRead,
     clearNotification
   } = useScheduledGameNotifications();
+  const push = usePushNotifications();
   const [showDropdown, setShowDropdown] = useState(false);
 
   const handleNotificationClick = (notification: any) => {
@@ -73,6 +75,26 @@ export function GameNotificationBell() {
               )}
             </div>
 
+            {/* Push Reminders */}
+            {push.isSupported && (
+              <div className="px-4 py-2 border-b border-electric-100 bg-electric-50/50">
+                {push.permission === 'denied' ? (
+                  <p className="text-xs text-gray-500">
+                    Push reminders are blocked. Allow notifications for this site in your browser settings.
+                  </p>
+                ) : (
+                  <button
+                    onClick={push.isSubscribed ? push.disable : push.enable}
+                    disabled={push.isLoading}
+                    className="text-sm text-electric-600 hover:text-electric-700 font-medium disabled:opacity-50"
+                  >
+                    {push.isSubscribed ? 'Turn off push reminders' : 'Turn on push reminders'}
+                  </button>
+                )}
+                {push.error && <p className="text-xs text-energy-red mt-1">{push.error}</p>}
+              </div>
+            )}
+
             {/* Notifications List */}
             <div className="max-h-96 overflow-y-auto">
               {notifications.length === 0 ? (
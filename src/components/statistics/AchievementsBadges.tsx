@@ -5,28 +5,24 @@ import {
   Star,
   Award,
   Crown,
-  Target,
   Zap,
   Brain,
-  Clock,
   Users,
   Medal,
   Flame,
-  Shield,
   Sparkles,
   Lock,
   Info,
-  Calendar
+  Calendar,
+  Heart,
+  type LucideIcon
 } from 'lucide-react';
 import { statisticsService, type UserStatistics } from '../../services/statisticsService';
+import type { AchievementIcon, AchievementRule } from '../../types/achievements';
+import { ACHIEVEMENT_RULES, evaluateAchievement, statisticsFacts } from '../../utils/achievements';
 
-interface Achievement {
-  id: string;
-  name: string;
-  description: string;
+interface Achievement extends Omit<AchievementRule, 'icon' | 'criteria'> {
   icon: React.ReactNode;
-  rarity: 'common' | 'rare' | 'epic' | 'legendary';
-  category: 'performance' | 'participation' | 'social' | 'special';
   requirement: {
     type: string;
     value: number;
@@ -34,7 +30,6 @@ interface Achievement {
   };
   unlocked: boolean;
   unlockedAt?: string;
-  points: number;
   progress?: number; // 0-100
 }
 
@@ -46,195 +41,20 @@ interface AchievementsBadgesProps {
   maxDisplay?: number;
 }
 
-const ACHIEVEMENT_DEFINITIONS: Omit<Achievement, 'unlocked' | 'unlockedAt' | 'requirement'>[] = [
-  // Performance Achievements
-  {
-    id: 'first_win',
-    name: 'First Victory',
-    description: 'Win your first trivia game',
-    icon: <Trophy className="w-6 h-6" />,
-    rarity: 'common',
-    category: 'performance',
-    points: 50
-  },
-  {
-    id: 'perfect_round',
-    name: 'Perfect Round',
-    description: 'Answer all questions correctly in a single round',
-    icon: <Target className="w-6 h-6" />,
-    rarity: 'rare',
-    category: 'performance',
-    points: 100
-  },
-  {
-    id: 'speed_demon',
-    name: 'Speed Demon',
-    description: 'Average response time under 5 seconds',
-    icon: <Zap className="w-6 h-6" />,
-    rarity: 'epic',
-    category: 'performance',
-    points: 200
-  },
-  {
-    id: 'trivia_master',
-    name: 'Trivia Master',
-    description: 'Maintain 90%+ accuracy over 50 games',
-    icon: <Brain className="w-6 h-6" />,
-    rarity: 'legendary',
-    category: 'performance',
-    points: 500
-  },
-  {
-    id: 'winning_streak_5',
-    name: 'Hot Streak',
-    description: 'Win 5 games in a row',
-    icon: <Flame className="w-6 h-6" />,
-    rarity: 'rare',
-    category: 'performance',
-    points: 150
-  },
-  {
-    id: 'winning_streak_10',
-    name: 'Unstoppable',
-    description: 'Win 10 games in a row',
-    icon: <Crown className="w-6 h-6" />,
-    rarity: 'epic',
-    category: 'performance',
-    points: 300
-  },
-  {
-    id: 'high_scorer',
-    name: 'High Scorer',
-    description: 'Score over 1000 points in a single game',
-    icon: <Star className="w-6 h-6" />,
-    rarity: 'rare',
-    category: 'performance',
-    points: 100
-  },
-  {
-    id: 'comeback_king',
-    name: 'Comeback King',
-    description: 'Win after being in last place',
-    icon: <Shield className="w-6 h-6" />,
-    rarity: 'epic',
-    category: 'performance',
-    points: 250
-  },
-
-  // Participation Achievements
-  {
-    id: 'games_10',
-    name: 'Getting Started',
-    description: 'Play 10 trivia games',
-    icon: <Medal className="w-6 h-6" />,
-    rarity: 'common',
-    category: 'participation',
-    points: 25
-  },
-  {
-    id: 'games_50',
-    name: 'Trivia Enthusiast',
-    description: 'Play 50 trivia games',
-    icon: <Award className="w-6 h-6" />,
-    rarity: 'common',
-    category: 'participation',
-    points: 75
-  },
-  {
-    id: 'games_100',
-    name: 'Trivia Veteran',
-    description: 'Play 100 trivia games',
-    icon: <Trophy className="w-6 h-6" />,
-    rarity: 'rare',
-    category: 'participation',
-    points: 200
-  },
-  {
-    id: 'games_250',
-    name: 'Trivia Legend',
-    description: 'Play 250 trivia games',
-    icon: <Crown className="w-6 h-6" />,
-    rarity: 'epic',
-    category: 'participation',
-    points: 400
-  },
-  {
-    id: 'weekly_warrior',
-    name: 'Weekly Warrior',
-    description: 'Play every day for a week',
-    icon: <Calendar className="w-6 h-6" />,
-    rarity: 'rare',
-    category: 'participation',
-    points: 150
-  },
-
-  // Social Achievements
-  {
-    id: 'team_captain',
-    name: 'Team Captain',
-    description: 'Lead a team to victory',
-    icon: <Users className="w-6 h-6" />,
-    rarity: 'common',
-    category: 'social',
-    points: 100
-  },
-  {
-    id: 'team_leader',
-    name: 'Team Leader',
-    description: 'Captain 10 different teams',
-    icon: <Crown className="w-6 h-6" />,
-    rarity: 'rare',
-    category: 'social',
-    points: 200
-  },
-  {
-    id: 'team_builder',
-    name: 'Team Builder',
-    description: 'Play with 25 different teammates',
-    icon: <Users className="w-6 h-6" />,
-    rarity: 'epic',
-    category: 'social',
-    points: 250
-  },
-
-  // Special Achievements
-  {
-    id: 'league_master',
-    name: 'League Master',
-    description: 'Reach Master League',
-    icon: <Crown className="w-6 h-6" />,
-    rarity: 'legendary',
-    category: 'special',
-    points: 1000
-  },
-  {
-    id: 'category_expert',
-    name: 'Category Expert',
-    description: 'Achieve 95%+ accuracy in any category',
-    icon: <Brain className="w-6 h-6" />,
-    rarity: 'epic',
-    category: 'special',
-    points: 300
-  },
-  {
-    id: 'lightning_fast',
-    name: 'Lightning Fast',
-    description: 'Answer a question in under 2 seconds',
-    icon: <Zap className="w-6 h-6" />,
-    rarity: 'rare',
-    category: 'special',
-    points: 150
-  },
-  {
-    id: 'perfectionist',
-    name: 'Perfectionist',
-    description: 'Complete a game with 100% accuracy',
-    icon: <Sparkles className="w-6 h-6" />,
-    rarity: 'epic',
-    category: 'special',
-    points: 200
-  }
-];
+const ACHIEVEMENT_ICONS: Record<AchievementIcon, LucideIcon> = {
+  trophy: Trophy,
+  star: Star,
+  award: Award,
+  crown: Crown,
+  zap: Zap,
+  brain: Brain,
+  users: Users,
+  medal: Medal,
+  flame: Flame,
+  sparkles: Sparkles,
+  calendar: Calendar,
+  heart: Heart
+};
 
 const RARITY_CONFIGS = {
   common: {
@@ -280,164 +100,43 @@ export function AchievementsBadges({
   const [showModal, setShowModal] = useState(false);
 
   useEffect(() => {
-    if (userStats) {
-      const processedAchievements = ACHIEVEMENT_DEFINITIONS.map(achievementDef => {
-        const { unlocked, requirement, progress } = checkAchievementStatus(achievementDef, userStats);
-        
-        return {
-          ...achievementDef,
-          unlocked,
-          requirement,
-          progress,
-          unlockedAt: unlocked ? new Date().toISOString() : undefined // Mock unlock date
-        };
-      });
-
-      setAchievements(processedAchievements);
-    }
-  }, [userStats]);
+    let cancelled = false;
 
-  const checkAchievementStatus = (
-    achievement: Omit<Achievement, 'unlocked' | 'unlockedAt' | 'requirement'>,
-    stats: UserStatistics
-  ): { unlocked: boolean; requirement: Achievement['requirement']; progress: number } => {
-    let unlocked = false;
-    let current = 0;
-    let target = 0;
-    let requirementType = '';
+    statisticsService.getUnlockedAchievements(userId).then(unlocks => {
+      if (cancelled) return;
 
-    switch (achievement.id) {
-      case 'first_win':
-        current = stats.total_wins;
-        target = 1;
-        requirementType = 'wins';
-        unlocked = stats.total_wins >= 1;
-        break;
-      
-      case 'perfect_round':
-        current = stats.overall_accuracy || 0;
-        target = 100;
-        requirementType = 'accuracy';
-        unlocked = (stats.overall_accuracy || 0) === 100;
-        break;
-      
-      case 'speed_demon':
-        current = stats.average_response_time || 0;
-        target = 5;
-        requirementType = 'response_time';
-        unlocked = (stats.average_response_time || Infinity) < 5;
-        break;
-      
-      case 'trivia_master':
-        current = Math.min(stats.total_games_played, 50);
-        target = 50;
-        requirementType = 'games_with_accuracy';
-        unlocked = stats.total_games_played >= 50 && (stats.overall_accuracy || 0) >= 90;
-        break;
-      
-      case 'winning_streak_5':
-        current = stats.current_win_streak;
-        target = 5;
-        requirementType = 'win_streak';
-        unlocked = stats.longest_win_streak >= 5;
-        break;
-      
-      case 'winning_streak_10':
-        current = stats.current_win_streak;
-        target = 10;
-        requirementType = 'win_streak';
-        unlocked = stats.longest_win_streak >= 10;
-        break;
-      
-      case 'high_scorer':
-        current = stats.highest_score;
-        target = 1000;
-        requirementType = 'high_score';
-        unlocked = stats.highest_score >= 1000;
-        break;
-      
-      case 'games_10':
-        current = stats.total_games_played;
-        target = 10;
-        requirementType = 'games_played';
-        unlocked = stats.total_games_played >= 10;
-        break;
-      
-      case 'games_50':
-        current = stats.total_games_played;
-        target = 50;
-        requirementType = 'games_played';
-        unlocked = stats.total_games_played >= 50;
-        break;
-      
-      case 'games_100':
-        current = stats.total_games_played;
-        target = 100;
-        requirementType = 'games_played';
-        unlocked = stats.total_games_played >= 100;
-        break;
-      
-      case 'games_250':
-        current = stats.total_games_played;
-        target = 250;
-        requirementType = 'games_played';
-        unlocked = stats.total_games_played >= 250;
-        break;
-      
-      case 'team_captain':
-        current = stats.teams_captained;
-        target = 1;
-        requirementType = 'teams_captained';
-        unlocked = stats.teams_captained >= 1;
-        break;
-      
-      case 'team_leader':
-        current = stats.teams_captained;
-        target = 10;
-        requirementType = 'teams_captained';
-        unlocked = stats.teams_captained >= 10;
-        break;
-      
-      case 'league_master':
-        current = stats.current_league === 'Master' ? 1 : 0;
-        target = 1;
-        requirementType = 'league';
-        unlocked = stats.current_league === 'Master';
-        break;
-      
-      case 'lightning_fast':
-        current = stats.fastest_ever_response || 0;
-        target = 2;
-        requirementType = 'fastest_response';
-        unlocked = (stats.fastest_ever_response || Infinity) < 2;
-        break;
-      
-      case 'perfectionist':
-        current = stats.overall_accuracy || 0;
-        target = 100;
-        requirementType = 'perfect_game';
-        unlocked = (stats.overall_accuracy || 0) === 100;
-        break;
+      const unlockedAt = new Map(unlocks.map(unlock => [unlock.achievement_id, unlock.unlocked_at]));
+      const facts = userStats ? statisticsFacts(userStats) : {};
 
-      default:
-        current = 0;
-        target = 1;
-        requirementType = 'unknown';
-        unlocked = false;
-    }
+      setAchievements(ACHIEVEMENT_RULES.map(rule => {
+        const { criterion, current, progress } = evaluateAchievement(rule, facts);
+        const Icon = ACHIEVEMENT_ICONS[rule.icon];
+        const unlocked = unlockedAt.has(rule.id);
 
-    const progress = target > 0 ? Math.min((current / target) * 100, 100) : 0;
+        return {
+          id: rule.id,
+          name: rule.name,
+          description: rule.description,
+          icon: <Icon className="w-6 h-6" />,
+          rarity: rule.rarity,
+          category: rule.category,
+          points: rule.points,
+          requirement: {
+            type: criterion.metric,
+            value: criterion.threshold,
+            current
+          },
+          unlocked,
+          unlockedAt: unlockedAt.get(rule.id),
+          progress: unlocked ? 100 : progress
+        };
+      }));
+    });
 
-    return {
-      unlocked,
-      requirement: {
-        type: requirementType,
-        value: target,
-        current
-      },
-      progress
+    return () => {
+      cancelled = true;
     };
-  };
+  }, [userId, userStats]);
 
   const filteredAchievements = achievements.filter(achievement => {
     if (selectedCategory !== 'all' && achievement.category !== selectedCategory) {
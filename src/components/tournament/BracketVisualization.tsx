@@ -1,9 +1,15 @@
 import React, { useMemo } from 'react';
-import type { TournamentMatch, TournamentParticipant } from '../../types/database';
+import type {
+  Tournament,
+  TournamentMatch,
+  TournamentParticipant,
+  EliminationMatchData
+} from '../../types/database';
 
 interface BracketVisualizationProps {
   matches: TournamentMatch[];
   totalRounds: number;
+  format?: Tournament['format'];
   onMatchClick?: (match: TournamentMatch) => void;
 }
 
@@ -15,11 +21,22 @@ interface BracketMatch extends TournamentMatch {
   height: number;
 }
 
-export default function BracketVisualization({ 
+export default function BracketVisualization({
+  format,
+  ...props
+}: BracketVisualizationProps) {
+  if (format === 'double_elimination') {
+    return <DoubleEliminationBracket matches={props.matches} onMatchClick={props.onMatchClick} />;
+  }
+
+  return <SingleEliminationBracket {...props} />;
+}
+
+function SingleEliminationBracket({ 
   matches, 
   totalRounds,
   onMatchClick 
-}: BracketVisualizationProps) {
+}: Omit<BracketVisualizationProps, 'format'>) {
   const bracketData = useMemo(() => {
     const matchHeight = 80;
     const matchWidth = 200;
@@ -71,113 +88,6 @@ export default function BracketVisualization({
   const svgWidth = totalRounds * 250 + 40;
   const svgHeight = Math.pow(2, totalRounds - 1) * 100 + 40;
 
-  const renderMatch = (match: BracketMatch) => {
-    const team1 = match.team1;
-    const team2 = match.team2;
-    const isComplete = match.status === 'completed';
-    const isBye = match.status === 'bye';
-    const isLive = match.status === 'in_progress';
-
-    return (
-      <g key={match.id}>
-        {/* Match box */}
-        <rect
-          x={match.x}
-          y={match.y}
-          width={match.width}
-          height={match.height}
-          rx={8}
-          className={`
-            fill-white stroke-2 cursor-pointer transition-all
-            ${isLive ? 'stroke-energy-green animate-pulse' : 
-              isComplete ? 'stroke-electric-500' : 'stroke-electric-200'}
-            hover:stroke-electric-600 hover:shadow-lg
-          `}
-          onClick={() => onMatchClick?.(match)}
-        />
-
-        {/* Team 1 */}
-        <g>
-          <rect
-            x={match.x}
-            y={match.y}
-            width={match.width}
-            height={match.height / 2}
-            rx={8}
-            className={`
-              ${team1 && match.winner_id === team1.id ? 'fill-electric-100' : 'fill-transparent'}
-            `}
-          />
-          <text
-            x={match.x + 10}
-            y={match.y + match.height / 4 + 5}
-            className="text-sm font-medium fill-gray-900"
-          >
-            {team1?.team?.name || (isBye ? 'BYE' : 'TBD')}
-          </text>
-          {isComplete && (
-            <text
-              x={match.x + match.width - 30}
-              y={match.y + match.height / 4 + 5}
-              className="text-sm font-bold fill-electric-600"
-            >
-              {match.team1_score}
-            </text>
-          )}
-        </g>
-
-        {/* Divider */}
-        <line
-          x1={match.x}
-          y1={match.y + match.height / 2}
-          x2={match.x + match.width}
-          y2={match.y + match.height / 2}
-          className="stroke-electric-200"
-        />
-
-        {/* Team 2 */}
-        <g>
-          <rect
-            x={match.x}
-            y={match.y + match.height / 2}
-            width={match.width}
-            height={match.height / 2}
-            rx={8}
-            className={`
-              ${team2 && match.winner_id === team2.id ? 'fill-electric-100' : 'fill-transparent'}
-            `}
-          />
-          <text
-            x={match.x + 10}
-            y={match.y + 3 * match.height / 4 + 5}
-            className="text-sm font-medium fill-gray-900"
-          >
-            {team2?.team?.name || 'TBD'}
-          </text>
-          {isComplete && (
-            <text
-              x={match.x + match.width - 30}
-              y={match.y + 3 * match.height / 4 + 5}
-              className="text-sm font-bold fill-electric-600"
-            >
-              {match.team2_score}
-            </text>
-          )}
-        </g>
-
-        {/* Live indicator */}
-        {isLive && (
-          <circle
-            cx={match.x + match.width - 15}
-            cy={match.y + 15}
-            r={5}
-            className="fill-energy-green animate-pulse"
-          />
-        )}
-      </g>
-    );
-  };
-
   const renderConnectors = () => {
     const connectors = [];
     
@@ -239,8 +149,276 @@ export default function BracketVisualization({
         {renderRoundLabels()}
         
         {/* Render matches */}
-        {bracketData.flat().map(renderMatch)}
+        {bracketData.flat().map(match => (
+          <MatchBox key={match.id} match={match} onMatchClick={onMatchClick} />
+        ))}
       </svg>
     </div>
   );
-}
\ No newline at end of file
+}
+
+interface MatchBoxProps {
+  match: BracketMatch;
+  onMatchClick?: (match: TournamentMatch) => void;
+}
+
+function MatchBox({ match, onMatchClick }: MatchBoxProps) {
+  const team1 = match.team1;
+  const team2 = match.team2;
+  const isComplete = match.status === 'completed';
+  const isBye = match.status === 'bye';
+  const isLive = match.status === 'in_progress';
+
+  return (
+    <g key={match.id}>
+      {/* Match box */}
+      <rect
+        x={match.x}
+        y={match.y}
+        width={match.width}
+        height={match.height}
+        rx={8}
+        className={`
+          fill-white stroke-2 cursor-pointer transition-all
+          ${isLive ? 'stroke-energy-green animate-pulse' : 
+            isComplete ? 'stroke-electric-500' : 'stroke-electric-200'}
+          hover:stroke-electric-600 hover:shadow-lg
+        `}
+        onClick={() => onMatchClick?.(match)}
+      />
+
+      {/* Team 1 */}
+      <g>
+        <rect
+          x={match.x}
+          y={match.y}
+          width={match.width}
+          height={match.height / 2}
+          rx={8}
+          className={`
+            ${team1 && match.winner_id === team1.id ? 'fill-electric-100' : 'fill-transparent'}
+          `}
+        />
+        <text
+          x={match.x + 10}
+          y={match.y + match.height / 4 + 5}
+          className="text-sm font-medium fill-gray-900"
+        >
+          {team1?.team?.name || (isBye ? 'BYE' : 'TBD')}
+        </text>
+        {isComplete && (
+          <text
+            x={match.x + match.width - 30}
+            y={match.y + match.height / 4 + 5}
+            className="text-sm font-bold fill-electric-600"
+          >
+            {match.team1_score}
+          </text>
+        )}
+      </g>
+
+      {/* Divider */}
+      <line
+        x1={match.x}
+        y1={match.y + match.height / 2}
+        x2={match.x + match.width}
+        y2={match.y + match.height / 2}
+        className="stroke-electric-200"
+      />
+
+      {/* Team 2 */}
+      <g>
+        <rect
+          x={match.x}
+          y={match.y + match.height / 2}
+          width={match.width}
+          height={match.height / 2}
+          rx={8}
+          className={`
+            ${team2 && match.winner_id === team2.id ? 'fill-electric-100' : 'fill-transparent'}
+          `}
+        />
+        <text
+          x={match.x + 10}
+          y={match.y + 3 * match.height / 4 + 5}
+          className="text-sm font-medium fill-gray-900"
+        >
+          {team2?.team?.name || 'TBD'}
+        </text>
+        {isComplete && (
+          <text
+            x={match.x + match.width - 30}
+            y={match.y + 3 * match.height / 4 + 5}
+            className="text-sm font-bold fill-electric-600"
+          >
+            {match.team2_score}
+          </text>
+        )}
+      </g>
+
+      {/* Live indicator */}
+      {isLive && (
+        <circle
+          cx={match.x + match.width - 15}
+          cy={match.y + 15}
+          r={5}
+          className="fill-energy-green animate-pulse"
+        />
+      )}
+    </g>
+  );
+}
+
+const SECTION_MATCH_HEIGHT = 80;
+const SECTION_MATCH_WIDTH = 200;
+const SECTION_ROUND_GAP = 250;
+const SECTION_MATCH_GAP = 20;
+const SECTION_LABEL_HEIGHT = 40;
+
+interface BracketSectionLayout {
+  title: string;
+  matches: BracketMatch[];
+  width: number;
+  height: number;
+}
+
+// Lay out one bracket section column by column. Rounds in a losers bracket do not
+// always halve, so each round is spread evenly over the tallest round's height.
+function layoutSection(
+  title: string,
+  sectionMatches: TournamentMatch[],
+  roundName: (bracketRound: number, lastRound: number) => string
+): BracketSectionLayout {
+  const roundNumbers = Array.from(
+    new Set(sectionMatches.map(m => (m.match_data as EliminationMatchData).bracket_round))
+  ).sort((a, b) => a - b);
+  const lastRound = roundNumbers[roundNumbers.length - 1] || 0;
+
+  const rounds = roundNumbers.map(round =>
+    sectionMatches
+      .filter(m => (m.match_data as EliminationMatchData).bracket_round === round)
+      .sort((a, b) => a.match_number - b.match_number)
+  );
+  const tallest = Math.max(1, ...rounds.map(r => r.length));
+  const height = tallest * (SECTION_MATCH_HEIGHT + SECTION_MATCH_GAP);
+
+  const laidOut: BracketMatch[] = [];
+  rounds.forEach((roundMatches, roundIndex) => {
+    const slotHeight = height / roundMatches.length;
+    roundMatches.forEach((match, matchIndex) => {
+      laidOut.push({
+        ...match,
+        roundName: roundName(roundNumbers[roundIndex], lastRound),
+        x: roundIndex * SECTION_ROUND_GAP + 20,
+        y: SECTION_LABEL_HEIGHT + matchIndex * slotHeight + (slotHeight - SECTION_MATCH_HEIGHT) / 2,
+        width: SECTION_MATCH_WIDTH,
+        height: SECTION_MATCH_HEIGHT
+      });
+    });
+  });
+
+  return {
+    title,
+    matches: laidOut,
+    width: rounds.length * SECTION_ROUND_GAP + 40,
+    height: height + SECTION_LABEL_HEIGHT
+  };
+}
+
+function DoubleEliminationBracket({
+  matches,
+  onMatchClick
+}: Pick<BracketVisualizationProps, 'matches' | 'onMatchClick'>) {
+  const sections = useMemo(() => {
+    const inBracket = (bracket: EliminationMatchData['bracket']) =>
+      matches.filter(m => (m.match_data as EliminationMatchData | undefined)?.bracket === bracket);
+
+    const grandFinal = inBracket('grand_final').filter(m => {
+      const data = m.match_data as EliminationMatchData;
+      // Only show the reset match once it is actually needed
+      return !data.is_reset || (m.status !== 'cancelled' && (m.team1_id || m.team2_id));
+    });
+
+    return [
+      layoutSection('Winners Bracket', inBracket('winners'), (round, last) =>
+        round === last ? 'Winners Final' :
+        round === last - 1 ? 'Winners Semifinals' :
+        `Winners Round ${round}`
+      ),
+      layoutSection('Losers Bracket', inBracket('losers'), (round, last) =>
+        round === last ? 'Losers Final' : `Losers Round ${round}`
+      ),
+      layoutSection('Grand Final', grandFinal, round =>
+        round === 1 ? 'Grand Final' : 'Bracket Reset'
+      )
+    ].filter(section => section.matches.length > 0);
+  }, [matches]);
+
+  // Hand back the original match rather than the laid-out copy
+  const handleMatchClick = onMatchClick && ((match: TournamentMatch) =>
+    onMatchClick(matches.find(m => m.id === match.id) || match));
+
+  const renderConnectors = (section: BracketSectionLayout) => {
+    const byPosition = new Map(section.matches.map(m => [m.bracket_position, m]));
+
+    return section.matches.flatMap(source => {
+      const target = (source.match_data as EliminationMatchData).winner_to;
+      const nextMatch = target && byPosition.get(target.position);
+      if (!target || !nextMatch) return [];
+
+      const startX = source.x + source.width;
+      const startY = source.y + source.height / 2;
+      const endX = nextMatch.x;
+      const endY = nextMatch.y + (target.slot === 'team1' ? nextMatch.height / 4 : 3 * nextMatch.height / 4);
+      const midX = (startX + endX) / 2;
+
+      return [
+        <path
+          key={`connector-${source.id}-${nextMatch.id}`}
+          d={`M ${startX} ${startY} L ${midX} ${startY} L ${midX} ${endY} L ${endX} ${endY}`}
+          fill="none"
+          className="stroke-2 stroke-electric-300"
+        />
+      ];
+    });
+  };
+
+  const renderRoundLabels = (section: BracketSectionLayout) => {
+    const labelled = new Set<string>();
+    return section.matches.map(match => {
+      if (labelled.has(match.roundName)) return null;
+      labelled.add(match.roundName);
+
+      return (
+        <text
+          key={`round-${match.roundName}`}
+          x={match.x + match.width / 2}
+          y={20}
+          textAnchor="middle"
+          className="text-lg font-bold fill-electric-700"
+        >
+          {match.roundName}
+        </text>
+      );
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {sections.map(section => (
+        <div key={section.title}>
+          <h3 className="text-xl font-semibold mb-3">{section.title}</h3>
+          <div className="overflow-auto bg-gray-50 p-4 rounded-lg">
+            <svg width={section.width} height={section.height}>
+              {renderConnectors(section)}
+              {renderRoundLabels(section)}
+              {section.matches.map(match => (
+                <MatchBox key={match.id} match={match} onMatchClick={handleMatchClick} />
+              ))}
+            </svg>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
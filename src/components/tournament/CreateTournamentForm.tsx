@@ -19,16 +19,23 @@ export default function CreateTournamentForm() {
     pointsPerWin: 3,
     pointsPerDraw: 1,
     pointsPerLoss: 0,
+    grandFinalReset: true,
+    swissRounds: '',
     roundsPerMatch: 1,
     timePerRound: 30,
     categories: [] as string[]
   });
 
-  const formatOptions = [
+  const formatOptions: Array<{
+    value: Tournament['format'];
+    label: string;
+    description: string;
+    disabled?: boolean;
+  }> = [
     { value: 'single_elimination', label: 'Single Elimination', description: 'Win or go home' },
     { value: 'round_robin', label: 'Round Robin', description: 'Everyone plays everyone' },
-    { value: 'double_elimination', label: 'Double Elimination', description: 'Second chance bracket (Coming Soon)', disabled: true },
-    { value: 'swiss', label: 'Swiss System', description: 'Paired by performance (Coming Soon)', disabled: true }
+    { value: 'double_elimination', label: 'Double Elimination', description: 'Second chance bracket' },
+    { value: 'swiss', label: 'Swiss System', description: 'Paired by performance' }
   ];
 
   const categoryOptions = [
@@ -70,6 +77,20 @@ export default function CreateTournamentForm() {
         ];
       }
 
+      if (formData.format === 'double_elimination') {
+        settings.grand_final_reset = formData.grandFinalReset;
+      }
+
+      if (formData.format === 'swiss') {
+        settings.swiss_rounds = formData.swissRounds ? parseInt(formData.swissRounds) : undefined;
+        settings.tiebreaker_rules = [
+          'score',
+          'buchholz',
+          'sonneborn_berger',
+          'points_difference'
+        ];
+      }
+
       const startDateTime = formData.startDate && formData.startTime
         ? new Date(`${formData.startDate}T${formData.startTime}`).toISOString()
         : undefined;
@@ -301,6 +322,47 @@ export default function CreateTournamentForm() {
           </div>
         )}
 
+        {/* Double Elimination Specific Settings */}
+        {formData.format === 'double_elimination' && (
+          <div className="mt-6 space-y-4">
+            <h3 className="font-semibold">Grand Final</h3>
+            <label htmlFor="grandFinalReset" className="flex items-center gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                id="grandFinalReset"
+                checked={formData.grandFinalReset}
+                onChange={(e) => setFormData({ ...formData, grandFinalReset: e.target.checked })}
+                className="w-4 h-4"
+              />
+              <span className="text-sm">
+                Bracket reset: play a second final if the losers bracket champion wins the first
+              </span>
+            </label>
+          </div>
+        )}
+
+        {/* Swiss Specific Settings */}
+        {formData.format === 'swiss' && (
+          <div className="mt-6 space-y-4">
+            <h3 className="font-semibold">Swiss Rounds</h3>
+            <div>
+              <label htmlFor="swissRounds" className="block text-sm font-medium mb-1">
+                Number of Rounds
+              </label>
+              <input
+                type="number"
+                id="swissRounds"
+                min="1"
+                max="20"
+                value={formData.swissRounds}
+                onChange={(e) => setFormData({ ...formData, swissRounds: e.target.value })}
+                className="w-full px-4 py-2 border-2 border-electric-200 rounded-lg focus:border-electric-500 focus:outline-none transition-colors"
+                placeholder="Auto (enough rounds to find a single winner)"
+              />
+            </div>
+          </div>
+        )}
+
         {/* Match Settings */}
         <div className="mt-6 space-y-4">
           <h3 className="font-semibold">Match Settings</h3>
@@ -67,14 +67,27 @@ export default function TournamentManagement() {
       if (newStatus === 'in_progress') {
         if (tournament.format === 'single_elimination') {
           await TournamentService.generateSingleEliminationBracket(tournamentId);
+        } else if (tournament.format === 'double_elimination') {
+          await TournamentService.generateDoubleEliminationBracket(tournamentId);
         } else if (tournament.format === 'round_robin') {
           await TournamentService.generateRoundRobinSchedule(tournamentId);
+        } else if (tournament.format === 'swiss') {
+          await TournamentService.generateSwissRound(tournamentId);
         }
         loadTournamentData();
       }
     }
   };
 
+  const handlePairNextRound = async () => {
+    if (!tournamentId) return;
+
+    const success = await TournamentService.generateSwissRound(tournamentId);
+    if (success) {
+      loadTournamentData();
+    }
+  };
+
   const handleMatchUpdate = async (match: TournamentMatch) => {
     setSelectedMatch(match);
   };
@@ -112,6 +125,17 @@ export default function TournamentManagement() {
     );
   }
 
+  const isBracketFormat = tournament.format === 'single_elimination' ||
+    tournament.format === 'double_elimination';
+
+  const canPairNextRound = tournament.format === 'swiss' &&
+    tournament.status === 'in_progress' &&
+    tournament.current_round < (tournament.total_rounds || 0) &&
+    !matches.some(m =>
+      m.round === tournament.current_round &&
+      (m.status === 'scheduled' || m.status === 'in_progress')
+    );
+
   const statusBadgeClass = {
     draft: 'badge bg-gray-200 text-gray-800',
     registration_open: 'badge bg-energy-yellow text-electric-900',
@@ -195,6 +219,14 @@ export default function TournamentManagement() {
                 Start Tournament ({participants.length} teams)
               </button>
             )}
+            {canPairNextRound && (
+              <button
+                onClick={handlePairNextRound}
+                className="btn-game-primary"
+              >
+                Pair Round {tournament.current_round + 1}
+              </button>
+            )}
             {tournament.status === 'in_progress' && (
               <button
                 onClick={() => handleStatusChange('completed')}
@@ -228,15 +260,17 @@ export default function TournamentManagement() {
       <div className="card-game">
         {activeTab === 'overview' && (
           <div>
-            {tournament.format === 'single_elimination' && tournament.status === 'in_progress' && (
+            {isBracketFormat && tournament.status === 'in_progress' && (
               <BracketVisualization
                 matches={matches}
                 totalRounds={tournament.total_rounds || 0}
+                format={tournament.format}
                 onMatchClick={isHost ? handleMatchUpdate : undefined}
               />
             )}
-            {tournament.format === 'round_robin' && tournament.status === 'in_progress' && (
-              <TournamentStandings tournamentId={tournamentId!} />
+            {(tournament.format === 'round_robin' || tournament.format === 'swiss') &&
+              tournament.status === 'in_progress' && (
+              <TournamentStandings tournamentId={tournamentId!} format={tournament.format} />
             )}
             {tournament.status === 'draft' && (
               <div className="text-center py-12">
@@ -264,10 +298,11 @@ export default function TournamentManagement() {
           </div>
         )}
 
-        {activeTab === 'bracket' && tournament.format === 'single_elimination' && (
+        {activeTab === 'bracket' && isBracketFormat && (
           <BracketVisualization
             matches={matches}
             totalRounds={tournament.total_rounds || 0}
+            format={tournament.format}
             onMatchClick={isHost ? handleMatchUpdate : undefined}
           />
         )}
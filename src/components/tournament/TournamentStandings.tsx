@@ -1,15 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { TournamentService } from '../../services/tournamentService';
-import type { TournamentStanding } from '../../types/database';
+import type { Tournament, TournamentStanding } from '../../types/database';
 
 interface TournamentStandingsProps {
   tournamentId: string;
   compact?: boolean;
+  format?: Tournament['format'];
 }
 
 export default function TournamentStandings({ 
   tournamentId, 
-  compact = false 
+  compact = false,
+  format
 }: TournamentStandingsProps) {
   const [standings, setStandings] = useState<TournamentStanding[]>([]);
   const [loading, setLoading] = useState(true);
@@ -49,9 +51,17 @@ export default function TournamentStandings({
     );
   }
 
+  const isSwiss = format === 'swiss';
+
+  // Swiss ranks on match score (win = 1, draw = 0.5) rather than tournament points
+  const pointsFor = (standing: TournamentStanding) =>
+    isSwiss ? standing.matches_won + standing.matches_drawn * 0.5 : standing.tournament_points;
+
   const columns = compact 
     ? ['Pos', 'Team', 'Pts', 'W-L']
-    : ['Position', 'Team', 'Played', 'Won', 'Lost', 'Drawn', 'Points For', 'Points Against', '+/-', 'Points'];
+    : isSwiss
+      ? ['Position', 'Team', 'Played', 'Won', 'Lost', 'Drawn', 'Points For', 'Points Against', '+/-', 'Buchholz', 'SB', 'Score']
+      : ['Position', 'Team', 'Played', 'Won', 'Lost', 'Drawn', 'Points For', 'Points Against', '+/-', 'Points'];
 
   return (
     <div className={`${compact ? '' : 'overflow-x-auto'}`}>
@@ -95,7 +105,7 @@ export default function TournamentStandings({
                       {standing.participant?.team?.name || 'Unknown'}
                     </td>
                     <td className="py-3 px-2 font-bold text-electric-600">
-                      {standing.tournament_points}
+                      {pointsFor(standing)}
                     </td>
                     <td className="py-3 px-2 text-sm">
                       {standing.matches_won}-{standing.matches_lost}
@@ -138,9 +148,15 @@ export default function TournamentStandings({
                         {standing.points_difference > 0 ? '+' : ''}{standing.points_difference}
                       </span>
                     </td>
+                    {isSwiss && (
+                      <>
+                        <td className="py-3 px-2 text-center">{standing.buchholz_score ?? 0}</td>
+                        <td className="py-3 px-2 text-center">{standing.sonneborn_berger_score ?? 0}</td>
+                      </>
+                    )}
                     <td className="py-3 px-2 text-center">
                       <span className="font-bold text-electric-600 text-lg">
-                        {standing.tournament_points}
+                        {pointsFor(standing)}
                       </span>
                     </td>
                   </>
@@ -154,12 +170,21 @@ export default function TournamentStandings({
       {!compact && standings.length > 0 && (
         <div className="mt-4 text-sm text-gray-600">
           <p className="font-medium mb-2">Tiebreaker Rules:</p>
-          <ol className="list-decimal list-inside space-y-1">
-            <li>Total Points</li>
-            <li>Head-to-Head Record</li>
-            <li>Points Difference</li>
-            <li>Points Scored</li>
-          </ol>
+          {isSwiss ? (
+            <ol className="list-decimal list-inside space-y-1">
+              <li>Score</li>
+              <li>Buchholz (sum of opponents' scores)</li>
+              <li>Sonneborn-Berger (scores of opponents beaten, half for draws)</li>
+              <li>Points Difference</li>
+            </ol>
+          ) : (
+            <ol className="list-decimal list-inside space-y-1">
+              <li>Total Points</li>
+              <li>Head-to-Head Record</li>
+              <li>Points Difference</li>
+              <li>Points Scored</li>
+            </ol>
+          )}
         </div>
       )}
     </div>
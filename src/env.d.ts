@@ -14,6 +14,9 @@ interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string;
   readonly VITE_SUPABASE_ANON_KEY: string;
 
+  // Web Push
+  readonly VITE_VAPID_PUBLIC_KEY?: string;
+
   // Game Configuration
   readonly VITE_MAX_PLAYERS_PER_GAME: string;
   readonly VITE_DEFAULT_QUESTION_TIME: string;
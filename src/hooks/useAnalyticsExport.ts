@@ -0,0 +1,53 @@
+import { useState, useCallback } from 'react';
+import type { AnalyticsFilters, ExportOptions } from '../types/analytics';
+import { fetchAnalyticsDashboard } from './useAnalytics';
+import { serializeAnalyticsReport } from '../utils/analyticsReport';
+import { captureReportCharts } from '../components/analytics/ReportCharts';
+
+/**
+ * Builds analytics reports in the browser and downloads them. Reports
+ * cover the dates chosen for the export, with the dashboard's other
+ * filters still applied.
+ */
+export function useAnalyticsExport(filters: AnalyticsFilters) {
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const exportReport = useCallback(async (options: ExportOptions) => {
+    try {
+      setIsExporting(true);
+      setError(null);
+
+      const data = await fetchAnalyticsDashboard({
+        ...filters,
+        timeRange: 'custom',
+        customDateRange: options.dateRange
+      });
+      const charts = options.format === 'pdf' && options.includeCharts
+        ? await captureReportCharts(data, options.includedMetrics)
+        : [];
+      const exportFile = serializeAnalyticsReport(data, options, charts);
+
+      // Create and download file
+      const blob = new Blob([exportFile.content], {
+        type: exportFile.mimeType
+      });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = exportFile.fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to export report';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsExporting(false);
+    }
+  }, [filters]);
+
+  return { exportReport, isExporting, error };
+}
@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback } from 'react';
+import { answerOutbox } from '../services/answerOutbox';
+import type { OutboxEntry } from '../services/answerOutbox';
+import { useNetworkStatus } from './useNetworkStatus';
+
+export interface UseAnswerOutboxReturn {
+  entries: OutboxEntry[];
+  pendingCount: number;
+  isOnline: boolean;
+  getEntry: (teamId: string, questionId: string) => OutboxEntry | undefined;
+  flush: () => Promise<void>;
+}
+
+// A game's answers in the outbox. Replays queued answers when the page
+// loads and whenever the connection comes back.
+export function useAnswerOutbox(gameId: string): UseAnswerOutboxReturn {
+  const [entries, setEntries] = useState<OutboxEntry[]>(() => answerOutbox.getEntries(gameId));
+
+  const flush = useCallback(() => answerOutbox.flush(), []);
+  const { isOnline } = useNetworkStatus({ onOnline: () => void flush() });
+
+  useEffect(() => {
+    const unsubscribe = answerOutbox.subscribe(all => {
+      setEntries(all.filter(entry => entry.gameId === gameId));
+    });
+    void flush();
+    return unsubscribe;
+  }, [gameId, flush]);
+
+  const getEntry = useCallback((teamId: string, questionId: string) => {
+    return entries.filter(entry => entry.teamId === teamId && entry.questionId === questionId).pop();
+  }, [entries]);
+
+  return {
+    entries,
+    pendingCount: entries.filter(entry => entry.status === 'queued' || entry.status === 'sent').length,
+    isOnline,
+    getEntry,
+    flush,
+  };
+}
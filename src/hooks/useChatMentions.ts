@@ -0,0 +1,48 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { ChatMention } from '../types/database';
+import { ChatService } from '../services/chatService';
+import { errorMessageService } from '../services/errorMessageService';
+
+/**
+ * Unread @mentions of the signed-in player in a room. A new mention raises
+ * a notification; opening the chat marks them read.
+ */
+export function useChatMentions(gameRoomId: string, userId?: string) {
+  const [mentions, setMentions] = useState<ChatMention[]>([]);
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+
+    ChatService.getUnreadMentions(userId, gameRoomId).then(unread => {
+      if (!cancelled) setMentions(unread);
+    });
+
+    const unsubscribe = ChatService.subscribeToMentions(userId, mention => {
+      if (mention.game_room_id !== gameRoomId) return;
+      setMentions(prev => (prev.some(m => m.id === mention.id) ? prev : [mention, ...prev]));
+      ChatService.fetchMessage(mention.message_id).then(message => {
+        const author = message?.user?.display_name ?? 'A teammate';
+        errorMessageService.showInfo(`${author} mentioned you: "${message?.message ?? ''}"`);
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [gameRoomId, userId]);
+
+  const markAllRead = useCallback(async () => {
+    const ids = mentions.map(mention => mention.id);
+    setMentions([]);
+    await ChatService.markMentionsRead(ids);
+  }, [mentions]);
+
+  return {
+    mentions,
+    unreadCount: mentions.length,
+    mentionedMessageIds: new Set(mentions.map(mention => mention.message_id)),
+    markAllRead,
+  };
+}
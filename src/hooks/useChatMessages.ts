@@ -1,12 +1,28 @@
 import { useState, useEffect, useCallback } from 'react';
-import { ChatMessage } from '../types/database';
-import { supabase } from '../services/supabase';
+import type { ChatCursor, ChatMessage } from '../types/database';
+import { ChatService, mergeMessages, type NewChatMessage } from '../services/chatService';
 import { useRealtimeSubscription } from './useRealtimeSubscription';
 import { useProfanityFilter } from './useProfanityFilter';
+import { errorMessageService } from '../services/errorMessageService';
+
+export interface ChatThread {
+  messages: ChatMessage[];
+  nextCursor: ChatCursor | null;
+  isLoading: boolean;
+}
 
 interface UseChatMessagesReturn {
   messages: ChatMessage[];
   sendMessage: (message: Partial<ChatMessage>) => Promise<void>;
+  editMessage: (messageId: string, message: string, mentionedUserIds?: string[]) => Promise<void>;
+  deleteMessage: (messageId: string) => Promise<void>;
+  flagMessage: (messageId: string, reason?: string) => Promise<void>;
+  loadOlder: () => Promise<void>;
+  hasMore: boolean;
+  isLoadingOlder: boolean;
+  threads: Record<string, ChatThread>;
+  loadThread: (threadId: string) => Promise<void>;
+  mutedUntil: string | null;
   isLoading: boolean;
   error: Error | null;
   connectionState: {
@@ -15,59 +31,41 @@ interface UseChatMessagesReturn {
   };
 }
 
+// Applies a realtime update to a message that is already loaded
+function applyUpdate(messages: ChatMessage[], updated: ChatMessage): ChatMessage[] {
+  if (!messages.some(msg => msg.id === updated.id)) return messages;
+  return updated.is_deleted
+    ? messages.filter(msg => msg.id !== updated.id)
+    : messages.map(msg => (msg.id === updated.id ? { ...msg, ...updated } : msg));
+}
+
+// The database turns muted players away with "You are muted in this chat..."
+const isMuteError = (err: unknown) => /muted/i.test((err as { message?: string } | null)?.message ?? '');
+
 export function useChatMessages(
   gameRoomId: string,
-  teamId?: string
+  teamId?: string,
+  userId?: string
 ): UseChatMessagesReturn {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [cursor, setCursor] = useState<ChatCursor | null>(null);
+  const [threads, setThreads] = useState<Record<string, ChatThread>>({});
+  const [mutedUntil, setMutedUntil] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
   const [error, setError] = useState<Error | null>(null);
   const { filterText } = useProfanityFilter();
 
-  // Load initial messages
+  // Load the latest page
   const loadMessages = useCallback(async () => {
     try {
       setIsLoading(true);
       setError(null);
 
-      const query = supabase
-        .from('chat_messages')
-        .select(`
-          *,
-          profiles:user_id (
-            id,
-            display_name,
-            avatar_url
-          ),
-          teams:team_id (
-            id,
-            name
-          )
-        `)
-        .eq('game_room_id', gameRoomId)
-        .eq('is_deleted', false)
-        .order('created_at', { ascending: true })
-        .limit(100);
-
-      const { data, error: fetchError } = await query;
-
-      if (fetchError) {
-        throw fetchError;
-      }
-
-      // Transform the data to match our ChatMessage interface
-      const transformedMessages: ChatMessage[] = (data || []).map(msg => ({
-        ...msg,
-        user: msg.profiles ? {
-          display_name: msg.profiles.display_name,
-          avatar_url: msg.profiles.avatar_url
-        } : undefined,
-        team: msg.teams ? {
-          name: msg.teams.name
-        } : undefined
-      }));
-
-      setMessages(transformedMessages);
+      const page = await ChatService.fetchMessages({ gameRoomId });
+      setMessages(page.messages);
+      setCursor(page.nextCursor);
+      setThreads({});
     } catch (err) {
       console.error('Error loading messages:', err);
       setError(err as Error);
@@ -76,58 +74,80 @@ export function useChatMessages(
     }
   }, [gameRoomId]);
 
+  // Page further back through the room's history
+  const loadOlder = useCallback(async () => {
+    if (!cursor || isLoadingOlder) return;
+    try {
+      setIsLoadingOlder(true);
+      const page = await ChatService.fetchMessages({ gameRoomId, before: cursor });
+      setMessages(prev => mergeMessages(prev, page.messages));
+      setCursor(page.nextCursor);
+    } catch (err) {
+      console.error('Error loading older messages:', err);
+      setError(err as Error);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  }, [gameRoomId, cursor, isLoadingOlder]);
+
+  // Load a thread's replies, or its next older page once it's open
+  const loadThread = useCallback(async (threadId: string) => {
+    const thread = threads[threadId];
+    if (thread?.isLoading || (thread && !thread.nextCursor)) return;
+
+    setThreads(prev => ({
+      ...prev,
+      [threadId]: { messages: prev[threadId]?.messages ?? [], nextCursor: prev[threadId]?.nextCursor ?? null, isLoading: true },
+    }));
+    try {
+      const page = await ChatService.fetchMessages({ gameRoomId, threadId, before: thread?.nextCursor });
+      setThreads(prev => ({
+        ...prev,
+        [threadId]: {
+          messages: mergeMessages(prev[threadId]?.messages ?? [], page.messages),
+          nextCursor: page.nextCursor,
+          isLoading: false,
+        },
+      }));
+    } catch (err) {
+      console.error('Error loading thread:', err);
+      setThreads(prev => ({ ...prev, [threadId]: { ...prev[threadId], isLoading: false } }));
+      setError(err as Error);
+    }
+  }, [gameRoomId, threads]);
+
   // Handle real-time updates
   const handleRealtimeUpdate = useCallback((payload: any) => {
     if (payload.eventType === 'INSERT') {
       const newMessage = payload.new as ChatMessage;
-      
+
       // Fetch user and team data for the new message
-      const fetchMessageDetails = async () => {
-        const { data } = await supabase
-          .from('chat_messages')
-          .select(`
-            *,
-            profiles:user_id (
-              id,
-              display_name,
-              avatar_url
-            ),
-            teams:team_id (
-              id,
-              name
-            )
-          `)
-          .eq('id', newMessage.id)
-          .single();
-
-        if (data) {
-          const transformedMessage: ChatMessage = {
-            ...data,
-            user: data.profiles ? {
-              display_name: data.profiles.display_name,
-              avatar_url: data.profiles.avatar_url
-            } : undefined,
-            team: data.teams ? {
-              name: data.teams.name
-            } : undefined
-          };
-
-          setMessages(prev => [...prev, transformedMessage]);
+      ChatService.fetchMessage(newMessage.id).then(message => {
+        if (!message) return;
+        if (message.thread_id) {
+          const threadId = message.thread_id;
+          // Replies only matter to threads that are open
+          setThreads(prev =>
+            prev[threadId]
+              ? { ...prev, [threadId]: { ...prev[threadId], messages: mergeMessages(prev[threadId].messages, [message]) } }
+              : prev
+          );
+        } else {
+          setMessages(prev => mergeMessages(prev, [message]));
         }
-      };
-
-      fetchMessageDetails();
+      });
     } else if (payload.eventType === 'UPDATE') {
+      // Edits, deletions and reply counts
       const updatedMessage = payload.new as ChatMessage;
-      setMessages(prev => 
-        prev.map(msg => 
-          msg.id === updatedMessage.id 
-            ? { ...msg, ...updatedMessage } 
-            : msg
-        )
-      );
+      setMessages(prev => applyUpdate(prev, updatedMessage));
+      if (updatedMessage.thread_id) {
+        const threadId = updatedMessage.thread_id;
+        setThreads(prev =>
+          prev[threadId] ? { ...prev, [threadId]: { ...prev[threadId], messages: applyUpdate(prev[threadId].messages, updatedMessage) } } : prev
+        );
+      }
     } else if (payload.eventType === 'DELETE') {
-      setMessages(prev => 
+      setMessages(prev =>
         prev.filter(msg => msg.id !== payload.old.id)
       );
     }
@@ -144,30 +164,59 @@ export function useChatMessages(
     [gameRoomId]
   );
 
-  // Send a new message
+  const refreshMute = useCallback(async () => {
+    setMutedUntil(userId ? await ChatService.getMutedUntil(gameRoomId, userId) : null);
+  }, [gameRoomId, userId]);
+
+  useEffect(() => {
+    refreshMute();
+  }, [refreshMute]);
+
+  // Lift the mute when it runs out
+  useEffect(() => {
+    if (!mutedUntil) return;
+    const timeout = setTimeout(() => setMutedUntil(null), Math.max(new Date(mutedUntil).getTime() - Date.now(), 0));
+    return () => clearTimeout(timeout);
+  }, [mutedUntil]);
+
+  // Send a new message or reply
   const sendMessage = useCallback(async (messageData: Partial<ChatMessage>) => {
     try {
       // Filter message for profanity
       const filteredMessage = filterText(messageData.message || '');
-      
-      const { error: insertError } = await supabase
-        .from('chat_messages')
-        .insert([{
-          ...messageData,
-          message: filteredMessage,
-          is_deleted: false,
-        }]);
-
-      if (insertError) {
-        throw insertError;
-      }
+
+      await ChatService.sendMessage({
+        ...messageData,
+        team_id: messageData.team_id ?? teamId,
+        message: filteredMessage,
+      } as NewChatMessage);
     } catch (err) {
       console.error('Error sending message:', err);
-      setError(err as Error);
+      if (isMuteError(err)) {
+        await refreshMute();
+      } else if (!errorMessageService.showRateLimitError(err, gameRoomId)) {
+        // Being rate limited doesn't break the chat, so it isn't kept as the error
+        setError(err as Error);
+      }
       throw err;
     }
+  }, [filterText, gameRoomId, teamId, refreshMute]);
+
+  const editMessage = useCallback(async (messageId: string, message: string, mentionedUserIds: string[] = []) => {
+    const updated = await ChatService.editMessage(messageId, filterText(message), mentionedUserIds);
+    setMessages(prev => applyUpdate(prev, updated));
   }, [filterText]);
 
+  const deleteMessage = useCallback(async (messageId: string) => {
+    await ChatService.deleteMessage(messageId);
+    setMessages(prev => prev.filter(msg => msg.id !== messageId));
+  }, []);
+
+  const flagMessage = useCallback(async (messageId: string, reason?: string) => {
+    await ChatService.flagMessage(messageId, reason);
+    errorMessageService.showSuccess('Thanks, the message was sent to the moderators');
+  }, []);
+
   // Load messages on mount
   useEffect(() => {
     loadMessages();
@@ -176,8 +225,17 @@ export function useChatMessages(
   return {
     messages,
     sendMessage,
+    editMessage,
+    deleteMessage,
+    flagMessage,
+    loadOlder,
+    hasMore: cursor !== null,
+    isLoadingOlder,
+    threads,
+    loadThread,
+    mutedUntil,
     isLoading,
     error,
     connectionState,
   };
-}
\ No newline at end of file
+}
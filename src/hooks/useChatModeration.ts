@@ -0,0 +1,89 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { ChatMessageFlag } from '../types/database';
+import { ChatService } from '../services/chatService';
+import { errorMessageService } from '../services/errorMessageService';
+
+export const MUTE_DURATIONS = [5, 15, 60] as const; // minutes
+
+/**
+ * The flagged-message queue and moderation actions for a room's host or a
+ * team captain. The database decides what each of them may act on; the
+ * queue only lists flags the caller can review.
+ */
+export function useChatModeration(gameRoomId: string, enabled: boolean) {
+  const [flags, setFlags] = useState<ChatMessageFlag[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadFlags = useCallback(async () => {
+    if (!enabled) return;
+    try {
+      setIsLoading(true);
+      setFlags(await ChatService.getFlagQueue(gameRoomId));
+    } catch (err) {
+      console.error('Error loading flagged messages:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [gameRoomId, enabled]);
+
+  useEffect(() => {
+    loadFlags();
+  }, [loadFlags]);
+
+  // New flags arrive without the message, so reload the queue
+  useEffect(() => {
+    if (!enabled) return;
+    return ChatService.subscribeToFlags(gameRoomId, () => {
+      loadFlags();
+    });
+  }, [gameRoomId, enabled, loadFlags]);
+
+  // Runs a moderation action, reporting failures in the error display
+  const moderate = useCallback(async (action: () => Promise<void>, success: string) => {
+    try {
+      await action();
+      errorMessageService.showSuccess(success);
+      return true;
+    } catch (err) {
+      errorMessageService.showGameError(err as Error, gameRoomId, 'chat-moderation');
+      return false;
+    }
+  }, [gameRoomId]);
+
+  const reviewFlag = useCallback(async (flag: ChatMessageFlag, remove: boolean) => {
+    const done = await moderate(
+      () => ChatService.reviewFlag(flag.id, remove),
+      remove ? 'Message removed' : 'Flag dismissed'
+    );
+    // Reviewing one flag closes every flag on that message
+    if (done) setFlags(prev => prev.filter(f => f.message_id !== flag.message_id));
+  }, [moderate]);
+
+  const deleteMessage = useCallback(async (messageId: string) => {
+    const done = await moderate(() => ChatService.deleteMessage(messageId), 'Message removed');
+    if (done) setFlags(prev => prev.filter(f => f.message_id !== messageId));
+  }, [moderate]);
+
+  const muteUser = useCallback(
+    (userId: string, minutes: number, reason?: string) =>
+      moderate(async () => {
+        await ChatService.muteUser(gameRoomId, userId, minutes, reason);
+      }, `Muted for ${minutes} minutes`),
+    [gameRoomId, moderate]
+  );
+
+  const unmuteUser = useCallback(
+    (userId: string) => moderate(() => ChatService.unmuteUser(gameRoomId, userId), 'Mute lifted'),
+    [gameRoomId, moderate]
+  );
+
+  return {
+    flags,
+    isLoading,
+    reviewFlag,
+    deleteMessage,
+    muteUser,
+    unmuteUser,
+    refresh: loadFlags,
+  };
+}
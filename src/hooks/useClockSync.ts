@@ -0,0 +1,47 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { edgeFunctionService } from '../services/edgeFunctions';
+import { ClockSync, createServerClockTransport } from '../services/clockSync';
+
+export interface ClockSyncStatus {
+  offset: number; // ms added to the local clock
+  roundTrip: number | null; // ms, best sample so far
+  isSynced: boolean;
+}
+
+/**
+ * Keeps this device's clock in step with the server's while in a game. The
+ * server sets question deadlines and judges answers, so hosts and players
+ * all count down on its clock. `now` returns server time in ms and is
+ * stable, so it can be handed to timers.
+ */
+export function useClockSync(gameId: string | undefined) {
+  const syncRef = useRef<ClockSync | null>(null);
+  const [status, setStatus] = useState<ClockSyncStatus>({
+    offset: 0,
+    roundTrip: null,
+    isSynced: false,
+  });
+
+  useEffect(() => {
+    if (!gameId) return;
+
+    const sync = new ClockSync(
+      createServerClockTransport(ping => edgeFunctionService.pingClock(ping))
+    );
+    syncRef.current = sync;
+    const unsubscribe = sync.subscribe(offset => {
+      setStatus({ offset, roundTrip: sync.getRoundTrip(), isSynced: true });
+    });
+    sync.start();
+
+    return () => {
+      unsubscribe();
+      sync.stop();
+      syncRef.current = null;
+    };
+  }, [gameId]);
+
+  const now = useCallback(() => (syncRef.current ? syncRef.current.now() : Date.now()), []);
+
+  return { now, ...status };
+}
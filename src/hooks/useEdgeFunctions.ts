@@ -7,6 +7,8 @@ import {
   PointUsageRequest,
   StartRoundRequest
 } from '../services/edgeFunctions';
+import { errorMessageService } from '../services/errorMessageService';
+import { answerOutbox } from '../services/answerOutbox';
 
 // Query keys for React Query caching
 export const edgeFunctionKeys = {
@@ -90,6 +92,9 @@ export function useValidateAnswer() {
         queryKey: edgeFunctionKeys.pointBalance(variables.teamId) 
       });
     },
+    onError: (error, variables) => {
+      errorMessageService.showRateLimitError(error, variables.gameId);
+    },
   });
 }
 
@@ -109,7 +114,12 @@ export function useSubmitTeamAnswer() {
       answer: string;
       pointsWagered: number;
       gameId: string;
-    }) => edgeFunctionService.submitTeamAnswer(teamId, questionId, answer, pointsWagered, gameId),
+    }) => answerOutbox.submit({ teamId, gameId, questionId, answer, pointsWagered }).then(entry => {
+      if (entry.status === 'rejected') {
+        throw new Error(entry.error);
+      }
+      return entry;
+    }),
     onSuccess: (data, variables) => {
       // Invalidate related queries
       queryClient.invalidateQueries({ 
@@ -119,6 +129,9 @@ export function useSubmitTeamAnswer() {
         queryKey: edgeFunctionKeys.pointBalance(variables.teamId) 
       });
     },
+    onError: (error, variables) => {
+      errorMessageService.showRateLimitError(error, variables.gameId);
+    },
   });
 }
 
@@ -13,6 +13,7 @@ import type {
   PerformanceAlert, 
   HostAlertConfig 
 } from '../services/hostNotificationService';
+import type { AnswerMatchOptions } from '../services/answerMatcher';
 
 /**
  * Enhanced Host Notifications State
@@ -74,7 +75,8 @@ export interface EnhancedHostNotificationsActions {
     submittedAnswer: string,
     expectedAnswer: string,
     pointValue: number,
-    confidence: 'low' | 'medium' | 'high'
+    confidence: 'low' | 'medium' | 'high',
+    matchOptions?: AnswerMatchOptions
   ) => Promise<ReviewRequest>;
   
   reviewAnswer: (
@@ -348,7 +350,8 @@ export function useEnhancedHostNotifications(
     submittedAnswer: string,
     expectedAnswer: string,
     pointValue: number,
-    confidence: 'low' | 'medium' | 'high'
+    confidence: 'low' | 'medium' | 'high',
+    matchOptions?: AnswerMatchOptions
   ): Promise<ReviewRequest> => {
     if (!serviceRef.current) {
       throw new Error('Service not initialized');
@@ -362,7 +365,8 @@ export function useEnhancedHostNotifications(
       submittedAnswer,
       expectedAnswer,
       pointValue,
-      confidence
+      confidence,
+      matchOptions
     );
 
     refreshState();
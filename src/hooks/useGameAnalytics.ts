@@ -0,0 +1,49 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AnalyticsService } from '../services/analyticsService';
+import { useRealtimeSubscription } from './useRealtimeSubscription';
+import type { GameSessionAnalytics } from '../types/analytics';
+
+/**
+ * Stats for one game, reloaded whenever a team's score changes.
+ */
+export function useGameAnalytics(gameId: string) {
+  const [analytics, setAnalytics] = useState<GameSessionAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAnalytics = useCallback(async () => {
+    try {
+      setError(null);
+      setAnalytics(await AnalyticsService.getGameAnalytics(gameId));
+    } catch (err) {
+      console.error('Failed to load game stats:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load game stats');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [gameId]);
+
+  useEffect(() => {
+    if (gameId) {
+      setIsLoading(true);
+      loadAnalytics();
+    }
+  }, [gameId, loadAnalytics]);
+
+  useRealtimeSubscription(
+    {
+      table: 'team_scores',
+      event: '*',
+      filter: `game_room_id=eq.${gameId}`,
+    },
+    loadAnalytics,
+    [gameId]
+  );
+
+  return {
+    analytics,
+    isLoading,
+    error,
+    refresh: loadAnalytics,
+  };
+}
@@ -6,15 +6,22 @@ import { ScoreManager } from '../services/scoreManager';
 import { SpecialRoundManager } from '../services/specialRoundManager';
 import { AnswerSubmissionManager } from '../services/answerSubmissionManager';
 import { GameTimer } from '../services/gameTimer';
+import { supabaseGameLogStore } from '../services/gameLogService';
+import { GameCheckpointer, HostRecoveryService } from '../services/hostRecoveryService';
+import type { ResumedGame } from '../services/hostRecoveryService';
+import { CoHostService } from '../services/coHostService';
+import type { QuestionSetConversionResult } from '../services/questionSetGameAdapter';
 import {
   type GameControllerState,
   type GameControllerOptions,
   type GameControllerEvent,
   GameControllerEventType,
   GameProgressionPhase,
-  type AdvanceOptions
+  type AdvanceOptions,
+  type GameFlowSnapshot
 } from '../types/gameController';
-import type { GameState, Round } from '../types/game';
+import type { GameCheckpoint, GameState, Round } from '../types/game';
+import { PRIMARY_HOST_ROLE, type HostTransfer } from '../types/hostControls';
 
 // Create a default initial game state
 const createInitialGameState = (gameId: string): GameState => ({
@@ -76,15 +83,23 @@ const createDefaultRounds = (): Round[] => {
   );
 };
 
+// Rounds and settings built from question sets by QuestionSetGameAdapter
+export type GameSetup = Pick<
+  QuestionSetConversionResult,
+  'configuration' | 'rounds' | 'flowConfiguration'
+>;
+
 // Main hook for game controller management
 export function useGameController(
   gameId: string,
-  options: Partial<GameControllerOptions> = {}
+  options: Partial<GameControllerOptions> = {},
+  gameSetup?: GameSetup
 ) {
   const [controllerState, setControllerState] = useState<GameControllerState | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [events, setEvents] = useState<GameControllerEvent[]>([]);
+  const [resumedFrom, setResumedFrom] = useState<GameCheckpoint | null>(null);
   
   const controllerRef = useRef<GameController | null>(null);
   const gameStateManagerRef = useRef<GameStateManager | null>(null);
@@ -93,6 +108,7 @@ export function useGameController(
   const specialRoundManagerRef = useRef<SpecialRoundManager | null>(null);
   const answerSubmissionManagerRef = useRef<AnswerSubmissionManager | null>(null);
   const gameTimerRef = useRef<GameTimer | null>(null);
+  const checkpointerRef = useRef<GameCheckpointer | null>(null);
 
   // Initialize game controller and dependencies
   const initializeController = useCallback(async () => {
@@ -102,12 +118,47 @@ export function useGameController(
 
       // Create initial game state
       const initialState = createInitialGameState(gameId);
-
-      // Create default rounds
-      const defaultRounds = createDefaultRounds();
+      if (gameSetup) {
+        initialState.configuration = gameSetup.configuration;
+        initialState.rounds = gameSetup.rounds;
+        initialState.totalQuestions = gameSetup.rounds.reduce(
+          (total, round) => total + round.questions.length,
+          0
+        );
+      }
+
+      // Use the question set rounds when provided, default rounds otherwise
+      const defaultRounds = gameSetup?.rounds || createDefaultRounds();
+
+      // Signed-in hosts get a persisted game they can pick up again after a
+      // crash; co-hosts join the game the host is running
+      const hostId = await HostRecoveryService.getSignedInHostId().catch(() => null);
+      let resumed: ResumedGame | null = null;
+      let isCoHost = false;
+      if (hostId) {
+        initialState.hostId = hostId;
+        initialState.configuration.createdBy = hostId;
+        try {
+          let checkpoint = await HostRecoveryService.loadResumableCheckpoint(gameId);
+          if (!checkpoint) {
+            const role = await CoHostService.getMyRole(gameId);
+            isCoHost = Boolean(role) && role?.id !== PRIMARY_HOST_ROLE.id;
+            checkpoint = isCoHost ? await HostRecoveryService.loadCheckpoint(gameId) : null;
+          }
+          if (checkpoint) {
+            resumed = await HostRecoveryService.resumeGame(gameId, { checkpoint, actorId: hostId });
+          }
+        } catch (err) {
+          console.error('Failed to resume game, starting a new one:', err);
+        }
+      }
+      setResumedFrom(resumed?.checkpoint ?? null);
 
       // Initialize all required services
-      gameStateManagerRef.current = new GameStateManager(initialState);
+      gameStateManagerRef.current = resumed?.manager ?? new GameStateManager(
+        initialState,
+        hostId ? { logStore: supabaseGameLogStore, actorId: hostId } : {}
+      );
       roundManagerRef.current = new RoundManager(defaultRounds);
       answerSubmissionManagerRef.current = new AnswerSubmissionManager(
         roundManagerRef.current
@@ -121,7 +172,7 @@ export function useGameController(
         scoreManagerRef.current
       );
       gameTimerRef.current = new GameTimer({
-        duration: 60,
+        duration: gameSetup?.flowConfiguration.questionTimeLimit || 60,
         warningThreshold: 10,
         criticalThreshold: 5
       });
@@ -146,7 +197,8 @@ export function useGameController(
           maxGameDuration: 120,
           maxRetries: 3,
           errorRecoveryMode: 'auto',
-          fallbackToManualControl: true
+          fallbackToManualControl: true,
+          ...gameSetup?.flowConfiguration
         },
         enableEventLogging: true,
         enableMetrics: true,
@@ -191,8 +243,27 @@ export function useGameController(
         });
       });
 
-      // Initialize the controller
-      await controllerRef.current.initialize();
+      // Pick up where the host left off (rounds, standings and the question
+      // timer come from the checkpoint), or start fresh
+      if (resumed) {
+        controllerRef.current.restoreFromCheckpoint(resumed.checkpoint);
+      } else {
+        await controllerRef.current.initialize();
+      }
+
+      // Only the host checkpoints the game
+      if (hostId && !isCoHost) {
+        const controller = controllerRef.current;
+        const checkpointer = new GameCheckpointer(gameStateManagerRef.current, {
+          getControllerPhase: () => controller.getCurrentPhase()
+        });
+        controller.addEventListener(
+          GameControllerEventType.PHASE_TRANSITION_COMPLETED,
+          () => checkpointer.checkpoint()
+        );
+        checkpointer.start();
+        checkpointerRef.current = checkpointer;
+      }
       
       // Update state
       setControllerState(controllerRef.current.getState());
@@ -203,13 +274,15 @@ export function useGameController(
       setError(err instanceof Error ? err.message : 'Failed to initialize game controller');
       setIsLoading(false);
     }
-  }, [gameId, options]);
+  }, [gameId, options, gameSetup]);
 
   // Initialize on mount
   useEffect(() => {
     initializeController();
 
     return () => {
+      checkpointerRef.current?.stop();
+      checkpointerRef.current = null;
       controllerRef.current?.destroy();
     };
   }, [initializeController]);
@@ -263,6 +336,27 @@ export function useGameController(
     await controllerRef.current.skipQuestion();
   }, []);
 
+  // Capture and put back the game flow, for undoing host actions
+  const getFlowSnapshot = useCallback((): GameFlowSnapshot => {
+    if (!controllerRef.current) throw new Error('Controller not initialized');
+    return controllerRef.current.getFlowSnapshot();
+  }, []);
+
+  const restoreFlow = useCallback(async (snapshot: GameFlowSnapshot) => {
+    if (!controllerRef.current) throw new Error('Controller not initialized');
+    await controllerRef.current.restoreFlow(snapshot);
+  }, []);
+
+  const getNextPhase = useCallback((): GameProgressionPhase | null => {
+    return controllerRef.current?.getNextPhase() ?? null;
+  }, []);
+
+  // Hand the game to a co-host who can run the game flow
+  const transferHost = useCallback(async (toUserId: string, reason?: string): Promise<HostTransfer> => {
+    if (!gameStateManagerRef.current) throw new Error('Controller not initialized');
+    return HostRecoveryService.transferHost(gameStateManagerRef.current, toUserId, reason);
+  }, []);
+
   const clearError = useCallback(() => {
     setError(null);
   }, []);
@@ -287,6 +381,7 @@ export function useGameController(
     isLoading,
     error,
     events,
+    resumedFrom,
     
     // Status checks
     isInitialized: controllerState?.isInitialized ?? false,
@@ -308,6 +403,10 @@ export function useGameController(
     endGame,
     advancePhase,
     skipQuestion,
+    transferHost,
+    getFlowSnapshot,
+    restoreFlow,
+    getNextPhase,
     
     // Utility functions
     clearError,
@@ -1,6 +1,11 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from './useAuth';
+import { useClockSync } from './useClockSync';
+import { useQuestionTimer } from './useTimer';
+import { GameTimer } from '../services/gameTimer';
+import { QUESTION_TIMER_ID } from '../services/gameReducer';
 import { GameStateManager } from '../services/gameStateManager';
+import type { GameLogStore } from '../services/gameLogService';
 
 interface GameRoom {
   id: string;
@@ -142,6 +147,7 @@ export interface UseGameStateOptions {
   teamId?: string;
   autoRefresh?: boolean;
   refreshInterval?: number;
+  logStore?: GameLogStore;
 }
 
 export function useGameState(
@@ -153,7 +159,8 @@ export function useGameState(
     playerId,
     teamId,
     autoRefresh = true,
-    refreshInterval = 1000
+    refreshInterval = 1000,
+    logStore
   } = options;
 
   const { /* user */ } = useAuth();
@@ -168,13 +175,14 @@ export function useGameState(
   const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [timeRemaining, setTimeRemaining] = useState(0);
+  const { now: serverNow } = useClockSync(gameId ?? initialState?.id);
 
   // Refs
   const gameManagerRef = useRef<GameStateManager | null>(null);
   const refreshIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const stateListenerRef = useRef<(() => void) | null>(null);
   const eventListenerRef = useRef<(() => void) | null>(null);
+  const logErrorListenerRef = useRef<(() => void) | null>(null);
 
   // Real-time subscription callbacks
   const handleGameRoomUpdate = useCallback((payload: any) => {
@@ -229,7 +237,7 @@ export function useGameState(
   useEffect(() => {
     if (initialState && !gameManagerRef.current) {
       try {
-        gameManagerRef.current = new GameStateManager(initialState);
+        gameManagerRef.current = new GameStateManager(initialState, { logStore });
         setGameState(initialState);
         
         // Set up state listener
@@ -250,7 +258,7 @@ export function useGameState(
                 // Could trigger UI notifications
                 break;
               case 'timer-expired':
-                setTimeRemaining(0);
+                // The question timer reaches zero on its own
                 break;
               case 'game-ended':
                 if (event.data?.error) {
@@ -260,32 +268,32 @@ export function useGameState(
             }
           }
         );
+
+        // Actions still apply when saving fails; the host should know the
+        // game can't be recovered from the log until it catches up
+        logErrorListenerRef.current = gameManagerRef.current.addLogErrorListener(() => {
+          setError('Recent game actions have not been saved yet. They will be retried with the next action.');
+        });
         
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to initialize game');
       }
     }
-  }, [initialState]);
-
-  // Timer updates
-  useEffect(() => {
-    if (gameState?.currentQuestion && autoRefresh) {
-      const updateTimer = () => {
-        const questionTimer = Object.values(gameState.timers).find(
-          timer => timer.type === 'question' && timer.isActive
-        );
-        
-        if (questionTimer) {
-          setTimeRemaining(questionTimer.remaining);
-        }
-      };
-
-      updateTimer();
-      const interval = setInterval(updateTimer, 1000);
-      
-      return () => clearInterval(interval);
-    }
-  }, [gameState?.currentQuestion, gameState?.timers, autoRefresh]);
+  }, [initialState, logStore]);
+
+  // Question timer, counting down on the server's clock from the schedule
+  // recorded in the game state
+  const questionTimerState = gameState?.timers[QUESTION_TIMER_ID];
+  const questionTimer = useQuestionTimer(questionTimerState?.duration ?? 60, {
+    clock: serverNow,
+    schedule: questionTimerState ? GameTimer.scheduleFromState(questionTimerState) : null,
+    enableSoundEffects: false,
+  });
+  const timeRemaining = !gameState?.currentQuestion || !questionTimerState
+    ? 0
+    : questionTimerState.isActive
+      ? questionTimer.timeRemaining
+      : questionTimerState.remaining;
 
   // Auto-refresh game state
   useEffect(() => {
@@ -314,6 +322,9 @@ export function useGameState(
       if (eventListenerRef.current) {
         eventListenerRef.current();
       }
+      if (logErrorListenerRef.current) {
+        logErrorListenerRef.current();
+      }
       if (refreshIntervalRef.current) {
         clearInterval(refreshIntervalRef.current);
       }
@@ -336,7 +347,7 @@ export function useGameState(
       await gameManagerRef.current.executeAction({
         ...action,
         gameId: gameState.id,
-        timestamp: new Date().toISOString()
+        timestamp: new Date(serverNow()).toISOString()
       });
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Action failed';
@@ -345,7 +356,7 @@ export function useGameState(
     } finally {
       setIsLoading(false);
     }
-  }, [gameState]);
+  }, [gameState, serverNow]);
 
   // Game lifecycle actions
   const startGame = useCallback(() => executeAction({ type: 'start-game' }), [executeAction]);
@@ -421,7 +432,6 @@ export function useGameState(
     setGameState(null);
     setError(null);
     setIsLoading(false);
-    setTimeRemaining(0);
     
     if (gameManagerRef.current) {
       gameManagerRef.current.destroy();
@@ -1,12 +1,13 @@
 import { useEffect, useState, useCallback } from 'react';
 import { guestAuthService } from '../services/guestAuth';
+import { guestConversionService } from '../services/guestConversion';
 import type { GuestUser, GuestSession } from '../types/guest';
 import { useAppActions } from '../stores/useAppStore';
 
 export function useGuestAuth() {
   const [guestSession, setGuestSession] = useState<GuestSession | null>(null);
   const [loading, setLoading] = useState(false);
-  const { setGuestUser, logout, showGuestRegistrationPrompt } = useAppActions();
+  const { setGuestUser, logout, showGuestRegistrationPrompt, convertGuestToUser } = useAppActions();
 
   // Initialize guest session on mount
   useEffect(() => {
@@ -26,6 +27,16 @@ export function useGuestAuth() {
     initializeGuestSession();
   }, [setGuestUser, showGuestRegistrationPrompt]);
 
+  // Guests who sign in or sign up keep what they played
+  useEffect(() => guestConversionService.onAccountSignIn(async user => {
+    await convertGuestToUser({
+      id: user.id,
+      name: user.user_metadata?.display_name || user.email || 'Player',
+      isHost: false
+    });
+    setGuestSession(guestAuthService.getCurrentGuestSession());
+  }), [convertGuestToUser]);
+
   // Create a new guest user session
   const createGuestSession = useCallback(async (customUsername?: string) => {
     setLoading(true);
@@ -34,7 +45,12 @@ export function useGuestAuth() {
       const username = customUsername || guestAuthService.generateRandomUsername();
       
       // Create guest session
-      const session = guestAuthService.createGuestSession(username);
+      let session = guestAuthService.createGuestSession(username);
+
+      // Save their games on the server so they can keep them on sign-up
+      if (await guestConversionService.startServerSession()) {
+        session = guestAuthService.getCurrentGuestSession() ?? session;
+      }
       
       setGuestSession(session);
       setGuestUser(session.user);
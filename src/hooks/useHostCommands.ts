@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  type HostCommandStack,
+  DEFAULT_HOST_HISTORY_LIMIT,
+  getHostCommandStack,
+  type HostCommand,
+  type HostCommandHistory,
+} from '../services/hostCommands';
+
+/**
+ * Undo/redo for the host's actions in one game, shared by every host panel
+ * showing that game. The history starts over when the game changes.
+ */
+export function useHostCommands(gameId: string, limit = DEFAULT_HOST_HISTORY_LIMIT) {
+  const stackRef = useRef<HostCommandStack | null>(null);
+
+  const [history, setHistory] = useState<HostCommandHistory>({ done: [], undone: [] });
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const stack = getHostCommandStack(gameId, limit);
+    stackRef.current = stack;
+    setHistory(stack.getHistory());
+    return stack.subscribe(next => setHistory(next));
+  }, [gameId, limit]);
+
+  const perform = useCallback(async <T,>(work: (stack: HostCommandStack) => Promise<T>) => {
+    const stack = stackRef.current;
+    if (!stack) throw new Error('Host actions are not ready yet');
+    try {
+      setIsBusy(true);
+      setError(null);
+      return await work(stack);
+    } catch (err) {
+      console.error('Host action failed:', err);
+      setError(err instanceof Error ? err.message : 'Host action failed');
+      throw err;
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  const run = useCallback((command: HostCommand) => perform(stack => stack.run(command)), [perform]);
+  const undo = useCallback(() => perform(stack => stack.undo()), [perform]);
+  const redo = useCallback(() => perform(stack => stack.redo()), [perform]);
+
+  return {
+    history,
+    canUndo: !isBusy && history.done.length > 0,
+    canRedo: !isBusy && history.undone.length > 0,
+    isBusy,
+    error,
+    run,
+    undo,
+    redo,
+    clearError: () => setError(null),
+  };
+}
@@ -0,0 +1,71 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CoHostService } from '../services/coHostService';
+import { HostRecoveryService } from '../services/hostRecoveryService';
+import {
+  PRIMARY_HOST_ROLE,
+  canGrantRole,
+  canPerformHostAction,
+  hasHostPermission,
+  type HostActionType,
+  type HostPermission,
+  type HostRole,
+} from '../types/hostControls';
+
+/**
+ * The signed-in account's role in a game and what it is allowed to do.
+ * Games run without an account are local, so whoever runs them is the host.
+ */
+export function useHostPermissions(gameId: string) {
+  const [role, setRole] = useState<HostRole | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRole = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const signedInId = await HostRecoveryService.getSignedInHostId();
+      setUserId(signedInId);
+      setRole(signedInId ? await CoHostService.getMyRole(gameId) : PRIMARY_HOST_ROLE);
+    } catch (err) {
+      console.error('Failed to load host role:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load host role');
+      setRole(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [gameId]);
+
+  useEffect(() => {
+    loadRole();
+  }, [loadRole]);
+
+  const can = useCallback(
+    (permission: HostPermission) => hasHostPermission(role, permission),
+    [role]
+  );
+
+  const canPerform = useCallback(
+    (action: HostActionType) => canPerformHostAction(role, action),
+    [role]
+  );
+
+  const canGrant = useCallback(
+    (grantedRole: HostRole) => canGrantRole(role, grantedRole),
+    [role]
+  );
+
+  return {
+    role,
+    userId,
+    isPrimaryHost: role?.id === PRIMARY_HOST_ROLE.id,
+    isLoading,
+    error,
+    can,
+    canPerform,
+    canGrant,
+    refresh: loadRole,
+  };
+}
@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './useAuth';
+import { PushNotificationService, type PushPermission } from '../services/pushNotifications';
+
+/**
+ * Whether this browser gets push reminders for scheduled games, and
+ * controls to turn them on and off.
+ */
+export function usePushNotifications() {
+  const { user } = useAuth();
+  const [permission, setPermission] = useState<PushPermission>(() => PushNotificationService.getPermission());
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    PushNotificationService.getSubscription()
+      .then(subscription => {
+        if (!cancelled) setIsSubscribed(subscription !== null);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const enable = useCallback(async () => {
+    if (!user?.id) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      setIsSubscribed(await PushNotificationService.subscribe(user.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to turn on push reminders');
+    } finally {
+      setPermission(PushNotificationService.getPermission());
+      setIsLoading(false);
+    }
+  }, [user?.id]);
+
+  const disable = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await PushNotificationService.unsubscribe();
+      setIsSubscribed(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to turn off push reminders');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  return {
+    isSupported: permission !== 'unsupported',
+    permission,
+    isSubscribed,
+    isLoading,
+    error,
+    enable,
+    disable,
+  };
+}
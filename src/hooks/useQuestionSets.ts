@@ -12,6 +12,7 @@ import {
   CreateCustomQuestionData,
   UpdateCustomQuestionData
 } from '../types/questionSets';
+import type { ImportParseOptions, QuestionSetFileFormat } from '../types/questionSets';
 import { QuestionSetService } from '../services/questionSetService';
 
 interface UseQuestionSetsOptions {
@@ -41,8 +42,8 @@ interface UseQuestionSetsReturn {
   updateQuestionSet: (data: UpdateQuestionSetData) => Promise<QuestionSet>;
   duplicateQuestionSet: (id: string, newTitle?: string) => Promise<QuestionSet>;
   deleteQuestionSet: (id: string) => Promise<void>;
-  exportQuestionSet: (id: string) => Promise<void>;
-  importQuestionSet: (file: File) => Promise<QuestionSet>;
+  exportQuestionSet: (id: string, format?: QuestionSetFileFormat) => Promise<void>;
+  importQuestionSet: (file: File, options?: ImportParseOptions & { format?: QuestionSetFileFormat }) => Promise<QuestionSet>;
   
   // Question management
   addQuestion: (questionSetId: string, question: CreateCustomQuestionData) => Promise<CustomQuestion>;
@@ -243,7 +244,10 @@ export const useQuestionSets = (options: UseQuestionSetsOptions = {}): UseQuesti
   }, [currentQuestionSet]);
 
   // Export question set
-  const exportQuestionSet = useCallback(async (id: string): Promise<void> => {
+  const exportQuestionSet = useCallback(async (
+    id: string,
+    format: QuestionSetFileFormat = 'json'
+  ): Promise<void> => {
     try {
       setLoading(true);
       setError(null);
@@ -253,16 +257,16 @@ export const useQuestionSets = (options: UseQuestionSetsOptions = {}): UseQuesti
         throw new Error('Question set not found');
       }
 
-      const exportData = await QuestionSetService.exportQuestionSet(id);
+      const exportFile = await QuestionSetService.exportQuestionSetAs(id, format);
       
       // Create and download file
-      const blob = new Blob([JSON.stringify(exportData, null, 2)], {
-        type: 'application/json'
+      const blob = new Blob([exportFile.content], {
+        type: exportFile.mimeType
       });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `${questionSet.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.json`;
+      a.download = exportFile.fileName;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -277,15 +281,23 @@ export const useQuestionSets = (options: UseQuestionSetsOptions = {}): UseQuesti
   }, [questionSets, currentQuestionSet]);
 
   // Import question set
-  const importQuestionSet = useCallback(async (file: File): Promise<QuestionSet> => {
+  const importQuestionSet = useCallback(async (
+    file: File,
+    options: ImportParseOptions & { format?: QuestionSetFileFormat } = {}
+  ): Promise<QuestionSet> => {
     try {
       setLoading(true);
       setError(null);
 
-      const text = await file.text();
-      const importData = JSON.parse(text);
+      const preview = await QuestionSetService.previewImportFile(file, options);
+      if (!preview.validation.is_valid) {
+        const rowErrors = preview.validation.errors.map(e =>
+          e.row !== undefined ? `Row ${e.row}: ${e.message}` : e.message
+        );
+        throw new Error(`Import validation failed: ${rowErrors.join(', ')}`);
+      }
       
-      const importedQuestionSet = await QuestionSetService.importQuestionSet(importData);
+      const importedQuestionSet = await QuestionSetService.importQuestionSet(preview.data);
       
       // Add to the beginning of the list
       setQuestionSets(prev => [importedQuestionSet, ...prev]);
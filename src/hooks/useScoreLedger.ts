@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { RealtimePostgresChangesPayload } from '../services/supabase';
+import { ScoreLedgerService, type ScoreAdjustmentInput, type ScoreLedgerRow } from '../services/scoreLedgerService';
+import { useRealtimeSubscription } from './useRealtimeSubscription';
+import type { ScoreLedgerEntry } from '../types/scoreManagement';
+
+/**
+ * A game's score ledger, kept current as grading and other hosts add
+ * entries.
+ */
+export function useScoreLedger(gameId: string) {
+  const [entries, setEntries] = useState<ScoreLedgerEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const addEntry = useCallback((entry: ScoreLedgerEntry) => {
+    setEntries(prev =>
+      prev.some(existing => existing.id === entry.id)
+        ? prev
+        : [...prev, entry].sort((a, b) => a.sequence - b.sequence)
+    );
+  }, []);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setEntries(await ScoreLedgerService.getEntries(gameId));
+    } catch (err) {
+      console.error('Failed to load score history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load score history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [gameId]);
+
+  useEffect(() => {
+    if (gameId) {
+      loadEntries();
+    }
+  }, [gameId, loadEntries]);
+
+  const handleInsert = useCallback(
+    (payload: RealtimePostgresChangesPayload<ScoreLedgerRow>) => {
+      if (payload.eventType === 'INSERT') {
+        addEntry(ScoreLedgerService.fromRow(payload.new));
+      }
+    },
+    [addEntry]
+  );
+
+  useRealtimeSubscription(
+    {
+      table: 'score_ledger',
+      event: 'INSERT',
+      filter: `game_room_id=eq.${gameId}`,
+    },
+    handleInsert,
+    [gameId]
+  );
+
+  const adjustScore = useCallback(
+    async (input: ScoreAdjustmentInput) => {
+      const entry = await ScoreLedgerService.adjustScore(gameId, input);
+      addEntry(entry);
+      return entry;
+    },
+    [gameId, addEntry]
+  );
+
+  const revertEntry = useCallback(
+    async (entryId: string, reason: string) => {
+      const entry = await ScoreLedgerService.revertEntry(entryId, reason);
+      addEntry(entry);
+      return entry;
+    },
+    [addEntry]
+  );
+
+  return {
+    entries,
+    isLoading,
+    error,
+    adjustScore,
+    revertEntry,
+    refresh: loadEntries,
+  };
+}
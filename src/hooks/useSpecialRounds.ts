@@ -1,17 +1,29 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { SpecialRoundManager } from '../services/specialRoundManager';
-import { SpecialRoundType, SpecialRoundEventType } from '../types/specialRounds';
+import {
+  SpecialRoundType,
+  SpecialRoundEventType,
+  WagerPhase,
+  FinalJeopardyPhase
+} from '../types/specialRounds';
 import type {
   SpecialRound,
   SpecialRoundEvent,
   WagerRound,
-  WagerPhase,
   PictureRound,
   BonusRound,
   LightningRound,
   AudioRound,
+  AudioLoadStatus,
+  AudioPlaybackStatus,
   VideoRound,
+  VideoLoadStatus,
+  VideoPlaybackStatus,
   TeamChallengeRound,
+  TeamSubmission,
+  DiscussionEntry,
+  FinalJeopardyRound,
+  FinalJeopardyEntry,
   SpecialRoundConfig,
   SpecialRoundMetrics
 } from '../types/specialRounds';
@@ -374,15 +386,66 @@ export const useLightningRound = (
   };
 };
 
+const AUDIO_EVENTS = [
+  SpecialRoundEventType.AUDIO_LOADED,
+  SpecialRoundEventType.AUDIO_ERROR,
+  SpecialRoundEventType.AUDIO_PLAYED,
+  SpecialRoundEventType.AUDIO_PAUSED
+];
+
+const VIDEO_EVENTS = [
+  SpecialRoundEventType.VIDEO_LOADED,
+  SpecialRoundEventType.VIDEO_ERROR,
+  SpecialRoundEventType.VIDEO_PLAYED,
+  SpecialRoundEventType.VIDEO_PAUSED
+];
+
+const TEAM_CHALLENGE_EVENTS = [
+  SpecialRoundEventType.TEAM_DISCUSSION_STARTED,
+  SpecialRoundEventType.TEAM_DISCUSSION_ENDED,
+  SpecialRoundEventType.TEAM_DISCUSSION_MESSAGE,
+  SpecialRoundEventType.TEAM_ANSWER_SUBMITTED
+];
+
+const FINAL_JEOPARDY_EVENTS = [
+  SpecialRoundEventType.PHASE_CHANGED,
+  SpecialRoundEventType.FINAL_WAGER_SUBMITTED,
+  SpecialRoundEventType.FINAL_ANSWER_SUBMITTED,
+  SpecialRoundEventType.FINAL_ANSWER_REVEALED
+];
+
+// Re-render when any of the given manager events fire; round objects are
+// mutated in place by the manager
+const useSpecialRoundRefresh = (
+  specialRoundManager: SpecialRoundManager,
+  eventTypes: SpecialRoundEventType[]
+): number => {
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const handleEvent = () => setVersion(prev => prev + 1);
+
+    eventTypes.forEach(type => specialRoundManager.addEventListener(type, handleEvent));
+    return () => {
+      eventTypes.forEach(type => specialRoundManager.removeEventListener(type, handleEvent));
+    };
+  }, [specialRoundManager, eventTypes]);
+
+  return version;
+};
+
 // Audio Round Hook
 export interface UseAudioRoundReturn {
   audioRound: AudioRound | null;
   currentQuestion: any; // Would be from question manager
-  audioLoadingStatus: Map<string, any>;
-  playbackStatus: Map<string, any>;
+  audioLoadingStatus: Map<string, AudioLoadStatus>;
+  playbackStatus: Map<string, AudioPlaybackStatus>;
   
+  canPlay: (questionId: string) => boolean;
   playAudio: (questionId: string, participantId: string) => void;
-  pauseAudio: (questionId: string, participantId: string) => void;
+  pauseAudio: (questionId: string, participantId: string, currentTime?: number) => void;
+  updateProgress: (questionId: string, currentTime: number) => void;
+  completePlayback: (questionId: string) => void;
 }
 
 export const useAudioRound = (
@@ -390,6 +453,7 @@ export const useAudioRound = (
   participantId: string
 ): UseAudioRoundReturn => {
   const [audioRound, setAudioRound] = useState<AudioRound | null>(null);
+  useSpecialRoundRefresh(specialRoundManager, AUDIO_EVENTS);
 
   useEffect(() => {
     const currentRound = specialRoundManager.getCurrentSpecialRound();
@@ -400,34 +464,111 @@ export const useAudioRound = (
     }
   }, [specialRoundManager]);
 
+  const canPlay = useCallback((questionId: string) => {
+    return specialRoundManager.canPlayMedia(questionId, participantId);
+  }, [specialRoundManager, participantId]);
+
   const playAudio = useCallback((questionId: string, participantId: string) => {
-    // Implementation would handle audio playback
-    console.log(`Playing audio for question ${questionId}, participant ${participantId}`);
-  }, []);
+    specialRoundManager.playMedia(questionId, participantId);
+  }, [specialRoundManager]);
 
-  const pauseAudio = useCallback((questionId: string, participantId: string) => {
-    // Implementation would handle audio pause
-    console.log(`Pausing audio for question ${questionId}, participant ${participantId}`);
-  }, []);
+  const pauseAudio = useCallback((questionId: string, participantId: string, currentTime: number = 0) => {
+    specialRoundManager.pauseMedia(questionId, participantId, currentTime);
+  }, [specialRoundManager]);
+
+  const updateProgress = useCallback((questionId: string, currentTime: number) => {
+    specialRoundManager.updateMediaProgress(questionId, participantId, currentTime);
+  }, [specialRoundManager, participantId]);
+
+  const completePlayback = useCallback((questionId: string) => {
+    specialRoundManager.completeMediaPlayback(questionId, participantId);
+  }, [specialRoundManager, participantId]);
 
   return {
     audioRound,
     currentQuestion: null, // Would come from question manager
     audioLoadingStatus: audioRound?.audioLoadingStatus || new Map(),
     playbackStatus: audioRound?.playbackStatus || new Map(),
+    canPlay,
     playAudio,
-    pauseAudio
+    pauseAudio,
+    updateProgress,
+    completePlayback
+  };
+};
+
+// Video Round Hook
+export interface UseVideoRoundReturn {
+  videoRound: VideoRound | null;
+  videoLoadingStatus: Map<string, VideoLoadStatus>;
+  playbackStatus: Map<string, VideoPlaybackStatus>;
+
+  canPlay: (questionId: string) => boolean;
+  playVideo: (questionId: string) => void;
+  pauseVideo: (questionId: string, currentTime: number) => void;
+  updateProgress: (questionId: string, currentTime: number) => void;
+  completePlayback: (questionId: string) => void;
+}
+
+export const useVideoRound = (
+  specialRoundManager: SpecialRoundManager,
+  participantId: string
+): UseVideoRoundReturn => {
+  const [videoRound, setVideoRound] = useState<VideoRound | null>(null);
+  useSpecialRoundRefresh(specialRoundManager, VIDEO_EVENTS);
+
+  useEffect(() => {
+    const currentRound = specialRoundManager.getCurrentSpecialRound();
+    if (currentRound?.specialType === SpecialRoundType.VIDEO) {
+      setVideoRound(currentRound as VideoRound);
+    } else {
+      setVideoRound(null);
+    }
+  }, [specialRoundManager]);
+
+  const canPlay = useCallback((questionId: string) => {
+    return specialRoundManager.canPlayMedia(questionId, participantId);
+  }, [specialRoundManager, participantId]);
+
+  const playVideo = useCallback((questionId: string) => {
+    specialRoundManager.playMedia(questionId, participantId);
+  }, [specialRoundManager, participantId]);
+
+  const pauseVideo = useCallback((questionId: string, currentTime: number) => {
+    specialRoundManager.pauseMedia(questionId, participantId, currentTime);
+  }, [specialRoundManager, participantId]);
+
+  const updateProgress = useCallback((questionId: string, currentTime: number) => {
+    specialRoundManager.updateMediaProgress(questionId, participantId, currentTime);
+  }, [specialRoundManager, participantId]);
+
+  const completePlayback = useCallback((questionId: string) => {
+    specialRoundManager.completeMediaPlayback(questionId, participantId);
+  }, [specialRoundManager, participantId]);
+
+  return {
+    videoRound,
+    videoLoadingStatus: videoRound?.videoLoadingStatus || new Map(),
+    playbackStatus: videoRound?.playbackStatus || new Map(),
+    canPlay,
+    playVideo,
+    pauseVideo,
+    updateProgress,
+    completePlayback
   };
 };
 
 // Team Challenge Round Hook
 export interface UseTeamChallengeRoundReturn {
   teamChallengeRound: TeamChallengeRound | null;
-  teamSubmission: any | null;
+  teamSubmission: TeamSubmission | null;
+  discussionLog: DiscussionEntry[];
   isDiscussionPhase: boolean;
   timeRemaining: number;
   canSubmitAnswer: boolean;
   
+  startDiscussion: () => void;
+  endDiscussion: () => void;
   sendDiscussionMessage: (participantId: string, message: string) => void;
   submitTeamAnswer: (teamId: string, captainId: string, answer: string) => void;
 }
@@ -440,6 +581,7 @@ export const useTeamChallengeRound = (
 ): UseTeamChallengeRoundReturn => {
   const [teamChallengeRound, setTeamChallengeRound] = useState<TeamChallengeRound | null>(null);
   const [timeRemaining, setTimeRemaining] = useState(0);
+  useSpecialRoundRefresh(specialRoundManager, TEAM_CHALLENGE_EVENTS);
 
   useEffect(() => {
     const currentRound = specialRoundManager.getCurrentSpecialRound();
@@ -461,53 +603,129 @@ export const useTeamChallengeRound = (
     return () => clearInterval(interval);
   }, [teamChallengeRound?.discussionDeadline]);
 
-  const sendDiscussionMessage = useCallback((participantId: string, message: string) => {
-    if (!teamChallengeRound) return;
-
-    const teamSubmission = teamChallengeRound.teamSubmissions.get(teamId);
-    if (!teamSubmission) return;
+  const startDiscussion = useCallback(() => {
+    specialRoundManager.startTeamDiscussion();
+  }, [specialRoundManager]);
 
-    const discussionEntry = {
-      participantId,
-      message,
-      timestamp: new Date(),
-      type: 'message' as const
-    };
+  const endDiscussion = useCallback(() => {
+    specialRoundManager.endTeamDiscussion();
+  }, [specialRoundManager]);
 
-    if (!teamSubmission.discussionLog) {
-      teamSubmission.discussionLog = [];
-    }
-    teamSubmission.discussionLog.push(discussionEntry);
-  }, [teamChallengeRound, teamId]);
+  const sendDiscussionMessage = useCallback((participantId: string, message: string) => {
+    specialRoundManager.addDiscussionEntry(teamId, participantId, message);
+  }, [specialRoundManager, teamId]);
 
   const submitTeamAnswer = useCallback((teamId: string, captainId: string, answer: string) => {
-    if (!teamChallengeRound) return;
-
-    const teamSubmission = {
-      teamId,
-      captainId,
-      answer,
-      submittedAt: new Date(),
-      discussionLog: teamChallengeRound.teamSubmissions.get(teamId)?.discussionLog || []
-    };
-
-    teamChallengeRound.teamSubmissions.set(teamId, teamSubmission);
-  }, [teamChallengeRound]);
+    specialRoundManager.submitTeamAnswer(teamId, captainId, answer, isCaptain);
+  }, [specialRoundManager, isCaptain]);
 
-  const teamSubmission = teamChallengeRound?.teamSubmissions.get(teamId);
+  const teamSubmission = teamChallengeRound?.teamSubmissions.get(teamId) || null;
   const settings = teamChallengeRound?.settings;
 
   return {
     teamChallengeRound,
     teamSubmission,
+    discussionLog: teamChallengeRound?.discussionLogs.get(teamId) || [],
     isDiscussionPhase: teamChallengeRound?.discussionPhase || false,
     timeRemaining,
     canSubmitAnswer: !settings?.teamCaptainOnly || isCaptain,
+    startDiscussion,
+    endDiscussion,
     sendDiscussionMessage,
     submitTeamAnswer
   };
 };
 
+// Final Jeopardy Round Hook
+export interface UseFinalJeopardyRoundReturn {
+  finalJeopardyRound: FinalJeopardyRound | null;
+  currentPhase: FinalJeopardyPhase | null;
+  entries: FinalJeopardyEntry[];
+  ownEntry: FinalJeopardyEntry | null;
+  maxWager: number;
+  timeRemaining: number;
+  canSubmitWager: boolean;
+  canSubmitAnswer: boolean;
+
+  submitWager: (amount: number) => void;
+  submitAnswer: (answer: string) => void;
+  advancePhase: () => Promise<void>;
+  revealNext: () => FinalJeopardyEntry | null;
+  judgeAnswer: (participantId: string, isCorrect: boolean) => void;
+}
+
+export const useFinalJeopardyRound = (
+  specialRoundManager: SpecialRoundManager,
+  participantId: string,
+  isHost: boolean = false
+): UseFinalJeopardyRoundReturn => {
+  const [finalJeopardyRound, setFinalJeopardyRound] = useState<FinalJeopardyRound | null>(null);
+  const [timeRemaining, setTimeRemaining] = useState(0);
+  useSpecialRoundRefresh(specialRoundManager, FINAL_JEOPARDY_EVENTS);
+
+  useEffect(() => {
+    const currentRound = specialRoundManager.getCurrentSpecialRound();
+    if (currentRound?.specialType === SpecialRoundType.FINAL_JEOPARDY) {
+      setFinalJeopardyRound(currentRound as FinalJeopardyRound);
+    } else {
+      setFinalJeopardyRound(null);
+    }
+  }, [specialRoundManager]);
+
+  useEffect(() => {
+    if (!finalJeopardyRound?.phaseDeadline) return;
+
+    const interval = setInterval(() => {
+      const remaining = Math.max(0, finalJeopardyRound.phaseDeadline!.getTime() - Date.now());
+      setTimeRemaining(Math.ceil(remaining / 1000));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [finalJeopardyRound?.phaseDeadline]);
+
+  const submitWager = useCallback((amount: number) => {
+    specialRoundManager.submitFinalWager(participantId, amount);
+  }, [specialRoundManager, participantId]);
+
+  const submitAnswer = useCallback((answer: string) => {
+    specialRoundManager.submitFinalAnswer(participantId, answer);
+  }, [specialRoundManager, participantId]);
+
+  const advancePhase = useCallback(async () => {
+    await specialRoundManager.advanceFinalJeopardyPhase();
+  }, [specialRoundManager]);
+
+  const revealNext = useCallback(() => {
+    return specialRoundManager.revealNextFinalAnswer();
+  }, [specialRoundManager]);
+
+  const judgeAnswer = useCallback((participantId: string, isCorrect: boolean) => {
+    specialRoundManager.judgeFinalAnswer(participantId, isCorrect);
+  }, [specialRoundManager]);
+
+  const entries = finalJeopardyRound
+    ? specialRoundManager.getFinalJeopardyView(participantId, isHost)
+    : [];
+  const ownEntry = entries.find(entry => entry.participantId === participantId) || null;
+  const phase = finalJeopardyRound?.phase || null;
+
+  return {
+    finalJeopardyRound,
+    currentPhase: phase,
+    entries,
+    ownEntry,
+    maxWager: specialRoundManager.getFinalJeopardyMaxWager(participantId),
+    timeRemaining,
+    canSubmitWager: phase === FinalJeopardyPhase.WAGER_SUBMISSION && !!ownEntry,
+    canSubmitAnswer: phase === FinalJeopardyPhase.ANSWER_SUBMISSION && !!ownEntry,
+    submitWager,
+    submitAnswer,
+    advancePhase,
+    revealNext,
+    judgeAnswer
+  };
+};
+
 // Utility hook for special round events
 export interface UseSpecialRoundEventsReturn {
   events: SpecialRoundEvent[];
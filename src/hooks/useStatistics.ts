@@ -157,6 +157,8 @@ export interface UseLeaderboardOptions {
   category?: string;
   limit?: number;
   autoRefresh?: boolean;
+  // Skill rating instead of score; ignored for category boards
+  sortBy?: 'score' | 'rating';
 }
 
 export interface UseLeaderboardReturn {
@@ -176,7 +178,8 @@ export function useLeaderboard({
   type = 'all_time',
   category,
   limit = 50,
-  autoRefresh = false
+  autoRefresh = false,
+  sortBy = 'score'
 }: UseLeaderboardOptions = {}): UseLeaderboardReturn {
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
   const [userRanking, setUserRanking] = useState<UseLeaderboardReturn['userRanking']>(null);
@@ -193,7 +196,7 @@ export function useLeaderboard({
       if (category) {
         leaderboardData = await statisticsService.getCategoryLeaderboard(category, type, limit);
       } else {
-        leaderboardData = await statisticsService.getGlobalLeaderboard(type, limit);
+        leaderboardData = await statisticsService.getGlobalLeaderboard(type, limit, sortBy);
       }
 
       setLeaderboard(leaderboardData);
@@ -203,7 +206,7 @@ export function useLeaderboard({
     } finally {
       setIsLoading(false);
     }
-  }, [type, category, limit]);
+  }, [type, category, limit, sortBy]);
 
   // Load leaderboard data
   useEffect(() => {
@@ -2,6 +2,7 @@ import { useState, useCallback, useEffect, useRef } from 'react';
 import { TeamsApi } from '../services/apiService';
 import { useAuth } from './useAuth';
 import { supabase } from '../services/supabase';
+import { describeRateLimit, getRateLimitInfo } from '../utils/rateLimit';
 
 interface TeamFormationData {
   name: string;
@@ -249,6 +250,10 @@ export function useTeamFormation(): UseTeamFormationReturn {
         updated_at: new Date().toISOString(),
       });
 
+      const rateLimit = getRateLimitInfo(teamResponse.error);
+      if (rateLimit) {
+        throw new Error(describeRateLimit(rateLimit));
+      }
       if (teamResponse.error || !teamResponse.data) {
         throw new Error(teamResponse.error?.message || 'Failed to create team');
       }
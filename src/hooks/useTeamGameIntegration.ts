@@ -36,7 +36,7 @@ interface UseTeamGameIntegrationReturn {
   
   // Actions
   updateReadiness: (isReady: boolean) => Promise<boolean>;
-  submitAnswer: (questionId: string, answer: string, pointValue?: number) => Promise<{ success: boolean; error?: string }>;
+  submitAnswer: (questionId: string, answer: string, pointValue?: number) => Promise<{ success: boolean; queued?: boolean; error?: string }>;
   refreshGameState: () => Promise<void>;
   clearEvents: () => void;
   
@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import type { RealtimeChannel } from '../services/supabase';
-import { supabase } from '../services/supabase';
+import { createTeamChannel } from '../services/teamChannels';
 import { useAuth } from './useAuth';
 
 interface TeamMemberStatus {
@@ -265,20 +265,14 @@ export function useTeamPresence(teamId?: string): UseTeamPresenceReturn {
       return;
     }
 
-    const presenceChannelName = `team_presence:${teamId}`;
-    const activityChannelName = `team_activity:${teamId}`;
-
-    // Create presence channel
-    const presenceChannel = supabase.channel(presenceChannelName, {
-      config: {
-        presence: {
-          key: user?.id || 'anonymous'
-        }
+    // Both channels are private to the team and the host
+    const presenceChannel = createTeamChannel(teamId, 'presence', {
+      presence: {
+        key: user?.id || 'anonymous'
       }
     });
 
-    // Create activity channel
-    const activityChannel = supabase.channel(activityChannelName);
+    const activityChannel = createTeamChannel(teamId, 'activity');
 
     presenceChannelRef.current = presenceChannel;
     activityChannelRef.current = activityChannel;
@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { GameTimer } from '../services/gameTimer';
-import type { TimerConfiguration, TimerState, TimerEventType, TimerEvent, TimerPhase } from '../services/gameTimer';
+import { GameTimer, TimerEventType } from '../services/gameTimer';
+import type { TimerConfiguration, TimerState, TimerEvent, TimerPhase, TimerSchedule } from '../services/gameTimer';
 
 export interface UseTimerOptions extends Partial<TimerConfiguration> {
   onExpired?: () => void;
@@ -13,6 +13,8 @@ export interface UseTimerOptions extends Partial<TimerConfiguration> {
   onStop?: () => void;
   onReset?: () => void;
   enableSoundEffects?: boolean;
+  // Published with the question; the timer follows it instead of its own start
+  schedule?: TimerSchedule | null;
   soundUrls?: {
     warning?: string;
     critical?: string;
@@ -30,6 +32,7 @@ export interface UseTimerReturn {
   isRunning: boolean;
   isPaused: boolean;
   isExpired: boolean;
+  deadline: number | null; // ms in the timer's clock
   
   // Timer controls
   start: () => void;
@@ -60,6 +63,7 @@ export function useTimer(duration: number, options: UseTimerOptions = {}): UseTi
     onReset,
     enableSoundEffects = true,
     soundUrls = {},
+    schedule,
     ...timerConfig
   } = options;
 
@@ -210,6 +214,22 @@ export function useTimer(duration: number, options: UseTimerOptions = {}): UseTi
     };
   }, [timer, handleTimerEvent, updateState]);
 
+  // Follow the published schedule; compared field by field so a fresh object
+  // with the same values does not resync
+  const scheduleStartedAt = schedule?.startedAt;
+  const scheduleDuration = schedule?.duration;
+  const schedulePausedAt = schedule?.pausedAt;
+  const schedulePausedDuration = schedule?.pausedDuration;
+  useEffect(() => {
+    if (scheduleStartedAt === undefined || scheduleDuration === undefined) return;
+    timer.syncTo({
+      startedAt: scheduleStartedAt,
+      duration: scheduleDuration,
+      pausedAt: schedulePausedAt,
+      pausedDuration: schedulePausedDuration,
+    });
+  }, [timer, scheduleStartedAt, scheduleDuration, schedulePausedAt, schedulePausedDuration]);
+
   // Control functions
   const start = useCallback(() => {
     timer.start();
@@ -277,6 +297,7 @@ export function useTimer(duration: number, options: UseTimerOptions = {}): UseTi
     isRunning: state.isRunning,
     isPaused: state.isPaused,
     isExpired: state.isExpired,
+    deadline: timer.getDeadline(),
     
     // Controls
     start,
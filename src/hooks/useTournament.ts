@@ -35,8 +35,8 @@ export function useTournament({ tournamentId, autoRefresh = true }: UseTournamen
       setParticipants(participantsData);
       setMatches(matchesData);
 
-      // Load standings for round-robin tournaments
-      if (tournamentData?.format === 'round_robin') {
+      // Load standings for round-robin and Swiss tournaments
+      if (tournamentData?.format === 'round_robin' || tournamentData?.format === 'swiss') {
         const standingsData = await TournamentService.getStandings(tournamentId);
         setStandings(standingsData);
       }
@@ -75,8 +75,12 @@ export function useTournament({ tournamentId, autoRefresh = true }: UseTournamen
         if (status === 'in_progress') {
           if (tournament.format === 'single_elimination') {
             await TournamentService.generateSingleEliminationBracket(tournamentId);
+          } else if (tournament.format === 'double_elimination') {
+            await TournamentService.generateDoubleEliminationBracket(tournamentId);
           } else if (tournament.format === 'round_robin') {
             await TournamentService.generateRoundRobinSchedule(tournamentId);
+          } else if (tournament.format === 'swiss') {
+            await TournamentService.generateSwissRound(tournamentId);
           }
           await loadTournamentData();
         }
@@ -123,6 +127,28 @@ export function useTournament({ tournamentId, autoRefresh = true }: UseTournamen
     }
   };
 
+  const generateNextSwissRound = async () => {
+    try {
+      const success = await TournamentService.generateSwissRound(tournamentId);
+      if (success) {
+        await loadTournamentData();
+      }
+      return success;
+    } catch (err) {
+      console.error('Error generating Swiss round:', err);
+      return false;
+    }
+  };
+
+  const canPairNextSwissRound = () => {
+    if (tournament?.format !== 'swiss' || tournament.status !== 'in_progress') return false;
+    if (tournament.current_round >= (tournament.total_rounds || 0)) return false;
+    return !matches.some(m =>
+      m.round === tournament.current_round &&
+      (m.status === 'scheduled' || m.status === 'in_progress')
+    );
+  };
+
   const getCurrentRoundMatches = () => {
     if (!tournament || !matches.length) return [];
     return matches.filter(m => m.round === tournament.current_round);
@@ -160,6 +186,8 @@ export function useTournament({ tournamentId, autoRefresh = true }: UseTournamen
     updateTournamentStatus,
     registerTeam,
     updateMatchResult,
+    generateNextSwissRound,
+    canPairNextSwissRound,
     getCurrentRoundMatches,
     getUpcomingMatches,
     getRecentMatches,
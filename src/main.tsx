@@ -27,6 +27,8 @@ import ErrorBoundary from './components/ErrorBoundary';
 import ConnectionStatus from './components/ConnectionStatus';
 import ErrorDisplay from './components/ErrorDisplay';
 
+import { PushNotificationService } from './services/pushNotifications';
+
 // Create a client
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -132,6 +134,13 @@ const router = createBrowserRouter([
   },
 ]);
 
+// The service worker caches the app shell, so keep it out of dev where Vite serves modules
+if (import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    void PushNotificationService.registerServiceWorker();
+  });
+}
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <ErrorBoundary>
@@ -32,6 +32,8 @@ import AdministrativeReportsSection from '../components/analytics/Administrative
 import RealTimeMetrics from '../components/analytics/RealTimeMetrics';
 import ExportModal from '../components/analytics/ExportModal';
 import { useAnalytics } from '../hooks/useAnalytics';
+import { useAnalyticsExport } from '../hooks/useAnalyticsExport';
+import { getReportMetrics } from '../utils/analyticsReport';
 
 const AnalyticsDashboard: React.FC = () => {
   const [filters, setFilters] = useState<AnalyticsFilters>({
@@ -51,6 +53,7 @@ const AnalyticsDashboard: React.FC = () => {
   const [showExportModal, setShowExportModal] = useState(false);
 
   const { data, loading, error, refetch } = useAnalytics(filters);
+  const { exportReport } = useAnalyticsExport(filters);
 
   const handleRefresh = async () => {
     setIsRefreshing(true);
@@ -58,10 +61,7 @@ const AnalyticsDashboard: React.FC = () => {
     setTimeout(() => setIsRefreshing(false), 500);
   };
 
-  const handleExport = (options: ExportOptions) => {
-    // Implementation would connect to export service
-    console.log('Exporting data with options:', options);
-  };
+  const handleExport = (options: ExportOptions) => exportReport(options);
 
   const timeRangeOptions: { value: TimeRange; label: string }[] = [
     { value: '24h', label: 'Last 24 Hours' },
@@ -351,22 +351,14 @@ const AnalyticsDashboard: React.FC = () => {
       </div>
 
       {/* Export Modal */}
-      <ExportModal
-        isOpen={showExportModal}
-        onClose={() => setShowExportModal(false)}
-        onExport={handleExport}
-        availableMetrics={[
-          'Game Performance',
-          'Player Engagement',
-          'Question Analytics',
-          'Host Performance',
-          'Revenue Metrics',
-          'System Health',
-          'User Growth',
-          'Category Performance',
-          'Team Analytics'
-        ]}
-      />
+      {data && (
+        <ExportModal
+          isOpen={showExportModal}
+          onClose={() => setShowExportModal(false)}
+          onExport={handleExport}
+          availableMetrics={getReportMetrics(data)}
+        />
+      )}
     </div>
   );
 };
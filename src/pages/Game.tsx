@@ -1,4 +1,4 @@
-import { Link } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -32,6 +32,8 @@ const joinGameSchema = z.object({
 type JoinGameForm = z.infer<typeof joinGameSchema>;
 
 export default function Game() {
+  // Push reminders link here with the room code filled in
+  const [searchParams] = useSearchParams();
   const {
     register,
     handleSubmit,
@@ -39,6 +41,7 @@ export default function Game() {
     reset,
   } = useForm<JoinGameForm>({
     resolver: zodResolver(joinGameSchema),
+    defaultValues: { gameCode: searchParams.get('code')?.toUpperCase() ?? '' },
   });
 
   const onSubmit = async (data: JoinGameForm) => {
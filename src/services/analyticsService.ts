@@ -0,0 +1,643 @@
+import { supabase } from '../lib/supabase';
+import type {
+  AdministrativeInsights,
+  AnalyticsFilters,
+  CategoryPerformanceAnalytics,
+  GamePerformanceAnalytics,
+  GameQuestionResult,
+  GameSessionAnalytics,
+  GameTeamPerformance,
+  HostPerformanceMetrics,
+  PlayerEngagementMetrics,
+  QuestionAnalytics,
+  RealTimeAnalytics,
+  TeamPerformanceAnalytics,
+} from '../types/analytics';
+
+/**
+ * Typed access to the analytics RPCs. The database does the counting over
+ * game history with the dashboard filters applied; this layer turns the
+ * rows it returns into the dashboard's shapes.
+ */
+
+export interface AnalyticsQueryParams {
+  p_start: string;
+  p_end: string;
+  p_categories: string[] | null;
+  p_difficulties: string[] | null;
+  p_host_ids: string[] | null;
+  p_statuses: string[] | null;
+}
+
+interface CountByHour {
+  hour: number;
+  count: number;
+}
+
+interface CountByDay {
+  day: number;
+  count: number;
+}
+
+export interface GamePerformanceRow {
+  total_games: number;
+  completed_games: number;
+  average_players: number;
+  average_duration_minutes: number;
+  games_by_hour: CountByHour[];
+  games_by_day: CountByDay[];
+}
+
+export interface PlayerEngagementRow {
+  total_unique_players: number;
+  returning_players: number;
+  total_plays: number;
+  retention: Record<string, { eligible: number; retained: number }>;
+  categories: { category: string; answers: number; possible_answers: number; average_points: number }[];
+  activity: (CountByDay & CountByHour)[];
+}
+
+export interface QuestionStatsRow {
+  question_id: string;
+  game_room_id: string;
+  question_text: string;
+  category: string | null;
+  difficulty: 'easy' | 'medium' | 'hard' | null;
+  attempts: number;
+  correct_answers: number;
+  average_response_seconds: number | null;
+}
+
+export interface HostPerformanceRow {
+  host_id: string;
+  host_name: string;
+  games_hosted: number;
+  completed_games: number;
+  average_players: number;
+  average_game_minutes: number;
+  average_rounds: number;
+  categories: { category: string; count: number }[];
+  time_slots: (CountByDay & CountByHour)[];
+}
+
+export interface GameTeamStatsRow {
+  team_id: string;
+  team_name: string;
+  score: number;
+  correct_answers: number;
+  total_answers: number;
+  average_response_seconds: number;
+  best_streak: number;
+  current_streak: number;
+  bonus_points: number;
+  penalty_points: number;
+  latest_points: number;
+  player_count: number;
+}
+
+export interface GameAnalyticsRow {
+  total_questions: number;
+  questions_answered: number;
+  teams: GameTeamStatsRow[];
+  questions: QuestionStatsRow[];
+}
+
+export interface TeamPerformanceRow {
+  team_id: string;
+  team_name: string;
+  games_played: number;
+  completed_games: number;
+  wins: number;
+  average_score: number;
+  average_response_seconds: number;
+  scores: number[]; // Oldest game first
+  categories: { category: string; answers: number; correct_answers: number }[];
+}
+
+export interface CategoryPerformanceRow {
+  category: string;
+  total_questions: number;
+  attempts: number;
+  correct_answers: number;
+  average_response_seconds: number;
+  games: number;
+  total_games: number;
+  easy: number;
+  medium: number;
+  hard: number;
+  top_teams: { team_id: string; team_name: string; answers: number; correct_answers: number }[];
+}
+
+export interface RealTimeAnalyticsRow {
+  active_games: number;
+  active_players: number;
+  answers_last_hour: number;
+  average_response_seconds_last_10_minutes: number;
+  games: {
+    game_id: string;
+    game_name: string;
+    status: 'active' | 'paused';
+    player_count: number;
+    current_round: number;
+    total_rounds: number;
+  }[];
+}
+
+export interface AdministrativeInsightsRow {
+  new_users_today: number;
+  new_users_this_week: number;
+  new_users_this_month: number;
+  new_users_previous_month: number;
+  players_previous_month: number;
+  lapsed_players: number;
+  peak_concurrent_players: number;
+  average_daily_players: number;
+  database_bytes: number;
+}
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const RANGE_HOURS: Record<Exclude<AnalyticsFilters['timeRange'], 'custom'>, number> = {
+  '24h': 24,
+  '7d': 7 * 24,
+  '30d': 30 * 24,
+  '90d': 90 * 24,
+};
+
+const UNCATEGORIZED = 'Uncategorized';
+
+// How far a team's recent games must move from its earlier ones to count
+// as a trend
+const TREND_THRESHOLD = 0.1;
+
+export class AnalyticsService {
+  static async getGamePerformance(filters: AnalyticsFilters, now = new Date()): Promise<GamePerformanceAnalytics> {
+    const data = await this.call<GamePerformanceRow>('get_game_performance_analytics', {
+      ...toAnalyticsQueryParams(filters, now),
+      p_time_zone: localTimeZone(),
+    }, 'game analytics');
+    return toGamePerformance(data);
+  }
+
+  static async getPlayerEngagement(filters: AnalyticsFilters, now = new Date()): Promise<PlayerEngagementMetrics> {
+    const data = await this.call<PlayerEngagementRow>('get_player_engagement_analytics', {
+      ...toAnalyticsQueryParams(filters, now),
+      p_time_zone: localTimeZone(),
+    }, 'player engagement');
+    return toPlayerEngagement(data);
+  }
+
+  static async getQuestionAnalytics(filters: AnalyticsFilters, now = new Date()): Promise<QuestionAnalytics> {
+    const data = await this.call<QuestionStatsRow[]>(
+      'get_question_analytics',
+      { ...toAnalyticsQueryParams(filters, now) },
+      'question analytics'
+    );
+    return summarizeQuestionStats(data || []);
+  }
+
+  static async getHostPerformance(filters: AnalyticsFilters, now = new Date()): Promise<HostPerformanceMetrics[]> {
+    const data = await this.call<HostPerformanceRow[]>('get_host_performance_analytics', {
+      ...toAnalyticsQueryParams(filters, now),
+      p_min_games: filters.minGames ?? 1,
+      p_time_zone: localTimeZone(),
+    }, 'host analytics');
+    return (data || []).map(toHostPerformance);
+  }
+
+  static async getTeamPerformance(filters: AnalyticsFilters, now = new Date()): Promise<TeamPerformanceAnalytics[]> {
+    const data = await this.call<TeamPerformanceRow[]>(
+      'get_team_performance_analytics',
+      { ...toAnalyticsQueryParams(filters, now) },
+      'team analytics'
+    );
+    return (data || []).map(toTeamPerformance);
+  }
+
+  static async getCategoryPerformance(filters: AnalyticsFilters, now = new Date()): Promise<CategoryPerformanceAnalytics[]> {
+    const data = await this.call<CategoryPerformanceRow[]>(
+      'get_category_performance_analytics',
+      { ...toAnalyticsQueryParams(filters, now) },
+      'category analytics'
+    );
+    return (data || []).map(toCategoryPerformance);
+  }
+
+  static async getRealTimeAnalytics(): Promise<RealTimeAnalytics> {
+    const data = await this.call<RealTimeAnalyticsRow>('get_realtime_analytics', {}, 'live analytics');
+    return toRealTimeAnalytics(data);
+  }
+
+  static async getAdministrativeInsights(filters: AnalyticsFilters, now = new Date()): Promise<AdministrativeInsights> {
+    const { p_start, p_end } = toAnalyticsQueryParams(filters, now);
+    const data = await this.call<AdministrativeInsightsRow>('get_administrative_insights', {
+      p_start,
+      p_end,
+      p_time_zone: localTimeZone(),
+    }, 'administrative insights');
+    return toAdministrativeInsights(data);
+  }
+
+  static async getGameAnalytics(gameId: string): Promise<GameSessionAnalytics> {
+    const data = await this.call<GameAnalyticsRow>(
+      'get_game_analytics',
+      { p_game_room_id: gameId },
+      'game stats'
+    );
+    return toGameSessionAnalytics(data);
+  }
+
+  private static async call<T>(fn: string, params: Record<string, unknown>, what: string): Promise<T> {
+    const { data, error } = await supabase.rpc(fn, params);
+    if (error) {
+      throw new Error(`Failed to load ${what}: ${error.message}`);
+    }
+    return data as T;
+  }
+}
+
+// The window a time range covers, ending now unless a custom range is set
+export function getAnalyticsDateRange(filters: AnalyticsFilters, now = new Date()): { start: Date; end: Date } {
+  if (filters.timeRange === 'custom') {
+    if (!filters.customDateRange) {
+      throw new Error('Choose a start and end date for a custom range');
+    }
+    return filters.customDateRange;
+  }
+  return { start: new Date(now.getTime() - RANGE_HOURS[filters.timeRange] * 60 * 60 * 1000), end: now };
+}
+
+// Filters as RPC parameters; empty lists mean no filter
+export function toAnalyticsQueryParams(filters: AnalyticsFilters, now = new Date()): AnalyticsQueryParams {
+  const { start, end } = getAnalyticsDateRange(filters, now);
+  const listOrNull = <T,>(values?: T[]) => (values && values.length > 0 ? values : null);
+
+  return {
+    p_start: start.toISOString(),
+    p_end: end.toISOString(),
+    p_categories: listOrNull(filters.categories),
+    p_difficulties: listOrNull(filters.difficulty),
+    p_host_ids: listOrNull(filters.hostIds),
+    p_statuses: listOrNull(filters.gameStatus),
+  };
+}
+
+export function toGamePerformance(row: GamePerformanceRow): GamePerformanceAnalytics {
+  const totalGames = Number(row.total_games);
+  const completedGames = Number(row.completed_games);
+  const byHour = row.games_by_hour.map(({ hour, count }) => ({ hour: Number(hour), count: Number(count) }));
+  const byDay = row.games_by_day.map(({ day, count }) => ({ day: Number(day), count: Number(count) }));
+  const peakHour = busiest(byHour);
+  const peakDay = busiest(byDay);
+
+  return {
+    totalGames,
+    averagePlayersPerGame: round(Number(row.average_players)),
+    averageGameDuration: round(Number(row.average_duration_minutes)),
+    completionRate: percent(completedGames, totalGames),
+    abandonmentRate: percent(totalGames - completedGames, totalGames),
+    peakPlayersTime: {
+      hour: peakHour?.hour ?? 0,
+      dayOfWeek: DAY_NAMES[peakDay?.day ?? 0],
+      playerCount: peakHour?.count ?? 0,
+    },
+    gamesByTimeOfDay: byHour,
+    gamesByDayOfWeek: byDay.map(({ day, count }) => ({ day: DAY_NAMES[day], count })),
+  };
+}
+
+export function toPlayerEngagement(row: PlayerEngagementRow): PlayerEngagementMetrics {
+  const players = Number(row.total_unique_players);
+  const retention = (days: number) => {
+    const period = row.retention[String(days)];
+    return period ? percent(Number(period.retained), Number(period.eligible)) : 0;
+  };
+
+  // Activity as a full week of hours scaled to the busiest one
+  const busiestCount = Math.max(0, ...row.activity.map(cell => Number(cell.count)));
+  const activity = new Map(row.activity.map(cell => [`${cell.day}:${cell.hour}`, Number(cell.count)]));
+  const playerActivityHeatmap = [];
+  for (let dayOfWeek = 0; dayOfWeek < 7; dayOfWeek++) {
+    for (let hour = 0; hour < 24; hour++) {
+      playerActivityHeatmap.push({
+        dayOfWeek,
+        hour,
+        intensity: percent(activity.get(`${dayOfWeek}:${hour}`) ?? 0, busiestCount),
+      });
+    }
+  }
+
+  return {
+    totalUniquePlayers: players,
+    returningPlayersRate: percent(Number(row.returning_players), players),
+    averageGamesPerPlayer: players > 0 ? round(Number(row.total_plays) / players) : 0,
+    playerRetention: { day1: retention(1), day7: retention(7), day30: retention(30) },
+    engagementByCategory: row.categories.map(category => ({
+      category: category.category,
+      engagementRate: percent(Number(category.answers), Number(category.possible_answers)),
+      averageScore: round(Number(category.average_points)),
+    })),
+    playerActivityHeatmap,
+  };
+}
+
+/**
+ * Per-question results rolled up for the dashboard. Hardest and easiest
+ * only consider questions someone has answered.
+ */
+export function summarizeQuestionStats(rows: QuestionStatsRow[]): QuestionAnalytics {
+  const questions = rows.map(toQuestionResult);
+  const answered = questions.filter(question => question.totalAttempts > 0);
+  const byDifficulty = (difficulty: 'easy' | 'medium' | 'hard') =>
+    questions.filter(question => question.difficulty === difficulty);
+  const averageResponseTime = (difficulty: 'easy' | 'medium' | 'hard') =>
+    weightedResponseTime(byDifficulty(difficulty));
+
+  const categories = new Map<string, GameQuestionResult[]>();
+  questions.forEach(question => {
+    categories.set(question.category, [...(categories.get(question.category) ?? []), question]);
+  });
+
+  const toListItem = (question: GameQuestionResult) => ({
+    id: question.questionId,
+    questionText: question.questionText,
+    category: question.category,
+    correctRate: question.correctRate,
+    averageResponseTime: question.avgResponseTime,
+  });
+  const hardestFirst = [...answered].sort((a, b) => a.correctRate - b.correctRate);
+
+  return {
+    totalQuestions: questions.length,
+    questionsByCategory: [...categories.entries()].map(([category, items]) => {
+      const attempted = items.filter(item => item.totalAttempts > 0);
+      return {
+        category,
+        count: items.length,
+        averageCorrectRate: attempted.length > 0
+          ? round(attempted.reduce((sum, item) => sum + item.correctRate, 0) / attempted.length)
+          : 0,
+      };
+    }),
+    difficultyDistribution: {
+      easy: byDifficulty('easy').length,
+      medium: byDifficulty('medium').length,
+      hard: byDifficulty('hard').length,
+    },
+    averageResponseTimeByDifficulty: {
+      easy: averageResponseTime('easy'),
+      medium: averageResponseTime('medium'),
+      hard: averageResponseTime('hard'),
+    },
+    mostDifficultQuestions: hardestFirst.slice(0, 5).map(toListItem),
+    easiestQuestions: hardestFirst.slice(-5).reverse().map(toListItem),
+  };
+}
+
+export function toHostPerformance(row: HostPerformanceRow): HostPerformanceMetrics {
+  const gamesHosted = Number(row.games_hosted);
+
+  return {
+    hostId: row.host_id,
+    hostName: row.host_name,
+    totalGamesHosted: gamesHosted,
+    // Games are not rated yet
+    averageGameRating: null,
+    playerSatisfactionScore: null,
+    averagePlayersPerGame: round(Number(row.average_players)),
+    gameCompletionRate: percent(Number(row.completed_games), gamesHosted),
+    popularCategories: row.categories.slice(0, 5).map(({ category, count }) => ({
+      category,
+      timesSelected: Number(count),
+    })),
+    hostingPatterns: {
+      preferredTimeSlots: row.time_slots.slice(0, 3).map(({ day, hour, count }) => ({
+        dayOfWeek: DAY_NAMES[Number(day)],
+        timeRange: `${formatHour(Number(hour))}-${formatHour(Number(hour) + 1)}`,
+        frequency: Number(count),
+      })),
+      averageGameLength: round(Number(row.average_game_minutes)),
+      averageRoundsPerGame: round(Number(row.average_rounds)),
+    },
+  };
+}
+
+/**
+ * One game's stats for its host. Trends compare each team's rank with
+ * where it stood before the latest question was scored.
+ */
+export function toGameSessionAnalytics(row: GameAnalyticsRow): GameSessionAnalytics {
+  const teams = row.teams.map(team => ({
+    ...team,
+    score: Number(team.score),
+    correct_answers: Number(team.correct_answers),
+    total_answers: Number(team.total_answers),
+    latest_points: Number(team.latest_points),
+  }));
+  const rankBy = (scoreOf: (team: (typeof teams)[number]) => number) => {
+    const ordered = [...teams].sort((a, b) => scoreOf(b) - scoreOf(a));
+    return new Map(teams.map(team => [team.team_id, ordered.findIndex(other => scoreOf(other) === scoreOf(team)) + 1]));
+  };
+  const ranks = rankBy(team => team.score);
+  const previousRanks = rankBy(team => team.score - team.latest_points);
+
+  const teamPerformances: GameTeamPerformance[] = teams
+    .map(team => {
+      const rank = ranks.get(team.team_id) ?? 0;
+      const previousRank = previousRanks.get(team.team_id) ?? rank;
+      return {
+        teamId: team.team_id,
+        teamName: team.team_name,
+        score: team.score,
+        correctAnswers: team.correct_answers,
+        incorrectAnswers: team.total_answers - team.correct_answers,
+        avgResponseTime: round(Number(team.average_response_seconds)),
+        streakBest: Number(team.best_streak),
+        streakCurrent: Number(team.current_streak),
+        bonusPoints: Number(team.bonus_points),
+        penalties: Number(team.penalty_points),
+        rank,
+        trend: rank < previousRank ? 'up' as const : rank > previousRank ? 'down' as const : 'stable' as const,
+      };
+    })
+    .sort((a, b) => a.rank - b.rank);
+
+  const questionAnalytics = row.questions.map(toQuestionResult);
+  const scores = teams.map(team => team.score);
+  const totalAnswers = teams.reduce((sum, team) => sum + team.total_answers, 0);
+  const correctAnswers = teams.reduce((sum, team) => sum + team.correct_answers, 0);
+
+  return {
+    gameStats: {
+      totalQuestions: Number(row.total_questions),
+      questionsAnswered: Number(row.questions_answered),
+      averageResponseTime: weightedResponseTime(questionAnalytics),
+      totalTeams: teams.length,
+      activePlayers: teams.reduce((sum, team) => sum + Number(team.player_count), 0),
+      correctAnswerRate: percent(correctAnswers, totalAnswers),
+      averageScore: scores.length > 0 ? round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : 0,
+      highestScore: scores.length > 0 ? Math.max(...scores) : 0,
+      lowestScore: scores.length > 0 ? Math.min(...scores) : 0,
+    },
+    teamPerformances,
+    questionAnalytics,
+  };
+}
+
+/**
+ * A team across the games it played. Strengths are its best and worst
+ * categories by correct rate; the trend compares its later games with its
+ * earlier ones.
+ */
+export function toTeamPerformance(row: TeamPerformanceRow): TeamPerformanceAnalytics {
+  const byCorrectRate = row.categories
+    .map(category => ({
+      category: category.category,
+      correctRate: percent(Number(category.correct_answers), Number(category.answers)),
+    }))
+    .sort((a, b) => b.correctRate - a.correctRate);
+  const strongestCategories = byCorrectRate.slice(0, 2).map(item => item.category);
+
+  return {
+    teamId: row.team_id,
+    teamName: row.team_name,
+    gamesPlayed: Number(row.games_played),
+    winRate: percent(Number(row.wins), Number(row.completed_games)),
+    averageScore: round(Number(row.average_score)),
+    averageResponseTime: round(Number(row.average_response_seconds)),
+    strongestCategories,
+    weakestCategories: byCorrectRate
+      .slice(-2)
+      .reverse()
+      .map(item => item.category)
+      .filter(category => !strongestCategories.includes(category)),
+    performanceTrend: scoreTrend(row.scores.map(Number)),
+  };
+}
+
+export function toCategoryPerformance(row: CategoryPerformanceRow): CategoryPerformanceAnalytics {
+  const questions = Number(row.total_questions);
+
+  return {
+    category: row.category,
+    totalQuestions: questions,
+    averageCorrectRate: percent(Number(row.correct_answers), Number(row.attempts)),
+    averageResponseTime: round(Number(row.average_response_seconds)),
+    popularityScore: percent(Number(row.games), Number(row.total_games)),
+    difficultyBalance: {
+      easy: percent(Number(row.easy), questions),
+      medium: percent(Number(row.medium), questions),
+      hard: percent(Number(row.hard), questions),
+    },
+    topPerformingTeams: row.top_teams.map(team => ({
+      teamId: team.team_id,
+      teamName: team.team_name,
+      correctRate: percent(Number(team.correct_answers), Number(team.answers)),
+    })),
+  };
+}
+
+/**
+ * Live games, with a game ending soon once its last round is under way
+ */
+export function toRealTimeAnalytics(row: RealTimeAnalyticsRow): RealTimeAnalytics {
+  return {
+    activeGames: Number(row.active_games),
+    activePlayers: Number(row.active_players),
+    questionsAnsweredLastHour: Number(row.answers_last_hour),
+    averageResponseTimeLast10Min: round(Number(row.average_response_seconds_last_10_minutes)),
+    // Server load is not monitored
+    currentServerLoad: null,
+    liveGameStatus: row.games.map(game => {
+      const currentRound = Number(game.current_round);
+      const totalRounds = Number(game.total_rounds);
+      return {
+        gameId: game.game_id,
+        gameName: game.game_name,
+        playerCount: Number(game.player_count),
+        currentRound,
+        status: game.status === 'paused'
+          ? 'paused' as const
+          : totalRounds > 0 && currentRound >= totalRounds ? 'ending_soon' as const : 'active' as const,
+      };
+    }),
+  };
+}
+
+/**
+ * Growth compares sign-ups in the last 30 days with the 30 before; churn is
+ * the share of that earlier month's players who have not played since
+ */
+export function toAdministrativeInsights(row: AdministrativeInsightsRow): AdministrativeInsights {
+  const newUsersThisMonth = Number(row.new_users_this_month);
+  const newUsersPreviousMonth = Number(row.new_users_previous_month);
+
+  return {
+    // Neither is tracked: the platform is not monitored from here and games are free
+    platformHealth: null,
+    revenue: null,
+    userGrowth: {
+      newUsersToday: Number(row.new_users_today),
+      newUsersThisWeek: Number(row.new_users_this_week),
+      newUsersThisMonth,
+      growthRate: percent(newUsersThisMonth - newUsersPreviousMonth, newUsersPreviousMonth),
+      churnRate: percent(Number(row.lapsed_players), Number(row.players_previous_month)),
+    },
+    systemUsage: {
+      peakConcurrentUsers: Number(row.peak_concurrent_players),
+      averageDailyActiveUsers: round(Number(row.average_daily_players)),
+      serverLoad: null,
+      databaseSize: Math.round((Number(row.database_bytes) / 1024 ** 3) * 100) / 100,
+    },
+  };
+}
+
+function scoreTrend(scores: number[]): TeamPerformanceAnalytics['performanceTrend'] {
+  if (scores.length < 2) return 'stable';
+  const half = Math.floor(scores.length / 2);
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const earlier = mean(scores.slice(0, half));
+  const later = mean(scores.slice(-half));
+  const change = earlier === 0 ? later - earlier : (later - earlier) / Math.abs(earlier);
+
+  if (change > TREND_THRESHOLD) return 'improving';
+  if (change < -TREND_THRESHOLD) return 'declining';
+  return 'stable';
+}
+
+function toQuestionResult(row: QuestionStatsRow): GameQuestionResult {
+  const attempts = Number(row.attempts);
+  return {
+    questionId: row.question_id,
+    questionText: row.question_text,
+    category: row.category ?? UNCATEGORIZED,
+    difficulty: row.difficulty ?? 'medium',
+    correctRate: percent(Number(row.correct_answers), attempts),
+    avgResponseTime: round(Number(row.average_response_seconds ?? 0)),
+    totalAttempts: attempts,
+  };
+}
+
+// Mean response time over every answer, not every question
+function weightedResponseTime(questions: GameQuestionResult[]): number {
+  const attempts = questions.reduce((sum, question) => sum + question.totalAttempts, 0);
+  if (attempts === 0) return 0;
+  return round(questions.reduce((sum, question) => sum + question.avgResponseTime * question.totalAttempts, 0) / attempts);
+}
+
+function busiest<T extends { count: number }>(counts: T[]): T | undefined {
+  return counts.reduce<T | undefined>((best, item) => (!best || item.count > best.count ? item : best), undefined);
+}
+
+function formatHour(hour: number): string {
+  const normalized = hour % 24;
+  const suffix = normalized < 12 ? 'AM' : 'PM';
+  return `${normalized % 12 === 0 ? 12 : normalized % 12}${suffix}`;
+}
+
+function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+const percent = (part: number, whole: number) => (whole > 0 ? round((part / whole) * 100) : 0);
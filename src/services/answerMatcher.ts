@@ -0,0 +1,413 @@
+import type { AnswerKind, AnswerStrictness } from '../types/game';
+import { doubleMetaphone, soundsAlike } from '../utils/doubleMetaphone';
+import {
+  jaroWinklerSimilarity,
+  levenshteinSimilarity,
+} from '../utils/stringSimilarity';
+
+/**
+ * Answer Matching Service for Tony Trivia
+ *
+ * Decides whether a submitted answer should be accepted for a question and
+ * how confident that decision is. Built-in strategies cover normalised exact
+ * matches, typos (Levenshtein / Jaro-Winkler), phonetic equivalents (Double
+ * Metaphone) and last names for people. Extra strategies can be registered.
+ */
+
+export interface AnswerMatchOptions {
+  alternativeAnswers?: string[];
+  strictness?: AnswerStrictness;
+  answerKind?: AnswerKind;
+}
+
+export interface AnswerMatchResult {
+  isMatch: boolean;
+  confidence: number; // 0-1
+  strategy: string; // Name of the strategy that produced the result
+  matchedAnswer?: string; // Accepted answer the submission matched
+  normalizedAnswer: string;
+}
+
+export interface MatchThresholds {
+  levenshtein: number;
+  jaroWinkler: number;
+  phonetic: boolean;
+  lastName: boolean;
+  minFuzzyLength: number;
+}
+
+export interface AnswerMatchContext {
+  strictness: AnswerStrictness;
+  answerKind: AnswerKind;
+  thresholds: MatchThresholds;
+  rawSubmitted: string;
+  rawExpected: string;
+}
+
+export interface AnswerMatchStrategy {
+  name: string;
+  /**
+   * Compare normalised answers. Return null when the strategy does not apply.
+   */
+  evaluate(
+    submitted: string,
+    expected: string,
+    context: AnswerMatchContext
+  ): { isMatch: boolean; confidence: number } | null;
+}
+
+export const MATCH_THRESHOLDS: Record<AnswerStrictness, MatchThresholds> = {
+  exact: {
+    levenshtein: 1,
+    jaroWinkler: 1,
+    phonetic: false,
+    lastName: false,
+    minFuzzyLength: Infinity,
+  },
+  strict: {
+    levenshtein: 0.9,
+    jaroWinkler: 0.96,
+    phonetic: false,
+    lastName: false,
+    minFuzzyLength: 6,
+  },
+  standard: {
+    levenshtein: 0.8,
+    jaroWinkler: 0.92,
+    phonetic: true,
+    lastName: true,
+    minFuzzyLength: 4,
+  },
+  lenient: {
+    levenshtein: 0.7,
+    jaroWinkler: 0.88,
+    phonetic: true,
+    lastName: true,
+    minFuzzyLength: 3,
+  },
+};
+
+// Titles and specific terms need precision (see product rules); digits in any
+// answer are always compared exactly
+const DEFAULT_STRICTNESS: Record<AnswerKind, AnswerStrictness> = {
+  general: 'standard',
+  person: 'standard',
+  title: 'strict',
+  term: 'strict',
+  number: 'strict',
+};
+
+const ARTICLES = new Set(['the', 'a', 'an']);
+
+const UNITS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7,
+  eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, thirteen: 13,
+  fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17, eighteen: 18,
+  nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60,
+  seventy: 70, eighty: 80, ninety: 90,
+};
+
+const ORDINALS: Record<string, number> = {
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7,
+  eighth: 8, ninth: 9, tenth: 10, eleventh: 11, twelfth: 12,
+};
+
+const SCALES: Record<string, number> = {
+  hundred: 100,
+  thousand: 1000,
+  million: 1000000,
+  billion: 1000000000,
+};
+
+/**
+ * Replace runs of number words with digits ("twenty one" -> "21",
+ * "third" -> "3rd") so they compare equal to numeric answers.
+ */
+function normalizeNumberWords(tokens: string[]): string[] {
+  const result: string[] = [];
+  let total = 0;
+  let current = 0;
+  let inNumber = false;
+
+  const flush = () => {
+    if (inNumber) result.push(String(total + current));
+    total = 0;
+    current = 0;
+    inNumber = false;
+  };
+
+  for (const token of tokens) {
+    if (token in UNITS) {
+      current += UNITS[token];
+      inNumber = true;
+    } else if (token in SCALES && inNumber) {
+      const scale = SCALES[token];
+      if (scale === 100) {
+        current *= scale;
+      } else {
+        total += current * scale;
+        current = 0;
+      }
+    } else if (token === 'and' && inNumber) {
+      continue;
+    } else if (token in ORDINALS) {
+      const value = current + ORDINALS[token] + total;
+      inNumber = false;
+      total = 0;
+      current = 0;
+      result.push(`${value}${ordinalSuffix(value)}`);
+    } else {
+      flush();
+      result.push(token);
+    }
+  }
+  flush();
+
+  return result;
+}
+
+function ordinalSuffix(value: number): string {
+  if (value % 100 >= 11 && value % 100 <= 13) return 'th';
+  return ['th', 'st', 'nd', 'rd'][value % 10] || 'th';
+}
+
+function numericTokens(answer: string): string[] {
+  return answer.match(/\d+/g) || [];
+}
+
+/**
+ * The vowel sounds of a word: the last vowel of each run, with "y" read as
+ * "i" and a silent final "e" dropped. Double Metaphone ignores vowels, so
+ * this keeps Paros from passing for Paris or Napoli for Nepal while Smyth
+ * and Steven still pass for Smith and Stephen.
+ */
+function vowelPattern(word: string): string {
+  const runs = word.replace(/y/g, 'i').replace(/([^aeiou])e$/, '$1').match(/[aeiou]+/g) || [];
+  return runs.map(run => run[run.length - 1]).join('');
+}
+
+const exactStrategy: AnswerMatchStrategy = {
+  name: 'exact',
+  evaluate(submitted, expected) {
+    return submitted === expected ? { isMatch: true, confidence: 1 } : null;
+  },
+};
+
+const fuzzyStrategy: AnswerMatchStrategy = {
+  name: 'fuzzy',
+  evaluate(submitted, expected, { thresholds }) {
+    const levenshtein = levenshteinSimilarity(submitted, expected);
+    const jaroWinkler = jaroWinklerSimilarity(submitted, expected);
+    const longEnough = Math.min(submitted.length, expected.length) >= thresholds.minFuzzyLength;
+    // Either metric alone lets near neighbours through (Austria / Australia,
+    // Niger / Nigeria), so a typo has to satisfy both
+    const isMatch = longEnough &&
+      levenshtein >= thresholds.levenshtein &&
+      jaroWinkler >= thresholds.jaroWinkler;
+
+    // Typo matches are never quite as certain as exact ones
+    return { isMatch, confidence: Math.max(levenshtein, jaroWinkler) * 0.95 };
+  },
+};
+
+const phoneticStrategy: AnswerMatchStrategy = {
+  name: 'phonetic',
+  evaluate(submitted, expected, { thresholds }) {
+    if (!thresholds.phonetic) return null;
+
+    const submittedWords = submitted.split(' ').filter(w => !/^\d/.test(w));
+    const expectedWords = expected.split(' ').filter(w => !/^\d/.test(w));
+    if (submittedWords.length === 0 || submittedWords.length !== expectedWords.length) {
+      return null;
+    }
+
+    const allAlike = submittedWords.every(
+      (word, i) => soundsAlike(word, expectedWords[i]) && vowelPattern(word) === vowelPattern(expectedWords[i])
+    );
+    if (!allAlike) return null;
+
+    // Weight by how close the spellings are, so "Smyth" beats "Schmidt" for "Smith"
+    const spelling = levenshteinSimilarity(submitted, expected);
+    return { isMatch: true, confidence: 0.8 + 0.1 * spelling };
+  },
+};
+
+const lastNameStrategy: AnswerMatchStrategy = {
+  name: 'last_name',
+  evaluate(submitted, expected, { thresholds, answerKind }) {
+    if (answerKind !== 'person' || !thresholds.lastName) return null;
+
+    const names = expected.split(' ');
+    const lastName = names[names.length - 1];
+    if (names.length < 2 || submitted.includes(' ') || lastName.length < 3) return null;
+
+    if (submitted === lastName) {
+      return { isMatch: true, confidence: 0.9 };
+    }
+
+    const similarity = levenshteinSimilarity(submitted, lastName);
+    if (
+      (lastName.length >= thresholds.minFuzzyLength && similarity >= thresholds.levenshtein) ||
+      (thresholds.phonetic && soundsAlike(submitted, lastName))
+    ) {
+      return { isMatch: true, confidence: 0.75 + 0.1 * similarity };
+    }
+
+    return null;
+  },
+};
+
+class AnswerMatcherService {
+  private strategies: AnswerMatchStrategy[] = [
+    exactStrategy,
+    lastNameStrategy,
+    phoneticStrategy,
+    fuzzyStrategy,
+  ];
+
+  /**
+   * Normalise an answer for comparison: case, accents, punctuation, articles
+   * and number words
+   */
+  normalize(answer: string): string {
+    const cleaned = answer
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/&/g, ' and ')
+      .replace(/(\d),(\d)/g, '$1$2')
+      .replace(/['’]/g, '')
+      .replace(/[^a-z0-9\s]/g, ' ');
+
+    const words = cleaned.split(/\s+/).filter(Boolean);
+    const tokens = words.filter(token => !ARTICLES.has(token));
+    // An answer that is only an article ("A" for a blood type) keeps it
+    return normalizeNumberWords(tokens.length > 0 ? tokens : words).join(' ');
+  }
+
+  /**
+   * Match a submitted answer against the correct answer and any alternatives
+   */
+  match(
+    submittedAnswer: string,
+    correctAnswer: string,
+    options: AnswerMatchOptions = {}
+  ): AnswerMatchResult {
+    const answerKind = options.answerKind || 'general';
+    const strictness = options.strictness || DEFAULT_STRICTNESS[answerKind];
+    const thresholds = MATCH_THRESHOLDS[strictness];
+    const acceptedAnswers = [correctAnswer, ...(options.alternativeAnswers || [])]
+      .filter(answer => answer && answer.trim());
+
+    if (strictness === 'exact') {
+      const submitted = submittedAnswer.trim().toLowerCase();
+      const matchedAnswer = acceptedAnswers.find(a => a.trim().toLowerCase() === submitted);
+      return {
+        isMatch: !!matchedAnswer,
+        confidence: matchedAnswer ? 1 : 0,
+        strategy: 'exact',
+        matchedAnswer,
+        normalizedAnswer: submitted,
+      };
+    }
+
+    const submitted = this.normalize(submittedAnswer);
+    let best: AnswerMatchResult = {
+      isMatch: false,
+      confidence: 0,
+      strategy: 'none',
+      normalizedAnswer: submitted,
+    };
+
+    if (!submitted) return best;
+
+    for (const acceptedAnswer of acceptedAnswers) {
+      const expected = this.normalize(acceptedAnswer);
+      const context: AnswerMatchContext = {
+        strictness,
+        answerKind,
+        thresholds,
+        rawSubmitted: submittedAnswer,
+        rawExpected: acceptedAnswer,
+      };
+
+      // Numbers in an answer (years, counts) must match exactly
+      const numbersDiffer =
+        numericTokens(submitted).join(' ') !== numericTokens(expected).join(' ');
+
+      for (const strategy of this.strategies) {
+        const outcome = strategy.evaluate(submitted, expected, context);
+        if (!outcome) continue;
+
+        const isMatch = outcome.isMatch && !numbersDiffer;
+        const confidence = numbersDiffer ? Math.min(outcome.confidence, 0.5) : outcome.confidence;
+        const better =
+          (isMatch && !best.isMatch) ||
+          (isMatch === best.isMatch && confidence > best.confidence);
+
+        if (better) {
+          best = {
+            isMatch,
+            confidence,
+            strategy: strategy.name,
+            matchedAnswer: isMatch ? acceptedAnswer : undefined,
+            normalizedAnswer: submitted,
+          };
+        }
+      }
+
+      if (best.isMatch && best.confidence === 1) break;
+    }
+
+    return best;
+  }
+
+  /**
+   * Convenience check used by scoring
+   */
+  isMatch(
+    submittedAnswer: string,
+    correctAnswer: string,
+    options: AnswerMatchOptions = {}
+  ): boolean {
+    return this.match(submittedAnswer, correctAnswer, options).isMatch;
+  }
+
+  /**
+   * Phonetic keys for every word of an answer, useful for grouping
+   * submissions that sound the same
+   */
+  getPhoneticKey(answer: string): string {
+    return this.normalize(answer)
+      .split(' ')
+      .map(word => (/^\d/.test(word) ? word : doubleMetaphone(word)[0]))
+      .join(' ');
+  }
+
+  /**
+   * Register a custom strategy. Strategies run in order; `before` inserts
+   * ahead of an existing strategy.
+   */
+  registerStrategy(strategy: AnswerMatchStrategy, before?: string): void {
+    this.removeStrategy(strategy.name);
+    const index = before ? this.strategies.findIndex(s => s.name === before) : -1;
+    if (index >= 0) {
+      this.strategies.splice(index, 0, strategy);
+    } else {
+      this.strategies.push(strategy);
+    }
+  }
+
+  removeStrategy(name: string): void {
+    this.strategies = this.strategies.filter(s => s.name !== name);
+  }
+
+  getStrategies(): string[] {
+    return this.strategies.map(s => s.name);
+  }
+}
+
+// Create and export singleton instance
+export const answerMatcher = new AnswerMatcherService();
+
+export default answerMatcher;
@@ -0,0 +1,312 @@
+import { edgeFunctionService, EdgeFunctionError } from './edgeFunctions';
+import type { AnswerValidationResponse } from '../types/edgeFunctions';
+
+/**
+ * Durable outbox for team answers. Every answer is written to IndexedDB
+ * before it is sent, so one given while the wifi is down survives a reload
+ * and goes out when the device reconnects. Answers are sent one at a time
+ * in the order they were given; each carries an idempotency key so a replay
+ * of one the server already took is not counted twice.
+ *
+ * queued → sent → acknowledged, or rejected when the server refuses it
+ * (answers closed, points already spent). Network failures put the answer
+ * back in the queue.
+ */
+
+export type OutboxStatus = 'queued' | 'sent' | 'acknowledged' | 'rejected';
+
+export interface OutboxEntry {
+  id: string; // idempotency key
+  sequence: number;
+  teamId: string;
+  gameId: string;
+  questionId: string;
+  answer: string;
+  pointsWagered: number;
+  status: OutboxStatus;
+  queuedAt: string;
+  attempts: number;
+  result?: AnswerValidationResponse;
+  error?: string;
+}
+
+export type OutboxAnswer = Pick<OutboxEntry, 'teamId' | 'gameId' | 'questionId' | 'answer' | 'pointsWagered'>;
+
+export interface OutboxStorage {
+  getAll(): Promise<OutboxEntry[]>;
+  put(entry: OutboxEntry): Promise<void>;
+  delete(ids: string[]): Promise<void>;
+}
+
+export type OutboxSender = (entry: OutboxEntry) => Promise<AnswerValidationResponse>;
+
+export type OutboxListener = (entries: OutboxEntry[]) => void;
+
+export interface AnswerOutboxOptions {
+  storage?: OutboxStorage;
+  send?: OutboxSender;
+  isOnline?: () => boolean;
+  now?: () => number;
+  createId?: () => string;
+  // Finished answers older than this are dropped when the outbox loads (default: a day)
+  retainFor?: number;
+}
+
+const DB_NAME = 'trivia-answer-outbox';
+const STORE_NAME = 'answers';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class IndexedDbOutboxStorage implements OutboxStorage {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      this.db = promisify(request);
+    }
+    return this.db;
+  }
+
+  private async transaction(mode: IDBTransactionMode, run: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, mode);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+      run(tx.objectStore(STORE_NAME));
+    });
+  }
+
+  async getAll(): Promise<OutboxEntry[]> {
+    const db = await this.open();
+    return promisify(db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll());
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    await this.transaction('readwrite', store => store.put(entry));
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.transaction('readwrite', store => ids.forEach(id => store.delete(id)));
+  }
+}
+
+// For tests, and browsers without IndexedDB (answers then last as long as the tab)
+export class MemoryOutboxStorage implements OutboxStorage {
+  private entries = new Map<string, OutboxEntry>();
+
+  async getAll(): Promise<OutboxEntry[]> {
+    return [...this.entries.values()].map(entry => ({ ...entry }));
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    this.entries.set(entry.id, { ...entry });
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    ids.forEach(id => this.entries.delete(id));
+  }
+}
+
+// 4xx answers are final; anything else is worth another try
+export function isRetryableSendError(error: unknown): boolean {
+  if (error instanceof EdgeFunctionError && error.status !== undefined) {
+    return error.status >= 500 || error.status === 408 || error.status === 429;
+  }
+  return true;
+}
+
+function rejectionMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : 'Answer was rejected';
+  return message.replace(/^Edge Function [\w-]+ error: /, '');
+}
+
+const sendTeamAnswer: OutboxSender = async entry => {
+  const { validation } = await edgeFunctionService.submitTeamAnswer(
+    entry.teamId,
+    entry.questionId,
+    entry.answer,
+    entry.pointsWagered,
+    entry.gameId,
+    entry.id
+  );
+  return validation;
+};
+
+export class AnswerOutbox {
+  private storage: OutboxStorage;
+  private send: OutboxSender;
+  private isOnline: () => boolean;
+  private now: () => number;
+  private createId: () => string;
+  private retainFor: number;
+  private entries = new Map<string, OutboxEntry>();
+  private listeners = new Set<OutboxListener>();
+  private loaded: Promise<void> | null = null;
+  private draining: Promise<void> | null = null;
+
+  constructor(options: AnswerOutboxOptions = {}) {
+    this.storage = options.storage ?? (typeof indexedDB !== 'undefined' ? new IndexedDbOutboxStorage() : new MemoryOutboxStorage());
+    this.send = options.send ?? sendTeamAnswer;
+    this.isOnline = options.isOnline ?? (() => typeof navigator === 'undefined' || navigator.onLine !== false);
+    this.now = options.now ?? Date.now;
+    this.createId = options.createId ?? (() => crypto.randomUUID());
+    this.retainFor = options.retainFor ?? 24 * 60 * 60 * 1000;
+  }
+
+  // Reads what an earlier page left behind. Answers that were in flight
+  // when it closed are queued again; the server dedupes them.
+  private load(): Promise<void> {
+    this.loaded ??= (async () => {
+      const stored = await this.storage.getAll();
+      const cutoff = this.now() - this.retainFor;
+      const expired = stored.filter(
+        entry => (entry.status === 'acknowledged' || entry.status === 'rejected') && Date.parse(entry.queuedAt) < cutoff
+      );
+      await this.storage.delete(expired.map(entry => entry.id));
+
+      for (const entry of stored) {
+        if (expired.includes(entry)) continue;
+        this.entries.set(entry.id, entry.status === 'sent' ? { ...entry, status: 'queued' } : entry);
+      }
+      this.notify();
+    })();
+    return this.loaded;
+  }
+
+  private async save(entry: OutboxEntry): Promise<void> {
+    this.entries.set(entry.id, entry);
+    await this.storage.put(entry);
+    this.notify();
+  }
+
+  private notify(): void {
+    const entries = this.getEntries();
+    this.listeners.forEach(listener => listener(entries));
+  }
+
+  /**
+   * Stores an answer and tries to send it. Resolves with the entry as it
+   * stands afterwards: acknowledged or rejected when the server answered,
+   * queued when it could not be reached. Answering a question again while
+   * the first answer is still queued replaces it, keeping its place in line.
+   * A changed answer or wager gets a new idempotency key: an earlier attempt
+   * may have reached the server, and replaying its key would hand back the
+   * old answer's result.
+   */
+  async submit(answer: OutboxAnswer): Promise<OutboxEntry> {
+    await this.load();
+
+    const waiting = this.getEntries().find(
+      entry => entry.status === 'queued' && entry.teamId === answer.teamId && entry.questionId === answer.questionId
+    );
+    const changed = waiting !== undefined
+      && (waiting.answer !== answer.answer || waiting.pointsWagered !== answer.pointsWagered);
+    if (waiting && changed) {
+      this.entries.delete(waiting.id);
+      await this.storage.delete([waiting.id]);
+    }
+
+    const sequence = Math.max(0, ...[...this.entries.values()].map(entry => entry.sequence)) + 1;
+    const entry: OutboxEntry = waiting
+      ? {
+          ...waiting,
+          ...(changed ? { id: this.createId(), attempts: 0, error: undefined } : {}),
+          answer: answer.answer,
+          pointsWagered: answer.pointsWagered,
+        }
+      : {
+          ...answer,
+          id: this.createId(),
+          sequence,
+          status: 'queued',
+          queuedAt: new Date(this.now()).toISOString(),
+          attempts: 0,
+        };
+    await this.save(entry);
+
+    await this.flush();
+    return { ...this.entries.get(entry.id)! };
+  }
+
+  /**
+   * Sends queued answers oldest first. Stops at the first one the server
+   * can't be reached for, so later answers never overtake it; call again on
+   * reconnect.
+   */
+  flush(): Promise<void> {
+    this.draining ??= this.drain().finally(() => {
+      this.draining = null;
+    });
+    return this.draining;
+  }
+
+  private async drain(): Promise<void> {
+    await this.load();
+
+    while (this.isOnline()) {
+      const next = this.getEntries().find(entry => entry.status === 'queued');
+      if (!next) return;
+
+      await this.save({ ...next, status: 'sent', attempts: next.attempts + 1, error: undefined });
+      try {
+        const result = await this.send(this.entries.get(next.id)!);
+        await this.save({ ...this.entries.get(next.id)!, status: 'acknowledged', result });
+      } catch (error) {
+        if (isRetryableSendError(error)) {
+          await this.save({
+            ...this.entries.get(next.id)!,
+            status: 'queued',
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return;
+        }
+        await this.save({ ...this.entries.get(next.id)!, status: 'rejected', error: rejectionMessage(error) });
+      }
+    }
+  }
+
+  getEntries(gameId?: string): OutboxEntry[] {
+    return [...this.entries.values()]
+      .filter(entry => !gameId || entry.gameId === gameId)
+      .sort((a, b) => a.sequence - b.sequence);
+  }
+
+  // The latest answer given to a question
+  getEntry(teamId: string, questionId: string): OutboxEntry | undefined {
+    return this.getEntries()
+      .filter(entry => entry.teamId === teamId && entry.questionId === questionId)
+      .pop();
+  }
+
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    void this.load().then(() => listener(this.getEntries()));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Forgets a finished game's answers; anything still queued is kept
+  async clearGame(gameId: string): Promise<void> {
+    await this.load();
+    const finished = this.getEntries(gameId).filter(entry => entry.status === 'acknowledged' || entry.status === 'rejected');
+    finished.forEach(entry => this.entries.delete(entry.id));
+    await this.storage.delete(finished.map(entry => entry.id));
+    this.notify();
+  }
+}
+
+// Create and export a singleton instance
+export const answerOutbox = new AnswerOutbox();
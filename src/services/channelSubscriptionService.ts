@@ -1,5 +1,6 @@
 import type { RealtimePostgresChangesPayload } from './supabase';
 import { RealtimeChannelManager } from './realtimeChannelManager';
+import { teamChannelName } from './teamChannels';
 import type { GameEvent } from '../hooks/useBroadcast';
 import type { RealtimeChannel } from './supabase';
 
@@ -211,7 +212,8 @@ class ChannelSubscriptionService {
       // Answer reviews
       if (options.onAnswerReviewed) {
         const reviewChannel = await this.channelManager.subscribeToBroadcast({
-          channelName: `team-reviews:${options.teamId}`,
+          channelName: teamChannelName(options.teamId, 'reviews'),
+          isPrivate: true,
           eventHandlers: {
             answer_reviewed: options.onAnswerReviewed,
             score_awarded: options.onAnswerReviewed,
@@ -235,7 +237,8 @@ class ChannelSubscriptionService {
       // Team status updates
       if (options.onTeamStatusUpdate) {
         const statusChannel = await this.channelManager.subscribeToBroadcast({
-          channelName: `team-status:${options.teamId}`,
+          channelName: teamChannelName(options.teamId, 'status'),
+          isPrivate: true,
           eventHandlers: {
             team_ready: options.onTeamStatusUpdate,
             team_not_ready: options.onTeamStatusUpdate,
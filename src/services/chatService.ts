@@ -0,0 +1,360 @@
+import { supabase } from './supabase';
+import type {
+  ChatCursor,
+  ChatMention,
+  ChatMessage,
+  ChatMessageEdit,
+  ChatMessageFlag,
+  ChatMute,
+} from '../types/database';
+import type { MentionCandidate } from '../utils/chatMentions';
+
+export const CHAT_PAGE_SIZE = 50;
+
+const MESSAGE_SELECT = `
+  *,
+  profiles:user_id (
+    id,
+    display_name,
+    avatar_url
+  ),
+  teams:team_id (
+    id,
+    name
+  )
+`;
+
+export interface ChatPage {
+  messages: ChatMessage[]; // Oldest first
+  nextCursor: ChatCursor | null; // null once the start of history is reached
+}
+
+export interface ChatMember extends MentionCandidate {
+  role: 'captain' | 'member';
+}
+
+export type NewChatMessage = Pick<ChatMessage, 'game_room_id' | 'user_id' | 'message' | 'message_type'> &
+  Partial<Pick<ChatMessage, 'team_id' | 'reply_to_id' | 'mentioned_user_ids'>>;
+
+// A chat_messages row with the profile and team MESSAGE_SELECT joins
+export interface ChatMessageRow extends Omit<ChatMessage, 'user' | 'team'> {
+  profiles: { id: string; display_name: string; avatar_url: string | null } | null;
+  teams: { id: string; name: string } | null;
+}
+
+// A team_members row with the member's profile joined
+interface ChatMemberRow {
+  user_id: string;
+  role: ChatMember['role'];
+  profiles: { display_name: string | null } | null;
+}
+
+interface ChatMessageFlagRow extends Omit<ChatMessageFlag, 'message'> {
+  message: ChatMessageRow | null;
+}
+
+// Flattens the joined profile and team into the shape the chat renders
+export function toChatMessage(row: ChatMessageRow): ChatMessage {
+  const { profiles, teams, ...message } = row;
+  return {
+    ...message,
+    user: profiles ? { display_name: profiles.display_name, avatar_url: profiles.avatar_url ?? undefined } : undefined,
+    team: teams ? { name: teams.name } : undefined,
+  };
+}
+
+const compareMessages = (a: ChatMessage, b: ChatMessage) =>
+  a.created_at === b.created_at ? a.id.localeCompare(b.id) : a.created_at.localeCompare(b.created_at);
+
+/**
+ * Adds messages to a list, oldest first. A message already in the list is
+ * replaced, keeping any joined data the newer copy lacks, so pages that
+ * overlap with realtime inserts don't show a message twice.
+ */
+export function mergeMessages(existing: ChatMessage[], incoming: ChatMessage[]): ChatMessage[] {
+  const byId = new Map(existing.map(message => [message.id, message]));
+  for (const message of incoming) {
+    const current = byId.get(message.id);
+    byId.set(message.id, current ? { ...current, ...message, user: message.user ?? current.user, team: message.team ?? current.team } : message);
+  }
+  return [...byId.values()].filter(message => !message.is_deleted).sort(compareMessages);
+}
+
+export class ChatService {
+  /**
+   * One page of history, walking back from `before`. Without a thread this
+   * is the room's top-level messages; with one, that thread's replies.
+   */
+  static async fetchMessages(params: {
+    gameRoomId: string;
+    threadId?: string;
+    before?: ChatCursor | null;
+    limit?: number;
+  }): Promise<ChatPage> {
+    const limit = params.limit ?? CHAT_PAGE_SIZE;
+
+    let query = supabase
+      .from('chat_messages')
+      .select(MESSAGE_SELECT)
+      .eq('game_room_id', params.gameRoomId)
+      .eq('is_deleted', false);
+
+    query = params.threadId ? query.eq('thread_id', params.threadId) : query.is('thread_id', null);
+
+    if (params.before) {
+      const { created_at, id } = params.before;
+      query = query.or(`created_at.lt."${created_at}",and(created_at.eq."${created_at}",id.lt.${id})`);
+    }
+
+    // One extra row tells us whether there is another page
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1);
+
+    if (error) {
+      throw new Error(`Failed to load chat messages: ${error.message}`);
+    }
+
+    const rows = ((data || []) as ChatMessageRow[]).slice(0, limit);
+    const oldest = rows[rows.length - 1];
+    return {
+      messages: rows.map(toChatMessage).reverse(),
+      nextCursor: (data || []).length > limit && oldest ? { created_at: oldest.created_at, id: oldest.id } : null,
+    };
+  }
+
+  static async fetchMessage(messageId: string): Promise<ChatMessage | null> {
+    const { data, error } = await supabase.from('chat_messages').select(MESSAGE_SELECT).eq('id', messageId).single();
+
+    if (error) {
+      console.error('Error fetching chat message:', error);
+      return null;
+    }
+    return toChatMessage(data as ChatMessageRow);
+  }
+
+  static async sendMessage(message: NewChatMessage): Promise<void> {
+    const { error } = await supabase.from('chat_messages').insert([
+      {
+        ...message,
+        reply_to_id: message.reply_to_id ?? null,
+        mentioned_user_ids: message.mentioned_user_ids ?? [],
+        is_deleted: false,
+      },
+    ]);
+
+    // Kept as the PostgREST error so rate limits can be recognised
+    if (error) throw error;
+  }
+
+  static async editMessage(messageId: string, message: string, mentionedUserIds: string[] = []): Promise<ChatMessage> {
+    const { data, error } = await supabase.rpc('edit_chat_message', {
+      p_message_id: messageId,
+      p_message: message,
+      p_mentioned_user_ids: mentionedUserIds,
+    });
+
+    if (error) {
+      throw new Error(`Failed to edit message: ${error.message}`);
+    }
+    return data;
+  }
+
+  // Authors delete their own messages; hosts and captains delete anyone's
+  static async deleteMessage(messageId: string): Promise<void> {
+    const { error } = await supabase.rpc('delete_chat_message', { p_message_id: messageId });
+
+    if (error) {
+      throw new Error(`Failed to delete message: ${error.message}`);
+    }
+  }
+
+  // Earlier versions of a message, oldest first
+  static async getEditHistory(messageId: string): Promise<ChatMessageEdit[]> {
+    const { data, error } = await supabase
+      .from('chat_message_edits')
+      .select('*')
+      .eq('message_id', messageId)
+      .order('edited_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load edit history: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  // Teammates who can be @mentioned, with their role on the team
+  static async getMembers(teamId: string): Promise<ChatMember[]> {
+    const { data, error } = await supabase
+      .from('team_members')
+      .select('user_id, role, profiles:user_id(display_name)')
+      .eq('team_id', teamId)
+      // The profile join is to-one, which the generated types can't tell
+      .overrideTypes<ChatMemberRow[], { merge: false }>();
+
+    if (error) {
+      console.error('Error loading chat members:', error);
+      return [];
+    }
+
+    return (data || []).flatMap(row =>
+      row.profiles?.display_name
+        ? [{ user_id: row.user_id, display_name: row.profiles.display_name, role: row.role }]
+        : []
+    );
+  }
+
+  // Moderation
+
+  static async flagMessage(messageId: string, reason?: string): Promise<ChatMessageFlag> {
+    const { data, error } = await supabase.rpc('flag_chat_message', {
+      p_message_id: messageId,
+      p_reason: reason ?? null,
+    });
+
+    if (error) {
+      throw new Error(`Failed to flag message: ${error.message}`);
+    }
+    return data;
+  }
+
+  // Pending flags the caller may review, oldest first
+  static async getFlagQueue(gameRoomId: string): Promise<ChatMessageFlag[]> {
+    const { data, error } = await supabase
+      .from('chat_message_flags')
+      .select(`*, message:chat_messages!message_id(${MESSAGE_SELECT})`)
+      .eq('game_room_id', gameRoomId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load flagged messages: ${error.message}`);
+    }
+
+    return ((data || []) as ChatMessageFlagRow[]).map(flag => ({
+      ...flag,
+      message: flag.message ? toChatMessage(flag.message) : undefined,
+    }));
+  }
+
+  // Removing deletes the message; dismissing keeps it. Closes every flag on it.
+  static async reviewFlag(flagId: string, remove: boolean): Promise<void> {
+    const { error } = await supabase.rpc('review_chat_flag', { p_flag_id: flagId, p_remove: remove });
+
+    if (error) {
+      throw new Error(`Failed to review flag: ${error.message}`);
+    }
+  }
+
+  static async muteUser(gameRoomId: string, userId: string, minutes: number, reason?: string): Promise<ChatMute> {
+    const { data, error } = await supabase.rpc('mute_chat_user', {
+      p_game_room_id: gameRoomId,
+      p_user_id: userId,
+      p_minutes: minutes,
+      p_reason: reason ?? null,
+    });
+
+    if (error) {
+      throw new Error(`Failed to mute player: ${error.message}`);
+    }
+    return data;
+  }
+
+  static async unmuteUser(gameRoomId: string, userId: string): Promise<void> {
+    const { error } = await supabase.rpc('unmute_chat_user', { p_game_room_id: gameRoomId, p_user_id: userId });
+
+    if (error) {
+      throw new Error(`Failed to unmute player: ${error.message}`);
+    }
+  }
+
+  // When the player's mute in this room ends, or null if they aren't muted
+  static async getMutedUntil(gameRoomId: string, userId: string): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('chat_mutes')
+      .select('muted_until')
+      .eq('game_room_id', gameRoomId)
+      .eq('user_id', userId)
+      .gt('muted_until', new Date().toISOString())
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error checking chat mute:', error);
+      return null;
+    }
+    return data?.muted_until ?? null;
+  }
+
+  // Mentions
+
+  static async getUnreadMentions(userId: string, gameRoomId: string): Promise<ChatMention[]> {
+    const { data, error } = await supabase
+      .from('chat_mentions')
+      .select('*')
+      .eq('mentioned_user_id', userId)
+      .eq('game_room_id', gameRoomId)
+      .is('read_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error loading mentions:', error);
+      return [];
+    }
+    return data || [];
+  }
+
+  static async markMentionsRead(mentionIds: string[]): Promise<void> {
+    if (mentionIds.length === 0) return;
+
+    const { error } = await supabase
+      .from('chat_mentions')
+      .update({ read_at: new Date().toISOString() })
+      .in('id', mentionIds);
+
+    if (error) {
+      console.error('Error marking mentions read:', error);
+    }
+  }
+
+  static subscribeToMentions(userId: string, callback: (mention: ChatMention) => void) {
+    const channel = supabase
+      .channel(`chat-mentions:${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'chat_mentions',
+          filter: `mentioned_user_id=eq.${userId}`,
+        },
+        payload => callback(payload.new as ChatMention)
+      )
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }
+
+  // New flags in a room, for the moderation queue
+  static subscribeToFlags(gameRoomId: string, callback: (flag: ChatMessageFlag) => void) {
+    const channel = supabase
+      .channel(`chat-flags:${gameRoomId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'chat_message_flags',
+          filter: `game_room_id=eq.${gameRoomId}`,
+        },
+        payload => callback(payload.new as ChatMessageFlag)
+      )
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Clock offset estimation against the game's time authority (the server,
+ * which also sets question deadlines and judges answers), NTP-style: each ping records four timestamps and yields an offset and a
+ * round trip. Samples with the shortest round trips are the least skewed by
+ * network delay, so the estimate is the median offset of the fastest half.
+ */
+
+export interface ClockPing {
+  id: string;
+  clientSentAt: number;
+}
+
+export interface ClockPong extends ClockPing {
+  serverReceivedAt: number;
+  serverSentAt: number;
+}
+
+export interface ClockSample {
+  offset: number; // ms to add to the local clock to get authority time
+  roundTrip: number; // ms spent on the network
+  measuredAt: number; // local time the sample was taken
+}
+
+export interface ClockSyncTransport {
+  sendPing(ping: ClockPing): void;
+  onPong(handler: (pong: ClockPong) => void): () => void;
+}
+
+export interface ClockSyncOptions {
+  samplesPerSync?: number; // pings per sync (default: 8)
+  maxSamples?: number; // samples kept for the estimate (default: 16)
+  resyncInterval?: number; // ms between syncs (default: 30000)
+  pingTimeout?: number; // ms to wait for a pong (default: 2000)
+  now?: () => number;
+}
+
+export type ClockSyncListener = (offset: number, sample: ClockSample) => void;
+
+export function computeClockSample(pong: ClockPong, clientReceivedAt: number): ClockSample {
+  return {
+    offset: ((pong.serverReceivedAt - pong.clientSentAt) + (pong.serverSentAt - clientReceivedAt)) / 2,
+    roundTrip: Math.max(0, (clientReceivedAt - pong.clientSentAt) - (pong.serverSentAt - pong.serverReceivedAt)),
+    measuredAt: clientReceivedAt,
+  };
+}
+
+export function estimateOffset(samples: ClockSample[]): number {
+  if (samples.length === 0) return 0;
+
+  const fastest = [...samples]
+    .sort((a, b) => a.roundTrip - b.roundTrip)
+    .slice(0, Math.max(1, Math.ceil(samples.length / 2)))
+    .map(sample => sample.offset)
+    .sort((a, b) => a - b);
+
+  const middle = Math.floor(fastest.length / 2);
+  return fastest.length % 2 ? fastest[middle] : (fastest[middle - 1] + fastest[middle]) / 2;
+}
+
+export class ClockSync {
+  private transport: ClockSyncTransport;
+  private options: Required<Omit<ClockSyncOptions, 'now'>>;
+  private localNow: () => number;
+  private samples: ClockSample[] = [];
+  private offset = 0;
+  private pending = new Map<string, (pong: ClockPong) => void>();
+  private listeners = new Set<ClockSyncListener>();
+  private unsubscribe: (() => void) | null = null;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private nextPingId = 0;
+  // Ping ids carry a per-client prefix so samples are never mixed up
+  private clientId = Math.random().toString(36).slice(2, 10);
+
+  constructor(transport: ClockSyncTransport, options: ClockSyncOptions = {}) {
+    this.transport = transport;
+    this.localNow = options.now ?? Date.now;
+    this.options = {
+      samplesPerSync: options.samplesPerSync ?? 8,
+      maxSamples: options.maxSamples ?? 16,
+      resyncInterval: options.resyncInterval ?? 30000,
+      pingTimeout: options.pingTimeout ?? 2000,
+    };
+  }
+
+  start(): void {
+    if (this.unsubscribe) return;
+
+    this.unsubscribe = this.transport.onPong(pong => {
+      this.pending.get(pong.id)?.(pong);
+    });
+    this.sync().catch(error => console.warn('Clock sync failed:', error));
+    this.intervalId = setInterval(() => {
+      this.sync().catch(error => console.warn('Clock sync failed:', error));
+    }, this.options.resyncInterval);
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.pending.clear();
+  }
+
+  // Pings one at a time so samples don't queue behind each other. Stops
+  // early once the sync itself is stopped.
+  async sync(): Promise<number> {
+    for (let i = 0; i < this.options.samplesPerSync && this.unsubscribe; i++) {
+      const sample = await this.ping();
+      if (sample) this.addSample(sample);
+    }
+    return this.offset;
+  }
+
+  addSample(sample: ClockSample): void {
+    this.samples = [...this.samples, sample].slice(-this.options.maxSamples);
+    this.offset = estimateOffset(this.samples);
+    this.listeners.forEach(listener => listener(this.offset, sample));
+  }
+
+  // Authority time in ms
+  now(): number {
+    return this.localNow() + this.offset;
+  }
+
+  getOffset(): number {
+    return this.offset;
+  }
+
+  // Round trip of the best sample, a bound on how far off the offset can be
+  getRoundTrip(): number | null {
+    return this.samples.length ? Math.min(...this.samples.map(sample => sample.roundTrip)) : null;
+  }
+
+  isSynced(): boolean {
+    return this.samples.length > 0;
+  }
+
+  subscribe(listener: ClockSyncListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private ping(): Promise<ClockSample | null> {
+    const id = `${this.clientId}-${this.nextPingId++}`;
+    const clientSentAt = this.localNow();
+
+    return new Promise(resolve => {
+      const timeout = setTimeout(() => {
+        this.pending.delete(id);
+        resolve(null);
+      }, this.options.pingTimeout);
+
+      this.pending.set(id, pong => {
+        clearTimeout(timeout);
+        this.pending.delete(id);
+        resolve(computeClockSample(pong, this.localNow()));
+      });
+
+      this.transport.sendPing({ id, clientSentAt });
+    });
+  }
+}
+
+// Each ping is a request to the server's clock; the pong is its response
+export function createServerClockTransport(
+  request: (ping: ClockPing) => Promise<ClockPong>
+): ClockSyncTransport {
+  const handlers = new Set<(pong: ClockPong) => void>();
+  return {
+    sendPing(ping) {
+      request(ping)
+        .then(pong => handlers.forEach(handler => handler(pong)))
+        .catch(error => console.warn('Clock ping failed:', error));
+    },
+    onPong(handler) {
+      handlers.add(handler);
+      return () => {
+        handlers.delete(handler);
+      };
+    },
+  };
+}
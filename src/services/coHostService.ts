@@ -0,0 +1,177 @@
+import { supabase } from '../lib/supabase';
+import type { CoHostInvite, CoHostInviteStatus, GameCoHost, HostRole } from '../types/hostControls';
+
+interface GameCoHostRow {
+  game_id: string;
+  user_id: string;
+  display_name: string | null;
+  role: HostRole;
+  added_by: string;
+  added_at: string;
+}
+
+interface CoHostInviteRow {
+  id: string;
+  game_id: string;
+  invitee_id: string;
+  display_name: string | null;
+  role: HostRole;
+  invited_by: string;
+  status: CoHostInviteStatus;
+  created_at: string;
+  responded_at: string | null;
+}
+
+/**
+ * Co-hosts help run a game with a delegated role. The host (or a co-host
+ * who may delegate) invites them; the server checks nobody grants more
+ * than they hold.
+ */
+export class CoHostService {
+  // The signed-in account's role in a game, or null if it does not help run it
+  static async getMyRole(gameId: string): Promise<HostRole | null> {
+    const { data, error } = await supabase.rpc('game_host_role', { p_game_id: gameId });
+
+    if (error) {
+      throw new Error(`Failed to load host role: ${error.message}`);
+    }
+    return (data as HostRole | null) ?? null;
+  }
+
+  static async getCoHosts(gameId: string): Promise<GameCoHost[]> {
+    const { data, error } = await supabase
+      .from('game_co_hosts')
+      .select('*')
+      .eq('game_id', gameId)
+      .order('added_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load co-hosts: ${error.message}`);
+    }
+    return (data || []).map(row => this.mapCoHost(row));
+  }
+
+  static async getPendingInvites(gameId: string): Promise<CoHostInvite[]> {
+    const { data, error } = await supabase
+      .from('game_co_host_invites')
+      .select('*')
+      .eq('game_id', gameId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load co-host invites: ${error.message}`);
+    }
+    return (data || []).map(row => this.mapInvite(row));
+  }
+
+  // Invites waiting for the signed-in account to answer
+  static async getMyInvites(): Promise<CoHostInvite[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('game_co_host_invites')
+      .select('*')
+      .eq('invitee_id', user.id)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load co-host invites: ${error.message}`);
+    }
+    return (data || []).map(row => this.mapInvite(row));
+  }
+
+  static async inviteCoHost(
+    gameId: string,
+    inviteeId: string,
+    role: HostRole,
+    displayName?: string
+  ): Promise<CoHostInvite> {
+    const { data, error } = await supabase.rpc('invite_co_host', {
+      p_game_id: gameId,
+      p_invitee_id: inviteeId,
+      p_role: role,
+      p_display_name: displayName ?? null
+    });
+
+    if (error) {
+      throw new Error(`Failed to invite co-host: ${error.message}`);
+    }
+    return this.mapInvite(data);
+  }
+
+  static async respondToInvite(inviteId: string, accept: boolean): Promise<CoHostInvite> {
+    const { data, error } = await supabase.rpc('respond_to_co_host_invite', {
+      p_invite_id: inviteId,
+      p_accept: accept
+    });
+
+    if (error) {
+      throw new Error(`Failed to respond to co-host invite: ${error.message}`);
+    }
+    return this.mapInvite(data);
+  }
+
+  static async revokeInvite(inviteId: string): Promise<void> {
+    const { error } = await supabase.rpc('revoke_co_host_invite', { p_invite_id: inviteId });
+
+    if (error) {
+      throw new Error(`Failed to revoke co-host invite: ${error.message}`);
+    }
+  }
+
+  // Only the host can change or remove existing co-hosts
+  static async updateCoHostRole(gameId: string, userId: string, role: HostRole): Promise<GameCoHost> {
+    const { data, error } = await supabase
+      .from('game_co_hosts')
+      .update({ role })
+      .eq('game_id', gameId)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update co-host role: ${error.message}`);
+    }
+    return this.mapCoHost(data);
+  }
+
+  static async removeCoHost(gameId: string, userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('game_co_hosts')
+      .delete()
+      .eq('game_id', gameId)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`Failed to remove co-host: ${error.message}`);
+    }
+  }
+
+  private static mapCoHost(row: GameCoHostRow): GameCoHost {
+    return {
+      gameId: row.game_id,
+      userId: row.user_id,
+      displayName: row.display_name ?? undefined,
+      role: row.role,
+      addedBy: row.added_by,
+      addedAt: row.added_at
+    };
+  }
+
+  private static mapInvite(row: CoHostInviteRow): CoHostInvite {
+    return {
+      id: row.id,
+      gameId: row.game_id,
+      inviteeId: row.invitee_id,
+      displayName: row.display_name ?? undefined,
+      role: row.role,
+      invitedBy: row.invited_by,
+      status: row.status,
+      createdAt: row.created_at,
+      respondedAt: row.responded_at ?? undefined
+    };
+  }
+}
@@ -1,113 +1,76 @@
 import { supabase } from './supabase';
-
-// Type definitions for Edge Function requests and responses
-export interface GameStateRequest {
-  action: 'start' | 'pause' | 'resume' | 'end' | 'next_round';
-  gameId: string;
-  hostId: string;
-  roundData?: {
-    roundNumber: number;
-    roundType: string;
-    timeLimit: number;
-  };
-}
-
-export interface GameStateResponse {
-  success: boolean;
-  gameState: {
-    status: string;
-    currentRound: number;
-    roundStatus: string;
-    timeRemaining: number;
-  };
-  message: string;
-}
-
-export interface ValidateAnswerRequest {
-  teamId: string;
-  questionId: string;
-  submittedAnswer: string;
-  pointsWagered: number;
-  gameId: string;
-}
-
-export interface AnswerValidationResponse {
-  isCorrect: boolean;
-  pointsAwarded: number;
-  correctAnswer: string;
-  explanation?: string;
-  similarity?: number;
-}
-
-export interface CalculateScoresRequest {
-  gameId: string;
-  roundId?: string;
-  action: 'round_end' | 'game_end' | 'live_update';
-}
-
-export interface TeamScore {
-  teamId: string;
-  teamName: string;
-  totalScore: number;
-  roundScore?: number;
-  rank: number;
-  correctAnswers: number;
-  totalAnswers: number;
-}
-
-export interface ScoreCalculationResponse {
-  teams: TeamScore[];
-  gameStats: {
-    totalQuestions: number;
-    averageScore: number;
-    highestScore: number;
-    completedRounds: number;
-  };
-}
-
-export interface PointUsageRequest {
-  teamId: string;
-  action: 'wager' | 'refund' | 'check_balance' | 'reset';
-  pointValue: number;
-  questionId?: string;
-  gameId: string;
-}
-
-export interface PointUsageResponse {
-  success: boolean;
-  remainingPoints: number;
-  usedPoints: number;
-  availablePoints: { [key: number]: number };
-  message?: string;
+import type {
+  GameStateRequest,
+  GameStateResponse,
+  ValidateAnswerRequest,
+  AnswerValidationResponse,
+  CalculateScoresRequest,
+  TeamScore,
+  ScoreCalculationResponse,
+  PointUsageRequest,
+  PointUsageResponse,
+  StartRoundRequest,
+  StartRoundResponse,
+  RateMatchRequest,
+  RateMatchResponse,
+  SkillRatingChange,
+} from '../types/edgeFunctions';
+import type { ClockPing, ClockPong } from './clockSync';
+import { getRateLimitInfo, RateLimitError } from '../utils/rateLimit';
+
+export type {
+  GameStateRequest,
+  GameStateResponse,
+  ValidateAnswerRequest,
+  AnswerValidationResponse,
+  CalculateScoresRequest,
+  TeamScore,
+  ScoreCalculationResponse,
+  PointUsageRequest,
+  PointUsageResponse,
+  StartRoundRequest,
+  StartRoundResponse,
+  RateMatchRequest,
+  RateMatchResponse,
+  SkillRatingChange,
+};
+
+// A 429 from a function carries the action and how long to wait
+async function toRateLimitError(error: { context?: unknown }): Promise<RateLimitError | null> {
+  const response = error.context;
+  if (!(response instanceof Response) || response.status !== 429) {
+    return null;
+  }
+  const body = await response.clone().json().catch(() => null);
+  return new RateLimitError(
+    getRateLimitInfo(body) ?? {
+      retryAfterSeconds: Number(response.headers.get('Retry-After')) || 30,
+      message: 'Too many requests. Please try again later.',
+    }
+  );
 }
 
-export interface StartRoundRequest {
-  gameId: string;
-  hostId: string;
-  roundNumber: number;
-  roundType: 'standard' | 'picture' | 'wager' | 'lightning';
-  timeLimit: number;
-  questions: {
-    text: string;
-    correctAnswer: string;
-    questionType: 'multiple_choice' | 'short_answer' | 'true_false';
-    acceptPartial?: boolean;
-    explanation?: string;
-    options?: string[];
-  }[];
+// A function answered with an error status. Failures that never reached
+// the function (offline, DNS, CORS) have no status.
+export class EdgeFunctionError extends Error {
+  readonly functionName: string;
+  readonly status?: number;
+
+  constructor(functionName: string, message: string, status?: number) {
+    super(`Edge Function ${functionName} error: ${message}`);
+    this.name = 'EdgeFunctionError';
+    this.functionName = functionName;
+    this.status = status;
+  }
 }
 
-export interface StartRoundResponse {
-  success: boolean;
-  roundId: string;
-  questionIds: string[];
-  gameState: {
-    currentRound: number;
-    roundStatus: string;
-    timeLimit: number;
-    questionsCount: number;
-  };
-  message: string;
+async function toEdgeFunctionError(functionName: string, error: { message: string; context?: unknown }): Promise<EdgeFunctionError> {
+  const response = error.context;
+  if (!(response instanceof Response)) {
+    return new EdgeFunctionError(functionName, error.message);
+  }
+  const body = await response.clone().json().catch(() => null);
+  return new EdgeFunctionError(functionName, typeof body?.error === 'string' ? body.error : error.message, response.status);
 }
 
 // Edge Function service class
@@ -122,7 +85,11 @@ export class EdgeFunctionService {
       });
 
       if (error) {
-        throw new Error(`Edge Function ${functionName} error: ${error.message}`);
+        const rateLimitError = await toRateLimitError(error);
+        if (rateLimitError) {
+          throw rateLimitError;
+        }
+        throw await toEdgeFunctionError(functionName, error);
       }
 
       return data as TResponse;
@@ -175,7 +142,7 @@ export class EdgeFunctionService {
   // Answer Validation
   async validateAnswer(request: ValidateAnswerRequest): Promise<AnswerValidationResponse> {
     return this.callEdgeFunction<ValidateAnswerRequest, AnswerValidationResponse>(
-      'validate-answers',
+      'validate-answer',
       request
     );
   }
@@ -222,7 +189,8 @@ export class EdgeFunctionService {
     teamId: string,
     gameId: string,
     pointValue: number,
-    questionId?: string
+    questionId?: string,
+    idempotencyKey?: string
   ): Promise<PointUsageResponse> {
     return this.handlePointUsage({
       teamId,
@@ -230,6 +198,7 @@ export class EdgeFunctionService {
       action: 'wager',
       pointValue,
       questionId,
+      ...(idempotencyKey ? { idempotencyKey } : {}),
     });
   }
 
@@ -274,19 +243,30 @@ export class EdgeFunctionService {
     );
   }
 
+  // Skill Ratings
+  async rateMatch(matchId: string): Promise<RateMatchResponse> {
+    return this.callEdgeFunction<RateMatchRequest, RateMatchResponse>('rate-match', { matchId });
+  }
+
+  // Clock Sync
+  async pingClock(ping: ClockPing): Promise<ClockPong> {
+    return this.callEdgeFunction<ClockPing, ClockPong>('clock-sync', ping);
+  }
+
   // Convenience methods for common operations
   async submitTeamAnswer(
     teamId: string,
     questionId: string,
     answer: string,
     pointsWagered: number,
-    gameId: string
+    gameId: string,
+    idempotencyKey?: string
   ): Promise<{
     validation: AnswerValidationResponse;
     pointsUsage: PointUsageResponse;
   }> {
     // First wager the points
-    const pointsUsage = await this.wagerPoints(teamId, gameId, pointsWagered, questionId);
+    const pointsUsage = await this.wagerPoints(teamId, gameId, pointsWagered, questionId, idempotencyKey);
 
     try {
       // Then validate the answer
@@ -310,10 +290,12 @@ export class EdgeFunctionService {
   async healthCheck(): Promise<{ [key: string]: boolean }> {
     const functions = [
       'manage-game-state',
-      'validate-answers',
+      'validate-answer',
       'calculate-scores',
       'handle-point-usage',
       'start-game-round',
+      'rate-match',
+      'clock-sync',
     ];
 
     const results: { [key: string]: boolean } = {};
@@ -356,6 +338,7 @@ export const {
   checkPointBalance,
   resetTeamPoints,
   startGameRound,
+  rateMatch,
   submitTeamAnswer,
   healthCheck,
 } = edgeFunctionService; 
\ No newline at end of file
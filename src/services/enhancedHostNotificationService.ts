@@ -2,7 +2,9 @@ import { v4 as uuidv4 } from 'uuid';
 import { HostNotificationService, type HostGameNotification, type ReviewRequest, type GameControlAlert, type PerformanceAlert, type HostAlertConfig } from './hostNotificationService';
 import { ChannelSubscriptionService } from './channelSubscriptionService';
 import { RealtimeChannelManager } from './realtimeChannelManager';
+import { teamChannelName } from './teamChannels';
 import type { HostSubscriptionOptions } from './channelSubscriptionService';
+import type { AnswerMatchOptions } from './answerMatcher';
 
 /**
  * Enhanced Host Notification Service
@@ -93,7 +95,8 @@ export class EnhancedHostNotificationService {
         submittedAnswer,
         expectedAnswer,
         pointValue,
-        confidence
+        confidence,
+        matchOptions
       } = payload;
 
       const reviewRequest = await this.hostNotificationService.submitAnswerForReview(
@@ -104,7 +107,8 @@ export class EnhancedHostNotificationService {
         submittedAnswer,
         expectedAnswer,
         pointValue,
-        confidence
+        confidence,
+        matchOptions
       );
 
       this.onReviewReceived?.(reviewRequest);
@@ -276,7 +280,8 @@ export class EnhancedHostNotificationService {
     submittedAnswer: string,
     expectedAnswer: string,
     pointValue: number,
-    confidence: 'low' | 'medium' | 'high'
+    confidence: 'low' | 'medium' | 'high',
+    matchOptions?: AnswerMatchOptions
   ): Promise<ReviewRequest> {
     const review = await this.hostNotificationService.submitAnswerForReview(
       teamId,
@@ -286,7 +291,8 @@ export class EnhancedHostNotificationService {
       submittedAnswer,
       expectedAnswer,
       pointValue,
-      confidence
+      confidence,
+      matchOptions
     );
 
     // Broadcast review status to team
@@ -324,7 +330,7 @@ export class EnhancedHostNotificationService {
    */
   private async broadcastReviewStatus(teamId: string, review: ReviewRequest): Promise<void> {
     try {
-      await this.channelManager.broadcast(`team:${teamId}`, 'review_status_update', {
+      await this.channelManager.broadcast(teamChannelName(teamId, 'reviews'), 'review_status_update', {
         reviewId: review.id,
         status: review.status,
         questionId: review.questionId,
@@ -341,7 +347,7 @@ export class EnhancedHostNotificationService {
    */
   private async broadcastReviewDecision(review: ReviewRequest, decision: 'approved' | 'rejected'): Promise<void> {
     try {
-      await this.channelManager.broadcast(`team:${review.teamId}`, 'review_decision', {
+      await this.channelManager.broadcast(teamChannelName(review.teamId, 'reviews'), 'review_decision', {
         reviewId: review.id,
         decision,
         questionId: review.questionId,
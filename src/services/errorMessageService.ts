@@ -1,3 +1,5 @@
+import { formatRetryAfter, getRateLimitInfo } from '../utils/rateLimit';
+
 export type ErrorCategory = 
   | 'network'
   | 'authentication'
@@ -5,6 +7,7 @@ export type ErrorCategory =
   | 'validation'
   | 'game-logic'
   | 'real-time'
+  | 'rate-limit'
   | 'system'
   | 'unknown';
 
@@ -193,6 +196,39 @@ export class ErrorMessageService {
       dismissible: true,
     },
 
+    // Rate limit errors
+    'rate-limit.answer-submission': {
+      title: 'Slow Down',
+      message: 'You\'re submitting answers too quickly.',
+      icon: '⏳',
+      dismissible: true,
+    },
+    'rate-limit.chat-message': {
+      title: 'Too Many Messages',
+      message: 'You\'re sending messages too quickly.',
+      icon: '💬',
+      dismissible: true,
+    },
+    'rate-limit.team-creation': {
+      title: 'Team Limit Reached',
+      message: 'You\'ve created several teams in a short time.',
+      icon: '👥',
+      dismissible: true,
+    },
+    'rate-limit.game-room-creation': {
+      title: 'Room Limit Reached',
+      message: 'You\'ve created several game rooms in a short time.',
+      icon: '🏠',
+      dismissible: true,
+    },
+    'rate-limit.generic': {
+      title: 'Too Many Requests',
+      message: 'You\'re doing that too often.',
+      suggestion: 'Wait a moment and try again.',
+      icon: '⏳',
+      dismissible: true,
+    },
+
     // System errors
     'system.maintenance': {
       title: 'Maintenance Mode',
@@ -371,6 +407,12 @@ export class ErrorMessageService {
       return 'realtime.connection-failed';
     }
 
+    // Rate limit errors; the action is the limit that was hit
+    if (category === 'rate-limit') {
+      const key = `rate-limit.${(action ?? '').replace(/_/g, '-')}`;
+      return this.templates[key] ? key : 'rate-limit.generic';
+    }
+
     // System errors
     if (category === 'system') {
       if (message.includes('maintenance')) {
@@ -495,6 +537,25 @@ export class ErrorMessageService {
     });
   }
 
+  // Shows a rate limit error with how long to wait. Returns null when the
+  // error isn't a rate limit so callers can handle it another way.
+  showRateLimitError(error: unknown, gameId?: string): string | null {
+    const info = getRateLimitInfo(error);
+    if (!info) {
+      return null;
+    }
+    return this.showError(info.message, {
+      category: 'rate-limit',
+      severity: 'warning',
+      action: info.action,
+      gameId,
+      metadata: { retryAfterSeconds: info.retryAfterSeconds },
+    }, {
+      suggestion: `Try again in ${formatRetryAfter(info.retryAfterSeconds)}.`,
+      autoHide: Math.min(info.retryAfterSeconds * 1000, 15000),
+    });
+  }
+
   showSystemError(error: Error | string): string {
     return this.showError(error, {
       category: 'system',
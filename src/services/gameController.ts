@@ -4,11 +4,11 @@ import { ScoreManager } from './scoreManager';
 import { SpecialRoundManager } from './specialRoundManager';
 import { AnswerSubmissionManager } from './answerSubmissionManager';
 import { GameTimer } from './gameTimer';
+import { QUESTION_TIMER_ID, UNDOABLE_FIELDS } from './gameReducer';
 import type {
   GameControllerState,
   GameControllerOptions,
   GameControllerEvent,
-  GameControllerEventType,
   GameControllerEventListener,
   GameProgressionPhase,
   GameProgressionState,
@@ -24,11 +24,12 @@ import type {
   PhaseValidationContext,
   PhaseHandler,
   PhaseHandlerRegistry,
-  GameFlowConfiguration
+  GameFlowConfiguration,
+  GameFlowSnapshot
 } from '../types/gameController';
-import type { GameState, GamePhase, Round, Question } from '../types/game';
+import type { GameState, GamePhase, Round, Question, GameCheckpoint, PointValue } from '../types/game';
 import type { SpecialRoundType } from '../types/specialRounds';
-import { GameProgressionPhase } from '../types/gameController';
+import { GameProgressionPhase, GameControllerEventType } from '../types/gameController';
 
 export class GameController {
   private gameStateManager: GameStateManager;
@@ -138,6 +139,12 @@ export class GameController {
   }
 
   private setupEventListeners(): void {
+    // Special rounds set up wagers and progress for every team in the game
+    this.syncParticipants();
+    this.gameStateManager.addStateListener((update) => {
+      if (update.data.teams) this.syncParticipants();
+    });
+
     // Listen to game state changes
     this.gameStateManager.addEventListener('phase_changed', (event) => {
       this.handleGamePhaseChange(event.data?.phase);
@@ -167,6 +174,10 @@ export class GameController {
     });
   }
 
+  private syncParticipants(): void {
+    this.roundManager.setParticipants(Object.keys(this.gameStateManager.getState().teams));
+  }
+
   private setupPhaseHandlers(): void {
     // Initialize phase handlers for each game progression phase
     this.phaseHandlers[GameProgressionPhase.INITIALIZATION] = {
@@ -358,6 +369,155 @@ export class GameController {
     }
   }
 
+  /**
+   * Pick up a game from its last checkpoint, e.g. after the host's browser
+   * crashed. Phase entry handlers are not re-run: the game state they would
+   * set up has already been rebuilt from the game log.
+   */
+  public restoreFromCheckpoint(checkpoint: GameCheckpoint): void {
+    if (this.state.isInitialized) {
+      throw new Error('Game controller is already initialized');
+    }
+
+    const phase = Object.values(GameProgressionPhase).includes(checkpoint.controllerPhase as GameProgressionPhase)
+      ? checkpoint.controllerPhase as GameProgressionPhase
+      : GameProgressionPhase.PRE_GAME;
+    const now = new Date();
+
+    this.state.isInitialized = true;
+    this.state.isActive = !checkpoint.state.isComplete;
+    this.state.progression.previousPhase = this.state.progression.currentPhase;
+    this.state.progression.currentPhase = phase;
+    this.state.progression.phaseStartTime = now;
+    this.state.roundProgression.currentRoundIndex = Math.max(0, checkpoint.roundNumber - 1);
+    this.state.roundProgression.roundsCompleted = checkpoint.state.completedRounds;
+    this.state.roundProgression.roundsRemaining = Math.max(
+      0,
+      this.state.roundProgression.totalRounds - checkpoint.state.completedRounds
+    );
+    this.state.questionProgression.currentQuestionIndex = Math.max(
+      0,
+      (checkpoint.state.currentQuestion?.questionNumber ?? 1) - 1
+    );
+    this.state.questionProgression.questionsAnswered = checkpoint.state.answeredQuestions;
+    this.state.pauseResume.isPaused = checkpoint.isPaused;
+    this.state.pauseResume.pauseStartTime = checkpoint.isPaused ? now : undefined;
+
+    this.restoreManagers(checkpoint);
+
+    this.emitEvent(GameControllerEventType.PHASE_TRANSITION_COMPLETED, {
+      phase,
+      data: { resumed: true, sequence: checkpoint.sequence }
+    });
+  }
+
+  // Rounds, standings and the question timer pick up from the checkpoint
+  private restoreManagers(checkpoint: GameCheckpoint): void {
+    const state = this.gameStateManager.getState();
+
+    if (state.rounds.length > 0) {
+      const pointUsage: Record<string, Record<number, PointValue[]>> = {};
+      for (const [roundNumber, participants] of Object.entries(state.usedPointValues)) {
+        for (const [participantId, points] of Object.entries(participants)) {
+          pointUsage[participantId] = { ...pointUsage[participantId], [roundNumber]: points };
+        }
+      }
+      this.roundManager.importState({
+        rounds: state.rounds,
+        currentRoundIndex: Math.max(0, state.rounds.findIndex(round => round.number === state.currentRound)),
+        pointUsage,
+        roundStartTimes: {},
+        roundEndTimes: {}
+      });
+      this.syncParticipants();
+    }
+
+    this.scoreManager.restoreStandings(state.players, state.teams);
+
+    const timer = state.timers[QUESTION_TIMER_ID];
+    if (timer?.isActive && checkpoint.timerRemaining !== undefined) {
+      this.resumeTimer(checkpoint.timerRemaining, timer.duration, checkpoint.isPaused);
+    }
+  }
+
+  // Run the question timer on from the time it had left
+  private resumeTimer(remaining: number, duration: number, isPaused: boolean): void {
+    const at = this.now();
+    this.gameTimer.syncTo({
+      startedAt: at - (duration - remaining) * 1000,
+      duration,
+      pausedAt: isPaused ? at : null
+    });
+  }
+
+  private now(): number {
+    return (this.gameTimer.getConfiguration().clock ?? Date.now)();
+  }
+
+  public getFlowSnapshot(): GameFlowSnapshot {
+    const gameState = this.gameStateManager.getState();
+    const timer = this.gameTimer.getState();
+
+    return structuredClone({
+      progression: this.state.progression,
+      questionProgression: this.state.questionProgression,
+      roundProgression: this.state.roundProgression,
+      gameState: Object.fromEntries(UNDOABLE_FIELDS.map(field => [field, gameState[field]])),
+      submissions: this.answerSubmissionManager.exportState(),
+      scores: this.scoreManager.exportState(),
+      timer: timer.isRunning
+        ? { remaining: timer.timeRemaining, duration: timer.totalDuration, isPaused: timer.isPaused }
+        : null,
+      sequence: this.gameStateManager.getLog().length,
+      takenAt: new Date(this.now()).toISOString()
+    });
+  }
+
+  /**
+   * Put the game back where a snapshot left it, e.g. when the host undoes a
+   * mis-tapped advance: locked submissions reopen, scores from the question
+   * are taken back, the reveal is withdrawn and a stopped timer runs on with
+   * the time it had. Like a checkpoint restore, phase handlers are not re-run.
+   */
+  public async restoreFlow(snapshot: GameFlowSnapshot): Promise<void> {
+    if (this.state.progression.isTransitioning) {
+      throw new Error('Cannot undo while the game is changing phase');
+    }
+
+    const restored = structuredClone(snapshot);
+    // Only rewind the game state if the advance changed it
+    if (this.gameStateManager.getLog().length !== restored.sequence) {
+      await this.gameStateManager.executeAction({
+        type: 'undo-action',
+        gameId: this.gameStateManager.getState().id,
+        timestamp: new Date(this.now()).toISOString(),
+        payload: { restore: restored.gameState, undoneAt: restored.takenAt, sequence: restored.sequence }
+      });
+    }
+
+    this.answerSubmissionManager.importState(restored.submissions);
+    this.scoreManager.importState(restored.scores);
+    if (restored.timer) {
+      this.resumeTimer(restored.timer.remaining, restored.timer.duration, restored.timer.isPaused);
+    } else {
+      this.gameTimer.stop();
+    }
+
+    this.state.progression = {
+      ...restored.progression,
+      previousPhase: this.state.progression.currentPhase,
+      phaseStartTime: new Date(),
+      isTransitioning: false
+    };
+    this.state.questionProgression = restored.questionProgression;
+    this.state.roundProgression = restored.roundProgression;
+
+    this.emitEvent(GameControllerEventType.PHASE_TRANSITION_COMPLETED, {
+      phase: restored.progression.currentPhase,
+      data: { undone: true }
+    });
+  }
+
   public async startGame(): Promise<void> {
     if (!this.state.isInitialized) {
       throw new Error('Game controller must be initialized before starting');
@@ -474,8 +634,7 @@ export class GameController {
         throw new Error(`No handler found for phase: ${this.state.progression.currentPhase}`);
       }
 
-      const context = this.createValidationContext(this.state.progression.currentPhase);
-      const nextPhase = currentHandler.getNextPhase(context);
+      const nextPhase = this.getNextPhase();
 
       if (!nextPhase) {
         throw new Error(`No next phase defined for: ${this.state.progression.currentPhase}`);
@@ -493,6 +652,12 @@ export class GameController {
     }
   }
 
+  // The phase advancing would move to, e.g. to name the host's action
+  public getNextPhase(): GameProgressionPhase | null {
+    const handler = this.phaseHandlers[this.state.progression.currentPhase];
+    return handler?.getNextPhase(this.createValidationContext(this.state.progression.currentPhase)) ?? null;
+  }
+
   public async skipQuestion(): Promise<void> {
     if (!this.options.configuration.allowSkipQuestions) {
       throw new Error('Question skipping is not allowed');
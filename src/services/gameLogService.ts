@@ -0,0 +1,118 @@
+import { supabase } from '../lib/supabase';
+import type { GameLog, GameLogEntry, GameState } from '../types/game';
+
+// Where a game's action log is kept. The Supabase store is used for real
+// games; the memory store backs tests and offline practice games.
+export interface GameLogStore {
+  createLog(gameId: string, initialState: GameState): Promise<void>;
+  appendEntries(entries: GameLogEntry[]): Promise<void>;
+  loadLog(gameId: string): Promise<GameLog | null>;
+}
+
+export class GameLogService {
+  // Record the state a game starts from; actions are replayed on top of it
+  static async createLog(gameId: string, initialState: GameState): Promise<void> {
+    const { error } = await supabase
+      .from('game_logs')
+      .insert({ game_id: gameId, initial_state: initialState });
+
+    if (error) {
+      throw new Error(`Failed to create game log: ${error.message}`);
+    }
+  }
+
+  // Append accepted actions; the (game_id, sequence) key rejects duplicates
+  static async appendEntries(entries: GameLogEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const { error } = await supabase
+      .from('game_log_actions')
+      .insert(entries.map(entry => ({
+        game_id: entry.gameId,
+        sequence: entry.sequence,
+        action_type: entry.action.type,
+        action: entry.action,
+        ...(entry.action.actorId ? { actor_id: entry.action.actorId } : {}),
+        recorded_at: entry.recordedAt
+      })));
+
+    if (error) {
+      throw new Error(`Failed to append game actions: ${error.message}`);
+    }
+  }
+
+  // Load a game's starting state and every action, in order
+  static async loadLog(gameId: string): Promise<GameLog | null> {
+    const { data: log, error: logError } = await supabase
+      .from('game_logs')
+      .select('game_id, initial_state')
+      .eq('game_id', gameId)
+      .maybeSingle();
+
+    if (logError) {
+      throw new Error(`Failed to load game log: ${logError.message}`);
+    }
+    if (!log) return null;
+
+    const { data: actions, error: actionsError } = await supabase
+      .from('game_log_actions')
+      .select('game_id, sequence, action, recorded_at')
+      .eq('game_id', gameId)
+      .order('sequence', { ascending: true });
+
+    if (actionsError) {
+      throw new Error(`Failed to load game actions: ${actionsError.message}`);
+    }
+
+    return {
+      gameId: log.game_id,
+      initialState: log.initial_state as GameState,
+      entries: (actions || []).map(row => ({
+        gameId: row.game_id,
+        sequence: row.sequence,
+        action: row.action,
+        recordedAt: row.recorded_at
+      }))
+    };
+  }
+}
+
+export const supabaseGameLogStore: GameLogStore = {
+  createLog: (gameId, initialState) => GameLogService.createLog(gameId, initialState),
+  appendEntries: entries => GameLogService.appendEntries(entries),
+  loadLog: gameId => GameLogService.loadLog(gameId)
+};
+
+/**
+ * In-memory log store, for tests and games that are never persisted
+ */
+export function createMemoryGameLogStore(): GameLogStore {
+  const logs = new Map<string, GameLog>();
+
+  return {
+    async createLog(gameId, initialState) {
+      if (logs.has(gameId)) {
+        throw new Error(`Failed to create game log: ${gameId} already has a log`);
+      }
+      logs.set(gameId, { gameId, initialState, entries: [] });
+    },
+
+    async appendEntries(entries) {
+      for (const entry of entries) {
+        const log = logs.get(entry.gameId);
+        if (!log) {
+          throw new Error(`Failed to append game actions: no log for ${entry.gameId}`);
+        }
+        if (log.entries.some(existing => existing.sequence === entry.sequence)) {
+          throw new Error(`Failed to append game actions: action ${entry.sequence} already recorded`);
+        }
+        log.entries.push(entry);
+      }
+    },
+
+    async loadLog(gameId) {
+      const log = logs.get(gameId);
+      return log ? { ...log, entries: [...log.entries].sort((a, b) => a.sequence - b.sequence) } : null;
+    }
+  };
+}
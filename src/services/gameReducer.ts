@@ -0,0 +1,995 @@
+import type {
+  GameState,
+  GameAction,
+  GameEvent,
+  GameLogEntry,
+  GameTimer,
+  ActiveQuestion,
+  PlayerAnswer,
+  PlayerScore,
+  TeamScore,
+  PointValue,
+  Round
+} from '../types/game';
+import { isValidPointValue } from '../types/game';
+import { answerMatcher } from './answerMatcher';
+
+// Pure game reducer. Every state change is derived from the previous state
+// and a single action, so a game can be rebuilt or replayed from its log.
+// Reducers never read the clock: all times come from the action timestamp.
+
+export interface GameReduction {
+  state: GameState;
+  events: GameEvent[];
+}
+
+export interface GameReplayStep {
+  entry: GameLogEntry;
+  state: GameState;
+  events: GameEvent[];
+}
+
+type EmitEvent = (type: GameEvent['type'], fields?: Partial<GameEvent>) => void;
+type ActionHandler = (state: GameState, action: GameAction, emit: EmitEvent) => GameState;
+
+export const QUESTION_TIMER_ID = 'question';
+const TIMER_WARNING_SECONDS = 10;
+// Answers arriving this long after the question timer runs out still count
+export const DEFAULT_ANSWER_GRACE_SECONDS = 1;
+
+// Actions the host can still take while the game is paused
+const PAUSE_SAFE_ACTIONS: GameAction['type'][] = [
+  'pause-game',
+  'resume-game',
+  'end-game',
+  'add-player',
+  'remove-player',
+  'form-team',
+  'update-settings',
+  'transfer-host'
+];
+
+// Participants are scored as a team when they answer for one
+const submitterOf = (submission: PlayerAnswer): string =>
+  submission.teamId ?? submission.playerId;
+
+const emptyBreakdown = (): Record<PointValue, number> => ({ 1: 0, 2: 0, 3: 0, 4: 0, 5: 0, 6: 0 });
+
+function createPlayerScore(playerId: string, teamId?: string): PlayerScore {
+  return {
+    playerId,
+    teamId,
+    totalPoints: 0,
+    roundScores: {},
+    correctAnswers: 0,
+    totalAnswers: 0,
+    averageResponseTime: 0,
+    pointsBreakdown: emptyBreakdown()
+  };
+}
+
+function createTeamScore(teamId: string, memberScores: Record<string, PlayerScore>): TeamScore {
+  return {
+    teamId,
+    totalPoints: 0,
+    roundScores: {},
+    memberScores,
+    correctAnswers: 0,
+    totalAnswers: 0,
+    averageResponseTime: 0,
+    pointsBreakdown: emptyBreakdown()
+  };
+}
+
+function applyAnswer<T extends PlayerScore | TeamScore>(
+  score: T,
+  submission: PlayerAnswer,
+  roundNumber: number
+): T {
+  const points = submission.pointsEarned ?? 0;
+  const totalAnswers = score.totalAnswers + 1;
+
+  return {
+    ...score,
+    totalPoints: score.totalPoints + points,
+    roundScores: {
+      ...score.roundScores,
+      [roundNumber]: (score.roundScores[roundNumber] ?? 0) + points
+    },
+    correctAnswers: score.correctAnswers + (submission.isCorrect ? 1 : 0),
+    totalAnswers,
+    averageResponseTime:
+      (score.averageResponseTime * score.totalAnswers + (submission.responseTime ?? 0)) / totalAnswers,
+    pointsBreakdown: {
+      ...score.pointsBreakdown,
+      [submission.pointValue]: (score.pointsBreakdown[submission.pointValue] ?? 0) + points
+    }
+  };
+}
+
+// Move a score by the change in one answer's grading after the fact
+function regradeAnswer<T extends PlayerScore | TeamScore>(
+  score: T,
+  previous: PlayerAnswer,
+  judged: PlayerAnswer,
+  roundNumber: number
+): T {
+  const delta = (judged.pointsEarned ?? 0) - (previous.pointsEarned ?? 0);
+
+  return {
+    ...score,
+    totalPoints: score.totalPoints + delta,
+    roundScores: {
+      ...score.roundScores,
+      [roundNumber]: (score.roundScores[roundNumber] ?? 0) + delta
+    },
+    correctAnswers: score.correctAnswers + (judged.isCorrect ? 1 : 0) - (previous.isCorrect ? 1 : 0),
+    pointsBreakdown: {
+      ...score.pointsBreakdown,
+      [judged.pointValue]: (score.pointsBreakdown[judged.pointValue] ?? 0) + delta
+    }
+  };
+}
+
+function requireActive(state: GameState): void {
+  if (!state.isActive) {
+    throw new Error('Game is not active');
+  }
+}
+
+function requireRound(state: GameState): Round {
+  const round = state.rounds[state.currentRound - 1];
+  if (!round) {
+    throw new Error('No round in progress');
+  }
+  return round;
+}
+
+function requireQuestion(state: GameState, phases: GameState['phase'][], message: string): ActiveQuestion {
+  if (!state.currentQuestion || !phases.includes(state.phase)) {
+    throw new Error(message);
+  }
+  return state.currentQuestion;
+}
+
+function presentedQuestionIds(state: GameState, roundNumber: number): string[] {
+  return state.events
+    .filter(event => event.type === 'question-presented' && event.roundNumber === roundNumber)
+    .map(event => event.questionId as string);
+}
+
+function updateRound(rounds: Round[], roundNumber: number, updates: Partial<Round>): Round[] {
+  return rounds.map(round => (round.number === roundNumber ? { ...round, ...updates } : round));
+}
+
+/**
+ * Seconds left on a timer at the given moment. Running timers count down
+ * from when their remaining time was last measured.
+ */
+export function getTimerRemaining(timer: GameTimer, at: string): number {
+  if (!timer.isActive || timer.isPaused || !timer.syncedAt) {
+    return timer.remaining;
+  }
+  const elapsed = Math.max(0, Date.parse(at) - Date.parse(timer.syncedAt)) / 1000;
+  return Math.max(0, timer.remaining - elapsed);
+}
+
+/**
+ * When a running or expired timer runs out, in ms. Null while paused, or
+ * for a timer stopped early by the host.
+ */
+export function getTimerDeadline(timer: GameTimer): number | null {
+  if (timer.isPaused || !timer.syncedAt) return null;
+  if (!timer.isActive && timer.remaining > 0) return null;
+  return Date.parse(timer.syncedAt) + timer.remaining * 1000;
+}
+
+function stopTimer(timers: Record<string, GameTimer>, timerId: string, timestamp: string): Record<string, GameTimer> {
+  const timer = timers[timerId];
+  if (!timer || !timer.isActive) return timers;
+  return {
+    ...timers,
+    [timerId]: {
+      ...timer,
+      remaining: getTimerRemaining(timer, timestamp),
+      isActive: false,
+      isPaused: false,
+      endedAt: timestamp,
+      syncedAt: timestamp
+    }
+  };
+}
+
+function stopAllTimers(timers: Record<string, GameTimer>, timestamp: string): Record<string, GameTimer> {
+  return Object.keys(timers).reduce((result, timerId) => stopTimer(result, timerId, timestamp), timers);
+}
+
+function completeRound(state: GameState, timestamp: string, emit: EmitEvent): GameState {
+  emit('round-ended', { roundNumber: state.currentRound });
+
+  return {
+    ...state,
+    phase: 'round-complete',
+    currentQuestion: undefined,
+    rounds: updateRound(state.rounds, state.currentRound, { isComplete: true, completedAt: timestamp }),
+    completedRounds: state.completedRounds + 1,
+    timers: stopAllTimers(state.timers, timestamp)
+  };
+}
+
+// Move on from the current question: pick another or close out the round
+function finishQuestion(state: GameState, timestamp: string, emit: EmitEvent): GameState {
+  const round = requireRound(state);
+  const presented = presentedQuestionIds(state, round.number).length;
+  const limit = Math.min(round.maxQuestions ?? round.questions.length, round.questions.length);
+
+  if (presented < limit) {
+    return { ...state, phase: 'question-selection', currentQuestion: undefined };
+  }
+  return completeRound(state, timestamp, emit);
+}
+
+// Game lifecycle
+const startGame: ActionHandler = (state, action, emit) => {
+  if (state.phase !== 'pre-game') {
+    throw new Error('Game can only be started from pre-game phase');
+  }
+  if (Object.keys(state.players).length === 0 && Object.keys(state.teams).length === 0) {
+    throw new Error('Cannot start game without players or teams');
+  }
+  if (state.rounds.length === 0) {
+    throw new Error('Cannot start game without rounds');
+  }
+
+  emit('game-started');
+  return {
+    ...state,
+    phase: 'round-intro',
+    isActive: true,
+    startedAt: action.timestamp,
+    currentRound: 1
+  };
+};
+
+const pauseGame: ActionHandler = (state, action, emit) => {
+  if (!state.isActive || state.isPaused) {
+    throw new Error('Game is not active or already paused');
+  }
+
+  const timers = Object.fromEntries(
+    Object.entries(state.timers).map(([id, timer]) => [
+      id,
+      timer.isActive && !timer.isPaused
+        ? {
+            ...timer,
+            remaining: getTimerRemaining(timer, action.timestamp),
+            isPaused: true,
+            pausedAt: action.timestamp,
+            syncedAt: action.timestamp
+          }
+        : timer
+    ])
+  );
+
+  emit('game-paused');
+  return { ...state, isPaused: true, pausedAt: action.timestamp, timers };
+};
+
+const resumeGame: ActionHandler = (state, action, emit) => {
+  if (!state.isPaused) {
+    throw new Error('Game is not paused');
+  }
+
+  const timers = Object.fromEntries(
+    Object.entries(state.timers).map(([id, timer]) => [
+      id,
+      timer.isPaused ? { ...timer, isPaused: false, pausedAt: undefined, syncedAt: action.timestamp } : timer
+    ])
+  );
+  const pausedFor = state.pausedAt ? Date.parse(action.timestamp) - Date.parse(state.pausedAt) : 0;
+
+  emit('game-resumed', { data: { pausedFor } });
+  return { ...state, isPaused: false, resumedAt: action.timestamp, timers };
+};
+
+const endGame: ActionHandler = (state, action, emit) => {
+  if (state.isComplete) {
+    throw new Error('Game is already complete');
+  }
+
+  emit('game-ended');
+  return {
+    ...state,
+    phase: 'game-complete',
+    isActive: false,
+    isPaused: false,
+    isComplete: true,
+    completedAt: action.timestamp,
+    timers: stopAllTimers(state.timers, action.timestamp)
+  };
+};
+
+// Rounds
+const startRound: ActionHandler = (state, action, emit) => {
+  requireActive(state);
+
+  let roundNumber = state.currentRound;
+  if (state.phase === 'round-complete') {
+    roundNumber += 1;
+  } else if (state.phase !== 'round-intro') {
+    throw new Error(`Cannot start a round during ${state.phase}`);
+  }
+
+  if (!state.rounds[roundNumber - 1]) {
+    throw new Error('No more rounds to play');
+  }
+
+  emit('round-started', { roundNumber });
+  return {
+    ...state,
+    phase: 'question-selection',
+    currentRound: roundNumber,
+    currentQuestion: undefined,
+    rounds: updateRound(state.rounds, roundNumber, { startedAt: action.timestamp })
+  };
+};
+
+const endRound: ActionHandler = (state, action, emit) => {
+  requireActive(state);
+  const round = requireRound(state);
+
+  if (round.isComplete) {
+    throw new Error('No round in progress');
+  }
+  if (state.phase === 'answer-submission' || state.phase === 'answer-review') {
+    throw new Error('Finish or skip the current question before ending the round');
+  }
+
+  return completeRound(state, action.timestamp, emit);
+};
+
+// Questions
+const presentQuestion: ActionHandler = (state, action, emit) => {
+  requireActive(state);
+  if (state.phase !== 'question-selection') {
+    throw new Error('Questions can only be presented during question selection');
+  }
+
+  const round = requireRound(state);
+  const presented = presentedQuestionIds(state, round.number);
+  const questionId: string | undefined = action.payload?.questionId;
+  const question = questionId
+    ? round.questions.find(q => q.id === questionId)
+    : round.questions.find(q => !presented.includes(q.id));
+
+  if (!question) {
+    throw new Error(questionId ? `Question ${questionId} is not in round ${round.number}` : 'No questions left in this round');
+  }
+  if (presented.includes(question.id)) {
+    throw new Error(`Question ${question.id} has already been presented`);
+  }
+
+  const timeLimit = question.timeLimit ?? state.configuration.settings.defaultTimeLimit;
+
+  emit('question-presented', { questionId: question.id, roundNumber: round.number });
+  return {
+    ...state,
+    phase: 'answer-submission',
+    currentQuestion: {
+      question,
+      roundNumber: round.number,
+      questionNumber: presented.length + 1,
+      startedAt: action.timestamp,
+      timeLimit,
+      submissions: [],
+      isLocked: false
+    },
+    timers: {
+      ...state.timers,
+      [QUESTION_TIMER_ID]: {
+        id: QUESTION_TIMER_ID,
+        type: 'question',
+        duration: timeLimit,
+        remaining: timeLimit,
+        isActive: true,
+        isPaused: false,
+        startedAt: action.timestamp,
+        syncedAt: action.timestamp
+      }
+    }
+  };
+};
+
+const submitAnswer: ActionHandler = (state, action, emit) => {
+  requireActive(state);
+
+  // Judged on the host's clock against the question timer's deadline. Once
+  // the timer runs out answers still land during the grace window.
+  const timer = state.timers[QUESTION_TIMER_ID];
+  const deadline = timer ? getTimerDeadline(timer) : null;
+  const graceSeconds = state.configuration.settings.answerGracePeriod ?? DEFAULT_ANSWER_GRACE_SECONDS;
+  const withinGrace = deadline !== null && Date.parse(action.timestamp) <= deadline + graceSeconds * 1000;
+  const expiredInGrace = withinGrace && !!timer && !timer.isActive && state.phase === 'answer-review';
+
+  const current = requireQuestion(
+    state,
+    expiredInGrace ? ['answer-review'] : ['answer-submission'],
+    'Answers are not being accepted right now'
+  );
+  if (deadline !== null && !withinGrace) {
+    throw new Error('Time is up for this question');
+  }
+  if (current.isLocked && !expiredInGrace) {
+    throw new Error('Answers are locked');
+  }
+
+  const payload = action.payload || {};
+  const playerId: string | undefined = payload.playerId ?? action.playerId;
+  const teamId: string | undefined =
+    payload.teamId ?? action.teamId ?? (playerId ? state.players[playerId]?.teamId : undefined);
+
+  if (!playerId && !teamId) {
+    throw new Error('Answer must come from a player or team');
+  }
+  if (playerId && !state.players[playerId]) {
+    throw new Error(`Player ${playerId} is not in this game`);
+  }
+  if (teamId && !state.teams[teamId]) {
+    throw new Error(`Team ${teamId} is not in this game`);
+  }
+
+  const answer = typeof payload.answer === 'string' ? payload.answer.trim() : '';
+  if (!answer) {
+    throw new Error('Answer cannot be empty');
+  }
+
+  const pointValue = Number(payload.pointValue);
+  const round = requireRound(state);
+  if (!isValidPointValue(pointValue)) {
+    throw new Error(`Invalid point value: ${payload.pointValue}`);
+  }
+  if (!round.availablePointValues.includes(pointValue)) {
+    throw new Error(`Point value ${pointValue} is not available in round ${round.number}`);
+  }
+
+  const participantId = (teamId ?? playerId) as string;
+  const previous = current.submissions.find(submission => submitterOf(submission) === participantId);
+  if (previous && !state.configuration.settings.allowAnswerChanges) {
+    throw new Error('Answer already submitted for this question');
+  }
+
+  // Changing an answer frees the point value it was placed on
+  const roundUsed = state.usedPointValues[round.number] ?? {};
+  const used = (roundUsed[participantId] ?? []).filter(value => !previous || value !== previous.pointValue);
+  if (state.configuration.settings.pointSystem === 'last-call' && used.includes(pointValue)) {
+    throw new Error(`Point value ${pointValue} has already been used this round`);
+  }
+
+  const submission: PlayerAnswer = {
+    playerId: (playerId ?? teamId) as string,
+    teamId,
+    questionId: current.question.id,
+    answer,
+    pointValue,
+    submittedAt: action.timestamp,
+    responseTime: Math.max(0, Date.parse(action.timestamp) - Date.parse(current.startedAt))
+  };
+
+  emit('answer-submitted', {
+    playerId,
+    teamId,
+    questionId: current.question.id,
+    roundNumber: round.number,
+    data: { pointValue }
+  });
+
+  return {
+    ...state,
+    currentQuestion: {
+      ...current,
+      submissions: [
+        ...current.submissions.filter(existing => existing !== previous),
+        submission
+      ]
+    },
+    usedPointValues: {
+      ...state.usedPointValues,
+      [round.number]: { ...roundUsed, [participantId]: [...used, pointValue] }
+    }
+  };
+};
+
+const lockAnswers: ActionHandler = (state, action) => {
+  requireActive(state);
+  const current = requireQuestion(state, ['answer-submission'], 'There are no open answers to lock');
+
+  return {
+    ...state,
+    phase: 'answer-review',
+    currentQuestion: { ...current, isLocked: true },
+    timers: stopTimer(state.timers, QUESTION_TIMER_ID, action.timestamp)
+  };
+};
+
+const revealAnswers: ActionHandler = (state, action, emit) => {
+  requireActive(state);
+  const current = requireQuestion(state, ['answer-submission', 'answer-review'], 'There is no question to reveal');
+  const { question } = current;
+
+  // Host rulings (participant id -> correct) override automatic matching
+  const rulings: Record<string, boolean> = action.payload?.rulings ?? {};
+  const graded = current.submissions.map(submission => {
+    const participantId = submitterOf(submission);
+    const isCorrect = participantId in rulings
+      ? Boolean(rulings[participantId])
+      : answerMatcher.isMatch(submission.answer, question.correctAnswer, {
+          alternativeAnswers: question.alternativeAnswers,
+          strictness: question.answerStrictness,
+          answerKind: question.answerKind
+        });
+    return { ...submission, isCorrect, pointsEarned: isCorrect ? submission.pointValue : 0 };
+  });
+
+  const players = { ...state.players };
+  const teams = { ...state.teams };
+  for (const submission of graded) {
+    const player = players[submission.playerId];
+    if (player) {
+      players[submission.playerId] = applyAnswer(player, submission, current.roundNumber);
+    }
+
+    const team = submission.teamId ? teams[submission.teamId] : undefined;
+    if (team && submission.teamId) {
+      const updated = applyAnswer(team, submission, current.roundNumber);
+      teams[submission.teamId] = player
+        ? { ...updated, memberScores: { ...updated.memberScores, [submission.playerId]: players[submission.playerId] } }
+        : updated;
+    }
+  }
+
+  emit('question-ended', {
+    questionId: question.id,
+    roundNumber: current.roundNumber,
+    data: { correctAnswer: question.correctAnswer, correctCount: graded.filter(s => s.isCorrect).length }
+  });
+  graded.forEach(submission =>
+    emit('score-updated', {
+      playerId: submission.playerId,
+      teamId: submission.teamId,
+      questionId: question.id,
+      roundNumber: current.roundNumber,
+      data: { isCorrect: submission.isCorrect, pointsEarned: submission.pointsEarned }
+    })
+  );
+
+  return {
+    ...state,
+    phase: 'scoring',
+    currentQuestion: { ...current, submissions: graded, isLocked: true, revealedAt: action.timestamp },
+    answeredQuestions: state.answeredQuestions + 1,
+    players,
+    teams,
+    timers: stopTimer(state.timers, QUESTION_TIMER_ID, action.timestamp)
+  };
+};
+
+// A host ruling on one revealed answer, e.g. rejecting a lucky match
+const judgeAnswer: ActionHandler = (state, action, emit) => {
+  requireActive(state);
+  const current = requireQuestion(state, ['scoring'], 'Reveal the answers before judging them');
+  const participantId: string | undefined = action.payload?.participantId ?? action.teamId ?? action.playerId;
+  const previous = current.submissions.find(submission => submitterOf(submission) === participantId);
+  if (!previous) {
+    throw new Error('There is no answer to judge');
+  }
+
+  const isCorrect = Boolean(action.payload?.isCorrect);
+  if (previous.isCorrect === isCorrect) {
+    return state;
+  }
+
+  const judged: PlayerAnswer = { ...previous, isCorrect, pointsEarned: isCorrect ? previous.pointValue : 0 };
+  const players = { ...state.players };
+  const teams = { ...state.teams };
+  const player = players[judged.playerId];
+  if (player) {
+    players[judged.playerId] = regradeAnswer(player, previous, judged, current.roundNumber);
+  }
+
+  const team = judged.teamId ? teams[judged.teamId] : undefined;
+  if (team && judged.teamId) {
+    const updated = regradeAnswer(team, previous, judged, current.roundNumber);
+    teams[judged.teamId] = player
+      ? { ...updated, memberScores: { ...updated.memberScores, [judged.playerId]: players[judged.playerId] } }
+      : updated;
+  }
+
+  emit('score-updated', {
+    playerId: judged.playerId,
+    teamId: judged.teamId,
+    questionId: current.question.id,
+    roundNumber: current.roundNumber,
+    data: { isCorrect, pointsEarned: judged.pointsEarned, ruling: true }
+  });
+
+  return {
+    ...state,
+    currentQuestion: {
+      ...current,
+      submissions: current.submissions.map(submission => (submission === previous ? judged : submission))
+    },
+    players,
+    teams
+  };
+};
+
+const advanceQuestion: ActionHandler = (state, action, emit) => {
+  requireActive(state);
+  if (state.phase !== 'scoring') {
+    throw new Error('Reveal the answers before moving on');
+  }
+
+  return finishQuestion(state, action.timestamp, emit);
+};
+
+const skipQuestion: ActionHandler = (state, action, emit) => {
+  requireActive(state);
+  const current = requireQuestion(state, ['answer-submission', 'answer-review'], 'There is no question to skip');
+
+  // Skipped answers are discarded, so their point values can be used again
+  const roundUsed = { ...(state.usedPointValues[current.roundNumber] ?? {}) };
+  for (const submission of current.submissions) {
+    const participantId = submitterOf(submission);
+    const used = [...(roundUsed[participantId] ?? [])];
+    const index = used.indexOf(submission.pointValue);
+    if (index >= 0) used.splice(index, 1);
+    roundUsed[participantId] = used;
+  }
+
+  emit('question-ended', {
+    questionId: current.question.id,
+    roundNumber: current.roundNumber,
+    data: { skipped: true }
+  });
+
+  return finishQuestion(
+    {
+      ...state,
+      usedPointValues: { ...state.usedPointValues, [current.roundNumber]: roundUsed },
+      timers: stopTimer(state.timers, QUESTION_TIMER_ID, action.timestamp)
+    },
+    action.timestamp,
+    emit
+  );
+};
+
+const updateTimer: ActionHandler = (state, action, emit) => {
+  const timerId: string = action.payload?.timerId ?? QUESTION_TIMER_ID;
+  const timer = state.timers[timerId];
+  if (!timer || !timer.isActive) {
+    throw new Error(`Timer ${timerId} is not running`);
+  }
+
+  const requested = Number(action.payload?.remaining);
+  if (!Number.isFinite(requested)) {
+    throw new Error('Timer update needs a remaining time');
+  }
+
+  const remaining = Math.max(0, requested);
+  let updated: GameTimer = { ...timer, remaining, syncedAt: action.timestamp };
+
+  if (timer.remaining > TIMER_WARNING_SECONDS && remaining <= TIMER_WARNING_SECONDS && remaining > 0) {
+    emit('timer-warning', { data: { timerId, remaining } });
+  }
+
+  if (remaining > 0) {
+    return { ...state, timers: { ...state.timers, [timerId]: updated } };
+  }
+
+  updated = { ...updated, isActive: false, endedAt: action.timestamp };
+  emit('timer-expired', { data: { timerId } });
+
+  const next = { ...state, timers: { ...state.timers, [timerId]: updated } };
+
+  // Time is up: close the question to new answers
+  if (timer.type === 'question' && state.phase === 'answer-submission' && state.currentQuestion) {
+    return {
+      ...next,
+      phase: 'answer-review',
+      currentQuestion: { ...state.currentQuestion, isLocked: true }
+    };
+  }
+  return next;
+};
+
+// Participants
+const addPlayer: ActionHandler = (state, action, emit) => {
+  const playerId: string | undefined = action.payload?.playerId ?? action.playerId;
+  const teamId: string | undefined = action.payload?.teamId ?? action.teamId;
+  if (!playerId) {
+    throw new Error('Player id is required');
+  }
+  if (teamId && !state.teams[teamId]) {
+    throw new Error(`Team ${teamId} is not in this game`);
+  }
+
+  const existing = state.players[playerId];
+  if (existing && state.connectedPlayers.includes(playerId)) {
+    throw new Error(`Player ${playerId} is already in the game`);
+  }
+
+  // Returning players keep their scores
+  const player = existing
+    ? { ...existing, teamId: teamId ?? existing.teamId }
+    : createPlayerScore(playerId, teamId);
+  const teams = player.teamId && state.teams[player.teamId]
+    ? {
+        ...state.teams,
+        [player.teamId]: {
+          ...state.teams[player.teamId],
+          memberScores: { ...state.teams[player.teamId].memberScores, [playerId]: player }
+        }
+      }
+    : state.teams;
+
+  emit('player-joined', { playerId, teamId: player.teamId, data: existing ? { rejoined: true } : undefined });
+  return {
+    ...state,
+    players: { ...state.players, [playerId]: player },
+    teams,
+    connectedPlayers: [...state.connectedPlayers, playerId]
+  };
+};
+
+const removePlayer: ActionHandler = (state, action, emit) => {
+  const playerId: string | undefined = action.payload?.playerId ?? action.playerId;
+  if (!playerId || !state.connectedPlayers.includes(playerId)) {
+    throw new Error(`Player ${playerId} is not connected`);
+  }
+
+  emit('player-left', { playerId, teamId: state.players[playerId]?.teamId });
+  return {
+    ...state,
+    connectedPlayers: state.connectedPlayers.filter(id => id !== playerId)
+  };
+};
+
+const formTeam: ActionHandler = (state, action, emit) => {
+  const { settings } = state.configuration;
+  const teamId: string | undefined = action.payload?.teamId ?? action.teamId;
+  const playerIds: string[] = action.payload?.playerIds ?? [];
+
+  if (!settings.allowTeams) {
+    throw new Error('Teams are not enabled for this game');
+  }
+  if (!teamId || playerIds.length === 0) {
+    throw new Error('A team needs an id and at least one player');
+  }
+  if (state.teams[teamId]) {
+    throw new Error(`Team ${teamId} already exists`);
+  }
+  if (Object.keys(state.teams).length >= settings.maxTeams) {
+    throw new Error(`This game allows at most ${settings.maxTeams} teams`);
+  }
+  if (playerIds.length > settings.maxTeamSize) {
+    throw new Error(`Teams can have at most ${settings.maxTeamSize} players`);
+  }
+
+  const players = { ...state.players };
+  const memberScores: Record<string, PlayerScore> = {};
+  for (const playerId of playerIds) {
+    const player = players[playerId];
+    if (!player) {
+      throw new Error(`Player ${playerId} is not in this game`);
+    }
+    if (player.teamId) {
+      throw new Error(`Player ${playerId} is already on team ${player.teamId}`);
+    }
+    players[playerId] = { ...player, teamId };
+    memberScores[playerId] = players[playerId];
+  }
+
+  emit('team-formed', { teamId, data: { playerIds } });
+  return {
+    ...state,
+    players,
+    teams: { ...state.teams, [teamId]: createTeamScore(teamId, memberScores) }
+  };
+};
+
+const updateSettings: ActionHandler = (state, action) => {
+  const updates = action.payload?.settings;
+  if (!updates || typeof updates !== 'object') {
+    throw new Error('Settings update needs settings');
+  }
+
+  const current = state.configuration.settings;
+  const unknown = Object.keys(updates).filter(key => !(key in current));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown settings: ${unknown.join(', ')}`);
+  }
+  if (state.isActive && 'pointSystem' in updates && updates.pointSystem !== current.pointSystem) {
+    throw new Error('The point system cannot change once the game has started');
+  }
+
+  return {
+    ...state,
+    configuration: {
+      ...state.configuration,
+      settings: { ...current, ...updates }
+    }
+  };
+};
+
+// Hosting moves to a co-host, either by hand-off or after the host drops out
+const transferHost: ActionHandler = (state, action, emit) => {
+  const toHostId: string | undefined = action.payload?.toHostId;
+  if (!toHostId) {
+    throw new Error('New host id is required');
+  }
+  if (toHostId === state.hostId) {
+    throw new Error('That user is already hosting this game');
+  }
+
+  emit('host-changed', {
+    data: { fromHostId: state.hostId, toHostId, reason: action.payload?.reason }
+  });
+  return { ...state, hostId: toHostId };
+};
+
+// What undoing a host action may put back. Settings, the host and the
+// event history move on regardless.
+export const UNDOABLE_FIELDS: (keyof GameState)[] = [
+  'phase',
+  'currentRound',
+  'currentQuestion',
+  'rounds',
+  'completedRounds',
+  'answeredQuestions',
+  'players',
+  'teams',
+  'usedPointValues',
+  'timers',
+  'isActive',
+  'isComplete'
+];
+
+// Take back an earlier action by restoring the fields it changed, as
+// captured before it ran. Timers running at the time get back whatever
+// they had left when the action was taken.
+const undoAction: ActionHandler = (state, action, emit) => {
+  const restore: Partial<GameState> | undefined = action.payload?.restore;
+  const undoneAt: string | undefined = action.payload?.undoneAt;
+  if (!restore || !undoneAt) {
+    throw new Error('Undo needs the state from before the action');
+  }
+
+  const next: GameState = { ...state };
+  for (const field of UNDOABLE_FIELDS) {
+    if (field in restore) {
+      Object.assign(next, { [field]: restore[field] });
+    }
+  }
+  if (restore.timers) {
+    next.timers = Object.fromEntries(
+      Object.entries(restore.timers).map(([timerId, timer]) => [
+        timerId,
+        timer.isActive && !timer.isPaused
+          ? { ...timer, remaining: getTimerRemaining(timer, undoneAt), syncedAt: action.timestamp }
+          : timer
+      ])
+    );
+  }
+
+  emit('action-undone', {
+    data: { sequence: action.payload?.sequence, actionType: action.payload?.actionType }
+  });
+  return next;
+};
+
+const ACTION_HANDLERS: Record<GameAction['type'], ActionHandler> = {
+  'start-game': startGame,
+  'pause-game': pauseGame,
+  'resume-game': resumeGame,
+  'end-game': endGame,
+  'start-round': startRound,
+  'end-round': endRound,
+  'present-question': presentQuestion,
+  'submit-answer': submitAnswer,
+  'lock-answers': lockAnswers,
+  'reveal-answers': revealAnswers,
+  'judge-answer': judgeAnswer,
+  'advance-question': advanceQuestion,
+  'skip-question': skipQuestion,
+  'update-timer': updateTimer,
+  'add-player': addPlayer,
+  'remove-player': removePlayer,
+  'form-team': formTeam,
+  'update-settings': updateSettings,
+  'transfer-host': transferHost,
+  'undo-action': undoAction
+};
+
+// ACTION_HANDLERS covers every action type, so only actions from outside the
+// type system, such as a log written by another version, fail this
+function isKnownAction(action: GameAction): action is GameAction {
+  return Object.prototype.hasOwnProperty.call(ACTION_HANDLERS, action.type);
+}
+
+function unknownAction(action: never): never {
+  throw new Error(`Unknown action type: ${(action as { type: unknown }).type}`);
+}
+
+/**
+ * Apply one action to a game state. Throws when the action is not allowed,
+ * leaving the given state untouched.
+ */
+export function reduceGameState(state: GameState, action: GameAction): GameReduction {
+  if (!isKnownAction(action)) {
+    return unknownAction(action);
+  }
+  const handler = ACTION_HANDLERS[action.type];
+  if (state.isPaused && !PAUSE_SAFE_ACTIONS.includes(action.type)) {
+    throw new Error('Game is paused');
+  }
+
+  const events: GameEvent[] = [];
+  const emit: EmitEvent = (type, fields = {}) => {
+    events.push({
+      id: `${state.id}-event-${state.events.length + events.length + 1}`,
+      type,
+      gameId: state.id,
+      timestamp: action.timestamp,
+      ...(action.actorId ? { actorId: action.actorId } : {}),
+      ...fields
+    });
+  };
+
+  const next = handler(state, action, emit);
+
+  return {
+    state: {
+      ...next,
+      events: events.length > 0 ? [...state.events, ...events] : state.events,
+      lastUpdated: action.timestamp
+    },
+    events
+  };
+}
+
+/**
+ * Replay a game log one action at a time, returning the state after each
+ * action. Used to walk through a finished game when settling disputes.
+ */
+export function replayGameLogSteps(initialState: GameState, entries: GameLogEntry[]): GameReplayStep[] {
+  const ordered = [...entries].sort((a, b) => a.sequence - b.sequence);
+  const steps: GameReplayStep[] = [];
+  let state = initialState;
+
+  ordered.forEach((entry, index) => {
+    if (entry.sequence !== index + 1) {
+      throw new Error(`Game log is missing action ${index + 1}`);
+    }
+    const reduction = reduceGameState(state, entry.action);
+    state = reduction.state;
+    steps.push({ entry, state, events: reduction.events });
+  });
+
+  return steps;
+}
+
+/**
+ * Rebuild the game state from its log, optionally stopping after a given
+ * sequence number
+ */
+export function replayGameLog(
+  initialState: GameState,
+  entries: GameLogEntry[],
+  toSequence: number = Infinity
+): GameState {
+  const steps = replayGameLogSteps(
+    initialState,
+    entries.filter(entry => entry.sequence <= toSequence)
+  );
+  return steps.length > 0 ? steps[steps.length - 1].state : initialState;
+}
@@ -4,6 +4,7 @@ import type {
   GameAction, 
   GameEvent, 
   GameStateUpdate,
+  GameLogEntry,
   ActiveQuestion,
   PlayerScore,
   TeamScore,
@@ -12,19 +13,87 @@ import type {
 import { 
   isValidGamePhase 
 } from '../types/game';
+import { reduceGameState, replayGameLog, replayGameLogSteps } from './gameReducer';
+import type { GameReplayStep } from './gameReducer';
+import type { GameLogStore } from './gameLogService';
 
 export type GameStateListener = (update: GameStateUpdate) => void;
 export type GameEventListener = (event: GameEvent) => void;
+// Told when accepted actions could not be saved to the game log
+export type GameLogErrorListener = (error: Error) => void;
+
+export interface GameStateManagerOptions {
+  // Persists every accepted action; without one the log only lives in memory
+  logStore?: GameLogStore;
+  // Actions already recorded for this game, replayed on top of the initial state
+  log?: GameLogEntry[];
+  // Account taking actions through this manager, stamped on actions that name no actor
+  actorId?: string;
+}
+
+// How each action is announced to state listeners
+const UPDATE_TYPES: Record<GameAction['type'], GameStateUpdate['type']> = {
+  'start-game': 'phase-change',
+  'pause-game': 'phase-change',
+  'resume-game': 'phase-change',
+  'end-game': 'phase-change',
+  'start-round': 'round-change',
+  'end-round': 'round-change',
+  'present-question': 'question-change',
+  'lock-answers': 'question-change',
+  'advance-question': 'question-change',
+  'skip-question': 'question-change',
+  'reveal-answers': 'score-update',
+  'judge-answer': 'score-update',
+  'submit-answer': 'player-action',
+  'add-player': 'player-action',
+  'remove-player': 'player-action',
+  'form-team': 'player-action',
+  'update-timer': 'timer-update',
+  'update-settings': 'game-event',
+  'transfer-host': 'game-event',
+  'undo-action': 'game-event'
+};
 
 export class GameStateManager {
+  private initialState: GameState;
   private state: GameState;
+  private log: GameLogEntry[] = [];
+  private logStore?: GameLogStore;
+  private logCreated = false;
+  private actorId?: string;
+  private pendingEntries: GameLogEntry[] = [];
+  private persistence: Promise<void> = Promise.resolve();
   private stateListeners: Set<GameStateListener> = new Set();
   private eventListeners: Set<GameEventListener> = new Set();
+  private logErrorListeners: Set<GameLogErrorListener> = new Set();
   private timers: Map<string, NodeJS.Timeout> = new Map();
 
-  constructor(initialState: GameState) {
+  constructor(initialState: GameState, options: GameStateManagerOptions = {}) {
+    this.initialState = { ...initialState };
     this.state = { ...initialState };
-    this.validateState();
+    this.validateState(this.state);
+
+    this.logStore = options.logStore;
+    this.actorId = options.actorId;
+    if (options.log) {
+      // Rebuilding an existing game: its log is already stored
+      this.logCreated = true;
+      this.log = [...options.log].sort((a, b) => a.sequence - b.sequence);
+      this.state = replayGameLog(this.initialState, this.log);
+      this.validateState(this.state);
+    }
+  }
+
+  /**
+   * Rebuild a game from its persisted log, e.g. after the host tab crashed
+   */
+  static async restore(gameId: string, logStore: GameLogStore, actorId?: string): Promise<GameStateManager> {
+    const log = await logStore.loadLog(gameId);
+    if (!log) {
+      throw new Error(`No game log found for ${gameId}`);
+    }
+    return new GameStateManager(log.initialState, { logStore, log: log.entries, actorId });
   }
 
   // State access methods
@@ -52,6 +121,25 @@ export class GameStateManager {
     return this.state.teams[teamId];
   }
 
+  // Game log access
+  getLog(): readonly GameLogEntry[] {
+    return [...this.log];
+  }
+
+  getInitialState(): Readonly<GameState> {
+    return { ...this.initialState };
+  }
+
+  // State as it was right after the given action was applied
+  getStateAt(sequence: number): GameState {
+    return replayGameLog(this.initialState, this.log, sequence);
+  }
+
+  // Every action with the state it produced, for walking through a game
+  replay(): GameReplayStep[] {
+    return replayGameLogSteps(this.initialState, this.log);
+  }
+
   // Event listeners
   addStateListener(listener: GameStateListener): () => void {
     this.stateListeners.add(listener);
@@ -63,66 +151,48 @@ export class GameStateManager {
     return () => this.eventListeners.delete(listener);
   }
 
+  addLogErrorListener(listener: GameLogErrorListener): () => void {
+    this.logErrorListeners.add(listener);
+    return () => this.logErrorListeners.delete(listener);
+  }
+
+  // Attribute later actions to another account, e.g. after a host hand-off
+  setActor(actorId: string | undefined): void {
+    this.actorId = actorId;
+  }
+
   // Core game actions
   async executeAction(action: GameAction): Promise<void> {
+    if (!action.actorId && this.actorId) {
+      action = { ...action, actorId: this.actorId };
+    }
+
     try {
       await this.validateAction(action);
-      
-      switch (action.type) {
-        case 'start-game':
-          await this.startGame(action);
-          break;
-        case 'pause-game':
-          await this.pauseGame(action);
-          break;
-        case 'resume-game':
-          await this.resumeGame(action);
-          break;
-        case 'end-game':
-          await this.endGame(action);
-          break;
-        case 'start-round':
-          await this.startRound(action);
-          break;
-        case 'end-round':
-          await this.endRound(action);
-          break;
-        case 'present-question':
-          await this.presentQuestion(action);
-          break;
-        case 'submit-answer':
-          await this.submitAnswer(action);
-          break;
-        case 'lock-answers':
-          await this.lockAnswers(action);
-          break;
-        case 'reveal-answers':
-          await this.revealAnswers(action);
-          break;
-        case 'advance-question':
-          await this.advanceQuestion(action);
-          break;
-        case 'skip-question':
-          await this.skipQuestion(action);
-          break;
-        case 'update-timer':
-          await this.updateTimer(action);
-          break;
-        case 'add-player':
-          await this.addPlayer(action);
-          break;
-        case 'remove-player':
-          await this.removePlayer(action);
-          break;
-        case 'form-team':
-          await this.formTeam(action);
-          break;
-        case 'update-settings':
-          await this.updateSettings(action);
-          break;
-        default:
-          throw new Error(`Unknown action type: ${(action as any).type}`);
-      }
+
+      const previous = this.state;
+      const { state, events } = reduceGameState(previous, action);
+      this.validateState(state);
+
+      const entry: GameLogEntry = {
+        gameId: previous.id,
+        sequence: this.log.length + 1,
+        action,
+        recordedAt: new Date().toISOString()
+      };
+      this.log.push(entry);
+      this.pendingEntries.push(entry);
+      this.state = state;
+
+      this.emitStateUpdate({
+        type: UPDATE_TYPES[action.type],
+        gameId: state.id,
+        data: this.diffState(previous, state),
+        timestamp: action.timestamp
+      });
+      events.forEach(event => this.emitEvent(event));
+
+      this.scheduleFollowUp(action);
     } catch (error) {
       console.error('Error executing game action:', error);
       this.emitEvent({
@@ -134,103 +204,66 @@ export class GameStateManager {
       });
       throw error;
     }
-  }
 
-  // Game lifecycle methods
-  private async startGame(_action: GameAction): Promise<void> {
-    if (this.state.phase !== 'pre-game') {
-      throw new Error('Game can only be started from pre-game phase');
-    }
-
-    if (Object.keys(this.state.players).length === 0 && Object.keys(this.state.teams).length === 0) {
-      throw new Error('Cannot start game without players or teams');
-    }
-
-    const updates: Partial<GameState> = {
-      phase: 'round-intro',
-      isActive: true,
-      startedAt: new Date().toISOString(),
-      currentRound: 1,
-      lastUpdated: new Date().toISOString()
-    };
-
-    this.updateState(updates);
-    
-    this.emitEvent({
-      id: this.generateId(),
-      type: 'game-started',
-      gameId: this.state.id,
-      timestamp: new Date().toISOString()
-    });
-
-    // Auto-advance to first round if configured
-    if (this.state.configuration.settings.autoAdvance) {
-      setTimeout(() => {
-        this.executeAction({
-          type: 'start-round',
-          gameId: this.state.id,
-          timestamp: new Date().toISOString()
-        });
-      }, 3000);
+    // The action has taken effect and gone out to listeners, so a failed save
+    // doesn't fail it; retrying would apply it twice. The failure is reported
+    // instead and the unsaved entries go out with the next flush.
+    if (this.logStore) {
+      await this.flushLog().catch(error => this.emitLogError(error));
     }
   }
 
-  private async pauseGame(_action: GameAction): Promise<void> {
-    if (!this.state.isActive || this.state.isPaused) {
-      throw new Error('Game is not active or already paused');
-    }
-
-    this.pauseAllTimers();
-
-    const updates: Partial<GameState> = {
-      isPaused: true,
-      pausedAt: new Date().toISOString(),
-      lastUpdated: new Date().toISOString()
-    };
-
-    this.updateState(updates);
-    
-    this.emitEvent({
-      id: this.generateId(),
-      type: 'game-paused',
-      gameId: this.state.id,
-      timestamp: new Date().toISOString()
-    });
+  /**
+   * Write any actions not yet persisted, in order. Creates the stored log
+   * on first use.
+   */
+  flushLog(): Promise<void> {
+    const run = this.persistence
+      .catch(() => undefined)
+      .then(() => this.writePendingEntries());
+    this.persistence = run;
+    return run;
   }
 
-  private async endGame(_action: GameAction): Promise<void> {
-    this.clearAllTimers();
+  private async writePendingEntries(): Promise<void> {
+    if (!this.logStore) return;
 
-    const updates: Partial<GameState> = {
-      phase: 'game-complete',
-      isActive: false,
-      isComplete: true,
-      completedAt: new Date().toISOString(),
-      lastUpdated: new Date().toISOString()
-    };
+    if (!this.logCreated) {
+      await this.logStore.createLog(this.initialState.id, this.initialState);
+      this.logCreated = true;
+    }
+    if (this.pendingEntries.length === 0) return;
 
-    this.updateState(updates);
-    
-    this.emitEvent({
-      id: this.generateId(),
-      type: 'game-ended',
-      gameId: this.state.id,
-      timestamp: new Date().toISOString()
-    });
+    const batch = [...this.pendingEntries];
+    await this.logStore.appendEntries(batch);
+    this.pendingEntries = this.pendingEntries.slice(batch.length);
   }
 
-  // State management helpers
-  private updateState(updates: Partial<GameState>): void {
-    this.state = { ...this.state, ...updates };
-    
-    this.emitStateUpdate({
-      type: 'phase-change',
-      gameId: this.state.id,
-      data: updates,
-      timestamp: new Date().toISOString()
-    });
+  // Side effects that follow an action; they go through executeAction so they are logged too
+  private scheduleFollowUp(action: GameAction): void {
+    if (action.type !== 'start-game' || !this.state.configuration.settings.autoAdvance) return;
 
-    this.validateState();
+    const timeout = setTimeout(() => {
+      this.timers.delete('auto-advance');
+      this.executeAction({
+        type: 'start-round',
+        gameId: this.state.id,
+        timestamp: new Date().toISOString()
+      }).catch(error => console.error('Error auto-advancing game:', error));
+    }, 3000);
+    this.timers.set('auto-advance', timeout);
+  }
+
+  // Top-level fields the reducer replaced
+  private diffState(previous: GameState, next: GameState): Partial<GameState> {
+    const keys = new Set([...Object.keys(previous), ...Object.keys(next)] as (keyof GameState)[]);
+    const changes: Partial<GameState> = {};
+    keys.forEach(key => {
+      if (previous[key] !== next[key]) {
+        (changes as Record<string, unknown>)[key] = next[key];
+      }
+    });
+    return changes;
   }
 
   private emitStateUpdate(update: GameStateUpdate): void {
@@ -243,11 +276,19 @@ export class GameStateManager {
     });
   }
 
+  private emitLogError(error: unknown): void {
+    console.error('Error saving game log:', error);
+    const reported = error instanceof Error ? error : new Error('Failed to save game actions');
+    this.logErrorListeners.forEach(listener => {
+      try {
+        listener(reported);
+      } catch (listenerError) {
+        console.error('Error in log error listener:', listenerError);
+      }
+    });
+  }
+
   private emitEvent(event: GameEvent): void {
-    // Add to events history
-    this.state.events.push(event);
-    
-    // Notify listeners
     this.eventListeners.forEach(listener => {
       try {
         listener(event);
@@ -261,13 +302,17 @@ export class GameStateManager {
     return Math.random().toString(36).substr(2, 9);
   }
 
-  private validateState(): void {
-    if (!isValidGamePhase(this.state.phase)) {
-      throw new Error(`Invalid game phase: ${this.state.phase}`);
+  private validateState(state: GameState): void {
+    if (!state.id) {
+      throw new Error('Game state must have an id');
+    }
+
+    if (!isValidGamePhase(state.phase)) {
+      throw new Error(`Invalid game phase: ${state.phase}`);
     }
     
-    if (this.state.currentRound < 0 || this.state.currentRound > this.state.rounds.length) {
-      throw new Error(`Invalid current round: ${this.state.currentRound}`);
+    if (state.currentRound < 0 || state.currentRound > state.rounds.length) {
+      throw new Error(`Invalid current round: ${state.currentRound}`);
     }
   }
 
@@ -277,90 +322,21 @@ export class GameStateManager {
     }
     
     if (!action.timestamp) {
-      throw new Error('Action must have timestamp');
+      throw new Error('Action timestamp required');
     }
   }
 
-  private pauseAllTimers(): void {
-    Object.values(this.state.timers).forEach(timer => {
-      if (timer.isActive && !timer.isPaused) {
-        timer.isPaused = true;
-        timer.pausedAt = new Date().toISOString();
-      }
-    });
-  }
-
   private clearAllTimers(): void {
     this.timers.forEach(timer => {
       clearTimeout(timer);
     });
     this.timers.clear();
-    
-    Object.values(this.state.timers).forEach(timer => {
-      timer.isActive = false;
-      timer.endedAt = new Date().toISOString();
-    });
-  }
-
-  private async resumeGame(_action: GameAction): Promise<void> {
-    // Implementation for resuming game
-  }
-
-  private async startRound(_action: GameAction): Promise<void> {
-    // Implementation for starting round
-  }
-
-  private async endRound(_action: GameAction): Promise<void> {
-    // Implementation for ending round
-  }
-
-  private async presentQuestion(_action: GameAction): Promise<void> {
-    // Implementation for presenting question
-  }
-
-  private async submitAnswer(_action: GameAction): Promise<void> {
-    // Implementation for submitting answer
-  }
-
-  private async lockAnswers(_action: GameAction): Promise<void> {
-    // Implementation for locking answers
-  }
-
-  private async revealAnswers(_action: GameAction): Promise<void> {
-    // Implementation for revealing answers
-  }
-
-  private async advanceQuestion(_action: GameAction): Promise<void> {
-    // Implementation for advancing question
-  }
-
-  private async skipQuestion(_action: GameAction): Promise<void> {
-    // Implementation for skipping question
-  }
-
-  private async updateTimer(_action: GameAction): Promise<void> {
-    // Implementation for updating timer
-  }
-
-  private async addPlayer(_action: GameAction): Promise<void> {
-    // Implementation for adding player
-  }
-
-  private async removePlayer(_action: GameAction): Promise<void> {
-    // Implementation for removing player
-  }
-
-  private async formTeam(_action: GameAction): Promise<void> {
-    // Implementation for forming team
-  }
-
-  private async updateSettings(_action: GameAction): Promise<void> {
-    // Implementation for updating settings
   }
 
   destroy(): void {
     this.clearAllTimers();
     this.stateListeners.clear();
     this.eventListeners.clear();
+    this.logErrorListeners.clear();
   }
 } 
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { supabase } from './supabase';
 import type { GameState, GameEvent } from '../types/game';
 import { withRetry } from '../utils/networkAwareApi';
+import { HostRecoveryService } from './hostRecoveryService';
 
 export interface GameStateVersion {
   version: number;
@@ -480,6 +481,18 @@ export class GameStateSynchronizer {
     return null;
   }
 
+  // Recover the server's last checkpoint when local history is gone,
+  // e.g. after the host's browser crashed
+  async restoreFromCheckpoint(): Promise<GameState | null> {
+    const checkpoint = await HostRecoveryService.loadCheckpoint(this.gameId);
+    if (!checkpoint) {
+      return null;
+    }
+
+    this.addToHistory(this.createVersion(checkpoint.state));
+    return { ...checkpoint.state };
+  }
+
   // Clear history
   clearHistory(): void {
     this.stateHistory = [];
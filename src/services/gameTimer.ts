@@ -1,3 +1,5 @@
+import type { GameTimer as GameTimerState } from '../types/game';
+
 export interface TimerConfiguration {
   duration: number; // Duration in seconds
   warningThreshold?: number; // Warning threshold in seconds (default: 10)
@@ -6,6 +8,16 @@ export interface TimerConfiguration {
   precision?: number; // Update interval in milliseconds (default: 100)
   enableSound?: boolean; // Enable sound effects (default: true)
   enableVisualFeedback?: boolean; // Enable visual feedback (default: true)
+  clock?: () => number; // Time source in ms, e.g. a synced clock (default: Date.now)
+}
+
+// When a timer started and how long it runs, in the time authority's clock.
+// Clients render from this instead of counting down from their own start.
+export interface TimerSchedule {
+  startedAt: number; // ms
+  duration: number; // seconds
+  pausedAt?: number | null; // ms, set while paused
+  pausedDuration?: number; // ms spent paused before now
 }
 
 export interface TimerState {
@@ -67,7 +79,8 @@ export class GameTimer {
       autoStart: config.autoStart ?? false,
       precision: config.precision ?? 100,
       enableSound: config.enableSound ?? true,
-      enableVisualFeedback: config.enableVisualFeedback ?? true
+      enableVisualFeedback: config.enableVisualFeedback ?? true,
+      clock: config.clock ?? Date.now
     };
 
     this.state = this.createInitialState();
@@ -97,7 +110,7 @@ export class GameTimer {
 
     this.state.isRunning = true;
     this.state.isPaused = false;
-    this.startTime = Date.now();
+    this.startTime = this.config.clock();
     this.totalPausedDuration = 0;
 
     this.startInterval();
@@ -110,7 +123,7 @@ export class GameTimer {
     }
 
     this.state.isPaused = true;
-    this.pausedTime = Date.now();
+    this.pausedTime = this.config.clock();
     this.stopInterval();
     this.emitEvent(TimerEventType.PAUSED);
   }
@@ -121,7 +134,7 @@ export class GameTimer {
     }
 
     this.state.isPaused = false;
-    this.totalPausedDuration += Date.now() - this.pausedTime;
+    this.totalPausedDuration += this.config.clock() - this.pausedTime;
     this.startInterval();
     this.emitEvent(TimerEventType.RESUMED);
   }
@@ -171,6 +184,56 @@ export class GameTimer {
     }
   }
 
+  // Follow a schedule published by the time authority. With a synced clock
+  // every device shows the same countdown whatever its own clock says.
+  public syncTo(schedule: TimerSchedule): void {
+    const wasPaused = this.state.isPaused;
+    const wasRunning = this.state.isRunning;
+
+    this.config.duration = schedule.duration;
+    this.state.totalDuration = schedule.duration;
+    this.startTime = schedule.startedAt;
+    this.totalPausedDuration = schedule.pausedDuration ?? 0;
+    this.state.isRunning = true;
+    this.state.isExpired = false;
+    this.state.isPaused = schedule.pausedAt != null;
+
+    if (this.state.isPaused) {
+      this.pausedTime = schedule.pausedAt as number;
+      this.stopInterval();
+    } else {
+      this.startInterval();
+    }
+
+    this.state.timeRemaining = this.remainingAt(this.state.isPaused ? this.pausedTime : this.config.clock());
+    this.updateState();
+
+    if (this.state.timeRemaining === 0) {
+      this.handleExpiration();
+    } else if (!wasRunning) {
+      this.emitEvent(this.state.isPaused ? TimerEventType.PAUSED : TimerEventType.STARTED);
+    } else if (wasPaused !== this.state.isPaused) {
+      this.emitEvent(this.state.isPaused ? TimerEventType.PAUSED : TimerEventType.RESUMED);
+    } else {
+      this.emitEvent(TimerEventType.TICK);
+    }
+  }
+
+  // When time runs out in the timer's clock, or null while paused or idle
+  public getDeadline(): number | null {
+    if (!this.state.isRunning && !this.state.isExpired) return null;
+    if (this.state.isPaused) return null;
+    return this.startTime + this.totalPausedDuration + this.config.duration * 1000;
+  }
+
+  // Whether an answer made at `at` (timer clock, ms) beats the deadline plus
+  // the grace window
+  public acceptsAnswerAt(at: number, graceSeconds: number = 0): boolean {
+    const deadline = this.getDeadline();
+    if (deadline === null) return this.state.isPaused && !this.state.isExpired;
+    return at <= deadline + graceSeconds * 1000;
+  }
+
   // Event System
   public addEventListener(type: TimerEventType, listener: TimerEventListener): void {
     if (!this.listeners.has(type)) {
@@ -261,9 +324,7 @@ export class GameTimer {
       return;
     }
 
-    const now = Date.now();
-    const elapsed = (now - this.startTime - this.totalPausedDuration) / 1000;
-    const newTimeRemaining = Math.max(0, this.config.duration - elapsed);
+    const newTimeRemaining = this.remainingAt(this.config.clock());
 
     this.state.timeRemaining = newTimeRemaining;
     this.updateState();
@@ -275,6 +336,11 @@ export class GameTimer {
     }
   }
 
+  private remainingAt(time: number): number {
+    const elapsed = (time - this.startTime - this.totalPausedDuration) / 1000;
+    return Math.max(0, this.config.duration - elapsed);
+  }
+
   private updateState(): void {
     // Update progress
     this.state.progress = ((this.config.duration - this.state.timeRemaining) / this.config.duration) * 100;
@@ -319,7 +385,7 @@ export class GameTimer {
   private emitEvent(type: TimerEventType): void {
     const event: TimerEvent = {
       type,
-      timestamp: Date.now(),
+      timestamp: this.config.clock(),
       timeRemaining: this.state.timeRemaining,
       phase: this.state.phase
     };
@@ -343,6 +409,19 @@ export class GameTimer {
   }
 
   // Static factory methods
+  public static scheduleFromState(timer: GameTimerState): TimerSchedule | null {
+    if (!timer.isActive || !timer.syncedAt) return null;
+
+    // remaining was measured at syncedAt (or at the pause)
+    const measuredAt = Date.parse(timer.isPaused && timer.pausedAt ? timer.pausedAt : timer.syncedAt);
+    return {
+      startedAt: measuredAt - (timer.duration - timer.remaining) * 1000,
+      duration: timer.duration,
+      pausedAt: timer.isPaused ? measuredAt : null,
+    };
+  }
+
+
   public static createQuestionTimer(duration: number): GameTimer {
     return new GameTimer({
       duration,
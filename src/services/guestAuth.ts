@@ -1,8 +1,8 @@
 import { v4 as uuidv4 } from 'uuid';
-import type { GuestUser, GuestSession } from '../types/guest';
+import type { GuestUser, GuestSession, GuestConversionData } from '../types/guest';
 
 // Re-export types for convenience
-export type { GuestUser, GuestSession };
+export type { GuestUser, GuestSession, GuestConversionData };
 
 const GUEST_SESSION_KEY = 'tony-trivia-guest-session';
 const GUEST_SESSION_DURATION = 24 * 60 * 60 * 1000; // 24 hours
@@ -135,10 +135,19 @@ export const guestAuthService = {
     }
   },
 
-  // Get guest data for account conversion
-  getGuestDataForConversion(): GuestUser['gameData'] | null {
+  // Get guest data for account conversion. Games played on the server are
+  // claimed with the conversion token; the local counts are only a summary.
+  getGuestDataForConversion(): GuestConversionData | null {
     const session = this.getCurrentGuestSession();
-    return session?.user.gameData || null;
+    if (!session) return null;
+
+    return {
+      gamesPlayed: 0,
+      totalScore: 0,
+      achievements: [],
+      ...session.user.gameData,
+      conversionToken: session.user.conversionToken
+    };
   },
 
   // Generate fun random usernames for guests
@@ -176,4 +185,4 @@ export const guestAuthService = {
   isSessionExpiringSoon(): boolean {
     return this.getSessionTimeRemaining() <= 30;
   }
-}; 
\ No newline at end of file
+}; 
@@ -0,0 +1,87 @@
+import { supabase } from './supabase';
+import type { User } from './supabase';
+import { guestAuthService } from './guestAuth';
+import type { GuestConversionSummary } from '../types/guest';
+
+// Sign-in listeners can fire together; they share one merge
+let pendingMerge: Promise<GuestConversionSummary | null> | null = null;
+
+async function completeMerge(): Promise<GuestConversionSummary | null> {
+  const guestData = guestAuthService.getGuestDataForConversion();
+  if (!guestData) return null;
+
+  if (!guestData.conversionToken) {
+    guestAuthService.clearGuestSession();
+    return null;
+  }
+
+  const { data, error } = await supabase.rpc('complete_guest_conversion', {
+    p_claim_token: guestData.conversionToken
+  });
+
+  if (error) {
+    throw new Error(`Failed to keep your guest progress: ${error.message}`);
+  }
+
+  guestAuthService.clearGuestSession();
+  return data;
+}
+
+// Moving a guest's progress onto a real account. Guests play on an
+// anonymous Supabase account so what they do is saved under its id, and
+// complete_guest_conversion moves it all over in one transaction.
+export const guestConversionService = {
+  // Signs the guest in anonymously and keeps the token that later claims
+  // their games. Without it the guest plays on locally only.
+  async startServerSession(): Promise<boolean> {
+    const session = guestAuthService.getCurrentGuestSession();
+    if (!session) return false;
+    if (session.user.conversionToken) return true;
+
+    try {
+      const { data, error } = await supabase.auth.signInAnonymously({
+        options: { data: { display_name: session.user.displayName } }
+      });
+      if (error || !data.user) {
+        console.error('Error starting guest server session:', error);
+        return false;
+      }
+
+      const { data: token, error: tokenError } = await supabase.rpc('begin_guest_conversion');
+      if (tokenError) {
+        console.error('Error reserving guest conversion:', tokenError);
+        return false;
+      }
+
+      return guestAuthService.updateGuestUser({ authUserId: data.user.id, conversionToken: token });
+    } catch (error) {
+      console.error('Error starting guest server session:', error);
+      return false;
+    }
+  },
+
+  // Run once signed in to the account. The guest session is kept until the
+  // merge succeeds, and merging again returns the first result, so a
+  // failed attempt can simply be retried.
+  mergeIntoAccount(): Promise<GuestConversionSummary | null> {
+    pendingMerge ??= completeMerge().finally(() => {
+      pendingMerge = null;
+    });
+    return pendingMerge;
+  },
+
+  // Calls back when a guest signs in or signs up to a real account, which
+  // is when their progress should be merged. Returns the unsubscribe.
+  onAccountSignIn(callback: (user: User) => void): () => void {
+    const { data } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event !== 'SIGNED_IN' || !session || session.user.is_anonymous) return;
+      if (!guestAuthService.getCurrentGuestSession()) return;
+
+      // Supabase holds its auth lock while listeners run, and the merge
+      // needs the new session, so it waits until the listener returns
+      setTimeout(() => callback(session.user), 0);
+    });
+
+    return () => data.subscription.unsubscribe();
+  }
+};
@@ -0,0 +1,325 @@
+import type { GameAction, GameState } from '../types/game';
+import { GameProgressionPhase, type GameFlowSnapshot } from '../types/gameController';
+import { HOST_ACTION_LABELS, type HostActionType } from '../types/hostControls';
+import { UNDOABLE_FIELDS } from './gameReducer';
+import type { GameStateManager } from './gameStateManager';
+import { ScoreLedgerService, type ScoreAdjustmentInput } from './scoreLedgerService';
+
+/**
+ * Host actions as commands that know how to take themselves back, kept on a
+ * bounded undo/redo stack so a mis-tapped "next question" or "lock answers"
+ * can be reversed mid-game.
+ */
+
+export interface HostCommand {
+  type: HostActionType;
+  label: string;
+  execute(): Promise<void>;
+  undo(): Promise<void>;
+}
+
+export interface HostCommandRecord {
+  id: number;
+  type: HostActionType;
+  label: string;
+  performedAt: Date;
+}
+
+export interface HostCommandHistory {
+  done: HostCommandRecord[]; // oldest first
+  undone: HostCommandRecord[]; // the next redo first
+}
+
+export type HostCommandListener = (history: HostCommandHistory) => void;
+
+// Anything whose game flow can be captured and put back, e.g. GameController
+export interface GameFlowTarget {
+  getFlowSnapshot(): GameFlowSnapshot;
+  restoreFlow(snapshot: GameFlowSnapshot): Promise<void>;
+}
+
+// Where manual score changes are written; the score ledger by default
+export interface ScoreLedgerWriter {
+  adjustScore(gameId: string, input: ScoreAdjustmentInput): Promise<{ id: string }>;
+  revertEntry(entryId: string, reason: string): Promise<unknown>;
+}
+
+export const DEFAULT_HOST_HISTORY_LIMIT = 20;
+
+// What advancing into a phase amounts to, for permissions and the history
+export const PHASE_ADVANCE_ACTIONS: Partial<Record<GameProgressionPhase, { type: HostActionType; label: string }>> = {
+  [GameProgressionPhase.PRE_GAME]: { type: 'start-game', label: 'Prepare game' },
+  [GameProgressionPhase.ROUND_INTRO]: { type: 'next-round', label: 'Next round' },
+  [GameProgressionPhase.SPECIAL_ROUND]: { type: 'next-round', label: 'Start special round' },
+  [GameProgressionPhase.INTERMISSION]: { type: 'next-round', label: 'Start intermission' },
+  [GameProgressionPhase.QUESTION_DISPLAY]: { type: 'next-question', label: 'Next question' },
+  [GameProgressionPhase.ANSWER_COLLECTION]: { type: 'next-question', label: 'Open answers' },
+  [GameProgressionPhase.ANSWER_REVIEW]: { type: 'lock-answers', label: 'Lock answers' },
+  [GameProgressionPhase.SCORING]: { type: 'show-results', label: 'Score answers' },
+  [GameProgressionPhase.ROUND_RESULTS]: { type: 'show-results', label: 'Show round results' },
+  [GameProgressionPhase.FINAL_RESULTS]: { type: 'show-results', label: 'Show final results' },
+  [GameProgressionPhase.GAME_COMPLETE]: { type: 'end-game', label: 'Finish game' }
+};
+
+interface StackEntry {
+  command: HostCommand;
+  record: HostCommandRecord;
+}
+
+export class HostCommandStack {
+  private done: StackEntry[] = [];
+  private undone: StackEntry[] = [];
+  private limit: number;
+  private nextId = 1;
+  private busy = false;
+  private listeners = new Set<HostCommandListener>();
+
+  constructor(limit = DEFAULT_HOST_HISTORY_LIMIT) {
+    if (limit < 1) {
+      throw new Error('History limit must be at least 1');
+    }
+    this.limit = limit;
+  }
+
+  // Run a new action. Anything undone before it can no longer be redone.
+  async run(command: HostCommand): Promise<void> {
+    await this.exclusive(async () => {
+      await command.execute();
+      this.done.push({
+        command,
+        record: { id: this.nextId++, type: command.type, label: command.label, performedAt: new Date() }
+      });
+      if (this.done.length > this.limit) {
+        this.done.shift();
+      }
+      this.undone = [];
+    });
+  }
+
+  async undo(): Promise<HostCommandRecord> {
+    return this.exclusive(async () => {
+      const entry = this.done[this.done.length - 1];
+      if (!entry) {
+        throw new Error('Nothing to undo');
+      }
+
+      await entry.command.undo();
+      this.done.pop();
+      this.undone.push(entry);
+      return entry.record;
+    });
+  }
+
+  async redo(): Promise<HostCommandRecord> {
+    return this.exclusive(async () => {
+      const entry = this.undone[this.undone.length - 1];
+      if (!entry) {
+        throw new Error('Nothing to redo');
+      }
+
+      await entry.command.execute();
+      this.undone.pop();
+      entry.record = { ...entry.record, performedAt: new Date() };
+      this.done.push(entry);
+      return entry.record;
+    });
+  }
+
+  canUndo(): boolean {
+    return !this.busy && this.done.length > 0;
+  }
+
+  canRedo(): boolean {
+    return !this.busy && this.undone.length > 0;
+  }
+
+  getHistory(): HostCommandHistory {
+    return {
+      done: this.done.map(entry => entry.record),
+      undone: [...this.undone].reverse().map(entry => entry.record)
+    };
+  }
+
+  clear(): void {
+    this.done = [];
+    this.undone = [];
+    this.notify();
+  }
+
+  subscribe(listener: HostCommandListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // One action at a time: a double tap must not undo two things
+  private async exclusive<T>(work: () => Promise<T>): Promise<T> {
+    if (this.busy) {
+      throw new Error('Another host action is still in progress');
+    }
+
+    this.busy = true;
+    this.notify();
+    try {
+      return await work();
+    } finally {
+      this.busy = false;
+      this.notify();
+    }
+  }
+
+  private notify(): void {
+    const history = this.getHistory();
+    this.listeners.forEach(listener => listener(history));
+  }
+}
+
+const gameStacks = new Map<string, HostCommandStack>();
+
+// One history per game, so every host panel undoes into the same list
+export function getHostCommandStack(gameId: string, limit = DEFAULT_HOST_HISTORY_LIMIT): HostCommandStack {
+  let stack = gameStacks.get(gameId);
+  if (!stack) {
+    stack = new HostCommandStack(limit);
+    gameStacks.set(gameId, stack);
+  }
+  return stack;
+}
+
+/**
+ * A host action applied through the game reducer. Undoing it restores the
+ * state fields it changed (submissions, the lock, scores, used point
+ * values) and gives running timers back the time they had, but only while
+ * it is still the latest action in the game log.
+ */
+export function createGameActionCommand(
+  manager: GameStateManager,
+  type: HostActionType,
+  action: Pick<GameAction, 'type' | 'playerId' | 'teamId' | 'payload'>,
+  label = HOST_ACTION_LABELS[type]
+): HostCommand {
+  let restore: Partial<GameState> = {};
+  let takenAt = '';
+  let sequence = 0;
+
+  return {
+    type,
+    label,
+    async execute() {
+      const previous = manager.getState();
+      takenAt = new Date().toISOString();
+      await manager.executeAction({ ...action, gameId: previous.id, timestamp: takenAt });
+
+      const next = manager.getState();
+      restore = {};
+      UNDOABLE_FIELDS.forEach(field => {
+        if (previous[field] !== next[field]) {
+          (restore as Record<string, unknown>)[field] = previous[field];
+        }
+      });
+      sequence = manager.getLog().length;
+    },
+    async undo() {
+      if (manager.getLog().length !== sequence) {
+        throw new Error(`The game has moved on since "${label}", so it can no longer be undone`);
+      }
+
+      await manager.executeAction({
+        type: 'undo-action',
+        gameId: manager.getState().id,
+        timestamp: new Date().toISOString(),
+        payload: { restore, undoneAt: takenAt, sequence, actionType: action.type }
+      });
+    }
+  };
+}
+
+/**
+ * A host action driven by the game controller, such as advancing the
+ * phase. Undoing it puts the game back as it was before: submissions,
+ * scores, the reveal and the timer as well as the progression, but only
+ * while nothing else has happened in the game since.
+ */
+export function createFlowCommand(
+  target: GameFlowTarget,
+  type: HostActionType,
+  perform: () => Promise<void>,
+  label = HOST_ACTION_LABELS[type]
+): HostCommand {
+  let snapshot: GameFlowSnapshot | null = null;
+  let sequence = 0;
+
+  return {
+    type,
+    label,
+    async execute() {
+      const before = target.getFlowSnapshot();
+      await perform();
+      snapshot = before;
+      sequence = target.getFlowSnapshot().sequence;
+    },
+    async undo() {
+      if (!snapshot) {
+        throw new Error(`"${label}" has not been done yet`);
+      }
+      if (target.getFlowSnapshot().sequence !== sequence) {
+        throw new Error(`The game has moved on since "${label}", so it can no longer be undone`);
+      }
+      await target.restoreFlow(snapshot);
+    }
+  };
+}
+
+// Advancing the game flow, named for what the advance does
+export function createAdvanceCommand(
+  target: GameFlowTarget,
+  nextPhase: GameProgressionPhase | null,
+  perform: () => Promise<void>
+): HostCommand {
+  const action = nextPhase ? PHASE_ADVANCE_ACTIONS[nextPhase] : undefined;
+  return createFlowCommand(target, action?.type ?? 'next-question', perform, action?.label);
+}
+
+/**
+ * The host's ruling against an answer that was graded correct. Undoing it
+ * gives the points back.
+ */
+export function createRejectAnswerCommand(
+  manager: GameStateManager,
+  participantId: string,
+  participantName = participantId
+): HostCommand {
+  return createGameActionCommand(
+    manager,
+    'reject-answer',
+    { type: 'judge-answer', payload: { participantId, isCorrect: false } },
+    `${HOST_ACTION_LABELS['reject-answer']} (${participantName})`
+  );
+}
+
+/**
+ * A manual score change. Undoing it reverts the ledger entry; redoing it
+ * adds a fresh one, so the ledger keeps the whole story.
+ */
+export function createScoreOverrideCommand(
+  gameId: string,
+  input: ScoreAdjustmentInput,
+  ledger: ScoreLedgerWriter = ScoreLedgerService
+): HostCommand {
+  let entryId: string | null = null;
+
+  return {
+    type: 'override-score',
+    label: `${HOST_ACTION_LABELS['override-score']} (${input.points > 0 ? '+' : ''}${input.points})`,
+    async execute() {
+      const entry = await ledger.adjustScore(gameId, input);
+      entryId = entry.id;
+    },
+    async undo() {
+      if (!entryId) {
+        throw new Error('That score change has not been made yet');
+      }
+      await ledger.revertEntry(entryId, `Undone: ${input.reason}`);
+      entryId = null;
+    }
+  };
+}
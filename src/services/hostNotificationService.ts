@@ -7,6 +7,8 @@ import type {
   HostNotificationType,
   HostPermission
 } from '../types/hostControls';
+import { answerMatcher } from './answerMatcher';
+import type { AnswerMatchOptions } from './answerMatcher';
 
 // Host-specific notification types
 export interface HostGameNotification extends GameNotification {
@@ -32,6 +34,8 @@ export interface ReviewRequest {
   expectedAnswer?: string;
   pointValue?: number;
   confidence?: 'low' | 'medium' | 'high';
+  matchConfidence?: number; // 0-1, from the answer matcher
+  matchStrategy?: string;
   description: string;
   priority: 'low' | 'medium' | 'high' | 'critical';
   submittedAt: Date;
@@ -170,8 +174,10 @@ export class HostNotificationService {
     submittedAnswer: string,
     expectedAnswer: string,
     pointValue: number,
-    confidence: 'low' | 'medium' | 'high'
+    confidence: 'low' | 'medium' | 'high',
+    matchOptions: AnswerMatchOptions = {}
   ): Promise<ReviewRequest> {
+    const answerMatch = answerMatcher.match(submittedAnswer, expectedAnswer, matchOptions);
     const reviewRequest: ReviewRequest = {
       id: uuidv4(),
       type: 'answer_review',
@@ -183,6 +189,8 @@ export class HostNotificationService {
       expectedAnswer,
       pointValue,
       confidence,
+      matchConfidence: answerMatch.confidence,
+      matchStrategy: answerMatch.strategy,
       description: `Review answer "${submittedAnswer}" for question "${questionText}"`,
       priority: this.calculateReviewPriority(confidence, pointValue),
       submittedAt: new Date(),
@@ -190,7 +198,7 @@ export class HostNotificationService {
     };
 
     // Check for auto-approval
-    if (this.shouldAutoApprove(confidence, submittedAnswer, expectedAnswer)) {
+    if (this.shouldAutoApprove(confidence, submittedAnswer, expectedAnswer, matchOptions)) {
       reviewRequest.status = 'approved';
       reviewRequest.reviewedAt = new Date();
       reviewRequest.reviewedBy = 'auto-approval';
@@ -446,34 +454,19 @@ export class HostNotificationService {
   private shouldAutoApprove(
     confidence: 'low' | 'medium' | 'high',
     submittedAnswer: string,
-    expectedAnswer: string
+    expectedAnswer: string,
+    matchOptions: AnswerMatchOptions = {}
   ): boolean {
     if (!this.config.autoApproveThreshold) return false;
 
     const confidenceScore = confidence === 'high' ? 0.9 : confidence === 'medium' ? 0.7 : 0.5;
-    
-    // Simple similarity check (in production, use more sophisticated matching)
-    const similarity = this.calculateAnswerSimilarity(submittedAnswer, expectedAnswer);
-    
-    return confidenceScore >= this.config.autoApproveThreshold && similarity > 0.8;
-  }
 
-  private calculateAnswerSimilarity(answer1: string, answer2: string): number {
-    const clean1 = answer1.toLowerCase().trim();
-    const clean2 = answer2.toLowerCase().trim();
-    
-    if (clean1 === clean2) return 1.0;
-    
-    // Simple Levenshtein distance approximation
-    const maxLength = Math.max(clean1.length, clean2.length);
-    if (maxLength === 0) return 1.0;
-    
-    let matches = 0;
-    for (let i = 0; i < Math.min(clean1.length, clean2.length); i++) {
-      if (clean1[i] === clean2[i]) matches++;
-    }
-    
-    return matches / maxLength;
+    // Same matching engine the score manager uses, so approvals agree with scoring
+    const match = answerMatcher.match(submittedAnswer, expectedAnswer, matchOptions);
+
+    return confidenceScore >= this.config.autoApproveThreshold &&
+      match.isMatch &&
+      match.confidence >= this.config.autoApproveThreshold;
   }
 
   private calculateReviewPriority(
@@ -0,0 +1,317 @@
+import { supabase } from '../lib/supabase';
+import { GameStateManager } from './gameStateManager';
+import { getTimerRemaining, QUESTION_TIMER_ID } from './gameReducer';
+import { supabaseGameLogStore } from './gameLogService';
+import type { GameLogStore } from './gameLogService';
+import type { GameCheckpoint, GamePhase, GameState, GameStateUpdate } from '../types/game';
+import type { HostTransfer } from '../types/hostControls';
+
+// State fields whose change means the game moved to a new phase
+const CHECKPOINT_FIELDS: (keyof GameState)[] = ['phase', 'isPaused', 'currentRound', 'hostId'];
+
+/**
+ * Snapshot a game after the given log entry. The question timer is measured
+ * at `at`, so a resumed game continues with the time that was actually left.
+ */
+export function createCheckpoint(
+  state: GameState,
+  sequence: number,
+  at: string,
+  controllerPhase?: string
+): GameCheckpoint {
+  const timer = state.timers[QUESTION_TIMER_ID];
+
+  return {
+    gameId: state.id,
+    hostId: state.hostId,
+    sequence,
+    phase: state.phase,
+    controllerPhase,
+    roundNumber: state.currentRound,
+    questionId: state.currentQuestion?.question.id,
+    timerRemaining: timer?.isActive ? getTimerRemaining(timer, at) : undefined,
+    isPaused: state.isPaused,
+    state,
+    checkpointedAt: at
+  };
+}
+
+// A game_checkpoints row; NUMERIC columns may arrive as strings
+interface GameCheckpointRow {
+  game_id: string;
+  host_id: string;
+  sequence: number;
+  phase: GamePhase;
+  controller_phase: string | null;
+  round_number: number;
+  question_id: string | null;
+  timer_remaining: number | string | null;
+  is_paused: boolean;
+  state: GameState;
+  checkpointed_at: string;
+}
+
+export interface ResumeGameOptions {
+  checkpoint?: GameCheckpoint;
+  logStore?: GameLogStore;
+  // Account resuming the game; later actions are attributed to it
+  actorId?: string;
+  now?: () => string;
+}
+
+export interface ResumedGame {
+  manager: GameStateManager;
+  checkpoint: GameCheckpoint;
+}
+
+export class HostRecoveryService {
+  // Keep the newest checkpoint; the server ignores one older than what it has
+  static async saveCheckpoint(checkpoint: GameCheckpoint): Promise<boolean> {
+    const { data, error } = await supabase.rpc('save_game_checkpoint', {
+      p_game_id: checkpoint.gameId,
+      p_sequence: checkpoint.sequence,
+      p_phase: checkpoint.phase,
+      p_controller_phase: checkpoint.controllerPhase ?? null,
+      p_round_number: checkpoint.roundNumber,
+      p_question_id: checkpoint.questionId ?? null,
+      p_timer_remaining: checkpoint.timerRemaining ?? null,
+      p_is_paused: checkpoint.isPaused,
+      p_is_complete: checkpoint.state.isComplete,
+      p_state: checkpoint.state,
+      p_checkpointed_at: checkpoint.checkpointedAt
+    });
+
+    if (error) {
+      throw new Error(`Failed to save game checkpoint: ${error.message}`);
+    }
+    return Boolean(data);
+  }
+
+  // The signed-in account; games are only checkpointed for signed-in hosts
+  static async getSignedInHostId(): Promise<string | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    return user?.id ?? null;
+  }
+
+  static async loadCheckpoint(gameId: string): Promise<GameCheckpoint | null> {
+    const { data, error } = await supabase
+      .from('game_checkpoints')
+      .select('*')
+      .eq('game_id', gameId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load game checkpoint: ${error.message}`);
+    }
+    return data ? this.mapCheckpoint(data) : null;
+  }
+
+  /**
+   * The checkpoint of an unfinished game the signed-in account is hosting,
+   * if there is one to resume
+   */
+  static async loadResumableCheckpoint(gameId: string): Promise<GameCheckpoint | null> {
+    const hostId = await this.getSignedInHostId();
+    if (!hostId) return null;
+
+    const checkpoint = await this.loadCheckpoint(gameId);
+    if (!checkpoint || checkpoint.hostId !== hostId || checkpoint.state.isComplete) {
+      return null;
+    }
+    return checkpoint;
+  }
+
+  // Unfinished games the signed-in account was hosting, most recent first
+  static async findResumableGames(): Promise<GameCheckpoint[]> {
+    const hostId = await this.getSignedInHostId();
+    if (!hostId) return [];
+
+    const { data, error } = await supabase
+      .from('game_checkpoints')
+      .select('*')
+      .eq('host_id', hostId)
+      .eq('is_complete', false)
+      .order('checkpointed_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load resumable games: ${error.message}`);
+    }
+    return (data || []).map(row => this.mapCheckpoint(row));
+  }
+
+  /**
+   * Rebuild a game from its log and put the question timer back to what was
+   * left at the last checkpoint. Time the host spent away is not counted.
+   */
+  static async resumeGame(gameId: string, options: ResumeGameOptions = {}): Promise<ResumedGame> {
+    const checkpoint = options.checkpoint ?? await this.loadResumableCheckpoint(gameId);
+    if (!checkpoint) {
+      throw new Error(`No checkpoint to resume for ${gameId}`);
+    }
+
+    const manager = await GameStateManager.restore(
+      gameId,
+      options.logStore ?? supabaseGameLogStore,
+      options.actorId
+    );
+    const state = manager.getState();
+    const timer = state.timers[QUESTION_TIMER_ID];
+
+    if (
+      timer?.isActive &&
+      !state.isPaused &&
+      checkpoint.timerRemaining !== undefined &&
+      state.currentQuestion?.question.id === checkpoint.questionId
+    ) {
+      await manager.executeAction({
+        type: 'update-timer',
+        gameId,
+        payload: { timerId: QUESTION_TIMER_ID, remaining: checkpoint.timerRemaining },
+        timestamp: options.now?.() ?? new Date().toISOString()
+      });
+    }
+
+    return { manager, checkpoint };
+  }
+
+  /**
+   * Hand the game to a co-host. The server checks the co-host may run the
+   * game flow; the hand-off is then recorded in the game log.
+   */
+  static async transferHost(
+    manager: GameStateManager,
+    toUserId: string,
+    reason?: string
+  ): Promise<HostTransfer> {
+    const gameId = manager.getState().id;
+    const { data, error } = await supabase.rpc('transfer_game_host', {
+      p_game_id: gameId,
+      p_new_host_id: toUserId,
+      p_reason: reason ?? null
+    });
+
+    if (error) {
+      throw new Error(`Failed to transfer host: ${error.message}`);
+    }
+
+    await manager.executeAction({
+      type: 'transfer-host',
+      gameId,
+      payload: { toHostId: toUserId, reason },
+      timestamp: data.transferred_at
+    });
+
+    return {
+      id: data.id,
+      gameId: data.game_id,
+      fromUserId: data.from_user_id,
+      toUserId: data.to_user_id,
+      reason: data.reason ?? undefined,
+      transferredAt: data.transferred_at
+    };
+  }
+
+  private static mapCheckpoint(row: GameCheckpointRow): GameCheckpoint {
+    return {
+      gameId: row.game_id,
+      hostId: row.host_id,
+      sequence: row.sequence,
+      phase: row.phase,
+      controllerPhase: row.controller_phase ?? undefined,
+      roundNumber: row.round_number,
+      questionId: row.question_id ?? undefined,
+      timerRemaining: row.timer_remaining === null ? undefined : Number(row.timer_remaining),
+      isPaused: row.is_paused,
+      state: row.state,
+      checkpointedAt: row.checkpointed_at
+    };
+  }
+}
+
+export interface GameCheckpointerOptions {
+  save?: (checkpoint: GameCheckpoint) => Promise<unknown>;
+  // How often to refresh the checkpoint while a question timer runs
+  heartbeatInterval?: number;
+  getControllerPhase?: () => string | undefined;
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Checkpoints a live game after every phase transition, and every few
+ * seconds while a question timer is running
+ */
+export class GameCheckpointer {
+  private manager: GameStateManager;
+  private save: (checkpoint: GameCheckpoint) => Promise<unknown>;
+  private heartbeatInterval: number;
+  private getControllerPhase?: () => string | undefined;
+  private onError: (error: unknown) => void;
+  private unsubscribe?: () => void;
+  private heartbeat?: NodeJS.Timeout;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(manager: GameStateManager, options: GameCheckpointerOptions = {}) {
+    this.manager = manager;
+    this.save = options.save ?? (checkpoint => HostRecoveryService.saveCheckpoint(checkpoint));
+    this.heartbeatInterval = options.heartbeatInterval ?? 5000;
+    this.getControllerPhase = options.getControllerPhase;
+    this.onError = options.onError ?? (error => console.error('Error checkpointing game:', error));
+  }
+
+  start(): void {
+    if (this.unsubscribe) return;
+
+    this.unsubscribe = this.manager.addStateListener(update => this.handleUpdate(update));
+    this.updateHeartbeat();
+  }
+
+  /**
+   * Save the game as it is now. Checkpoints are written one at a time, after
+   * the actions they include.
+   */
+  checkpoint(): Promise<void> {
+    const run = this.saving
+      .catch(() => undefined)
+      .then(async () => {
+        await this.manager.flushLog();
+        const checkpoint = createCheckpoint(
+          this.manager.getState(),
+          this.manager.getLog().length,
+          new Date().toISOString(),
+          this.getControllerPhase?.()
+        );
+        await this.save(checkpoint);
+      });
+
+    this.saving = run.catch(error => this.onError(error));
+    return this.saving;
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = undefined;
+    }
+  }
+
+  private handleUpdate(update: GameStateUpdate): void {
+    this.updateHeartbeat();
+    if (CHECKPOINT_FIELDS.some(field => field in update.data)) {
+      this.checkpoint();
+    }
+  }
+
+  private updateHeartbeat(): void {
+    const state = this.manager.getState();
+    const running = Boolean(state.timers[QUESTION_TIMER_ID]?.isActive) && !state.isPaused;
+
+    if (running && !this.heartbeat) {
+      this.heartbeat = setInterval(() => this.checkpoint(), this.heartbeatInterval);
+    } else if (!running && this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = undefined;
+    }
+  }
+}
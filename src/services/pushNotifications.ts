@@ -0,0 +1,104 @@
+import { supabase } from '../lib/supabase';
+
+export type PushPermission = NotificationPermission | 'unsupported';
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+// VAPID keys are URL-safe base64; the Push API wants the raw bytes
+export function urlBase64ToUint8Array(base64: string): Uint8Array<ArrayBuffer> {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(padded);
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i++) {
+    bytes[i] = raw.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export class PushNotificationService {
+  static isSupported(): boolean {
+    return (
+      typeof window !== 'undefined' &&
+      'serviceWorker' in navigator &&
+      'PushManager' in window &&
+      'Notification' in window
+    );
+  }
+
+  static getPermission(): PushPermission {
+    return this.isSupported() ? Notification.permission : 'unsupported';
+  }
+
+  /**
+   * Registers the service worker that caches the app shell and shows push
+   * notifications. Resolves to null where service workers aren't available.
+   */
+  static async registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return null;
+    try {
+      return await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+    } catch (error) {
+      console.error('Error registering service worker:', error);
+      return null;
+    }
+  }
+
+  static async getSubscription(): Promise<PushSubscription | null> {
+    if (!this.isSupported()) return null;
+    const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+    return registration ? registration.pushManager.getSubscription() : null;
+  }
+
+  /**
+   * Asks permission, subscribes this browser with the app's VAPID key and
+   * saves the subscription for the user. Resolves to false when the user
+   * declines or the browser can't receive pushes.
+   */
+  static async subscribe(userId: string): Promise<boolean> {
+    const vapidPublicKey = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+    if (!this.isSupported() || !vapidPublicKey) return false;
+
+    if ((await Notification.requestPermission()) !== 'granted') return false;
+
+    const registration = (await this.registerServiceWorker()) ?? (await navigator.serviceWorker.ready);
+    const subscription =
+      (await registration.pushManager.getSubscription()) ??
+      (await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(vapidPublicKey),
+      }));
+
+    const { endpoint, keys } = subscription.toJSON();
+    if (!endpoint || !keys?.p256dh || !keys?.auth) {
+      throw new Error('Failed to save push subscription: the browser returned no keys');
+    }
+
+    const { error } = await supabase.from('push_subscriptions').upsert(
+      {
+        user_id: userId,
+        endpoint,
+        p256dh: keys.p256dh,
+        auth: keys.auth,
+        user_agent: navigator.userAgent,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'endpoint' }
+    );
+    if (error) {
+      throw new Error(`Failed to save push subscription: ${error.message}`);
+    }
+    return true;
+  }
+
+  // Stops pushes to this browser and forgets its subscription
+  static async unsubscribe(): Promise<void> {
+    const subscription = await this.getSubscription();
+    if (!subscription) return;
+
+    const { error } = await supabase.from('push_subscriptions').delete().eq('endpoint', subscription.endpoint);
+    if (error) {
+      throw new Error(`Failed to remove push subscription: ${error.message}`);
+    }
+    await subscription.unsubscribe();
+  }
+}
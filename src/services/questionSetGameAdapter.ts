@@ -0,0 +1,548 @@
+import { QuestionSetService } from './questionSetService';
+import { RoundManager } from './roundManager';
+import type { RoundConfiguration } from './roundManager';
+import type {
+  QuestionSet,
+  CustomQuestion,
+  GameQuestionSetConfig,
+  QuestionType as CustomQuestionType,
+  QuestionDifficulty
+} from '../types/questionSets';
+import type {
+  Question,
+  QuestionType,
+  GameDifficulty,
+  GameConfiguration,
+  GameSettings,
+  PointValue,
+  Round
+} from '../types/game';
+import type { GameFlowConfiguration } from '../types/gameController';
+import { GAME_CONSTRAINTS, isValidPointValue } from '../types/game';
+
+/**
+ * Question Set → Game Adapter
+ *
+ * Converts saved question sets (`CustomQuestion`, snake_case, free-form points)
+ * into the `Round[]` and `GameConfiguration` that RoundManager and
+ * GameController run on. Anything that can't be carried over exactly is
+ * listed in the conversion report instead of being silently dropped.
+ */
+
+export type RoundSplitStrategy = 'sequential' | 'by_set' | 'by_category';
+
+export interface QuestionSetConversionOptions {
+  name?: string;
+  createdBy?: string;
+  pointSystem?: GameSettings['pointSystem'];
+  customPointValues?: PointValue[][]; // per round, for the custom point system; the last entry repeats
+  totalRounds?: number; // defaults to as many rounds as the questions fill
+  questionsPerRound?: number;
+  roundSplit?: RoundSplitStrategy;
+  setConfigs?: GameQuestionSetConfig[]; // per-set shuffle, limits and overrides
+  defaultCategory?: string;
+  settings?: Partial<GameSettings>;
+  random?: () => number; // injectable for deterministic shuffles
+}
+
+export type ConversionResolution = 'skipped' | 'dropped' | 'defaulted' | 'clamped' | 'unused';
+
+export interface ConversionIssue {
+  questionSetId: string;
+  questionId?: string;
+  field: string;
+  value?: unknown;
+  resolution: ConversionResolution;
+  reason: string;
+}
+
+export interface QuestionSetConversionResult {
+  configuration: GameConfiguration;
+  rounds: Round[];
+  flowConfiguration: Pick<
+    GameFlowConfiguration,
+    'totalRounds' | 'questionsPerRound' | 'questionTimeLimit' | 'enableSpecialRounds'
+  >;
+  issues: ConversionIssue[];
+  convertedCount: number;
+  skippedCount: number;
+}
+
+interface ConvertedQuestion {
+  question: Question;
+  questionSetId: string;
+}
+
+const TYPE_MAP: Record<CustomQuestionType, QuestionType> = {
+  multiple_choice: 'multiple-choice',
+  true_false: 'true-false',
+  short_answer: 'text',
+  fill_blank: 'text'
+};
+
+const DIFFICULTY_MAP: Record<QuestionDifficulty, GameDifficulty> = {
+  easy: 'easy',
+  medium: 'medium',
+  hard: 'hard'
+};
+
+const TRUE_VALUES = new Set(['true', 't', 'yes', 'y', '1']);
+const FALSE_VALUES = new Set(['false', 'f', 'no', 'n', '0']);
+
+const DEFAULT_QUESTIONS_PER_ROUND = 10;
+
+const DEFAULT_SETTINGS: GameSettings = {
+  maxRounds: GAME_CONSTRAINTS.MAX_ROUNDS,
+  questionsPerRound: DEFAULT_QUESTIONS_PER_ROUND,
+  defaultTimeLimit: 30,
+  allowTeams: true,
+  maxTeamSize: GAME_CONSTRAINTS.MAX_TEAM_SIZE,
+  maxTeams: GAME_CONSTRAINTS.MAX_TEAMS,
+  pointSystem: 'last-call',
+  enableSpecialRounds: false,
+  enableWagerRounds: false,
+  enableBonusRounds: false,
+  autoAdvance: false,
+  showCorrectAnswers: true,
+  allowAnswerChanges: true,
+  enableHints: false,
+  difficulty: 'medium'
+};
+
+export class QuestionSetGameAdapter {
+  /**
+   * Load question sets with their questions and convert them into a game
+   */
+  static async buildGameFromQuestionSets(
+    questionSetIds: string[],
+    options: QuestionSetConversionOptions = {}
+  ): Promise<QuestionSetConversionResult> {
+    const questionSets = await Promise.all(
+      questionSetIds.map(id => QuestionSetService.getQuestionSetWithQuestions(id))
+    );
+
+    return this.convertQuestionSets(questionSets, options);
+  }
+
+  /**
+   * Convert already-loaded question sets into rounds and a game configuration
+   */
+  static convertQuestionSets(
+    questionSets: QuestionSet[],
+    options: QuestionSetConversionOptions = {}
+  ): QuestionSetConversionResult {
+    const issues: ConversionIssue[] = [];
+    const settings: GameSettings = { ...DEFAULT_SETTINGS, ...options.settings };
+    const pointSystem = options.pointSystem || settings.pointSystem;
+    const random = options.random || Math.random;
+
+    if (questionSets.length === 0) {
+      throw new Error('At least one question set is required');
+    }
+
+    // Convert every set's questions, applying its game config
+    const convertedBySet = questionSets.map(questionSet => {
+      const setConfig = options.setConfigs?.find(c => c.question_set_id === questionSet.id);
+      let questions = [...(questionSet.questions || [])].sort((a, b) => a.order_index - b.order_index);
+
+      if (setConfig?.shuffle_questions) {
+        questions = this.shuffle(questions, random);
+      }
+
+      if (setConfig?.max_questions !== undefined && questions.length > setConfig.max_questions) {
+        for (const unused of questions.slice(setConfig.max_questions)) {
+          issues.push({
+            questionSetId: questionSet.id,
+            questionId: unused.id,
+            field: 'question',
+            resolution: 'unused',
+            reason: `Set is limited to ${setConfig.max_questions} questions`
+          });
+        }
+        questions = questions.slice(0, setConfig.max_questions);
+      }
+
+      const converted: ConvertedQuestion[] = [];
+      for (const customQuestion of questions) {
+        const question = this.convertQuestion(customQuestion, questionSet, {
+          pointSystem,
+          setConfig,
+          defaultCategory: options.defaultCategory,
+          issues
+        });
+        if (question) {
+          converted.push({ question, questionSetId: questionSet.id });
+        }
+      }
+
+      return converted;
+    });
+
+    const allConverted = convertedBySet.flat();
+    const convertedCount = allConverted.length;
+    const skippedCount = issues.filter(issue => issue.resolution === 'skipped').length;
+
+    if (convertedCount === 0) {
+      throw new Error('None of the questions in the selected sets could be converted');
+    }
+
+    // Work out how many questions each round holds
+    const pointValuesForRound = (roundIndex: number) =>
+      this.getPointValuesForRound(roundIndex, pointSystem, options.customPointValues);
+
+    let questionsPerRound = options.questionsPerRound || settings.questionsPerRound;
+    if (pointSystem === 'last-call' || pointSystem === 'custom') {
+      // Each point value is used once per round, so a round can't hold more
+      // questions than it has point values
+      const maxForPoints = pointValuesForRound(0).length;
+      if (questionsPerRound > maxForPoints) {
+        if (options.questionsPerRound) {
+          issues.push({
+            questionSetId: questionSets[0].id,
+            field: 'questionsPerRound',
+            value: questionsPerRound,
+            resolution: 'clamped',
+            reason: `Rounds only have ${maxForPoints} point values to assign`
+          });
+        }
+        questionsPerRound = maxForPoints;
+      }
+    }
+    questionsPerRound = Math.min(
+      Math.max(questionsPerRound, GAME_CONSTRAINTS.MIN_QUESTIONS_PER_ROUND),
+      GAME_CONSTRAINTS.MAX_QUESTIONS_PER_ROUND
+    );
+
+    const groups = this.splitIntoRounds(
+      convertedBySet,
+      options.roundSplit || 'sequential',
+      questionsPerRound
+    );
+
+    const maxRounds = Math.min(
+      options.totalRounds ?? GAME_CONSTRAINTS.MAX_ROUNDS,
+      GAME_CONSTRAINTS.MAX_ROUNDS
+    );
+    for (const unusedGroup of groups.slice(maxRounds)) {
+      for (const { question, questionSetId } of unusedGroup) {
+        issues.push({
+          questionSetId,
+          questionId: question.id,
+          field: 'question',
+          resolution: 'unused',
+          reason: `Game is limited to ${maxRounds} rounds`
+        });
+      }
+    }
+
+    const roundConfigs: RoundConfiguration[] = groups.slice(0, maxRounds).map((group, index) => {
+      const questions = group.map(entry => entry.question);
+      const availablePointValues = pointSystem === 'standard'
+        ? this.getStandardPointValues(questions)
+        : pointValuesForRound(index);
+
+      return {
+        number: index + 1,
+        type: 'standard',
+        name: this.getRoundName(group, index, options.roundSplit, questionSets),
+        description: pointSystem === 'standard'
+          ? undefined
+          : `Point values ${availablePointValues.join(', ')}`,
+        availablePointValues,
+        questions,
+        timeLimit: questions.reduce((total, q) => total + (q.timeLimit || settings.defaultTimeLimit), 0),
+        maxQuestions: questions.length
+      };
+    });
+
+    const rounds = RoundManager.createCustomRounds(roundConfigs);
+    const now = new Date().toISOString();
+    const questionTimeLimit = this.getTypicalTimeLimit(allConverted.map(c => c.question), settings);
+
+    const configuration: GameConfiguration = {
+      id: `game-config-${questionSets.map(set => set.id).join('-')}`,
+      name: options.name || questionSets.map(set => set.title).join(' + '),
+      description: questionSets.length === 1 ? questionSets[0].description : undefined,
+      settings: {
+        ...settings,
+        pointSystem,
+        maxRounds: rounds.length,
+        questionsPerRound,
+        defaultTimeLimit: questionTimeLimit,
+        difficulty: this.getOverallDifficulty(allConverted.map(c => c.question), settings.difficulty)
+      },
+      rounds,
+      categories: Array.from(new Set(rounds.flatMap(r => r.questions.map(q => q.category)))),
+      createdBy: options.createdBy || questionSets[0].host_id,
+      isPublic: questionSets.every(set => set.is_public),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    return {
+      configuration,
+      rounds,
+      flowConfiguration: {
+        totalRounds: rounds.length,
+        questionsPerRound,
+        questionTimeLimit,
+        enableSpecialRounds: settings.enableSpecialRounds
+      },
+      issues,
+      convertedCount,
+      skippedCount
+    };
+  }
+
+  /**
+   * Convert a single question. Returns null (and records why) when the
+   * question can't be played.
+   */
+  static convertQuestion(
+    customQuestion: CustomQuestion,
+    questionSet: Pick<QuestionSet, 'id' | 'title' | 'tags'>,
+    context: {
+      pointSystem?: GameSettings['pointSystem'];
+      setConfig?: GameQuestionSetConfig;
+      defaultCategory?: string;
+      issues: ConversionIssue[];
+    }
+  ): Question | null {
+    const { issues, setConfig } = context;
+    const report = (
+      field: string,
+      value: unknown,
+      resolution: ConversionResolution,
+      reason: string
+    ) => issues.push({
+      questionSetId: questionSet.id,
+      questionId: customQuestion.id,
+      field,
+      value,
+      resolution,
+      reason
+    });
+
+    const type = TYPE_MAP[customQuestion.type];
+    if (!type) {
+      report('type', customQuestion.type, 'skipped', 'Unsupported question type');
+      return null;
+    }
+
+    if (!customQuestion.text?.trim()) {
+      report('text', customQuestion.text, 'skipped', 'Question text is empty');
+      return null;
+    }
+
+    let correctAnswer = customQuestion.correct_answer?.trim() || '';
+    if (!correctAnswer) {
+      report('correct_answer', customQuestion.correct_answer, 'skipped', 'Correct answer is empty');
+      return null;
+    }
+
+    let options: string[] | undefined;
+    if (customQuestion.type === 'multiple_choice') {
+      options = (customQuestion.options || []).map(option => option.trim()).filter(Boolean);
+      if (options.length < 2) {
+        report('options', customQuestion.options, 'skipped', 'Multiple choice needs at least two options');
+        return null;
+      }
+
+      const matchingOption = options.find(o => o.toLowerCase() === correctAnswer.toLowerCase());
+      if (!matchingOption) {
+        report('correct_answer', correctAnswer, 'skipped', 'Correct answer is not one of the options');
+        return null;
+      }
+      correctAnswer = matchingOption;
+    } else if (customQuestion.type === 'true_false') {
+      const normalized = correctAnswer.toLowerCase();
+      if (TRUE_VALUES.has(normalized)) {
+        correctAnswer = 'True';
+      } else if (FALSE_VALUES.has(normalized)) {
+        correctAnswer = 'False';
+      } else {
+        report('correct_answer', correctAnswer, 'skipped', 'True/false answer is neither true nor false');
+        return null;
+      }
+      options = ['True', 'False'];
+    } else if (customQuestion.options?.length) {
+      report('options', customQuestion.options, 'dropped', 'Options only apply to multiple choice');
+    }
+
+    const difficulty = DIFFICULTY_MAP[customQuestion.difficulty];
+    if (!difficulty) {
+      report('difficulty', customQuestion.difficulty, 'defaulted', 'Unknown difficulty, using medium');
+    }
+
+    let category = customQuestion.category?.trim();
+    if (!category) {
+      category = context.defaultCategory || questionSet.title;
+      report('category', customQuestion.category, 'defaulted', `No category, using "${category}"`);
+    }
+
+    const requestedTimeLimit = setConfig?.time_limit_override ?? customQuestion.time_limit;
+    const timeLimit = Math.min(
+      Math.max(requestedTimeLimit, GAME_CONSTRAINTS.MIN_TIME_LIMIT),
+      GAME_CONSTRAINTS.MAX_TIME_LIMIT
+    );
+    if (requestedTimeLimit !== timeLimit) {
+      report('time_limit', requestedTimeLimit, 'clamped',
+        `Time limits must be between ${GAME_CONSTRAINTS.MIN_TIME_LIMIT} and ${GAME_CONSTRAINTS.MAX_TIME_LIMIT} seconds`);
+    }
+
+    // Fixed points only exist in the standard point system; Last Call teams
+    // assign their own confidence values
+    let points: PointValue | undefined;
+    if (context.pointSystem === 'standard') {
+      const scaled = Math.round(customQuestion.points * (setConfig?.points_multiplier ?? 1));
+      const clamped = Math.min(Math.max(scaled, 1), 6);
+      if (!isValidPointValue(scaled)) {
+        report('points', customQuestion.points, 'clamped', 'Point values must be between 1 and 6');
+      }
+      points = clamped as PointValue;
+    } else if (setConfig?.points_multiplier !== undefined && setConfig.points_multiplier !== 1) {
+      report('points_multiplier', setConfig.points_multiplier, 'dropped',
+        'Multipliers only apply to the standard point system');
+    }
+
+    return {
+      id: customQuestion.id,
+      text: customQuestion.text.trim(),
+      type,
+      category,
+      difficulty: difficulty || 'medium',
+      correctAnswer,
+      alternativeAnswers: customQuestion.alternative_answers?.length
+        ? customQuestion.alternative_answers
+        : undefined,
+      options,
+      // Choices are picked rather than typed, so a near miss is another option
+      answerStrictness: options ? 'exact' : undefined,
+      timeLimit,
+      points,
+      explanation: customQuestion.explanation,
+      source: questionSet.title,
+      mediaUrl: customQuestion.media?.url,
+      mediaType: customQuestion.media?.type,
+      altText: customQuestion.media?.alt_text,
+      transcript: customQuestion.media?.transcript,
+      captions: customQuestion.media?.captions,
+      tags: [
+        ...new Set([
+          ...(customQuestion.tags || []),
+          ...(questionSet.tags?.map(tag => tag.name) || [])
+        ])
+      ],
+      createdAt: customQuestion.created_at,
+      updatedAt: customQuestion.updated_at
+    };
+  }
+
+  /**
+   * Last Call alternates 1/3/5 and 2/4/6; custom systems use the values given
+   * per round, repeating the last set
+   */
+  static getPointValuesForRound(
+    roundIndex: number,
+    pointSystem: GameSettings['pointSystem'],
+    customPointValues?: PointValue[][]
+  ): PointValue[] {
+    if (pointSystem === 'custom' && customPointValues?.length) {
+      return [...customPointValues[Math.min(roundIndex, customPointValues.length - 1)]];
+    }
+
+    const values = roundIndex % 2 === 0
+      ? GAME_CONSTRAINTS.LAST_CALL_ROUND_1_POINTS
+      : GAME_CONSTRAINTS.LAST_CALL_ROUND_2_POINTS;
+    return [...values] as PointValue[];
+  }
+
+  private static getStandardPointValues(questions: Question[]): PointValue[] {
+    const values = new Set<PointValue>(questions.map(q => q.points || 1));
+    return Array.from(values).sort((a, b) => a - b);
+  }
+
+  private static splitIntoRounds(
+    convertedBySet: ConvertedQuestion[][],
+    strategy: RoundSplitStrategy,
+    questionsPerRound: number
+  ): ConvertedQuestion[][] {
+    const chunk = (questions: ConvertedQuestion[]) => {
+      const chunks: ConvertedQuestion[][] = [];
+      for (let i = 0; i < questions.length; i += questionsPerRound) {
+        chunks.push(questions.slice(i, i + questionsPerRound));
+      }
+      return chunks;
+    };
+
+    switch (strategy) {
+      case 'by_set':
+        return convertedBySet.flatMap(chunk);
+      case 'by_category': {
+        const byCategory = new Map<string, ConvertedQuestion[]>();
+        for (const entry of convertedBySet.flat()) {
+          const group = byCategory.get(entry.question.category) || [];
+          group.push(entry);
+          byCategory.set(entry.question.category, group);
+        }
+        return Array.from(byCategory.values()).flatMap(chunk);
+      }
+      case 'sequential':
+      default:
+        return chunk(convertedBySet.flat());
+    }
+  }
+
+  private static getRoundName(
+    group: ConvertedQuestion[],
+    index: number,
+    strategy: RoundSplitStrategy | undefined,
+    questionSets: QuestionSet[]
+  ): string {
+    if (strategy === 'by_category') {
+      return `Round ${index + 1}: ${group[0].question.category}`;
+    }
+
+    if (strategy === 'by_set' && questionSets.length > 1) {
+      const set = questionSets.find(s => s.id === group[0].questionSetId);
+      return `Round ${index + 1}: ${set?.title}`;
+    }
+
+    return `Round ${index + 1}`;
+  }
+
+  private static getTypicalTimeLimit(questions: Question[], settings: GameSettings): number {
+    const limits = questions
+      .map(q => q.timeLimit)
+      .filter((limit): limit is number => limit !== undefined)
+      .sort((a, b) => a - b);
+
+    return limits.length > 0 ? limits[Math.floor(limits.length / 2)] : settings.defaultTimeLimit;
+  }
+
+  private static getOverallDifficulty(questions: Question[], fallback: GameDifficulty): GameDifficulty {
+    const counts = new Map<GameDifficulty, number>();
+    for (const question of questions) {
+      counts.set(question.difficulty, (counts.get(question.difficulty) || 0) + 1);
+    }
+
+    let result = fallback;
+    let best = 0;
+    for (const [difficulty, count] of counts) {
+      if (count > best) {
+        result = difficulty;
+        best = count;
+      }
+    }
+    return result;
+  }
+
+  private static shuffle<T>(items: T[], random: () => number): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+}
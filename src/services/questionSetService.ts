@@ -15,10 +15,39 @@ import type  {
   PaginationOptions,
   QuestionSetListResponse,
   QuestionSetExportData,
+  QuestionSetExportFile,
+  QuestionSetFileFormat,
+  ImportParseOptions,
+  ImportPreview,
   ImportValidationResult,
   QuestionSetStats,
   QuestionType
 } from '../types/questionSets';
+import {
+  detectFileFormat,
+  parseQuestionSetContent,
+  parseSpreadsheetRows,
+  serializeQuestionSet,
+  type ParsedQuestionSet
+} from '../utils/questionSetFormats';
+import {
+  CURRENT_EXPORT_VERSION,
+  SUPPORTED_EXPORT_VERSIONS,
+  compareExportVersions,
+  migrateExportData
+} from '../utils/questionSetSchema';
+import { readXlsxRows } from '../utils/xlsx';
+import { summarizeQuestionSetStats, type QuestionItemRow } from '../utils/itemAnalysis';
+
+const isHttpUrl = (value: unknown): boolean => {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
 
 export class QuestionSetService {
   // Question Set CRUD operations
@@ -217,6 +246,9 @@ export class QuestionSetService {
         time_limit: data.time_limit || 30,
         difficulty: data.difficulty || 'medium',
         category: data.category,
+        alternative_answers: data.alternative_answers || [],
+        tags: data.tags || [],
+        media: data.media || null,
         order_index: data.order_index || 0
       })
       .select()
@@ -240,6 +272,9 @@ export class QuestionSetService {
         time_limit: q.time_limit || 30,
         difficulty: q.difficulty || 'medium',
         category: q.category,
+        alternative_answers: q.alternative_answers || [],
+        tags: q.tags || [],
+        media: q.media || null,
         order_index: q.order_index || 0
       })))
       .select();
@@ -261,6 +296,9 @@ export class QuestionSetService {
         time_limit: data.time_limit,
         difficulty: data.difficulty,
         category: data.category,
+        alternative_answers: data.alternative_answers,
+        tags: data.tags,
+        media: data.media,
         order_index: data.order_index,
         updated_at: new Date().toISOString()
       })
@@ -428,7 +466,7 @@ export class QuestionSetService {
         description: questionSet.description,
         created_at: questionSet.created_at,
         question_count: questionSet.question_count,
-        export_version: '1.0',
+        export_version: CURRENT_EXPORT_VERSION,
         tags: questionSet.tags?.map(t => t.name) || []
       },
       questions: questionSet.questions?.map(q => ({
@@ -440,7 +478,10 @@ export class QuestionSetService {
         points: q.points,
         time_limit: q.time_limit,
         difficulty: q.difficulty,
-        category: q.category
+        category: q.category,
+        alternative_answers: q.alternative_answers || [],
+        tags: q.tags || [],
+        media: q.media || null
       })) || []
     };
   }
@@ -456,6 +497,18 @@ export class QuestionSetService {
       if (!data.metadata.title) {
         errors.push({ field: 'metadata.title', message: 'Title is required' });
       }
+
+      const version = data.metadata.export_version;
+      if (!version) {
+        warnings.push({ field: 'metadata.export_version', message: 'No export version, file will be treated as 1.0' });
+      } else if (!SUPPORTED_EXPORT_VERSIONS.includes(String(version))) {
+        errors.push({ field: 'metadata.export_version', message: `Unsupported export version ${version}` });
+      } else if (compareExportVersions(String(version), CURRENT_EXPORT_VERSION) < 0) {
+        warnings.push({
+          field: 'metadata.export_version',
+          message: `Export version ${version} will be upgraded to ${CURRENT_EXPORT_VERSION}`
+        });
+      }
     }
 
     // Validate questions
@@ -494,6 +547,41 @@ export class QuestionSetService {
             message: 'Multiple choice questions need at least 2 options', 
             question_index: index 
           });
+        } else if (
+          question.type === 'multiple_choice' &&
+          question.correct_answer &&
+          !question.options.includes(question.correct_answer)
+        ) {
+          errors.push({
+            field: 'correct_answer',
+            message: 'Correct answer must match one of the options',
+            question_index: index
+          });
+        }
+
+        if (question.alternative_answers !== undefined && !Array.isArray(question.alternative_answers)) {
+          errors.push({
+            field: 'alternative_answers',
+            message: 'Alternative answers must be a list',
+            question_index: index
+          });
+        }
+
+        if (question.media) {
+          if (!['image', 'audio', 'video'].includes(question.media.type)) {
+            errors.push({
+              field: 'media.type',
+              message: 'Media type must be image, audio or video',
+              question_index: index
+            });
+          }
+          if (!isHttpUrl(question.media.url)) {
+            errors.push({
+              field: 'media.url',
+              message: 'Media URL must be an http or https address',
+              question_index: index
+            });
+          }
         }
       });
     }
@@ -506,7 +594,77 @@ export class QuestionSetService {
     };
   }
 
-  static async importQuestionSet(importData: QuestionSetExportData, title?: string): Promise<QuestionSet> {
+  static async exportQuestionSetAs(
+    id: string,
+    format: QuestionSetFileFormat = 'json'
+  ): Promise<QuestionSetExportFile> {
+    const exportData = await this.exportQuestionSet(id);
+    return serializeQuestionSet(exportData, format);
+  }
+
+  // Parse and validate a file without saving anything, so hosts can review
+  // row errors before importing
+  static previewImport(
+    content: string,
+    format: QuestionSetFileFormat,
+    options: ImportParseOptions = {}
+  ): ImportPreview {
+    return this.buildImportPreview(parseQuestionSetContent(content, format, options), format);
+  }
+
+  static async previewImportFile(
+    file: File,
+    options: ImportParseOptions & { format?: QuestionSetFileFormat } = {}
+  ): Promise<ImportPreview> {
+    const isWorkbook = /\.xlsx$/i.test(file.name);
+    const content = isWorkbook ? '' : await file.text();
+    const format = options.format || detectFileFormat(file.name, content);
+
+    try {
+      if (isWorkbook) {
+        if (format !== 'spreadsheet') {
+          throw new Error('Workbooks can only be imported with the spreadsheet layout');
+        }
+        const rows = await readXlsxRows(await file.arrayBuffer());
+        return this.buildImportPreview(parseSpreadsheetRows(rows, options), format);
+      }
+      return this.previewImport(content, format, options);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to read ${file.name}: ${message}`);
+    }
+  }
+
+  private static buildImportPreview(
+    parsed: ParsedQuestionSet,
+    format: QuestionSetFileFormat
+  ): ImportPreview {
+    const validation = this.validateImportData(parsed.data);
+    const withRow = <T extends { question_index?: number }>(issue: T) =>
+      issue.question_index === undefined ? issue : { ...issue, row: parsed.rows[issue.question_index] };
+
+    const errors = [...parsed.errors, ...validation.errors].map(withRow);
+    const warnings = [...parsed.warnings, ...validation.warnings].map(withRow);
+
+    return {
+      format,
+      data: parsed.data,
+      validation: {
+        ...validation,
+        is_valid: errors.length === 0,
+        errors,
+        warnings
+      },
+      rows: parsed.rows,
+      headers: parsed.headers,
+      columnMapping: parsed.columnMapping,
+      migration: parsed.migration
+    };
+  }
+
+  static async importQuestionSet(rawImportData: QuestionSetExportData, title?: string): Promise<QuestionSet> {
+    // Older exports are upgraded to the current schema before validation
+    const { data: importData } = migrateExportData(rawImportData);
     const validation = this.validateImportData(importData);
     if (!validation.is_valid) {
       throw new Error(`Import validation failed: ${validation.errors.map(e => e.message).join(', ')}`);
@@ -532,6 +690,9 @@ export class QuestionSetService {
       time_limit: q.time_limit || 30,
       difficulty: q.difficulty || 'medium',
       category: q.category,
+      alternative_answers: q.alternative_answers || [],
+      tags: q.tags || [],
+      media: q.media || null,
       order_index: index
     }));
 
@@ -541,14 +702,13 @@ export class QuestionSetService {
   }
 
   // Statistics operations
+  // Item analysis across every game the set's questions were played in
   static async getQuestionSetStats(id: string): Promise<QuestionSetStats> {
-    // This would integrate with your existing game statistics
-    // For now, returning mock data structure
-    return {
-      total_games_played: 0,
-      average_score: 0,
-      category_performance: {}
-    };
+    const questions = await this.getQuestionsBySetId(id);
+    const { data, error } = await supabase.rpc('get_question_item_stats', { p_question_set_id: id });
+
+    if (error) throw new Error(`Failed to load question stats: ${error.message}`);
+    return summarizeQuestionSetStats(questions, (data || []) as QuestionItemRow[]);
   }
 
   // Search operations
@@ -8,6 +8,8 @@ export interface ChannelSubscription {
   table?: string;
   filter?: string;
   event?: string;
+  topic?: string;
+  isPrivate?: boolean;
   callback: (payload: any) => void;
   createdAt: Date;
   lastActivity?: Date;
@@ -119,8 +121,11 @@ class RealtimeChannelManager {
   }
 
   private createChannel(subscription: ChannelSubscription): RealtimeChannel {
-    const channelName = `${subscription.type}:${subscription.id}:${Date.now()}`;
-    const channel = supabase.channel(channelName);
+    // Private channels are authorized by topic, so they keep the name asked for
+    const channelName = subscription.isPrivate && subscription.topic
+      ? subscription.topic
+      : `${subscription.type}:${subscription.id}:${Date.now()}`;
+    const channel = supabase.channel(channelName, subscription.isPrivate ? { config: { private: true } } : undefined);
 
     if (subscription.type === 'postgres' && subscription.table) {
       channel.on(
@@ -250,6 +255,7 @@ class RealtimeChannelManager {
     options: {
       event?: string;
       id?: string;
+      isPrivate?: boolean;
     } = {}
   ): Promise<string> {
     const id = options.id || this.generateSubscriptionId('broadcast', channelName);
@@ -265,10 +271,14 @@ class RealtimeChannelManager {
         id,
         type: 'broadcast',
         event: options.event,
+        topic: channelName,
+        isPrivate: options.isPrivate,
         callback,
       } as ChannelSubscription),
       type: 'broadcast',
       event: options.event,
+      topic: channelName,
+      isPrivate: options.isPrivate,
       callback,
       createdAt: new Date(),
       connectionAttempts: 0,
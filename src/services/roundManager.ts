@@ -47,6 +47,7 @@ export class RoundManager {
   private pointUsageMap: Map<string, Map<number, PointValue[]>> = new Map(); // participantId -> roundNumber -> usedPoints
   private roundStartTimes: Map<number, string> = new Map();
   private roundEndTimes: Map<number, string> = new Map();
+  private participants: Set<string> = new Set(); // teams (or players) taking part
 
   constructor(rounds: Round[] = []) {
     this.rounds = rounds;
@@ -450,8 +451,18 @@ export class RoundManager {
     this.roundEndTimes.clear();
   }
 
+  // Participant roster, kept in sync with the game's teams by the controller
+  setParticipants(participantIds: string[]): void {
+    this.participants = new Set(participantIds);
+  }
+
+  getParticipants(): string[] {
+    return [...this.participants];
+  }
+
   clearParticipant(participantId: string): void {
     this.pointUsageMap.delete(participantId);
+    this.participants.delete(participantId);
   }
 
   // Export/Import for persistence
@@ -101,7 +101,8 @@ export class ScheduledGameNotificationService {
       .from('scheduled_game_reminders')
       .update({ sent_at: new Date().toISOString() })
       .eq('scheduled_game_id', game.id)
-      .eq('time_before_minutes', minutesBefore);
+      .eq('time_before_minutes', minutesBefore)
+      .neq('reminder_type', 'push');
   }
 
   /**
@@ -205,6 +206,7 @@ export class ScheduledGameNotificationService {
         *,
         scheduled_game_reminders!inner(
           id,
+          reminder_type,
           time_before_minutes,
           sent_at
         ),
@@ -212,6 +214,8 @@ export class ScheduledGameNotificationService {
       `)
       .eq('status', 'scheduled')
       .is('scheduled_game_reminders.sent_at', null)
+      // Push reminders are sent by the send-game-reminders edge function
+      .neq('scheduled_game_reminders.reminder_type', 'push')
       .gte('scheduled_for', now.toISOString());
 
     if (error || !games) return;
@@ -0,0 +1,215 @@
+import { supabase } from '../lib/supabase';
+import type {
+  ScoreAdjustment,
+  ScoreHistoryEntry,
+  ScoreLedgerEntry,
+  ScoreLedgerEntryType,
+} from '../types/scoreManagement';
+
+export interface ScoreLedgerRow {
+  id: string;
+  sequence: number | string; // BIGSERIAL
+  game_room_id: string;
+  entity_type: 'team' | 'player';
+  entity_id: string;
+  round_id: string | null;
+  question_id: string | null;
+  entry_type: ScoreLedgerEntryType;
+  points: number;
+  reason: string;
+  performed_by: string | null;
+  reverts_entry_id: string | null;
+  created_at: string;
+}
+
+export interface ScoreAdjustmentInput {
+  entityId: string;
+  entityType: 'team' | 'player';
+  points: number;
+  reason: string;
+  type?: 'manual' | 'bonus' | 'penalty';
+  questionId?: string;
+}
+
+export interface ScoreHistoryLabels {
+  entityNames?: Record<string, string>;
+  questionTexts?: Record<string, string>;
+  performerNames?: Record<string, string>;
+}
+
+/**
+ * Every score change is an entry in an append-only ledger: grading adds
+ * automatic entries, hosts add manual ones with a reason, and a revert adds
+ * an entry cancelling the one it names. Scores are the ledger summed in
+ * order, so any past score can be rebuilt.
+ */
+export class ScoreLedgerService {
+  static async getEntries(gameId: string): Promise<ScoreLedgerEntry[]> {
+    const { data, error } = await supabase
+      .from('score_ledger')
+      .select('*')
+      .eq('game_room_id', gameId)
+      .order('sequence', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load score history: ${error.message}`);
+    }
+    return (data || []).map(row => this.fromRow(row));
+  }
+
+  static async adjustScore(gameId: string, input: ScoreAdjustmentInput): Promise<ScoreLedgerEntry> {
+    const { data, error } = await supabase.rpc('adjust_score', {
+      p_game_room_id: gameId,
+      p_entity_type: input.entityType,
+      p_entity_id: input.entityId,
+      p_points: input.points,
+      p_reason: input.reason,
+      p_entry_type: input.type ?? 'manual',
+      p_question_id: input.questionId ?? null
+    });
+
+    if (error) {
+      throw new Error(`Failed to adjust score: ${error.message}`);
+    }
+    return this.fromRow(data);
+  }
+
+  static async revertEntry(entryId: string, reason: string): Promise<ScoreLedgerEntry> {
+    const { data, error } = await supabase.rpc('revert_score_entry', {
+      p_entry_id: entryId,
+      p_reason: reason
+    });
+
+    if (error) {
+      throw new Error(`Failed to revert score change: ${error.message}`);
+    }
+    return this.fromRow(data);
+  }
+
+  static fromRow(row: ScoreLedgerRow): ScoreLedgerEntry {
+    return {
+      id: row.id,
+      sequence: Number(row.sequence),
+      gameId: row.game_room_id,
+      entityId: row.entity_id,
+      entityType: row.entity_type,
+      roundId: row.round_id ?? undefined,
+      questionId: row.question_id ?? undefined,
+      type: row.entry_type,
+      points: row.points,
+      reason: row.reason,
+      performedBy: row.performed_by ?? null,
+      revertsEntryId: row.reverts_entry_id ?? undefined,
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
+
+/**
+ * The ledger as history rows with each entity's running total before and
+ * after every entry, in ledger order.
+ */
+export function buildScoreHistory(
+  entries: ScoreLedgerEntry[],
+  labels: ScoreHistoryLabels = {}
+): ScoreHistoryEntry[] {
+  const totals = new Map<string, number>();
+  const reverted = new Set(entries.map(entry => entry.revertsEntryId).filter(Boolean));
+
+  return [...entries]
+    .sort((a, b) => a.sequence - b.sequence)
+    .map(entry => {
+      const previousScore = totals.get(entry.entityId) ?? 0;
+      const newScore = previousScore + entry.points;
+      totals.set(entry.entityId, newScore);
+
+      return {
+        id: entry.id,
+        timestamp: entry.createdAt,
+        type: entry.type,
+        entityId: entry.entityId,
+        entityType: entry.entityType,
+        entityName: labels.entityNames?.[entry.entityId] ?? 'Unknown',
+        previousScore,
+        newScore,
+        adjustment: entry.points,
+        reason: entry.reason,
+        performedBy: entry.performedBy
+          ? labels.performerNames?.[entry.performedBy] ?? 'Another host'
+          : 'Automatic scoring',
+        questionId: entry.questionId,
+        questionText: entry.questionId ? labels.questionTexts?.[entry.questionId] : undefined,
+        isReverted: reverted.has(entry.id),
+        relatedAdjustmentId: entry.revertsEntryId
+      };
+    });
+}
+
+// Every change except the reverts themselves, marked with who reverted it and when
+export function toScoreAdjustments(entries: ScoreLedgerEntry[]): ScoreAdjustment[] {
+  const history = buildScoreHistory(entries);
+  const reverts = new Map(
+    entries.filter(entry => entry.revertsEntryId).map(entry => [entry.revertsEntryId as string, entry])
+  );
+
+  return entries
+    .filter(entry => entry.type !== 'revert')
+    .map(entry => {
+      const row = history.find(item => item.id === entry.id) as ScoreHistoryEntry;
+      const revert = reverts.get(entry.id);
+      return {
+        id: entry.id,
+        type: entry.type === 'bonus' || entry.type === 'penalty'
+          ? entry.type
+          : entry.questionId ? 'question' : 'total',
+        entityId: entry.entityId,
+        entityType: entry.entityType,
+        questionId: entry.questionId,
+        previousScore: row.previousScore,
+        newScore: row.newScore,
+        adjustment: entry.points,
+        reason: entry.reason,
+        adjustedBy: entry.performedBy ?? 'system',
+        timestamp: entry.createdAt,
+        isReverted: !!revert,
+        revertedAt: revert?.createdAt,
+        revertedBy: revert?.performedBy ?? undefined
+      };
+    });
+}
+
+// Each entity's current total from the ledger
+export function getLedgerTotals(entries: ScoreLedgerEntry[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  entries.forEach(entry => {
+    totals.set(entry.entityId, (totals.get(entry.entityId) ?? 0) + entry.points);
+  });
+  return totals;
+}
+
+/**
+ * An entity's score as the scoreboard showed it right after a question was
+ * scored: everything in the ledger up to that question's last automatic
+ * entry (or its last entry, for questions only scored by hand). Null when
+ * the question never appears in the history. Expects history in ledger
+ * order, as built by buildScoreHistory.
+ */
+export function getScoreAsOfQuestion(
+  history: ScoreHistoryEntry[],
+  entityId: string,
+  questionId: string
+): number | null {
+  const lastIndexWhere = (predicate: (entry: ScoreHistoryEntry) => boolean) =>
+    history.reduce((found, entry, index) => (predicate(entry) ? index : found), -1);
+
+  let cutoff = lastIndexWhere(entry => entry.questionId === questionId && entry.type === 'automatic');
+  if (cutoff === -1) {
+    cutoff = lastIndexWhere(entry => entry.questionId === questionId);
+  }
+  if (cutoff === -1) return null;
+
+  for (let index = cutoff; index >= 0; index--) {
+    if (history[index].entityId === entityId) return history[index].newScore;
+  }
+  return 0;
+}
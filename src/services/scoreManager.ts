@@ -1,6 +1,8 @@
 import type { AnswerSubmission } from './answerSubmissionManager';
 import { AnswerSubmissionManager } from './answerSubmissionManager';
 import { RoundManager } from './roundManager';
+import { answerMatcher } from './answerMatcher';
+import type { GameState, Question } from '../types/game';
 
 export interface PlayerScore {
   playerId: string;
@@ -38,6 +40,7 @@ export interface QuestionScore {
   answer: string;
   correctAnswer: string;
   isCorrect: boolean;
+  matchConfidence?: number; // 0-1, from the answer matcher
   pointsAwarded: number;
   pointsAttempted: number;
   timeTaken?: number; // seconds
@@ -196,7 +199,8 @@ export class ScoreManager {
       throw new Error(`Question ${submission.questionId} not found in current round`);
     }
 
-    const isCorrect = this.isAnswerCorrect(submission.answer, question.correctAnswer);
+    const answerMatch = this.matchAnswer(submission.answer, question);
+    const isCorrect = answerMatch.isMatch;
     const basePoints = submission.pointValue;
     let pointsAwarded = 0;
     let bonusPoints = 0;
@@ -232,6 +236,7 @@ export class ScoreManager {
       answer: submission.answer,
       correctAnswer: question.correctAnswer,
       isCorrect,
+      matchConfidence: answerMatch.confidence,
       pointsAwarded,
       pointsAttempted: basePoints,
       bonusPoints,
@@ -281,10 +286,12 @@ export class ScoreManager {
     return questionScore;
   }
 
-  private isAnswerCorrect(submittedAnswer: string, correctAnswer: string): boolean {
-    // Normalize answers for comparison
-    const normalize = (answer: string) => answer.trim().toLowerCase();
-    return normalize(submittedAnswer) === normalize(correctAnswer);
+  private matchAnswer(submittedAnswer: string, question: Question) {
+    return answerMatcher.match(submittedAnswer, question.correctAnswer, {
+      alternativeAnswers: question.alternativeAnswers,
+      strictness: question.answerStrictness,
+      answerKind: question.answerKind
+    });
   }
 
   private calculateBonusPoints(playerId: string, questionId: string): number {
@@ -338,6 +345,7 @@ export class ScoreManager {
     }
 
     const previousScore = playerScore.totalScore;
+    const replaced = playerScore.questionScores.get(questionScore.questionId);
 
     // Update question scores
     playerScore.questionScores.set(questionScore.questionId, questionScore);
@@ -349,12 +357,12 @@ export class ScoreManager {
       playerScore.roundScores.set(currentRound.id, currentRoundScore + questionScore.pointsAwarded);
     }
 
-    // Recalculate total score
-    playerScore.totalScore = Array.from(playerScore.questionScores.values())
-      .reduce((total, score) => total + score.pointsAwarded, 0);
+    // Adjust the total rather than summing question scores, so standings
+    // restored from a checkpoint carry over
+    playerScore.totalScore = previousScore - (replaced?.pointsAwarded ?? 0) + questionScore.pointsAwarded;
 
     // Update statistics
-    this.updatePlayerStatistics(playerScore);
+    this.updatePlayerStatistics(playerScore, questionScore, replaced);
 
     // Create score update record
     const scoreUpdate: ScoreUpdate = {
@@ -388,19 +396,28 @@ export class ScoreManager {
     };
   }
 
-  private updatePlayerStatistics(playerScore: PlayerScore): void {
-    const questionScores = Array.from(playerScore.questionScores.values());
-    
-    playerScore.correctAnswers = questionScores.filter(score => score.isCorrect).length;
-    playerScore.incorrectAnswers = questionScores.filter(score => !score.isCorrect).length;
-    playerScore.totalQuestions = questionScores.length;
+  private updatePlayerStatistics(
+    playerScore: PlayerScore,
+    questionScore: QuestionScore,
+    replaced?: QuestionScore
+  ): void {
+    const pointsAttempted = playerScore.averagePointValue * playerScore.totalQuestions
+      - (replaced?.pointsAttempted ?? 0) + questionScore.pointsAttempted;
+
+    if (replaced) {
+      if (replaced.isCorrect) playerScore.correctAnswers--;
+      else playerScore.incorrectAnswers--;
+    }
+    if (questionScore.isCorrect) playerScore.correctAnswers++;
+    else playerScore.incorrectAnswers++;
+    playerScore.totalQuestions = playerScore.correctAnswers + playerScore.incorrectAnswers;
     
     playerScore.accuracy = playerScore.totalQuestions > 0 
       ? (playerScore.correctAnswers / playerScore.totalQuestions) * 100 
       : 0;
     
-    playerScore.averagePointValue = questionScores.length > 0
-      ? questionScores.reduce((sum, score) => sum + score.pointsAttempted, 0) / questionScores.length
+    playerScore.averagePointValue = playerScore.totalQuestions > 0
+      ? pointsAttempted / playerScore.totalQuestions
       : 0;
     
     playerScore.lastUpdated = new Date();
@@ -413,6 +430,51 @@ export class ScoreManager {
     // but the structure is here for future implementation
   }
 
+  /**
+   * Add points to a team outside of answer grading, such as a settled
+   * final round wager. Negative points take them away.
+   */
+  public adjustTeamScore(teamId: string, roundId: string, points: number): TeamScore {
+    let teamScore = this.teamScores.get(teamId);
+
+    if (!teamScore) {
+      teamScore = this.createTeamScore(teamId);
+      this.teamScores.set(teamId, teamScore);
+    }
+
+    teamScore.totalScore += points;
+    teamScore.roundScores.set(roundId, (teamScore.roundScores.get(roundId) ?? 0) + points);
+    teamScore.lastUpdated = new Date();
+
+    this.emitEvent(points < 0 ? ScoreEventType.PENALTY_APPLIED : ScoreEventType.BONUS_AWARDED, {
+      teamId,
+      data: { roundId, points }
+    });
+
+    if (this.options.autoUpdateLeaderboard) {
+      this.updateLeaderboards();
+    }
+
+    return teamScore;
+  }
+
+  private createTeamScore(teamId: string): TeamScore {
+    return {
+      teamId,
+      teamName: teamId,
+      totalScore: 0,
+      roundScores: new Map(),
+      playerScores: new Map(),
+      correctAnswers: 0,
+      incorrectAnswers: 0,
+      totalQuestions: 0,
+      accuracy: 0,
+      averagePointValue: 0,
+      rank: 0,
+      lastUpdated: new Date()
+    };
+  }
+
   // Leaderboard Management
   public getPlayerLeaderboard(): LeaderboardEntry[] {
     const entries: LeaderboardEntry[] = Array.from(this.playerScores.values())
@@ -607,6 +669,60 @@ export class ScoreManager {
     this.scoreUpdates.length = 0;
   }
 
+  /**
+   * Pick up the standings recorded in the game state, e.g. when a host
+   * resumes a game from a checkpoint. Later answers add to these totals.
+   */
+  public restoreStandings(
+    players: GameState['players'],
+    teams: GameState['teams']
+  ): void {
+    this.reset();
+
+    const toRoundScores = (scores: Record<number, number>) => {
+      const roundScores = new Map<string, number>();
+      for (const [roundNumber, score] of Object.entries(scores)) {
+        const round = this.roundManager.getRound(Number(roundNumber));
+        roundScores.set(round?.id ?? roundNumber, score);
+      }
+      return roundScores;
+    };
+    const toPlayerScore = (score: GameState['players'][string]): PlayerScore => ({
+      ...this.createPlayerScore(score.playerId),
+      totalScore: score.totalPoints,
+      roundScores: toRoundScores(score.roundScores),
+      correctAnswers: score.correctAnswers,
+      incorrectAnswers: score.totalAnswers - score.correctAnswers,
+      totalQuestions: score.totalAnswers,
+      accuracy: score.totalAnswers > 0 ? (score.correctAnswers / score.totalAnswers) * 100 : 0
+    });
+
+    Object.values(players).forEach(score => {
+      this.playerScores.set(score.playerId, toPlayerScore(score));
+    });
+
+    Object.values(teams).forEach(score => {
+      this.teamScores.set(score.teamId, {
+        teamId: score.teamId,
+        teamName: score.teamId,
+        totalScore: score.totalPoints,
+        roundScores: toRoundScores(score.roundScores),
+        playerScores: new Map(
+          Object.values(score.memberScores).map(member => [member.playerId, toPlayerScore(member)])
+        ),
+        correctAnswers: score.correctAnswers,
+        incorrectAnswers: score.totalAnswers - score.correctAnswers,
+        totalQuestions: score.totalAnswers,
+        accuracy: score.totalAnswers > 0 ? (score.correctAnswers / score.totalAnswers) * 100 : 0,
+        averagePointValue: 0,
+        rank: 0,
+        lastUpdated: new Date()
+      });
+    });
+
+    this.updateLeaderboards();
+  }
+
   public exportState(): {
     playerScores: PlayerScore[];
     teamScores: TeamScore[];
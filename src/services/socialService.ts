@@ -12,6 +12,7 @@ import type {
   SocialAchievement,
   Visibility
 } from '../types/social';
+import { findNewAchievements, socialAchievementRule, socialFacts } from '../utils/achievements';
 
 export class SocialService {
   // Reactions
@@ -379,42 +380,13 @@ export class SocialService {
     return data || [];
   }
 
+  // Social achievement ids the user's social stats now meet
   static async checkSocialAchievements(userId: string): Promise<string[]> {
-    // This would check user's social stats against achievement requirements
-    // and return newly earned achievement IDs
     const stats = await this.getUserSocialStats(userId);
     if (!stats) return [];
 
-    const achievements = await this.getSocialAchievements();
-    const earnedAchievements: string[] = [];
-
-    for (const achievement of achievements) {
-      let earned = false;
-
-      switch (achievement.requirement_type) {
-        case 'friends_count':
-          earned = stats.friends_count >= achievement.requirement_value;
-          break;
-        case 'reactions_given':
-          earned = stats.total_reactions_given >= achievement.requirement_value;
-          break;
-        case 'reactions_received':
-          earned = stats.total_reactions_received >= achievement.requirement_value;
-          break;
-        case 'followers_count':
-          earned = stats.followers_count >= achievement.requirement_value;
-          break;
-        case 'social_score':
-          earned = stats.social_score >= achievement.requirement_value;
-          break;
-      }
-
-      if (earned) {
-        earnedAchievements.push(achievement.achievement_id);
-      }
-    }
-
-    return earnedAchievements;
+    const rules = (await this.getSocialAchievements()).map(socialAchievementRule);
+    return findNewAchievements(rules, socialFacts(stats), []).map(rule => rule.id);
   }
 
   // Real-time subscriptions
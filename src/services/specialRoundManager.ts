@@ -1,29 +1,45 @@
 import { RoundManager } from './roundManager';
 import { ScoreManager } from './scoreManager';
+import { answerMatcher } from './answerMatcher';
 import type {
   SpecialRound,
   SpecialRoundEvent,
   WagerRound,
   WagerSubmission,
-  WagerPhase,
   PictureRound,
-  ImageLoadStatus,
   BonusRound,
   BonusParticipantStatus,
   BonusScore,
   LightningRound,
   LightningProgress,
+  AudioRound,
+  AudioPlaybackStatus,
+  VideoRound,
+  VideoPlaybackStatus,
+  TeamChallengeRound,
+  TeamSubmission,
+  DiscussionEntry,
+  FinalJeopardyRound,
+  FinalJeopardyEntry,
   SpecialRoundConfig,
   SpecialRoundValidationResult,
   SpecialRoundMetrics
 } from '../types/specialRounds';
 import {
   SpecialRoundType,
-  SpecialRoundEventType
+  SpecialRoundEventType,
+  WagerPhase,
+  ImageLoadStatus,
+  AudioLoadStatus,
+  VideoLoadStatus,
+  FinalJeopardyPhase
 } from '../types/specialRounds';
 
 export type SpecialRoundEventListener = (event: SpecialRoundEvent) => void;
 
+// Browsers that ignore preload hints (iOS Safari) never fire canplaythrough
+const MEDIA_LOAD_TIMEOUT = 15000;
+
 export interface SpecialRoundManagerOptions {
   enableWagerRounds?: boolean;
   enablePictureRounds?: boolean;
@@ -32,6 +48,7 @@ export interface SpecialRoundManagerOptions {
   enableAudioRounds?: boolean;
   enableVideoRounds?: boolean;
   enableTeamChallengeRounds?: boolean;
+  enableFinalJeopardyRounds?: boolean;
   autoPreloadMedia?: boolean;
   validateRoundTransitions?: boolean;
   persistRoundData?: boolean;
@@ -63,6 +80,7 @@ export class SpecialRoundManager {
       enableAudioRounds: true,
       enableVideoRounds: true,
       enableTeamChallengeRounds: true,
+      enableFinalJeopardyRounds: true,
       autoPreloadMedia: true,
       validateRoundTransitions: true,
       persistRoundData: true,
@@ -70,7 +88,6 @@ export class SpecialRoundManager {
     };
 
     this.setupDefaultConfigs();
-    this.setupEventListeners();
   }
 
   private setupDefaultConfigs(): void {
@@ -144,22 +161,74 @@ export class SpecialRoundManager {
       });
     }
 
-    // Additional configs for other round types...
-  }
+    // Default Audio Round Config
+    if (this.options.enableAudioRounds) {
+      this.specialRoundConfigs.set(SpecialRoundType.AUDIO, {
+        specialType: SpecialRoundType.AUDIO,
+        enabled: true,
+        settings: {
+          audioQuality: 'high',
+          allowReplay: true,
+          maxReplays: 2,
+          autoPlay: false,
+          showWaveform: false,
+          showPlaybackControls: true,
+          preloadAudio: true
+        }
+      });
+    }
 
-  private setupEventListeners(): void {
-    // Listen to round manager events
-    this.roundManager.addEventListener('round_started', (event) => {
-      if (this.isSpecialRound(event.data?.round)) {
-        this.handleSpecialRoundStart(event.data.round);
-      }
-    });
+    // Default Video Round Config
+    if (this.options.enableVideoRounds) {
+      this.specialRoundConfigs.set(SpecialRoundType.VIDEO, {
+        specialType: SpecialRoundType.VIDEO,
+        enabled: true,
+        settings: {
+          videoQuality: 'high',
+          allowReplay: true,
+          maxReplays: 2,
+          autoPlay: false,
+          showControls: true,
+          allowSeek: false,
+          preloadVideo: true,
+          showSubtitles: true
+        }
+      });
+    }
 
-    this.roundManager.addEventListener('round_ended', (event) => {
-      if (this.currentSpecialRound) {
-        this.handleSpecialRoundEnd();
-      }
-    });
+    // Default Team Challenge Config
+    if (this.options.enableTeamChallengeRounds) {
+      this.specialRoundConfigs.set(SpecialRoundType.TEAM_CHALLENGE, {
+        specialType: SpecialRoundType.TEAM_CHALLENGE,
+        enabled: true,
+        settings: {
+          requiresTeams: true,
+          minTeamSize: 2,
+          maxTeamSize: 6,
+          allowIndividualParticipation: false,
+          teamBonusMultiplier: 1.5,
+          collaborativeAnswering: true,
+          teamCaptainOnly: true,
+          discussionTimeLimit: 90
+        }
+      });
+    }
+
+    // Default Final Jeopardy Config
+    if (this.options.enableFinalJeopardyRounds) {
+      this.specialRoundConfigs.set(SpecialRoundType.FINAL_JEOPARDY, {
+        specialType: SpecialRoundType.FINAL_JEOPARDY,
+        enabled: true,
+        settings: {
+          category: '',
+          wagerTimeLimit: 60,
+          answerTimeLimit: 30,
+          allowZeroWager: true,
+          minimumMaxWager: 0,
+          revealOrder: 'lowest_first'
+        }
+      });
+    }
   }
 
   // Special Round Management
@@ -177,7 +246,7 @@ export class SpecialRoundManager {
       await this.initializeSpecialRound(specialRound);
 
       // Start the round
-      await this.roundManager.startRound(specialRound);
+      this.roundManager.startRound(specialRound.number);
 
       this.emitEvent(SpecialRoundEventType.ROUND_STARTED, {
         roundId: specialRound.id,
@@ -201,7 +270,7 @@ export class SpecialRoundManager {
       await this.finalizeSpecialRound(this.currentSpecialRound);
 
       // End the round
-      await this.roundManager.endRound();
+      this.roundManager.completeRound(this.currentSpecialRound.number);
 
       this.emitEvent(SpecialRoundEventType.ROUND_ENDED, {
         roundId: this.currentSpecialRound.id,
@@ -613,11 +682,586 @@ export class SpecialRoundManager {
     }
   }
 
-  // Utility Methods
-  private isSpecialRound(round: any): round is SpecialRound {
-    return round && round.type === 'special' && round.specialType;
+  // Audio & Video Round Management
+  public async preloadAudio(audioRound: AudioRound): Promise<void> {
+    for (const question of audioRound.questions) {
+      audioRound.audioLoadingStatus.set(question.id, AudioLoadStatus.PENDING);
+    }
+    if (!this.options.autoPreloadMedia || !audioRound.settings.preloadAudio) return;
+
+    for (const question of audioRound.questions) {
+      try {
+        audioRound.audioLoadingStatus.set(question.id, AudioLoadStatus.LOADING);
+        await this.loadMedia('audio', question.audioUrl);
+        audioRound.audioLoadingStatus.set(question.id, AudioLoadStatus.LOADED);
+
+        this.emitEvent(SpecialRoundEventType.AUDIO_LOADED, {
+          roundId: audioRound.id,
+          specialType: SpecialRoundType.AUDIO,
+          data: { questionId: question.id, audioUrl: question.audioUrl }
+        });
+
+      } catch (error) {
+        audioRound.audioLoadingStatus.set(question.id, AudioLoadStatus.ERROR);
+
+        this.emitEvent(SpecialRoundEventType.AUDIO_ERROR, {
+          roundId: audioRound.id,
+          specialType: SpecialRoundType.AUDIO,
+          data: { questionId: question.id, error: (error as Error).message }
+        });
+      }
+    }
+  }
+
+  public async preloadVideos(videoRound: VideoRound): Promise<void> {
+    for (const question of videoRound.questions) {
+      videoRound.videoLoadingStatus.set(question.id, VideoLoadStatus.PENDING);
+    }
+    if (!this.options.autoPreloadMedia || !videoRound.settings.preloadVideo) return;
+
+    for (const question of videoRound.questions) {
+      try {
+        videoRound.videoLoadingStatus.set(question.id, VideoLoadStatus.LOADING);
+        await this.loadMedia('video', question.videoUrl);
+        videoRound.videoLoadingStatus.set(question.id, VideoLoadStatus.LOADED);
+
+        this.emitEvent(SpecialRoundEventType.VIDEO_LOADED, {
+          roundId: videoRound.id,
+          specialType: SpecialRoundType.VIDEO,
+          data: { questionId: question.id, videoUrl: question.videoUrl }
+        });
+
+      } catch (error) {
+        videoRound.videoLoadingStatus.set(question.id, VideoLoadStatus.ERROR);
+
+        this.emitEvent(SpecialRoundEventType.VIDEO_ERROR, {
+          roundId: videoRound.id,
+          specialType: SpecialRoundType.VIDEO,
+          data: { questionId: question.id, error: (error as Error).message }
+        });
+      }
+    }
+  }
+
+  private async loadMedia(kind: 'audio' | 'video', url: string): Promise<HTMLMediaElement> {
+    return new Promise((resolve, reject) => {
+      const media = kind === 'audio' ? new Audio() : document.createElement('video');
+      const timeout = setTimeout(
+        () => reject(new Error(`Timed out loading ${kind}: ${url}`)),
+        MEDIA_LOAD_TIMEOUT
+      );
+
+      media.preload = 'auto';
+      media.oncanplaythrough = () => {
+        clearTimeout(timeout);
+        this.mediaCache.set(url, media);
+        resolve(media);
+      };
+      media.onerror = () => {
+        clearTimeout(timeout);
+        reject(new Error(`Failed to load ${kind}: ${url}`));
+      };
+      media.src = url;
+    });
+  }
+
+  /**
+   * Whether a participant may start (or resume) a clip. Without replays each
+   * clip plays once; with replays `maxReplays` is the total number of plays.
+   */
+  public canPlayMedia(questionId: string, participantId: string): boolean {
+    const mediaRound = this.getCurrentMediaRound();
+    if (!mediaRound) return false;
+
+    const status = mediaRound.playbackStatus.get(this.getPlaybackKey(questionId, participantId));
+    if (!status) return true;
+    if (status.isPlaying || status.currentTime > 0) return true;
+
+    return status.playCount < this.getMaxPlays(mediaRound);
+  }
+
+  public playMedia(questionId: string, participantId: string): AudioPlaybackStatus | VideoPlaybackStatus {
+    const mediaRound = this.getCurrentMediaRound();
+    if (!mediaRound) {
+      throw new Error('No active audio or video round');
+    }
+
+    if (!this.canPlayMedia(questionId, participantId)) {
+      throw new Error('Replay limit reached for this question');
+    }
+
+    const status = this.getPlaybackStatus(mediaRound, questionId, participantId);
+    if (!status.isPlaying && status.currentTime === 0) {
+      status.playCount++;
+    }
+    status.isPlaying = true;
+    status.lastPlayedAt = new Date();
+
+    const isAudio = mediaRound.specialType === SpecialRoundType.AUDIO;
+    this.emitEvent(isAudio ? SpecialRoundEventType.AUDIO_PLAYED : SpecialRoundEventType.VIDEO_PLAYED, {
+      roundId: mediaRound.id,
+      specialType: mediaRound.specialType,
+      participantId,
+      data: { questionId, playCount: status.playCount }
+    });
+
+    return status;
+  }
+
+  public pauseMedia(questionId: string, participantId: string, currentTime: number): void {
+    const mediaRound = this.getCurrentMediaRound();
+    if (!mediaRound) {
+      throw new Error('No active audio or video round');
+    }
+
+    const status = this.getPlaybackStatus(mediaRound, questionId, participantId);
+    status.isPlaying = false;
+    status.currentTime = currentTime;
+
+    const isAudio = mediaRound.specialType === SpecialRoundType.AUDIO;
+    this.emitEvent(isAudio ? SpecialRoundEventType.AUDIO_PAUSED : SpecialRoundEventType.VIDEO_PAUSED, {
+      roundId: mediaRound.id,
+      specialType: mediaRound.specialType,
+      participantId,
+      data: { questionId, currentTime }
+    });
+  }
+
+  public updateMediaProgress(questionId: string, participantId: string, currentTime: number): void {
+    const mediaRound = this.getCurrentMediaRound();
+    if (!mediaRound) return;
+
+    const status = this.getPlaybackStatus(mediaRound, questionId, participantId);
+    status.currentTime = currentTime;
+  }
+
+  /**
+   * Called when a clip plays to the end; the next play counts as a replay
+   */
+  public completeMediaPlayback(questionId: string, participantId: string): void {
+    const mediaRound = this.getCurrentMediaRound();
+    if (!mediaRound) return;
+
+    const status = this.getPlaybackStatus(mediaRound, questionId, participantId);
+    status.isPlaying = false;
+    status.currentTime = 0;
+  }
+
+  private getPlaybackStatus(
+    mediaRound: AudioRound | VideoRound,
+    questionId: string,
+    participantId: string
+  ): AudioPlaybackStatus | VideoPlaybackStatus {
+    const key = this.getPlaybackKey(questionId, participantId);
+    let status = mediaRound.playbackStatus.get(key);
+
+    if (!status) {
+      const questions: Array<{ id: string; audioDuration?: number; videoDuration?: number }> =
+        mediaRound.questions;
+      const question = questions.find(q => q.id === questionId);
+      status = {
+        questionId,
+        participantId,
+        isPlaying: false,
+        currentTime: 0,
+        duration: question?.audioDuration ?? question?.videoDuration ?? 0,
+        playCount: 0
+      };
+      mediaRound.playbackStatus.set(key, status);
+    }
+
+    return status;
+  }
+
+  private getPlaybackKey(questionId: string, participantId: string): string {
+    return `${questionId}:${participantId}`;
+  }
+
+  private getMaxPlays(mediaRound: AudioRound | VideoRound): number {
+    return mediaRound.settings.allowReplay ? Math.max(1, mediaRound.settings.maxReplays) : 1;
+  }
+
+  // Team Challenge Management
+  public startTeamDiscussion(): void {
+    const teamRound = this.getCurrentTeamChallengeRound();
+    if (!teamRound) {
+      throw new Error('No active team challenge round');
+    }
+
+    const timeLimit = teamRound.settings.discussionTimeLimit;
+    teamRound.discussionPhase = true;
+    teamRound.discussionDeadline = new Date(Date.now() + timeLimit * 1000);
+
+    const timerId = `discussion_${teamRound.id}`;
+    this.timers.set(timerId, setTimeout(() => this.endTeamDiscussion(), timeLimit * 1000));
+
+    this.emitEvent(SpecialRoundEventType.TEAM_DISCUSSION_STARTED, {
+      roundId: teamRound.id,
+      specialType: SpecialRoundType.TEAM_CHALLENGE,
+      data: { discussionDeadline: teamRound.discussionDeadline }
+    });
+  }
+
+  public endTeamDiscussion(): void {
+    const teamRound = this.getCurrentTeamChallengeRound();
+    if (!teamRound || !teamRound.discussionPhase) return;
+
+    const timerId = `discussion_${teamRound.id}`;
+    const timer = this.timers.get(timerId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(timerId);
+    }
+
+    teamRound.discussionPhase = false;
+    teamRound.discussionDeadline = undefined;
+
+    this.emitEvent(SpecialRoundEventType.TEAM_DISCUSSION_ENDED, {
+      roundId: teamRound.id,
+      specialType: SpecialRoundType.TEAM_CHALLENGE
+    });
+  }
+
+  public addDiscussionEntry(
+    teamId: string,
+    participantId: string,
+    message: string,
+    type: DiscussionEntry['type'] = 'message'
+  ): DiscussionEntry {
+    const teamRound = this.getCurrentTeamChallengeRound();
+    if (!teamRound) {
+      throw new Error('No active team challenge round');
+    }
+
+    if (!teamRound.discussionPhase) {
+      throw new Error('Team discussion is not active');
+    }
+
+    const trimmed = message.trim();
+    if (!trimmed) {
+      throw new Error('Discussion message cannot be empty');
+    }
+
+    const entry: DiscussionEntry = {
+      participantId,
+      message: trimmed,
+      timestamp: new Date(),
+      type
+    };
+
+    const log = teamRound.discussionLogs.get(teamId) || [];
+    log.push(entry);
+    teamRound.discussionLogs.set(teamId, log);
+
+    this.emitEvent(SpecialRoundEventType.TEAM_DISCUSSION_MESSAGE, {
+      roundId: teamRound.id,
+      specialType: SpecialRoundType.TEAM_CHALLENGE,
+      participantId,
+      teamId,
+      data: { entry }
+    });
+
+    return entry;
+  }
+
+  /**
+   * Submit (or replace) a team's answer. The discussion so far is attached
+   * to the submission so the host can see how the team got there.
+   */
+  public submitTeamAnswer(
+    teamId: string,
+    participantId: string,
+    answer: string,
+    isCaptain: boolean
+  ): TeamSubmission {
+    const teamRound = this.getCurrentTeamChallengeRound();
+    if (!teamRound) {
+      throw new Error('No active team challenge round');
+    }
+
+    if (teamRound.settings.teamCaptainOnly && !isCaptain) {
+      throw new Error('Only the team captain can submit the answer');
+    }
+
+    const trimmed = answer.trim();
+    if (!trimmed) {
+      throw new Error('Team answer cannot be empty');
+    }
+
+    const submission: TeamSubmission = {
+      teamId,
+      captainId: participantId,
+      answer: trimmed,
+      submittedAt: new Date(),
+      discussionLog: [...(teamRound.discussionLogs.get(teamId) || [])]
+    };
+
+    teamRound.teamSubmissions.set(teamId, submission);
+
+    this.emitEvent(SpecialRoundEventType.TEAM_ANSWER_SUBMITTED, {
+      roundId: teamRound.id,
+      specialType: SpecialRoundType.TEAM_CHALLENGE,
+      participantId,
+      teamId,
+      data: { submittedAt: submission.submittedAt }
+    });
+
+    return submission;
+  }
+
+  // Final Jeopardy Management
+  public initializeFinalJeopardyRound(finalRound: FinalJeopardyRound): void {
+    finalRound.phase = FinalJeopardyPhase.CATEGORY_REVEAL;
+    finalRound.revealQueue = [];
+    finalRound.entries = new Map();
+
+    for (const participantId of this.roundManager.getParticipants()) {
+      finalRound.entries.set(participantId, {
+        participantId,
+        startingScore: this.scoreManager.getTeamScore(participantId)?.totalScore ?? 0,
+        isRevealed: false
+      });
+    }
+  }
+
+  public async advanceFinalJeopardyPhase(): Promise<void> {
+    const finalRound = this.getCurrentFinalJeopardyRound();
+    if (!finalRound) {
+      throw new Error('No active final jeopardy round');
+    }
+
+    const phases = Object.values(FinalJeopardyPhase);
+    const currentIndex = phases.indexOf(finalRound.phase);
+    if (currentIndex >= phases.length - 1) return;
+
+    this.clearFinalJeopardyTimer(finalRound);
+    finalRound.phase = phases[currentIndex + 1];
+    finalRound.phaseDeadline = undefined;
+
+    this.emitEvent(SpecialRoundEventType.PHASE_CHANGED, {
+      roundId: finalRound.id,
+      specialType: SpecialRoundType.FINAL_JEOPARDY,
+      data: { oldPhase: phases[currentIndex], newPhase: finalRound.phase }
+    });
+
+    switch (finalRound.phase) {
+      case FinalJeopardyPhase.WAGER_SUBMISSION:
+        this.startFinalJeopardyTimer(finalRound, finalRound.settings.wagerTimeLimit);
+        break;
+      case FinalJeopardyPhase.QUESTION_DISPLAY:
+        // Anyone who didn't wager in time is in for nothing
+        for (const entry of finalRound.entries.values()) {
+          entry.wagerAmount ??= 0;
+        }
+        break;
+      case FinalJeopardyPhase.ANSWER_SUBMISSION:
+        this.startFinalJeopardyTimer(finalRound, finalRound.settings.answerTimeLimit);
+        break;
+      case FinalJeopardyPhase.REVEAL:
+        finalRound.revealQueue = this.getFinalJeopardyRevealOrder(finalRound);
+        break;
+      case FinalJeopardyPhase.RESULTS:
+        while (finalRound.revealQueue.length > 0) {
+          this.revealNextFinalAnswer();
+        }
+        break;
+    }
+  }
+
+  /**
+   * The most a participant can wager: their score going in, or the round's
+   * floor for participants at or below zero
+   */
+  public getFinalJeopardyMaxWager(participantId: string): number {
+    const finalRound = this.getCurrentFinalJeopardyRound();
+    const entry = finalRound?.entries.get(participantId);
+    if (!finalRound || !entry) return 0;
+
+    return Math.max(entry.startingScore, finalRound.settings.minimumMaxWager);
+  }
+
+  public submitFinalWager(participantId: string, wagerAmount: number): void {
+    const finalRound = this.getCurrentFinalJeopardyRound();
+    if (!finalRound) {
+      throw new Error('No active final jeopardy round');
+    }
+
+    if (finalRound.phase !== FinalJeopardyPhase.WAGER_SUBMISSION) {
+      throw new Error('Wager submission phase is not active');
+    }
+
+    const entry = finalRound.entries.get(participantId);
+    if (!entry) {
+      throw new Error('Participant not found in final jeopardy round');
+    }
+
+    const maxWager = this.getFinalJeopardyMaxWager(participantId);
+    if (!Number.isInteger(wagerAmount) || wagerAmount < 0 || wagerAmount > maxWager) {
+      throw new Error(`Wager must be a whole number between 0 and ${maxWager}`);
+    }
+
+    if (!finalRound.settings.allowZeroWager && wagerAmount === 0) {
+      throw new Error('Zero wagers are not allowed');
+    }
+
+    entry.wagerAmount = wagerAmount;
+    entry.wagerSubmittedAt = new Date();
+
+    // The amount stays hidden until the reveal
+    this.emitEvent(SpecialRoundEventType.FINAL_WAGER_SUBMITTED, {
+      roundId: finalRound.id,
+      specialType: SpecialRoundType.FINAL_JEOPARDY,
+      participantId,
+      data: { submittedAt: entry.wagerSubmittedAt }
+    });
+  }
+
+  public submitFinalAnswer(participantId: string, answer: string): void {
+    const finalRound = this.getCurrentFinalJeopardyRound();
+    if (!finalRound) {
+      throw new Error('No active final jeopardy round');
+    }
+
+    if (finalRound.phase !== FinalJeopardyPhase.ANSWER_SUBMISSION) {
+      throw new Error('Answer submission phase is not active');
+    }
+
+    const entry = finalRound.entries.get(participantId);
+    if (!entry) {
+      throw new Error('Participant not found in final jeopardy round');
+    }
+
+    const question = finalRound.questions[0];
+    entry.answer = answer.trim();
+    entry.answerSubmittedAt = new Date();
+    entry.isCorrect = answerMatcher.isMatch(entry.answer, question.correctAnswer, {
+      alternativeAnswers: question.alternativeAnswers,
+      strictness: question.answerStrictness,
+      answerKind: question.answerKind
+    });
+
+    this.emitEvent(SpecialRoundEventType.FINAL_ANSWER_SUBMITTED, {
+      roundId: finalRound.id,
+      specialType: SpecialRoundType.FINAL_JEOPARDY,
+      participantId,
+      data: { submittedAt: entry.answerSubmittedAt }
+    });
+  }
+
+  /**
+   * Host override of the automatic answer check, allowed until the answer
+   * has been revealed
+   */
+  public judgeFinalAnswer(participantId: string, isCorrect: boolean): void {
+    const finalRound = this.getCurrentFinalJeopardyRound();
+    const entry = finalRound?.entries.get(participantId);
+    if (!finalRound || !entry) {
+      throw new Error('Participant not found in final jeopardy round');
+    }
+
+    if (entry.isRevealed) {
+      throw new Error('Answer has already been revealed');
+    }
+
+    entry.isCorrect = isCorrect;
+  }
+
+  public revealNextFinalAnswer(): FinalJeopardyEntry | null {
+    const finalRound = this.getCurrentFinalJeopardyRound();
+    if (!finalRound) {
+      throw new Error('No active final jeopardy round');
+    }
+
+    if (
+      finalRound.phase !== FinalJeopardyPhase.REVEAL &&
+      finalRound.phase !== FinalJeopardyPhase.RESULTS
+    ) {
+      throw new Error('Answers cannot be revealed yet');
+    }
+
+    const participantId = finalRound.revealQueue.shift();
+    const entry = participantId ? finalRound.entries.get(participantId) : undefined;
+    if (!entry) return null;
+
+    const wager = entry.wagerAmount ?? 0;
+    entry.isCorrect ??= false;
+    entry.isRevealed = true;
+    entry.finalScore = entry.startingScore + (entry.isCorrect ? wager : -wager);
+    if (wager > 0) {
+      this.scoreManager.adjustTeamScore(entry.participantId, finalRound.id, entry.finalScore - entry.startingScore);
+    }
+
+    this.emitEvent(SpecialRoundEventType.FINAL_ANSWER_REVEALED, {
+      roundId: finalRound.id,
+      specialType: SpecialRoundType.FINAL_JEOPARDY,
+      participantId: entry.participantId,
+      data: { entry: { ...entry } }
+    });
+
+    return entry;
+  }
+
+  /**
+   * Entries as a given participant may see them: their own in full, everyone
+   * else's wager and answer hidden until revealed. Hosts see everything.
+   */
+  public getFinalJeopardyView(viewerId: string, isHost: boolean = false): FinalJeopardyEntry[] {
+    const finalRound = this.getCurrentFinalJeopardyRound();
+    if (!finalRound) return [];
+
+    return Array.from(finalRound.entries.values()).map(entry => {
+      if (isHost || entry.isRevealed || entry.participantId === viewerId) {
+        return { ...entry };
+      }
+
+      return {
+        participantId: entry.participantId,
+        startingScore: entry.startingScore,
+        wagerSubmittedAt: entry.wagerSubmittedAt,
+        answerSubmittedAt: entry.answerSubmittedAt,
+        isRevealed: false
+      };
+    });
+  }
+
+  private getFinalJeopardyRevealOrder(finalRound: FinalJeopardyRound): string[] {
+    const entries = Array.from(finalRound.entries.values());
+
+    switch (finalRound.settings.revealOrder) {
+      case 'lowest_first':
+        entries.sort((a, b) => a.startingScore - b.startingScore);
+        break;
+      case 'highest_first':
+        entries.sort((a, b) => b.startingScore - a.startingScore);
+        break;
+      case 'submission':
+        entries.sort((a, b) =>
+          (a.answerSubmittedAt?.getTime() ?? Infinity) - (b.answerSubmittedAt?.getTime() ?? Infinity)
+        );
+        break;
+    }
+
+    return entries.map(entry => entry.participantId);
+  }
+
+  private startFinalJeopardyTimer(finalRound: FinalJeopardyRound, seconds: number): void {
+    finalRound.phaseDeadline = new Date(Date.now() + seconds * 1000);
+    this.timers.set(
+      `final_${finalRound.id}`,
+      setTimeout(() => this.advanceFinalJeopardyPhase(), seconds * 1000)
+    );
+  }
+
+  private clearFinalJeopardyTimer(finalRound: FinalJeopardyRound): void {
+    const timerId = `final_${finalRound.id}`;
+    const timer = this.timers.get(timerId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(timerId);
+    }
   }
 
+  // Utility Methods
   private getCurrentWagerRound(): WagerRound | null {
     return this.currentSpecialRound?.specialType === SpecialRoundType.WAGER 
       ? this.currentSpecialRound as WagerRound 
@@ -642,10 +1286,29 @@ export class SpecialRoundManager {
       : null;
   }
 
+  private getCurrentMediaRound(): AudioRound | VideoRound | null {
+    const specialType = this.currentSpecialRound?.specialType;
+    return specialType === SpecialRoundType.AUDIO || specialType === SpecialRoundType.VIDEO
+      ? this.currentSpecialRound as AudioRound | VideoRound
+      : null;
+  }
+
+  private getCurrentTeamChallengeRound(): TeamChallengeRound | null {
+    return this.currentSpecialRound?.specialType === SpecialRoundType.TEAM_CHALLENGE
+      ? this.currentSpecialRound as TeamChallengeRound
+      : null;
+  }
+
+  private getCurrentFinalJeopardyRound(): FinalJeopardyRound | null {
+    return this.currentSpecialRound?.specialType === SpecialRoundType.FINAL_JEOPARDY
+      ? this.currentSpecialRound as FinalJeopardyRound
+      : null;
+  }
+
   private async initializeSpecialRound(specialRound: SpecialRound): Promise<void> {
     switch (specialRound.specialType) {
       case SpecialRoundType.WAGER:
-        specialRound.wagerPhase = WagerPhase.INSTRUCTIONS;
+        specialRound.wagerPhase ??= WagerPhase.INSTRUCTIONS;
         break;
       case SpecialRoundType.PICTURE:
         await this.preloadImages(specialRound as PictureRound);
@@ -656,7 +1319,21 @@ export class SpecialRoundManager {
       case SpecialRoundType.LIGHTNING:
         await this.startLightningRound(specialRound as LightningRound);
         break;
-      // Add other round types as needed
+      case SpecialRoundType.AUDIO:
+        specialRound.playbackStatus = new Map();
+        await this.preloadAudio(specialRound as AudioRound);
+        break;
+      case SpecialRoundType.VIDEO:
+        specialRound.playbackStatus = new Map();
+        await this.preloadVideos(specialRound as VideoRound);
+        break;
+      case SpecialRoundType.TEAM_CHALLENGE:
+        specialRound.discussionPhase = false;
+        specialRound.discussionLogs = specialRound.discussionLogs || new Map();
+        break;
+      case SpecialRoundType.FINAL_JEOPARDY:
+        this.initializeFinalJeopardyRound(specialRound as FinalJeopardyRound);
+        break;
     }
   }
 
@@ -677,7 +1354,12 @@ export class SpecialRoundManager {
       case SpecialRoundType.LIGHTNING:
         await this.finalizeLightningScores(specialRound as LightningRound);
         break;
-      // Add other round types as needed
+      case SpecialRoundType.TEAM_CHALLENGE:
+        specialRound.discussionPhase = false;
+        break;
+      case SpecialRoundType.FINAL_JEOPARDY:
+        this.finalizeFinalJeopardy(specialRound as FinalJeopardyRound);
+        break;
     }
   }
 
@@ -707,6 +1389,18 @@ export class SpecialRoundManager {
     }
   }
 
+  private finalizeFinalJeopardy(finalRound: FinalJeopardyRound): void {
+    // Ending the round early still settles every wager
+    if (finalRound.phase !== FinalJeopardyPhase.RESULTS) {
+      finalRound.revealQueue = this.getFinalJeopardyRevealOrder(finalRound)
+        .filter(participantId => !finalRound.entries.get(participantId)?.isRevealed);
+      finalRound.phase = FinalJeopardyPhase.RESULTS;
+      while (finalRound.revealQueue.length > 0) {
+        this.revealNextFinalAnswer();
+      }
+    }
+  }
+
   private validateSpecialRound(specialRound: SpecialRound): SpecialRoundValidationResult {
     const errors: string[] = [];
     const warnings: string[] = [];
@@ -728,7 +1422,18 @@ export class SpecialRoundManager {
       case SpecialRoundType.PICTURE:
         this.validatePictureRound(specialRound as PictureRound, errors, warnings);
         break;
-      // Add other validations as needed
+      case SpecialRoundType.AUDIO:
+        this.validateAudioRound(specialRound as AudioRound, errors, warnings);
+        break;
+      case SpecialRoundType.VIDEO:
+        this.validateVideoRound(specialRound as VideoRound, errors, warnings);
+        break;
+      case SpecialRoundType.TEAM_CHALLENGE:
+        this.validateTeamChallengeRound(specialRound as TeamChallengeRound, errors, warnings);
+        break;
+      case SpecialRoundType.FINAL_JEOPARDY:
+        this.validateFinalJeopardyRound(specialRound as FinalJeopardyRound, errors, warnings);
+        break;
     }
 
     return {
@@ -774,14 +1479,97 @@ export class SpecialRoundManager {
     }
   }
 
-  private handleSpecialRoundStart(round: SpecialRound): void {
-    this.currentSpecialRound = round;
+  private validateAudioRound(audioRound: AudioRound, errors: string[], warnings: string[]): void {
+    if (audioRound.questions.length === 0) {
+      errors.push('Audio round must have at least one question');
+    }
+
+    for (const question of audioRound.questions) {
+      if (!question.audioUrl) {
+        errors.push(`Question ${question.id} is missing audio URL`);
+      }
+
+      if (!question.audioTranscript) {
+        warnings.push(`Question ${question.id} is missing a transcript for accessibility`);
+      }
+    }
+
+    if (audioRound.settings.allowReplay && audioRound.settings.maxReplays < 1) {
+      errors.push('Max replays must be at least 1 when replays are allowed');
+    }
   }
 
-  private handleSpecialRoundEnd(): void {
-    if (this.currentSpecialRound) {
-      this.finalizeSpecialRound(this.currentSpecialRound);
-      this.currentSpecialRound = null;
+  private validateVideoRound(videoRound: VideoRound, errors: string[], warnings: string[]): void {
+    if (videoRound.questions.length === 0) {
+      errors.push('Video round must have at least one question');
+    }
+
+    for (const question of videoRound.questions) {
+      if (!question.videoUrl) {
+        errors.push(`Question ${question.id} is missing video URL`);
+      }
+
+      if (videoRound.settings.showSubtitles && !question.subtitleUrl) {
+        warnings.push(`Question ${question.id} is missing subtitles`);
+      }
+    }
+
+    if (videoRound.settings.allowReplay && videoRound.settings.maxReplays < 1) {
+      errors.push('Max replays must be at least 1 when replays are allowed');
+    }
+  }
+
+  private validateTeamChallengeRound(
+    teamRound: TeamChallengeRound,
+    errors: string[],
+    warnings: string[]
+  ): void {
+    const settings = teamRound.settings;
+
+    if (settings.minTeamSize < 1) {
+      errors.push('Minimum team size must be at least 1');
+    }
+
+    if (settings.maxTeamSize < settings.minTeamSize) {
+      errors.push('Maximum team size cannot be less than minimum team size');
+    }
+
+    if (settings.collaborativeAnswering && settings.discussionTimeLimit <= 0) {
+      errors.push('Discussion time limit must be positive');
+    }
+
+    if (teamRound.questions.length === 0) {
+      warnings.push('Team challenge has no questions');
+    }
+  }
+
+  private validateFinalJeopardyRound(
+    finalRound: FinalJeopardyRound,
+    errors: string[],
+    warnings: string[]
+  ): void {
+    const settings = finalRound.settings;
+
+    if (finalRound.questions.length === 0) {
+      errors.push('Final jeopardy round must have a question');
+    } else if (finalRound.questions.length > 1) {
+      warnings.push('Final jeopardy only uses the first question');
+    }
+
+    if (!settings.category) {
+      warnings.push('Final jeopardy category is empty');
+    }
+
+    if (settings.wagerTimeLimit <= 0) {
+      errors.push('Wager time limit must be positive');
+    }
+
+    if (settings.answerTimeLimit <= 0) {
+      errors.push('Answer time limit must be positive');
+    }
+
+    if (settings.minimumMaxWager < 0) {
+      errors.push('Minimum max wager cannot be negative');
     }
   }
 
@@ -1,5 +1,8 @@
 import { supabase } from '../lib/supabase';
 import type { Database } from '../types/supabase';
+import type { UnlockedAchievement } from '../types/achievements';
+import type { SkillRatingEntity } from '../types/edgeFunctions';
+import { leagueForRating } from '../utils/glicko2';
 
 export interface GameHistoryEntry {
   id: string;
@@ -112,6 +115,31 @@ export interface CategoryPerformance {
   correct_answers: number;
 }
 
+export interface SkillRating {
+  entity_type: SkillRatingEntity;
+  entity_id: string;
+  rating: number;
+  deviation: number;
+  volatility: number;
+  games_rated: number;
+  league: UserStatistics['current_league'];
+  updated_at: string;
+}
+
+export interface RatingHistoryEntry {
+  id: string;
+  source_type: 'game' | 'tournament_match';
+  source_id: string;
+  rating_before: number;
+  deviation_before: number;
+  rating_after: number;
+  deviation_after: number;
+  league: UserStatistics['current_league'];
+  rank: number;
+  field_size: number;
+  created_at: string;
+}
+
 export interface PerformanceChart {
   date: string;
   score: number;
@@ -299,12 +327,19 @@ class StatisticsService {
    */
   async getGlobalLeaderboard(
     type: 'weekly' | 'monthly' | 'all_time' = 'all_time',
-    limit: number = 50
+    limit: number = 50,
+    sortBy: 'score' | 'rating' = 'score'
   ): Promise<LeaderboardEntry[]> {
-    const { data, error } = await supabase.rpc('get_global_leaderboard', {
-      leaderboard_type: type,
-      entry_limit: limit
-    });
+    const { data, error } = sortBy === 'rating'
+      ? await supabase.rpc('get_rating_leaderboard', {
+          p_entity_type: 'player',
+          leaderboard_type: type,
+          entry_limit: limit
+        })
+      : await supabase.rpc('get_global_leaderboard', {
+          leaderboard_type: type,
+          entry_limit: limit
+        });
 
     if (error) {
       console.error('Error fetching global leaderboard:', error);
@@ -388,14 +423,57 @@ class StatisticsService {
   }
 
   /**
-   * Get recent achievements for a user
+   * Get a player's or team's Glicko-2 rating; null before their first rated game
    */
-  async getRecentAchievements(userId: string, limit: number = 10) {
+  async getSkillRating(entityType: SkillRatingEntity, entityId: string): Promise<SkillRating | null> {
     const { data, error } = await supabase
-      .from('achievements')
+      .from('skill_ratings')
       .select('*')
+      .eq('entity_type', entityType)
+      .eq('entity_id', entityId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching skill rating:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  /**
+   * Get how a player's or team's rating moved, newest first
+   */
+  async getRatingHistory(
+    entityType: SkillRatingEntity,
+    entityId: string,
+    limit: number = 20
+  ): Promise<RatingHistoryEntry[]> {
+    const { data, error } = await supabase
+      .from('skill_rating_history')
+      .select('id, source_type, source_id, rating_before, deviation_before, rating_after, deviation_after, league, rank, field_size, created_at')
+      .eq('entity_type', entityType)
+      .eq('entity_id', entityId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching rating history:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get recent achievements for a user
+   */
+  async getRecentAchievements(userId: string, limit: number = 10): Promise<UnlockedAchievement[]> {
+    const { data, error } = await supabase
+      .from('user_achievements')
+      .select('achievement_id, unlocked_at, game_history_id, xp_awarded')
       .eq('user_id', userId)
-      .order('earned_at', { ascending: false })
+      .order('unlocked_at', { ascending: false })
       .limit(limit);
 
     if (error) {
@@ -406,6 +484,40 @@ class StatisticsService {
     return data || [];
   }
 
+  /**
+   * Get every achievement a user has unlocked
+   */
+  async getUnlockedAchievements(userId: string): Promise<UnlockedAchievement[]> {
+    const { data, error } = await supabase
+      .from('user_achievements')
+      .select('achievement_id, unlocked_at, game_history_id, xp_awarded')
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error fetching unlocked achievements:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Unlock the achievements a recorded game earned. The database checks the
+   * rules, grants XP and posts the achievement_earned activity; only new
+   * unlocks come back.
+   */
+  async awardAchievements(gameHistoryId: string): Promise<UnlockedAchievement[]> {
+    const { data, error } = await supabase.rpc('award_achievements', {
+      p_game_history_id: gameHistoryId
+    });
+
+    if (error) {
+      throw new Error(`Failed to award achievements: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
   /**
    * Record a completed game in the history
    */
@@ -461,7 +573,18 @@ class StatisticsService {
       throw error;
     }
 
-    return data;
+    // The game is recorded either way; achievements can be awarded again
+    // for it later
+    try {
+      const unlocked = await this.awardAchievements(data.id);
+      return {
+        ...data,
+        achievements_earned: [...(data.achievements_earned || []), ...unlocked.map(a => a.achievement_id)]
+      };
+    } catch (awardError) {
+      console.error('Error awarding achievements:', awardError);
+      return data;
+    }
   }
 
   /**
@@ -551,31 +674,10 @@ class StatisticsService {
   }
 
   /**
-   * Determine league based on performance metrics
+   * Determine league from a skill rating's band
    */
-  calculateLeague(stats: {
-    totalGames: number;
-    winRate: number;
-    averageScore: number;
-    totalXP: number;
-  }): 'Bronze' | 'Silver' | 'Gold' | 'Platinum' | 'Diamond' | 'Master' {
-    if (stats.totalGames < 5) return 'Bronze';
-    
-    const { level } = this.calculateLevel(stats.totalXP);
-    
-    if (level >= 50 && stats.winRate >= 0.6 && stats.averageScore >= 800) {
-      return 'Master';
-    } else if (level >= 40 && stats.winRate >= 0.5 && stats.averageScore >= 700) {
-      return 'Diamond';
-    } else if (level >= 30 && stats.winRate >= 0.4 && stats.averageScore >= 600) {
-      return 'Platinum';
-    } else if (level >= 20 && stats.winRate >= 0.3 && stats.averageScore >= 500) {
-      return 'Gold';
-    } else if (level >= 10 && stats.winRate >= 0.2 && stats.averageScore >= 400) {
-      return 'Silver';
-    } else {
-      return 'Bronze';
-    }
+  calculateLeague(rating: Pick<SkillRating, 'rating' | 'deviation'>): UserStatistics['current_league'] {
+    return leagueForRating(rating);
   }
 }
 
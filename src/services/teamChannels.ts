@@ -0,0 +1,19 @@
+import type { RealtimeChannel } from './supabase';
+import { supabase } from './supabase';
+
+// Realtime topics that carry one team's traffic. They are private: the
+// database lets only the team's members and the room's host join, send or
+// receive on them (see the answer secrecy migration).
+export type TeamChannelPurpose = 'presence' | 'activity' | 'game' | 'reviews' | 'status';
+
+export function teamChannelName(teamId: string, purpose: TeamChannelPurpose): string {
+  return `team:${teamId}:${purpose}`;
+}
+
+export function createTeamChannel(
+  teamId: string,
+  purpose: TeamChannelPurpose,
+  config: { presence?: { key?: string } } = {}
+): RealtimeChannel {
+  return supabase.channel(teamChannelName(teamId, purpose), { config: { ...config, private: true } });
+}
@@ -1,4 +1,7 @@
 import { supabase } from './supabase';
+import { createTeamChannel, teamChannelName } from './teamChannels';
+import { edgeFunctionService } from './edgeFunctions';
+import { answerOutbox } from './answerOutbox';
 
 export interface GameTeamState {
   teamId: string;
@@ -58,12 +61,13 @@ class TeamGameIntegrationService {
     teamId: string,
     callback: (event: TeamGameEvent) => void
   ) {
-    const channelName = `team-game:${gameRoomId}:${teamId}`;
+    // Private to the team and the host
+    const channelName = teamChannelName(teamId, 'game');
     
-    const channel = supabase
-      .channel(channelName)
+    const channel = createTeamChannel(teamId, 'game')
       .on('broadcast', { event: 'team_game_event' }, ({ payload }) => {
-        callback(payload as TeamGameEvent);
+        const event = payload as TeamGameEvent;
+        if (event.gameRoomId === gameRoomId) callback(event);
       })
       .subscribe();
 
@@ -92,9 +96,7 @@ class TeamGameIntegrationService {
       timestamp: new Date().toISOString(),
     };
 
-    const channelName = `team-game:${event.gameRoomId}:${event.teamId}`;
-    
-    await supabase.channel(channelName).send({
+    await createTeamChannel(event.teamId, 'game').send({
       type: 'broadcast',
       event: 'team_game_event',
       payload: fullEvent,
@@ -146,7 +148,7 @@ class TeamGameIntegrationService {
       if (gameRoom.status === 'active') {
         const { data: questionData } = await supabase
           .from('game_questions')
-          .select('*')
+          .select('id, question_text, time_limit, started_at')
           .eq('game_room_id', gameRoomId)
           .eq('is_current', true)
           .single();
@@ -265,37 +267,16 @@ class TeamGameIntegrationService {
     answer: string,
     pointValue: number,
     submittedBy: string
-  ): Promise<{ success: boolean; error?: string }> {
+  ): Promise<{ success: boolean; queued?: boolean; error?: string }> {
     try {
-      // Check if team has already submitted an answer
-      const { data: existingAnswer } = await supabase
-        .from('team_answers')
-        .select('id')
-        .eq('team_id', teamId)
-        .eq('question_id', questionId)
-        .single();
-
-      if (existingAnswer) {
-        return { success: false, error: 'Team has already submitted an answer for this question' };
+      // The server checks the wager, grades the answer and rejects repeats.
+      // Offline, the outbox keeps the answer and sends it on reconnect.
+      const entry = await answerOutbox.submit({ teamId, gameId: gameRoomId, questionId, answer, pointsWagered: pointValue });
+      if (entry.status === 'rejected') {
+        return { success: false, error: entry.error };
       }
-
-      // Submit the answer
-      const { data: answerData, error: submitError } = await supabase
-        .from('team_answers')
-        .insert({
-          team_id: teamId,
-          question_id: questionId,
-          answer_text: answer,
-          point_value: pointValue,
-          submitted_by: submittedBy,
-          submitted_at: new Date().toISOString(),
-        })
-        .select()
-        .single();
-
-      if (submitError) {
-        console.error('Error submitting answer:', submitError);
-        return { success: false, error: submitError.message };
+      if (entry.status !== 'acknowledged') {
+        return { success: true, queued: true };
       }
 
       // Broadcast answer submission event
@@ -309,14 +290,13 @@ class TeamGameIntegrationService {
           answer,
           pointValue,
           submittedBy,
-          answerId: answerData.id,
         },
       });
 
       return { success: true };
     } catch (error) {
       console.error('Error submitting team answer:', error);
-      return { success: false, error: 'Failed to submit answer' };
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to submit answer' };
     }
   }
 
@@ -389,20 +369,8 @@ class TeamGameIntegrationService {
         .filter(team => !team.isReady && team.totalMembers > 0)
         .map(team => team.teamName);
 
-      // Update game room status
-      const { error: updateError } = await supabase
-        .from('game_rooms')
-        .update({
-          status: 'active',
-          started_at: new Date().toISOString(),
-          started_by: hostId,
-        })
-        .eq('id', gameRoomId);
-
-      if (updateError) {
-        console.error('Error starting game:', updateError);
-        return { success: false, error: updateError.message };
-      }
+      // The server moves the room to active and rejects anyone but the host
+      await edgeFunctionService.startGame(gameRoomId, hostId);
 
       // Update all team members status to in_game
       const { error: memberUpdateError } = await supabase
@@ -435,7 +403,7 @@ class TeamGameIntegrationService {
       };
     } catch (error) {
       console.error('Error starting game with team integration:', error);
-      return { success: false, error: 'Failed to start game' };
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to start game' };
     }
   }
 
@@ -5,8 +5,35 @@ import type {
   TournamentMatch, 
   TournamentStanding,
   TournamentRound,
-  TournamentSettings 
+  TournamentSettings,
+  EliminationMatchData,
+  TournamentSlotRef,
+  TournamentMatchSlot
 } from '../types/database';
+import { edgeFunctionService } from './edgeFunctions';
+
+// Running Swiss record for one participant, derived from completed matches
+interface SwissRecord {
+  participantId: string;
+  seed: number;
+  score: number;
+  buchholz: number;
+  sonnebornBerger: number;
+  opponents: Set<string>;
+  hadBye: boolean;
+}
+
+// A match produced by the bracket planner, before it is persisted
+interface PlannedBracketMatch {
+  round: number;
+  match_number: number;
+  bracket_position: string;
+  team1_id: string | null;
+  team2_id: string | null;
+  winner_id?: string;
+  status: TournamentMatch['status'];
+  match_data: EliminationMatchData;
+}
 
 export class TournamentService {
   // Create a new tournament
@@ -267,6 +294,188 @@ export class TournamentService {
     return matches;
   }
 
+  // Generate tournament brackets (double elimination)
+  static async generateDoubleEliminationBracket(tournamentId: string): Promise<boolean> {
+    try {
+      const [tournament, participants] = await Promise.all([
+        this.getTournament(tournamentId),
+        this.getParticipants(tournamentId)
+      ]);
+      if (!tournament) {
+        throw new Error('Tournament not found');
+      }
+      if (participants.length < 2) {
+        throw new Error('Not enough participants');
+      }
+
+      const plan = this.buildDoubleEliminationPlan(participants, {
+        grandFinalReset: tournament.settings?.grand_final_reset !== false
+      });
+      const totalRounds = Math.max(...plan.map(m => m.round));
+
+      await supabase
+        .from('tournaments')
+        .update({ 
+          total_rounds: totalRounds,
+          current_round: 1,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', tournamentId);
+
+      const { error } = await supabase
+        .from('tournament_matches')
+        .insert(plan.map(match => ({ tournament_id: tournamentId, ...match })));
+
+      if (error) {
+        console.error('Error creating matches:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error generating double elimination bracket:', error);
+      return false;
+    }
+  }
+
+  // Lay out winners bracket, losers bracket and grand final with routing for every match.
+  // Rounds are numbered globally (winners, then losers, then grand final) so they stay
+  // unique per tournament; match_data.bracket_round holds the round within each bracket.
+  private static buildDoubleEliminationPlan(
+    participants: TournamentParticipant[],
+    options: { grandFinalReset: boolean }
+  ): PlannedBracketMatch[] {
+    const winnersRounds = Math.max(1, Math.ceil(Math.log2(participants.length)));
+    const bracketSize = Math.pow(2, winnersRounds);
+    const losersRounds = 2 * (winnersRounds - 1);
+    const slotFor = (index: number): TournamentMatchSlot => index % 2 === 1 ? 'team1' : 'team2';
+
+    const plan: PlannedBracketMatch[] = [];
+    const byPosition = new Map<string, PlannedBracketMatch>();
+    let matchNumber = 1;
+
+    const addMatch = (
+      round: number,
+      position: string,
+      data: EliminationMatchData
+    ): PlannedBracketMatch => {
+      const match: PlannedBracketMatch = {
+        round,
+        match_number: matchNumber++,
+        bracket_position: position,
+        team1_id: null,
+        team2_id: null,
+        status: 'scheduled',
+        match_data: data
+      };
+      plan.push(match);
+      byPosition.set(position, match);
+      return match;
+    };
+
+    // Winners bracket
+    for (let round = 1; round <= winnersRounds; round++) {
+      const matchesInRound = bracketSize / Math.pow(2, round);
+      for (let i = 1; i <= matchesInRound; i++) {
+        const winnerTo: TournamentSlotRef = round < winnersRounds
+          ? { position: `W${round + 1}M${Math.ceil(i / 2)}`, slot: slotFor(i) }
+          : { position: 'GF', slot: 'team1' };
+
+        let loserTo: TournamentSlotRef;
+        if (winnersRounds === 1) {
+          loserTo = { position: 'GF', slot: 'team2' };
+        } else if (round === 1) {
+          loserTo = { position: `L1M${Math.ceil(i / 2)}`, slot: slotFor(i) };
+        } else {
+          // Drop-downs alternate direction each round to delay rematches
+          const losersRound = 2 * (round - 1);
+          const dropIndex = (round - 1) % 2 === 1 ? matchesInRound - i + 1 : i;
+          loserTo = { position: `L${losersRound}M${dropIndex}`, slot: 'team2' };
+        }
+
+        addMatch(round, `W${round}M${i}`, {
+          bracket: 'winners',
+          bracket_round: round,
+          winner_to: winnerTo,
+          loser_to: loserTo
+        });
+      }
+    }
+
+    // Losers bracket: odd rounds pair survivors, even rounds take winners bracket drop-downs
+    for (let round = 1; round <= losersRounds; round++) {
+      const stage = Math.ceil(round / 2);
+      const matchesInRound = bracketSize / Math.pow(2, stage + 1);
+      for (let i = 1; i <= matchesInRound; i++) {
+        let winnerTo: TournamentSlotRef;
+        if (round === losersRounds) {
+          winnerTo = { position: 'GF', slot: 'team2' };
+        } else if (round % 2 === 1) {
+          winnerTo = { position: `L${round + 1}M${i}`, slot: 'team1' };
+        } else {
+          winnerTo = { position: `L${round + 1}M${Math.ceil(i / 2)}`, slot: slotFor(i) };
+        }
+
+        addMatch(winnersRounds + round, `L${round}M${i}`, {
+          bracket: 'losers',
+          bracket_round: round,
+          winner_to: winnerTo
+        });
+      }
+    }
+
+    // Grand final and optional bracket reset
+    const grandFinalRound = winnersRounds + losersRounds + 1;
+    addMatch(grandFinalRound, 'GF', {
+      bracket: 'grand_final',
+      bracket_round: 1,
+      reset_position: options.grandFinalReset ? 'GF2' : undefined
+    });
+    if (options.grandFinalReset) {
+      addMatch(grandFinalRound + 1, 'GF2', {
+        bracket: 'grand_final',
+        bracket_round: 2,
+        is_reset: true
+      });
+    }
+
+    const markDead = (target: TournamentSlotRef | undefined) => {
+      const match = target && byPosition.get(target.position);
+      if (match && target) {
+        match.match_data.dead_slots = [...(match.match_data.dead_slots || []), target.slot];
+      }
+    };
+
+    // Seed the first round and resolve byes up front
+    const firstRound = this.generateFirstRoundMatches(participants);
+    firstRound.forEach((pairing, index) => {
+      const match = byPosition.get(`W1M${index + 1}`)!;
+      match.team1_id = pairing.team1?.id || null;
+      match.team2_id = pairing.team2?.id || null;
+
+      if (!pairing.team2 && pairing.team1) {
+        match.status = 'bye';
+        match.winner_id = pairing.team1.id;
+        const next = byPosition.get(match.match_data.winner_to!.position)!;
+        next[`${match.match_data.winner_to!.slot}_id`] = pairing.team1.id;
+        markDead(match.match_data.loser_to);
+      }
+    });
+
+    // Losers bracket matches fed by byes: empty ones are skipped entirely,
+    // half-empty ones pass their single entrant through once it arrives
+    plan
+      .filter(match => match.match_data.bracket === 'losers')
+      .forEach(match => {
+        if ((match.match_data.dead_slots || []).length === 2) {
+          match.status = 'bye';
+          markDead(match.match_data.winner_to);
+        }
+      });
+
+    return plan;
+  }
+
   // Generate round-robin schedule
   static async generateRoundRobinSchedule(tournamentId: string): Promise<boolean> {
     try {
@@ -387,6 +596,303 @@ export class TournamentService {
     return rounds;
   }
 
+  // Generate the next Swiss round from the current standings
+  static async generateSwissRound(tournamentId: string): Promise<boolean> {
+    try {
+      const [tournament, participants, matches] = await Promise.all([
+        this.getTournament(tournamentId),
+        this.getParticipants(tournamentId),
+        this.getMatches(tournamentId)
+      ]);
+      if (!tournament) {
+        throw new Error('Tournament not found');
+      }
+      const activeParticipants = participants.filter(
+        p => p.status !== 'eliminated' && p.status !== 'withdrawn'
+      );
+      if (activeParticipants.length < 2) {
+        throw new Error('Not enough participants');
+      }
+
+      const previousRound = matches.reduce((max, m) => Math.max(max, m.round), 0);
+      if (matches.some(m =>
+        m.round === previousRound && (m.status === 'scheduled' || m.status === 'in_progress')
+      )) {
+        throw new Error(`Round ${previousRound} is not finished yet`);
+      }
+
+      const totalRounds = tournament.total_rounds ||
+        tournament.settings?.swiss_rounds ||
+        Math.ceil(Math.log2(activeParticipants.length));
+      const round = previousRound + 1;
+      if (round > totalRounds) {
+        throw new Error('All Swiss rounds have been played');
+      }
+
+      if (round === 1) {
+        const standings = participants.map((p) => ({
+          tournament_id: tournamentId,
+          participant_id: p.id,
+          position: 0,
+          matches_played: 0,
+          matches_won: 0,
+          matches_lost: 0,
+          matches_drawn: 0,
+          points_for: 0,
+          points_against: 0,
+          tournament_points: 0,
+          tiebreaker_score: 0,
+          buchholz_score: 0,
+          sonneborn_berger_score: 0
+        }));
+
+        await supabase.from('tournament_standings').insert(standings);
+      }
+
+      const records = this.calculateSwissRecords(activeParticipants, matches);
+      const { pairings, bye } = this.pairSwissRound(records);
+
+      await supabase
+        .from('tournaments')
+        .update({ 
+          total_rounds: totalRounds,
+          current_round: round,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', tournamentId);
+
+      if (previousRound > 0) {
+        await supabase
+          .from('tournament_rounds')
+          .update({ status: 'completed', completed_at: new Date().toISOString() })
+          .eq('tournament_id', tournamentId)
+          .eq('round_number', previousRound);
+      }
+
+      await supabase.from('tournament_rounds').insert({
+        tournament_id: tournamentId,
+        round_number: round,
+        name: `Round ${round}`,
+        status: 'in_progress',
+        started_at: new Date().toISOString()
+      });
+
+      let matchNumber = matches.reduce((max, m) => Math.max(max, m.match_number), 0) + 1;
+      const newMatches: Array<Record<string, unknown>> = pairings.map(([team1Id, team2Id]) => ({
+        tournament_id: tournamentId,
+        round,
+        match_number: matchNumber++,
+        team1_id: team1Id,
+        team2_id: team2Id,
+        status: 'scheduled',
+        match_data: {}
+      }));
+
+      if (bye) {
+        newMatches.push({
+          tournament_id: tournamentId,
+          round,
+          match_number: matchNumber++,
+          team1_id: bye,
+          team2_id: null,
+          winner_id: bye,
+          status: 'bye',
+          completed_at: new Date().toISOString(),
+          match_data: {}
+        });
+      }
+
+      const { error } = await supabase
+        .from('tournament_matches')
+        .insert(newMatches);
+
+      if (error) {
+        console.error('Error creating matches:', error);
+        return false;
+      }
+
+      // A bye scores as a win; the standings trigger only sees completed matches
+      if (bye) {
+        const { data: standing } = await supabase
+          .from('tournament_standings')
+          .select('matches_played, matches_won')
+          .eq('tournament_id', tournamentId)
+          .eq('participant_id', bye)
+          .single();
+
+        if (standing) {
+          await supabase
+            .from('tournament_standings')
+            .update({
+              matches_played: standing.matches_played + 1,
+              matches_won: standing.matches_won + 1,
+              updated_at: new Date().toISOString()
+            })
+            .eq('tournament_id', tournamentId)
+            .eq('participant_id', bye);
+        }
+      }
+
+      await this.updateSwissStandings(tournamentId);
+
+      return true;
+    } catch (error) {
+      console.error('Error generating Swiss round:', error);
+      return false;
+    }
+  }
+
+  // Recalculate Buchholz and Sonneborn-Berger tiebreaks and re-rank the standings
+  static async updateSwissStandings(tournamentId: string): Promise<boolean> {
+    try {
+      const [participants, matches] = await Promise.all([
+        this.getParticipants(tournamentId),
+        this.getMatches(tournamentId)
+      ]);
+
+      const records = this.calculateSwissRecords(participants, matches);
+
+      await Promise.all(records.map(record =>
+        supabase
+          .from('tournament_standings')
+          .update({
+            tiebreaker_score: record.buchholz,
+            buchholz_score: record.buchholz,
+            sonneborn_berger_score: record.sonnebornBerger,
+            updated_at: new Date().toISOString()
+          })
+          .eq('tournament_id', tournamentId)
+          .eq('participant_id', record.participantId)
+      ));
+
+      const { error } = await supabase.rpc('calculate_swiss_positions', {
+        p_tournament_id: tournamentId
+      });
+
+      if (error) {
+        console.error('Error ranking Swiss standings:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error updating Swiss standings:', error);
+      return false;
+    }
+  }
+
+  // Score each participant (win = 1, draw = 0.5, bye = 1) and compute tiebreaks.
+  // Records come back ranked: score, Buchholz, Sonneborn-Berger, then seed.
+  private static calculateSwissRecords(
+    participants: TournamentParticipant[],
+    matches: TournamentMatch[]
+  ): SwissRecord[] {
+    const records = new Map<string, SwissRecord>(
+      participants.map(p => [p.id, {
+        participantId: p.id,
+        seed: p.seed || 999,
+        score: 0,
+        buchholz: 0,
+        sonnebornBerger: 0,
+        opponents: new Set<string>(),
+        hadBye: false
+      }])
+    );
+
+    const results: Array<{ teamId: string; opponentId: string; result: number }> = [];
+
+    for (const match of matches) {
+      if (match.status === 'bye' && match.team1_id) {
+        const record = records.get(match.team1_id);
+        if (record) {
+          record.score += 1;
+          record.hadBye = true;
+        }
+        continue;
+      }
+      if (!match.team1_id || !match.team2_id) continue;
+
+      records.get(match.team1_id)?.opponents.add(match.team2_id);
+      records.get(match.team2_id)?.opponents.add(match.team1_id);
+
+      if (match.status !== 'completed') continue;
+
+      const team1Result = !match.winner_id ? 0.5 : match.winner_id === match.team1_id ? 1 : 0;
+      results.push(
+        { teamId: match.team1_id, opponentId: match.team2_id, result: team1Result },
+        { teamId: match.team2_id, opponentId: match.team1_id, result: 1 - team1Result }
+      );
+    }
+
+    for (const { teamId, result } of results) {
+      const record = records.get(teamId);
+      if (record) record.score += result;
+    }
+
+    // Tiebreaks need every final score, so they run in a second pass
+    for (const { teamId, opponentId, result } of results) {
+      const record = records.get(teamId);
+      const opponentScore = records.get(opponentId)?.score || 0;
+      if (!record) continue;
+
+      record.buchholz += opponentScore;
+      record.sonnebornBerger += opponentScore * result;
+    }
+
+    return Array.from(records.values()).sort((a, b) =>
+      b.score - a.score ||
+      b.buchholz - a.buchholz ||
+      b.sonnebornBerger - a.sonnebornBerger ||
+      a.seed - b.seed
+    );
+  }
+
+  // Pair a Swiss round: the lowest-ranked team without a bye sits out on odd counts,
+  // then each team is paired with the nearest-ranked opponent it has not met yet.
+  // Rematches are only allowed when no rematch-free pairing exists.
+  private static pairSwissRound(
+    rankedRecords: SwissRecord[]
+  ): { pairings: Array<[string, string]>; bye?: string } {
+    let pool = [...rankedRecords];
+    let bye: string | undefined;
+
+    if (pool.length % 2 === 1) {
+      const byeRecord = [...pool].reverse().find(r => !r.hadBye) || pool[pool.length - 1];
+      bye = byeRecord.participantId;
+      pool = pool.filter(r => r !== byeRecord);
+    }
+
+    const maxAttempts = 100000;
+    let attempts = 0;
+
+    const pair = (
+      remaining: SwissRecord[],
+      allowRematches: boolean
+    ): Array<[string, string]> | null => {
+      if (remaining.length === 0) return [];
+      if (++attempts > maxAttempts) return null;
+
+      const [team, ...rest] = remaining;
+      for (const opponent of rest) {
+        if (!allowRematches && team.opponents.has(opponent.participantId)) continue;
+
+        const paired = pair(rest.filter(r => r !== opponent), allowRematches);
+        if (paired) {
+          return [[team.participantId, opponent.participantId], ...paired];
+        }
+      }
+      return null;
+    };
+
+    let pairings = pair(pool, false);
+    if (!pairings) {
+      attempts = 0;
+      pairings = pair(pool, true) || [];
+    }
+
+    return { pairings, bye };
+  }
+
   // Get tournament matches
   static async getMatches(
     tournamentId: string, 
@@ -449,6 +955,13 @@ export class TournamentService {
       return false;
     }
 
+    // Ratings are bookkeeping; a failure here shouldn't undo the result
+    try {
+      await edgeFunctionService.rateMatch(matchId);
+    } catch (rateError) {
+      console.error('Error rating match:', rateError);
+    }
+
     // For single elimination, advance winner to next round
     const { data: match } = await supabase
       .from('tournament_matches')
@@ -458,6 +971,10 @@ export class TournamentService {
 
     if (match && match.tournament.format === 'single_elimination') {
       await this.advanceWinner(match);
+    } else if (match && match.tournament.format === 'double_elimination') {
+      await this.advanceDoubleEliminationMatch(match);
+    } else if (match && match.tournament.format === 'swiss') {
+      await this.updateSwissStandings(match.tournament_id);
     }
 
     return true;
@@ -507,6 +1024,115 @@ export class TournamentService {
     }
   }
 
+  // Route winner and loser of a double elimination match to their next slots
+  private static async advanceDoubleEliminationMatch(completedMatch: TournamentMatch): Promise<void> {
+    if (!completedMatch.winner_id) return;
+
+    const data = completedMatch.match_data as EliminationMatchData;
+    const winnerId = completedMatch.winner_id;
+    const loserId = completedMatch.loser_id ||
+      (winnerId === completedMatch.team1_id ? completedMatch.team2_id : completedMatch.team1_id);
+
+    if (data.bracket === 'grand_final') {
+      // The losers bracket champion (team2) forces a reset if one is configured
+      if (!data.is_reset && data.reset_position && winnerId === completedMatch.team2_id) {
+        await this.placeInBracketSlot(
+          completedMatch.tournament_id,
+          { position: data.reset_position, slot: 'team1' },
+          completedMatch.team1_id!
+        );
+        await this.placeInBracketSlot(
+          completedMatch.tournament_id,
+          { position: data.reset_position, slot: 'team2' },
+          winnerId
+        );
+        return;
+      }
+
+      if (data.reset_position) {
+        await supabase
+          .from('tournament_matches')
+          .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+          .eq('tournament_id', completedMatch.tournament_id)
+          .eq('bracket_position', data.reset_position);
+      }
+
+      await supabase
+        .from('tournament_participants')
+        .update({ final_position: 1 })
+        .eq('id', winnerId);
+
+      if (loserId) {
+        await supabase
+          .from('tournament_participants')
+          .update({ 
+            status: 'eliminated',
+            final_position: 2,
+            eliminated_at: new Date().toISOString()
+          })
+          .eq('id', loserId);
+      }
+      return;
+    }
+
+    if (data.winner_to) {
+      await this.placeInBracketSlot(completedMatch.tournament_id, data.winner_to, winnerId);
+    }
+
+    if (!loserId) return;
+
+    if (data.loser_to) {
+      await this.placeInBracketSlot(completedMatch.tournament_id, data.loser_to, loserId);
+    } else {
+      // A loss in the losers bracket is the team's second
+      await supabase
+        .from('tournament_participants')
+        .update({ 
+          status: 'eliminated',
+          eliminated_at: new Date().toISOString()
+        })
+        .eq('id', loserId);
+    }
+  }
+
+  // Put a participant into a bracket slot, passing them straight through if the
+  // opposing slot was emptied by a bye
+  private static async placeInBracketSlot(
+    tournamentId: string,
+    target: TournamentSlotRef,
+    participantId: string
+  ): Promise<void> {
+    const { data: match } = await supabase
+      .from('tournament_matches')
+      .select('*')
+      .eq('tournament_id', tournamentId)
+      .eq('bracket_position', target.position)
+      .single();
+
+    if (!match) return;
+
+    const data = match.match_data as EliminationMatchData;
+    const opposingSlot: TournamentMatchSlot = target.slot === 'team1' ? 'team2' : 'team1';
+    const isPassThrough = (data.dead_slots || []).includes(opposingSlot);
+
+    await supabase
+      .from('tournament_matches')
+      .update({
+        [`${target.slot}_id`]: participantId,
+        ...(isPassThrough ? {
+          status: 'bye',
+          winner_id: participantId,
+          completed_at: new Date().toISOString()
+        } : {}),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', match.id);
+
+    if (isPassThrough && data.winner_to) {
+      await this.placeInBracketSlot(tournamentId, data.winner_to, participantId);
+    }
+  }
+
   // Get tournament standings (for round-robin)
   static async getStandings(tournamentId: string): Promise<TournamentStanding[]> {
     const { data, error } = await supabase
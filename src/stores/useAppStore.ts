@@ -1,5 +1,6 @@
 import { create } from 'zustand';
-import type { GuestUser } from '../types/guest';
+import type { GuestUser, GuestConversionSummary } from '../types/guest';
+import { guestConversionService } from '../services/guestConversion';
 
 interface User {
   id: string;
@@ -54,7 +55,7 @@ interface AppState {
     // Guest actions
     showGuestRegistrationPrompt: (context: 'game-end' | 'achievement' | 'session-expiring') => void;
     hideGuestRegistrationPrompt: () => void;
-    convertGuestToUser: (user: User) => void;
+    convertGuestToUser: (user: User) => Promise<GuestConversionSummary | null>;
   };
 }
 
@@ -142,15 +143,31 @@ export const useAppStore = create<AppState>((set, get) => ({
       });
     },
     
-    convertGuestToUser: (user: User) => {
+    // Call once signed in to the account. The guest's games move over on
+    // the server; if that fails the account is still signed in and the
+    // guest session stays so the merge can be tried again.
+    convertGuestToUser: async (user: User) => {
       set({ 
         user, 
         isAuthenticated: true,
         isGuest: false,
         showGuestPrompt: false,
         guestPromptContext: null,
+        isLoading: true,
         error: null 
       });
+
+      try {
+        const summary = await guestConversionService.mergeIntoAccount();
+        set({ isLoading: false });
+        return summary;
+      } catch (error) {
+        set({
+          isLoading: false,
+          error: error instanceof Error ? error.message : 'Failed to keep your guest progress'
+        });
+        return null;
+      }
     }
   }
 }));
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const rpc = vi.fn();
+const insertSingle = vi.fn();
+
+vi.mock('../lib/supabase', () => ({
+  supabase: {
+    rpc: (...args: unknown[]) => rpc(...args),
+    from: () => ({ insert: () => ({ select: () => ({ single: () => insertSingle() }) }) }),
+  },
+}));
+
+import { statisticsService, type UserStatistics } from '../services/statisticsService';
+import {
+  ACHIEVEMENT_RULES,
+  evaluateAchievement,
+  findNewAchievements,
+  socialAchievementRule,
+  socialFacts,
+  statisticsFacts,
+} from '../utils/achievements';
+import type { AchievementRule } from '../types/achievements';
+import type { SocialAchievement } from '../types/social';
+
+const rule = (id: string): AchievementRule => {
+  const found = ACHIEVEMENT_RULES.find(r => r.id === id);
+  if (!found) throw new Error(`No rule ${id}`);
+  return found;
+};
+
+const stats = (overrides: Partial<UserStatistics> = {}): UserStatistics => ({
+  id: 'stats-1',
+  user_id: 'user-1',
+  total_games_played: 12,
+  total_wins: 3,
+  total_podium_finishes: 6,
+  total_points_earned: 5400,
+  average_score: 450,
+  highest_score: 820,
+  average_rank: 2.4,
+  best_rank: 1,
+  total_questions_answered: 240,
+  total_correct_answers: 180,
+  overall_accuracy: 75,
+  average_response_time: 8,
+  fastest_ever_response: 1.5,
+  current_win_streak: 1,
+  longest_win_streak: 3,
+  current_podium_streak: 2,
+  longest_podium_streak: 4,
+  total_play_time_minutes: 540,
+  games_this_week: 2,
+  games_this_month: 6,
+  favorite_category: 'History',
+  category_win_rates: {},
+  difficulty_performance: {},
+  current_league: 'Gold',
+  league_rank: null,
+  global_rank: null,
+  peak_league: 'Gold',
+  total_xp: 1200,
+  current_level: 6,
+  teams_captained: 0,
+  recent_scores: [],
+  recent_ranks: [],
+  performance_trend: 'stable',
+  last_game_at: '2025-07-05T20:00:00.000Z',
+  ...overrides,
+});
+
+const game = {
+  gameRoomId: 'room-1',
+  teamId: 'team-1',
+  userId: 'user-1',
+  gameName: 'Friday Quiz',
+  gameStartedAt: '2025-07-06T19:00:00.000Z',
+  gameEndedAt: '2025-07-06T20:00:00.000Z',
+  finalScore: 640,
+  finalRank: 1,
+  totalTeams: 6,
+  roundsPlayed: 4,
+  questionsAnswered: 20,
+  correctAnswers: 20,
+};
+
+describe('Achievements', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+    insertSingle.mockReset();
+  });
+
+  it('should read lifetime and streak metrics from statistics', () => {
+    const facts = statisticsFacts(stats({ overall_accuracy: null }));
+
+    expect(facts.lifetime).toMatchObject({ games_played: 12, wins: 3, league_tier: 2, fastest_response_time: 1.5 });
+    expect(facts.lifetime).not.toHaveProperty('accuracy');
+    expect(facts.streak).toEqual({ win_streak: 3, podium_streak: 4 });
+  });
+
+  it('should measure progress toward at-least thresholds', () => {
+    const facts = statisticsFacts(stats());
+
+    expect(evaluateAchievement(rule('first_win'), facts)).toMatchObject({ met: true, progress: 100, current: 3 });
+    expect(evaluateAchievement(rule('games_50'), facts)).toMatchObject({ met: false, progress: 24, current: 12 });
+    expect(evaluateAchievement(rule('winning_streak_5'), facts)).toMatchObject({ met: false, progress: 60 });
+  });
+
+  it('should measure progress toward at-most thresholds', () => {
+    const facts = statisticsFacts(stats());
+
+    expect(evaluateAchievement(rule('lightning_fast'), facts).met).toBe(true);
+    expect(evaluateAchievement(rule('speed_demon'), facts)).toMatchObject({ met: false, progress: 62.5 });
+  });
+
+  it('should need every criterion and report the least complete one', () => {
+    const result = evaluateAchievement(rule('trivia_master'), statisticsFacts(stats({ total_games_played: 60 })));
+
+    expect(result.met).toBe(false);
+    expect(result.criterion.metric).toBe('accuracy');
+    expect(result.progress).toBeCloseTo(83.3, 1);
+
+    const master = statisticsFacts(stats({ total_games_played: 60, overall_accuracy: 92 }));
+    expect(evaluateAchievement(rule('trivia_master'), master).met).toBe(true);
+  });
+
+  it('should never meet a criterion without its metric', () => {
+    const result = evaluateAchievement(rule('perfectionist'), statisticsFacts(stats()));
+    expect(result).toMatchObject({ met: false, progress: 0 });
+
+    expect(evaluateAchievement(rule('perfectionist'), { game: { accuracy: 100 } }).met).toBe(true);
+    expect(evaluateAchievement(rule('perfectionist'), { game: { accuracy: 95 } }).met).toBe(false);
+  });
+
+  it('should only report achievements that are not unlocked yet', () => {
+    const facts = statisticsFacts(stats({ total_games_played: 55, teams_captained: 1 }));
+
+    const unlocked = findNewAchievements(ACHIEVEMENT_RULES, facts, ['first_win', 'games_10']);
+    expect(unlocked.map(r => r.id)).toEqual(['games_50', 'team_captain', 'lightning_fast']);
+  });
+
+  it('should evaluate social achievements with the same rules', () => {
+    const achievement = (id: string, type: string, value: number): SocialAchievement => ({
+      id,
+      achievement_id: id,
+      category: 'friendship',
+      requirement_type: type,
+      requirement_value: value,
+      icon_name: 'heart',
+      rarity: 'common',
+      points: 25,
+      created_at: '2025-07-01T00:00:00.000Z',
+    });
+    const facts = socialFacts({
+      user_id: 'user-1',
+      total_reactions_given: 40,
+      total_reactions_received: 3,
+      friends_count: 5,
+      followers_count: 0,
+      following_count: 2,
+      social_score: 120,
+      updated_at: '2025-07-05T00:00:00.000Z',
+    });
+    const rules = [
+      achievement('first_friend', 'friends_count', 1),
+      achievement('crowd_favorite', 'reactions_received', 50),
+      achievement('cheerleader', 'reactions_given', 25),
+    ].map(socialAchievementRule);
+
+    expect(findNewAchievements(rules, facts, []).map(r => r.id)).toEqual(['first_friend', 'cheerleader']);
+  });
+
+  it('should award achievements after recording a game', async () => {
+    insertSingle.mockResolvedValue({ data: { id: 'history-1', achievements_earned: [] }, error: null });
+    rpc.mockResolvedValue({
+      data: [
+        {
+          achievement_id: 'perfectionist',
+          unlocked_at: '2025-07-06T20:00:01.000Z',
+          game_history_id: 'history-1',
+          xp_awarded: 75,
+        },
+      ],
+      error: null,
+    });
+
+    const recorded = await statisticsService.recordGameHistory(game);
+
+    expect(rpc).toHaveBeenCalledWith('award_achievements', { p_game_history_id: 'history-1' });
+    expect(recorded.achievements_earned).toEqual(['perfectionist']);
+  });
+
+  it('should keep the recorded game when awarding fails', async () => {
+    insertSingle.mockResolvedValue({ data: { id: 'history-1', achievements_earned: [] }, error: null });
+    rpc.mockResolvedValue({ data: null, error: { message: 'permission denied' } });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const recorded = await statisticsService.recordGameHistory(game);
+
+    expect(recorded).toEqual({ id: 'history-1', achievements_earned: [] });
+    expect(console.error).toHaveBeenCalledWith(
+      'Error awarding achievements:',
+      new Error('Failed to award achievements: permission denied')
+    );
+  });
+});
@@ -0,0 +1,379 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const rpc = vi.fn();
+
+vi.mock('../lib/supabase', () => ({
+  supabase: {
+    rpc: (...args: unknown[]) => rpc(...args),
+  },
+}));
+
+import {
+  AnalyticsService,
+  summarizeQuestionStats,
+  toAdministrativeInsights,
+  toAnalyticsQueryParams,
+  toCategoryPerformance,
+  toGamePerformance,
+  toGameSessionAnalytics,
+  toHostPerformance,
+  toPlayerEngagement,
+  toRealTimeAnalytics,
+  toTeamPerformance,
+  type GameTeamStatsRow,
+  type QuestionStatsRow,
+  type RealTimeAnalyticsRow,
+  type TeamPerformanceRow,
+} from '../services/analyticsService';
+
+const now = new Date('2025-07-10T12:00:00.000Z');
+
+const question = (id: string, overrides: Partial<QuestionStatsRow> = {}): QuestionStatsRow => ({
+  question_id: id,
+  game_room_id: 'game-1',
+  question_text: `Question ${id}`,
+  category: 'Science',
+  difficulty: 'medium',
+  attempts: 4,
+  correct_answers: 2,
+  average_response_seconds: 10,
+  ...overrides,
+});
+
+const team = (id: string, overrides: Partial<GameTeamStatsRow> = {}): GameTeamStatsRow => ({
+  team_id: id,
+  team_name: `Team ${id}`,
+  score: 0,
+  correct_answers: 0,
+  total_answers: 0,
+  average_response_seconds: 0,
+  best_streak: 0,
+  current_streak: 0,
+  bonus_points: 0,
+  penalty_points: 0,
+  latest_points: 0,
+  player_count: 0,
+  ...overrides,
+});
+
+const teamRow = (): TeamPerformanceRow => ({
+  team_id: 'owls',
+  team_name: 'Owls',
+  games_played: 0,
+  completed_games: 0,
+  wins: 0,
+  average_score: 0,
+  average_response_seconds: 0,
+  scores: [],
+  categories: [],
+});
+
+const liveRow = (): RealTimeAnalyticsRow => ({
+  active_games: 1,
+  active_players: 4,
+  answers_last_hour: 0,
+  average_response_seconds_last_10_minutes: 0,
+  games: [{ game_id: 'g1', game_name: 'Quiz night', status: 'active', player_count: 4, current_round: 2, total_rounds: 2 }],
+});
+
+describe('Analytics', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+  });
+
+  describe('Filters', () => {
+    it('should turn a time range into a window ending now', () => {
+      const params = toAnalyticsQueryParams({ timeRange: '7d' }, now);
+
+      expect(params).toEqual({
+        p_start: '2025-07-03T12:00:00.000Z',
+        p_end: '2025-07-10T12:00:00.000Z',
+        p_categories: null,
+        p_difficulties: null,
+        p_host_ids: null,
+        p_statuses: null,
+      });
+    });
+
+    it('should pass every filter to the database', async () => {
+      rpc.mockResolvedValue({ data: [], error: null });
+
+      await AnalyticsService.getHostPerformance({
+        timeRange: 'custom',
+        customDateRange: { start: new Date('2025-06-01T00:00:00.000Z'), end: new Date('2025-06-30T00:00:00.000Z') },
+        categories: ['Science'],
+        difficulty: ['hard'],
+        hostIds: ['host-1'],
+        gameStatus: ['completed'],
+        minGames: 3,
+      }, now);
+
+      expect(rpc).toHaveBeenCalledWith('get_host_performance_analytics', expect.objectContaining({
+        p_start: '2025-06-01T00:00:00.000Z',
+        p_end: '2025-06-30T00:00:00.000Z',
+        p_categories: ['Science'],
+        p_difficulties: ['hard'],
+        p_host_ids: ['host-1'],
+        p_statuses: ['completed'],
+        p_min_games: 3,
+      }));
+    });
+
+    it('should treat empty filter lists as no filter', () => {
+      const params = toAnalyticsQueryParams({ timeRange: '24h', categories: [], hostIds: [] }, now);
+      expect(params.p_categories).toBeNull();
+      expect(params.p_host_ids).toBeNull();
+    });
+
+    it('should require dates for a custom range', () => {
+      expect(() => toAnalyticsQueryParams({ timeRange: 'custom' }, now)).toThrow('Choose a start and end date');
+    });
+
+    it('should report database errors', async () => {
+      rpc.mockResolvedValue({ data: null, error: { message: 'permission denied' } });
+      await expect(AnalyticsService.getGamePerformance({ timeRange: '30d' }, now))
+        .rejects.toThrow('Failed to load game analytics: permission denied');
+    });
+  });
+
+  describe('Dashboard sections', () => {
+    it('should work out completion rates and peak times', () => {
+      const performance = toGamePerformance({
+        total_games: 8,
+        completed_games: 6,
+        average_players: 5.25,
+        average_duration_minutes: 42,
+        games_by_hour: [{ hour: 19, count: 3 }, { hour: 20, count: 5 }],
+        games_by_day: [{ day: 5, count: 6 }, { day: 6, count: 2 }],
+      });
+
+      expect(performance.completionRate).toBe(75);
+      expect(performance.abandonmentRate).toBe(25);
+      expect(performance.averagePlayersPerGame).toBe(5.3);
+      expect(performance.peakPlayersTime).toEqual({ hour: 20, dayOfWeek: 'Friday', playerCount: 5 });
+      expect(performance.gamesByDayOfWeek[0]).toEqual({ day: 'Friday', count: 6 });
+    });
+
+    it('should scale player activity to the busiest hour of the week', () => {
+      const engagement = toPlayerEngagement({
+        total_unique_players: 10,
+        returning_players: 4,
+        total_plays: 25,
+        retention: { '1': { eligible: 8, retained: 2 }, '7': { eligible: 5, retained: 1 }, '30': { eligible: 0, retained: 0 } },
+        categories: [{ category: 'Science', answers: 3, possible_answers: 4, average_points: 2 }],
+        activity: [{ day: 1, hour: 20, count: 8 }, { day: 2, hour: 19, count: 2 }],
+      });
+
+      expect(engagement.returningPlayersRate).toBe(40);
+      expect(engagement.averageGamesPerPlayer).toBe(2.5);
+      expect(engagement.playerRetention).toEqual({ day1: 25, day7: 20, day30: 0 });
+      expect(engagement.engagementByCategory[0].engagementRate).toBe(75);
+      expect(engagement.playerActivityHeatmap).toHaveLength(7 * 24);
+      expect(engagement.playerActivityHeatmap.find(cell => cell.dayOfWeek === 1 && cell.hour === 20)?.intensity).toBe(100);
+      expect(engagement.playerActivityHeatmap.find(cell => cell.dayOfWeek === 2 && cell.hour === 19)?.intensity).toBe(25);
+    });
+
+    it('should rank questions by how often they were answered correctly', () => {
+      const analytics = summarizeQuestionStats([
+        question('q1', { correct_answers: 4, difficulty: 'easy', average_response_seconds: 5 }),
+        question('q2', { correct_answers: 1, difficulty: 'hard', average_response_seconds: 20 }),
+        question('q3', { category: null, difficulty: null }),
+        question('q4', { attempts: 0, correct_answers: 0, average_response_seconds: null }),
+      ]);
+
+      expect(analytics.totalQuestions).toBe(4);
+      expect(analytics.difficultyDistribution).toEqual({ easy: 1, medium: 2, hard: 1 });
+      expect(analytics.mostDifficultQuestions.map(item => item.id)).toEqual(['q2', 'q3', 'q1']);
+      expect(analytics.easiestQuestions[0].id).toBe('q1');
+      expect(analytics.questionsByCategory).toContainEqual({ category: 'Uncategorized', count: 1, averageCorrectRate: 50 });
+      // The unanswered question does not drag the average down
+      expect(analytics.questionsByCategory).toContainEqual({ category: 'Science', count: 3, averageCorrectRate: 62.5 });
+    });
+
+    it('should leave host ratings empty rather than guess them', () => {
+      const host = toHostPerformance({
+        host_id: 'host-1',
+        host_name: 'Sam',
+        games_hosted: 4,
+        completed_games: 3,
+        average_players: 6,
+        average_game_minutes: 55,
+        average_rounds: 3,
+        categories: [{ category: 'History', count: 7 }],
+        time_slots: [{ day: 4, hour: 19, count: 3 }, { day: 5, hour: 23, count: 1 }],
+      });
+
+      expect(host.averageGameRating).toBeNull();
+      expect(host.playerSatisfactionScore).toBeNull();
+      expect(host.gameCompletionRate).toBe(75);
+      expect(host.hostingPatterns.preferredTimeSlots).toEqual([
+        { dayOfWeek: 'Thursday', timeRange: '7PM-8PM', frequency: 3 },
+        { dayOfWeek: 'Friday', timeRange: '11PM-12AM', frequency: 1 },
+      ]);
+    });
+
+    it('should follow a team across games and find its strengths', () => {
+      const owls = toTeamPerformance({
+        team_id: 'owls-3',
+        team_name: 'Owls',
+        games_played: 4,
+        completed_games: 4,
+        wins: 3,
+        average_score: 21.25,
+        average_response_seconds: 8.04,
+        scores: [12, 18, 25, 30],
+        categories: [
+          { category: 'History', answers: 10, correct_answers: 9 },
+          { category: 'Science', answers: 10, correct_answers: 4 },
+          { category: 'Sport', answers: 4, correct_answers: 3 },
+        ],
+      });
+
+      expect(owls).toEqual({
+        teamId: 'owls-3',
+        teamName: 'Owls',
+        gamesPlayed: 4,
+        winRate: 75,
+        averageScore: 21.3,
+        averageResponseTime: 8,
+        strongestCategories: ['History', 'Sport'],
+        weakestCategories: ['Science'],
+        performanceTrend: 'improving',
+      });
+      expect(toTeamPerformance({ ...teamRow(), scores: [20, 20, 19] }).performanceTrend).toBe('stable');
+      expect(toTeamPerformance({ ...teamRow(), scores: [30, 10] }).performanceTrend).toBe('declining');
+    });
+
+    it('should share out a category by difficulty and popularity', () => {
+      const category = toCategoryPerformance({
+        category: 'Science',
+        total_questions: 8,
+        attempts: 20,
+        correct_answers: 13,
+        average_response_seconds: 11.26,
+        games: 3,
+        total_games: 4,
+        easy: 2,
+        medium: 4,
+        hard: 2,
+        top_teams: [{ team_id: 'owls', team_name: 'Owls', answers: 8, correct_answers: 7 }],
+      });
+
+      expect(category).toEqual({
+        category: 'Science',
+        totalQuestions: 8,
+        averageCorrectRate: 65,
+        averageResponseTime: 11.3,
+        popularityScore: 75,
+        difficultyBalance: { easy: 25, medium: 50, hard: 25 },
+        topPerformingTeams: [{ teamId: 'owls', teamName: 'Owls', correctRate: 87.5 }],
+      });
+    });
+
+    it('should flag live games in their last round', async () => {
+      rpc.mockResolvedValue({
+        data: {
+          active_games: 3,
+          active_players: 20,
+          answers_last_hour: 140,
+          average_response_seconds_last_10_minutes: 9.16,
+          games: [
+            { game_id: 'g1', game_name: 'Quiz night', status: 'active', player_count: 12, current_round: 4, total_rounds: 4 },
+            { game_id: 'g2', game_name: 'Pub quiz', status: 'active', player_count: 6, current_round: 1, total_rounds: 4 },
+            { game_id: 'g3', game_name: 'Break', status: 'paused', player_count: 2, current_round: 4, total_rounds: 4 },
+          ],
+        },
+        error: null,
+      });
+
+      const live = await AnalyticsService.getRealTimeAnalytics();
+
+      expect(rpc).toHaveBeenCalledWith('get_realtime_analytics', {});
+      expect(live.averageResponseTimeLast10Min).toBe(9.2);
+      expect(live.currentServerLoad).toBeNull();
+      expect(live.liveGameStatus.map(game => game.status)).toEqual(['ending_soon', 'active', 'paused']);
+      // Without a round count a game is never ending soon
+      expect(toRealTimeAnalytics({ ...liveRow(), games: [{ ...liveRow().games[0], total_rounds: 0 }] })
+        .liveGameStatus[0].status).toBe('active');
+    });
+
+    it('should work out growth and churn and leave untracked figures empty', () => {
+      const insights = toAdministrativeInsights({
+        new_users_today: 2,
+        new_users_this_week: 9,
+        new_users_this_month: 30,
+        new_users_previous_month: 24,
+        players_previous_month: 40,
+        lapsed_players: 6,
+        peak_concurrent_players: 48,
+        average_daily_players: 17.44,
+        database_bytes: 1.5 * 1024 ** 3,
+      });
+
+      expect(insights.userGrowth).toEqual({
+        newUsersToday: 2,
+        newUsersThisWeek: 9,
+        newUsersThisMonth: 30,
+        growthRate: 25,
+        churnRate: 15,
+      });
+      expect(insights.systemUsage).toEqual({
+        peakConcurrentUsers: 48,
+        averageDailyActiveUsers: 17.4,
+        serverLoad: null,
+        databaseSize: 1.5,
+      });
+      expect(insights.platformHealth).toBeNull();
+      expect(insights.revenue).toBeNull();
+    });
+  });
+
+  describe('Game stats', () => {
+    it('should rank teams and show who moved on the last question', async () => {
+      rpc.mockResolvedValue({
+        data: {
+          total_questions: 10,
+          questions_answered: 2,
+          teams: [
+            team('owls', { score: 8, correct_answers: 2, total_answers: 2, latest_points: 5, current_streak: 2, player_count: 3 }),
+            team('foxes', { score: 6, correct_answers: 1, total_answers: 2, latest_points: 0, penalty_points: 2, player_count: 4 }),
+          ],
+          questions: [question('q1', { attempts: 2, correct_answers: 2, average_response_seconds: 6 }),
+            question('q2', { attempts: 2, correct_answers: 1, average_response_seconds: 12 })],
+        },
+        error: null,
+      });
+
+      const { gameStats, teamPerformances } = await AnalyticsService.getGameAnalytics('game-1');
+
+      expect(rpc).toHaveBeenCalledWith('get_game_analytics', { p_game_room_id: 'game-1' });
+      expect(gameStats).toMatchObject({
+        questionsAnswered: 2,
+        totalTeams: 2,
+        activePlayers: 7,
+        correctAnswerRate: 75,
+        averageResponseTime: 9,
+        highestScore: 8,
+        lowestScore: 6,
+      });
+      expect(teamPerformances.map(({ teamId, rank, trend }) => ({ teamId, rank, trend }))).toEqual([
+        { teamId: 'owls', rank: 1, trend: 'up' },
+        { teamId: 'foxes', rank: 2, trend: 'down' },
+      ]);
+      expect(teamPerformances[0].streakCurrent).toBe(2);
+      expect(teamPerformances[1]).toMatchObject({ incorrectAnswers: 1, penalties: 2 });
+    });
+
+    it('should share a rank between tied teams', () => {
+      const { teamPerformances } = toGameSessionAnalytics({
+        total_questions: 0,
+        questions_answered: 0,
+        teams: [team('owls', { score: 4 }), team('foxes', { score: 4 })],
+        questions: [],
+      });
+
+      expect(teamPerformances.map(performance => performance.rank)).toEqual([1, 1]);
+      expect(teamPerformances.every(performance => performance.trend === 'stable')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import { buildReportSections, getReportMetrics, serializeAnalyticsReport } from '../utils/analyticsReport';
+import { writePdf } from '../utils/pdf';
+import { readXlsxRows } from '../utils/xlsx';
+import type { AnalyticsDashboardData, ExportOptions } from '../types/analytics';
+
+const data: AnalyticsDashboardData = {
+  gamePerformance: {
+    totalGames: 12,
+    averagePlayersPerGame: 6.5,
+    averageGameDuration: 48,
+    completionRate: 75,
+    abandonmentRate: 25,
+    peakPlayersTime: { hour: 20, dayOfWeek: 'Friday', playerCount: 4 },
+    gamesByTimeOfDay: [{ hour: 19, count: 3 }, { hour: 20, count: 4 }],
+    gamesByDayOfWeek: [{ day: 'Friday', count: 7 }, { day: 'Saturday', count: 5 }],
+  },
+  playerEngagement: {
+    totalUniquePlayers: 40,
+    returningPlayersRate: 35,
+    averageGamesPerPlayer: 2.1,
+    playerRetention: { day1: 20, day7: 15, day30: 5 },
+    engagementByCategory: [{ category: 'Science', engagementRate: 80, averageScore: 3 }],
+    playerActivityHeatmap: [{ dayOfWeek: 5, hour: 20, intensity: 100 }],
+  },
+  questionAnalytics: {
+    totalQuestions: 2,
+    questionsByCategory: [{ category: 'Science', count: 2, averageCorrectRate: 50 }],
+    difficultyDistribution: { easy: 1, medium: 0, hard: 1 },
+    averageResponseTimeByDifficulty: { easy: 5, medium: 0, hard: 20 },
+    mostDifficultQuestions: [
+      { id: 'q1', questionText: 'What is "dark matter", really?', category: 'Science', correctRate: 10, averageResponseTime: 20 },
+    ],
+    easiestQuestions: [],
+  },
+  hostPerformance: [
+    {
+      hostId: 'host-1',
+      hostName: 'Sam',
+      totalGamesHosted: 12,
+      averageGameRating: null,
+      playerSatisfactionScore: null,
+      averagePlayersPerGame: 6.5,
+      gameCompletionRate: 75,
+      popularCategories: [],
+      hostingPatterns: { preferredTimeSlots: [], averageGameLength: 48, averageRoundsPerGame: 3 },
+    },
+  ],
+  administrativeInsights: {
+    platformHealth: { status: 'healthy', uptime: 99.9, errorRate: 0.02, averageResponseTime: 245 },
+    userGrowth: { newUsersToday: 1, newUsersThisWeek: 5, newUsersThisMonth: 20, growthRate: 4, churnRate: 1 },
+    revenue: { totalRevenue: 100, revenueByPeriod: [], averageRevenuePerUser: 2.5, topRevenueGames: [] },
+    systemUsage: { peakConcurrentUsers: 30, averageDailyActiveUsers: 12, serverLoad: 40, databaseSize: 1.2 },
+  },
+  teamPerformance: [],
+  categoryPerformance: [],
+  realTimeAnalytics: {
+    activeGames: 0,
+    activePlayers: 0,
+    questionsAnsweredLastHour: 0,
+    averageResponseTimeLast10Min: 0,
+    currentServerLoad: 0,
+    liveGameStatus: [],
+  },
+  lastUpdated: new Date('2025-07-31T12:00:00.000Z'),
+};
+
+const options = (overrides: Partial<ExportOptions> = {}): ExportOptions => ({
+  format: 'csv',
+  dateRange: { start: new Date(2025, 6, 1), end: new Date(2025, 6, 31) },
+  includeCharts: false,
+  includedMetrics: ['Game Performance', 'Host Performance'],
+  ...overrides,
+});
+
+const decode = (content: string | Uint8Array) =>
+  typeof content === 'string' ? content : new TextDecoder('latin1').decode(content);
+
+describe('Analytics Export', () => {
+  it('should only include the chosen sections, in dashboard order', () => {
+    const sections = buildReportSections(data, ['Host Performance', 'Game Performance', 'Not a section']);
+    expect(sections.map(section => section.metric)).toEqual(['Game Performance', 'Host Performance']);
+    expect(() => buildReportSections(data, [])).toThrow('Choose at least one section');
+  });
+
+  it('should leave out figures nothing tracks', () => {
+    const untracked: AnalyticsDashboardData = {
+      ...data,
+      administrativeInsights: {
+        ...data.administrativeInsights,
+        platformHealth: null,
+        revenue: null,
+        systemUsage: { ...data.administrativeInsights.systemUsage, serverLoad: null },
+      },
+    };
+
+    expect(getReportMetrics(data)).toContain('Revenue Metrics');
+    expect(getReportMetrics(untracked)).not.toContain('Revenue Metrics');
+    expect(getReportMetrics(untracked)).toContain('System Usage');
+
+    const sections = buildReportSections(untracked, ['Revenue Metrics', 'System Usage']);
+    expect(sections.map(section => section.metric)).toEqual(['System Usage']);
+    expect(sections[0].tables[0].rows.map(([metric]) => metric)).toEqual([
+      'Metric',
+      'Peak concurrent users',
+      'Daily active users',
+      'Database size (GB)',
+    ]);
+  });
+
+  it('should write every table to CSV under its section', () => {
+    const file = serializeAnalyticsReport(data, options({ includedMetrics: ['Question Analytics', 'Host Performance'] }));
+    const csv = decode(file.content);
+
+    expect(file.fileName).toBe('analytics-report-2025-07-01-to-2025-07-31.csv');
+    expect(file.mimeType).toBe('text/csv');
+    expect(csv).toContain('Question Analytics: Hardest questions');
+    expect(csv).toContain('"What is ""dark matter"", really?",Science,10,20');
+    expect(csv).toContain('Sam,12,75,6.5,48,3,Not rated');
+  });
+
+  it('should write one worksheet per section', async () => {
+    const file = serializeAnalyticsReport(data, options({ format: 'excel' }));
+    expect(file.fileName.endsWith('.xlsx')).toBe(true);
+
+    const rows = await readXlsxRows((file.content as Uint8Array).slice().buffer);
+    expect(rows[0]).toEqual(['Summary']);
+    expect(rows[1]).toEqual(['Metric', 'Value']);
+    expect(rows[2]).toEqual(['Total games', '12']);
+    // Host Performance is on its own sheet
+    expect(rows.flat()).not.toContain('Sam');
+
+    const workbook = decode(file.content);
+    expect(workbook).toContain('xl/worksheets/sheet2.xml');
+  });
+
+  it('should put charts in the PDF under their section', () => {
+    const chart = {
+      metric: 'Game Performance' as const,
+      title: 'Games by hour',
+      data: new Uint8Array([0xff, 0xd8, 0xff, 0xd9]),
+      width: 1440,
+      height: 640,
+    };
+    const file = serializeAnalyticsReport(data, options({ format: 'pdf', includeCharts: true }), [chart]);
+    const pdf = decode(file.content);
+
+    expect(file.mimeType).toBe('application/pdf');
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('/Subtype /Image /Width 1440 /Height 640');
+    expect(pdf).toContain('(Games by hour) Tj');
+    expect(pdf).toContain('(Host Performance) Tj');
+
+    const withoutCharts = decode(serializeAnalyticsReport(data, options({ format: 'pdf' }), [chart]).content);
+    expect(withoutCharts).not.toContain('/Subtype /Image');
+  });
+
+  it('should paginate long tables and keep the cross-reference table accurate', () => {
+    const rows = [['Team', 'Score'], ...Array.from({ length: 120 }, (_, index) => [`Team (${index})`, index])];
+    const pdf = decode(writePdf({ title: 'Standings', blocks: [{ type: 'table', rows }] }));
+
+    const pageCount = Number(pdf.match(/\/Type \/Pages .* \/Count (\d+)/)?.[1]);
+    expect(pageCount).toBeGreaterThan(1);
+    expect(pdf).toContain(`(Page ${pageCount} of ${pageCount}) Tj`);
+    // The header repeats on every page
+    expect(pdf.split('(Team) Tj').length - 1).toBe(pageCount);
+    expect(pdf).toContain('(Team \\(119\\)) Tj');
+
+    const xrefStart = Number(pdf.match(/startxref\n(\d+)/)?.[1]);
+    expect(pdf.slice(xrefStart, xrefStart + 4)).toBe('xref');
+    const offsets = [...pdf.slice(xrefStart).matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]));
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset, offset + `${index + 1} 0 obj`.length)).toBe(`${index + 1} 0 obj`);
+    });
+  });
+});
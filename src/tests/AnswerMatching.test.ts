@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import { answerMatcher } from '../services/answerMatcher';
+import { doubleMetaphone, soundsAlike } from '../utils/doubleMetaphone';
+import {
+  jaroWinklerSimilarity,
+  levenshteinDistance,
+} from '../utils/stringSimilarity';
+
+describe('Answer Matching', () => {
+  describe('String similarity', () => {
+    it('should compute Levenshtein distance', () => {
+      expect(levenshteinDistance('kitten', 'sitting')).toBe(3);
+      expect(levenshteinDistance('', 'abc')).toBe(3);
+      expect(levenshteinDistance('same', 'same')).toBe(0);
+    });
+
+    it('should compute Jaro-Winkler similarity', () => {
+      expect(jaroWinklerSimilarity('martha', 'marhta')).toBeCloseTo(0.961, 3);
+      expect(jaroWinklerSimilarity('dixon', 'dicksonx')).toBeCloseTo(0.813, 3);
+      expect(jaroWinklerSimilarity('abc', 'xyz')).toBe(0);
+    });
+  });
+
+  describe('Double Metaphone', () => {
+    it('should encode common names', () => {
+      expect(doubleMetaphone('Smith')).toEqual(['SM0', 'XMT']);
+      expect(doubleMetaphone('Schmidt')).toEqual(['XMT', 'SMT']);
+      expect(doubleMetaphone('Thomas')).toEqual(['TMS', 'TMS']);
+    });
+
+    it('should treat phonetic spellings as alike', () => {
+      expect(soundsAlike('Smith', 'Smyth')).toBe(true);
+      expect(soundsAlike('Katherine', 'Catherine')).toBe(true);
+      expect(soundsAlike('Philip', 'Filip')).toBe(true);
+      expect(soundsAlike('Paris', 'London')).toBe(false);
+    });
+  });
+
+  describe('Normalization', () => {
+    it('should strip case, punctuation, accents and articles', () => {
+      expect(answerMatcher.normalize('  The Beatles! ')).toBe('beatles');
+      expect(answerMatcher.normalize('Beyoncé')).toBe('beyonce');
+      expect(answerMatcher.normalize("Guns N' Roses")).toBe('guns n roses');
+      expect(answerMatcher.normalize('Simon & Garfunkel')).toBe('simon and garfunkel');
+    });
+
+    it('should keep an answer that is only an article', () => {
+      expect(answerMatcher.normalize('A')).toBe('a');
+      expect(answerMatcher.normalize('Vitamin A')).toBe('vitamin');
+    });
+
+    it('should convert number words to digits', () => {
+      expect(answerMatcher.normalize('three')).toBe('3');
+      expect(answerMatcher.normalize('Twenty-one Pilots')).toBe('21 pilots');
+      expect(answerMatcher.normalize('one hundred and one dalmatians')).toBe('101 dalmatians');
+      expect(answerMatcher.normalize('Henry the Eighth')).toBe('henry 8th');
+      expect(answerMatcher.normalize('1,000')).toBe('1000');
+    });
+  });
+
+  describe('Matching', () => {
+    it('should match normalised answers exactly', () => {
+      const result = answerMatcher.match('the rolling stones', 'Rolling Stones');
+      expect(result.isMatch).toBe(true);
+      expect(result.confidence).toBe(1);
+      expect(result.strategy).toBe('exact');
+    });
+
+    it('should match answers made only of articles', () => {
+      const result = answerMatcher.match('a', 'A');
+      expect(result.isMatch).toBe(true);
+      expect(result.strategy).toBe('exact');
+      expect(answerMatcher.isMatch('B', 'A')).toBe(false);
+      expect(answerMatcher.isMatch('the', 'A')).toBe(false);
+    });
+
+    it('should accept number words for digits', () => {
+      expect(answerMatcher.isMatch('three', '3')).toBe(true);
+      expect(answerMatcher.isMatch('Henry VIII', 'Henry the Eighth')).toBe(false);
+    });
+
+    it('should accept small typos', () => {
+      const result = answerMatcher.match('Missisippi', 'Mississippi');
+      expect(result.isMatch).toBe(true);
+      expect(result.confidence).toBeLessThan(1);
+    });
+
+    it('should never fuzz numbers', () => {
+      expect(answerMatcher.isMatch('1945', '1946')).toBe(false);
+      expect(answerMatcher.isMatch('Apollo 11', 'Apollo 13')).toBe(false);
+    });
+
+    it('should accept phonetic equivalents', () => {
+      const result = answerMatcher.match('Jon Smyth', 'John Smith');
+      expect(result.isMatch).toBe(true);
+      expect(result.strategy).toBe('phonetic');
+      expect(answerMatcher.isMatch('Steven', 'Stephen')).toBe(true);
+    });
+
+    it('should not accept near-miss places', () => {
+      expect(answerMatcher.isMatch('Austria', 'Australia')).toBe(false);
+      expect(answerMatcher.isMatch('Niger', 'Nigeria')).toBe(false);
+      expect(answerMatcher.isMatch('Nepal', 'Napoli')).toBe(false);
+      expect(answerMatcher.isMatch('Paros', 'Paris')).toBe(false);
+      expect(answerMatcher.isMatch('Shawn Connery', 'Sean Connery')).toBe(true);
+    });
+
+    it('should accept last names for people', () => {
+      const options = { answerKind: 'person' as const };
+      expect(answerMatcher.isMatch('Einstein', 'Albert Einstein', options)).toBe(true);
+      expect(answerMatcher.isMatch('Einstien', 'Albert Einstein', options)).toBe(true);
+      expect(answerMatcher.isMatch('Einstein', 'Albert Einstein')).toBe(false);
+    });
+
+    it('should use alternative answers', () => {
+      const result = answerMatcher.match('NYC', 'New York City', {
+        alternativeAnswers: ['NYC', 'New York'],
+      });
+      expect(result.isMatch).toBe(true);
+      expect(result.matchedAnswer).toBe('NYC');
+    });
+
+    it('should respect per-question strictness', () => {
+      expect(answerMatcher.isMatch('Missisippi', 'Mississippi', { strictness: 'exact' })).toBe(false);
+      expect(answerMatcher.isMatch('MISSISSIPPI ', 'Mississippi', { strictness: 'exact' })).toBe(true);
+      expect(answerMatcher.isMatch('Jon Smyth', 'John Smith', { strictness: 'strict' })).toBe(false);
+    });
+
+    it('should require precision for titles', () => {
+      const options = { answerKind: 'title' as const };
+      expect(answerMatcher.isMatch('The Godfather', 'Godfather', options)).toBe(true);
+      expect(answerMatcher.isMatch('Godfather 2', 'The Godfather', options)).toBe(false);
+      expect(answerMatcher.isMatch('Jaws', 'Jars', options)).toBe(false);
+    });
+
+    it('should report low confidence for wrong answers', () => {
+      const result = answerMatcher.match('Paris', 'London');
+      expect(result.isMatch).toBe(false);
+      expect(result.confidence).toBeLessThan(0.6);
+    });
+  });
+
+  describe('Custom strategies', () => {
+    it('should allow registering and removing strategies', () => {
+      answerMatcher.registerStrategy(
+        {
+          name: 'chemical_symbol',
+          evaluate: (submitted, expected) =>
+            submitted === 'au' && expected === 'gold'
+              ? { isMatch: true, confidence: 0.9 }
+              : null,
+        },
+        'fuzzy'
+      );
+
+      expect(answerMatcher.getStrategies()).toContain('chemical_symbol');
+      expect(answerMatcher.isMatch('Au', 'Gold')).toBe(true);
+
+      answerMatcher.removeStrategy('chemical_symbol');
+      expect(answerMatcher.isMatch('Au', 'Gold')).toBe(false);
+    });
+  });
+});
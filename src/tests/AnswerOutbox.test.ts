@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const invoke = vi.fn();
+
+vi.mock('../services/supabase', () => ({
+  supabase: { functions: { invoke: (...args: unknown[]) => invoke(...args) } },
+}));
+
+import {
+  AnswerOutbox,
+  MemoryOutboxStorage,
+  isRetryableSendError,
+  type OutboxAnswer,
+  type OutboxSender,
+} from '../services/answerOutbox';
+import { EdgeFunctionError } from '../services/edgeFunctions';
+import { RateLimitError } from '../utils/rateLimit';
+
+const answer = (questionId: string, text = 'Paris'): OutboxAnswer => ({
+  teamId: 'team-a',
+  gameId: 'game-1',
+  questionId,
+  answer: text,
+  pointsWagered: 3,
+});
+
+const graded = { isCorrect: true, pointsAwarded: 3, correctAnswer: 'Paris' };
+
+// An edge function error response as supabase-js reports it
+const functionError = (status: number, message: string) => ({
+  data: null,
+  error: {
+    message: 'Edge Function returned a non-2xx status code',
+    context: new Response(JSON.stringify({ error: message }), { status }),
+  },
+});
+
+describe('Answer outbox', () => {
+  let storage: MemoryOutboxStorage;
+  let online: boolean;
+  let ids: number;
+
+  const outbox = (send: OutboxSender) =>
+    new AnswerOutbox({
+      storage,
+      send,
+      isOnline: () => online,
+      now: () => Date.parse('2025-07-08T19:00:00Z'),
+      createId: () => `key-${++ids}`,
+    });
+
+  beforeEach(() => {
+    invoke.mockReset();
+    storage = new MemoryOutboxStorage();
+    online = true;
+    ids = 0;
+  });
+
+  it('should acknowledge an answer the server graded', async () => {
+    const send = vi.fn<OutboxSender>().mockResolvedValue(graded);
+
+    const entry = await outbox(send).submit(answer('q1'));
+
+    expect(entry).toMatchObject({ id: 'key-1', status: 'acknowledged', attempts: 1, result: graded });
+    expect(await storage.getAll()).toEqual([entry]);
+  });
+
+  it('should keep answers given offline through a reload and replay them in order', async () => {
+    online = false;
+    const send = vi.fn<OutboxSender>().mockResolvedValue(graded);
+    const before = outbox(send);
+    await before.submit(answer('q1'));
+    await before.submit(answer('q2', 'Jupiter'));
+    expect(send).not.toHaveBeenCalled();
+    expect(before.getEntries().map(entry => entry.status)).toEqual(['queued', 'queued']);
+
+    online = true;
+    const after = outbox(send);
+    await after.flush();
+
+    expect(send.mock.calls.map(([entry]) => [entry.id, entry.questionId])).toEqual([
+      ['key-1', 'q1'],
+      ['key-2', 'q2'],
+    ]);
+    expect(after.getEntries().map(entry => entry.status)).toEqual(['acknowledged', 'acknowledged']);
+  });
+
+  it('should resend answers that were in flight when the page closed', async () => {
+    await storage.put({ ...answer('q1'), id: 'key-9', sequence: 1, status: 'sent', queuedAt: '2025-07-08T18:59:00Z', attempts: 1 });
+    const send = vi.fn<OutboxSender>().mockResolvedValue(graded);
+
+    await outbox(send).flush();
+
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({ id: 'key-9', attempts: 2 }));
+  });
+
+  it('should stop at an answer it cannot deliver so later ones wait their turn', async () => {
+    const send = vi.fn<OutboxSender>()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValue(graded);
+    const box = outbox(send);
+
+    const first = await box.submit(answer('q1'));
+    expect(first).toMatchObject({ status: 'queued', error: 'Failed to fetch' });
+
+    const second = await box.submit(answer('q2'));
+    expect(second.status).toBe('acknowledged');
+    expect(send.mock.calls.map(([entry]) => entry.questionId)).toEqual(['q1', 'q1', 'q2']);
+  });
+
+  it('should reject answers the server refuses and carry on with the rest', async () => {
+    const send = vi.fn<OutboxSender>()
+      .mockRejectedValueOnce(new EdgeFunctionError('validate-answer', 'Answers are closed for this question', 409))
+      .mockResolvedValue(graded);
+    online = false;
+    const box = outbox(send);
+    await box.submit(answer('q1'));
+    await box.submit(answer('q2'));
+
+    online = true;
+    await box.flush();
+
+    expect(box.getEntries().map(entry => [entry.status, entry.error])).toEqual([
+      ['rejected', 'Answers are closed for this question'],
+      ['acknowledged', undefined],
+    ]);
+  });
+
+  it('should replace a queued answer when the team changes its mind', async () => {
+    online = false;
+    const box = outbox(vi.fn());
+
+    await box.submit(answer('q2', 'Mars'));
+    await box.submit(answer('q1', 'Lyon'));
+    const changed = await box.submit({ ...answer('q1', 'Paris'), pointsWagered: 5 });
+
+    expect(box.getEntries()).toHaveLength(2);
+    expect(changed).toMatchObject({ answer: 'Paris', pointsWagered: 5, sequence: 2 });
+    expect(box.getEntry('team-a', 'q1')?.answer).toBe('Paris');
+    expect((await storage.getAll()).map(entry => entry.id).sort()).toEqual(['key-1', 'key-3']);
+  });
+
+  it('should only issue a new idempotency key when the answer or wager changes', async () => {
+    online = false;
+    const box = outbox(vi.fn());
+
+    const first = await box.submit(answer('q1', 'Lyon'));
+    expect((await box.submit(answer('q1', 'Lyon'))).id).toBe(first.id);
+
+    const rewagered = await box.submit({ ...answer('q1', 'Lyon'), pointsWagered: 5 });
+    expect(rewagered.id).not.toBe(first.id);
+
+    const reanswered = await box.submit({ ...answer('q1', 'Paris'), pointsWagered: 5 });
+    expect(reanswered.id).not.toBe(rewagered.id);
+    expect(box.getEntries().map(entry => entry.id)).toEqual([reanswered.id]);
+  });
+
+  it('should only retry failures that might go away', () => {
+    expect(isRetryableSendError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isRetryableSendError(new RateLimitError({ retryAfterSeconds: 5, message: 'Slow down.' }))).toBe(true);
+    expect(isRetryableSendError(new EdgeFunctionError('validate-answer', 'Boom', 503))).toBe(true);
+    expect(isRetryableSendError(new EdgeFunctionError('validate-answer', 'offline'))).toBe(true);
+    expect(isRetryableSendError(new EdgeFunctionError('handle-point-usage', 'Wagers are closed for this round', 409))).toBe(false);
+  });
+
+  it('should send the idempotency key with the wager and report the server’s reason', async () => {
+    invoke
+      .mockResolvedValueOnce({ data: { success: true, remainingPoints: 3, usedPoints: 3, availablePoints: {} }, error: null })
+      .mockResolvedValueOnce(functionError(409, 'Answers are closed for this question'))
+      .mockResolvedValueOnce({ data: { success: true, remainingPoints: 6, usedPoints: 0, availablePoints: {} }, error: null });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const box = new AnswerOutbox({ storage, isOnline: () => true, createId: () => 'key-1' });
+    const entry = await box.submit(answer('q1'));
+
+    expect(invoke.mock.calls[0]).toEqual([
+      'handle-point-usage',
+      {
+        body: {
+          teamId: 'team-a',
+          gameId: 'game-1',
+          action: 'wager',
+          pointValue: 3,
+          questionId: 'q1',
+          idempotencyKey: 'key-1',
+        },
+      },
+    ]);
+    expect(entry).toMatchObject({ status: 'rejected', error: 'Answers are closed for this question' });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// Each channel remembers the topic and options it was opened with
+const channels: { topic: string; options: unknown; handlers: ((message: { payload: unknown }) => void)[]; send: ReturnType<typeof vi.fn> }[] = [];
+
+vi.mock('../services/supabase', () => ({
+  supabase: {
+    channel: (topic: string, options?: unknown) => {
+      const record = { topic, options, handlers: [] as ((message: { payload: unknown }) => void)[], send: vi.fn() };
+      channels.push(record);
+      const channel = {
+        on: (_type: string, _filter: unknown, handler: (message: { payload: unknown }) => void) => {
+          record.handlers.push(handler);
+          return channel;
+        },
+        subscribe: () => channel,
+        unsubscribe: vi.fn(),
+        send: record.send,
+      };
+      return channel;
+    },
+  },
+}));
+
+import { createTeamChannel, teamChannelName } from '../services/teamChannels';
+import { teamGameIntegration } from '../services/teamGameIntegration';
+
+describe('Team channels', () => {
+  beforeEach(() => {
+    channels.length = 0;
+  });
+
+  it('names topics after the team so the database can authorize them', () => {
+    expect(teamChannelName('team-a', 'presence')).toBe('team:team-a:presence');
+    expect(teamChannelName('team-a', 'reviews')).not.toBe(teamChannelName('team-b', 'reviews'));
+  });
+
+  it('opens private channels, keeping the presence key', () => {
+    createTeamChannel('team-a', 'presence', { presence: { key: 'alice' } });
+
+    expect(channels[0]).toMatchObject({
+      topic: 'team:team-a:presence',
+      options: { config: { presence: { key: 'alice' }, private: true } },
+    });
+  });
+
+  it('sends team game events on the team’s private channel only', async () => {
+    await teamGameIntegration.broadcastTeamGameEvent({
+      type: 'answer_submitted',
+      teamId: 'team-a',
+      gameRoomId: 'game-1',
+      payload: { questionId: 'q1' },
+    });
+
+    expect(channels).toHaveLength(1);
+    expect(channels[0].topic).toBe('team:team-a:game');
+    expect(channels[0].options).toEqual({ config: { private: true } });
+    expect(channels[0].send).toHaveBeenCalledWith(expect.objectContaining({ event: 'team_game_event' }));
+  });
+
+  it('listens on the private channel and ignores events from other rooms', () => {
+    const callback = vi.fn();
+    const unsubscribe = teamGameIntegration.subscribeToTeamGameEvents('game-1', 'team-a', callback);
+
+    expect(channels[0].topic).toBe('team:team-a:game');
+    expect(channels[0].options).toEqual({ config: { private: true } });
+
+    channels[0].handlers[0]({ payload: { type: 'answer_submitted', teamId: 'team-a', gameRoomId: 'game-2' } });
+    channels[0].handlers[0]({ payload: { type: 'answer_submitted', teamId: 'team-a', gameRoomId: 'game-1' } });
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith(expect.objectContaining({ gameRoomId: 'game-1' }));
+    unsubscribe();
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const calls: [string, unknown[]][] = [];
+let result: { data: unknown; error: unknown } = { data: [], error: null };
+const rpc = vi.fn();
+
+// Records each builder call and resolves to `result` when awaited
+function queryBuilder() {
+  const builder: Record<string, unknown> = {};
+  for (const method of ['select', 'eq', 'is', 'or', 'order', 'limit', 'gt', 'in', 'update', 'insert']) {
+    builder[method] = (...args: unknown[]) => {
+      calls.push([method, args]);
+      return builder;
+    };
+  }
+  builder.then = (resolve: (value: unknown) => void) => resolve(result);
+  return builder;
+}
+
+vi.mock('../services/supabase', () => ({
+  supabase: {
+    from: (table: string) => {
+      calls.push(['from', [table]]);
+      return queryBuilder();
+    },
+    rpc: (...args: unknown[]) => rpc(...args),
+  },
+}));
+
+import { ChatService, mergeMessages, toChatMessage } from '../services/chatService';
+import {
+  completeMention,
+  extractMentions,
+  pendingMention,
+  segmentMentions,
+  suggestMentions,
+} from '../utils/chatMentions';
+import type { ChatMessage } from '../types/database';
+
+const members = [
+  { user_id: 'u-ann', display_name: 'Ann' },
+  { user_id: 'u-anne', display_name: 'Anne Marie' },
+  { user_id: 'u-bob', display_name: 'Bob' },
+];
+
+const message = (id: string, createdAt: string, extra: Partial<ChatMessage> = {}): ChatMessage => ({
+  id,
+  game_room_id: 'room-1',
+  user_id: 'u-ann',
+  message: `message ${id}`,
+  message_type: 'text',
+  created_at: createdAt,
+  updated_at: createdAt,
+  is_deleted: false,
+  ...extra,
+});
+
+const row = (id: string, createdAt: string) => ({
+  ...message(id, createdAt),
+  profiles: { id: 'u-ann', display_name: 'Ann', avatar_url: null },
+  teams: { id: 'team-1', name: 'Quizzards' },
+});
+
+describe('Chat mentions', () => {
+  it('matches the longest member name after an @', () => {
+    expect(extractMentions('@Anne Marie and @ann, look!', members)).toEqual(['u-anne', 'u-ann']);
+  });
+
+  it('ignores email addresses, partial names and repeats', () => {
+    expect(extractMentions('mail bob@example.com or @Bobby', members)).toEqual([]);
+    expect(extractMentions('@Bob @bob @BOB', members)).toEqual(['u-bob']);
+  });
+
+  it('splits a message into text and mentions', () => {
+    expect(segmentMentions('hi @Bob!', members)).toEqual([
+      { text: 'hi ' },
+      { text: '@Bob', userId: 'u-bob' },
+      { text: '!' },
+    ]);
+  });
+
+  it('suggests and completes the mention being typed', () => {
+    expect(pendingMention('hey @an')).toBe('an');
+    expect(pendingMention('hey @Anne M')).toBe('Anne M');
+    expect(pendingMention('hey @Bob ')).toBeNull();
+    expect(pendingMention('no mention')).toBeNull();
+    expect(suggestMentions('an', members).map(m => m.user_id)).toEqual(['u-ann', 'u-anne']);
+    expect(completeMention('hey @an', members[1])).toBe('hey @Anne Marie ');
+  });
+});
+
+describe('Chat history', () => {
+  beforeEach(() => {
+    calls.length = 0;
+    result = { data: [], error: null };
+    rpc.mockReset();
+  });
+
+  it('merges pages and realtime inserts without duplicates, oldest first', () => {
+    const older = [message('a', '2025-07-10T10:00:00Z'), message('b', '2025-07-10T10:01:00Z')];
+    const latest = [
+      message('b', '2025-07-10T10:01:00Z', { message: 'edited' }),
+      message('c', '2025-07-10T10:01:00Z'),
+      message('d', '2025-07-10T10:02:00Z', { is_deleted: true }),
+    ];
+
+    const merged = mergeMessages(latest.slice(0, 2), older);
+    expect(merged.map(m => m.id)).toEqual(['a', 'b', 'c']);
+    expect(mergeMessages(merged, latest).map(m => m.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('keeps joined profile data when a realtime update arrives without it', () => {
+    const loaded = toChatMessage(row('a', '2025-07-10T10:00:00Z'));
+    const [merged] = mergeMessages([loaded], [message('a', '2025-07-10T10:00:00Z', { message: 'new text' })]);
+
+    expect(merged.message).toBe('new text');
+    expect(merged.user?.display_name).toBe('Ann');
+    expect(merged.team?.name).toBe('Quizzards');
+  });
+
+  it('pages back from a cursor and returns the next one while more remain', async () => {
+    // Newest first, one more than the page size
+    result = {
+      data: [row('c', '2025-07-10T10:02:00Z'), row('b', '2025-07-10T10:01:00Z'), row('a', '2025-07-10T10:00:00Z')],
+      error: null,
+    };
+
+    const page = await ChatService.fetchMessages({
+      gameRoomId: 'room-1',
+      before: { created_at: '2025-07-10T10:03:00Z', id: 'd' },
+      limit: 2,
+    });
+
+    expect(page.messages.map(m => m.id)).toEqual(['b', 'c']);
+    expect(page.messages[0].user?.display_name).toBe('Ann');
+    expect(page.nextCursor).toEqual({ created_at: '2025-07-10T10:01:00Z', id: 'b' });
+    expect(calls).toContainEqual(['is', ['thread_id', null]]);
+    expect(calls).toContainEqual([
+      'or',
+      ['created_at.lt."2025-07-10T10:03:00Z",and(created_at.eq."2025-07-10T10:03:00Z",id.lt.d)'],
+    ]);
+    expect(calls).toContainEqual(['limit', [3]]);
+  });
+
+  it('loads a thread and stops at the start of its history', async () => {
+    result = { data: [row('r2', '2025-07-10T10:05:00Z'), row('r1', '2025-07-10T10:04:00Z')], error: null };
+
+    const page = await ChatService.fetchMessages({ gameRoomId: 'room-1', threadId: 'root-1', limit: 5 });
+
+    expect(page.messages.map(m => m.id)).toEqual(['r1', 'r2']);
+    expect(page.nextCursor).toBeNull();
+    expect(calls).toContainEqual(['eq', ['thread_id', 'root-1']]);
+  });
+
+  it('reports load failures in the service error format', async () => {
+    result = { data: null, error: { message: 'permission denied' } };
+
+    await expect(ChatService.fetchMessages({ gameRoomId: 'room-1' })).rejects.toThrow(
+      'Failed to load chat messages: permission denied'
+    );
+  });
+});
+
+describe('Chat moderation', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+  });
+
+  it('edits through the database so the old text is kept in the history', async () => {
+    rpc.mockResolvedValue({ data: message('a', '2025-07-10T10:00:00Z', { message: 'fixed' }), error: null });
+
+    const edited = await ChatService.editMessage('a', 'fixed', ['u-bob']);
+
+    expect(rpc).toHaveBeenCalledWith('edit_chat_message', {
+      p_message_id: 'a',
+      p_message: 'fixed',
+      p_mentioned_user_ids: ['u-bob'],
+    });
+    expect(edited.message).toBe('fixed');
+  });
+
+  it('mutes a player for a number of minutes', async () => {
+    rpc.mockResolvedValue({ data: { user_id: 'u-bob' }, error: null });
+
+    await ChatService.muteUser('room-1', 'u-bob', 15, 'spam');
+
+    expect(rpc).toHaveBeenCalledWith('mute_chat_user', {
+      p_game_room_id: 'room-1',
+      p_user_id: 'u-bob',
+      p_minutes: 15,
+      p_reason: 'spam',
+    });
+  });
+
+  it('passes on why the database refused a moderation action', async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: 'You are not allowed to mute this player' } });
+
+    await expect(ChatService.muteUser('room-1', 'u-host', 5)).rejects.toThrow(
+      'Failed to mute player: You are not allowed to mute this player'
+    );
+  });
+
+  it('removes or keeps a flagged message when its flag is reviewed', async () => {
+    rpc.mockResolvedValue({ data: null, error: null });
+
+    await ChatService.reviewFlag('flag-1', true);
+    await ChatService.reviewFlag('flag-2', false);
+
+    expect(rpc).toHaveBeenNthCalledWith(1, 'review_chat_flag', { p_flag_id: 'flag-1', p_remove: true });
+    expect(rpc).toHaveBeenNthCalledWith(2, 'review_chat_flag', { p_flag_id: 'flag-2', p_remove: false });
+  });
+});
@@ -0,0 +1,272 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ClockSync,
+  computeClockSample,
+  createServerClockTransport,
+  estimateOffset,
+  type ClockPing,
+  type ClockPong,
+  type ClockSyncTransport,
+} from '../services/clockSync';
+import { GameTimer } from '../services/gameTimer';
+import { reduceGameState } from '../services/gameReducer';
+import type { GameAction, GameState, Question, Round } from '../types/game';
+import { handleClockSync } from '../../supabase/functions/_shared/clockSync.ts';
+import { MemoryGameStore } from '../../supabase/functions/_shared/memoryStore.ts';
+
+// The server clock runs `skew` ms ahead of the phone's; each network leg takes
+// half the latency on the phone's clock
+const createSkewedTransport = (clock: { time: number }, skew: number, latency: number): ClockSyncTransport => {
+  let handler: ((pong: ClockPong) => void) | null = null;
+  return {
+    sendPing(ping: ClockPing) {
+      clock.time += latency / 2;
+      const serverReceivedAt = clock.time + skew;
+      clock.time += 1 + latency / 2;
+      Promise.resolve().then(() => {
+        handler?.({ ...ping, serverReceivedAt, serverSentAt: serverReceivedAt + 1 });
+      });
+    },
+    onPong(next) {
+      handler = next;
+      return () => {
+        handler = null;
+      };
+    },
+  };
+};
+
+const createQuestion = (id: string): Question => ({
+  id,
+  text: `Question ${id}`,
+  type: 'text',
+  category: 'General',
+  difficulty: 'easy',
+  correctAnswer: 'Paris',
+  timeLimit: 10,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+});
+
+const rounds: Round[] = [
+  {
+    id: 'round-1',
+    number: 1,
+    type: 'standard',
+    name: 'Round 1',
+    availablePointValues: [1, 3, 5],
+    questions: [createQuestion('q1')],
+    isComplete: false,
+  },
+];
+
+const createGameState = (answerGracePeriod?: number): GameState => ({
+  id: 'game-1',
+  roomId: 'room-1',
+  hostId: 'host-1',
+  configuration: {
+    id: 'config-1',
+    name: 'Timer Test',
+    settings: {
+      maxRounds: 1,
+      questionsPerRound: 1,
+      defaultTimeLimit: 10,
+      allowTeams: true,
+      maxTeamSize: 4,
+      maxTeams: 10,
+      pointSystem: 'last-call',
+      enableSpecialRounds: false,
+      enableWagerRounds: false,
+      enableBonusRounds: false,
+      autoAdvance: false,
+      showCorrectAnswers: true,
+      allowAnswerChanges: false,
+      enableHints: false,
+      difficulty: 'medium',
+      answerGracePeriod,
+    },
+    rounds,
+    categories: [],
+    createdBy: 'host-1',
+    isPublic: false,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+  },
+  phase: 'pre-game',
+  currentRound: 0,
+  rounds,
+  completedRounds: 0,
+  totalQuestions: 1,
+  answeredQuestions: 0,
+  players: {},
+  teams: {},
+  usedPointValues: {},
+  timers: {},
+  isActive: false,
+  isPaused: false,
+  isComplete: false,
+  events: [],
+  connectedPlayers: [],
+  lastUpdated: '2025-01-01T00:00:00.000Z',
+});
+
+const at = (second: number, ms = 0) => new Date(Date.UTC(2025, 0, 1, 20, 0, second, ms)).toISOString();
+
+const action = (type: GameAction['type'], timestamp: string, payload?: Record<string, any>): GameAction => ({
+  type,
+  gameId: 'game-1',
+  payload,
+  timestamp,
+});
+
+// Question presented at 20:00:03 with a 10s timer that expires at 20:00:13
+const presentQuestion = (answerGracePeriod?: number): GameState => {
+  let state = createGameState(answerGracePeriod);
+  for (const next of [
+    action('add-player', at(0), { playerId: 'alice' }),
+    action('start-game', at(1)),
+    action('start-round', at(2)),
+    action('present-question', at(3)),
+  ]) {
+    state = reduceGameState(state, next).state;
+  }
+  return state;
+};
+
+describe('Clock Sync', () => {
+  describe('Offset estimation', () => {
+    it('should compute offset and round trip from a ping exchange', () => {
+      const sample = computeClockSample(
+        { id: 'p1', clientSentAt: 1000, serverReceivedAt: 6050, serverSentAt: 6060 },
+        1110
+      );
+
+      expect(sample.offset).toBe(5000);
+      expect(sample.roundTrip).toBe(100);
+    });
+
+    it('should ignore offsets from slow round trips', () => {
+      const offset = estimateOffset([
+        { offset: 5000, roundTrip: 20, measuredAt: 0 },
+        { offset: 5010, roundTrip: 30, measuredAt: 0 },
+        { offset: 9000, roundTrip: 900, measuredAt: 0 },
+        { offset: 1000, roundTrip: 1200, measuredAt: 0 },
+      ]);
+
+      expect(offset).toBe(5005);
+    });
+
+    it('should converge on the server clock over the transport', async () => {
+      const clock = { time: 1_000_000 };
+      const sync = new ClockSync(createSkewedTransport(clock, 5000, 40), {
+        now: () => clock.time,
+        samplesPerSync: 4,
+        resyncInterval: 60000,
+      });
+
+      sync.start();
+      await sync.sync();
+      sync.stop();
+
+      expect(sync.isSynced()).toBe(true);
+      expect(sync.getOffset()).toBe(5000);
+      expect(sync.getRoundTrip()).toBe(40);
+      expect(sync.now()).toBe(clock.time + 5000);
+    });
+  });
+
+  describe('Server clock', () => {
+    it('should sync with the clock-sync function', async () => {
+      const phone = { time: 1_000_000 };
+      const store = new MemoryGameStore();
+
+      // 20ms each way, and 30ms signing the caller in before the handler runs
+      const transport = createServerClockTransport(async ping => {
+        const serverTime = (elapsed: number) => () => new Date(ping.clientSentAt + elapsed + 5000);
+        const pong = await handleClockSync(ping, {
+          store,
+          callerId: 'alice',
+          receivedAt: serverTime(20)(),
+          now: serverTime(50),
+        });
+        phone.time = ping.clientSentAt + 70;
+        return pong;
+      });
+      const sync = new ClockSync(transport, { now: () => phone.time, samplesPerSync: 2 });
+
+      sync.start();
+      await sync.sync();
+      sync.stop();
+
+      expect(sync.getOffset()).toBe(5000);
+      expect(sync.getRoundTrip()).toBe(40);
+    });
+  });
+
+  describe('Scheduled timer', () => {
+    it('should count down from the published start time on the synced clock', () => {
+      let hostTime = 100_000;
+      const timer = new GameTimer({ duration: 30, clock: () => hostTime });
+
+      timer.syncTo({ startedAt: 90_000, duration: 30 });
+
+      expect(timer.getState().timeRemaining).toBe(20);
+      expect(timer.getDeadline()).toBe(120_000);
+
+      hostTime = 121_000;
+      expect(timer.acceptsAnswerAt(hostTime)).toBe(false);
+      expect(timer.acceptsAnswerAt(hostTime, 2)).toBe(true);
+
+      timer.destroy();
+    });
+
+    it('should hold remaining time while the schedule is paused', () => {
+      const timer = new GameTimer({ duration: 30, clock: () => 200_000 });
+
+      timer.syncTo({ startedAt: 90_000, duration: 30, pausedAt: 100_000 });
+
+      expect(timer.getState().isPaused).toBe(true);
+      expect(timer.getState().timeRemaining).toBe(20);
+      expect(timer.getDeadline()).toBeNull();
+
+      timer.destroy();
+    });
+
+    it('should derive the schedule from the shared timer state', () => {
+      const state = presentQuestion();
+      const schedule = GameTimer.scheduleFromState(state.timers.question);
+
+      expect(schedule).toEqual({
+        startedAt: Date.parse(at(3)),
+        duration: 10,
+        pausedAt: null,
+      });
+    });
+  });
+
+  describe('Answer deadline', () => {
+    it('should accept answers that arrive within the grace window', () => {
+      let state = presentQuestion(2);
+      state = reduceGameState(state, action('update-timer', at(13), { remaining: 0 })).state;
+      expect(state.phase).toBe('answer-review');
+
+      const { state: next } = reduceGameState(
+        state,
+        action('submit-answer', at(14, 500), { playerId: 'alice', answer: 'Paris', pointValue: 5 })
+      );
+
+      expect(next.currentQuestion?.submissions).toHaveLength(1);
+    });
+
+    it('should reject answers after the grace window', () => {
+      const state = presentQuestion(2);
+
+      expect(() =>
+        reduceGameState(
+          state,
+          action('submit-answer', at(15, 1), { playerId: 'alice', answer: 'Paris', pointValue: 5 })
+        )
+      ).toThrow('Time is up for this question');
+    });
+  });
+});
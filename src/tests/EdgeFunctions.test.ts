@@ -0,0 +1,501 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MemoryGameStore } from '../../supabase/functions/_shared/memoryStore.ts';
+import { HttpError, type HandlerContext } from '../../supabase/functions/_shared/context.ts';
+import { handleManageGameState } from '../../supabase/functions/_shared/gameState.ts';
+import { handleStartGameRound } from '../../supabase/functions/_shared/startGameRound.ts';
+import { handlePointUsage } from '../../supabase/functions/_shared/pointUsage.ts';
+import { handleValidateAnswer } from '../../supabase/functions/_shared/validateAnswer.ts';
+import { handleCalculateScores } from '../../supabase/functions/_shared/calculateScores.ts';
+import { RateLimitError } from '../../supabase/functions/_shared/rateLimit.ts';
+import { handleRateMatch, rateGame } from '../../supabase/functions/_shared/skillRatings.ts';
+import type { TournamentMatchRow } from '../../supabase/functions/_shared/store.ts';
+import type {
+  AnswerValidationResponse,
+  GameStateResponse,
+  PointUsageResponse,
+  ScoreCalculationResponse,
+  StartRoundRequest,
+  StartRoundResponse,
+} from '../services/edgeFunctions';
+
+const GAME = 'game-1';
+
+let store: MemoryGameStore;
+let clock: Date;
+
+const as = (callerId: string): HandlerContext => ({ store, callerId, now: () => clock });
+
+const advance = (seconds: number) => {
+  clock = new Date(clock.getTime() + seconds * 1000);
+};
+
+const roundRequest = (overrides: Partial<StartRoundRequest> = {}): StartRoundRequest => ({
+  gameId: GAME,
+  hostId: 'host',
+  roundNumber: 1,
+  roundType: 'standard',
+  timeLimit: 60,
+  questions: [
+    { text: 'Capital of France?', correctAnswer: 'Paris', questionType: 'short_answer' },
+    { text: 'Largest planet?', correctAnswer: 'Jupiter', questionType: 'short_answer', explanation: 'By mass and size' },
+    { text: 'Is the sun a star?', correctAnswer: 'True', questionType: 'true_false' },
+  ],
+  ...overrides,
+});
+
+const startGameAndRound = async (): Promise<StartRoundResponse> => {
+  await handleManageGameState({ action: 'start', gameId: GAME, hostId: 'host' }, as('host'));
+  return handleStartGameRound(roundRequest(), as('host'));
+};
+
+const wager = (callerId: string, teamId: string, pointValue: number, questionId: string): Promise<PointUsageResponse> =>
+  handlePointUsage({ teamId, gameId: GAME, action: 'wager', pointValue, questionId }, as(callerId));
+
+const expectHttpError = async (promise: Promise<unknown>, status: number) => {
+  const error = await promise.then(() => null, (err: unknown) => err);
+  expect(error).toBeInstanceOf(HttpError);
+  expect((error as HttpError).status).toBe(status);
+};
+
+describe('Edge functions', () => {
+  beforeEach(() => {
+    clock = new Date('2025-07-01T19:00:00Z');
+    store = new MemoryGameStore();
+    store.gameRooms.push({ id: GAME, host_id: 'host', status: 'waiting' });
+    store.teams.push(
+      { id: 'team-a', room_id: GAME, name: 'Aces' },
+      { id: 'team-b', room_id: GAME, name: 'Brains' }
+    );
+    store.teamMembers.push(
+      { team_id: 'team-a', user_id: 'alice' },
+      { team_id: 'team-b', user_id: 'bob' }
+    );
+  });
+
+  describe('manage-game-state', () => {
+    it('only lets the signed-in host change the game', async () => {
+      await expectHttpError(handleManageGameState({ action: 'start', gameId: GAME, hostId: 'alice' }, as('alice')), 403);
+      // Claiming to be the host in the body is not enough
+      await expectHttpError(handleManageGameState({ action: 'start', gameId: GAME, hostId: 'host' }, as('alice')), 403);
+
+      const response: GameStateResponse = await handleManageGameState(
+        { action: 'start', gameId: GAME, hostId: 'host' },
+        as('host')
+      );
+      expect(response.success).toBe(true);
+      expect(response.gameState.status).toBe('active');
+      expect(store.gameRooms[0].status).toBe('active');
+    });
+
+    it('rejects transitions the game is not in a state for', async () => {
+      await expectHttpError(handleManageGameState({ action: 'pause', gameId: GAME, hostId: 'host' }, as('host')), 409);
+    });
+
+    it('freezes the round timer while paused', async () => {
+      await startGameAndRound();
+      advance(20);
+
+      const paused = await handleManageGameState({ action: 'pause', gameId: GAME, hostId: 'host' }, as('host'));
+      expect(paused.gameState.roundStatus).toBe('paused');
+      expect(paused.gameState.timeRemaining).toBe(40);
+
+      advance(300);
+      const resumed = await handleManageGameState({ action: 'resume', gameId: GAME, hostId: 'host' }, as('host'));
+      expect(resumed.gameState.roundStatus).toBe('active');
+      expect(resumed.gameState.timeRemaining).toBe(40);
+    });
+  });
+
+  describe('start-game-round', () => {
+    it('stores questions server-side and starts the round timer', async () => {
+      const response = await startGameAndRound();
+
+      expect(response.questionIds).toHaveLength(3);
+      expect(response.gameState).toEqual({
+        currentRound: 1,
+        roundStatus: 'active',
+        timeLimit: 60,
+        questionsCount: 3,
+      });
+      expect(store.questions[0].correct_answer).toBe('Paris');
+      expect(store.rounds[0].point_values).toEqual([1, 3, 5]);
+    });
+
+    it('will not open a round while another is running or replay one', async () => {
+      await startGameAndRound();
+      await expectHttpError(handleStartGameRound(roundRequest({ roundNumber: 2 }), as('host')), 409);
+
+      advance(61);
+      await expectHttpError(handleStartGameRound(roundRequest(), as('host')), 409);
+      const second = await handleStartGameRound(roundRequest({ roundNumber: 2 }), as('host'));
+      expect(second.success).toBe(true);
+      expect(store.rounds[0].status).toBe('completed');
+      expect(store.rounds[1].point_values).toEqual([2, 4, 6]);
+    });
+  });
+
+  describe('handle-point-usage', () => {
+    it('spends each point value once per round', async () => {
+      const { questionIds } = await startGameAndRound();
+
+      const first = await wager('alice', 'team-a', 5, questionIds[0]);
+      expect(first.availablePoints).toEqual({ 1: 1, 3: 1, 5: 0 });
+      expect(first.usedPoints).toBe(5);
+      expect(first.remainingPoints).toBe(4);
+
+      await expectHttpError(wager('alice', 'team-a', 5, questionIds[1]), 409);
+      await expectHttpError(wager('alice', 'team-a', 3, questionIds[0]), 409);
+      await expectHttpError(wager('alice', 'team-a', 10, questionIds[1]), 400);
+    });
+
+    it('accepts a replayed wager once by its idempotency key', async () => {
+      const { questionIds } = await startGameAndRound();
+      const request = {
+        teamId: 'team-a',
+        gameId: GAME,
+        action: 'wager' as const,
+        pointValue: 5,
+        questionId: questionIds[0],
+        idempotencyKey: 'outbox-1',
+      };
+
+      await handlePointUsage(request, as('alice'));
+      // The answer window has closed by the time the device reconnects
+      advance(120);
+      const replayed = await handlePointUsage(request, as('alice'));
+
+      expect(replayed).toMatchObject({ success: true, usedPoints: 5 });
+      expect(store.pointUsage).toHaveLength(1);
+      await expectHttpError(handlePointUsage({ ...request, idempotencyKey: 'outbox-2' }, as('alice')), 409);
+    });
+
+    it('keeps teams out of each other’s points', async () => {
+      const { questionIds } = await startGameAndRound();
+      await expectHttpError(wager('alice', 'team-b', 5, questionIds[0]), 403);
+    });
+
+    it('refunds ungraded wagers only and lets the host reset', async () => {
+      const { questionIds } = await startGameAndRound();
+      await wager('alice', 'team-a', 1, questionIds[0]);
+      await wager('alice', 'team-a', 3, questionIds[1]);
+      await handleValidateAnswer(
+        { teamId: 'team-a', questionId: questionIds[0], submittedAnswer: 'Paris', pointsWagered: 1, gameId: GAME },
+        as('alice')
+      );
+
+      await expectHttpError(
+        handlePointUsage({ teamId: 'team-a', gameId: GAME, action: 'refund', pointValue: 1, questionId: questionIds[0] }, as('alice')),
+        409
+      );
+      const refunded = await handlePointUsage(
+        { teamId: 'team-a', gameId: GAME, action: 'refund', pointValue: 3, questionId: questionIds[1] },
+        as('alice')
+      );
+      expect(refunded.availablePoints).toEqual({ 1: 0, 3: 1, 5: 1 });
+
+      await expectHttpError(
+        handlePointUsage({ teamId: 'team-a', gameId: GAME, action: 'reset', pointValue: 0 }, as('alice')),
+        403
+      );
+      const reset = await handlePointUsage({ teamId: 'team-a', gameId: GAME, action: 'reset', pointValue: 0 }, as('host'));
+      expect(reset.remainingPoints).toBe(9);
+    });
+  });
+
+  describe('validate-answer', () => {
+    it('awards the recorded wager for a correct answer', async () => {
+      const { questionIds } = await startGameAndRound();
+      await wager('alice', 'team-a', 5, questionIds[0]);
+
+      const result: AnswerValidationResponse = await handleValidateAnswer(
+        { teamId: 'team-a', questionId: questionIds[0], submittedAnswer: 'paris', pointsWagered: 5, gameId: GAME },
+        as('alice')
+      );
+      expect(result.isCorrect).toBe(true);
+      expect(result.pointsAwarded).toBe(5);
+    });
+
+    it('keeps the correct answer back until the round closes', async () => {
+      const { roundId, questionIds } = await startGameAndRound();
+      await wager('alice', 'team-a', 1, questionIds[1]);
+      const answer = { teamId: 'team-a', questionId: questionIds[1], submittedAnswer: 'junk', pointsWagered: 1, gameId: GAME };
+
+      const graded = await handleValidateAnswer(answer, as('alice'));
+      expect(graded).toMatchObject({ isCorrect: false, pointsAwarded: 0 });
+      expect(graded.correctAnswer).toBeUndefined();
+      expect(graded.explanation).toBeUndefined();
+
+      await handleCalculateScores({ gameId: GAME, roundId, action: 'round_end' }, as('host'));
+
+      expect(await handleValidateAnswer(answer, as('alice'))).toMatchObject({
+        isCorrect: false,
+        correctAnswer: 'Jupiter',
+        explanation: 'By mass and size',
+      });
+    });
+
+    it('cannot be used to mint points', async () => {
+      const { questionIds } = await startGameAndRound();
+
+      // No wager recorded
+      await expectHttpError(
+        handleValidateAnswer(
+          { teamId: 'team-a', questionId: questionIds[0], submittedAnswer: 'Paris', pointsWagered: 1000, gameId: GAME },
+          as('alice')
+        ),
+        409
+      );
+
+      // Claiming more than was wagered
+      await wager('alice', 'team-a', 1, questionIds[0]);
+      await expectHttpError(
+        handleValidateAnswer(
+          { teamId: 'team-a', questionId: questionIds[0], submittedAnswer: 'Paris', pointsWagered: 1000, gameId: GAME },
+          as('alice')
+        ),
+        409
+      );
+
+      // Regrading returns the first result instead of grading again
+      const wrong = await handleValidateAnswer(
+        { teamId: 'team-a', questionId: questionIds[0], submittedAnswer: 'Lyon', pointsWagered: 1, gameId: GAME },
+        as('alice')
+      );
+      const retry = await handleValidateAnswer(
+        { teamId: 'team-a', questionId: questionIds[0], submittedAnswer: 'Paris', pointsWagered: 1, gameId: GAME },
+        as('alice')
+      );
+      expect(wrong.isCorrect).toBe(false);
+      expect(retry).toEqual(wrong);
+      expect(store.answers).toHaveLength(1);
+    });
+
+    it('closes answers after the timer and grace window', async () => {
+      const { questionIds } = await startGameAndRound();
+      await wager('alice', 'team-a', 5, questionIds[0]);
+      await wager('bob', 'team-b', 5, questionIds[0]);
+
+      advance(61);
+      const late = await handleValidateAnswer(
+        { teamId: 'team-a', questionId: questionIds[0], submittedAnswer: 'Paris', pointsWagered: 5, gameId: GAME },
+        as('alice')
+      );
+      expect(late.isCorrect).toBe(true);
+
+      advance(5);
+      await expectHttpError(
+        handleValidateAnswer(
+          { teamId: 'team-b', questionId: questionIds[0], submittedAnswer: 'Paris', pointsWagered: 5, gameId: GAME },
+          as('bob')
+        ),
+        409
+      );
+    });
+
+    it('limits how fast each player can submit answers', async () => {
+      const { questionIds } = await startGameAndRound();
+      await wager('alice', 'team-a', 5, questionIds[0]);
+      await wager('bob', 'team-b', 5, questionIds[0]);
+      store.rateLimitBuckets.push({
+        action: 'answer_submission',
+        subject: `user:alice:room:${GAME}`,
+        tokens: 0,
+        refilled_at: clock.toISOString(),
+      });
+      const answer = { questionId: questionIds[0], submittedAnswer: 'Paris', pointsWagered: 5, gameId: GAME };
+
+      const error = await handleValidateAnswer({ ...answer, teamId: 'team-a' }, as('alice')).catch(err => err);
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error).toMatchObject({ status: 429, action: 'answer_submission', retryAfterSeconds: 6 });
+      // Other players have their own bucket
+      expect((await handleValidateAnswer({ ...answer, teamId: 'team-b' }, as('bob'))).isCorrect).toBe(true);
+
+      advance(6);
+      expect((await handleValidateAnswer({ ...answer, teamId: 'team-a' }, as('alice'))).isCorrect).toBe(true);
+      // Asking for a graded answer again is free
+      await handleValidateAnswer({ ...answer, teamId: 'team-a' }, as('alice'));
+      expect(store.rateLimitBuckets[0].tokens).toBe(0);
+    });
+
+    it('refills answer tokens over time up to the bucket size', async () => {
+      const take = () => store.takeRateLimitToken('answer_submission', 'user:alice', clock);
+
+      for (let i = 0; i < 10; i++) {
+        expect((await take()).allowed).toBe(true);
+      }
+      expect(await take()).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 6 });
+
+      advance(3);
+      expect((await take()).retryAfterSeconds).toBe(3);
+      advance(3);
+      expect(await take()).toEqual({ allowed: true, remaining: 0, retryAfterSeconds: 0 });
+
+      advance(3600);
+      expect((await take()).remaining).toBe(9);
+    });
+  });
+
+  describe('calculate-scores', () => {
+    it('ranks teams from graded answers and records standings at round end', async () => {
+      const { roundId, questionIds } = await startGameAndRound();
+      await wager('alice', 'team-a', 5, questionIds[0]);
+      await wager('bob', 'team-b', 3, questionIds[0]);
+      await wager('bob', 'team-b', 1, questionIds[2]);
+      await handleValidateAnswer(
+        { teamId: 'team-a', questionId: questionIds[0], submittedAnswer: 'Paris', pointsWagered: 5, gameId: GAME },
+        as('alice')
+      );
+      await handleValidateAnswer(
+        { teamId: 'team-b', questionId: questionIds[0], submittedAnswer: 'Paris', pointsWagered: 3, gameId: GAME },
+        as('bob')
+      );
+      await handleValidateAnswer(
+        { teamId: 'team-b', questionId: questionIds[2], submittedAnswer: 'false', pointsWagered: 1, gameId: GAME },
+        as('bob')
+      );
+
+      const live: ScoreCalculationResponse = await handleCalculateScores(
+        { gameId: GAME, action: 'live_update' },
+        as('bob')
+      );
+      expect(live.teams.map(team => [team.teamName, team.totalScore, team.rank])).toEqual([
+        ['Aces', 5, 1],
+        ['Brains', 3, 2],
+      ]);
+      expect(store.teamScores).toHaveLength(0);
+
+      await expectHttpError(handleCalculateScores({ gameId: GAME, roundId, action: 'round_end' }, as('bob')), 403);
+
+      const final = await handleCalculateScores({ gameId: GAME, roundId, action: 'round_end' }, as('host'));
+      expect(final.teams[1]).toMatchObject({ roundScore: 3, correctAnswers: 1, totalAnswers: 2 });
+      expect(final.gameStats).toEqual({ totalQuestions: 3, averageScore: 4, highestScore: 5, completedRounds: 1 });
+      expect(store.teamScores.find(score => score.team_id === 'team-a')).toMatchObject({ total_score: 5, current_rank: 1 });
+    });
+
+    it('counts host adjustments and their reverts from the score ledger', async () => {
+      const { roundId, questionIds } = await startGameAndRound();
+      await wager('bob', 'team-b', 3, questionIds[0]);
+      await handleValidateAnswer(
+        { teamId: 'team-b', questionId: questionIds[0], submittedAnswer: 'Paris', pointsWagered: 3, gameId: GAME },
+        as('bob')
+      );
+
+      const entry = {
+        game_room_id: GAME,
+        entity_type: 'team' as const,
+        entity_id: 'team-a',
+        round_id: roundId,
+        question_id: questionIds[0],
+        performed_by: 'host',
+        created_at: clock.toISOString(),
+      };
+      store.scoreLedger.push(
+        { ...entry, id: 'adj-1', sequence: 1, entry_type: 'manual', points: 2, reason: 'Accepted "Paree"', reverts_entry_id: null },
+        { ...entry, id: 'adj-2', sequence: 2, entry_type: 'manual', points: 2, reason: 'Accepted "Paree"', reverts_entry_id: null },
+        { ...entry, id: 'adj-3', sequence: 3, entry_type: 'revert', points: -2, reason: 'Counted twice', reverts_entry_id: 'adj-2' }
+      );
+
+      const final = await handleCalculateScores({ gameId: GAME, roundId, action: 'round_end' }, as('host'));
+      expect(final.teams.map(team => [team.teamName, team.totalScore, team.roundScore])).toEqual([
+        ['Brains', 3, 3],
+        ['Aces', 2, 2],
+      ]);
+    });
+
+    it('is closed to people outside the game', async () => {
+      await startGameAndRound();
+      await expectHttpError(handleCalculateScores({ gameId: GAME, action: 'live_update' }, as('mallory')), 403);
+    });
+  });
+
+  describe('skill ratings', () => {
+    const match = (overrides: Partial<TournamentMatchRow> = {}): TournamentMatchRow => ({
+      id: 'match-1',
+      tournament_id: 'cup',
+      host_id: 'host',
+      status: 'completed',
+      team1_id: 'team-a',
+      team2_id: 'team-b',
+      winner_team_id: 'team-b',
+      team1_score: 12,
+      team2_score: 15,
+      game_room_id: null,
+      ...overrides,
+    });
+
+    it('rates teams and players once when the game ends', async () => {
+      const { questionIds } = await startGameAndRound();
+      for (const [callerId, teamId, answer] of [['alice', 'team-a', 'Paris'], ['bob', 'team-b', 'Lyon']]) {
+        await wager(callerId, teamId, 5, questionIds[0]);
+        await handleValidateAnswer(
+          { teamId, questionId: questionIds[0], submittedAnswer: answer, pointsWagered: 5, gameId: GAME },
+          as(callerId)
+        );
+      }
+
+      await handleManageGameState({ action: 'end', gameId: GAME, hostId: 'host' }, as('host'));
+
+      const rating = (id: string) => store.skillRatings.find(row => row.entity_id === id)!;
+      expect(rating('team-a').rating).toBeGreaterThan(1500);
+      expect(rating('team-b').rating).toBeLessThan(1500);
+      expect(rating('alice').rating).toBeGreaterThan(1500);
+      expect(rating('bob').deviation).toBeLessThan(350);
+      expect(store.ratingHistory.map(row => [row.entity_id, row.rank, row.field_size])).toEqual([
+        ['team-a', 1, 2],
+        ['team-b', 2, 2],
+        ['alice', 1, 2],
+        ['bob', 2, 2],
+      ]);
+
+      expect(await rateGame(as('host'), GAME)).toBeNull();
+      expect(store.ratingHistory).toHaveLength(4);
+    });
+
+    it('still ends the game when rating fails', async () => {
+      await startGameAndRound();
+      vi.spyOn(store, 'getAnswers').mockRejectedValue(new Error('connection reset'));
+      const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const ended = await handleManageGameState({ action: 'end', gameId: GAME, hostId: 'host' }, as('host'));
+
+      expect(ended.gameState.status).toBe('finished');
+      expect(store.gameRooms[0].status).toBe('finished');
+      expect(logged).toHaveBeenCalledWith('Error rating game:', expect.any(Error));
+      logged.mockRestore();
+    });
+
+    it('leaves out teams that never answered', async () => {
+      await startGameAndRound();
+      await handleManageGameState({ action: 'end', gameId: GAME, hostId: 'host' }, as('host'));
+
+      expect(store.skillRatings).toHaveLength(0);
+    });
+
+    it('rates a completed tournament match for its host only', async () => {
+      store.tournamentMatches.push(match(), match({ id: 'match-2', status: 'in_progress', winner_team_id: null }));
+
+      await expectHttpError(handleRateMatch({ matchId: 'match-1' }, as('bob')), 403);
+      await expectHttpError(handleRateMatch({ matchId: 'match-2' }, as('host')), 409);
+      await expectHttpError(handleRateMatch({ matchId: 'missing' }, as('host')), 404);
+
+      const rated = await handleRateMatch({ matchId: 'match-1' }, as('host'));
+      expect(rated.rated).toBe(true);
+      const bob = rated.changes.find(change => change.entityId === 'bob')!;
+      expect(bob.rating).toBeGreaterThan(bob.ratingBefore);
+
+      expect(await handleRateMatch({ matchId: 'match-1' }, as('host'))).toEqual({ rated: false, changes: [] });
+    });
+
+    it('skips matches played in a game room and draws level matches', async () => {
+      store.tournamentMatches.push(
+        match({ game_room_id: GAME }),
+        match({ id: 'match-2', winner_team_id: null, team1_score: 10, team2_score: 10 })
+      );
+
+      expect(await handleRateMatch({ matchId: 'match-1' }, as('host'))).toEqual({ rated: false, changes: [] });
+
+      const draw = await handleRateMatch({ matchId: 'match-2' }, as('host'));
+      expect(draw.changes.map(change => change.rating)).toEqual([1500, 1500, 1500, 1500]);
+    });
+  });
+});
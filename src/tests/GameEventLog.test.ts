@@ -0,0 +1,301 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('../lib/supabase', () => ({
+  supabase: {},
+}));
+
+import { GameStateManager } from '../services/gameStateManager';
+import { reduceGameState, replayGameLog } from '../services/gameReducer';
+import { createMemoryGameLogStore } from '../services/gameLogService';
+import type { GameLogStore } from '../services/gameLogService';
+import type { GameAction, GameState, Question, Round } from '../types/game';
+
+const createQuestion = (id: string, correctAnswer: string): Question => ({
+  id,
+  text: `Question ${id}`,
+  type: 'text',
+  category: 'General',
+  difficulty: 'easy',
+  correctAnswer,
+  timeLimit: 30,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+});
+
+const rounds: Round[] = [
+  {
+    id: 'round-1',
+    number: 1,
+    type: 'standard',
+    name: 'Round 1',
+    availablePointValues: [1, 3, 5],
+    questions: [createQuestion('q1', 'Paris'), createQuestion('q2', '4')],
+    isComplete: false,
+  },
+  {
+    id: 'round-2',
+    number: 2,
+    type: 'standard',
+    name: 'Round 2',
+    availablePointValues: [2, 4, 6],
+    questions: [createQuestion('q3', 'Jupiter')],
+    isComplete: false,
+  },
+];
+
+const createGameState = (): GameState => ({
+  id: 'game-1',
+  roomId: 'room-1',
+  hostId: 'host-1',
+  configuration: {
+    id: 'config-1',
+    name: 'Log Test',
+    settings: {
+      maxRounds: 2,
+      questionsPerRound: 2,
+      defaultTimeLimit: 30,
+      allowTeams: true,
+      maxTeamSize: 4,
+      maxTeams: 10,
+      pointSystem: 'last-call',
+      enableSpecialRounds: false,
+      enableWagerRounds: false,
+      enableBonusRounds: false,
+      autoAdvance: false,
+      showCorrectAnswers: true,
+      allowAnswerChanges: false,
+      enableHints: false,
+      difficulty: 'medium',
+    },
+    rounds,
+    categories: [],
+    createdBy: 'host-1',
+    isPublic: false,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+  },
+  phase: 'pre-game',
+  currentRound: 0,
+  rounds,
+  completedRounds: 0,
+  totalQuestions: 3,
+  answeredQuestions: 0,
+  players: {},
+  teams: {},
+  usedPointValues: {},
+  timers: {},
+  isActive: false,
+  isPaused: false,
+  isComplete: false,
+  events: [],
+  connectedPlayers: [],
+  lastUpdated: '2025-01-01T00:00:00.000Z',
+});
+
+// Deterministic clock: each action is one second after the previous one
+let tick = 0;
+const action = (
+  type: GameAction['type'],
+  payload?: Record<string, any>
+): GameAction => ({
+  type,
+  gameId: 'game-1',
+  payload,
+  timestamp: new Date(Date.UTC(2025, 0, 1, 20, 0, tick++)).toISOString(),
+});
+
+const fullGame = (): GameAction[] => [
+  action('add-player', { playerId: 'alice' }),
+  action('add-player', { playerId: 'bob' }),
+  action('add-player', { playerId: 'cara' }),
+  action('form-team', { teamId: 'owls', playerIds: ['alice', 'bob'] }),
+  action('start-game'),
+  action('start-round'),
+  action('present-question', { questionId: 'q1' }),
+  action('submit-answer', { playerId: 'alice', answer: 'paris', pointValue: 5 }),
+  action('submit-answer', { playerId: 'cara', answer: 'Lyon', pointValue: 3 }),
+  action('lock-answers'),
+  action('reveal-answers'),
+  action('advance-question'),
+  action('present-question'),
+  action('submit-answer', { playerId: 'bob', answer: 'four', pointValue: 3 }),
+  action('submit-answer', { playerId: 'cara', answer: '4', pointValue: 5 }),
+  action('reveal-answers', { rulings: { owls: true } }),
+  action('advance-question'),
+  action('start-round'),
+  action('present-question', { questionId: 'q3' }),
+  action('submit-answer', { playerId: 'alice', answer: 'Jupiter', pointValue: 6 }),
+  action('skip-question'),
+  action('end-game'),
+];
+
+describe('Game Event Log', () => {
+  let store: GameLogStore;
+  let manager: GameStateManager;
+
+  beforeEach(() => {
+    tick = 0;
+    store = createMemoryGameLogStore();
+    manager = new GameStateManager(createGameState(), { logStore: store });
+  });
+
+  afterEach(() => {
+    manager.destroy();
+  });
+
+  describe('Reducer', () => {
+    it('should not modify the state it is given', () => {
+      const state = createGameState();
+      const snapshot = JSON.parse(JSON.stringify(state));
+
+      const { state: next, events } = reduceGameState(state, action('add-player', { playerId: 'alice' }));
+
+      expect(state).toEqual(snapshot);
+      expect(next.players.alice.totalPoints).toBe(0);
+      expect(events.map(event => event.type)).toEqual(['player-joined']);
+    });
+
+    it('should reject point values already used this round', () => {
+      let state = createGameState();
+      for (const next of [
+        action('add-player', { playerId: 'alice' }),
+        action('start-game'),
+        action('start-round'),
+        action('present-question'),
+        action('submit-answer', { playerId: 'alice', answer: 'Paris', pointValue: 5 }),
+        action('reveal-answers'),
+        action('advance-question'),
+        action('present-question'),
+      ]) {
+        state = reduceGameState(state, next).state;
+      }
+
+      expect(() =>
+        reduceGameState(state, action('submit-answer', { playerId: 'alice', answer: '4', pointValue: 5 }))
+      ).toThrow('Point value 5 has already been used this round');
+      expect(() =>
+        reduceGameState(state, action('submit-answer', { playerId: 'alice', answer: '4', pointValue: 2 }))
+      ).toThrow('not available in round 1');
+    });
+
+    it('should lock answers when the question timer runs out', () => {
+      let state = createGameState();
+      for (const next of [
+        action('add-player', { playerId: 'alice' }),
+        action('start-game'),
+        action('start-round'),
+        action('present-question'),
+      ]) {
+        state = reduceGameState(state, next).state;
+      }
+
+      const warned = reduceGameState(state, action('update-timer', { remaining: 8 }));
+      expect(warned.events.map(event => event.type)).toEqual(['timer-warning']);
+
+      const expired = reduceGameState(warned.state, action('update-timer', { remaining: 0 }));
+      expect(expired.state.phase).toBe('answer-review');
+      expect(expired.state.currentQuestion?.isLocked).toBe(true);
+      expect(expired.state.timers.question.isActive).toBe(false);
+    });
+  });
+
+  describe('Full game', () => {
+    it('should play a whole game from actions alone', async () => {
+      for (const next of fullGame()) {
+        await manager.executeAction(next);
+      }
+
+      const state = manager.getState();
+      expect(state.phase).toBe('game-complete');
+      expect(state.completedRounds).toBe(2);
+      expect(state.answeredQuestions).toBe(2);
+      // Alice answered q1 for the owls; Bob's "four" was ruled correct by the host
+      expect(state.teams.owls.totalPoints).toBe(8);
+      expect(state.teams.owls.roundScores[1]).toBe(8);
+      expect(state.players.alice.totalPoints).toBe(5);
+      expect(state.players.bob.totalPoints).toBe(3);
+      expect(state.players.cara.totalPoints).toBe(5);
+      // The skipped answer's point value is free again
+      expect(state.usedPointValues[2].owls).toEqual([]);
+    });
+
+    it('should record every accepted action in order', async () => {
+      const actions = fullGame();
+      for (const next of actions) {
+        await manager.executeAction(next);
+      }
+      await expect(
+        manager.executeAction(action('start-game'))
+      ).rejects.toThrow('Game can only be started from pre-game phase');
+
+      const log = manager.getLog();
+      expect(log.map(entry => entry.sequence)).toEqual(actions.map((_, index) => index + 1));
+      expect(log.map(entry => entry.action)).toEqual(actions);
+
+      const stored = await store.loadLog('game-1');
+      expect(stored?.entries).toHaveLength(actions.length);
+      expect(stored?.initialState).toEqual(createGameState());
+    });
+
+    it('should replay to the same state and to any point in the game', async () => {
+      const actions = fullGame();
+      for (const next of actions) {
+        await manager.executeAction(next);
+      }
+
+      expect(replayGameLog(createGameState(), [...manager.getLog()])).toEqual(manager.getState());
+
+      const afterFirstReveal = manager.getStateAt(11);
+      expect(afterFirstReveal.phase).toBe('scoring');
+      expect(afterFirstReveal.currentQuestion?.submissions.map(s => s.isCorrect)).toEqual([true, false]);
+
+      const steps = manager.replay();
+      expect(steps).toHaveLength(actions.length);
+      expect(steps[4].events.map(event => event.type)).toEqual(['game-started']);
+    });
+  });
+
+  describe('Recovery', () => {
+    it('should rebuild a crashed game from the stored log', async () => {
+      const actions = fullGame().slice(0, 9);
+      for (const next of actions) {
+        await manager.executeAction(next);
+      }
+      const before = manager.getState();
+      manager.destroy();
+
+      manager = await GameStateManager.restore('game-1', store);
+
+      expect(manager.getState()).toEqual(before);
+      expect(manager.getState().currentQuestion?.submissions).toHaveLength(2);
+
+      await manager.executeAction(action('lock-answers'));
+      const stored = await store.loadLog('game-1');
+      expect(stored?.entries.map(entry => entry.sequence)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    });
+
+    it('should report actions that failed to save and retry them', async () => {
+      const append = vi.spyOn(store, 'appendEntries').mockRejectedValueOnce(
+        new Error('Failed to append game actions: offline')
+      );
+
+      const logErrors: Error[] = [];
+      manager.addLogErrorListener(error => logErrors.push(error));
+
+      // The action took effect, so the caller isn't told to retry it
+      await manager.executeAction(action('add-player', { playerId: 'alice' }));
+      expect(manager.getState().players.alice).toBeDefined();
+      expect(logErrors.map(error => error.message)).toEqual(['Failed to append game actions: offline']);
+
+      await manager.executeAction(action('add-player', { playerId: 'bob' }));
+
+      expect(append).toHaveBeenCalledTimes(2);
+      const stored = await store.loadLog('game-1');
+      expect(stored?.entries.map(entry => entry.action.payload?.playerId)).toEqual(['alice', 'bob']);
+    });
+
+    it('should refuse to restore a game without a log', async () => {
+      await expect(GameStateManager.restore('missing', store)).rejects.toThrow('No game log found for missing');
+    });
+  });
+});
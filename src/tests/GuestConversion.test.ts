@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const signInAnonymously = vi.fn();
+const onAuthStateChange = vi.fn();
+const rpc = vi.fn();
+
+vi.mock('../services/supabase', () => ({
+  supabase: {
+    auth: {
+      signInAnonymously: (...args: unknown[]) => signInAnonymously(...args),
+      onAuthStateChange: (...args: unknown[]) => onAuthStateChange(...args),
+    },
+    rpc: (...args: unknown[]) => rpc(...args),
+  },
+}));
+
+import { guestAuthService } from '../services/guestAuth';
+import { guestConversionService } from '../services/guestConversion';
+import { useAppStore } from '../stores/useAppStore';
+import type { GuestConversionSummary } from '../types/guest';
+
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+  removeItem: (key: string) => storage.delete(key),
+});
+
+const summary: GuestConversionSummary = {
+  guest_id: 'anon-1',
+  user_id: 'account-1',
+  moved: { team_members: 1, team_answers: 4, chat_messages: 2, game_history: 1 },
+  games_merged: 1,
+  achievements_awarded: ['first_win'],
+  already_converted: false,
+};
+
+describe('Guest conversion', () => {
+  beforeEach(() => {
+    storage.clear();
+    signInAnonymously.mockReset().mockResolvedValue({ data: { user: { id: 'anon-1' } }, error: null });
+    rpc.mockReset().mockResolvedValue({ data: 'token-1', error: null });
+    guestAuthService.createGuestSession('QuickPlayer7');
+  });
+
+  it('saves guests on an anonymous account and keeps the claim token', async () => {
+    expect(await guestConversionService.startServerSession()).toBe(true);
+
+    expect(signInAnonymously).toHaveBeenCalledWith({ options: { data: { display_name: 'QuickPlayer7' } } });
+    expect(rpc).toHaveBeenCalledWith('begin_guest_conversion');
+    expect(guestAuthService.getCurrentGuestSession()?.user).toMatchObject({ authUserId: 'anon-1', conversionToken: 'token-1' });
+    expect(guestAuthService.getGuestDataForConversion()).toEqual({
+      gamesPlayed: 0,
+      totalScore: 0,
+      achievements: [],
+      conversionToken: 'token-1',
+    });
+
+    // Already on the server
+    await guestConversionService.startServerSession();
+    expect(signInAnonymously).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets guests play on locally when anonymous sign-in is unavailable', async () => {
+    signInAnonymously.mockResolvedValue({ data: { user: null }, error: { message: 'Anonymous sign-ins are disabled' } });
+
+    expect(await guestConversionService.startServerSession()).toBe(false);
+    expect(rpc).not.toHaveBeenCalled();
+    expect(guestAuthService.getGuestDataForConversion()?.conversionToken).toBeUndefined();
+  });
+
+  it('merges with the claim token and ends the guest session', async () => {
+    await guestConversionService.startServerSession();
+    rpc.mockResolvedValue({ data: summary, error: null });
+
+    expect(await guestConversionService.mergeIntoAccount()).toEqual(summary);
+    expect(rpc).toHaveBeenLastCalledWith('complete_guest_conversion', { p_claim_token: 'token-1' });
+    expect(guestAuthService.getCurrentGuestSession()).toBeNull();
+  });
+
+  it('keeps the guest session when the merge fails so it can be retried', async () => {
+    await guestConversionService.startServerSession();
+    rpc.mockResolvedValue({ data: null, error: { message: 'connection reset' } });
+
+    await expect(guestConversionService.mergeIntoAccount()).rejects.toThrow('Failed to keep your guest progress: connection reset');
+    expect(guestAuthService.getGuestDataForConversion()?.conversionToken).toBe('token-1');
+
+    rpc.mockResolvedValue({ data: { ...summary, already_converted: true }, error: null });
+    expect(await guestConversionService.mergeIntoAccount()).toMatchObject({ already_converted: true });
+    expect(rpc).toHaveBeenLastCalledWith('complete_guest_conversion', { p_claim_token: 'token-1' });
+  });
+
+  it('shares one merge between sign-in listeners that fire together', async () => {
+    await guestConversionService.startServerSession();
+    rpc.mockResolvedValue({ data: summary, error: null });
+
+    const [first, second] = await Promise.all([
+      guestConversionService.mergeIntoAccount(),
+      guestConversionService.mergeIntoAccount(),
+    ]);
+
+    expect(first).toEqual(summary);
+    expect(second).toEqual(summary);
+    expect(rpc).toHaveBeenCalledTimes(2); // begin, then one complete
+  });
+
+  it('calls back when a guest signs in to a real account', async () => {
+    vi.useFakeTimers();
+    const unsubscribe = vi.fn();
+    onAuthStateChange.mockReturnValue({ data: { subscription: { unsubscribe } } });
+    const callback = vi.fn();
+
+    const stop = guestConversionService.onAccountSignIn(callback);
+    const listener = onAuthStateChange.mock.calls[0][0];
+
+    // Starting the guest's own anonymous session
+    listener('SIGNED_IN', { user: { id: 'anon-1', is_anonymous: true } });
+    listener('TOKEN_REFRESHED', { user: { id: 'account-1', is_anonymous: false } });
+    listener('SIGNED_IN', { user: { id: 'account-1', is_anonymous: false } });
+    expect(callback).not.toHaveBeenCalled();
+
+    vi.runAllTimers();
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith({ id: 'account-1', is_anonymous: false });
+
+    // Once merged there is no guest left to convert
+    guestAuthService.clearGuestSession();
+    listener('SIGNED_IN', { user: { id: 'account-1', is_anonymous: false } });
+    vi.runAllTimers();
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    stop();
+    expect(unsubscribe).toHaveBeenCalled();
+    vi.useRealTimers();
+  });
+
+  it('has nothing to merge for guests who only played locally', async () => {
+    expect(await guestConversionService.mergeIntoAccount()).toBeNull();
+    expect(rpc).not.toHaveBeenCalled();
+    expect(guestAuthService.getCurrentGuestSession()).toBeNull();
+  });
+
+  it('signs the account in even when the merge fails', async () => {
+    await guestConversionService.startServerSession();
+    rpc.mockResolvedValue({ data: null, error: { message: 'Guest session not found' } });
+    const account = { id: 'account-1', name: 'Quinn', isHost: false };
+
+    expect(await useAppStore.getState().actions.convertGuestToUser(account)).toBeNull();
+
+    const state = useAppStore.getState();
+    expect(state.user).toEqual(account);
+    expect(state.isGuest).toBe(false);
+    expect(state.isLoading).toBe(false);
+    expect(state.error).toBe('Failed to keep your guest progress: Guest session not found');
+  });
+});
@@ -0,0 +1,364 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('../lib/supabase', () => ({
+  supabase: {},
+}));
+
+import { GameStateManager } from '../services/gameStateManager';
+import { replayGameLog } from '../services/gameReducer';
+import {
+  HostCommandStack,
+  createAdvanceCommand,
+  createFlowCommand,
+  createGameActionCommand,
+  createRejectAnswerCommand,
+  createScoreOverrideCommand,
+  type HostCommand,
+} from '../services/hostCommands';
+import type { GameAction, GameState, Question, Round } from '../types/game';
+import { GameProgressionPhase, type GameFlowSnapshot } from '../types/gameController';
+
+const createQuestion = (id: string, correctAnswer: string): Question => ({
+  id,
+  text: `Question ${id}`,
+  type: 'text',
+  category: 'General',
+  difficulty: 'easy',
+  correctAnswer,
+  timeLimit: 30,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+});
+
+const rounds: Round[] = [
+  {
+    id: 'round-1',
+    number: 1,
+    type: 'standard',
+    name: 'Round 1',
+    availablePointValues: [1, 3, 5],
+    questions: [createQuestion('q1', 'Paris'), createQuestion('q2', '4')],
+    isComplete: false,
+  },
+];
+
+const createGameState = (): GameState => ({
+  id: 'game-1',
+  roomId: 'room-1',
+  hostId: 'host-1',
+  configuration: {
+    id: 'config-1',
+    name: 'Undo Test',
+    settings: {
+      maxRounds: 1,
+      questionsPerRound: 2,
+      defaultTimeLimit: 30,
+      allowTeams: true,
+      maxTeamSize: 4,
+      maxTeams: 10,
+      pointSystem: 'last-call',
+      enableSpecialRounds: false,
+      enableWagerRounds: false,
+      enableBonusRounds: false,
+      autoAdvance: false,
+      showCorrectAnswers: true,
+      allowAnswerChanges: false,
+      enableHints: false,
+      difficulty: 'medium',
+    },
+    rounds,
+    categories: [],
+    createdBy: 'host-1',
+    isPublic: false,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+  },
+  phase: 'pre-game',
+  currentRound: 0,
+  rounds,
+  completedRounds: 0,
+  totalQuestions: 2,
+  answeredQuestions: 0,
+  players: {},
+  teams: {},
+  usedPointValues: {},
+  timers: {},
+  isActive: false,
+  isPaused: false,
+  isComplete: false,
+  events: [],
+  connectedPlayers: [],
+  lastUpdated: '2025-01-01T00:00:00.000Z',
+});
+
+// Seconds since the question was presented
+const at = (seconds: number) => new Date(Date.UTC(2025, 0, 1, 20, 0, seconds));
+
+const execute = (manager: GameStateManager, type: GameAction['type'], payload?: Record<string, any>) =>
+  manager.executeAction({ type, gameId: 'game-1', payload, timestamp: new Date().toISOString() });
+
+// A question open for answers, with two answers in
+async function gameWithOpenQuestion(): Promise<GameStateManager> {
+  const manager = new GameStateManager(createGameState());
+  vi.setSystemTime(at(0));
+  await execute(manager, 'add-player', { playerId: 'alice' });
+  await execute(manager, 'add-player', { playerId: 'bob' });
+  await execute(manager, 'start-game');
+  await execute(manager, 'start-round');
+  await execute(manager, 'present-question', { questionId: 'q1' });
+  vi.setSystemTime(at(5));
+  await execute(manager, 'submit-answer', { playerId: 'alice', answer: 'Paris', pointValue: 5 });
+  await execute(manager, 'submit-answer', { playerId: 'bob', answer: 'Lyon', pointValue: 3 });
+  return manager;
+}
+
+const noopCommand = (label: string): HostCommand => ({
+  type: 'next-question',
+  label,
+  execute: vi.fn(async () => undefined),
+  undo: vi.fn(async () => undefined),
+});
+
+describe('Host Commands', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('Game actions', () => {
+    it('should unlock answers and rewind the timer when undoing a lock', async () => {
+      const manager = await gameWithOpenQuestion();
+      const lock = createGameActionCommand(manager, 'lock-answers', { type: 'lock-answers' });
+
+      vi.setSystemTime(at(10));
+      await lock.execute();
+      expect(manager.getPhase()).toBe('answer-review');
+
+      // The host notices a while later; players get back the 20 seconds they had
+      vi.setSystemTime(at(25));
+      await lock.undo();
+
+      const state = manager.getState();
+      expect(state.phase).toBe('answer-submission');
+      expect(state.currentQuestion?.isLocked).toBe(false);
+      expect(state.currentQuestion?.submissions.map(s => s.playerId)).toEqual(['alice', 'bob']);
+      expect(state.timers.question).toMatchObject({
+        isActive: true,
+        remaining: 20,
+        syncedAt: at(25).toISOString(),
+      });
+      expect(state.events[state.events.length - 1]).toMatchObject({
+        type: 'action-undone',
+        data: { actionType: 'lock-answers' },
+      });
+    });
+
+    it('should restore graded submissions when undoing next question', async () => {
+      const manager = await gameWithOpenQuestion();
+      await execute(manager, 'reveal-answers');
+      const scored = manager.getState();
+
+      const next = createGameActionCommand(manager, 'next-question', { type: 'advance-question' });
+      await next.execute();
+      expect(manager.getPhase()).toBe('question-selection');
+      expect(manager.getCurrentQuestion()).toBeUndefined();
+
+      await next.undo();
+      expect(manager.getPhase()).toBe('scoring');
+      expect(manager.getCurrentQuestion()).toEqual(scored.currentQuestion);
+      expect(manager.getPlayerScore('alice')?.totalPoints).toBe(5);
+    });
+
+    it('should give back used point values when undoing a skip', async () => {
+      const manager = await gameWithOpenQuestion();
+      const skip = createGameActionCommand(manager, 'skip-question', { type: 'skip-question' });
+
+      await skip.execute();
+      expect(manager.getState().usedPointValues[1].alice).toEqual([]);
+
+      await skip.undo();
+      expect(manager.getState().usedPointValues[1].alice).toEqual([5]);
+      expect(manager.getCurrentQuestion()?.submissions).toHaveLength(2);
+    });
+
+    it('should rebuild the same state from a log containing undos', async () => {
+      const manager = await gameWithOpenQuestion();
+      const lock = createGameActionCommand(manager, 'lock-answers', { type: 'lock-answers' });
+      await lock.execute();
+      await lock.undo();
+
+      const rebuilt = replayGameLog(manager.getInitialState(), [...manager.getLog()]);
+      expect(rebuilt).toEqual(manager.getState());
+    });
+
+    it('should give the points back when undoing a rejected answer', async () => {
+      const manager = await gameWithOpenQuestion();
+      await execute(manager, 'reveal-answers');
+      expect(manager.getPlayerScore('alice')?.totalPoints).toBe(5);
+
+      const reject = createRejectAnswerCommand(manager, 'alice', '"Paris"');
+      expect(reject.label).toBe('Reject answer ("Paris")');
+
+      await reject.execute();
+      expect(manager.getPlayerScore('alice')).toMatchObject({ totalPoints: 0, correctAnswers: 0 });
+      expect(manager.getCurrentQuestion()?.submissions[0]).toMatchObject({ isCorrect: false, pointsEarned: 0 });
+
+      await reject.undo();
+      expect(manager.getPlayerScore('alice')).toMatchObject({ totalPoints: 5, correctAnswers: 1 });
+      expect(manager.getCurrentQuestion()?.submissions[0]).toMatchObject({ isCorrect: true, pointsEarned: 5 });
+    });
+
+    it('should only judge revealed answers', async () => {
+      const manager = await gameWithOpenQuestion();
+
+      await expect(createRejectAnswerCommand(manager, 'alice').execute()).rejects.toThrow(
+        'Reveal the answers before judging them'
+      );
+    });
+
+    it('should refuse to undo once the game has moved on', async () => {
+      const manager = await gameWithOpenQuestion();
+      const lock = createGameActionCommand(manager, 'lock-answers', { type: 'lock-answers' });
+      await lock.execute();
+      await execute(manager, 'reveal-answers');
+
+      await expect(lock.undo()).rejects.toThrow('can no longer be undone');
+      expect(manager.getPhase()).toBe('scoring');
+    });
+  });
+
+  describe('Command stack', () => {
+    it('should undo and redo in order', async () => {
+      const manager = await gameWithOpenQuestion();
+      const stack = new HostCommandStack();
+
+      await stack.run(createGameActionCommand(manager, 'lock-answers', { type: 'lock-answers' }));
+      expect(stack.getHistory().done.map(record => record.label)).toEqual(['Lock answers']);
+
+      const undone = await stack.undo();
+      expect(undone.label).toBe('Lock answers');
+      expect(manager.getPhase()).toBe('answer-submission');
+      expect(stack.canRedo()).toBe(true);
+
+      await stack.redo();
+      expect(manager.getPhase()).toBe('answer-review');
+      expect(stack.canRedo()).toBe(false);
+    });
+
+    it('should keep a bounded history and drop redos after a new action', async () => {
+      const stack = new HostCommandStack(3);
+      for (const label of ['one', 'two', 'three', 'four']) {
+        await stack.run(noopCommand(label));
+      }
+      expect(stack.getHistory().done.map(record => record.label)).toEqual(['two', 'three', 'four']);
+
+      await stack.undo();
+      await stack.undo();
+      expect(stack.getHistory().undone.map(record => record.label)).toEqual(['three', 'four']);
+
+      await stack.run(noopCommand('five'));
+      expect(stack.getHistory()).toMatchObject({ undone: [] });
+      expect(stack.getHistory().done.map(record => record.label)).toEqual(['two', 'five']);
+
+      await stack.undo();
+      await stack.undo();
+      await expect(stack.undo()).rejects.toThrow('Nothing to undo');
+    });
+
+    it('should keep a failed undo on the stack', async () => {
+      const stack = new HostCommandStack();
+      const command = noopCommand('stuck');
+      vi.mocked(command.undo).mockRejectedValueOnce(new Error('offline'));
+      await stack.run(command);
+
+      await expect(stack.undo()).rejects.toThrow('offline');
+      expect(stack.canUndo()).toBe(true);
+      expect(stack.canRedo()).toBe(false);
+    });
+  });
+
+  describe('Other host actions', () => {
+    const flowTarget = () => {
+      const flow = { phase: 'answer_collection', sequence: 0 };
+      const target = {
+        getFlowSnapshot: () =>
+          ({ progression: { currentPhase: flow.phase }, sequence: flow.sequence }) as unknown as GameFlowSnapshot,
+        restoreFlow: vi.fn(async (snapshot: GameFlowSnapshot) => {
+          flow.phase = snapshot.progression.currentPhase;
+        }),
+      };
+      return { flow, target };
+    };
+
+    it('should put the game flow back when undoing an advance', async () => {
+      const { flow, target } = flowTarget();
+      const advance = createFlowCommand(target, 'next-question', async () => {
+        flow.phase = 'answer_review';
+        flow.sequence++;
+      });
+
+      await advance.execute();
+      expect(flow.phase).toBe('answer_review');
+      await advance.undo();
+      expect(flow.phase).toBe('answer_collection');
+    });
+
+    it('should refuse to undo an advance once the game has moved on', async () => {
+      const { flow, target } = flowTarget();
+      const advance = createFlowCommand(target, 'next-question', async () => {
+        flow.phase = 'answer_review';
+      });
+
+      await advance.execute();
+      flow.sequence++;
+
+      await expect(advance.undo()).rejects.toThrow('can no longer be undone');
+      expect(target.restoreFlow).not.toHaveBeenCalled();
+    });
+
+    it('should name an advance for the phase it moves into', () => {
+      const { target } = flowTarget();
+      const perform = async () => undefined;
+
+      expect(createAdvanceCommand(target, GameProgressionPhase.ANSWER_REVIEW, perform)).toMatchObject({
+        type: 'lock-answers',
+        label: 'Lock answers',
+      });
+      expect(createAdvanceCommand(target, GameProgressionPhase.ROUND_RESULTS, perform)).toMatchObject({
+        type: 'show-results',
+        label: 'Show round results',
+      });
+      expect(createAdvanceCommand(target, null, perform)).toMatchObject({
+        type: 'next-question',
+        label: 'Next question',
+      });
+    });
+
+    it('should revert a score override in the ledger', async () => {
+      const ledger = {
+        adjustScore: vi.fn()
+          .mockResolvedValueOnce({ id: 'entry-1' })
+          .mockResolvedValueOnce({ id: 'entry-2' }),
+        revertEntry: vi.fn(async () => undefined),
+      };
+      const override = createScoreOverrideCommand(
+        'game-1',
+        { entityId: 'owls', entityType: 'team', points: 3, reason: 'Accepted "Jupitor"' },
+        ledger
+      );
+      expect(override.label).toBe('Override score (+3)');
+
+      await override.execute();
+      await override.undo();
+      expect(ledger.revertEntry).toHaveBeenCalledWith('entry-1', 'Undone: Accepted "Jupitor"');
+
+      // Redo is a fresh entry, so the ledger shows the whole back and forth
+      await override.execute();
+      await override.undo();
+      expect(ledger.revertEntry).toHaveBeenLastCalledWith('entry-2', 'Undone: Accepted "Jupitor"');
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const rpc = vi.fn();
+
+vi.mock('../lib/supabase', () => ({
+  supabase: {
+    rpc: (...args: unknown[]) => rpc(...args),
+  },
+}));
+
+import { GameStateManager } from '../services/gameStateManager';
+import { createMemoryGameLogStore } from '../services/gameLogService';
+import { CoHostService } from '../services/coHostService';
+import {
+  CO_HOST_ROLE_PRESETS,
+  PRIMARY_HOST_ROLE,
+  canGrantRole,
+  canPerformHostAction,
+  hasHostPermission,
+  type HostRole,
+} from '../types/hostControls';
+import type { GameState } from '../types/game';
+
+const preset = (id: string): HostRole => CO_HOST_ROLE_PRESETS.find(role => role.id === id)!;
+
+const createGameState = (): GameState => ({
+  id: 'game-1',
+  roomId: 'room-1',
+  hostId: 'host-1',
+  configuration: {
+    id: 'config-1',
+    name: 'Permissions Test',
+    settings: {
+      maxRounds: 1,
+      questionsPerRound: 1,
+      defaultTimeLimit: 30,
+      allowTeams: true,
+      maxTeamSize: 4,
+      maxTeams: 10,
+      pointSystem: 'last-call',
+      enableSpecialRounds: false,
+      enableWagerRounds: false,
+      enableBonusRounds: false,
+      autoAdvance: false,
+      showCorrectAnswers: true,
+      allowAnswerChanges: false,
+      enableHints: false,
+      difficulty: 'medium',
+    },
+    rounds: [],
+    categories: [],
+    createdBy: 'host-1',
+    isPublic: false,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+  },
+  phase: 'pre-game',
+  currentRound: 0,
+  rounds: [],
+  completedRounds: 0,
+  totalQuestions: 0,
+  answeredQuestions: 0,
+  players: {},
+  teams: {},
+  usedPointValues: {},
+  timers: {},
+  isActive: false,
+  isPaused: false,
+  isComplete: false,
+  events: [],
+  connectedPlayers: [],
+  lastUpdated: '2025-01-01T00:00:00.000Z',
+});
+
+describe('Host Permissions', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+  });
+
+  describe('Roles', () => {
+    it('should give the host every permission', () => {
+      expect(canPerformHostAction(PRIMARY_HOST_ROLE, 'end-game')).toBe(true);
+      expect(canPerformHostAction(PRIMARY_HOST_ROLE, 'override-score')).toBe(true);
+      expect(hasHostPermission(PRIMARY_HOST_ROLE, 'view-analytics')).toBe(true);
+    });
+
+    it('should limit an answer grader to answers', () => {
+      const grader = preset('answer-grader');
+
+      expect(canPerformHostAction(grader, 'approve-answer')).toBe(true);
+      expect(canPerformHostAction(grader, 'lock-answers')).toBe(true);
+      expect(canPerformHostAction(grader, 'override-score')).toBe(false);
+      expect(canPerformHostAction(grader, 'start-game')).toBe(false);
+    });
+
+    it('should deny everything without a role', () => {
+      expect(hasHostPermission(null, 'manage-answers')).toBe(false);
+      expect(canPerformHostAction(undefined, 'approve-answer')).toBe(false);
+    });
+  });
+
+  describe('Delegation', () => {
+    it('should let the host grant any preset', () => {
+      CO_HOST_ROLE_PRESETS.forEach(role => {
+        expect(canGrantRole(PRIMARY_HOST_ROLE, role)).toBe(true);
+      });
+    });
+
+    it('should only let delegating co-hosts grant what they hold', () => {
+      const lead: HostRole = {
+        id: 'lead-grader',
+        name: 'Lead grader',
+        permissions: ['manage-answers', 'override-scores'],
+        canDelegate: true,
+      };
+
+      expect(canGrantRole(lead, preset('answer-grader'))).toBe(true);
+      expect(canGrantRole(lead, preset('scorekeeper'))).toBe(true);
+      expect(canGrantRole(lead, preset('co-host'))).toBe(false);
+      expect(canGrantRole(lead, { ...preset('answer-grader'), canDelegate: true })).toBe(false);
+      expect(canGrantRole(preset('scorekeeper'), preset('answer-grader'))).toBe(false);
+    });
+  });
+
+  describe('Attribution', () => {
+    it('should stamp actions and their events with the acting account', async () => {
+      const store = createMemoryGameLogStore();
+      const manager = new GameStateManager(createGameState(), { logStore: store, actorId: 'grader-1' });
+
+      await manager.executeAction({
+        type: 'add-player',
+        gameId: 'game-1',
+        payload: { playerId: 'alice' },
+        timestamp: '2025-01-01T20:00:00.000Z',
+      });
+      manager.setActor('host-1');
+      await manager.executeAction({
+        type: 'add-player',
+        gameId: 'game-1',
+        payload: { playerId: 'bob' },
+        timestamp: '2025-01-01T20:00:01.000Z',
+      });
+
+      const stored = await store.loadLog('game-1');
+      expect(stored?.entries.map(entry => entry.action.actorId)).toEqual(['grader-1', 'host-1']);
+      expect(manager.getState().events.map(event => event.actorId)).toEqual(['grader-1', 'host-1']);
+      manager.destroy();
+    });
+  });
+
+  describe('CoHostService', () => {
+    it('should load the signed-in role', async () => {
+      rpc.mockResolvedValue({ data: preset('scorekeeper'), error: null });
+
+      const role = await CoHostService.getMyRole('game-1');
+
+      expect(rpc).toHaveBeenCalledWith('game_host_role', { p_game_id: 'game-1' });
+      expect(role?.id).toBe('scorekeeper');
+    });
+
+    it('should surface refused invites', async () => {
+      rpc.mockResolvedValue({ data: null, error: { message: 'You cannot grant the override-scores permission' } });
+
+      await expect(
+        CoHostService.inviteCoHost('game-1', 'user-2', preset('scorekeeper'))
+      ).rejects.toThrow('Failed to invite co-host: You cannot grant the override-scores permission');
+    });
+  });
+});
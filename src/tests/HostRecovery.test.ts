@@ -0,0 +1,289 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('../lib/supabase', () => ({
+  supabase: {},
+}));
+
+import { GameStateManager } from '../services/gameStateManager';
+import { reduceGameState } from '../services/gameReducer';
+import { createMemoryGameLogStore } from '../services/gameLogService';
+import { RoundManager } from '../services/roundManager';
+import { ScoreManager } from '../services/scoreManager';
+import { AnswerSubmissionManager } from '../services/answerSubmissionManager';
+import type { GameLogStore } from '../services/gameLogService';
+import {
+  createCheckpoint,
+  GameCheckpointer,
+  HostRecoveryService,
+} from '../services/hostRecoveryService';
+import type { GameAction, GameCheckpoint, GameState, Round } from '../types/game';
+
+const rounds: Round[] = [
+  {
+    id: 'round-1',
+    number: 1,
+    type: 'standard',
+    name: 'Round 1',
+    availablePointValues: [1, 3, 5],
+    questions: [
+      {
+        id: 'q1',
+        text: 'Capital of France?',
+        type: 'text',
+        category: 'Geography',
+        difficulty: 'easy',
+        correctAnswer: 'Paris',
+        timeLimit: 30,
+        createdAt: '2025-01-01T00:00:00.000Z',
+        updatedAt: '2025-01-01T00:00:00.000Z',
+      },
+    ],
+    isComplete: false,
+  },
+];
+
+const createGameState = (): GameState => ({
+  id: 'game-1',
+  roomId: 'room-1',
+  hostId: 'host-1',
+  configuration: {
+    id: 'config-1',
+    name: 'Recovery Test',
+    settings: {
+      maxRounds: 1,
+      questionsPerRound: 1,
+      defaultTimeLimit: 30,
+      allowTeams: false,
+      maxTeamSize: 4,
+      maxTeams: 10,
+      pointSystem: 'last-call',
+      enableSpecialRounds: false,
+      enableWagerRounds: false,
+      enableBonusRounds: false,
+      autoAdvance: false,
+      showCorrectAnswers: true,
+      allowAnswerChanges: false,
+      enableHints: false,
+      difficulty: 'medium',
+    },
+    rounds,
+    categories: [],
+    createdBy: 'host-1',
+    isPublic: false,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+  },
+  phase: 'pre-game',
+  currentRound: 0,
+  rounds,
+  completedRounds: 0,
+  totalQuestions: 1,
+  answeredQuestions: 0,
+  players: {},
+  teams: {},
+  usedPointValues: {},
+  timers: {},
+  isActive: false,
+  isPaused: false,
+  isComplete: false,
+  events: [],
+  connectedPlayers: [],
+  lastUpdated: '2025-01-01T00:00:00.000Z',
+});
+
+const at = (seconds: number) => new Date(Date.UTC(2025, 0, 1, 20, 0, seconds)).toISOString();
+
+const action = (
+  type: GameAction['type'],
+  seconds: number,
+  payload?: Record<string, any>
+): GameAction => ({
+  type,
+  gameId: 'game-1',
+  payload,
+  timestamp: at(seconds),
+});
+
+// Question q1 is presented at 20:00:03 with a 30 second timer
+const untilQuestion = (): GameAction[] => [
+  action('add-player', 0, { playerId: 'alice' }),
+  action('start-game', 1),
+  action('start-round', 2),
+  action('present-question', 3, { questionId: 'q1' }),
+];
+
+describe('Host Recovery', () => {
+  let store: GameLogStore;
+  let manager: GameStateManager;
+
+  beforeEach(async () => {
+    store = createMemoryGameLogStore();
+    manager = new GameStateManager(createGameState(), { logStore: store });
+    for (const next of untilQuestion()) {
+      await manager.executeAction(next);
+    }
+  });
+
+  afterEach(() => {
+    manager.destroy();
+  });
+
+  describe('Checkpoints', () => {
+    it('should capture the phase, question and time left', () => {
+      const checkpoint = createCheckpoint(manager.getState(), 4, at(15), 'question_display');
+
+      expect(checkpoint).toMatchObject({
+        gameId: 'game-1',
+        hostId: 'host-1',
+        sequence: 4,
+        phase: 'answer-submission',
+        controllerPhase: 'question_display',
+        roundNumber: 1,
+        questionId: 'q1',
+        timerRemaining: 18,
+        isPaused: false,
+      });
+    });
+
+    it('should stop the clock while the game is paused', async () => {
+      await manager.executeAction(action('pause-game', 10));
+
+      const checkpoint = createCheckpoint(manager.getState(), 5, at(50));
+      expect(checkpoint.isPaused).toBe(true);
+      expect(checkpoint.timerRemaining).toBe(23);
+    });
+  });
+
+  describe('Resuming', () => {
+    it('should resume at the checkpointed question with the time that was left', async () => {
+      const checkpoint = createCheckpoint(manager.getState(), 4, at(15));
+      manager.destroy();
+
+      const resumed = await HostRecoveryService.resumeGame('game-1', {
+        checkpoint,
+        logStore: store,
+        now: () => at(120),
+      });
+      manager = resumed.manager;
+
+      const state = manager.getState();
+      expect(state.phase).toBe('answer-submission');
+      expect(state.currentQuestion?.question.id).toBe('q1');
+      expect(state.timers.question.remaining).toBe(18);
+      expect(state.timers.question.syncedAt).toBe(at(120));
+
+      // The timer correction is logged like any other action
+      const stored = await store.loadLog('game-1');
+      expect(stored?.entries.map(entry => entry.action.type)).toEqual([
+        'add-player', 'start-game', 'start-round', 'present-question', 'update-timer',
+      ]);
+    });
+
+    it('should leave a paused game paused', async () => {
+      await manager.executeAction(action('pause-game', 10));
+      const checkpoint = createCheckpoint(manager.getState(), 5, at(12));
+      manager.destroy();
+
+      manager = (await HostRecoveryService.resumeGame('game-1', { checkpoint, logStore: store })).manager;
+
+      expect(manager.getState().isPaused).toBe(true);
+      expect(manager.getLog()).toHaveLength(5);
+    });
+  });
+
+  describe('Restoring standings', () => {
+    let scoreManager: ScoreManager;
+
+    beforeEach(async () => {
+      await manager.executeAction(action('submit-answer', 5, { playerId: 'alice', answer: 'Paris', pointValue: 5 }));
+      await manager.executeAction(action('lock-answers', 6));
+      await manager.executeAction(action('reveal-answers', 7));
+
+      const roundManager = new RoundManager(rounds);
+      scoreManager = new ScoreManager(new AnswerSubmissionManager(roundManager), roundManager);
+      scoreManager.restoreStandings(manager.getState().players, manager.getState().teams);
+    });
+
+    it('should carry the checkpointed scores over', () => {
+      const score = scoreManager.getPlayerScore('alice');
+
+      expect(score?.totalScore).toBe(5);
+      expect(score?.roundScores.get('round-1')).toBe(5);
+      expect(score?.correctAnswers).toBe(1);
+      expect(scoreManager.getPlayerLeaderboard()[0]).toMatchObject({ id: 'alice', rank: 1 });
+    });
+
+    it('should add later answers to the restored totals', () => {
+      scoreManager.processSubmissionScore({
+        questionId: 'q1',
+        participantId: 'alice',
+        answer: 'Paris',
+        pointValue: 3,
+        submittedAt: new Date(),
+        isLocked: true,
+        roundId: 'round-1',
+        submissionId: 'sub-2',
+      });
+
+      const score = scoreManager.getPlayerScore('alice');
+      expect(score?.totalScore).toBe(8);
+      expect(score?.totalQuestions).toBe(2);
+      expect(score?.accuracy).toBe(100);
+    });
+  });
+
+  describe('Host transfer', () => {
+    it('should record the new host', () => {
+      const { state, events } = reduceGameState(
+        manager.getState(),
+        action('transfer-host', 20, { toHostId: 'cohost-1', reason: 'Leaving early' })
+      );
+
+      expect(state.hostId).toBe('cohost-1');
+      expect(state.phase).toBe('answer-submission');
+      expect(events[0]).toMatchObject({
+        type: 'host-changed',
+        data: { fromHostId: 'host-1', toHostId: 'cohost-1', reason: 'Leaving early' },
+      });
+    });
+
+    it('should reject handing hosting to the current host', () => {
+      expect(() =>
+        reduceGameState(manager.getState(), action('transfer-host', 20, { toHostId: 'host-1' }))
+      ).toThrow();
+    });
+  });
+
+  describe('Checkpointer', () => {
+    it('should checkpoint after every phase transition', async () => {
+      const saved: GameCheckpoint[] = [];
+      const checkpointer = new GameCheckpointer(manager, {
+        save: async checkpoint => { saved.push(checkpoint); },
+        heartbeatInterval: 60_000,
+        getControllerPhase: () => 'answer_collection',
+      });
+      checkpointer.start();
+
+      await manager.executeAction(action('submit-answer', 5, { playerId: 'alice', answer: 'Paris', pointValue: 5 }));
+      await manager.executeAction(action('lock-answers', 6));
+      await checkpointer.checkpoint();
+      checkpointer.stop();
+
+      // The answer is not a phase change; locking answers is
+      expect(saved.map(checkpoint => checkpoint.sequence)).toEqual([6, 6]);
+      expect(saved[0]).toMatchObject({ phase: 'answer-review', controllerPhase: 'answer_collection' });
+    });
+
+    it('should report failed saves without throwing', async () => {
+      const onError = vi.fn();
+      const checkpointer = new GameCheckpointer(manager, {
+        save: () => Promise.reject(new Error('Failed to save game checkpoint: offline')),
+        onError,
+      });
+
+      await checkpointer.checkpoint();
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringContaining('offline') }));
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const rpc = vi.fn();
+const order = vi.fn();
+
+vi.mock('../lib/supabase', () => ({
+  supabase: {
+    rpc: (...args: unknown[]) => rpc(...args),
+    from: () => ({ select: () => ({ eq: () => ({ order: (...args: unknown[]) => order(...args) }) }) }),
+  },
+}));
+
+import { QuestionSetService } from '../services/questionSetService';
+import { analyzeQuestionItem, summarizeQuestionSetStats, type QuestionItemRow } from '../utils/itemAnalysis';
+import type { CustomQuestion } from '../types/questionSets';
+
+const question = (id: string, overrides: Partial<CustomQuestion> = {}): CustomQuestion => ({
+  id,
+  question_set_id: 'set-1',
+  text: `Question ${id}`,
+  type: 'multiple_choice',
+  options: ['Mercury', 'Venus', 'Mars', 'Jupiter'],
+  correct_answer: 'Jupiter',
+  points: 1,
+  time_limit: 30,
+  difficulty: 'medium',
+  category: 'Space',
+  order_index: 0,
+  created_at: '2025-07-01T00:00:00.000Z',
+  updated_at: '2025-07-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const row = (questionId: string, overrides: Partial<QuestionItemRow> = {}): QuestionItemRow => ({
+  question_id: questionId,
+  games_used: 3,
+  attempts: 20,
+  correct_answers: 12,
+  discrimination: 0.41,
+  average_confidence: 3.25,
+  average_response_seconds: 14.04,
+  answer_counts: { jupiter: 12, mars: 5, venus: 2 },
+  set_games_played: 4,
+  ...overrides,
+});
+
+describe('Item Analysis', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+    order.mockReset();
+  });
+
+  it('should report difficulty, discrimination and confidence for a question', () => {
+    const stats = analyzeQuestionItem(question('q1'), row('q1'));
+
+    expect(stats).toMatchObject({
+      games_used: 3,
+      attempts: 20,
+      percent_correct: 60,
+      discrimination: 0.41,
+      average_confidence: 3.3,
+      average_response_seconds: 14,
+      flags: [],
+    });
+  });
+
+  it('should share teams out across the options', () => {
+    const stats = analyzeQuestionItem(question('q1'), row('q1'));
+
+    expect(stats.option_shares).toEqual([
+      { option: 'Mercury', share: 0, is_correct: false },
+      { option: 'Venus', share: 10, is_correct: false },
+      { option: 'Mars', share: 25, is_correct: false },
+      { option: 'Jupiter', share: 60, is_correct: true },
+      // One team answered something else
+      { option: 'Other', share: 5, is_correct: false },
+    ]);
+  });
+
+  it('should use True and False when a true/false question lists no options', () => {
+    const stats = analyzeQuestionItem(
+      question('q2', { type: 'true_false', options: [], correct_answer: 'False' }),
+      row('q2', { attempts: 10, correct_answers: 7, answer_counts: { false: 7, true: 3 } })
+    );
+    expect(stats.option_shares.map(share => [share.option, share.share])).toEqual([['True', 30], ['False', 70]]);
+  });
+
+  it('should flag questions that are too easy or too hard', () => {
+    expect(analyzeQuestionItem(question('q1'), row('q1', { correct_answers: 19, answer_counts: { jupiter: 19, mars: 1 } })).flags)
+      .toEqual(['too_easy']);
+    expect(analyzeQuestionItem(question('q1'), row('q1', { correct_answers: 3, answer_counts: { jupiter: 3, mercury: 1 } })).flags)
+      .toEqual(['too_hard']);
+  });
+
+  it('should flag a question the stronger teams miss as ambiguous', () => {
+    expect(analyzeQuestionItem(question('q1'), row('q1', { discrimination: -0.2 })).flags).toEqual(['ambiguous']);
+  });
+
+  it('should flag a question where a wrong option is as popular as the right one', () => {
+    const stats = analyzeQuestionItem(
+      question('q1'),
+      row('q1', { correct_answers: 9, answer_counts: { jupiter: 9, mars: 9, venus: 2 } })
+    );
+    expect(stats.flags).toEqual(['ambiguous']);
+  });
+
+  it('should not flag anything on too few answers', () => {
+    const stats = analyzeQuestionItem(question('q1'), row('q1', { attempts: 4, correct_answers: 4, answer_counts: { jupiter: 4 } }));
+    expect(stats.percent_correct).toBe(100);
+    expect(stats.flags).toEqual([]);
+  });
+
+  it('should roll item stats up into the set stats', () => {
+    const questions = [
+      question('q1'),
+      question('q2', { category: 'History', type: 'short_answer', options: [], correct_answer: '1066' }),
+      question('q3', { category: undefined }),
+    ];
+    const stats = summarizeQuestionSetStats(questions, [
+      row('q1'),
+      row('q2', { correct_answers: 4, discrimination: null, answer_counts: { '1066': 4, '1067': 16 } }),
+    ]);
+
+    expect(stats.total_games_played).toBe(4);
+    expect(stats.average_score).toBe(40);
+    expect(stats.most_difficult_question_id).toBe('q2');
+    expect(stats.easiest_question_id).toBe('q1');
+    expect(stats.category_performance).toEqual({
+      Space: { total_questions: 1, average_score: 60 },
+      History: { total_questions: 1, average_score: 20 },
+      Uncategorized: { total_questions: 1, average_score: 0 },
+    });
+    // Short answers have no options to share out
+    expect(stats.item_stats.q2.option_shares).toEqual([]);
+    expect(stats.item_stats.q3).toMatchObject({ attempts: 0, discrimination: null, flags: [] });
+  });
+
+  it('should load stats for a question set from its game history', async () => {
+    order.mockResolvedValue({ data: [question('q1')], error: null });
+    rpc.mockResolvedValue({ data: [row('q1')], error: null });
+
+    const stats = await QuestionSetService.getQuestionSetStats('set-1');
+
+    expect(rpc).toHaveBeenCalledWith('get_question_item_stats', { p_question_set_id: 'set-1' });
+    expect(stats.item_stats.q1.percent_correct).toBe(60);
+  });
+
+  it('should report when stats cannot be loaded', async () => {
+    order.mockResolvedValue({ data: [], error: null });
+    rpc.mockResolvedValue({ data: null, error: { message: 'permission denied' } });
+
+    await expect(QuestionSetService.getQuestionSetStats('set-1')).rejects.toThrow(
+      'Failed to load question stats: permission denied'
+    );
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../lib/supabase', () => ({
+  supabase: {},
+}));
+
+import { MemoryGameStore } from '../../supabase/functions/_shared/memoryStore.ts';
+import { reminderPayload, sendDueReminders, type PushSender } from '../../supabase/functions/_shared/gameReminders.ts';
+import { urlBase64ToUint8Array } from '../services/pushNotifications';
+
+const NOW = new Date('2025-07-09T19:50:00Z');
+
+const subscription = (userId: string, endpoint = `https://push.example/${userId}`) => ({
+  user_id: userId,
+  endpoint,
+  p256dh: `p256dh-${userId}`,
+  auth: `auth-${userId}`,
+});
+
+describe('Push reminders', () => {
+  let store: MemoryGameStore;
+
+  beforeEach(() => {
+    store = new MemoryGameStore();
+    store.scheduledGames = [
+      { id: 'game-1', title: 'Friday Quiz', scheduled_for: '2025-07-09T20:00:00Z', status: 'scheduled', room_code: 'ABC123' },
+      { id: 'game-2', title: 'Late Show', scheduled_for: '2025-07-09T23:00:00Z', status: 'scheduled', room_code: null },
+    ];
+    store.scheduledGameReminders = [
+      { id: 'r-push-15', scheduled_game_id: 'game-1', reminder_type: 'push', time_before_minutes: 15, sent_at: null },
+      { id: 'r-push-5', scheduled_game_id: 'game-1', reminder_type: 'push', time_before_minutes: 5, sent_at: null },
+      { id: 'r-app-15', scheduled_game_id: 'game-1', reminder_type: 'in_app', time_before_minutes: 15, sent_at: null },
+      { id: 'r-push-late', scheduled_game_id: 'game-2', reminder_type: 'push', time_before_minutes: 15, sent_at: null },
+    ];
+    store.scheduledGameParticipants = [
+      { scheduled_game_id: 'game-1', user_id: 'alice', rsvp_status: 'accepted' },
+      { scheduled_game_id: 'game-1', user_id: 'bob', rsvp_status: 'declined' },
+      { scheduled_game_id: 'game-1', user_id: 'carol', rsvp_status: 'accepted' },
+    ];
+    store.pushSubscriptions = [subscription('alice'), subscription('bob'), subscription('carol')];
+  });
+
+  it('sends only due push reminders to players who accepted', async () => {
+    const send = vi.fn<PushSender>().mockResolvedValue('sent');
+
+    const result = await sendDueReminders(store, send, NOW);
+
+    expect(result).toEqual({ reminders: 1, sent: 2, expired: 0, failed: 0 });
+    expect(send.mock.calls.map(([sub]) => sub.user_id).sort()).toEqual(['alice', 'carol']);
+    expect(store.scheduledGameReminders.find(r => r.id === 'r-push-15')?.sent_at).toBe(NOW.toISOString());
+    expect(store.scheduledGameReminders.find(r => r.id === 'r-push-5')?.sent_at).toBeNull();
+    expect(store.scheduledGameReminders.find(r => r.id === 'r-app-15')?.sent_at).toBeNull();
+  });
+
+  it('deep-links the reminder to the join page for the room', async () => {
+    const send = vi.fn<PushSender>().mockResolvedValue('sent');
+
+    await sendDueReminders(store, send, NOW);
+
+    expect(send.mock.calls[0][1]).toEqual({
+      title: 'Game Starting Soon',
+      body: '"Friday Quiz" starts in 15 minutes!',
+      url: '/game?code=ABC123',
+      tag: 'game-reminder:game-1',
+    });
+  });
+
+  it('falls back to the join page when the game has no room yet', () => {
+    const payload = reminderPayload({
+      reminder_id: 'r',
+      scheduled_game_id: 'game-2',
+      title: 'Late Show',
+      scheduled_for: '2025-07-09T23:00:00Z',
+      time_before_minutes: 0,
+      room_code: null,
+      subscriptions: [],
+    });
+
+    expect(payload.url).toBe('/game');
+    expect(payload.title).toBe('Game Starting Now!');
+  });
+
+  it('never sends the same reminder twice', async () => {
+    const send = vi.fn<PushSender>().mockResolvedValue('sent');
+
+    await sendDueReminders(store, send, NOW);
+    const second = await sendDueReminders(store, send, new Date(NOW.getTime() + 60000));
+
+    expect(second.reminders).toBe(0);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('removes subscriptions the push service reports as gone', async () => {
+    const send = vi.fn<PushSender>(async sub => (sub.user_id === 'alice' ? 'expired' : 'sent'));
+
+    const result = await sendDueReminders(store, send, NOW);
+
+    expect(result).toMatchObject({ sent: 1, expired: 1 });
+    expect(store.pushSubscriptions.map(s => s.user_id)).toEqual(['bob', 'carol']);
+  });
+
+  it('counts failed pushes without stopping the others', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const send = vi.fn<PushSender>(async sub => {
+      if (sub.user_id === 'alice') throw new Error('push service unavailable');
+      return 'sent';
+    });
+
+    const result = await sendDueReminders(store, send, NOW);
+
+    expect(result).toMatchObject({ sent: 1, failed: 1 });
+    consoleError.mockRestore();
+  });
+
+  it('decodes URL-safe base64 VAPID keys', () => {
+    expect(Array.from(urlBase64ToUint8Array('-_8'))).toEqual([0xfb, 0xff]);
+    expect(Array.from(urlBase64ToUint8Array('AQID'))).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,342 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../lib/supabase', () => ({
+  supabase: {},
+}));
+
+import { QuestionSetService } from '../services/questionSetService';
+import {
+  decodeHtmlEntities,
+  detectFileFormat,
+  parseDelimited,
+  parseQuestionSetContent,
+  serializeQuestionSet,
+  suggestColumnMapping,
+  toDelimited,
+} from '../utils/questionSetFormats';
+import { readXlsxRows } from '../utils/xlsx';
+import type { QuestionSetExportData } from '../types/questionSets';
+
+const createExportData = (): QuestionSetExportData => ({
+  metadata: {
+    title: 'Pub Night',
+    created_at: '2025-01-01T00:00:00Z',
+    question_count: 3,
+    export_version: '2.0',
+    tags: [],
+  },
+  questions: [
+    {
+      text: 'Capital of France?',
+      type: 'multiple_choice',
+      options: ['Paris', 'London', 'Rome', 'Berlin'],
+      correct_answer: 'Paris',
+      explanation: 'It has been since 987, roughly',
+      points: 2,
+      time_limit: 30,
+      difficulty: 'easy',
+      category: 'Geography',
+      alternative_answers: [],
+      tags: ['capitals', 'europe'],
+      media: { type: 'image', url: 'https://example.com/paris.jpg' },
+    },
+    {
+      text: 'The sun is a star.',
+      type: 'true_false',
+      options: [],
+      correct_answer: 'True',
+      points: 1,
+      time_limit: 20,
+      difficulty: 'medium',
+      category: 'Science',
+      alternative_answers: [],
+      tags: [],
+      media: null,
+    },
+    {
+      text: 'Who wrote "Hamlet"?',
+      type: 'short_answer',
+      options: [],
+      correct_answer: 'Shakespeare',
+      points: 3,
+      time_limit: 45,
+      difficulty: 'hard',
+      category: 'Literature',
+      alternative_answers: ['William Shakespeare', 'The Bard'],
+      tags: [],
+      media: null,
+    },
+  ],
+});
+
+describe('Question Set Formats', () => {
+  describe('CSV and TSV', () => {
+    it('should parse quoted fields, doubled quotes and embedded newlines', () => {
+      const rows = parseDelimited('a,"b, c","say ""hi""\nthere"\r\n1,2,3', ',');
+      expect(rows).toEqual([
+        ['a', 'b, c', 'say "hi"\nthere'],
+        ['1', '2', '3'],
+      ]);
+    });
+
+    it('should suggest column mappings from headers', () => {
+      expect(
+        suggestColumnMapping(['Question', 'Option A', 'Option B', 'Answer', 'Topic', 'Notes', 'Extra'])
+      ).toEqual(['text', 'options', 'options', 'correct_answer', 'category', 'explanation', null]);
+    });
+
+    it('should resolve option letters and infer question types', () => {
+      const csv = [
+        'Question,Option A,Option B,Option C,Answer,Points',
+        'Largest planet?,Mars,Jupiter,Venus,B,3',
+        'Water boils at 100C at sea level,,,,true,',
+        'Capital of Peru?,,,,Lima,lots',
+      ].join('\n');
+
+      const parsed = parseQuestionSetContent(csv, 'csv');
+      const [mc, tf, short] = parsed.data.questions;
+
+      expect(mc).toMatchObject({ type: 'multiple_choice', correct_answer: 'Jupiter', points: 3 });
+      expect(tf).toMatchObject({ type: 'true_false', correct_answer: 'True', options: [] });
+      expect(short).toMatchObject({ type: 'short_answer', correct_answer: 'Lima', points: 1 });
+      expect(parsed.rows).toEqual([2, 3, 4]);
+      expect(parsed.warnings).toEqual([
+        expect.objectContaining({ field: 'points', question_index: 2 }),
+      ]);
+    });
+
+    it('should use an explicit column mapping', () => {
+      const tsv = 'Q\tRight\tChoices\nBest Beatle?\tRingo\tJohn|Paul|George|Ringo';
+      const parsed = parseQuestionSetContent(tsv, 'tsv', {
+        columnMapping: ['text', 'correct_answer', 'options'],
+      });
+
+      expect(parsed.data.questions[0]).toMatchObject({
+        type: 'multiple_choice',
+        options: ['John', 'Paul', 'George', 'Ringo'],
+        correct_answer: 'Ringo',
+      });
+    });
+
+    it('should round-trip through CSV export', () => {
+      const data = createExportData();
+      const exported = serializeQuestionSet(data, 'csv');
+      const parsed = parseQuestionSetContent(exported.content as string, 'csv');
+
+      expect(parsed.data.questions).toEqual(data.questions);
+      expect(exported.fileName).toBe('pub_night.csv');
+    });
+
+    it('should keep spreadsheets from running exported text as formulas', () => {
+      expect(toDelimited([['=1+1', '+44 20', '-5 degrees', '@home', 'a=b', -5]], ',')).toBe(
+        "'=1+1,'+44 20,'-5 degrees,'@home,a=b,-5"
+      );
+
+      const data = createExportData();
+      data.questions[2] = {
+        ...data.questions[2],
+        text: '=HYPERLINK("https://example.com", "Who wrote Hamlet?")',
+        alternative_answers: ['@bard'],
+      };
+      const exported = serializeQuestionSet(data, 'csv');
+      const parsed = parseQuestionSetContent(exported.content as string, 'csv');
+
+      expect(exported.content).toContain(`"'=HYPERLINK(""https://example.com"", ""Who wrote Hamlet?"")"`);
+      expect(exported.content).toContain("'@bard");
+      expect(parsed.data.questions).toEqual(data.questions);
+    });
+  });
+
+  describe('Open Trivia DB', () => {
+    it('should decode HTML entities', () => {
+      expect(decodeHtmlEntities('Who&#039;s &quot;Pok&eacute;mon&quot; &amp; &#x263A;?')).toBe(
+        'Who\'s "Pokémon" & ☺?'
+      );
+      expect(decodeHtmlEntities('&unknown; stays')).toBe('&unknown; stays');
+    });
+
+    it('should import multiple choice and boolean questions', () => {
+      const content = JSON.stringify({
+        response_code: 0,
+        results: [
+          {
+            type: 'multiple',
+            difficulty: 'hard',
+            category: 'Entertainment: Film',
+            question: 'Who directed &quot;Jaws&quot;?',
+            correct_answer: 'Steven Spielberg',
+            incorrect_answers: ['George Lucas', 'James Cameron', 'Ridley Scott'],
+          },
+          {
+            type: 'boolean',
+            difficulty: 'easy',
+            category: 'Entertainment: Film',
+            question: 'Jaws was released in 1975.',
+            correct_answer: 'True',
+            incorrect_answers: ['False'],
+          },
+        ],
+      });
+
+      const parsed = parseQuestionSetContent(content, 'opentdb', { random: () => 0.99 });
+      const [mc, tf] = parsed.data.questions;
+
+      expect(mc.text).toBe('Who directed "Jaws"?');
+      expect(mc.options).toEqual(['George Lucas', 'James Cameron', 'Ridley Scott', 'Steven Spielberg']);
+      expect(mc.difficulty).toBe('hard');
+      expect(tf).toMatchObject({ type: 'true_false', correct_answer: 'True' });
+      expect(parsed.data.metadata.title).toBe('Entertainment: Film');
+    });
+
+    it('should skip question types Open Trivia DB cannot hold on export', () => {
+      const exported = serializeQuestionSet(createExportData(), 'opentdb');
+      const results = JSON.parse(exported.content as string).results;
+
+      expect(results).toHaveLength(2);
+      expect(results[0].incorrect_answers).toEqual(['London', 'Rome', 'Berlin']);
+      expect(exported.warnings).toEqual([
+        expect.objectContaining({ field: 'format' }),
+        expect.objectContaining({ field: 'type', question_index: 2 }),
+      ]);
+    });
+  });
+
+  describe('Moodle GIFT', () => {
+    it('should parse multiple choice, true/false, short answer and blanks', () => {
+      const gift = [
+        '// Sample quiz',
+        '$CATEGORY: $course$/top/History',
+        '',
+        '::Q1:: Who was the first US president? {',
+        '  =George Washington',
+        '  ~Thomas Jefferson#Nope',
+        '  ~Abraham Lincoln',
+        '  ####He took office in 1789.',
+        '}',
+        '',
+        'The Berlin Wall fell in 1989. {T}',
+        '',
+        'What is 2 \\+ 2? {=4 =four}',
+        '',
+        'The Magna Carta was signed in {=1215} AD.',
+      ].join('\n');
+
+      const parsed = parseQuestionSetContent(gift, 'gift');
+      const [mc, tf, short, blank] = parsed.data.questions;
+
+      expect(mc).toMatchObject({
+        text: 'Who was the first US president?',
+        type: 'multiple_choice',
+        options: ['George Washington', 'Thomas Jefferson', 'Abraham Lincoln'],
+        correct_answer: 'George Washington',
+        explanation: 'He took office in 1789.',
+        category: 'History',
+      });
+      expect(tf).toMatchObject({ type: 'true_false', correct_answer: 'True' });
+      expect(short).toMatchObject({
+        type: 'short_answer',
+        correct_answer: '4',
+        alternative_answers: ['four'],
+      });
+      expect(blank).toMatchObject({
+        type: 'fill_blank',
+        text: 'The Magna Carta was signed in _____ AD.',
+        correct_answer: '1215',
+      });
+      expect(parsed.rows).toEqual([4, 11, 13, 15]);
+      expect(parsed.warnings).toEqual([]);
+    });
+
+    it('should report unsupported question types', () => {
+      const parsed = parseQuestionSetContent('Describe your day. {}', 'gift');
+      expect(parsed.errors[0]).toMatchObject({
+        message: 'Essay questions are not supported',
+        question_index: 0,
+      });
+    });
+
+    it('should round-trip through GIFT export', () => {
+      const data = createExportData();
+      data.questions[2].text = 'Who wrote "Hamlet" {and} Macbeth: a ~test?';
+      const exported = serializeQuestionSet(data, 'gift');
+      const parsed = parseQuestionSetContent(exported.content as string, 'gift');
+
+      expect(parsed.data.questions.map(q => [q.text, q.type, q.correct_answer, q.category])).toEqual(
+        data.questions.map(q => [q.text, q.type, q.correct_answer, q.category])
+      );
+      expect(parsed.data.questions[0].options).toEqual(data.questions[0].options);
+      expect(parsed.data.questions[2].alternative_answers).toEqual(['William Shakespeare', 'The Bard']);
+      expect(exported.warnings).toEqual([
+        expect.objectContaining({ message: 'Moodle GIFT files do not keep points, time limits, difficulty, question tags, media' }),
+      ]);
+    });
+  });
+
+  describe('Spreadsheet layout', () => {
+    it('should read the Kahoot template layout', () => {
+      const sheet = [
+        'Quiz template',
+        '',
+        'Question - max 120 characters\tAnswer 1 - max 75 characters\tAnswer 2 - max 75 characters\tAnswer 3 - max 75 characters\tAnswer 4 - max 75 characters\tTime limit (sec)\tCorrect answer(s) - choose at least one',
+        'Largest ocean?\tAtlantic\tPacific\tIndian\t\t20\t2',
+        'Cats are mammals\tTrue\tFalse\t\t\t10\t1',
+        'Square root of 81?\t9\t\t\t\t30\t1',
+      ].join('\n');
+
+      const parsed = parseQuestionSetContent(sheet, 'spreadsheet');
+      const [mc, tf, short] = parsed.data.questions;
+
+      expect(mc).toMatchObject({
+        type: 'multiple_choice',
+        options: ['Atlantic', 'Pacific', 'Indian'],
+        correct_answer: 'Pacific',
+        time_limit: 20,
+      });
+      expect(tf).toMatchObject({ type: 'true_false', correct_answer: 'True' });
+      expect(short).toMatchObject({ type: 'short_answer', correct_answer: '9' });
+      expect(parsed.rows).toEqual([4, 5, 6]);
+    });
+
+    it('should write an XLSX workbook that reads back', async () => {
+      const exported = serializeQuestionSet(createExportData(), 'spreadsheet');
+      const bytes = exported.content as Uint8Array;
+      const rows = await readXlsxRows(bytes.slice().buffer);
+
+      expect(rows[0][0]).toBe('Question - max 120 characters');
+      expect(rows[1]).toEqual(['Capital of France?', 'Paris', 'London', 'Rome', 'Berlin', '30', '1']);
+      expect(rows[3].slice(0, 2)).toEqual(['Who wrote "Hamlet"?', 'Shakespeare']);
+      expect(exported.warnings).toContainEqual(
+        expect.objectContaining({ field: 'time_limit', question_index: 2 })
+      );
+    });
+  });
+
+  describe('Import preview', () => {
+    it('should detect formats from file names and content', () => {
+      expect(detectFileFormat('bank.csv')).toBe('csv');
+      expect(detectFileFormat('quiz.xlsx')).toBe('spreadsheet');
+      expect(detectFileFormat('api.json', '{"response_code":0,"results":[]}')).toBe('opentdb');
+      expect(detectFileFormat('export.json', '{"metadata":{}}')).toBe('json');
+      expect(detectFileFormat('moodle.txt', 'Q? {=A ~B}')).toBe('gift');
+    });
+
+    it('should validate every format and attach source rows to errors', () => {
+      const csv = [
+        'Question,Option 1,Option 2,Answer',
+        'Good question?,Yes,No,Yes',
+        ',Yes,No,No',
+        'Bad answer?,Up,Down,Left',
+      ].join('\n');
+
+      const preview = QuestionSetService.previewImport(csv, 'csv', { title: 'Bank' });
+
+      expect(preview.validation.is_valid).toBe(false);
+      expect(preview.validation.errors).toEqual([
+        expect.objectContaining({ field: 'text', question_index: 1, row: 3 }),
+        expect.objectContaining({ field: 'correct_answer', question_index: 2, row: 4 }),
+      ]);
+      expect(preview.data.metadata.title).toBe('Bank');
+      expect(preview.headers).toEqual(['Question', 'Option 1', 'Option 2', 'Answer']);
+    });
+  });
+});
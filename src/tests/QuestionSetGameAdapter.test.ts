@@ -0,0 +1,259 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../lib/supabase', () => ({
+  supabase: {},
+}));
+
+import { QuestionSetGameAdapter } from '../services/questionSetGameAdapter';
+import { RoundManager } from '../services/roundManager';
+import { answerMatcher } from '../services/answerMatcher';
+import type { CustomQuestion, QuestionSet } from '../types/questionSets';
+
+const createQuestion = (
+  index: number,
+  overrides: Partial<CustomQuestion> = {}
+): CustomQuestion => ({
+  id: `q-${index}`,
+  question_set_id: 'set-1',
+  text: `Question ${index}?`,
+  type: 'short_answer',
+  options: [],
+  correct_answer: `Answer ${index}`,
+  points: 10,
+  time_limit: 30,
+  difficulty: 'medium',
+  category: 'History',
+  order_index: index,
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const createQuestionSet = (
+  id: string,
+  questions: CustomQuestion[],
+  overrides: Partial<QuestionSet> = {}
+): QuestionSet => ({
+  id,
+  host_id: 'host-1',
+  title: `Set ${id}`,
+  is_public: false,
+  visibility_level: 'private',
+  question_count: questions.length,
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+  questions: questions.map(q => ({ ...q, question_set_id: id })),
+  ...overrides,
+});
+
+describe('QuestionSetGameAdapter', () => {
+  describe('Question mapping', () => {
+    it('should map question types and answers', () => {
+      const set = createQuestionSet('set-1', [
+        createQuestion(0, {
+          type: 'multiple_choice',
+          options: ['Paris', 'London', 'Rome'],
+          correct_answer: 'paris',
+        }),
+        createQuestion(1, { type: 'true_false', correct_answer: 'yes' }),
+        createQuestion(2, { type: 'fill_blank', difficulty: 'hard' }),
+      ]);
+
+      const result = QuestionSetGameAdapter.convertQuestionSets([set]);
+      const [mc, tf, blank] = result.rounds[0].questions;
+
+      expect(mc.type).toBe('multiple-choice');
+      expect(mc.correctAnswer).toBe('Paris');
+      expect(tf.type).toBe('true-false');
+      expect(tf.options).toEqual(['True', 'False']);
+      expect(tf.correctAnswer).toBe('True');
+      expect(blank.type).toBe('text');
+      expect(blank.difficulty).toBe('hard');
+      expect(result.issues).toHaveLength(0);
+    });
+
+    it('should only accept the exact option for choice questions', () => {
+      const set = createQuestionSet('set-1', [
+        createQuestion(0, {
+          type: 'multiple_choice',
+          options: ['Colombia', 'Columbia'],
+          correct_answer: 'Colombia',
+        }),
+        createQuestion(1, { type: 'true_false', correct_answer: 'false' }),
+        createQuestion(2, { correct_answer: 'Colombia' }),
+      ]);
+
+      const [mc, tf, text] = QuestionSetGameAdapter.convertQuestionSets([set]).rounds[0].questions;
+      const accepts = (question: typeof mc, answer: string) =>
+        answerMatcher.isMatch(answer, question.correctAnswer, {
+          strictness: question.answerStrictness,
+          alternativeAnswers: question.alternativeAnswers,
+        });
+
+      expect(mc.answerStrictness).toBe('exact');
+      expect(accepts(mc, 'colombia')).toBe(true);
+      expect(accepts(mc, 'Columbia')).toBe(false);
+      expect(tf.answerStrictness).toBe('exact');
+      expect(accepts(tf, 'True')).toBe(false);
+      expect(text.answerStrictness).toBeUndefined();
+      expect(accepts(text, 'Columbia')).toBe(true);
+    });
+
+    it('should skip and report questions that cannot be played', () => {
+      const set = createQuestionSet('set-1', [
+        createQuestion(0),
+        createQuestion(1, {
+          type: 'multiple_choice',
+          options: ['A', 'B'],
+          correct_answer: 'C',
+        }),
+        createQuestion(2, { correct_answer: '  ' }),
+      ]);
+
+      const result = QuestionSetGameAdapter.convertQuestionSets([set]);
+
+      expect(result.convertedCount).toBe(1);
+      expect(result.skippedCount).toBe(2);
+      expect(result.issues.map(issue => issue.questionId)).toEqual(['q-1', 'q-2']);
+      expect(result.issues.every(issue => issue.resolution === 'skipped')).toBe(true);
+    });
+
+    it('should report defaulted categories and clamped time limits', () => {
+      const set = createQuestionSet('set-1', [
+        createQuestion(0, { category: undefined, time_limit: 5 }),
+      ]);
+
+      const result = QuestionSetGameAdapter.convertQuestionSets([set]);
+      const question = result.rounds[0].questions[0];
+
+      expect(question.category).toBe('Set set-1');
+      expect(question.timeLimit).toBe(10);
+      expect(result.issues.map(issue => [issue.field, issue.resolution])).toEqual([
+        ['category', 'defaulted'],
+        ['time_limit', 'clamped'],
+      ]);
+    });
+  });
+
+  describe('Round building', () => {
+    it('should build Last Call rounds of three with alternating point values', () => {
+      const questions = Array.from({ length: 7 }, (_, i) => createQuestion(i));
+      const result = QuestionSetGameAdapter.convertQuestionSets([
+        createQuestionSet('set-1', questions),
+      ]);
+
+      expect(result.rounds.map(round => round.questions.length)).toEqual([3, 3, 1]);
+      expect(result.rounds[0].availablePointValues).toEqual([1, 3, 5]);
+      expect(result.rounds[1].availablePointValues).toEqual([2, 4, 6]);
+      expect(result.rounds[2].availablePointValues).toEqual([1, 3, 5]);
+      expect(result.rounds[0].questions[0].points).toBeUndefined();
+      expect(result.flowConfiguration.totalRounds).toBe(3);
+      expect(result.flowConfiguration.questionsPerRound).toBe(3);
+    });
+
+    it('should assign fixed points in the standard point system', () => {
+      const set = createQuestionSet('set-1', [
+        createQuestion(0, { points: 2 }),
+        createQuestion(1, { points: 10 }),
+      ]);
+
+      const result = QuestionSetGameAdapter.convertQuestionSets([set], {
+        pointSystem: 'standard',
+        setConfigs: [
+          { question_set_id: 'set-1', shuffle_questions: false, points_multiplier: 2 },
+        ],
+      });
+
+      const [first, second] = result.rounds[0].questions;
+      expect(first.points).toBe(4);
+      expect(second.points).toBe(6);
+      expect(result.rounds[0].availablePointValues).toEqual([4, 6]);
+      expect(result.issues).toContainEqual(
+        expect.objectContaining({ questionId: 'q-1', field: 'points', resolution: 'clamped' })
+      );
+    });
+
+    it('should split rounds by question set', () => {
+      const result = QuestionSetGameAdapter.convertQuestionSets(
+        [
+          createQuestionSet('a', [createQuestion(0), createQuestion(1)]),
+          createQuestionSet('b', [createQuestion(2)]),
+        ],
+        { roundSplit: 'by_set' }
+      );
+
+      expect(result.rounds.map(round => round.name)).toEqual([
+        'Round 1: Set a',
+        'Round 2: Set b',
+      ]);
+      expect(result.configuration.name).toBe('Set a + Set b');
+    });
+
+    it('should split rounds by category', () => {
+      const set = createQuestionSet('set-1', [
+        createQuestion(0, { category: 'History' }),
+        createQuestion(1, { category: 'Science' }),
+        createQuestion(2, { category: 'History' }),
+      ]);
+
+      const result = QuestionSetGameAdapter.convertQuestionSets([set], {
+        roundSplit: 'by_category',
+      });
+
+      expect(result.rounds.map(round => round.questions.map(q => q.id))).toEqual([
+        ['q-0', 'q-2'],
+        ['q-1'],
+      ]);
+      expect(result.configuration.categories).toEqual(['History', 'Science']);
+    });
+
+    it('should report questions beyond the round or set limits as unused', () => {
+      const questions = Array.from({ length: 9 }, (_, i) => createQuestion(i));
+      const result = QuestionSetGameAdapter.convertQuestionSets(
+        [createQuestionSet('set-1', questions)],
+        {
+          totalRounds: 2,
+          setConfigs: [
+            { question_set_id: 'set-1', shuffle_questions: false, max_questions: 8 },
+          ],
+        }
+      );
+
+      const unused = result.issues.filter(issue => issue.resolution === 'unused');
+      expect(result.rounds).toHaveLength(2);
+      expect(unused.map(issue => issue.questionId)).toEqual(['q-8', 'q-6', 'q-7']);
+    });
+
+    it('should shuffle deterministically with an injected random source', () => {
+      const questions = Array.from({ length: 3 }, (_, i) => createQuestion(i));
+      const result = QuestionSetGameAdapter.convertQuestionSets(
+        [createQuestionSet('set-1', questions)],
+        {
+          setConfigs: [{ question_set_id: 'set-1', shuffle_questions: true }],
+          random: () => 0,
+        }
+      );
+
+      expect(result.rounds[0].questions.map(q => q.id)).toEqual(['q-1', 'q-2', 'q-0']);
+    });
+
+    it('should produce rounds RoundManager accepts', () => {
+      const questions = Array.from({ length: 6 }, (_, i) => createQuestion(i));
+      const { rounds } = QuestionSetGameAdapter.convertQuestionSets([
+        createQuestionSet('set-1', questions),
+      ]);
+
+      const roundManager = new RoundManager(rounds);
+      expect(roundManager.getTotalRounds()).toBe(2);
+      expect(roundManager.getAvailablePointValues(2)).toEqual([2, 4, 6]);
+    });
+
+    it('should throw when nothing can be converted', () => {
+      expect(() =>
+        QuestionSetGameAdapter.convertQuestionSets([
+          createQuestionSet('set-1', [createQuestion(0, { text: '' })]),
+        ])
+      ).toThrow('None of the questions');
+    });
+  });
+});
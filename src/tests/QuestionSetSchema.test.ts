@@ -0,0 +1,205 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../lib/supabase', () => ({
+  supabase: {},
+}));
+
+import { QuestionSetService } from '../services/questionSetService';
+import {
+  CURRENT_EXPORT_VERSION,
+  compareExportVersions,
+  migrateExportData,
+} from '../utils/questionSetSchema';
+import { parseQuestionSetContent, serializeQuestionSet } from '../utils/questionSetFormats';
+import type { QuestionSetExportData } from '../types/questionSets';
+
+const createLegacyExport = (overrides: Record<string, unknown> = {}) => ({
+  metadata: {
+    title: 'Legacy Set',
+    created_at: '2024-06-01T00:00:00Z',
+    question_count: 2,
+    export_version: '1.0',
+    tags: ['classic'],
+    ...overrides,
+  },
+  questions: [
+    {
+      text: 'Who painted the Mona Lisa?',
+      type: 'short_answer',
+      options: [],
+      correct_answer: 'Leonardo da Vinci',
+      points: 2,
+      time_limit: 30,
+      difficulty: 'medium',
+      category: 'Art',
+    },
+    {
+      text: 'Pick the prime',
+      type: 'multiple_choice',
+      options: ['4', '6', '7'],
+      correct_answer: '7',
+      points: 1,
+      time_limit: 20,
+      difficulty: 'easy',
+    },
+  ],
+});
+
+describe('Question Set Schema', () => {
+  describe('Versions', () => {
+    it('should compare versions numerically', () => {
+      expect(compareExportVersions('1.0', '2.0')).toBeLessThan(0);
+      expect(compareExportVersions('2.10', '2.9')).toBeGreaterThan(0);
+      expect(compareExportVersions('2.0', '2.0')).toBe(0);
+    });
+
+    it('should reject exports from a newer schema', () => {
+      expect(() =>
+        migrateExportData(createLegacyExport({ export_version: '9.0' }))
+      ).toThrow('newer than the supported');
+    });
+  });
+
+  describe('Migrations', () => {
+    it('should upgrade 1.0 exports step by step and report defaulted fields', () => {
+      const { data, report } = migrateExportData(createLegacyExport());
+
+      expect(data.metadata.export_version).toBe(CURRENT_EXPORT_VERSION);
+      expect(data.questions[0]).toMatchObject({
+        alternative_answers: [],
+        tags: [],
+        media: null,
+      });
+      expect(report.source_version).toBe('1.0');
+      expect(report.steps).toEqual(['1.0 -> 2.0']);
+      expect(report.changes.map(change => [change.field, change.resolution])).toEqual([
+        ['questions.alternative_answers', 'defaulted'],
+        ['questions.tags', 'defaulted'],
+        ['questions.media', 'defaulted'],
+      ]);
+    });
+
+    it('should treat exports without a version as 1.0', () => {
+      const legacy = createLegacyExport();
+      delete (legacy.metadata as Record<string, unknown>).export_version;
+
+      const { report } = migrateExportData(legacy);
+
+      expect(report.source_version).toBe('1.0');
+      expect(report.changes[0]).toMatchObject({
+        field: 'metadata.export_version',
+        resolution: 'defaulted',
+      });
+    });
+
+    it('should drop unknown fields and invalid media', () => {
+      const legacy = createLegacyExport({ author: 'Tony' });
+      Object.assign(legacy.questions[0], {
+        hint: 'Renaissance',
+        points: -3,
+      });
+      Object.assign(legacy.questions[1], {
+        media: { type: 'hologram', url: 'https://example.com/x' },
+      });
+
+      const { data, report } = migrateExportData(legacy);
+
+      expect(data.questions[0]).not.toHaveProperty('hint');
+      expect(data.questions[0].points).toBe(1);
+      expect(data.questions[1].media).toBeNull();
+      expect(report.changes).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ field: 'metadata.author', resolution: 'dropped' }),
+          expect.objectContaining({ field: 'hint', resolution: 'dropped', question_index: 0 }),
+          expect.objectContaining({ field: 'points', resolution: 'defaulted', question_index: 0 }),
+          expect.objectContaining({ field: 'media', resolution: 'dropped', question_index: 1 }),
+        ])
+      );
+    });
+
+    it('should leave current exports unchanged', () => {
+      const { data: current } = migrateExportData(createLegacyExport());
+      const { data, report } = migrateExportData(current);
+
+      expect(data).toEqual(current);
+      expect(report.steps).toEqual([]);
+      expect(report.changes).toEqual([]);
+    });
+  });
+
+  describe('Round trip', () => {
+    it('should keep every question field through a JSON export', () => {
+      const data: QuestionSetExportData = {
+        metadata: {
+          title: 'Media Night',
+          description: 'Sights and sounds',
+          created_at: '2025-01-01T00:00:00Z',
+          question_count: 1,
+          export_version: CURRENT_EXPORT_VERSION,
+          tags: ['music'],
+        },
+        questions: [
+          {
+            text: 'Name this song',
+            type: 'short_answer',
+            options: [],
+            correct_answer: 'Bohemian Rhapsody',
+            explanation: 'Queen, 1975',
+            points: 4,
+            time_limit: 45,
+            difficulty: 'hard',
+            category: 'Music',
+            alternative_answers: ['Bohemian Rhapsody (Remastered)'],
+            tags: ['queen', '70s'],
+            media: {
+              type: 'audio',
+              url: 'https://cdn.example.com/clip.mp3',
+              transcript: 'Is this the real life?',
+            },
+          },
+        ],
+      };
+
+      const exported = serializeQuestionSet(data, 'json');
+      const parsed = parseQuestionSetContent(exported.content as string, 'json');
+
+      expect(parsed.data).toEqual(data);
+      expect(parsed.migration?.changes).toEqual([]);
+    });
+
+    it('should report the migration in the import preview', () => {
+      const preview = QuestionSetService.previewImport(
+        JSON.stringify(createLegacyExport()),
+        'json'
+      );
+
+      expect(preview.validation.is_valid).toBe(true);
+      expect(preview.migration?.steps).toEqual(['1.0 -> 2.0']);
+      expect(preview.data.metadata.export_version).toBe(CURRENT_EXPORT_VERSION);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should check the export version and media references', () => {
+      const { data } = migrateExportData(createLegacyExport());
+      data.questions[0].media = { type: 'image', url: 'javascript:alert(1)' };
+
+      const result = QuestionSetService.validateImportData({
+        ...data,
+        metadata: { ...data.metadata, export_version: '0.5' },
+      });
+
+      expect(result.errors).toEqual([
+        expect.objectContaining({ field: 'metadata.export_version' }),
+        expect.objectContaining({ field: 'media.url', question_index: 0 }),
+      ]);
+    });
+
+    it('should warn that older versions will be upgraded', () => {
+      const result = QuestionSetService.validateImportData(createLegacyExport());
+
+      expect(result.is_valid).toBe(true);
+      expect(result.warnings[0].message).toBe('Export version 1.0 will be upgraded to 2.0');
+    });
+  });
+});
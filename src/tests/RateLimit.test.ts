@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const invoke = vi.fn();
+
+vi.mock('../services/supabase', () => ({
+  supabase: { functions: { invoke: (...args: unknown[]) => invoke(...args) } },
+}));
+
+import { edgeFunctionService } from '../services/edgeFunctions';
+import { errorMessageService } from '../services/errorMessageService';
+import { describeRateLimit, getRateLimitInfo, RateLimitError } from '../utils/rateLimit';
+
+// What PostgREST returns when a rate limit trigger rejects an insert
+const postgrestError = {
+  code: 'PT429',
+  message: 'Too many messages. Please slow down.',
+  details: JSON.stringify({ code: 'rate_limited', action: 'chat_message', retryAfterSeconds: 4 }),
+  hint: 'Try again in 4 seconds',
+};
+
+describe('Rate limits', () => {
+  beforeEach(() => {
+    invoke.mockReset();
+    errorMessageService.clearAll();
+  });
+
+  it('should read rate limits raised by the database', () => {
+    expect(getRateLimitInfo(postgrestError)).toEqual({
+      action: 'chat_message',
+      retryAfterSeconds: 4,
+      message: 'Too many messages. Please slow down.',
+    });
+  });
+
+  it('should read 429s from edge functions and Supabase Auth', () => {
+    expect(getRateLimitInfo({
+      error: 'Too many answer submissions. Please wait before submitting again.',
+      code: 'rate_limited',
+      action: 'answer_submission',
+      retryAfterSeconds: 6,
+    })).toMatchObject({ action: 'answer_submission', retryAfterSeconds: 6 });
+
+    expect(getRateLimitInfo({ status: 429, message: 'Request rate limit reached' })).toEqual({
+      retryAfterSeconds: 30,
+      message: 'Request rate limit reached',
+    });
+  });
+
+  it('should ignore other errors', () => {
+    expect(getRateLimitInfo(new Error('Failed to create team'))).toBeNull();
+    expect(getRateLimitInfo({ code: '23505', message: 'duplicate key value' })).toBeNull();
+    expect(getRateLimitInfo(null)).toBeNull();
+  });
+
+  it('should say how long to wait', () => {
+    expect(describeRateLimit({ retryAfterSeconds: 1, message: 'Slow down.' })).toBe('Slow down. Try again in 1 second.');
+    expect(describeRateLimit({ retryAfterSeconds: 100, message: 'Slow down.' })).toBe('Slow down. Try again in 2 minutes.');
+  });
+
+  it('should show a friendly message for the limit that was hit', () => {
+    const id = errorMessageService.showRateLimitError(postgrestError, 'game-1');
+
+    const [shown] = errorMessageService.getErrors();
+    expect(shown.id).toBe(id);
+    expect(shown).toMatchObject({
+      title: 'Too Many Messages',
+      suggestion: 'Try again in 4 seconds.',
+      autoHide: 4000,
+      context: { category: 'rate-limit', action: 'chat_message', gameId: 'game-1' },
+    });
+    expect(errorMessageService.showRateLimitError(new Error('Network down'))).toBeNull();
+  });
+
+  it('should turn a 429 from an edge function into a RateLimitError', async () => {
+    const body = {
+      error: 'Too many answer submissions. Please wait before submitting again.',
+      code: 'rate_limited',
+      action: 'answer_submission',
+      retryAfterSeconds: 6,
+    };
+    invoke.mockResolvedValue({
+      data: null,
+      error: {
+        message: 'Edge Function returned a non-2xx status code',
+        context: new Response(JSON.stringify(body), { status: 429, headers: { 'Retry-After': '6' } }),
+      },
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const error = await edgeFunctionService
+      .validateAnswer({ teamId: 't', questionId: 'q', submittedAnswer: 'Paris', pointsWagered: 5, gameId: 'g' })
+      .catch(err => err);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error).toMatchObject({ action: 'answer_submission', retryAfterSeconds: 6, message: body.error });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../lib/supabase', () => ({
+  supabase: {},
+}));
+
+import {
+  buildScoreHistory,
+  getLedgerTotals,
+  getScoreAsOfQuestion,
+  toScoreAdjustments,
+} from '../services/scoreLedgerService';
+import type { ScoreLedgerEntry } from '../types/scoreManagement';
+
+let sequence = 0;
+const entry = (overrides: Partial<ScoreLedgerEntry>): ScoreLedgerEntry => {
+  sequence++;
+  return {
+    id: `entry-${sequence}`,
+    sequence,
+    gameId: 'game-1',
+    entityId: 'owls',
+    entityType: 'team',
+    type: 'automatic',
+    points: 0,
+    reason: 'Correct answer',
+    performedBy: null,
+    createdAt: new Date(Date.UTC(2025, 0, 1, 20, 0, sequence)),
+    ...overrides,
+  };
+};
+
+// Owls get q1 right, are given a disputed point twice, one is reverted
+const ledger = (): ScoreLedgerEntry[] => {
+  sequence = 0;
+  return [
+    entry({ questionId: 'q1', points: 5 }),
+    entry({ entityId: 'foxes', questionId: 'q1', points: 3 }),
+    entry({ questionId: 'q2', points: 0, reason: 'Incorrect answer' }),
+    entry({ type: 'manual', questionId: 'q2', points: 3, reason: 'Accepted "Jupitor"', performedBy: 'host-1' }),
+    entry({ type: 'manual', questionId: 'q2', points: 3, reason: 'Accepted "Jupitor"', performedBy: 'co-host-1' }),
+    entry({ entityId: 'foxes', questionId: 'q3', points: 1 }),
+    entry({ type: 'revert', questionId: 'q2', points: -3, reason: 'Counted twice', performedBy: 'host-1', revertsEntryId: 'entry-5' }),
+  ];
+};
+
+describe('Score Ledger', () => {
+  it('should keep a running total for each entity', () => {
+    const history = buildScoreHistory(ledger(), {
+      entityNames: { owls: 'Night Owls', foxes: 'Foxes' },
+      performerNames: { 'host-1': 'You' },
+    });
+
+    expect(history.map(row => [row.entityName, row.previousScore, row.newScore])).toEqual([
+      ['Night Owls', 0, 5],
+      ['Foxes', 0, 3],
+      ['Night Owls', 5, 5],
+      ['Night Owls', 5, 8],
+      ['Night Owls', 8, 11],
+      ['Foxes', 3, 4],
+      ['Night Owls', 11, 8],
+    ]);
+    expect(history.map(row => row.performedBy)).toEqual([
+      'Automatic scoring',
+      'Automatic scoring',
+      'Automatic scoring',
+      'You',
+      'Another host',
+      'Automatic scoring',
+      'You',
+    ]);
+  });
+
+  it('should mark reverted entries and link reverts to what they cancel', () => {
+    const history = buildScoreHistory(ledger());
+
+    expect(history.filter(row => row.isReverted).map(row => row.id)).toEqual(['entry-5']);
+    expect(history[6].relatedAdjustmentId).toBe('entry-5');
+
+    const adjustments = toScoreAdjustments(ledger());
+    expect(adjustments).toHaveLength(6);
+    expect(adjustments.find(adjustment => adjustment.id === 'entry-5')).toMatchObject({
+      type: 'question',
+      adjustedBy: 'co-host-1',
+      isReverted: true,
+      revertedBy: 'host-1',
+    });
+  });
+
+  it('should total the ledger including reverts', () => {
+    const totals = getLedgerTotals(ledger());
+
+    expect(totals.get('owls')).toBe(8);
+    expect(totals.get('foxes')).toBe(4);
+  });
+
+  it('should show a score as of any question', () => {
+    const history = buildScoreHistory(ledger());
+
+    expect(getScoreAsOfQuestion(history, 'owls', 'q1')).toBe(5);
+    expect(getScoreAsOfQuestion(history, 'foxes', 'q1')).toBe(3);
+    // The scoreboard right after q2 was graded, before the host stepped in
+    expect(getScoreAsOfQuestion(history, 'owls', 'q2')).toBe(5);
+    // By q3 the disputed point had been given twice
+    expect(getScoreAsOfQuestion(history, 'owls', 'q3')).toBe(11);
+    expect(getScoreAsOfQuestion(history, 'owls', 'q9')).toBeNull();
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const rpc = vi.fn();
+
+vi.mock('../lib/supabase', () => ({
+  supabase: { rpc: (...args: unknown[]) => rpc(...args) },
+}));
+
+import { statisticsService } from '../services/statisticsService';
+import { getLeagueFromStats, type UserStats } from '../types/profile';
+import {
+  DEFAULT_RATING,
+  combineRatings,
+  leagueForRating,
+  rateRanking,
+  updateRating,
+  type Glicko2Rating,
+} from '../utils/glicko2';
+
+const rating = (value: number, deviation = 50, volatility = 0.06): Glicko2Rating => ({
+  rating: value,
+  deviation,
+  volatility,
+});
+
+describe('Skill ratings', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+  });
+
+  it('should match the worked example from the Glicko-2 paper', () => {
+    const updated = updateRating(rating(1500, 200), [
+      { opponent: rating(1400, 30), score: 1 },
+      { opponent: rating(1550, 100), score: 0 },
+      { opponent: rating(1700, 300), score: 0 },
+    ]);
+
+    expect(updated.rating).toBeCloseTo(1464.06, 1);
+    expect(updated.deviation).toBeCloseTo(151.52, 1);
+    expect(updated.volatility).toBeCloseTo(0.05999, 4);
+  });
+
+  it('should only grow the deviation after a period without games', () => {
+    const updated = updateRating(rating(1620, 80), []);
+
+    expect(updated.rating).toBe(1620);
+    expect(updated.deviation).toBeGreaterThan(80);
+    expect(updateRating(DEFAULT_RATING, []).deviation).toBe(350);
+  });
+
+  it('should treat a finished game as wins and losses against every other team', () => {
+    const ratings = rateRanking([
+      { id: 'third', rating: rating(1500, 100), rank: 3 },
+      { id: 'first', rating: rating(1500, 100), rank: 1 },
+      { id: 'second', rating: rating(1500, 100), rank: 2 },
+    ]);
+
+    const [first, second, third] = ['first', 'second', 'third'].map(id => ratings.get(id)!.rating);
+    expect(first).toBeGreaterThan(1500);
+    expect(second).toBeCloseTo(1500, 6);
+    expect(third).toBeLessThan(1500);
+    expect(first - 1500).toBeCloseTo(1500 - third, 6);
+  });
+
+  it('should give little for beating much weaker teams', () => {
+    const strong = rateRanking([
+      { id: 'champ', rating: rating(1900), rank: 1 },
+      { id: 'novice', rating: rating(1200), rank: 2 },
+    ]).get('champ')!;
+    const upset = rateRanking([
+      { id: 'novice', rating: rating(1200), rank: 1 },
+      { id: 'champ', rating: rating(1900), rank: 2 },
+    ]).get('novice')!;
+
+    expect(strong.rating - 1900).toBeLessThan(1);
+    expect(upset.rating - 1200).toBeGreaterThan(10);
+  });
+
+  it('should draw tied teams', () => {
+    const ratings = rateRanking([
+      { id: 'a', rating: rating(1500), rank: 1 },
+      { id: 'b', rating: rating(1500), rank: 1 },
+    ]);
+
+    expect(ratings.get('a')!.rating).toBeCloseTo(1500, 6);
+    expect(ratings.get('b')!.rating).toBeCloseTo(1500, 6);
+  });
+
+  it('should combine a lineup into one opponent', () => {
+    expect(combineRatings([rating(1400, 30), rating(1600, 40)])).toEqual({
+      rating: 1500,
+      deviation: Math.sqrt((30 * 30 + 40 * 40) / 2),
+      volatility: 0.06,
+    });
+    expect(combineRatings([])).toEqual(DEFAULT_RATING);
+  });
+
+  it('should band leagues on the rating less two deviations', () => {
+    expect(leagueForRating(DEFAULT_RATING)).toBe('Bronze');
+    expect(leagueForRating(rating(1500, 100))).toBe('Gold');
+    expect(leagueForRating(rating(2000, 40))).toBe('Master');
+    // A high rating on few games is not yet trusted
+    expect(leagueForRating(rating(2000, 300))).toBe('Gold');
+
+    const stats = { league: 'Bronze', rating: 1850, ratingDeviation: 60 } as UserStats;
+    expect(getLeagueFromStats(stats)).toBe('Diamond');
+    expect(getLeagueFromStats({ ...stats, rating: undefined, ratingDeviation: undefined })).toBe('Bronze');
+  });
+
+  it('should sort the global leaderboard by rating on request', async () => {
+    rpc.mockResolvedValue({ data: [{ user_id: 'u1', score: 1712, rank: 1 }], error: null });
+
+    const entries = await statisticsService.getGlobalLeaderboard('weekly', 10, 'rating');
+
+    expect(rpc).toHaveBeenCalledWith('get_rating_leaderboard', {
+      p_entity_type: 'player',
+      leaderboard_type: 'weekly',
+      entry_limit: 10,
+    });
+    expect(entries).toEqual([{ user_id: 'u1', score: 1712, rank: 1 }]);
+
+    await statisticsService.getGlobalLeaderboard();
+    expect(rpc).toHaveBeenLastCalledWith('get_global_leaderboard', { leaderboard_type: 'all_time', entry_limit: 50 });
+  });
+});
@@ -0,0 +1,325 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RoundManager } from '../services/roundManager';
+import { ScoreManager } from '../services/scoreManager';
+import { AnswerSubmissionManager } from '../services/answerSubmissionManager';
+import { SpecialRoundManager } from '../services/specialRoundManager';
+import {
+  AudioLoadStatus,
+  FinalJeopardyPhase,
+  SpecialRoundEventType,
+  SpecialRoundType,
+  type AudioRound,
+  type FinalJeopardyRound,
+  type TeamChallengeRound,
+} from '../types/specialRounds';
+import type { Question } from '../types/game';
+
+const question = (id: string, text: string, correctAnswer: string): Question => ({
+  id,
+  text,
+  type: 'text',
+  category: 'General',
+  difficulty: 'medium',
+  correctAnswer,
+  createdAt: '2025-06-01T00:00:00Z',
+  updatedAt: '2025-06-01T00:00:00Z',
+});
+
+const createAudioRound = (): AudioRound => ({
+  id: 'audio-round-1',
+  number: 3,
+  type: 'audio',
+  name: 'Test Audio Round',
+  availablePointValues: [1, 3, 5],
+  isComplete: false,
+  specialType: SpecialRoundType.AUDIO,
+  questions: [
+    {
+      ...question('question-1', 'Name this song', 'Yesterday'),
+      type: 'audio',
+      audioUrl: 'https://example.com/song.mp3',
+      audioDuration: 30,
+      audioFormat: 'mp3',
+      audioTranscript: 'Instrumental',
+    },
+  ],
+  settings: {
+    audioQuality: 'high',
+    allowReplay: true,
+    maxReplays: 2,
+    autoPlay: false,
+    showWaveform: false,
+    showPlaybackControls: true,
+    preloadAudio: false,
+  },
+  audioLoadingStatus: new Map(),
+  playbackStatus: new Map(),
+});
+
+const createTeamChallengeRound = (): TeamChallengeRound => ({
+  id: 'team-challenge-1',
+  number: 3,
+  type: 'standard',
+  name: 'Test Team Challenge',
+  availablePointValues: [1, 3, 5],
+  isComplete: false,
+  specialType: SpecialRoundType.TEAM_CHALLENGE,
+  questions: [],
+  settings: {
+    requiresTeams: true,
+    minTeamSize: 2,
+    maxTeamSize: 4,
+    allowIndividualParticipation: false,
+    teamBonusMultiplier: 1.5,
+    collaborativeAnswering: true,
+    teamCaptainOnly: true,
+    discussionTimeLimit: 60,
+  },
+  teamSubmissions: new Map(),
+  discussionLogs: new Map(),
+  discussionPhase: false,
+});
+
+const createFinalJeopardyRound = (): FinalJeopardyRound => ({
+  id: 'final-round-1',
+  number: 4,
+  type: 'wager',
+  name: 'Final Round',
+  availablePointValues: [],
+  isComplete: false,
+  specialType: SpecialRoundType.FINAL_JEOPARDY,
+  questions: [question('final-question', 'This river flows through Cairo', 'Nile')],
+  settings: {
+    category: 'World Rivers',
+    wagerTimeLimit: 30,
+    answerTimeLimit: 30,
+    allowZeroWager: true,
+    minimumMaxWager: 10,
+    revealOrder: 'lowest_first',
+  },
+  entries: new Map(),
+  phase: FinalJeopardyPhase.CATEGORY_REVEAL,
+  revealQueue: [],
+});
+
+describe('Special round lifecycles', () => {
+  let roundManager: RoundManager;
+  let scoreManager: ScoreManager;
+  let specialRoundManager: SpecialRoundManager;
+
+  beforeEach(() => {
+    roundManager = new RoundManager(RoundManager.createLastCallTriviaRounds([], []));
+    roundManager.setParticipants(['participant1', 'participant2']);
+    scoreManager = new ScoreManager(new AnswerSubmissionManager(roundManager), roundManager);
+    specialRoundManager = new SpecialRoundManager(roundManager, scoreManager);
+  });
+
+  afterEach(() => {
+    specialRoundManager.destroy();
+    vi.unstubAllGlobals();
+  });
+
+  describe('Participants', () => {
+    it('should keep the round roster in sync', () => {
+      expect(roundManager.getParticipants()).toEqual(['participant1', 'participant2']);
+
+      roundManager.clearParticipant('participant2');
+      expect(roundManager.getParticipants()).toEqual(['participant1']);
+    });
+  });
+
+  describe('Audio Round Management', () => {
+    let audioRound: AudioRound;
+
+    beforeEach(async () => {
+      audioRound = createAudioRound();
+      await specialRoundManager.startSpecialRound(audioRound);
+    });
+
+    it('should mark media pending when preloading is disabled', () => {
+      expect(audioRound.audioLoadingStatus.get('question-1')).toBe(AudioLoadStatus.PENDING);
+    });
+
+    it('should preload audio when enabled', async () => {
+      vi.stubGlobal('Audio', class {
+        oncanplaythrough: (() => void) | null = null;
+        onerror: (() => void) | null = null;
+        preload = '';
+
+        set src(_value: string) {
+          setTimeout(() => this.oncanplaythrough?.(), 0);
+        }
+      });
+      audioRound.settings.preloadAudio = true;
+
+      await specialRoundManager.preloadAudio(audioRound);
+
+      expect(audioRound.audioLoadingStatus.get('question-1')).toBe(AudioLoadStatus.LOADED);
+    });
+
+    it('should track playback per participant', () => {
+      specialRoundManager.playMedia('question-1', 'participant1');
+      specialRoundManager.pauseMedia('question-1', 'participant1', 12);
+
+      const status = audioRound.playbackStatus.get('question-1:participant1')!;
+      expect(status.playCount).toBe(1);
+      expect(status.isPlaying).toBe(false);
+      expect(status.currentTime).toBe(12);
+      expect(status.duration).toBe(30);
+
+      // Resuming a paused clip is not a replay
+      specialRoundManager.playMedia('question-1', 'participant1');
+      expect(status.playCount).toBe(1);
+    });
+
+    it('should enforce the replay limit', () => {
+      for (let i = 0; i < 2; i++) {
+        specialRoundManager.playMedia('question-1', 'participant1');
+        specialRoundManager.completeMediaPlayback('question-1', 'participant1');
+      }
+
+      expect(specialRoundManager.canPlayMedia('question-1', 'participant1')).toBe(false);
+      expect(() => specialRoundManager.playMedia('question-1', 'participant1')).toThrow('Replay limit reached');
+      expect(specialRoundManager.canPlayMedia('question-1', 'participant2')).toBe(true);
+    });
+  });
+
+  describe('Team Challenge Management', () => {
+    let teamRound: TeamChallengeRound;
+
+    beforeEach(async () => {
+      teamRound = createTeamChallengeRound();
+      await specialRoundManager.startSpecialRound(teamRound);
+    });
+
+    it('should only accept discussion while the discussion phase is open', () => {
+      expect(() =>
+        specialRoundManager.addDiscussionEntry('team1', 'participant1', 'Hi')
+      ).toThrow('Team discussion is not active');
+
+      specialRoundManager.startTeamDiscussion();
+      specialRoundManager.addDiscussionEntry('team1', 'participant1', 'Nile?');
+      specialRoundManager.addDiscussionEntry('team2', 'participant2', 'Amazon');
+
+      expect(teamRound.discussionPhase).toBe(true);
+      expect(teamRound.discussionDeadline).toBeDefined();
+      expect(teamRound.discussionLogs.get('team1')).toHaveLength(1);
+      expect(teamRound.discussionLogs.get('team2')).toHaveLength(1);
+
+      specialRoundManager.endTeamDiscussion();
+      expect(teamRound.discussionPhase).toBe(false);
+    });
+
+    it('should attach the discussion to team submissions', () => {
+      specialRoundManager.startTeamDiscussion();
+      specialRoundManager.addDiscussionEntry('team1', 'participant1', 'Nile?');
+
+      expect(() =>
+        specialRoundManager.submitTeamAnswer('team1', 'participant1', 'Nile', false)
+      ).toThrow('Only the team captain');
+
+      const submission = specialRoundManager.submitTeamAnswer('team1', 'participant1', ' Nile ', true);
+
+      expect(submission.answer).toBe('Nile');
+      expect(submission.discussionLog).toHaveLength(1);
+      expect(teamRound.teamSubmissions.get('team1')).toBe(submission);
+    });
+  });
+
+  describe('Final Jeopardy Management', () => {
+    let finalRound: FinalJeopardyRound;
+
+    beforeEach(async () => {
+      // Participants are teams; these are their standings going in
+      scoreManager.adjustTeamScore('participant1', 'round-1', 100);
+      scoreManager.adjustTeamScore('participant2', 'round-1', 40);
+      finalRound = createFinalJeopardyRound();
+      await specialRoundManager.startSpecialRound(finalRound);
+    });
+
+    it('should capture starting scores for every participant', () => {
+      expect(finalRound.phase).toBe(FinalJeopardyPhase.CATEGORY_REVEAL);
+      expect([...finalRound.entries.keys()]).toEqual(['participant1', 'participant2']);
+      expect(finalRound.entries.get('participant1')?.startingScore).toBe(100);
+      expect(specialRoundManager.getFinalJeopardyMaxWager('participant2')).toBe(40);
+    });
+
+    it('should limit wagers to the wager phase and current score', async () => {
+      expect(() => specialRoundManager.submitFinalWager('participant1', 50)).toThrow(
+        'Wager submission phase is not active'
+      );
+
+      await specialRoundManager.advanceFinalJeopardyPhase();
+
+      expect(() => specialRoundManager.submitFinalWager('participant2', 41)).toThrow(
+        'Wager must be a whole number between 0 and 40'
+      );
+    });
+
+    it('should hide wagers and answers from other participants until revealed', async () => {
+      const wagerListener = vi.fn();
+      specialRoundManager.addEventListener(SpecialRoundEventType.FINAL_WAGER_SUBMITTED, wagerListener);
+
+      await specialRoundManager.advanceFinalJeopardyPhase();
+      specialRoundManager.submitFinalWager('participant1', 80);
+
+      expect(wagerListener.mock.calls[0][0].data.wagerAmount).toBeUndefined();
+
+      const otherView = specialRoundManager.getFinalJeopardyView('participant2');
+      const hidden = otherView.find(e => e.participantId === 'participant1')!;
+      expect(hidden.wagerAmount).toBeUndefined();
+      expect(hidden.wagerSubmittedAt).toBeDefined();
+
+      const hostView = specialRoundManager.getFinalJeopardyView('host', true);
+      expect(hostView.find(e => e.participantId === 'participant1')!.wagerAmount).toBe(80);
+    });
+
+    it('should reveal answers in order and settle wagers', async () => {
+      await specialRoundManager.advanceFinalJeopardyPhase(); // wagers
+      specialRoundManager.submitFinalWager('participant1', 80);
+      specialRoundManager.submitFinalWager('participant2', 40);
+      await specialRoundManager.advanceFinalJeopardyPhase(); // question
+      await specialRoundManager.advanceFinalJeopardyPhase(); // answers
+      specialRoundManager.submitFinalAnswer('participant1', 'the Nile river');
+      specialRoundManager.submitFinalAnswer('participant2', 'Nile');
+      specialRoundManager.judgeFinalAnswer('participant1', false);
+      await specialRoundManager.advanceFinalJeopardyPhase(); // reveal
+
+      // Lowest score goes first
+      const first = specialRoundManager.revealNextFinalAnswer();
+      expect(first?.participantId).toBe('participant2');
+      expect(first?.finalScore).toBe(80);
+
+      const second = specialRoundManager.revealNextFinalAnswer();
+      expect(second?.participantId).toBe('participant1');
+      expect(second?.finalScore).toBe(20);
+
+      expect(specialRoundManager.revealNextFinalAnswer()).toBeNull();
+
+      // The settled wagers count toward the standings
+      expect(scoreManager.getTeamScore('participant2')?.totalScore).toBe(80);
+      expect(scoreManager.getTeamScore('participant1')?.totalScore).toBe(20);
+      expect(scoreManager.getTeamScore('participant1')?.roundScores.get('final-round-1')).toBe(-80);
+    });
+
+    it('should default missing wagers to zero', async () => {
+      await specialRoundManager.advanceFinalJeopardyPhase();
+      await specialRoundManager.advanceFinalJeopardyPhase();
+
+      expect(finalRound.entries.get('participant2')?.wagerAmount).toBe(0);
+    });
+
+    it('should settle all wagers when the round ends early', async () => {
+      await specialRoundManager.advanceFinalJeopardyPhase();
+      specialRoundManager.submitFinalWager('participant1', 100);
+
+      await specialRoundManager.endSpecialRound();
+
+      expect(finalRound.phase).toBe(FinalJeopardyPhase.RESULTS);
+      expect(finalRound.entries.get('participant1')?.finalScore).toBe(0);
+      expect(scoreManager.getTeamScore('participant1')?.totalScore).toBe(0);
+      expect(scoreManager.getTeamScore('participant2')?.totalScore).toBe(40);
+      expect(finalRound.entries.get('participant2')?.isRevealed).toBe(true);
+    });
+  });
+});
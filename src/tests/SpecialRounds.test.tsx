@@ -22,6 +22,8 @@ vi.mock('lucide-react', () => ({
   ZoomOut: () => <div data-testid="zoom-out-icon" />,
   DollarSign: () => <div data-testid="dollar-sign-icon" />,
   Lock: () => <div data-testid="lock-icon" />,
+  Unlock: () => <div data-testid="unlock-icon" />,
+  Award: () => <div data-testid="award-icon" />,
   Timer: () => <div data-testid="timer-icon" />,
   Star: () => <div data-testid="star-icon" />,
   Users: () => <div data-testid="users-icon" />,
@@ -38,7 +40,9 @@ import {
   BonusRoundDisplay,
   LightningRoundDisplay,
   AudioRoundDisplay,
+  VideoRoundDisplay,
   TeamChallengeRoundDisplay,
+  FinalJeopardyRoundDisplay,
 } from '../components/game/SpecialRounds';
 import {
   useSpecialRounds,
@@ -54,7 +58,12 @@ import {
   SpecialRoundType,
   WagerPhase,
   ImageLoadStatus,
+  VideoLoadStatus,
+  FinalJeopardyPhase,
   SpecialRoundEventType,
+  type FinalJeopardyRound,
+  type VideoQuestion,
+  type VideoRound,
 } from '../types/specialRounds';
 
 // Test utilities
@@ -167,6 +176,39 @@ const createMockLightningRound = () => ({
   participantProgress: new Map(),
 });
 
+const createMockFinalJeopardyRound = (): FinalJeopardyRound => ({
+  id: 'final-round-1',
+  number: 4,
+  type: 'wager',
+  name: 'Final Round',
+  availablePointValues: [],
+  isComplete: false,
+  specialType: SpecialRoundType.FINAL_JEOPARDY,
+  questions: [
+    {
+      id: 'final-question',
+      text: 'This river flows through Cairo',
+      type: 'text',
+      category: 'World Rivers',
+      difficulty: 'medium',
+      correctAnswer: 'Nile',
+      createdAt: '2025-06-01T00:00:00Z',
+      updatedAt: '2025-06-01T00:00:00Z',
+    },
+  ],
+  settings: {
+    category: 'World Rivers',
+    wagerTimeLimit: 30,
+    answerTimeLimit: 30,
+    allowZeroWager: true,
+    minimumMaxWager: 10,
+    revealOrder: 'lowest_first',
+  },
+  entries: new Map(),
+  phase: FinalJeopardyPhase.CATEGORY_REVEAL,
+  revealQueue: [],
+});
+
 describe('SpecialRoundManager', () => {
   let specialRoundManager: SpecialRoundManager;
   let mockRoundManager: any;
@@ -717,6 +759,127 @@ describe('Special Round Components', () => {
     });
   });
 
+  describe('VideoRoundDisplay', () => {
+    it('should render video round with subtitles', () => {
+      const currentQuestion: VideoQuestion = {
+        id: 'question-1',
+        text: 'Name this film',
+        type: 'video',
+        category: 'Film',
+        difficulty: 'medium',
+        correctAnswer: 'Jaws',
+        videoUrl: 'https://example.com/clip.mp4',
+        videoDuration: 45,
+        videoFormat: 'mp4',
+        subtitleUrl: 'https://example.com/clip.vtt',
+        createdAt: '2025-06-01T00:00:00Z',
+        updatedAt: '2025-06-01T00:00:00Z',
+      };
+
+      const videoRound: VideoRound = {
+        id: 'video-round-1',
+        number: 3,
+        type: 'video',
+        name: 'Video Round',
+        availablePointValues: [1, 3, 5],
+        isComplete: false,
+        specialType: SpecialRoundType.VIDEO,
+        settings: {
+          videoQuality: 'high',
+          allowReplay: true,
+          maxReplays: 2,
+          autoPlay: false,
+          showControls: true,
+          allowSeek: false,
+          preloadVideo: true,
+          showSubtitles: true,
+        },
+        questions: [currentQuestion],
+        videoLoadingStatus: new Map([['question-1', VideoLoadStatus.ERROR]]),
+        playbackStatus: new Map(),
+      };
+
+      const { container } = render(
+        <VideoRoundDisplay
+          videoRound={videoRound}
+          currentQuestion={currentQuestion}
+        />
+      );
+
+      expect(screen.getByText('Video Round')).toBeInTheDocument();
+      expect(screen.getByText('Plays remaining: 2')).toBeInTheDocument();
+      expect(
+        screen.getByText("The video didn't preload. It will stream when played.")
+      ).toBeInTheDocument();
+      expect(container.querySelector('track')).not.toBeNull();
+    });
+  });
+
+  describe('FinalJeopardyRoundDisplay', () => {
+    it('should show locked status without revealing wagers', () => {
+      const finalRound: FinalJeopardyRound = {
+        ...createMockFinalJeopardyRound(),
+        phase: FinalJeopardyPhase.WAGER_SUBMISSION,
+      };
+      const entries = [
+        { participantId: 'participant1', startingScore: 100, isRevealed: false },
+        {
+          participantId: 'participant2',
+          startingScore: 40,
+          wagerSubmittedAt: new Date(),
+          isRevealed: false,
+        },
+      ];
+
+      render(
+        <FinalJeopardyRoundDisplay
+          finalJeopardyRound={finalRound}
+          participantId="participant1"
+          entries={entries}
+          maxWager={100}
+          onWagerSubmit={vi.fn()}
+        />
+      );
+
+      expect(screen.getByText('World Rivers')).toBeInTheDocument();
+      expect(screen.getByText('Lock In Wager')).toBeInTheDocument();
+      expect(screen.getByText('Wager locked')).toBeInTheDocument();
+      expect(
+        screen.queryByText('This river flows through Cairo')
+      ).not.toBeInTheDocument();
+    });
+
+    it('should show revealed results', () => {
+      const finalRound: FinalJeopardyRound = {
+        ...createMockFinalJeopardyRound(),
+        phase: FinalJeopardyPhase.RESULTS,
+      };
+      const entries = [
+        {
+          participantId: 'participant2',
+          startingScore: 40,
+          wagerAmount: 40,
+          answer: 'Nile',
+          isCorrect: true,
+          isRevealed: true,
+          finalScore: 80,
+        },
+      ];
+
+      render(
+        <FinalJeopardyRoundDisplay
+          finalJeopardyRound={finalRound}
+          participantId="participant1"
+          entries={entries}
+          maxWager={100}
+        />
+      );
+
+      expect(screen.getByText('Nile')).toBeInTheDocument();
+      expect(screen.getByText('80')).toBeInTheDocument();
+    });
+  });
+
   describe('TeamChallengeRoundDisplay', () => {
     it('should render team challenge with discussion', () => {
       const teamChallengeRound = {
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+vi.mock('../services/supabase', () => ({ supabase: {} }));
+
+import { TournamentService } from '../services/tournamentService';
+import type { TournamentMatch, TournamentParticipant } from '../types/database';
+
+const makeParticipants = (count: number): TournamentParticipant[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `p${i + 1}`,
+    tournament_id: 't1',
+    team_id: `team-${i + 1}`,
+    seed: i + 1,
+    status: 'active',
+    stats: {
+      matches_played: 0,
+      matches_won: 0,
+      matches_lost: 0,
+      points_scored: 0,
+      points_conceded: 0
+    },
+    registered_at: '2025-06-01T00:00:00Z'
+  }));
+
+const makeMatch = (match: Pick<TournamentMatch, 'round' | 'status'> & Partial<TournamentMatch>): TournamentMatch => ({
+  id: `m-${match.round}-${match.team1_id}`,
+  tournament_id: 't1',
+  match_number: 1,
+  team1_score: 0,
+  team2_score: 0,
+  match_data: {},
+  created_at: '2025-06-01T00:00:00Z',
+  updated_at: '2025-06-01T00:00:00Z',
+  ...match
+});
+
+describe('Tournament formats', () => {
+  describe('Double Elimination', () => {
+    const buildPlan = (count: number, grandFinalReset = true) =>
+      TournamentService['buildDoubleEliminationPlan'](makeParticipants(count), { grandFinalReset });
+
+    it('should generate winners, losers and grand final brackets', () => {
+      const plan = buildPlan(8);
+      const count = (bracket: string) =>
+        plan.filter(m => m.match_data.bracket === bracket).length;
+
+      expect(count('winners')).toBe(7);
+      expect(count('losers')).toBe(6);
+      expect(count('grand_final')).toBe(2);
+      expect(new Set(plan.map(m => m.match_number)).size).toBe(plan.length);
+    });
+
+    it('should drop winners bracket losers into the losers bracket', () => {
+      const plan = buildPlan(8);
+      const find = (position: string) => plan.find(m => m.bracket_position === position)!;
+
+      expect(find('W1M1').match_data.loser_to).toEqual({ position: 'L1M1', slot: 'team1' });
+      expect(find('W1M2').match_data.loser_to).toEqual({ position: 'L1M1', slot: 'team2' });
+      // Second round drop-downs are placed in reverse to avoid early rematches
+      expect(find('W2M1').match_data.loser_to).toEqual({ position: 'L2M2', slot: 'team2' });
+      expect(find('W3M1').match_data.loser_to).toEqual({ position: 'L4M1', slot: 'team2' });
+      expect(find('W3M1').match_data.winner_to).toEqual({ position: 'GF', slot: 'team1' });
+      expect(find('L4M1').match_data.winner_to).toEqual({ position: 'GF', slot: 'team2' });
+    });
+
+    it('should only add a bracket reset match when enabled', () => {
+      const withReset = buildPlan(4);
+      const withoutReset = buildPlan(4, false);
+
+      expect(withReset.find(m => m.bracket_position === 'GF')?.match_data.reset_position).toBe('GF2');
+      expect(withReset.some(m => m.bracket_position === 'GF2')).toBe(true);
+      expect(withoutReset.some(m => m.bracket_position === 'GF2')).toBe(false);
+    });
+
+    it('should resolve byes and mark empty losers bracket slots', () => {
+      const plan = buildPlan(5);
+      const find = (position: string) => plan.find(m => m.bracket_position === position)!;
+
+      // Seeds 1-3 have byes; seed 1's bye advances them straight to round 2
+      expect(find('W1M1').status).toBe('bye');
+      expect(find('W1M1').winner_id).toBe('p1');
+      expect(find('W2M1').team1_id).toBe('p1');
+
+      // Both feeders of L1M1 are byes, so it never gets played
+      expect(find('L1M1').status).toBe('bye');
+      expect(find('L1M1').match_data.dead_slots).toEqual(['team1', 'team2']);
+      expect(find('L1M2').match_data.dead_slots).toEqual(['team1']);
+      expect(find('L2M1').match_data.dead_slots).toEqual(['team1']);
+    });
+  });
+
+  describe('Swiss System', () => {
+    const participants = makeParticipants(5);
+
+    const completed = (team1: string, team2: string, winner: string, round = 1) =>
+      makeMatch({ round, team1_id: team1, team2_id: team2, winner_id: winner, status: 'completed' });
+
+    const roundOne = [
+      completed('p1', 'p2', 'p1'),
+      completed('p3', 'p4', 'p3'),
+      makeMatch({ round: 1, team1_id: 'p5', winner_id: 'p5', status: 'bye' })
+    ];
+
+    it('should score results and calculate Buchholz and Sonneborn-Berger', () => {
+      const records = TournamentService['calculateSwissRecords'](participants, [
+        ...roundOne,
+        completed('p1', 'p3', 'p1', 2),
+        completed('p5', 'p2', 'p2', 2)
+      ]);
+      const byId = Object.fromEntries(records.map(r => [r.participantId, r]));
+
+      expect(records[0].participantId).toBe('p1');
+      expect(byId.p1.score).toBe(2);
+      // p1 beat p2 (1) and p3 (1)
+      expect(byId.p1.buchholz).toBe(2);
+      expect(byId.p1.sonnebornBerger).toBe(2);
+      // The bye counts toward p5's score but adds no opponent
+      expect(byId.p5.score).toBe(1);
+      expect(byId.p5.hadBye).toBe(true);
+      expect(byId.p5.buchholz).toBe(1);
+      expect(byId.p5.sonnebornBerger).toBe(0);
+    });
+
+    it('should pair close records without rematches', () => {
+      const records = TournamentService['calculateSwissRecords'](participants, roundOne);
+      const { pairings, bye } = TournamentService['pairSwissRound'](records);
+
+      expect(pairings).toHaveLength(2);
+      // p1 and p3 are the remaining 1-0 teams and have not met
+      expect(pairings[0]).toEqual(['p1', 'p3']);
+      for (const [a, b] of pairings) {
+        expect(records.find(r => r.participantId === a)?.opponents.has(b)).toBe(false);
+      }
+      expect(bye).not.toBe('p5');
+    });
+
+    it('should give the bye to the lowest-ranked team without one', () => {
+      const records = TournamentService['calculateSwissRecords'](participants, roundOne);
+      const { bye } = TournamentService['pairSwissRound'](records);
+
+      expect(bye).toBe('p4');
+    });
+
+    it('should allow a rematch only when no other pairing exists', () => {
+      const records = TournamentService['calculateSwissRecords'](participants.slice(0, 2), [
+        completed('p1', 'p2', 'p1')
+      ]);
+      const { pairings, bye } = TournamentService['pairSwissRound'](records);
+
+      expect(pairings).toEqual([['p1', 'p2']]);
+      expect(bye).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,67 @@
+// Achievement rules and unlocks. Rules are data: each criterion compares one
+// metric against a threshold, and the database awards them with the same
+// definitions (see the achievements migration).
+
+// Where a criterion's metric comes from: the game just recorded, the
+// player's lifetime statistics, or their best streak
+export type AchievementScope = 'game' | 'lifetime' | 'streak';
+
+export type AchievementComparator = 'gte' | 'lte' | 'eq';
+
+export type AchievementCategory = 'performance' | 'participation' | 'social' | 'special';
+
+export type AchievementRarity = 'common' | 'rare' | 'epic' | 'legendary';
+
+// Lucide icon the badge shows
+export type AchievementIcon =
+  | 'trophy'
+  | 'star'
+  | 'award'
+  | 'crown'
+  | 'zap'
+  | 'brain'
+  | 'users'
+  | 'medal'
+  | 'flame'
+  | 'sparkles'
+  | 'calendar'
+  | 'heart';
+
+export interface AchievementCriterion {
+  metric: string;
+  comparator: AchievementComparator;
+  threshold: number;
+  scope: AchievementScope;
+}
+
+export interface AchievementRule {
+  id: string;
+  name: string;
+  description: string;
+  icon: AchievementIcon;
+  category: AchievementCategory;
+  rarity: AchievementRarity;
+  points: number;
+  // Every criterion must hold
+  criteria: AchievementCriterion[];
+}
+
+// Metric values for each scope; a missing metric never meets a criterion
+export type AchievementFacts = Partial<Record<AchievementScope, Record<string, number>>>;
+
+export interface AchievementProgress {
+  met: boolean;
+  // 0-100, the least complete criterion
+  progress: number;
+  // The least complete criterion's metric value
+  current: number;
+  criterion: AchievementCriterion;
+}
+
+// Row from user_achievements; award_achievements returns the new ones
+export interface UnlockedAchievement {
+  achievement_id: string;
+  unlocked_at: string;
+  game_history_id: string | null;
+  xp_awarded: number;
+}
@@ -86,8 +86,8 @@ export interface HostPerformanceMetrics {
   hostId: string;
   hostName: string;
   totalGamesHosted: number;
-  averageGameRating: number;
-  playerSatisfactionScore: number;
+  averageGameRating: number | null; // null until games are rated
+  playerSatisfactionScore: number | null;
   averagePlayersPerGame: number;
   gameCompletionRate: number;
   popularCategories: Array<{
@@ -112,7 +112,7 @@ export interface AdministrativeInsights {
     uptime: number;
     errorRate: number;
     averageResponseTime: number;
-  };
+  } | null; // null: the platform is not monitored from here
   userGrowth: {
     newUsersToday: number;
     newUsersThisWeek: number;
@@ -132,12 +132,12 @@ export interface AdministrativeInsights {
       gameName: string;
       revenue: number;
     }>;
-  };
+  } | null; // null: games are free
   systemUsage: {
     peakConcurrentUsers: number;
     averageDailyActiveUsers: number;
-    serverLoad: number;
-    databaseSize: number;
+    serverLoad: number | null; // null: not monitored
+    databaseSize: number; // GB
   };
 }
 
@@ -152,7 +152,6 @@ export interface TeamPerformanceAnalytics {
   strongestCategories: string[];
   weakestCategories: string[];
   performanceTrend: 'improving' | 'declining' | 'stable';
-  teamChemistryScore: number;
 }
 
 // Category performance analytics
@@ -161,7 +160,7 @@ export interface CategoryPerformanceAnalytics {
   totalQuestions: number;
   averageCorrectRate: number;
   averageResponseTime: number;
-  popularityScore: number;
+  popularityScore: number; // % of games that asked it
   difficultyBalance: {
     easy: number;
     medium: number;
@@ -180,7 +179,7 @@ export interface RealTimeAnalytics {
   activePlayers: number;
   questionsAnsweredLastHour: number;
   averageResponseTimeLast10Min: number;
-  currentServerLoad: number;
+  currentServerLoad: number | null; // null: not monitored
   liveGameStatus: Array<{
     gameId: string;
     gameName: string;
@@ -190,6 +189,50 @@ export interface RealTimeAnalytics {
   }>;
 }
 
+// One game's stats, for its host while it runs
+export interface GameSessionStats {
+  totalQuestions: number;
+  questionsAnswered: number;
+  averageResponseTime: number;
+  totalTeams: number;
+  activePlayers: number;
+  correctAnswerRate: number;
+  averageScore: number;
+  highestScore: number;
+  lowestScore: number;
+}
+
+export interface GameTeamPerformance {
+  teamId: string;
+  teamName: string;
+  score: number;
+  correctAnswers: number;
+  incorrectAnswers: number;
+  avgResponseTime: number;
+  streakBest: number;
+  streakCurrent: number;
+  bonusPoints: number;
+  penalties: number;
+  rank: number;
+  trend: 'up' | 'down' | 'stable';
+}
+
+export interface GameQuestionResult {
+  questionId: string;
+  questionText: string;
+  category: string;
+  difficulty: string;
+  correctRate: number;
+  avgResponseTime: number;
+  totalAttempts: number;
+}
+
+export interface GameSessionAnalytics {
+  gameStats: GameSessionStats;
+  teamPerformances: GameTeamPerformance[];
+  questionAnalytics: GameQuestionResult[];
+}
+
 // Export data formats
 export interface ExportOptions {
   format: 'csv' | 'json' | 'pdf' | 'excel';
@@ -201,6 +244,13 @@ export interface ExportOptions {
   includedMetrics: string[];
 }
 
+export interface AnalyticsExportFile {
+  format: ExportOptions['format'];
+  fileName: string;
+  mimeType: string;
+  content: string | Uint8Array;
+}
+
 // Dashboard filter options
 export interface AnalyticsFilters {
   timeRange: TimeRange;
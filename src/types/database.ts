@@ -111,6 +111,13 @@ export interface ChatMessage {
   created_at: string;
   updated_at: string;
   is_deleted: boolean;
+  reply_to_id?: string | null;
+  thread_id?: string | null; // First message of the thread a reply belongs to
+  reply_count?: number;
+  mentioned_user_ids?: string[];
+  edited_at?: string | null;
+  deleted_by?: string | null;
+  deleted_at?: string | null;
   // Client-side enriched data
   user?: {
     display_name: string;
@@ -122,6 +129,54 @@ export interface ChatMessage {
   };
 }
 
+// Where the next page of older chat history starts
+export interface ChatCursor {
+  created_at: string;
+  id: string;
+}
+
+export interface ChatMessageEdit {
+  id: string;
+  message_id: string;
+  previous_message: string;
+  edited_by: string;
+  edited_at: string;
+}
+
+export interface ChatMention {
+  id: string;
+  message_id: string;
+  game_room_id: string;
+  mentioned_user_id: string;
+  mentioned_by: string;
+  created_at: string;
+  read_at: string | null;
+}
+
+export interface ChatMute {
+  id: string;
+  game_room_id: string;
+  user_id: string;
+  muted_by: string;
+  reason: string | null;
+  muted_until: string;
+  created_at: string;
+}
+
+export interface ChatMessageFlag {
+  id: string;
+  message_id: string;
+  game_room_id: string;
+  team_id: string | null;
+  flagged_by: string;
+  reason: string | null;
+  status: 'pending' | 'dismissed' | 'removed';
+  created_at: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  message?: ChatMessage;
+}
+
 // Real-time event types
 export interface GameEvent {
   type: 'game_started' | 'game_ended' | 'question_started' | 'question_ended' | 'team_joined' | 'team_left' | 'chat_message';
@@ -204,6 +259,10 @@ export interface TournamentSettings {
     teams_per_group?: number;
     teams_advancing?: number;
   };
+  // Double elimination: play a second grand final if the losers bracket champion wins the first
+  grand_final_reset?: boolean;
+  // Swiss: number of rounds to play (defaults to ceil(log2(teams)))
+  swiss_rounds?: number;
 }
 
 export interface TournamentParticipant {
@@ -255,6 +314,26 @@ export interface TournamentMatch {
   team2?: TournamentParticipant;
 }
 
+// Elimination bracket routing stored in TournamentMatch.match_data
+export type TournamentBracket = 'winners' | 'losers' | 'grand_final';
+
+export type TournamentMatchSlot = 'team1' | 'team2';
+
+export interface TournamentSlotRef {
+  position: string; // bracket_position of the target match
+  slot: TournamentMatchSlot;
+}
+
+export interface EliminationMatchData {
+  bracket: TournamentBracket;
+  bracket_round: number;
+  winner_to?: TournamentSlotRef;
+  loser_to?: TournamentSlotRef;
+  dead_slots?: TournamentMatchSlot[]; // Slots that will never be filled because of byes
+  reset_position?: string; // Grand final only: the bracket reset match
+  is_reset?: boolean;
+}
+
 export interface TournamentRound {
   id: string;
   tournament_id: string;
@@ -280,6 +359,8 @@ export interface TournamentStanding {
   points_difference: number;
   tournament_points: number;
   tiebreaker_score: number;
+  buchholz_score?: number;
+  sonneborn_berger_score?: number;
   updated_at: string;
   // Client-side enriched data
   participant?: TournamentParticipant;
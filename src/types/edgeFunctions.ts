@@ -0,0 +1,149 @@
+// Request and response contracts shared by the client and the Supabase Edge
+// Functions in supabase/functions
+
+export interface GameStateRequest {
+  action: 'start' | 'pause' | 'resume' | 'end' | 'next_round';
+  gameId: string;
+  hostId: string;
+  roundData?: {
+    roundNumber: number;
+    roundType: string;
+    timeLimit: number;
+  };
+}
+
+export interface GameStateResponse {
+  success: boolean;
+  gameState: {
+    status: string;
+    currentRound: number;
+    roundStatus: string;
+    timeRemaining: number;
+  };
+  message: string;
+}
+
+export interface ValidateAnswerRequest {
+  teamId: string;
+  questionId: string;
+  submittedAnswer: string;
+  pointsWagered: number;
+  gameId: string;
+}
+
+export interface AnswerValidationResponse {
+  isCorrect: boolean;
+  pointsAwarded: number;
+  correctAnswer?: string; // Sent once the question's round has closed
+  explanation?: string;
+  similarity?: number;
+}
+
+export interface CalculateScoresRequest {
+  gameId: string;
+  roundId?: string;
+  action: 'round_end' | 'game_end' | 'live_update';
+}
+
+export interface TeamScore {
+  teamId: string;
+  teamName: string;
+  totalScore: number;
+  roundScore?: number;
+  rank: number;
+  correctAnswers: number;
+  totalAnswers: number;
+}
+
+export interface ScoreCalculationResponse {
+  teams: TeamScore[];
+  gameStats: {
+    totalQuestions: number;
+    averageScore: number;
+    highestScore: number;
+    completedRounds: number;
+  };
+}
+
+export interface PointUsageRequest {
+  teamId: string;
+  action: 'wager' | 'refund' | 'check_balance' | 'reset';
+  pointValue: number;
+  questionId?: string;
+  gameId: string;
+  // Sent with wagers from the answer outbox; a replayed wager with the same
+  // key succeeds again instead of clashing with itself
+  idempotencyKey?: string;
+}
+
+export interface PointUsageResponse {
+  success: boolean;
+  remainingPoints: number;
+  usedPoints: number;
+  availablePoints: { [key: number]: number };
+  message?: string;
+}
+
+export interface StartRoundRequest {
+  gameId: string;
+  hostId: string;
+  roundNumber: number;
+  roundType: 'standard' | 'picture' | 'wager' | 'lightning';
+  timeLimit: number;
+  questions: {
+    text: string;
+    correctAnswer: string;
+    questionType: 'multiple_choice' | 'short_answer' | 'true_false';
+    acceptPartial?: boolean;
+    explanation?: string;
+    options?: string[];
+    category?: string;
+    difficulty?: 'easy' | 'medium' | 'hard';
+    sourceQuestionId?: string; // The question set question this was taken from
+  }[];
+}
+
+export interface StartRoundResponse {
+  success: boolean;
+  roundId: string;
+  questionIds: string[];
+  gameState: {
+    currentRound: number;
+    roundStatus: string;
+    timeLimit: number;
+    questionsCount: number;
+  };
+  message: string;
+}
+
+export type RateLimitAction = 'answer_submission' | 'chat_message' | 'team_creation' | 'game_room_creation';
+
+// Body of a 429; the Retry-After header carries the same wait
+export interface RateLimitErrorResponse {
+  error: string;
+  code: 'rate_limited';
+  action: RateLimitAction;
+  retryAfterSeconds: number;
+}
+
+export type SkillRatingEntity = 'player' | 'team';
+
+// One player's or team's Glicko-2 rating after a game or match
+export interface SkillRatingChange {
+  entityType: SkillRatingEntity;
+  entityId: string;
+  ratingBefore: number;
+  rating: number;
+  deviation: number;
+  league: 'Bronze' | 'Silver' | 'Gold' | 'Platinum' | 'Diamond' | 'Master';
+}
+
+export interface RateMatchRequest {
+  matchId: string;
+}
+
+export interface RateMatchResponse {
+  // False when the match was already rated or is rated through its game
+  rated: boolean;
+  changes: SkillRatingChange[];
+}
@@ -33,6 +33,12 @@ export type PointValue = 1 | 2 | 3 | 4 | 5 | 6;
 
 export type GameDifficulty = 'easy' | 'medium' | 'hard' | 'expert';
 
+// How forgiving answer matching is for a question
+export type AnswerStrictness = 'exact' | 'strict' | 'standard' | 'lenient';
+
+// What a question's answer refers to; people accept last names, titles need precision
+export type AnswerKind = 'general' | 'person' | 'title' | 'term' | 'number';
+
 export interface Question {
   id: string;
   text: string;
@@ -41,6 +47,8 @@ export interface Question {
   difficulty: GameDifficulty;
   correctAnswer: string;
   alternativeAnswers?: string[];
+  answerStrictness?: AnswerStrictness;
+  answerKind?: AnswerKind;
   mediaUrl?: string;
   mediaType?: 'image' | 'audio' | 'video';
   altText?: string; // Alternative text for images (accessibility)
@@ -120,6 +128,7 @@ export interface GameSettings {
   autoAdvance: boolean;
   showCorrectAnswers: boolean;
   allowAnswerChanges: boolean;
+  answerGracePeriod?: number; // seconds answers may arrive after the question timer runs out
   enableHints: boolean;
   difficulty: GameDifficulty;
 }
@@ -158,6 +167,7 @@ export interface GameTimer {
   startedAt?: string;
   pausedAt?: string;
   endedAt?: string;
+  syncedAt?: string; // when `remaining` was last measured
 }
 
 export interface GameEvent {
@@ -165,12 +175,14 @@ export interface GameEvent {
   type: 'game-started' | 'round-started' | 'question-presented' | 'answer-submitted' | 
         'question-ended' | 'round-ended' | 'game-ended' | 'player-joined' | 
         'player-left' | 'team-formed' | 'score-updated' | 'timer-warning' | 
-        'timer-expired' | 'game-paused' | 'game-resumed';
+        'timer-expired' | 'game-paused' | 'game-resumed' | 'host-changed' |
+        'action-undone';
   gameId: string;
   playerId?: string;
   teamId?: string;
   questionId?: string;
   roundNumber?: number;
+  actorId?: string; // host or co-host whose action caused the event
   data?: Record<string, any>;
   timestamp: string;
 }
@@ -233,16 +245,48 @@ export interface GameStateUpdate {
 export interface GameAction {
   type: 'start-game' | 'pause-game' | 'resume-game' | 'end-game' | 
         'start-round' | 'end-round' | 'present-question' | 'submit-answer' | 
-        'lock-answers' | 'reveal-answers' | 'advance-question' | 'skip-question' |
+        'lock-answers' | 'reveal-answers' | 'judge-answer' | 'advance-question' | 'skip-question' |
         'update-timer' | 'add-player' | 'remove-player' | 'form-team' | 
-        'update-settings';
+        'update-settings' | 'transfer-host' | 'undo-action';
   gameId: string;
   playerId?: string;
   teamId?: string;
+  actorId?: string; // host or co-host who took the action
   payload?: Record<string, any>;
   timestamp: string;
 }
 
+// One accepted action in a game's ordered, append-only log
+export interface GameLogEntry {
+  gameId: string;
+  sequence: number; // 1-based, gapless
+  action: GameAction;
+  recordedAt: string;
+}
+
+// Everything needed to rebuild a game: the state it started from and every action since
+export interface GameLog {
+  gameId: string;
+  initialState: GameState;
+  entries: GameLogEntry[];
+}
+
+// Snapshot of a live game taken after each phase transition, so a host
+// whose browser dies can pick up exactly where they left off
+export interface GameCheckpoint {
+  gameId: string;
+  hostId: string;
+  sequence: number; // last game log entry included in the snapshot
+  phase: GamePhase;
+  controllerPhase?: string; // GameController progression phase, when one is running
+  roundNumber: number;
+  questionId?: string;
+  timerRemaining?: number; // seconds left on the question timer
+  isPaused: boolean;
+  state: GameState;
+  checkpointedAt: string;
+}
+
 // Utility types for state management
 export type GameStateSlice<T extends keyof GameState> = Pick<GameState, T>;
 export type GameStatePartial = Partial<GameState>;
@@ -1,5 +1,7 @@
 import type { GameState } from './game';
 import type { SpecialRoundType } from './specialRounds';
+import type { SubmissionState } from '../services/answerSubmissionManager';
+import type { ScoreManager } from '../services/scoreManager';
 
 // Game Progression Types
 export const GameProgressionPhase = {
@@ -237,6 +239,19 @@ export interface GameControllerState {
   eventLog: GameControllerEvent[];
 }
 
+// Where the game stood, kept so a host action can be taken back
+export interface GameFlowSnapshot {
+  progression: GameProgressionState;
+  questionProgression: QuestionProgressionState;
+  roundProgression: RoundProgressionState;
+  gameState: Partial<GameState>; // the fields an undo may put back
+  submissions: SubmissionState;
+  scores: ReturnType<ScoreManager['exportState']>;
+  timer: { remaining: number; duration: number; isPaused: boolean } | null; // null when not running
+  sequence: number; // game log length
+  takenAt: string;
+}
+
 // Phase Handler Types
 export interface PhaseHandler {
   phase: GameProgressionPhase;
@@ -5,6 +5,8 @@ export interface GuestUser {
   isGuest: true;
   createdAt: string;
   sessionId: string;
+  authUserId?: string; // Anonymous account the guest's games are saved under
+  conversionToken?: string; // Lets an account claim those games later
   gameData?: {
     gamesPlayed: number;
     totalScore: number;
@@ -16,4 +18,18 @@ export interface GuestSession {
   user: GuestUser;
   expiresAt: string;
   isActive: boolean;
-} 
\ No newline at end of file
+} 
+
+export type GuestConversionData = NonNullable<GuestUser['gameData']> & {
+  conversionToken?: string;
+};
+
+// What complete_guest_conversion moved onto the account
+export interface GuestConversionSummary {
+  guest_id: string;
+  user_id: string;
+  moved: Record<string, number>; // Rows per table
+  games_merged: number;
+  achievements_awarded: string[];
+  already_converted: boolean;
+}
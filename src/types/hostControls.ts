@@ -148,6 +148,154 @@ export interface HostRole {
   canDelegate: boolean;
 }
 
+// The account running a game holds every permission and can hand hosting off
+export const PRIMARY_HOST_ROLE: HostRole = {
+  id: 'host',
+  name: 'Host',
+  permissions: [
+    'control-game-flow',
+    'manage-answers',
+    'override-scores',
+    'manage-teams',
+    'view-analytics',
+    'configure-settings',
+    'broadcast-messages',
+  ],
+  canDelegate: true,
+};
+
+// Another account helping to run a game
+export interface GameCoHost {
+  gameId: string;
+  userId: string;
+  displayName?: string;
+  role: HostRole;
+  addedBy: string;
+  addedAt: string;
+}
+
+// Record of hosting moving from one account to another
+export interface HostTransfer {
+  id: string;
+  gameId: string;
+  fromUserId: string;
+  toUserId: string;
+  reason?: string;
+  transferredAt: string;
+}
+
+// Roles a host can hand out when inviting co-hosts
+export const CO_HOST_ROLE_PRESETS: HostRole[] = [
+  {
+    id: 'co-host',
+    name: 'Co-host',
+    permissions: [
+      'control-game-flow',
+      'manage-answers',
+      'override-scores',
+      'manage-teams',
+      'broadcast-messages',
+    ],
+    canDelegate: false,
+  },
+  {
+    id: 'answer-grader',
+    name: 'Answer grader',
+    permissions: ['manage-answers'],
+    canDelegate: false,
+  },
+  {
+    id: 'scorekeeper',
+    name: 'Scorekeeper',
+    permissions: ['manage-answers', 'override-scores'],
+    canDelegate: false,
+  },
+  {
+    id: 'analyst',
+    name: 'Analyst',
+    permissions: ['view-analytics'],
+    canDelegate: false,
+  },
+];
+
+// Permission a host action needs
+export const HOST_ACTION_PERMISSIONS: Record<HostActionType, HostPermission> = {
+  'start-game': 'control-game-flow',
+  'pause-game': 'control-game-flow',
+  'resume-game': 'control-game-flow',
+  'end-game': 'control-game-flow',
+  'next-question': 'control-game-flow',
+  'next-round': 'control-game-flow',
+  'skip-question': 'control-game-flow',
+  'lock-answers': 'manage-answers',
+  'unlock-answers': 'manage-answers',
+  'approve-answer': 'manage-answers',
+  'reject-answer': 'manage-answers',
+  'override-score': 'override-scores',
+  'adjust-timer': 'control-game-flow',
+  'show-results': 'control-game-flow',
+};
+
+// How a host action is named in the host's action history
+export const HOST_ACTION_LABELS: Record<HostActionType, string> = {
+  'start-game': 'Start game',
+  'pause-game': 'Pause game',
+  'resume-game': 'Resume game',
+  'end-game': 'End game',
+  'next-question': 'Next question',
+  'next-round': 'Next round',
+  'skip-question': 'Skip question',
+  'lock-answers': 'Lock answers',
+  'unlock-answers': 'Unlock answers',
+  'approve-answer': 'Approve answer',
+  'reject-answer': 'Reject answer',
+  'override-score': 'Override score',
+  'adjust-timer': 'Adjust timer',
+  'show-results': 'Show results',
+};
+
+export function hasHostPermission(
+  role: HostRole | null | undefined,
+  permission: HostPermission
+): boolean {
+  return Boolean(role?.permissions.includes(permission));
+}
+
+export function canPerformHostAction(
+  role: HostRole | null | undefined,
+  action: HostActionType
+): boolean {
+  return hasHostPermission(role, HOST_ACTION_PERMISSIONS[action]);
+}
+
+// A role can only be handed out by someone who may delegate and already
+// holds every permission in it; only the primary host can create delegators
+export function canGrantRole(granter: HostRole | null | undefined, role: HostRole): boolean {
+  if (!granter?.canDelegate) return false;
+  if (role.canDelegate && granter.id !== PRIMARY_HOST_ROLE.id) return false;
+  return role.permissions.every(permission => granter.permissions.includes(permission));
+}
+
+// Only co-hosts who can already run the game flow can take over hosting
+export function canTakeOverHosting(role: HostRole): boolean {
+  return role.permissions.includes('control-game-flow');
+}
+
+export type CoHostInviteStatus = 'pending' | 'accepted' | 'declined' | 'revoked';
+
+// An offer to help run a game with a given role
+export interface CoHostInvite {
+  id: string;
+  gameId: string;
+  inviteeId: string;
+  displayName?: string;
+  role: HostRole;
+  invitedBy: string;
+  status: CoHostInviteStatus;
+  createdAt: string;
+  respondedAt?: string;
+}
+
 // Real-time Updates
 export interface HostControlsUpdate {
   type: 'state-change' | 'notification' | 'metrics-update' | 'error';
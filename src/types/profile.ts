@@ -1,3 +1,5 @@
+import { DEFAULT_RATING, leagueForRating } from '../utils/glicko2';
+
 export interface UserProfile {
   id: string;
   username: string;
@@ -48,6 +50,9 @@ export interface UserStats {
   globalRank?: number;
   leagueRank?: number;
   league: 'Bronze' | 'Silver' | 'Gold' | 'Platinum' | 'Diamond' | 'Master';
+  // Glicko-2 skill rating, absent before the first rated game
+  rating?: number;
+  ratingDeviation?: number;
 }
 
 export interface Achievement {
@@ -137,17 +142,10 @@ export const calculateLevelFromXP = (totalXP: number): { level: number; currentX
   return { level, currentXP, xpToNext };
 };
 
-export const getLeagueFromStats = (stats: UserStats): UserStats['league'] => {
-  const { gamesPlayed, winRate, averageScore } = stats;
-  
-  if (gamesPlayed < 10) return 'Bronze';
-  
-  const score = (winRate * 0.4) + (averageScore / 100 * 0.4) + (Math.min(gamesPlayed / 100, 1) * 0.2);
-  
-  if (score >= 0.9) return 'Master';
-  if (score >= 0.8) return 'Diamond';
-  if (score >= 0.7) return 'Platinum';
-  if (score >= 0.6) return 'Gold';
-  if (score >= 0.4) return 'Silver';
-  return 'Bronze';
-}; 
\ No newline at end of file
+// Leagues are bands of the skill rating; unrated players start at the
+// default rating
+export const getLeagueFromStats = (stats: UserStats): UserStats['league'] =>
+  leagueForRating({
+    rating: stats.rating ?? DEFAULT_RATING.rating,
+    deviation: stats.ratingDeviation ?? DEFAULT_RATING.deviation,
+  }); 
\ No newline at end of file
@@ -4,6 +4,15 @@ export type QuestionType = 'multiple_choice' | 'true_false' | 'short_answer' | '
 export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
 export type VisibilityLevel = 'private' | 'public' | 'shared';
 export type PermissionLevel = 'view' | 'edit' | 'duplicate';
+export type QuestionMediaType = 'image' | 'audio' | 'video';
+
+export interface QuestionMedia {
+  type: QuestionMediaType;
+  url: string;
+  alt_text?: string; // Alternative text for images (accessibility)
+  transcript?: string; // Transcript for audio/video content (accessibility)
+  captions?: string; // Captions URL for video content (accessibility)
+}
 
 export interface Tag {
   id: string;
@@ -40,6 +49,9 @@ export interface CustomQuestion {
   time_limit: number; // in seconds
   difficulty: QuestionDifficulty;
   category?: string;
+  alternative_answers?: string[]; // Other answers accepted when matching
+  tags?: string[]; // Tag names for this question only
+  media?: QuestionMedia | null;
   order_index: number;
   created_at: string;
   updated_at: string;
@@ -104,6 +116,9 @@ export interface CreateCustomQuestionData {
   time_limit?: number;
   difficulty?: QuestionDifficulty;
   category?: string;
+  alternative_answers?: string[];
+  tags?: string[];
+  media?: QuestionMedia | null;
   order_index?: number;
 }
 
@@ -177,12 +192,16 @@ export interface ExportQuestion {
   time_limit: number;
   difficulty: QuestionDifficulty;
   category?: string;
+  alternative_answers?: string[];
+  tags?: string[];
+  media?: QuestionMedia | null;
 }
 
 export interface ImportValidationError {
   field: string;
   message: string;
   question_index?: number;
+  row?: number; // Row, line or item in the source file
 }
 
 export interface ImportValidationResult {
@@ -192,6 +211,74 @@ export interface ImportValidationResult {
   questions_count: number;
 }
 
+export type QuestionSetFileFormat =
+  | 'json'
+  | 'csv'
+  | 'tsv'
+  | 'opentdb'
+  | 'gift'
+  | 'spreadsheet';
+
+export type ImportColumnField =
+  | 'text'
+  | 'type'
+  | 'options'
+  | 'correct_answer'
+  | 'explanation'
+  | 'points'
+  | 'time_limit'
+  | 'difficulty'
+  | 'category'
+  | 'alternative_answers'
+  | 'tags'
+  | 'media_url'
+  | 'media_type';
+
+// Field for each source column, by column index; null columns are ignored
+export type ImportColumnMapping = (ImportColumnField | null)[];
+
+export interface ImportParseOptions {
+  columnMapping?: ImportColumnMapping;
+  title?: string;
+  random?: () => number; // Used to place Open Trivia DB answers among the options
+}
+
+export type SchemaChangeResolution = 'defaulted' | 'dropped' | 'converted';
+
+export interface SchemaChange {
+  from_version: string;
+  to_version: string;
+  field: string;
+  resolution: SchemaChangeResolution;
+  message: string;
+  question_index?: number;
+}
+
+export interface SchemaMigrationReport {
+  source_version: string;
+  target_version: string;
+  steps: string[]; // e.g. ['1.0 -> 2.0']
+  changes: SchemaChange[];
+}
+
+export interface ImportPreview {
+  format: QuestionSetFileFormat;
+  data: QuestionSetExportData;
+  validation: ImportValidationResult;
+  rows: number[]; // Source row of each question
+  headers?: string[];
+  columnMapping?: ImportColumnMapping;
+  migration?: SchemaMigrationReport;
+}
+
+export interface QuestionSetExportFile {
+  format: QuestionSetFileFormat;
+  fileName: string;
+  mimeType: string;
+  content: string | Uint8Array;
+  warnings: ImportValidationError[];
+}
+
 // API Response types
 export interface QuestionSetApiResponse {
   success: boolean;
@@ -274,6 +361,25 @@ export interface GameQuestionSetConfig {
   max_questions?: number;
 }
 
+export type QuestionItemFlag = 'too_easy' | 'too_hard' | 'ambiguous';
+
+// How one question has played across every game it was used in
+export interface QuestionItemStats {
+  question_id: string;
+  games_used: number;
+  attempts: number;
+  percent_correct: number;
+  discrimination: number | null; // Point-biserial against final standing, -1 to 1
+  average_confidence: number | null; // Points teams backed their answer with
+  average_response_seconds: number | null;
+  option_shares: Array<{
+    option: string; // 'Other' for answers matching no option
+    share: number; // Percent of teams
+    is_correct: boolean;
+  }>;
+  flags: QuestionItemFlag[];
+}
+
 export interface QuestionSetStats {
   total_games_played: number;
   average_score: number;
@@ -283,6 +389,7 @@ export interface QuestionSetStats {
     total_questions: number;
     average_score: number;
   }>;
+  item_stats: Record<string, QuestionItemStats>;
 }
 
 // Utility types
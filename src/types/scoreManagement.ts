@@ -58,6 +58,26 @@ export interface ScoreHistoryEntry {
   relatedAdjustmentId?: string;
 }
 
+export type ScoreLedgerEntryType = ScoreHistoryEntry['type'];
+
+// One row of the append-only score ledger. Entries are never edited; a
+// revert is a new entry that cancels the one it points at.
+export interface ScoreLedgerEntry {
+  id: string;
+  sequence: number;
+  gameId: string;
+  entityId: string;
+  entityType: 'team' | 'player';
+  roundId?: string;
+  questionId?: string;
+  type: ScoreLedgerEntryType;
+  points: number;
+  reason: string;
+  performedBy: string | null; // null when scored automatically
+  revertsEntryId?: string;
+  createdAt: Date;
+}
+
 export interface ScoreManagementFilters {
   entityType?: 'team' | 'player' | 'all';
   entityId?: string;
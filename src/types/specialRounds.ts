@@ -290,6 +290,7 @@ export interface TeamChallengeRound extends Round {
   specialType: typeof SpecialRoundType.TEAM_CHALLENGE;
   settings: TeamChallengeSettings;
   teamSubmissions: Map<string, TeamSubmission>;
+  discussionLogs: Map<string, DiscussionEntry[]>;
   discussionPhase: boolean;
   discussionDeadline?: Date;
 }
@@ -309,6 +310,49 @@ export interface DiscussionEntry {
   type: 'message' | 'vote' | 'suggestion';
 }
 
+// Final Jeopardy Round Types
+export interface FinalJeopardySettings {
+  category: string;
+  wagerTimeLimit: number; // seconds
+  answerTimeLimit: number; // seconds
+  allowZeroWager: boolean;
+  minimumMaxWager: number; // lets participants at or below zero still wager
+  revealOrder: 'lowest_first' | 'highest_first' | 'submission';
+}
+
+export const FinalJeopardyPhase = {
+  CATEGORY_REVEAL: 'category_reveal',
+  WAGER_SUBMISSION: 'wager_submission',
+  QUESTION_DISPLAY: 'question_display',
+  ANSWER_SUBMISSION: 'answer_submission',
+  REVEAL: 'reveal',
+  RESULTS: 'results'
+} as const;
+
+export type FinalJeopardyPhase = typeof FinalJeopardyPhase[keyof typeof FinalJeopardyPhase];
+
+export interface FinalJeopardyEntry {
+  participantId: string;
+  startingScore: number;
+  wagerAmount?: number;
+  wagerSubmittedAt?: Date;
+  answer?: string;
+  answerSubmittedAt?: Date;
+  isCorrect?: boolean;
+  isRevealed: boolean;
+  finalScore?: number;
+}
+
+export interface FinalJeopardyRound extends Round {
+  type: 'wager';
+  specialType: typeof SpecialRoundType.FINAL_JEOPARDY;
+  settings: FinalJeopardySettings;
+  entries: Map<string, FinalJeopardyEntry>;
+  phase: FinalJeopardyPhase;
+  revealQueue: string[];
+  phaseDeadline?: Date;
+}
+
 // Union types for special rounds
 export type SpecialRound = 
   | WagerRound 
@@ -317,7 +361,8 @@ export type SpecialRound =
   | LightningRound 
   | AudioRound 
   | VideoRound 
-  | TeamChallengeRound;
+  | TeamChallengeRound
+  | FinalJeopardyRound;
 
 export type SpecialQuestion = 
   | PictureQuestion 
@@ -345,8 +390,15 @@ export const SpecialRoundEventType = {
   IMAGE_ERROR: 'image_error',
   AUDIO_LOADED: 'audio_loaded',
   AUDIO_PLAYED: 'audio_played',
+  AUDIO_ERROR: 'audio_error',
+  AUDIO_PAUSED: 'audio_paused',
   VIDEO_LOADED: 'video_loaded',
   VIDEO_PLAYED: 'video_played',
+  VIDEO_ERROR: 'video_error',
+  VIDEO_PAUSED: 'video_paused',
+  FINAL_WAGER_SUBMITTED: 'final_wager_submitted',
+  FINAL_ANSWER_SUBMITTED: 'final_answer_submitted',
+  FINAL_ANSWER_REVEALED: 'final_answer_revealed',
   BONUS_ACHIEVED: 'bonus_achieved',
   PARTICIPANT_ELIMINATED: 'participant_eliminated',
   STREAK_BONUS: 'streak_bonus',
@@ -354,6 +406,8 @@ export const SpecialRoundEventType = {
   PERFECT_ROUND_BONUS: 'perfect_round_bonus',
   TEAM_DISCUSSION_STARTED: 'team_discussion_started',
   TEAM_DISCUSSION_ENDED: 'team_discussion_ended',
+  TEAM_DISCUSSION_MESSAGE: 'team_discussion_message',
+  TEAM_ANSWER_SUBMITTED: 'team_answer_submitted',
   LIGHTNING_COMPLETED: 'lightning_completed'
 } as const;
 
@@ -365,7 +419,7 @@ export interface SpecialRoundConfig {
   enabled: boolean;
   settings: WagerRoundSettings | PictureRoundSettings | BonusRoundSettings | 
            LightningRoundSettings | AudioRoundSettings | VideoRoundSettings | 
-           TeamChallengeSettings;
+           TeamChallengeSettings | FinalJeopardySettings;
   customRules?: SpecialRoundRule[];
 }
 
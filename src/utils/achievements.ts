@@ -0,0 +1,324 @@
+// Achievement rules and the evaluator that checks them against a player's
+// statistics. award_achievements runs the same rules in the database, where
+// game-scoped metrics come from the recorded game.
+
+import type { UserStatistics } from '../services/statisticsService';
+import type {
+  AchievementCriterion,
+  AchievementFacts,
+  AchievementProgress,
+  AchievementRule,
+} from '../types/achievements';
+import type { SocialAchievement, UserSocialStats } from '../types/social';
+
+// Same rules the achievements migration seeds
+export const ACHIEVEMENT_RULES: AchievementRule[] = [
+  // Performance
+  {
+    id: 'first_win',
+    name: 'First Victory',
+    description: 'Win your first trivia game',
+    icon: 'trophy',
+    category: 'performance',
+    rarity: 'common',
+    points: 50,
+    criteria: [{ metric: 'wins', comparator: 'gte', threshold: 1, scope: 'lifetime' }],
+  },
+  {
+    id: 'speed_demon',
+    name: 'Speed Demon',
+    description: 'Average response time of 5 seconds or less',
+    icon: 'zap',
+    category: 'performance',
+    rarity: 'epic',
+    points: 200,
+    criteria: [{ metric: 'average_response_time', comparator: 'lte', threshold: 5, scope: 'lifetime' }],
+  },
+  {
+    id: 'trivia_master',
+    name: 'Trivia Master',
+    description: 'Maintain 90%+ accuracy over 50 games',
+    icon: 'brain',
+    category: 'performance',
+    rarity: 'legendary',
+    points: 500,
+    criteria: [
+      { metric: 'games_played', comparator: 'gte', threshold: 50, scope: 'lifetime' },
+      { metric: 'accuracy', comparator: 'gte', threshold: 90, scope: 'lifetime' },
+    ],
+  },
+  {
+    id: 'winning_streak_5',
+    name: 'Hot Streak',
+    description: 'Win 5 games in a row',
+    icon: 'flame',
+    category: 'performance',
+    rarity: 'rare',
+    points: 150,
+    criteria: [{ metric: 'win_streak', comparator: 'gte', threshold: 5, scope: 'streak' }],
+  },
+  {
+    id: 'winning_streak_10',
+    name: 'Unstoppable',
+    description: 'Win 10 games in a row',
+    icon: 'crown',
+    category: 'performance',
+    rarity: 'epic',
+    points: 300,
+    criteria: [{ metric: 'win_streak', comparator: 'gte', threshold: 10, scope: 'streak' }],
+  },
+  {
+    id: 'high_scorer',
+    name: 'High Scorer',
+    description: 'Score 1000 points in a single game',
+    icon: 'star',
+    category: 'performance',
+    rarity: 'rare',
+    points: 100,
+    criteria: [{ metric: 'highest_score', comparator: 'gte', threshold: 1000, scope: 'lifetime' }],
+  },
+
+  // Participation
+  {
+    id: 'games_10',
+    name: 'Getting Started',
+    description: 'Play 10 trivia games',
+    icon: 'medal',
+    category: 'participation',
+    rarity: 'common',
+    points: 25,
+    criteria: [{ metric: 'games_played', comparator: 'gte', threshold: 10, scope: 'lifetime' }],
+  },
+  {
+    id: 'games_50',
+    name: 'Trivia Enthusiast',
+    description: 'Play 50 trivia games',
+    icon: 'award',
+    category: 'participation',
+    rarity: 'common',
+    points: 75,
+    criteria: [{ metric: 'games_played', comparator: 'gte', threshold: 50, scope: 'lifetime' }],
+  },
+  {
+    id: 'games_100',
+    name: 'Trivia Veteran',
+    description: 'Play 100 trivia games',
+    icon: 'trophy',
+    category: 'participation',
+    rarity: 'rare',
+    points: 200,
+    criteria: [{ metric: 'games_played', comparator: 'gte', threshold: 100, scope: 'lifetime' }],
+  },
+  {
+    id: 'games_250',
+    name: 'Trivia Legend',
+    description: 'Play 250 trivia games',
+    icon: 'crown',
+    category: 'participation',
+    rarity: 'epic',
+    points: 400,
+    criteria: [{ metric: 'games_played', comparator: 'gte', threshold: 250, scope: 'lifetime' }],
+  },
+  {
+    id: 'weekly_warrior',
+    name: 'Weekly Warrior',
+    description: 'Play 7 games in one week',
+    icon: 'calendar',
+    category: 'participation',
+    rarity: 'rare',
+    points: 150,
+    criteria: [{ metric: 'games_this_week', comparator: 'gte', threshold: 7, scope: 'lifetime' }],
+  },
+
+  // Social
+  {
+    id: 'team_captain',
+    name: 'Team Captain',
+    description: 'Captain a team',
+    icon: 'users',
+    category: 'social',
+    rarity: 'common',
+    points: 100,
+    criteria: [{ metric: 'teams_captained', comparator: 'gte', threshold: 1, scope: 'lifetime' }],
+  },
+  {
+    id: 'team_leader',
+    name: 'Team Leader',
+    description: 'Captain 10 different teams',
+    icon: 'crown',
+    category: 'social',
+    rarity: 'rare',
+    points: 200,
+    criteria: [{ metric: 'teams_captained', comparator: 'gte', threshold: 10, scope: 'lifetime' }],
+  },
+
+  // Special
+  {
+    id: 'league_master',
+    name: 'League Master',
+    description: 'Reach Master League',
+    icon: 'crown',
+    category: 'special',
+    rarity: 'legendary',
+    points: 1000,
+    criteria: [{ metric: 'league_tier', comparator: 'gte', threshold: 5, scope: 'lifetime' }],
+  },
+  {
+    id: 'lightning_fast',
+    name: 'Lightning Fast',
+    description: 'Answer a question in 2 seconds or less',
+    icon: 'zap',
+    category: 'special',
+    rarity: 'rare',
+    points: 150,
+    criteria: [{ metric: 'fastest_response_time', comparator: 'lte', threshold: 2, scope: 'lifetime' }],
+  },
+  {
+    id: 'perfectionist',
+    name: 'Perfectionist',
+    description: 'Complete a game with 100% accuracy',
+    icon: 'sparkles',
+    category: 'special',
+    rarity: 'epic',
+    points: 200,
+    criteria: [{ metric: 'accuracy', comparator: 'eq', threshold: 100, scope: 'game' }],
+  },
+];
+
+// league_tier is the league's position here, Bronze = 0
+export const LEAGUE_TIERS: UserStatistics['current_league'][] = [
+  'Bronze',
+  'Silver',
+  'Gold',
+  'Platinum',
+  'Diamond',
+  'Master',
+];
+
+// Drops metrics the statistics don't have yet, e.g. response times before
+// the first answer
+function present(values: Record<string, number | null | undefined>): Record<string, number> {
+  const facts: Record<string, number> = {};
+  for (const [metric, value] of Object.entries(values)) {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      facts[metric] = value;
+    }
+  }
+  return facts;
+}
+
+// Lifetime and streak metrics from a player's statistics
+export function statisticsFacts(stats: UserStatistics): AchievementFacts {
+  return {
+    lifetime: present({
+      games_played: stats.total_games_played,
+      wins: stats.total_wins,
+      podium_finishes: stats.total_podium_finishes,
+      highest_score: stats.highest_score,
+      accuracy: stats.overall_accuracy,
+      average_response_time: stats.average_response_time,
+      fastest_response_time: stats.fastest_ever_response,
+      teams_captained: stats.teams_captained,
+      games_this_week: stats.games_this_week,
+      league_tier: LEAGUE_TIERS.indexOf(stats.current_league),
+    }),
+    streak: present({
+      win_streak: Math.max(stats.longest_win_streak, stats.current_win_streak),
+      podium_streak: Math.max(stats.longest_podium_streak, stats.current_podium_streak),
+    }),
+  };
+}
+
+// Lifetime metrics from a player's social stats, named like the
+// requirement types of social_achievements
+export function socialFacts(stats: UserSocialStats): AchievementFacts {
+  return {
+    lifetime: present({
+      friends_count: stats.friends_count,
+      followers_count: stats.followers_count,
+      reactions_given: stats.total_reactions_given,
+      reactions_received: stats.total_reactions_received,
+      social_score: stats.social_score,
+    }),
+  };
+}
+
+// A social_achievements row as a rule
+export function socialAchievementRule(achievement: SocialAchievement): AchievementRule {
+  return {
+    id: achievement.achievement_id,
+    name: achievement.achievement_id,
+    description: '',
+    icon: 'heart',
+    category: 'social',
+    rarity: achievement.rarity,
+    points: achievement.points,
+    criteria: [
+      {
+        metric: achievement.requirement_type,
+        comparator: 'gte',
+        threshold: achievement.requirement_value,
+        scope: 'lifetime',
+      },
+    ],
+  };
+}
+
+function criterionProgress(criterion: AchievementCriterion, facts: AchievementFacts) {
+  const value = facts[criterion.scope]?.[criterion.metric];
+  if (value === undefined) {
+    return { met: false, progress: 0, current: 0 };
+  }
+
+  const { comparator, threshold } = criterion;
+  let met: boolean;
+  let progress: number;
+  switch (comparator) {
+    case 'gte':
+      met = value >= threshold;
+      progress = threshold > 0 ? (value / threshold) * 100 : 0;
+      break;
+    case 'lte':
+      met = value <= threshold;
+      progress = value > 0 ? (threshold / value) * 100 : 0;
+      break;
+    case 'eq':
+      met = value === threshold;
+      progress = threshold > 0 && value < threshold ? (value / threshold) * 100 : 0;
+      break;
+  }
+
+  return { met, progress: met ? 100 : Math.max(0, Math.min(progress, 99)), current: value };
+}
+
+/**
+ * Whether every criterion of the rule holds, with progress taken from the
+ * least complete one
+ */
+export function evaluateAchievement(rule: AchievementRule, facts: AchievementFacts): AchievementProgress {
+  let least: AchievementProgress | null = null;
+  let met = true;
+
+  for (const criterion of rule.criteria) {
+    const result = criterionProgress(criterion, facts);
+    met = met && result.met;
+    if (!least || result.progress < least.progress) {
+      least = { ...result, criterion };
+    }
+  }
+
+  if (!least) {
+    throw new Error(`Achievement ${rule.id} has no criteria`);
+  }
+  return { ...least, met };
+}
+
+// Rules that now hold and aren't unlocked yet
+export function findNewAchievements(
+  rules: AchievementRule[],
+  facts: AchievementFacts,
+  unlockedIds: Iterable<string>
+): AchievementRule[] {
+  const unlocked = new Set(unlockedIds);
+  return rules.filter(rule => !unlocked.has(rule.id) && evaluateAchievement(rule, facts).met);
+}
@@ -0,0 +1,358 @@
+// Analytics reports as CSV, Excel workbooks, PDFs and JSON
+
+import { format as formatDate } from 'date-fns';
+import type { AnalyticsDashboardData, AnalyticsExportFile, ExportOptions } from '../types/analytics';
+import { toDelimited } from './questionSetFormats';
+import { writeXlsx, type SpreadsheetCell } from './xlsx';
+import { writePdf, type PdfBlock, type PdfImage } from './pdf';
+
+export const REPORT_METRICS = [
+  'Game Performance',
+  'Player Engagement',
+  'Question Analytics',
+  'Host Performance',
+  'Revenue Metrics',
+  'System Usage',
+  'User Growth',
+  'Category Performance',
+  'Team Analytics',
+] as const;
+
+export type ReportMetric = (typeof REPORT_METRICS)[number];
+
+export interface ReportTable {
+  title: string;
+  rows: SpreadsheetCell[][]; // First row is the header
+}
+
+export interface ReportSection {
+  metric: ReportMetric;
+  tables: ReportTable[];
+}
+
+/**
+ * A chart captured as a JPEG, shown in the PDF under its section
+ */
+export interface ReportChart extends PdfImage {
+  metric: ReportMetric;
+  title: string;
+}
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const REPORT_TITLE = 'Tony Trivia Analytics Report';
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const summary = (title: string, rows: [string, SpreadsheetCell][]): ReportTable => ({
+  title,
+  rows: [['Metric', 'Value'], ...rows],
+});
+
+// A builder returns null when nothing tracks its figures
+const SECTION_BUILDERS: Record<ReportMetric, (data: AnalyticsDashboardData) => ReportTable[] | null> = {
+  'Game Performance': ({ gamePerformance: games }) => [
+    summary('Summary', [
+      ['Total games', games.totalGames],
+      ['Average players per game', round(games.averagePlayersPerGame)],
+      ['Average game length (minutes)', round(games.averageGameDuration)],
+      ['Completion rate (%)', round(games.completionRate)],
+      ['Abandonment rate (%)', round(games.abandonmentRate)],
+      ['Busiest day', games.peakPlayersTime.dayOfWeek],
+      ['Busiest hour', `${games.peakPlayersTime.hour}:00`],
+    ]),
+    {
+      title: 'Games by hour',
+      rows: [['Hour', 'Games'], ...games.gamesByTimeOfDay.map(({ hour, count }) => [`${hour}:00`, count])],
+    },
+    {
+      title: 'Games by day',
+      rows: [['Day', 'Games'], ...games.gamesByDayOfWeek.map(({ day, count }) => [day, count])],
+    },
+  ],
+  'Player Engagement': ({ playerEngagement: players }) => [
+    summary('Summary', [
+      ['Unique players', players.totalUniquePlayers],
+      ['Returning players (%)', round(players.returningPlayersRate)],
+      ['Games per player', round(players.averageGamesPerPlayer)],
+      ['Back after 1 day (%)', round(players.playerRetention.day1)],
+      ['Back after 7 days (%)', round(players.playerRetention.day7)],
+      ['Back after 30 days (%)', round(players.playerRetention.day30)],
+    ]),
+    {
+      title: 'Engagement by category',
+      rows: [
+        ['Category', 'Engagement (%)', 'Average points'],
+        ...players.engagementByCategory.map(category => [
+          category.category,
+          round(category.engagementRate),
+          round(category.averageScore),
+        ]),
+      ],
+    },
+    {
+      title: 'Activity by day and hour',
+      rows: [
+        ['Day', 'Hour', 'Activity (% of busiest)'],
+        ...players.playerActivityHeatmap
+          .filter(cell => cell.intensity > 0)
+          .map(cell => [DAY_NAMES[cell.dayOfWeek], `${cell.hour}:00`, round(cell.intensity)]),
+      ],
+    },
+  ],
+  'Question Analytics': ({ questionAnalytics: questions }) => {
+    const questionRows = (items: typeof questions.easiestQuestions): SpreadsheetCell[][] => [
+      ['Question', 'Category', 'Correct (%)', 'Average response (s)'],
+      ...items.map(item => [item.questionText, item.category, round(item.correctRate), round(item.averageResponseTime)]),
+    ];
+    return [
+      {
+        title: 'By difficulty',
+        rows: [
+          ['Difficulty', 'Questions', 'Average response (s)'],
+          ...(['easy', 'medium', 'hard'] as const).map(level => [
+            level,
+            questions.difficultyDistribution[level],
+            round(questions.averageResponseTimeByDifficulty[level]),
+          ]),
+        ],
+      },
+      {
+        title: 'By category',
+        rows: [
+          ['Category', 'Questions', 'Correct (%)'],
+          ...questions.questionsByCategory.map(category => [
+            category.category,
+            category.count,
+            round(category.averageCorrectRate),
+          ]),
+        ],
+      },
+      { title: 'Hardest questions', rows: questionRows(questions.mostDifficultQuestions) },
+      { title: 'Easiest questions', rows: questionRows(questions.easiestQuestions) },
+    ];
+  },
+  'Host Performance': ({ hostPerformance: hosts }) => [
+    {
+      title: 'Hosts',
+      rows: [
+        ['Host', 'Games hosted', 'Completed (%)', 'Average players', 'Average length (minutes)', 'Average rounds', 'Rating'],
+        ...hosts.map(host => [
+          host.hostName,
+          host.totalGamesHosted,
+          round(host.gameCompletionRate),
+          round(host.averagePlayersPerGame),
+          round(host.hostingPatterns.averageGameLength),
+          round(host.hostingPatterns.averageRoundsPerGame),
+          host.averageGameRating === null ? 'Not rated' : round(host.averageGameRating),
+        ]),
+      ],
+    },
+  ],
+  'Revenue Metrics': ({ administrativeInsights: { revenue } }) => revenue && [
+    summary('Summary', [
+      ['Total revenue', round(revenue.totalRevenue)],
+      ['Revenue per user', round(revenue.averageRevenuePerUser)],
+    ]),
+    {
+      title: 'Revenue by day',
+      rows: [['Date', 'Revenue'], ...revenue.revenueByPeriod.map(({ date, amount }) => [date, round(amount)])],
+    },
+    {
+      title: 'Top games',
+      rows: [['Game', 'Revenue'], ...revenue.topRevenueGames.map(game => [game.gameName, round(game.revenue)])],
+    },
+  ],
+  'System Usage': ({ administrativeInsights: { platformHealth, systemUsage } }) => [
+    summary('Summary', [
+      ...(platformHealth
+        ? [
+          ['Status', platformHealth.status],
+          ['Uptime (%)', platformHealth.uptime],
+          ['Error rate (%)', platformHealth.errorRate],
+          ['Average response (ms)', platformHealth.averageResponseTime],
+        ] satisfies [string, SpreadsheetCell][]
+        : []),
+      ['Peak concurrent users', systemUsage.peakConcurrentUsers],
+      ['Daily active users', systemUsage.averageDailyActiveUsers],
+      ...(systemUsage.serverLoad === null
+        ? []
+        : [['Server load (%)', systemUsage.serverLoad]] satisfies [string, SpreadsheetCell][]),
+      ['Database size (GB)', systemUsage.databaseSize],
+    ]),
+  ],
+  'User Growth': ({ administrativeInsights: { userGrowth } }) => [
+    summary('Summary', [
+      ['New users today', userGrowth.newUsersToday],
+      ['New users this week', userGrowth.newUsersThisWeek],
+      ['New users this month', userGrowth.newUsersThisMonth],
+      ['Growth rate (%)', userGrowth.growthRate],
+      ['Churn rate (%)', userGrowth.churnRate],
+    ]),
+  ],
+  'Category Performance': ({ categoryPerformance: categories }) => [
+    {
+      title: 'Categories',
+      rows: [
+        ['Category', 'Questions', 'Correct (%)', 'Average response (s)', 'Popularity', 'Top team'],
+        ...categories.map(category => [
+          category.category,
+          category.totalQuestions,
+          round(category.averageCorrectRate),
+          round(category.averageResponseTime),
+          category.popularityScore,
+          category.topPerformingTeams[0]?.teamName ?? '',
+        ]),
+      ],
+    },
+  ],
+  'Team Analytics': ({ teamPerformance: teams }) => [
+    {
+      title: 'Teams',
+      rows: [
+        ['Team', 'Games', 'Win rate (%)', 'Average score', 'Average response (s)', 'Strongest', 'Trend'],
+        ...teams.map(team => [
+          team.teamName,
+          team.gamesPlayed,
+          round(team.winRate),
+          round(team.averageScore),
+          round(team.averageResponseTime),
+          team.strongestCategories.join(', '),
+          team.performanceTrend,
+        ]),
+      ],
+    },
+  ],
+};
+
+/**
+ * The sections there are figures for; revenue is left out until something
+ * tracks it
+ */
+export function getReportMetrics(data: AnalyticsDashboardData): ReportMetric[] {
+  return REPORT_METRICS.filter(metric => SECTION_BUILDERS[metric](data) !== null);
+}
+
+/**
+ * The selected sections in the order the dashboard lists them
+ */
+export function buildReportSections(data: AnalyticsDashboardData, metrics: string[]): ReportSection[] {
+  const sections = REPORT_METRICS
+    .filter(metric => metrics.includes(metric))
+    .flatMap(metric => {
+      const tables = SECTION_BUILDERS[metric](data);
+      return tables ? [{ metric, tables }] : [];
+    });
+
+  if (sections.length === 0) {
+    throw new Error('Choose at least one section to export');
+  }
+  return sections;
+}
+
+function reportPeriod(options: ExportOptions): string {
+  return `${formatDate(options.dateRange.start, 'MMM d, yyyy')} - ${formatDate(options.dateRange.end, 'MMM d, yyyy')}`;
+}
+
+function reportFileName(options: ExportOptions, extension: string): string {
+  return `analytics-report-${formatDate(options.dateRange.start, 'yyyy-MM-dd')}-to-${formatDate(options.dateRange.end, 'yyyy-MM-dd')}.${extension}`;
+}
+
+// Sections one after another, each table under its own title row
+function serializeCsv(sections: ReportSection[]): string {
+  const rows: (string | number | undefined)[][] = [];
+  sections.forEach(section => {
+    section.tables.forEach(table => {
+      if (rows.length > 0) rows.push([]);
+      rows.push([`${section.metric}: ${table.title}`]);
+      rows.push(...table.rows.map(row => row.map(cell => (cell === null || cell === undefined ? undefined : String(cell)))));
+    });
+  });
+  return toDelimited(rows, ',');
+}
+
+// One sheet per section with its tables stacked
+function serializeWorkbook(sections: ReportSection[]): Uint8Array {
+  return writeXlsx(
+    sections.map(section => ({
+      name: section.metric,
+      rows: section.tables.flatMap((table, index) => [
+        ...(index > 0 ? [[]] : []),
+        [table.title],
+        ...table.rows,
+      ]),
+    }))
+  );
+}
+
+function serializePdf(sections: ReportSection[], options: ExportOptions, charts: ReportChart[]): Uint8Array {
+  const blocks = sections.flatMap<PdfBlock>(section => [
+    { type: 'heading', text: section.metric },
+    ...(options.includeCharts ? charts : [])
+      .filter(chart => chart.metric === section.metric)
+      .map<PdfBlock>(chart => ({ type: 'image', image: chart, caption: chart.title })),
+    ...section.tables.flatMap<PdfBlock>(table => [
+      { type: 'text', text: table.title },
+      { type: 'table', rows: table.rows },
+    ]),
+  ]);
+
+  return writePdf({
+    title: REPORT_TITLE,
+    subtitle: `${reportPeriod(options)} · Generated ${formatDate(new Date(), 'MMM d, yyyy h:mm a')}`,
+    blocks,
+  });
+}
+
+/**
+ * Write the selected analytics sections in the chosen format. Charts are
+ * only used by PDFs.
+ */
+export function serializeAnalyticsReport(
+  data: AnalyticsDashboardData,
+  options: ExportOptions,
+  charts: ReportChart[] = []
+): AnalyticsExportFile {
+  const sections = buildReportSections(data, options.includedMetrics);
+
+  switch (options.format) {
+    case 'csv':
+      return {
+        format: options.format,
+        fileName: reportFileName(options, 'csv'),
+        mimeType: 'text/csv',
+        content: serializeCsv(sections),
+      };
+    case 'excel':
+      return {
+        format: options.format,
+        fileName: reportFileName(options, 'xlsx'),
+        mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        content: serializeWorkbook(sections),
+      };
+    case 'pdf':
+      return {
+        format: options.format,
+        fileName: reportFileName(options, 'pdf'),
+        mimeType: 'application/pdf',
+        content: serializePdf(sections, options, charts),
+      };
+    case 'json':
+      return {
+        format: options.format,
+        fileName: reportFileName(options, 'json'),
+        mimeType: 'application/json',
+        content: JSON.stringify(
+          {
+            title: REPORT_TITLE,
+            period: { start: options.dateRange.start.toISOString(), end: options.dateRange.end.toISOString() },
+            sections,
+          },
+          null,
+          2
+        ),
+      };
+    default:
+      throw new Error(`Unsupported export format: ${options.format}`);
+  }
+}
@@ -0,0 +1,85 @@
+// @mentions in chat. Display names can contain spaces, so a mention is the
+// longest member name that follows an @ and ends at a word boundary.
+
+export interface MentionCandidate {
+  user_id: string;
+  display_name: string;
+}
+
+export interface MessageSegment {
+  text: string;
+  userId?: string; // Set when the segment is a mention
+}
+
+interface MentionMatch {
+  start: number;
+  end: number;
+  userId: string;
+}
+
+const isWordChar = (char: string | undefined) => !!char && /[\p{L}\p{N}_]/u.test(char);
+
+function findMentions(text: string, members: MentionCandidate[]): MentionMatch[] {
+  const byLength = members
+    .filter(member => member.display_name.trim())
+    .sort((a, b) => b.display_name.length - a.display_name.length);
+  const lower = text.toLowerCase();
+  const matches: MentionMatch[] = [];
+
+  for (let at = lower.indexOf('@'); at !== -1; at = lower.indexOf('@', at + 1)) {
+    // Skip email addresses and the like
+    if (isWordChar(text[at - 1])) continue;
+
+    const member = byLength.find(candidate => {
+      const name = candidate.display_name.toLowerCase();
+      return lower.startsWith(name, at + 1) && !isWordChar(text[at + 1 + name.length]);
+    });
+    if (member) {
+      const end = at + 1 + member.display_name.length;
+      matches.push({ start: at, end, userId: member.user_id });
+      at = end - 1;
+    }
+  }
+  return matches;
+}
+
+// The members a message mentions, each once
+export function extractMentions(text: string, members: MentionCandidate[]): string[] {
+  return [...new Set(findMentions(text, members).map(match => match.userId))];
+}
+
+// Splits a message into plain text and mentions for highlighting
+export function segmentMentions(text: string, members: MentionCandidate[]): MessageSegment[] {
+  const segments: MessageSegment[] = [];
+  let cursor = 0;
+  for (const match of findMentions(text, members)) {
+    if (match.start > cursor) segments.push({ text: text.slice(cursor, match.start) });
+    segments.push({ text: text.slice(match.start, match.end), userId: match.userId });
+    cursor = match.end;
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor) });
+  return segments;
+}
+
+/**
+ * The partial name being typed after an @ at the end of the input, or null
+ * when the input doesn't end in a mention. Used for suggestions.
+ */
+export function pendingMention(text: string): string | null {
+  const match = /(?:^|\s)@([^@\n]{0,40})$/.exec(text);
+  if (!match) return null;
+  // Two spaces in a row means the mention is finished
+  return /\s{2}|\s$/.test(match[1]) && match[1].trim() ? null : match[1];
+}
+
+// Members whose names start with what has been typed so far
+export function suggestMentions(query: string, members: MentionCandidate[], limit = 5): MentionCandidate[] {
+  const prefix = query.trim().toLowerCase();
+  return members.filter(member => member.display_name.toLowerCase().startsWith(prefix)).slice(0, limit);
+}
+
+// Replaces the pending mention at the end of the input with the full name
+export function completeMention(text: string, member: MentionCandidate): string {
+  const at = text.lastIndexOf('@');
+  return `${text.slice(0, at)}@${member.display_name} `;
+}
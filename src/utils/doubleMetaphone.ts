@@ -0,0 +1,590 @@
+// Double Metaphone phonetic encoding (after Lawrence Philips' original algorithm)
+
+const VOWELS = new Set(['A', 'E', 'I', 'O', 'U', 'Y']);
+
+/**
+ * Encode a word into its primary and alternate Double Metaphone keys.
+ * Words that sound alike ("Smith" / "Smyth", "Katherine" / "Catherine")
+ * produce the same keys.
+ * @param value - Word to encode (non-letters are ignored)
+ * @param maxLength - Maximum key length (default: 6)
+ * @returns Tuple of [primary, alternate] keys
+ */
+export function doubleMetaphone(value: string, maxLength: number = 6): [string, string] {
+  const word = value.toUpperCase().replace(/[^A-Z]/g, '');
+  if (!word) return ['', ''];
+
+  const length = word.length;
+  const last = length - 1;
+  const padded = word + '     ';
+  let primary = '';
+  let secondary = '';
+  let index = 0;
+
+  const charAt = (position: number) => (position < 0 ? '' : padded.charAt(position));
+  const isVowel = (position: number) => VOWELS.has(charAt(position));
+  const stringAt = (start: number, size: number, ...options: string[]) =>
+    start >= 0 && options.includes(padded.slice(start, start + size));
+  const add = (main: string, alternate: string = main) => {
+    primary += main;
+    secondary += alternate;
+  };
+
+  const isSlavoGermanic = /W|K|CZ|WITZ/.test(word);
+  const isGermanic = stringAt(0, 4, 'VAN ', 'VON ') || stringAt(0, 3, 'SCH');
+
+  // Skip silent initial letters
+  if (stringAt(0, 2, 'GN', 'KN', 'PN', 'WR', 'PS')) {
+    index++;
+  }
+
+  // Initial 'X' is pronounced 'Z' ("Xavier")
+  if (charAt(0) === 'X') {
+    add('S');
+    index++;
+  }
+
+  while (primary.length < maxLength || secondary.length < maxLength) {
+    if (index >= length) break;
+
+    const current = charAt(index);
+
+    switch (current) {
+      case 'A':
+      case 'E':
+      case 'I':
+      case 'O':
+      case 'U':
+      case 'Y':
+        if (index === 0) add('A');
+        index++;
+        break;
+
+      case 'B':
+        add('P');
+        index += charAt(index + 1) === 'B' ? 2 : 1;
+        break;
+
+      case 'C':
+        // Various Germanic "ACH" forms
+        if (
+          index > 1 &&
+          !isVowel(index - 2) &&
+          stringAt(index - 1, 3, 'ACH') &&
+          charAt(index + 2) !== 'I' &&
+          (charAt(index + 2) !== 'E' || stringAt(index - 2, 6, 'BACHER', 'MACHER'))
+        ) {
+          add('K');
+          index += 2;
+          break;
+        }
+
+        // "Caesar"
+        if (index === 0 && stringAt(index, 6, 'CAESAR')) {
+          add('S');
+          index += 2;
+          break;
+        }
+
+        // Italian "Chianti"
+        if (stringAt(index, 4, 'CHIA')) {
+          add('K');
+          index += 2;
+          break;
+        }
+
+        if (stringAt(index, 2, 'CH')) {
+          // "Michael"
+          if (index > 0 && stringAt(index, 4, 'CHAE')) {
+            add('K', 'X');
+            index += 2;
+            break;
+          }
+
+          // Greek roots: "chemistry", "chorus"
+          if (
+            index === 0 &&
+            (stringAt(index + 1, 5, 'HARAC', 'HARIS') ||
+              stringAt(index + 1, 3, 'HOR', 'HYM', 'HIA', 'HEM')) &&
+            !stringAt(0, 5, 'CHORE')
+          ) {
+            add('K');
+            index += 2;
+            break;
+          }
+
+          if (
+            isGermanic ||
+            stringAt(index - 2, 6, 'ORCHES', 'ARCHIT', 'ORCHID') ||
+            stringAt(index + 2, 1, 'T', 'S') ||
+            ((index === 0 || stringAt(index - 1, 1, 'A', 'O', 'U', 'E')) &&
+              stringAt(index + 2, 1, 'L', 'R', 'N', 'M', 'B', 'H', 'F', 'V', 'W', ' ', ''))
+          ) {
+            add('K');
+          } else if (index > 0) {
+            add(stringAt(0, 2, 'MC') ? 'K' : 'X', 'K');
+          } else {
+            add('X');
+          }
+          index += 2;
+          break;
+        }
+
+        // "Czerny"
+        if (stringAt(index, 2, 'CZ') && !stringAt(index - 2, 4, 'WICZ')) {
+          add('S', 'X');
+          index += 2;
+          break;
+        }
+
+        // "Focaccia"
+        if (stringAt(index + 1, 3, 'CIA')) {
+          add('X');
+          index += 3;
+          break;
+        }
+
+        // Double 'C', but not "McClellan"
+        if (stringAt(index, 2, 'CC') && !(index === 1 && charAt(0) === 'M')) {
+          if (stringAt(index + 2, 1, 'I', 'E', 'H') && !stringAt(index + 2, 2, 'HU')) {
+            // "Accident", "Bacchus"
+            if ((index === 1 && charAt(0) === 'A') || stringAt(index - 1, 5, 'UCCEE', 'UCCES')) {
+              add('KS');
+            } else {
+              add('X');
+            }
+            index += 3;
+            break;
+          }
+          add('K');
+          index += 2;
+          break;
+        }
+
+        if (stringAt(index, 2, 'CK', 'CG', 'CQ')) {
+          add('K');
+          index += 2;
+          break;
+        }
+
+        if (stringAt(index, 2, 'CI', 'CE', 'CY')) {
+          add('S', stringAt(index, 3, 'CIO', 'CIE', 'CIA') ? 'X' : 'S');
+          index += 2;
+          break;
+        }
+
+        add('K');
+        if (stringAt(index + 1, 2, ' C', ' Q', ' G')) {
+          index += 3;
+        } else if (stringAt(index + 1, 1, 'C', 'K', 'Q') && !stringAt(index + 1, 2, 'CE', 'CI')) {
+          index += 2;
+        } else {
+          index++;
+        }
+        break;
+
+      case 'D':
+        if (stringAt(index, 2, 'DG')) {
+          // "Edge"
+          if (stringAt(index + 2, 1, 'I', 'E', 'Y')) {
+            add('J');
+            index += 3;
+          } else {
+            // "Edgar"
+            add('TK');
+            index += 2;
+          }
+          break;
+        }
+        add('T');
+        index += stringAt(index, 2, 'DT', 'DD') ? 2 : 1;
+        break;
+
+      case 'F':
+        add('F');
+        index += charAt(index + 1) === 'F' ? 2 : 1;
+        break;
+
+      case 'G':
+        if (charAt(index + 1) === 'H') {
+          if (index > 0 && !isVowel(index - 1)) {
+            add('K');
+            index += 2;
+            break;
+          }
+
+          // "Ghislane", "Ghiradelli"
+          if (index === 0) {
+            add(charAt(index + 2) === 'I' ? 'J' : 'K');
+            index += 2;
+            break;
+          }
+
+          // Silent "GH": "Hugh", "bough", "broughton"
+          if (
+            stringAt(index - 2, 1, 'B', 'H', 'D') ||
+            stringAt(index - 3, 1, 'B', 'H', 'D') ||
+            stringAt(index - 4, 1, 'B', 'H')
+          ) {
+            index += 2;
+            break;
+          }
+
+          // "Laugh", "McLaughlin", "cough", "tough"
+          if (index > 2 && charAt(index - 1) === 'U' && stringAt(index - 3, 1, 'C', 'G', 'L', 'R', 'T')) {
+            add('F');
+          } else if (index > 0 && charAt(index - 1) !== 'I') {
+            add('K');
+          }
+          index += 2;
+          break;
+        }
+
+        if (charAt(index + 1) === 'N') {
+          if (index === 1 && isVowel(0) && !isSlavoGermanic) {
+            add('KN', 'N');
+          } else if (!stringAt(index + 2, 2, 'EY') && charAt(index + 1) !== 'Y' && !isSlavoGermanic) {
+            add('N', 'KN');
+          } else {
+            add('KN');
+          }
+          index += 2;
+          break;
+        }
+
+        // "Tagliaro"
+        if (stringAt(index + 1, 2, 'LI') && !isSlavoGermanic) {
+          add('KL', 'L');
+          index += 2;
+          break;
+        }
+
+        // "-ges-", "-gep-", "-gel-" at the start
+        if (
+          index === 0 &&
+          (charAt(index + 1) === 'Y' ||
+            stringAt(index + 1, 2, 'ES', 'EP', 'EB', 'EL', 'EY', 'IB', 'IL', 'IN', 'IE', 'EI', 'ER'))
+        ) {
+          add('K', 'J');
+          index += 2;
+          break;
+        }
+
+        // "-ger-", "-gy-"
+        if (
+          (stringAt(index + 1, 2, 'ER') || charAt(index + 1) === 'Y') &&
+          !stringAt(0, 6, 'DANGER', 'RANGER', 'MANGER') &&
+          !stringAt(index - 1, 1, 'E', 'I') &&
+          !stringAt(index - 1, 3, 'RGY', 'OGY')
+        ) {
+          add('K', 'J');
+          index += 2;
+          break;
+        }
+
+        // Italian "biaggi"
+        if (stringAt(index + 1, 1, 'E', 'I', 'Y') || stringAt(index - 1, 4, 'AGGI', 'OGGI')) {
+          if (isGermanic || stringAt(index + 1, 2, 'ET')) {
+            add('K');
+          } else if (stringAt(index + 1, 4, 'IER ')) {
+            add('J');
+          } else {
+            add('J', 'K');
+          }
+          index += 2;
+          break;
+        }
+
+        add('K');
+        index += charAt(index + 1) === 'G' ? 2 : 1;
+        break;
+
+      case 'H':
+        // Only keep 'H' between vowels or at the start before a vowel
+        if ((index === 0 || isVowel(index - 1)) && isVowel(index + 1)) {
+          add('H');
+          index += 2;
+        } else {
+          index++;
+        }
+        break;
+
+      case 'J':
+        // Spanish "Jose", "San Jacinto"
+        if (stringAt(index, 4, 'JOSE') || stringAt(0, 4, 'SAN ')) {
+          if ((index === 0 && charAt(index + 4) === ' ') || stringAt(0, 4, 'SAN ')) {
+            add('H');
+          } else {
+            add('J', 'H');
+          }
+          index++;
+          break;
+        }
+
+        if (index === 0 && !stringAt(index, 4, 'JOSE')) {
+          add('J', 'A');
+        } else if (
+          isVowel(index - 1) &&
+          !isSlavoGermanic &&
+          (charAt(index + 1) === 'A' || charAt(index + 1) === 'O')
+        ) {
+          add('J', 'H');
+        } else if (index === last) {
+          add('J', '');
+        } else if (
+          !stringAt(index + 1, 1, 'L', 'T', 'K', 'S', 'N', 'M', 'B', 'Z') &&
+          !stringAt(index - 1, 1, 'S', 'K', 'L')
+        ) {
+          add('J');
+        }
+        index += charAt(index + 1) === 'J' ? 2 : 1;
+        break;
+
+      case 'K':
+        add('K');
+        index += charAt(index + 1) === 'K' ? 2 : 1;
+        break;
+
+      case 'L':
+        if (charAt(index + 1) === 'L') {
+          // Spanish "Cabrillo", "Gallegos"
+          if (
+            (index === length - 3 && stringAt(index - 1, 4, 'ILLO', 'ILLA', 'ALLE')) ||
+            ((stringAt(last - 1, 2, 'AS', 'OS') || stringAt(last, 1, 'A', 'O')) &&
+              stringAt(index - 1, 4, 'ALLE'))
+          ) {
+            add('L', '');
+            index += 2;
+            break;
+          }
+          index += 2;
+        } else {
+          index++;
+        }
+        add('L');
+        break;
+
+      case 'M':
+        add('M');
+        // "Dumb", "thumb"
+        if (
+          charAt(index + 1) === 'M' ||
+          (stringAt(index - 1, 3, 'UMB') && (index + 1 === last || stringAt(index + 2, 2, 'ER')))
+        ) {
+          index += 2;
+        } else {
+          index++;
+        }
+        break;
+
+      case 'N':
+        add('N');
+        index += charAt(index + 1) === 'N' ? 2 : 1;
+        break;
+
+      case 'P':
+        if (charAt(index + 1) === 'H') {
+          add('F');
+          index += 2;
+          break;
+        }
+        add('P');
+        index += stringAt(index + 1, 1, 'P', 'B') ? 2 : 1;
+        break;
+
+      case 'Q':
+        add('K');
+        index += charAt(index + 1) === 'Q' ? 2 : 1;
+        break;
+
+      case 'R':
+        // French "Rogier"
+        if (
+          index === last &&
+          !isSlavoGermanic &&
+          stringAt(index - 2, 2, 'IE') &&
+          !stringAt(index - 4, 2, 'ME', 'MA')
+        ) {
+          add('', 'R');
+        } else {
+          add('R');
+        }
+        index += charAt(index + 1) === 'R' ? 2 : 1;
+        break;
+
+      case 'S':
+        // "Isle", "Carlisle"
+        if (stringAt(index - 1, 3, 'ISL', 'YSL')) {
+          index++;
+          break;
+        }
+
+        // "Sugar"
+        if (index === 0 && stringAt(index, 5, 'SUGAR')) {
+          add('X', 'S');
+          index++;
+          break;
+        }
+
+        if (stringAt(index, 2, 'SH')) {
+          // Germanic "Holstein"
+          add(stringAt(index + 1, 4, 'HEIM', 'HOEK', 'HOLM', 'HOLZ') ? 'S' : 'X');
+          index += 2;
+          break;
+        }
+
+        // Italian and Armenian "-sio", "-sia"
+        if (stringAt(index, 3, 'SIO', 'SIA') || stringAt(index, 4, 'SIAN')) {
+          add('S', isSlavoGermanic ? 'S' : 'X');
+          index += 3;
+          break;
+        }
+
+        // German and anglicised "Smith" / "Schmidt", "Snider" / "Schneider"
+        if ((index === 0 && stringAt(index + 1, 1, 'M', 'N', 'L', 'W')) || stringAt(index + 1, 1, 'Z')) {
+          add('S', 'X');
+          index += stringAt(index + 1, 1, 'Z') ? 2 : 1;
+          break;
+        }
+
+        if (stringAt(index, 2, 'SC')) {
+          if (charAt(index + 2) === 'H') {
+            // Dutch "Schooner", "Schermerhorn"
+            if (stringAt(index + 3, 2, 'OO', 'ER', 'EN', 'UY', 'ED', 'EM')) {
+              add(stringAt(index + 3, 2, 'ER', 'EN') ? 'X' : 'SK', 'SK');
+            } else if (index === 0 && !isVowel(3) && charAt(3) !== 'W') {
+              add('X', 'S');
+            } else {
+              add('X');
+            }
+            index += 3;
+            break;
+          }
+
+          add(stringAt(index + 2, 1, 'I', 'E', 'Y') ? 'S' : 'SK');
+          index += 3;
+          break;
+        }
+
+        // French "Resnais", "Artois"
+        if (index === last && stringAt(index - 2, 2, 'AI', 'OI')) {
+          add('', 'S');
+        } else {
+          add('S');
+        }
+        index += stringAt(index + 1, 1, 'S', 'Z') ? 2 : 1;
+        break;
+
+      case 'T':
+        if (stringAt(index, 4, 'TION') || stringAt(index, 3, 'TIA', 'TCH')) {
+          add('X');
+          index += 3;
+          break;
+        }
+
+        if (stringAt(index, 2, 'TH') || stringAt(index, 3, 'TTH')) {
+          // "Thomas", "Thames"
+          if (stringAt(index + 2, 2, 'OM', 'AM') || isGermanic) {
+            add('T');
+          } else {
+            add('0', 'T');
+          }
+          index += 2;
+          break;
+        }
+
+        add('T');
+        index += stringAt(index + 1, 1, 'T', 'D') ? 2 : 1;
+        break;
+
+      case 'V':
+        add('F');
+        index += charAt(index + 1) === 'V' ? 2 : 1;
+        break;
+
+      case 'W':
+        // "Wright"
+        if (stringAt(index, 2, 'WR')) {
+          add('R');
+          index += 2;
+          break;
+        }
+
+        if (index === 0 && (isVowel(index + 1) || stringAt(index, 2, 'WH'))) {
+          // "Wasserman" should match "Vasserman"
+          add('A', isVowel(index + 1) ? 'F' : 'A');
+        }
+
+        // "Arnow" should match "Arnoff"
+        if (
+          (index === last && isVowel(index - 1)) ||
+          stringAt(index - 1, 5, 'EWSKI', 'EWSKY', 'OWSKI', 'OWSKY') ||
+          stringAt(0, 3, 'SCH')
+        ) {
+          add('', 'F');
+          index++;
+          break;
+        }
+
+        // Polish "Filipowicz"
+        if (stringAt(index, 4, 'WICZ', 'WITZ')) {
+          add('TS', 'FX');
+          index += 4;
+          break;
+        }
+
+        index++;
+        break;
+
+      case 'X':
+        // French "Breaux"
+        if (!(index === last && (stringAt(index - 3, 3, 'IAU', 'EAU') || stringAt(index - 2, 2, 'AU', 'OU')))) {
+          add('KS');
+        }
+        index += stringAt(index + 1, 1, 'C', 'X') ? 2 : 1;
+        break;
+
+      case 'Z':
+        // Chinese pinyin "Zhao"
+        if (charAt(index + 1) === 'H') {
+          add('J');
+          index += 2;
+          break;
+        }
+
+        if (
+          stringAt(index + 1, 2, 'ZO', 'ZI', 'ZA') ||
+          (isSlavoGermanic && index > 0 && charAt(index - 1) !== 'T')
+        ) {
+          add('S', 'TS');
+        } else {
+          add('S');
+        }
+        index += charAt(index + 1) === 'Z' ? 2 : 1;
+        break;
+
+      default:
+        index++;
+    }
+  }
+
+  return [primary.slice(0, maxLength), secondary.slice(0, maxLength)];
+}
+
+/**
+ * Check whether two words share a Double Metaphone key
+ * @param a - First word
+ * @param b - Second word
+ * @returns True if any primary or alternate keys coincide
+ */
+export function soundsAlike(a: string, b: string): boolean {
+  const [aPrimary, aSecondary] = doubleMetaphone(a);
+  const [bPrimary, bSecondary] = doubleMetaphone(b);
+  if (!aPrimary && !bPrimary) return a === b;
+
+  return (
+    aPrimary === bPrimary ||
+    aPrimary === bSecondary ||
+    (aSecondary !== '' && (aSecondary === bPrimary || aSecondary === bSecondary))
+  );
+}
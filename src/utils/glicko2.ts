@@ -0,0 +1,165 @@
+// Glicko-2 skill ratings (Glickman, "Example of the Glicko-2 system").
+// A finished game is one rating period: every team is compared with every
+// other team, winning the pairing if it ranked higher and drawing on a tie.
+// The edge functions run these updates; the client uses them for leagues.
+
+import type { UserStats } from '../types/profile';
+
+export interface Glicko2Rating {
+  rating: number;
+  deviation: number;
+  volatility: number;
+}
+
+export interface Glicko2Result {
+  opponent: Glicko2Rating;
+  // 1 for a win, 0.5 for a draw, 0 for a loss
+  score: number;
+}
+
+export interface RankedEntry {
+  id: string;
+  rating: Glicko2Rating;
+  // 1 is first; equal ranks draw
+  rank: number;
+}
+
+export type League = UserStats['league'];
+
+export const DEFAULT_RATING: Glicko2Rating = { rating: 1500, deviation: 350, volatility: 0.06 };
+
+// Constrains how much volatility can change between periods
+export const GLICKO2_TAU = 0.5;
+
+const SCALE = 173.7178;
+const CONVERGENCE = 0.000001;
+
+// Lowest conservative rating (rating less two deviations) for each league,
+// so new and rarely seen players start low however lucky their first games
+export const LEAGUE_RATING_BANDS: { league: League; minRating: number }[] = [
+  { league: 'Master', minRating: 1900 },
+  { league: 'Diamond', minRating: 1700 },
+  { league: 'Platinum', minRating: 1500 },
+  { league: 'Gold', minRating: 1300 },
+  { league: 'Silver', minRating: 1100 },
+  { league: 'Bronze', minRating: -Infinity },
+];
+
+const g = (phi: number) => 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+
+const expected = (mu: number, opponentMu: number, opponentPhi: number) =>
+  1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)));
+
+function newVolatility(phi: number, sigma: number, delta: number, v: number, tau: number): number {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * (phi * phi + v + ex) ** 2) - (x - a) / (tau * tau);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * tau) < 0) k++;
+    B = a - k * tau;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > CONVERGENCE) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA = fA / 2;
+    }
+    B = C;
+    fB = fC;
+  }
+  return Math.exp(A / 2);
+}
+
+/**
+ * One rating period for a player. Without results only the deviation
+ * grows, as Glicko-2 prescribes for a period without games.
+ */
+export function updateRating(
+  player: Glicko2Rating,
+  results: Glicko2Result[],
+  tau: number = GLICKO2_TAU
+): Glicko2Rating {
+  const mu = (player.rating - 1500) / SCALE;
+  const phi = player.deviation / SCALE;
+
+  if (results.length === 0) {
+    const grown = Math.sqrt(phi * phi + player.volatility * player.volatility) * SCALE;
+    return { ...player, deviation: Math.min(grown, DEFAULT_RATING.deviation) };
+  }
+
+  let inverseV = 0;
+  let improvement = 0;
+  for (const { opponent, score } of results) {
+    const opponentMu = (opponent.rating - 1500) / SCALE;
+    const opponentPhi = opponent.deviation / SCALE;
+    const e = expected(mu, opponentMu, opponentPhi);
+    inverseV += g(opponentPhi) ** 2 * e * (1 - e);
+    improvement += g(opponentPhi) * (score - e);
+  }
+  const v = 1 / inverseV;
+  const delta = v * improvement;
+
+  const volatility = newVolatility(phi, player.volatility, delta, v, tau);
+  const preRatingPhi = Math.sqrt(phi * phi + volatility * volatility);
+  const newPhi = 1 / Math.sqrt(1 / (preRatingPhi * preRatingPhi) + 1 / v);
+  const newMu = mu + newPhi * newPhi * improvement;
+
+  return {
+    rating: newMu * SCALE + 1500,
+    deviation: Math.min(newPhi * SCALE, DEFAULT_RATING.deviation),
+    volatility,
+  };
+}
+
+// Pairwise results for one entry against everyone else in the ranking
+export function rankingResults(entry: RankedEntry, field: RankedEntry[]): Glicko2Result[] {
+  return field
+    .filter(other => other.id !== entry.id)
+    .map(other => ({
+      opponent: other.rating,
+      score: entry.rank < other.rank ? 1 : entry.rank === other.rank ? 0.5 : 0,
+    }));
+}
+
+/**
+ * New ratings for everyone in a finished game. All updates use the ratings
+ * from before the game, so the order entries are listed in doesn't matter.
+ */
+export function rateRanking(entries: RankedEntry[], tau: number = GLICKO2_TAU): Map<string, Glicko2Rating> {
+  return new Map(entries.map(entry => [entry.id, updateRating(entry.rating, rankingResults(entry, entries), tau)]));
+}
+
+// A team's strength as an opponent: its members' mean rating, with their
+// deviations combined
+export function combineRatings(ratings: Glicko2Rating[]): Glicko2Rating {
+  if (ratings.length === 0) return { ...DEFAULT_RATING };
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  return {
+    rating: mean(ratings.map(r => r.rating)),
+    deviation: Math.sqrt(mean(ratings.map(r => r.deviation * r.deviation))),
+    volatility: mean(ratings.map(r => r.volatility)),
+  };
+}
+
+export function conservativeRating({ rating, deviation }: Pick<Glicko2Rating, 'rating' | 'deviation'>): number {
+  return rating - 2 * deviation;
+}
+
+export function leagueForRating(rating: Pick<Glicko2Rating, 'rating' | 'deviation'>): League {
+  const value = conservativeRating(rating);
+  return LEAGUE_RATING_BANDS.find(band => value >= band.minRating)?.league ?? 'Bronze';
+}
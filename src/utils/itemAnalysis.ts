@@ -0,0 +1,148 @@
+// Item analysis for question set questions: difficulty, discrimination and
+// how teams spread across the options
+
+import type {
+  CustomQuestion,
+  QuestionItemFlag,
+  QuestionItemStats,
+  QuestionSetStats,
+} from '../types/questionSets';
+
+// One question's totals from get_question_item_stats
+export interface QuestionItemRow {
+  question_id: string;
+  games_used: number;
+  attempts: number;
+  correct_answers: number;
+  discrimination: number | null;
+  average_confidence: number | null;
+  average_response_seconds: number | null;
+  answer_counts: Record<string, number>; // Normalized answer -> teams
+  set_games_played: number;
+}
+
+// Fewer answers than this say more about the teams than the question
+export const MIN_ATTEMPTS_FOR_FLAGS = 5;
+export const TOO_EASY_PERCENT = 90;
+export const TOO_HARD_PERCENT = 20;
+
+export const ITEM_FLAG_LABELS: Record<QuestionItemFlag, { label: string; description: string }> = {
+  too_easy: {
+    label: 'Too easy',
+    description: `At least ${TOO_EASY_PERCENT}% of teams get this right`,
+  },
+  too_hard: {
+    label: 'Too hard',
+    description: `${TOO_HARD_PERCENT}% of teams or fewer get this right`,
+  },
+  ambiguous: {
+    label: 'Ambiguous',
+    description: 'Stronger teams miss this more than weaker ones, or a wrong option is as popular as the right one',
+  },
+};
+
+const OTHER_ANSWER = 'Other';
+
+const normalize = (answer: string) => answer.trim().toLowerCase();
+const round = (value: number) => Math.round(value * 10) / 10;
+
+function choicesFor(question: CustomQuestion): string[] {
+  if (question.type === 'multiple_choice') return question.options;
+  if (question.type === 'true_false') return question.options.length > 0 ? question.options : ['True', 'False'];
+  return [];
+}
+
+function optionShares(question: CustomQuestion, row: QuestionItemRow): QuestionItemStats['option_shares'] {
+  const choices = choicesFor(question);
+  if (choices.length === 0 || row.attempts === 0) return [];
+
+  const correct = normalize(question.correct_answer);
+  const shares = choices.map(option => ({
+    option,
+    teams: Number(row.answer_counts[normalize(option)] ?? 0),
+    is_correct: normalize(option) === correct,
+  }));
+  // Blank answers and anything that matches no option
+  const other = row.attempts - shares.reduce((sum, share) => sum + share.teams, 0);
+  if (other > 0) {
+    shares.push({ option: OTHER_ANSWER, teams: other, is_correct: false });
+  }
+
+  return shares.map(({ option, teams, is_correct }) => ({
+    option,
+    share: round((teams / row.attempts) * 100),
+    is_correct,
+  }));
+}
+
+function flagsFor(stats: Omit<QuestionItemStats, 'flags'>): QuestionItemFlag[] {
+  if (stats.attempts < MIN_ATTEMPTS_FOR_FLAGS) return [];
+
+  const flags: QuestionItemFlag[] = [];
+  if (stats.percent_correct >= TOO_EASY_PERCENT) flags.push('too_easy');
+  if (stats.percent_correct <= TOO_HARD_PERCENT) flags.push('too_hard');
+
+  const correctShare = stats.option_shares.find(share => share.is_correct)?.share ?? 0;
+  const rivalOption = stats.option_shares.some(
+    share => !share.is_correct && share.option !== OTHER_ANSWER && share.share > 0 && share.share >= correctShare
+  );
+  if ((stats.discrimination !== null && stats.discrimination < 0) || rivalOption) {
+    flags.push('ambiguous');
+  }
+  return flags;
+}
+
+/**
+ * Stats for one question; questions that were never played get zeros and
+ * no flags
+ */
+export function analyzeQuestionItem(question: CustomQuestion, row?: QuestionItemRow): QuestionItemStats {
+  const attempts = Number(row?.attempts ?? 0);
+  const stats = {
+    question_id: question.id,
+    games_used: Number(row?.games_used ?? 0),
+    attempts,
+    percent_correct: attempts > 0 ? round((Number(row?.correct_answers ?? 0) / attempts) * 100) : 0,
+    discrimination: row?.discrimination == null ? null : Math.round(Number(row.discrimination) * 100) / 100,
+    average_confidence: row?.average_confidence == null ? null : round(Number(row.average_confidence)),
+    average_response_seconds: row?.average_response_seconds == null ? null : round(Number(row.average_response_seconds)),
+    option_shares: row ? optionShares(question, { ...row, attempts }) : [],
+  };
+  return { ...stats, flags: flagsFor(stats) };
+}
+
+/**
+ * Roll item stats up into the question set's stats
+ */
+export function summarizeQuestionSetStats(questions: CustomQuestion[], rows: QuestionItemRow[]): QuestionSetStats {
+  const rowsById = new Map(rows.map(row => [row.question_id, row]));
+  const items = questions.map(question => analyzeQuestionItem(question, rowsById.get(question.id)));
+  const played = items.filter(item => item.attempts > 0);
+  const average = (values: number[]) =>
+    values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+  const byDifficulty = [...played].sort((a, b) => a.percent_correct - b.percent_correct);
+
+  const categories = new Map<string, QuestionItemStats[]>();
+  questions.forEach((question, index) => {
+    const category = question.category || 'Uncategorized';
+    categories.set(category, [...(categories.get(category) ?? []), items[index]]);
+  });
+  const category_performance: QuestionSetStats['category_performance'] = Object.fromEntries(
+    [...categories.entries()].map(([category, categoryItems]) => [
+      category,
+      {
+        total_questions: categoryItems.length,
+        average_score: average(categoryItems.filter(item => item.attempts > 0).map(item => item.percent_correct)),
+      },
+    ])
+  );
+
+  return {
+    total_games_played: Number(rows[0]?.set_games_played ?? 0),
+    average_score: average(played.map(item => item.percent_correct)),
+    most_difficult_question_id: byDifficulty[0]?.question_id,
+    easiest_question_id: byDifficulty[byDifficulty.length - 1]?.question_id,
+    category_performance,
+    item_stats: Object.fromEntries(items.map(item => [item.question_id, item])),
+  };
+}
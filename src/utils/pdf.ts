@@ -0,0 +1,336 @@
+// Minimal PDF writing for printable reports
+
+export type PdfCell = string | number | boolean | null | undefined;
+
+/**
+ * A JPEG image and its size in pixels
+ */
+export interface PdfImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export type PdfBlock =
+  | { type: 'heading'; text: string }
+  | { type: 'text'; text: string }
+  | { type: 'table'; rows: PdfCell[][] }
+  | { type: 'image'; image: PdfImage; caption?: string };
+
+export interface PdfDocument {
+  title: string;
+  subtitle?: string;
+  blocks: PdfBlock[];
+}
+
+// US Letter in points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 30;
+const MAX_IMAGE_HEIGHT = 300;
+
+const BODY_SIZE = 10;
+const TABLE_SIZE = 9;
+const TABLE_ROW_HEIGHT = 16;
+
+// Characters outside Latin-1 that have a close WinAnsi equivalent
+const SUBSTITUTES: Record<string, string> = {
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '–': '-',
+  '—': '-',
+  '…': '...',
+  '•': '*',
+};
+
+function toWinAnsi(text: string): string {
+  return Array.from(text, char => {
+    if (SUBSTITUTES[char]) return SUBSTITUTES[char];
+    const code = char.charCodeAt(0);
+    // C1 controls are different glyphs in WinAnsi, so leave them out too
+    return code < 0x20 || (code >= 0x7f && code < 0xa0) || code > 0xff ? '?' : char;
+  }).join('');
+}
+
+function pdfString(text: string): string {
+  return `(${toWinAnsi(text).replace(/[\\()]/g, match => `\\${match}`)})`;
+}
+
+/**
+ * Rough Helvetica width; close enough for wrapping and fitting columns
+ */
+function textWidth(text: string, size: number): number {
+  let units = 0;
+  for (const char of text) {
+    if (/[il.,:;'|!]/.test(char)) units += 0.28;
+    else if (/[mwMW@]/.test(char)) units += 0.85;
+    else if (/[A-Z0-9]/.test(char)) units += 0.64;
+    else if (char === ' ') units += 0.28;
+    else units += 0.52;
+  }
+  return units * size;
+}
+
+function fitText(text: string, size: number, width: number): string {
+  if (textWidth(text, size) <= width) return text;
+  let fitted = text;
+  while (fitted.length > 0 && textWidth(`${fitted}...`, size) > width) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}...`;
+}
+
+function wrapText(text: string, size: number, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && textWidth(candidate, size) > width) {
+        lines.push(line);
+        line = fitText(word, size, width);
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2).replace(/0+$/, '').replace(/\.$/, '');
+}
+
+function cellText(value: PdfCell): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'number' ? formatNumber(value) : String(value);
+}
+
+interface PdfPage {
+  content: string[];
+  images: number[];
+}
+
+/**
+ * Lays blocks out top to bottom, starting a new page whenever the next
+ * line, table row or image does not fit
+ */
+class PdfLayout {
+  readonly pages: PdfPage[] = [];
+  readonly images: PdfImage[] = [];
+  private y = 0;
+
+  constructor() {
+    this.newPage();
+  }
+
+  title(title: string, subtitle?: string) {
+    this.text(MARGIN, this.y - 20, 20, fitText(title, 20, CONTENT_WIDTH), true);
+    this.y -= 30;
+    if (subtitle) {
+      this.text(MARGIN, this.y - BODY_SIZE, BODY_SIZE, subtitle);
+      this.y -= 16;
+    }
+    this.y -= 10;
+  }
+
+  heading(text: string) {
+    this.ensureSpace(40);
+    this.y -= 10;
+    this.text(MARGIN, this.y - 14, 14, text, true);
+    this.y -= 24;
+  }
+
+  paragraph(text: string) {
+    for (const line of wrapText(text, BODY_SIZE, CONTENT_WIDTH)) {
+      this.ensureSpace(14);
+      this.text(MARGIN, this.y - BODY_SIZE, BODY_SIZE, line);
+      this.y -= 14;
+    }
+    this.y -= 6;
+  }
+
+  table(rows: PdfCell[][]) {
+    if (rows.length === 0) return;
+    const [header, ...body] = rows;
+    const columns = Math.max(...rows.map(row => row.length));
+    const columnWidth = CONTENT_WIDTH / columns;
+
+    const drawRow = (row: PdfCell[], bold: boolean) => {
+      const top = this.y;
+      if (bold) {
+        this.page.content.push(`0.93 0.95 0.98 rg ${MARGIN} ${top - TABLE_ROW_HEIGHT} ${CONTENT_WIDTH} ${TABLE_ROW_HEIGHT} re f 0 g`);
+      }
+      for (let column = 0; column < columns; column++) {
+        const text = fitText(cellText(row[column]), TABLE_SIZE, columnWidth - 6);
+        this.text(MARGIN + column * columnWidth + 3, top - 11.5, TABLE_SIZE, text, bold);
+      }
+      this.page.content.push(
+        `0.85 G 0.5 w ${MARGIN} ${top - TABLE_ROW_HEIGHT} m ${MARGIN + CONTENT_WIDTH} ${top - TABLE_ROW_HEIGHT} l S 0 G`
+      );
+      this.y -= TABLE_ROW_HEIGHT;
+    };
+
+    // Keep the header with at least one row, and repeat it on each page
+    this.ensureSpace(TABLE_ROW_HEIGHT * 2);
+    drawRow(header, true);
+    for (const row of body) {
+      if (!this.fits(TABLE_ROW_HEIGHT)) {
+        this.newPage();
+        drawRow(header, true);
+      }
+      drawRow(row, false);
+    }
+    this.y -= 12;
+  }
+
+  image(image: PdfImage, caption?: string) {
+    const scale = Math.min(CONTENT_WIDTH / image.width, MAX_IMAGE_HEIGHT / image.height);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    this.ensureSpace(height + (caption ? 18 : 0) + 8);
+
+    if (caption) {
+      this.text(MARGIN, this.y - BODY_SIZE, BODY_SIZE, caption, true);
+      this.y -= 18;
+    }
+    const index = this.images.push(image) - 1;
+    this.page.images.push(index);
+    this.page.content.push(`q ${width.toFixed(2)} 0 0 ${height.toFixed(2)} ${MARGIN} ${(this.y - height).toFixed(2)} cm /Im${index} Do Q`);
+    this.y -= height + 14;
+  }
+
+  text(x: number, y: number, size: number, text: string, bold = false) {
+    this.page.content.push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td ${pdfString(text)} Tj ET`);
+  }
+
+  get page(): PdfPage {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private fits(height: number): boolean {
+    return this.y - height >= MARGIN + FOOTER_HEIGHT;
+  }
+
+  private ensureSpace(height: number) {
+    if (!this.fits(height) && this.y < PAGE_HEIGHT - MARGIN) {
+      this.newPage();
+    }
+  }
+
+  private newPage() {
+    this.pages.push({ content: [], images: [] });
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+}
+
+function latin1(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+/**
+ * Build a paginated PDF with a title, headings, text, tables and JPEG
+ * images, using the standard Helvetica fonts so nothing is embedded
+ */
+export function writePdf(document: PdfDocument): Uint8Array {
+  const layout = new PdfLayout();
+
+  layout.title(document.title, document.subtitle);
+
+  for (const block of document.blocks) {
+    switch (block.type) {
+      case 'heading':
+        layout.heading(block.text);
+        break;
+      case 'text':
+        layout.paragraph(block.text);
+        break;
+      case 'table':
+        layout.table(block.rows);
+        break;
+      case 'image':
+        layout.image(block.image, block.caption);
+        break;
+    }
+  }
+
+  const pageCount = layout.pages.length;
+  layout.pages.forEach((page, index) => {
+    page.content.push(
+      `BT /F1 8 Tf ${MARGIN} ${MARGIN - 10} Td 0.4 g ${pdfString(fitText(document.title, 8, CONTENT_WIDTH - 80))} Tj ET`,
+      `BT /F1 8 Tf ${PAGE_WIDTH - MARGIN - 50} ${MARGIN - 10} Td 0.4 g ${pdfString(`Page ${index + 1} of ${pageCount}`)} Tj ET`
+    );
+  });
+
+  // Objects: catalog, page tree, two fonts, images, then a page and its
+  // content stream for each page
+  const objects: Uint8Array[][] = [];
+  const firstImage = 5;
+  const firstPage = firstImage + layout.images.length;
+  const pageIds = layout.pages.map((_, index) => firstPage + index * 2);
+
+  objects.push([latin1('<< /Type /Catalog /Pages 2 0 R >>')]);
+  objects.push([latin1(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageCount} >>`)]);
+  objects.push([latin1('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')]);
+  objects.push([latin1('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>')]);
+
+  layout.images.forEach(image => {
+    objects.push([
+      latin1(
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} `
+        + `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>\nstream\n`
+      ),
+      image.data,
+      latin1('\nendstream'),
+    ]);
+  });
+
+  layout.pages.forEach((page, index) => {
+    const images = page.images.map(image => `/Im${image} ${firstImage + image} 0 R`).join(' ');
+    objects.push([
+      latin1(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] `
+        + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${images ? ` /XObject << ${images} >>` : ''} >> `
+        + `/Contents ${pageIds[index] + 1} 0 R >>`
+      ),
+    ]);
+    const stream = latin1(page.content.join('\n'));
+    objects.push([latin1(`<< /Length ${stream.length} >>\nstream\n`), stream, latin1('\nendstream')]);
+  });
+
+  objects.push([latin1(`<< /Title ${pdfString(document.title)} /Producer (Tony Trivia) >>`)]);
+
+  const chunks: Uint8Array[] = [latin1('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+
+  objects.forEach((parts, index) => {
+    offsets.push(offset);
+    for (const part of [latin1(`${index + 1} 0 obj\n`), ...parts, latin1('\nendobj\n')]) {
+      chunks.push(part);
+      offset += part.length;
+    }
+  });
+
+  const xref = `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+    + offsets.map(value => `${String(value).padStart(10, '0')} 00000 n \n`).join('')
+    + `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\n`;
+  chunks.push(latin1(xref), latin1(`startxref\n${offset}\n%%EOF\n`));
+
+  const output = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let position = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, position);
+    position += chunk.length;
+  }
+  return output;
+}
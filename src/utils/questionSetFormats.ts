@@ -0,0 +1,1231 @@
+import type {
+  ExportQuestion,
+  ImportColumnField,
+  ImportColumnMapping,
+  ImportParseOptions,
+  ImportValidationError,
+  QuestionDifficulty,
+  QuestionMedia,
+  QuestionMediaType,
+  QuestionSetExportData,
+  QuestionSetExportFile,
+  QuestionSetFileFormat,
+  QuestionType,
+  SchemaMigrationReport,
+} from '../types/questionSets';
+import { CURRENT_EXPORT_VERSION, isObject, migrateExportData } from './questionSetSchema';
+import type { UntrustedObject } from './questionSetSchema';
+import { writeXlsx } from './xlsx';
+
+// Readers and writers for the question set file formats hosts bring from
+// spreadsheets and other quiz tools. Every reader produces the internal
+// export structure so imports share the same validation.
+
+export interface ParsedQuestionSet {
+  data: QuestionSetExportData;
+  rows: number[]; // Source row of each question
+  errors: ImportValidationError[];
+  warnings: ImportValidationError[];
+  headers?: string[];
+  columnMapping?: ImportColumnMapping;
+  migration?: SchemaMigrationReport;
+}
+
+interface QuestionRecord {
+  text: string;
+  type?: string;
+  options: string[];
+  correct_answer: string;
+  explanation?: string;
+  points?: string;
+  time_limit?: string;
+  difficulty?: string;
+  category?: string;
+  alternative_answers?: string | string[];
+  tags?: string;
+  media_url?: string;
+  media_type?: string;
+}
+
+interface ParseIssues {
+  errors: ImportValidationError[];
+  warnings: ImportValidationError[];
+}
+
+export const FILE_FORMAT_LABELS: Record<QuestionSetFileFormat, string> = {
+  json: 'Tony Trivia JSON',
+  csv: 'CSV',
+  tsv: 'TSV',
+  opentdb: 'Open Trivia DB JSON',
+  gift: 'Moodle GIFT',
+  spreadsheet: 'Spreadsheet (Kahoot layout)',
+};
+
+export const IMPORT_COLUMN_LABELS: Record<ImportColumnField, string> = {
+  text: 'Question',
+  type: 'Type',
+  options: 'Option',
+  correct_answer: 'Correct answer',
+  explanation: 'Explanation',
+  points: 'Points',
+  time_limit: 'Time limit',
+  difficulty: 'Difficulty',
+  category: 'Category',
+  alternative_answers: 'Alternative answers',
+  tags: 'Tags',
+  media_url: 'Media URL',
+  media_type: 'Media type',
+};
+
+const DEFAULT_POINTS = 1;
+const DEFAULT_TIME_LIMIT = 30;
+const DEFAULT_DIFFICULTY: QuestionDifficulty = 'medium';
+
+// Kahoot only accepts these timer lengths
+const SPREADSHEET_TIME_LIMITS = [5, 10, 20, 30, 60, 90, 120, 240];
+
+const TYPE_ALIASES: Record<string, QuestionType> = {
+  'multiple choice': 'multiple_choice',
+  multiple: 'multiple_choice',
+  mc: 'multiple_choice',
+  choice: 'multiple_choice',
+  quiz: 'multiple_choice',
+  'true false': 'true_false',
+  tf: 'true_false',
+  boolean: 'true_false',
+  bool: 'true_false',
+  'short answer': 'short_answer',
+  short: 'short_answer',
+  text: 'short_answer',
+  open: 'short_answer',
+  'fill blank': 'fill_blank',
+  'fill in the blank': 'fill_blank',
+  'fill in blank': 'fill_blank',
+  blank: 'fill_blank',
+};
+
+const COLUMN_ALIASES: Record<string, ImportColumnField> = {
+  question: 'text',
+  'question text': 'text',
+  text: 'text',
+  prompt: 'text',
+  type: 'type',
+  'question type': 'type',
+  options: 'options',
+  choices: 'options',
+  answers: 'options',
+  answer: 'correct_answer',
+  'correct answer': 'correct_answer',
+  correct: 'correct_answer',
+  'correct option': 'correct_answer',
+  solution: 'correct_answer',
+  explanation: 'explanation',
+  feedback: 'explanation',
+  notes: 'explanation',
+  points: 'points',
+  'point value': 'points',
+  score: 'points',
+  'time limit': 'time_limit',
+  time: 'time_limit',
+  seconds: 'time_limit',
+  timer: 'time_limit',
+  difficulty: 'difficulty',
+  level: 'difficulty',
+  category: 'category',
+  topic: 'category',
+  subject: 'category',
+  'alternative answers': 'alternative_answers',
+  alternatives: 'alternative_answers',
+  'accepted answers': 'alternative_answers',
+  'also accept': 'alternative_answers',
+  tags: 'tags',
+  'question tags': 'tags',
+  'media url': 'media_url',
+  media: 'media_url',
+  'image url': 'media_url',
+  'audio url': 'media_url',
+  'video url': 'media_url',
+  'media type': 'media_type',
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  shy: '\u00ad', hellip: '…', ndash: '–', mdash: '—', lsquo: '‘',
+  rsquo: '’', sbquo: '‚', ldquo: '“', rdquo: '”', bdquo: '„',
+  laquo: '«', raquo: '»', deg: '°', copy: '©', reg: '®', trade: '™',
+  times: '×', divide: '÷', plusmn: '±', frac12: '½', frac14: '¼',
+  frac34: '¾', sup2: '²', sup3: '³', micro: 'µ', middot: '·',
+  euro: '€', pound: '£', yen: '¥', cent: '¢', sect: '§', para: '¶',
+  iexcl: '¡', iquest: '¿', pi: 'π', szlig: 'ß', aelig: 'æ', AElig: 'Æ',
+  oelig: 'œ', OElig: 'Œ', oslash: 'ø', Oslash: 'Ø', aring: 'å', Aring: 'Å',
+  ccedil: 'ç', Ccedil: 'Ç', ntilde: 'ñ', Ntilde: 'Ñ', eth: 'ð', thorn: 'þ',
+};
+
+// Accented letters follow a regular naming scheme (&eacute;, &Ouml;, ...)
+const ACCENT_MARKS: Record<string, string> = {
+  acute: '\u0301', grave: '\u0300', circ: '\u0302', uml: '\u0308',
+  tilde: '\u0303', ring: '\u030a', cedil: '\u0327',
+};
+
+/**
+ * Decode HTML entities such as `&quot;`, `&#039;` and `&eacute;`
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x'
+        ? parseInt(code.slice(2), 16)
+        : parseInt(code.slice(1), 10);
+      return Number.isNaN(point) || point > 0x10ffff ? entity : String.fromCodePoint(point);
+    }
+
+    if (code in HTML_ENTITIES) return HTML_ENTITIES[code];
+
+    const accent = code.match(/^([a-z])(acute|grave|circ|uml|tilde|ring|cedil)$/i);
+    if (accent) return (accent[1] + ACCENT_MARKS[accent[2]]).normalize('NFC');
+
+    return entity;
+  });
+}
+
+function encodeHtmlEntities(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
+
+/**
+ * Split delimited text into rows of fields. Handles quoted fields, doubled
+ * quotes and line breaks inside quotes (RFC 4180).
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      field = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+/**
+ * Join rows into delimited text, quoting fields where needed. Text that a
+ * spreadsheet would run as a formula gets a leading apostrophe so it opens
+ * as plain text.
+ */
+export function toDelimited(rows: (string | number | undefined)[][], delimiter: string): string {
+  return rows
+    .map(row =>
+      row
+        .map(value => {
+          const raw = value === undefined ? '' : String(value);
+          const text = typeof value === 'string' && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+          const needsQuotes =
+            text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim();
+          return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(delimiter)
+    )
+    .join('\r\n');
+}
+
+function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .replace(/\(.*?\)/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Guess which question field each column holds from its header
+ */
+export function suggestColumnMapping(headers: string[]): ImportColumnMapping {
+  const mapping = headers.map((header): ImportColumnField | null => {
+    const normalized = normalizeHeader(header);
+    if (normalized in COLUMN_ALIASES) return COLUMN_ALIASES[normalized];
+    if (/^(option|choice|answer) ?([0-9]+|[a-f])$/.test(normalized)) return 'options';
+    return null;
+  });
+
+  // Only the first column claims single-value fields
+  const seen = new Set<ImportColumnField>();
+  return mapping.map(field => {
+    if (!field || field === 'options') return field;
+    if (seen.has(field)) return null;
+    seen.add(field);
+    return field;
+  });
+}
+
+/**
+ * Work out the file format from the file name, looking at the content where
+ * the extension is shared between formats
+ */
+export function detectFileFormat(fileName: string, content = ''): QuestionSetFileFormat {
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+
+  switch (extension) {
+    case 'csv':
+      return 'csv';
+    case 'tsv':
+    case 'tab':
+      return 'tsv';
+    case 'gift':
+      return 'gift';
+    case 'xlsx':
+      return 'spreadsheet';
+    case 'json':
+      return /"incorrect_answers"\s*:/.test(content) || /"response_code"\s*:/.test(content)
+        ? 'opentdb'
+        : 'json';
+    default: {
+      if (/\{[\s\S]*\}/.test(content) && !content.includes('\t')) return 'gift';
+      return content.split(/\r?\n/)[0]?.includes('\t') ? 'tsv' : 'csv';
+    }
+  }
+}
+
+function createMetadata(title: string, questionCount: number, tags: string[] = []): QuestionSetExportData['metadata'] {
+  return {
+    title,
+    created_at: new Date().toISOString(),
+    question_count: questionCount,
+    export_version: CURRENT_EXPORT_VERSION,
+    tags,
+  };
+}
+
+function parseType(raw: string | undefined, record: QuestionRecord): QuestionType {
+  if (raw && raw.trim()) {
+    const normalized = raw.toLowerCase().replace(/[^a-z]+/g, ' ').trim();
+    const underscored = normalized.replace(/ /g, '_');
+    if (['multiple_choice', 'true_false', 'short_answer', 'fill_blank'].includes(underscored)) {
+      return underscored as QuestionType;
+    }
+    // Unknown types pass through so validation reports them against the row
+    return TYPE_ALIASES[normalized] || (raw.trim() as QuestionType);
+  }
+
+  if (record.options.length >= 2) return 'multiple_choice';
+  if (/^(true|false)$/i.test(record.correct_answer.trim())) return 'true_false';
+  return 'short_answer';
+}
+
+function parseDifficulty(
+  raw: string | undefined,
+  index: number,
+  issues: ParseIssues
+): QuestionDifficulty {
+  if (!raw || !raw.trim()) return DEFAULT_DIFFICULTY;
+  const normalized = raw.trim().toLowerCase();
+  if (normalized === 'easy' || normalized === 'medium' || normalized === 'hard') {
+    return normalized;
+  }
+  issues.warnings.push({
+    field: 'difficulty',
+    message: `Unknown difficulty "${raw.trim()}", using ${DEFAULT_DIFFICULTY}`,
+    question_index: index,
+  });
+  return DEFAULT_DIFFICULTY;
+}
+
+function parseWholeNumber(
+  raw: string | undefined,
+  field: 'points' | 'time_limit',
+  fallback: number,
+  index: number,
+  issues: ParseIssues
+): number {
+  if (!raw || !raw.trim()) return fallback;
+  const value = Number(raw.trim());
+  if (Number.isInteger(value) && value > 0) return value;
+  issues.warnings.push({
+    field,
+    message: `"${raw.trim()}" is not a whole number, using ${fallback}`,
+    question_index: index,
+  });
+  return fallback;
+}
+
+/**
+ * Resolve answers given as an option letter ("B") to the option text
+ */
+function resolveCorrectAnswer(answer: string, options: string[]): string {
+  const trimmed = answer.trim();
+  if (options.some(option => option.trim().toLowerCase() === trimmed.toLowerCase())) {
+    return options.find(option => option.trim().toLowerCase() === trimmed.toLowerCase())!.trim();
+  }
+  if (/^[a-z]$/i.test(trimmed)) {
+    const index = trimmed.toUpperCase().charCodeAt(0) - 65;
+    if (index < options.length) return options[index].trim();
+  }
+  return trimmed;
+}
+
+const MEDIA_EXTENSIONS: Record<QuestionMediaType, RegExp> = {
+  image: /\.(png|jpe?g|gif|webp|svg|avif)$/i,
+  audio: /\.(mp3|wav|ogg|m4a|aac|flac)$/i,
+  video: /\.(mp4|webm|mov|m4v|ogv)$/i,
+};
+
+function parseMedia(
+  url: string | undefined,
+  rawType: string | undefined,
+  index: number,
+  issues: ParseIssues
+): QuestionMedia | null {
+  if (!url || !url.trim()) return null;
+
+  const path = url.trim().split(/[?#]/)[0];
+  const inferred = (Object.keys(MEDIA_EXTENSIONS) as QuestionMediaType[])
+    .find(type => MEDIA_EXTENSIONS[type].test(path)) || 'image';
+  const type = rawType?.trim().toLowerCase();
+
+  if (type === 'image' || type === 'audio' || type === 'video') {
+    return { type, url: url.trim() };
+  }
+  if (type) {
+    issues.warnings.push({
+      field: 'media_type',
+      message: `Unknown media type "${rawType!.trim()}", using ${inferred}`,
+      question_index: index,
+    });
+  }
+  return { type: inferred, url: url.trim() };
+}
+
+function splitList(value: string | string[] | undefined, separator: RegExp): string[] {
+  const items = Array.isArray(value) ? value : (value || '').split(separator);
+  return items.map(item => item.trim()).filter(Boolean);
+}
+
+function buildQuestion(record: QuestionRecord, index: number, issues: ParseIssues): ExportQuestion {
+  const options = record.options.map(option => option.trim()).filter(Boolean);
+  const type = parseType(record.type, { ...record, options });
+
+  let correctAnswer = record.correct_answer.trim();
+  if (type === 'multiple_choice') {
+    correctAnswer = resolveCorrectAnswer(correctAnswer, options);
+  } else if (type === 'true_false' && /^(t|true|f|false)$/i.test(correctAnswer)) {
+    correctAnswer = /^t/i.test(correctAnswer) ? 'True' : 'False';
+  }
+
+  return {
+    text: record.text.trim(),
+    type,
+    options: type === 'multiple_choice' ? options : [],
+    correct_answer: correctAnswer,
+    explanation: record.explanation?.trim() || undefined,
+    points: parseWholeNumber(record.points, 'points', DEFAULT_POINTS, index, issues),
+    time_limit: parseWholeNumber(record.time_limit, 'time_limit', DEFAULT_TIME_LIMIT, index, issues),
+    difficulty: parseDifficulty(record.difficulty, index, issues),
+    category: record.category?.trim() || undefined,
+    // Answers can contain commas ("Washington, D.C."), so only "|" separates them
+    alternative_answers: splitList(record.alternative_answers, /\|/),
+    tags: splitList(record.tags, /[|,]/),
+    media: parseMedia(record.media_url, record.media_type, index, issues),
+  };
+}
+
+function isBlankRow(row: string[]): boolean {
+  return row.every(cell => !cell || !cell.trim());
+}
+
+function parseColumns(
+  content: string,
+  delimiter: string,
+  options: ImportParseOptions
+): ParsedQuestionSet {
+  const table = parseDelimited(content, delimiter);
+  const headerIndex = table.findIndex(row => !isBlankRow(row));
+  if (headerIndex < 0) {
+    throw new Error('The file is empty');
+  }
+
+  const headers = table[headerIndex].map(header => header.trim());
+  const columnMapping = options.columnMapping || suggestColumnMapping(headers);
+  const issues: ParseIssues = { errors: [], warnings: [] };
+
+  if (!columnMapping.includes('text')) {
+    issues.errors.push({ field: 'columns', message: 'No column is mapped to the question text' });
+  }
+  if (!columnMapping.includes('correct_answer')) {
+    issues.errors.push({ field: 'columns', message: 'No column is mapped to the correct answer' });
+  }
+
+  const questions: ExportQuestion[] = [];
+  const rows: number[] = [];
+
+  table.slice(headerIndex + 1).forEach((cells, offset) => {
+    if (isBlankRow(cells)) return;
+
+    const record: QuestionRecord = { text: '', options: [], correct_answer: '' };
+    columnMapping.forEach((field, column) => {
+      // Undo the apostrophe toDelimited adds in front of formula characters
+      const value = (cells[column] ?? '').replace(/^'(?=[=+\-@])/, '');
+      if (!field) return;
+      if (field === 'options') {
+        // A single options column lists every choice separated by "|"
+        record.options.push(...value.split('|'));
+      } else {
+        record[field] = value;
+      }
+    });
+
+    rows.push(headerIndex + offset + 2);
+    questions.push(buildQuestion(record, questions.length, issues));
+  });
+
+  return {
+    data: {
+      metadata: createMetadata(options.title || 'Imported questions', questions.length),
+      questions,
+    },
+    rows,
+    headers,
+    columnMapping,
+    ...issues,
+  };
+}
+
+/**
+ * Read rows laid out like the Kahoot spreadsheet template: Question,
+ * Answer 1-4, Time limit and the number(s) of the correct answer.
+ */
+export function parseSpreadsheetRows(
+  table: string[][],
+  options: ImportParseOptions = {}
+): ParsedQuestionSet {
+  const headerIndex = table.findIndex(row =>
+    row.some(cell => normalizeHeader(cell || '').startsWith('question'))
+  );
+  if (headerIndex < 0) {
+    throw new Error('Could not find the header row with a "Question" column');
+  }
+
+  const headers = table[headerIndex].map(cell => (cell || '').trim());
+  const normalized = headers.map(normalizeHeader);
+  const questionColumn = normalized.findIndex(header => header.startsWith('question'));
+  const timeColumn = normalized.findIndex(header => header.startsWith('time'));
+  const correctColumn = normalized.findIndex(header => header.startsWith('correct'));
+  const answerColumns = normalized
+    .map((header, column) => (/^answer \d+/.test(header) ? column : -1))
+    .filter(column => column >= 0);
+
+  const issues: ParseIssues = { errors: [], warnings: [] };
+  const questions: ExportQuestion[] = [];
+  const rows: number[] = [];
+
+  table.slice(headerIndex + 1).forEach((cells, offset) => {
+    if (isBlankRow(cells)) return;
+
+    const index = questions.length;
+    const answers = answerColumns.map(column => (cells[column] || '').trim());
+    const filledAnswers = answers.filter(Boolean);
+    const correctNumbers = (cells[correctColumn] || '')
+      .split(/[,;\s]+/)
+      .map(Number)
+      .filter(n => Number.isInteger(n) && n >= 1 && n <= answers.length && answers[n - 1]);
+
+    if (correctNumbers.length > 1) {
+      issues.warnings.push({
+        field: 'correct_answer',
+        message: 'Only the first correct answer is kept',
+        question_index: index,
+      });
+    }
+
+    const isTrueFalse =
+      filledAnswers.length === 2 && filledAnswers.every(answer => /^(true|false)$/i.test(answer));
+    const type: QuestionType = isTrueFalse
+      ? 'true_false'
+      : filledAnswers.length === 1
+        ? 'short_answer'
+        : 'multiple_choice';
+
+    rows.push(headerIndex + offset + 2);
+    questions.push(
+      buildQuestion(
+        {
+          text: cells[questionColumn] || '',
+          type,
+          options: type === 'multiple_choice' ? filledAnswers : [],
+          correct_answer: correctNumbers.length > 0
+            ? answers[correctNumbers[0] - 1]
+            : type === 'short_answer' ? filledAnswers[0] : '',
+          time_limit: timeColumn >= 0 ? cells[timeColumn] : undefined,
+        },
+        index,
+        issues
+      )
+    );
+  });
+
+  return {
+    data: {
+      metadata: createMetadata(options.title || 'Imported questions', questions.length),
+      questions,
+    },
+    rows,
+    headers,
+    ...issues,
+  };
+}
+
+function parseOpenTriviaDb(content: string, options: ImportParseOptions): ParsedQuestionSet {
+  const parsed = JSON.parse(content);
+  const results = Array.isArray(parsed) ? parsed : parsed?.results;
+  if (!Array.isArray(results)) {
+    throw new Error('Open Trivia DB files need a "results" array');
+  }
+  if (typeof parsed?.response_code === 'number' && parsed.response_code !== 0) {
+    throw new Error(`Open Trivia DB returned response code ${parsed.response_code}`);
+  }
+
+  const random = options.random || Math.random;
+  const issues: ParseIssues = { errors: [], warnings: [] };
+  const categories = new Set<string>();
+
+  const questions = results.map((result: unknown, index: number) => {
+    const item: UntrustedObject = isObject(result) ? result : {};
+    const decode = (value: unknown) => decodeHtmlEntities(String(value ?? ''));
+    const correctAnswer = decode(item.correct_answer);
+    const incorrect: string[] = Array.isArray(item.incorrect_answers)
+      ? item.incorrect_answers.map(decode)
+      : [];
+    const category = decode(item.category);
+    if (category) categories.add(category);
+
+    let type = typeof item.type === 'string' ? item.type : undefined;
+    let choices: string[] = [];
+    if (type === 'boolean') {
+      type = 'true_false';
+    } else if (type === 'multiple') {
+      type = 'multiple_choice';
+      // Open Trivia DB lists the correct answer separately, so place it randomly
+      choices = [...incorrect];
+      choices.splice(Math.floor(random() * (incorrect.length + 1)), 0, correctAnswer);
+    }
+
+    return buildQuestion(
+      {
+        text: decode(item.question),
+        type,
+        options: choices,
+        correct_answer: correctAnswer,
+        difficulty: typeof item.difficulty === 'string' ? item.difficulty : undefined,
+        category,
+      },
+      index,
+      issues
+    );
+  });
+
+  return {
+    data: {
+      metadata: createMetadata(
+        options.title || (categories.size === 1 ? [...categories][0] : 'Open Trivia DB questions'),
+        questions.length
+      ),
+      questions,
+    },
+    rows: questions.map((_, index) => index + 1),
+    ...issues,
+  };
+}
+
+function parseNativeJson(content: string, options: ImportParseOptions): ParsedQuestionSet {
+  const { data, report } = migrateExportData(JSON.parse(content));
+  if (options.title && data.metadata) {
+    data.metadata.title = options.title;
+  }
+  const questions = Array.isArray(data.questions) ? data.questions : [];
+
+  // Question-level schema changes show up against their rows
+  const warnings = report.changes
+    .filter(change => change.question_index !== undefined)
+    .map(change => ({
+      field: change.field,
+      message: change.message,
+      question_index: change.question_index,
+    }));
+
+  return {
+    data,
+    rows: questions.map((_, index) => index + 1),
+    errors: [],
+    warnings,
+    migration: report,
+  };
+}
+
+// GIFT --------------------------------------------------------------------
+
+const GIFT_SPECIAL = /[~=#{}:\\]/g;
+
+function unescapeGift(text: string): string {
+  return text.replace(/\\(.)/g, (_, char: string) => (char === 'n' ? '\n' : char)).trim();
+}
+
+function escapeGift(text: string): string {
+  return text.replace(GIFT_SPECIAL, char => `\\${char}`).replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Index of the first unescaped occurrence of `token`
+ */
+function findUnescaped(text: string, token: string, from = 0): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text.startsWith(token, i)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function splitUnescaped(text: string, token: string): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  let index = findUnescaped(text, token);
+  while (index >= 0) {
+    parts.push(text.slice(start, index));
+    start = index + token.length;
+    index = findUnescaped(text, token, start);
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+function stripFormatMarker(text: string): string {
+  const marker = text.match(/^\s*\[(html|moodle|markdown|plain)\]/i);
+  if (!marker) return text;
+  const rest = text.slice(marker[0].length);
+  return marker[1].toLowerCase() === 'html'
+    ? decodeHtmlEntities(rest.replace(/<[^>]+>/g, ''))
+    : rest;
+}
+
+function parseGiftQuestion(
+  block: string,
+  category: string | undefined,
+  index: number,
+  issues: ParseIssues
+): ExportQuestion {
+  let source = block.trim();
+
+  if (source.startsWith('::')) {
+    const titleEnd = findUnescaped(source, '::', 2);
+    if (titleEnd >= 0) source = source.slice(titleEnd + 2);
+  }
+
+  const open = findUnescaped(source, '{');
+  const close = open >= 0 ? findUnescaped(source, '}', open) : -1;
+  if (open < 0 || close < 0) {
+    issues.errors.push({
+      field: 'correct_answer',
+      message: 'Missing {answer} block',
+      question_index: index,
+    });
+    return buildQuestion(
+      { text: unescapeGift(stripFormatMarker(source)), type: 'short_answer', options: [], correct_answer: '' },
+      index,
+      issues
+    );
+  }
+
+  const before = unescapeGift(stripFormatMarker(source.slice(0, open)));
+  const after = unescapeGift(source.slice(close + 1));
+  const isBlank = after.length > 0;
+  const text = isBlank ? `${before} _____ ${after}` : before;
+
+  const [answerBody, ...generalFeedback] = splitUnescaped(source.slice(open + 1, close), '####');
+  const explanation = generalFeedback.length > 0 ? unescapeGift(generalFeedback.join('')) : undefined;
+  const body = answerBody.trim();
+
+  const unsupported = (kind: string) => {
+    issues.errors.push({
+      field: 'type',
+      message: `${kind} questions are not supported`,
+      question_index: index,
+    });
+    return buildQuestion(
+      { text, type: 'short_answer', options: [], correct_answer: '', explanation, category },
+      index,
+      issues
+    );
+  };
+
+  if (!body) return unsupported('Essay');
+
+  const trueFalse = body.match(/^(T|TRUE|F|FALSE)\b/i);
+  if (trueFalse && /^(#|$)/.test(body.slice(trueFalse[0].length).trim())) {
+    return buildQuestion(
+      { text, type: 'true_false', options: [], correct_answer: trueFalse[1], explanation, category },
+      index,
+      issues
+    );
+  }
+
+  if (body.startsWith('#')) {
+    const value = unescapeGift(splitUnescaped(body.slice(1), '#')[0]).replace(/^=/, '');
+    const exact = value.match(/^-?\d+(\.\d+)?/)?.[0] || '';
+    if (exact !== value) {
+      issues.warnings.push({
+        field: 'correct_answer',
+        message: 'Numeric ranges and tolerances are not supported; only the exact value is kept',
+        question_index: index,
+      });
+    }
+    return buildQuestion(
+      { text, type: isBlank ? 'fill_blank' : 'short_answer', options: [], correct_answer: exact, explanation, category },
+      index,
+      issues
+    );
+  }
+
+  if (findUnescaped(body, '->') >= 0) return unsupported('Matching');
+
+  // Each answer starts with an unescaped "=" (correct) or "~" (wrong)
+  const answers: { correct: boolean; text: string }[] = [];
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === '\\') {
+      if (answers.length > 0) answers[answers.length - 1].text += body.slice(i, i + 2);
+      i++;
+    } else if (body[i] === '=' || body[i] === '~') {
+      answers.push({ correct: body[i] === '=', text: '' });
+    } else if (answers.length > 0) {
+      answers[answers.length - 1].text += body[i];
+    }
+  }
+
+  const parsedAnswers = answers.map(answer => {
+    const withoutFeedback = splitUnescaped(answer.text, '#')[0];
+    const weight = withoutFeedback.match(/^\s*%(-?\d+(?:\.\d+)?)%/);
+    return {
+      correct: answer.correct || (weight !== null && Number(weight[1]) === 100),
+      text: unescapeGift(weight ? withoutFeedback.slice(weight[0].length) : withoutFeedback),
+    };
+  }).filter(answer => answer.text);
+
+  const correctAnswers = parsedAnswers.filter(answer => answer.correct);
+  const isMultipleChoice = answers.some(answer => !answer.correct);
+
+  if (correctAnswers.length > 1 && isMultipleChoice) {
+    issues.warnings.push({
+      field: 'correct_answer',
+      message: 'Only the first correct answer is kept',
+      question_index: index,
+    });
+  }
+
+  return buildQuestion(
+    {
+      text,
+      type: isMultipleChoice ? 'multiple_choice' : isBlank ? 'fill_blank' : 'short_answer',
+      options: isMultipleChoice ? parsedAnswers.map(answer => answer.text) : [],
+      correct_answer: correctAnswers[0]?.text || '',
+      // Short answers list every accepted answer with "="
+      alternative_answers: isMultipleChoice
+        ? undefined
+        : correctAnswers.slice(1).map(answer => answer.text),
+      explanation,
+      category,
+    },
+    index,
+    issues
+  );
+}
+
+function parseGift(content: string, options: ImportParseOptions): ParsedQuestionSet {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+  const issues: ParseIssues = { errors: [], warnings: [] };
+  const questions: ExportQuestion[] = [];
+  const rows: number[] = [];
+  let category: string | undefined;
+  let block: string[] = [];
+  let blockStart = 0;
+
+  const flush = () => {
+    const text = block.join('\n').trim();
+    block = [];
+    if (!text) return;
+    rows.push(blockStart);
+    questions.push(parseGiftQuestion(text, category, questions.length, issues));
+  };
+
+  lines.forEach((line, lineIndex) => {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('//')) return;
+
+    if (!trimmed) {
+      // Answer blocks may span lines, so only break outside of braces
+      const open = block.join('\n');
+      if (findUnescaped(open, '{') < 0 || findUnescaped(open, '}', findUnescaped(open, '{')) >= 0) {
+        flush();
+        return;
+      }
+    }
+
+    if (block.length === 0 && trimmed.startsWith('$CATEGORY:')) {
+      const path = trimmed.slice('$CATEGORY:'.length).trim().split('/');
+      category = path[path.length - 1].trim() || undefined;
+      return;
+    }
+
+    if (block.length === 0) blockStart = lineIndex + 1;
+    block.push(line);
+  });
+  flush();
+
+  return {
+    data: {
+      metadata: createMetadata(options.title || 'Imported questions', questions.length),
+      questions,
+    },
+    rows,
+    ...issues,
+  };
+}
+
+/**
+ * Parse a question set file into the internal export structure
+ */
+export function parseQuestionSetContent(
+  content: string,
+  format: QuestionSetFileFormat,
+  options: ImportParseOptions = {}
+): ParsedQuestionSet {
+  switch (format) {
+    case 'json':
+      return parseNativeJson(content, options);
+    case 'opentdb':
+      return parseOpenTriviaDb(content, options);
+    case 'csv':
+      return parseColumns(content, ',', options);
+    case 'tsv':
+      return parseColumns(content, '\t', options);
+    case 'gift':
+      return parseGift(content, options);
+    case 'spreadsheet': {
+      // Rows pasted from a spreadsheet are tab separated; saved sheets are CSV
+      const delimiter = content.includes('\t') ? '\t' : ',';
+      return parseSpreadsheetRows(parseDelimited(content, delimiter), options);
+    }
+    default:
+      throw new Error(`Unsupported import format: ${format}`);
+  }
+}
+
+// Writers -----------------------------------------------------------------
+
+type ExportedField =
+  | 'explanation'
+  | 'category'
+  | 'points'
+  | 'time_limit'
+  | 'difficulty'
+  | 'alternative_answers'
+  | 'tags'
+  | 'media'
+  | 'media_details';
+
+const EXPORTED_FIELD_LABELS: Record<ExportedField, string> = {
+  explanation: 'explanations',
+  category: 'categories',
+  points: 'points',
+  time_limit: 'time limits',
+  difficulty: 'difficulty',
+  alternative_answers: 'alternative answers',
+  tags: 'question tags',
+  media: 'media',
+  media_details: 'media alt text, transcripts and captions',
+};
+
+const hasExportedValue: Record<ExportedField, (q: ExportQuestion) => boolean> = {
+  explanation: q => !!q.explanation,
+  category: q => !!q.category,
+  points: q => q.points !== DEFAULT_POINTS,
+  time_limit: q => q.time_limit !== DEFAULT_TIME_LIMIT,
+  difficulty: q => q.difficulty !== DEFAULT_DIFFICULTY,
+  alternative_answers: q => !!q.alternative_answers?.length,
+  tags: q => !!q.tags?.length,
+  media: q => !!q.media,
+  media_details: q => !!(q.media?.alt_text || q.media?.transcript || q.media?.captions),
+};
+
+// Question fields each format has nowhere to put
+const UNSUPPORTED_FIELDS: Record<QuestionSetFileFormat, ExportedField[]> = {
+  json: [],
+  csv: ['media_details'],
+  tsv: ['media_details'],
+  opentdb: ['explanation', 'points', 'time_limit', 'alternative_answers', 'tags', 'media', 'media_details'],
+  gift: ['points', 'time_limit', 'difficulty', 'tags', 'media', 'media_details'],
+  spreadsheet: ['explanation', 'category', 'points', 'difficulty', 'alternative_answers', 'tags', 'media', 'media_details'],
+};
+
+function reportUnsupportedFields(
+  data: QuestionSetExportData,
+  format: QuestionSetFileFormat,
+  warnings: ImportValidationError[]
+): void {
+  const lost = UNSUPPORTED_FIELDS[format].filter(field => data.questions.some(hasExportedValue[field]));
+  if (lost.length > 0) {
+    warnings.push({
+      field: 'format',
+      message: `${FILE_FORMAT_LABELS[format]} files do not keep ${lost.map(f => EXPORTED_FIELD_LABELS[f]).join(', ')}`,
+    });
+  }
+}
+
+function fileBaseName(title: string): string {
+  return title.replace(/[^a-z0-9]/gi, '_').toLowerCase() || 'question_set';
+}
+
+function serializeColumns(data: QuestionSetExportData, delimiter: string): string {
+  const optionCount = Math.max(4, ...data.questions.map(q => q.options?.length || 0));
+  const header = [
+    'Question',
+    'Type',
+    ...Array.from({ length: optionCount }, (_, i) => `Option ${i + 1}`),
+    'Correct Answer',
+    'Explanation',
+    'Points',
+    'Time Limit',
+    'Difficulty',
+    'Category',
+    'Alternative Answers',
+    'Tags',
+    'Media URL',
+    'Media Type',
+  ];
+
+  const rows = data.questions.map(q => [
+    q.text,
+    q.type,
+    ...Array.from({ length: optionCount }, (_, i) => q.options?.[i] ?? ''),
+    q.correct_answer,
+    q.explanation,
+    q.points,
+    q.time_limit,
+    q.difficulty,
+    q.category,
+    q.alternative_answers?.join('|'),
+    q.tags?.join(', '),
+    q.media?.url,
+    q.media?.type,
+  ]);
+
+  return toDelimited([header, ...rows], delimiter);
+}
+
+function serializeOpenTriviaDb(data: QuestionSetExportData, warnings: ImportValidationError[]): string {
+  const results = data.questions.flatMap((q, index) => {
+    if (q.type !== 'multiple_choice' && q.type !== 'true_false') {
+      warnings.push({
+        field: 'type',
+        message: 'Open Trivia DB only has multiple choice and true/false questions; question skipped',
+        question_index: index,
+      });
+      return [];
+    }
+
+    const isBoolean = q.type === 'true_false';
+    return [{
+      type: isBoolean ? 'boolean' : 'multiple',
+      difficulty: q.difficulty,
+      category: encodeHtmlEntities(q.category || data.metadata.title),
+      question: encodeHtmlEntities(q.text),
+      correct_answer: encodeHtmlEntities(q.correct_answer),
+      incorrect_answers: (isBoolean
+        ? [/^true$/i.test(q.correct_answer) ? 'False' : 'True']
+        : q.options.filter(option => option !== q.correct_answer)
+      ).map(encodeHtmlEntities),
+    }];
+  });
+
+  return JSON.stringify({ response_code: 0, results }, null, 2);
+}
+
+function serializeGift(data: QuestionSetExportData): string {
+  const lines: string[] = [`// ${data.metadata.title}`, ''];
+  let category: string | undefined;
+
+  data.questions.forEach((q, index) => {
+    if (q.category && q.category !== category) {
+      category = q.category;
+      lines.push(`$CATEGORY: ${category}`, '');
+    }
+
+    let answers: string;
+    if (q.type === 'true_false') {
+      answers = /^t/i.test(q.correct_answer) ? 'T' : 'F';
+    } else if (q.type === 'multiple_choice') {
+      answers = q.options
+        .map(option => `${option === q.correct_answer ? '=' : '~'}${escapeGift(option)}`)
+        .join(' ');
+    } else {
+      answers = [q.correct_answer, ...(q.alternative_answers || [])]
+        .map(answer => `=${escapeGift(answer)}`)
+        .join(' ');
+    }
+    if (q.explanation) answers += ` ####${escapeGift(q.explanation)}`;
+
+    const text = escapeGift(q.text);
+    const blank = /_{3,}/;
+    const question = q.type === 'fill_blank' && blank.test(text)
+      ? text.replace(blank, () => `{${answers}}`)
+      : `${text} {${answers}}`;
+
+    lines.push(`::Q${index + 1}:: ${question.trim()}`, '');
+  });
+
+  return lines.join('\n');
+}
+
+function serializeSpreadsheet(data: QuestionSetExportData, warnings: ImportValidationError[]): Uint8Array {
+  const answerCount = Math.max(4, ...data.questions.map(q => q.options?.length || 0));
+  const header = [
+    'Question - max 120 characters',
+    ...Array.from({ length: answerCount }, (_, i) => `Answer ${i + 1} - max 75 characters`),
+    'Time limit (sec) - 5, 10, 20, 30, 60, 90, 120, or 240 secs',
+    'Correct answer(s) - choose at least one',
+  ];
+
+  const rows = data.questions.map((q, index) => {
+    const answers = q.type === 'multiple_choice'
+      ? q.options
+      : q.type === 'true_false'
+        ? ['True', 'False']
+        : [q.correct_answer];
+    const correctIndex = answers.findIndex(
+      answer => answer.toLowerCase() === q.correct_answer.toLowerCase()
+    );
+
+    const timeLimit = SPREADSHEET_TIME_LIMITS.reduce((closest, limit) =>
+      Math.abs(limit - q.time_limit) < Math.abs(closest - q.time_limit) ? limit : closest
+    );
+    if (timeLimit !== q.time_limit) {
+      warnings.push({
+        field: 'time_limit',
+        message: `Time limit ${q.time_limit}s rounded to ${timeLimit}s`,
+        question_index: index,
+      });
+    }
+
+    return [
+      q.text,
+      ...Array.from({ length: answerCount }, (_, i) => answers[i] ?? ''),
+      timeLimit,
+      correctIndex >= 0 ? String(correctIndex + 1) : '',
+    ];
+  });
+
+  return writeXlsx([{ name: 'Questions', rows: [header, ...rows] }]);
+}
+
+/**
+ * Write a question set in the given file format. Questions or fields the
+ * format cannot hold are listed in `warnings`.
+ */
+export function serializeQuestionSet(
+  data: QuestionSetExportData,
+  format: QuestionSetFileFormat
+): QuestionSetExportFile {
+  const baseName = fileBaseName(data.metadata.title);
+  const warnings: ImportValidationError[] = [];
+  reportUnsupportedFields(data, format, warnings);
+
+  switch (format) {
+    case 'json':
+      return {
+        format,
+        fileName: `${baseName}.json`,
+        mimeType: 'application/json',
+        content: JSON.stringify(data, null, 2),
+        warnings,
+      };
+    case 'csv':
+      return {
+        format,
+        fileName: `${baseName}.csv`,
+        mimeType: 'text/csv',
+        content: serializeColumns(data, ','),
+        warnings,
+      };
+    case 'tsv':
+      return {
+        format,
+        fileName: `${baseName}.tsv`,
+        mimeType: 'text/tab-separated-values',
+        content: serializeColumns(data, '\t'),
+        warnings,
+      };
+    case 'opentdb': {
+      const content = serializeOpenTriviaDb(data, warnings);
+      return { format, fileName: `${baseName}.opentdb.json`, mimeType: 'application/json', content, warnings };
+    }
+    case 'gift':
+      return {
+        format,
+        fileName: `${baseName}.gift`,
+        mimeType: 'text/plain',
+        content: serializeGift(data),
+        warnings,
+      };
+    case 'spreadsheet': {
+      const content = serializeSpreadsheet(data, warnings);
+      return {
+        format,
+        fileName: `${baseName}.xlsx`,
+        mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        content,
+        warnings,
+      };
+    }
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+}
@@ -0,0 +1,298 @@
+import type {
+  QuestionSetExportData,
+  SchemaChange,
+  SchemaMigrationReport,
+} from '../types/questionSets';
+
+// Versioned question set export schema. Older exports are upgraded one
+// version at a time, recording every field that had to be defaulted or
+// dropped along the way.
+
+export const CURRENT_EXPORT_VERSION = '2.0';
+
+const METADATA_FIELDS = [
+  'title',
+  'description',
+  'created_at',
+  'question_count',
+  'export_version',
+  'tags',
+];
+
+// Question fields each schema version knows about
+const QUESTION_FIELDS: Record<string, string[]> = {
+  '1.0': [
+    'text',
+    'type',
+    'options',
+    'correct_answer',
+    'explanation',
+    'points',
+    'time_limit',
+    'difficulty',
+    'category',
+  ],
+  '2.0': [
+    'text',
+    'type',
+    'options',
+    'correct_answer',
+    'explanation',
+    'points',
+    'time_limit',
+    'difficulty',
+    'category',
+    'alternative_answers',
+    'tags',
+    'media',
+  ],
+};
+
+export const SUPPORTED_EXPORT_VERSIONS = Object.keys(QUESTION_FIELDS);
+
+const MEDIA_TYPES = ['image', 'audio', 'video'];
+const MEDIA_FIELDS = ['type', 'url', 'alt_text', 'transcript', 'captions'];
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+type RecordChange = (change: Omit<SchemaChange, 'from_version' | 'to_version'>) => void;
+
+// Imported JSON before it has been checked against the schema
+export type UntrustedObject = Record<string, unknown>;
+
+interface ExportMigration {
+  from: string;
+  to: string;
+  migrate: (data: UntrustedObject, record: RecordChange) => UntrustedObject;
+}
+
+export function isObject(value: unknown): value is UntrustedObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const MIGRATIONS: ExportMigration[] = [
+  {
+    // 2.0 adds alternative answers, per-question tags and media references
+    from: '1.0',
+    to: '2.0',
+    migrate: (data, record) => {
+      const questions: unknown[] = Array.isArray(data.questions) ? data.questions : [];
+      const defaults: Record<string, unknown> = {
+        alternative_answers: [],
+        tags: [],
+        media: null,
+      };
+
+      for (const [field, value] of Object.entries(defaults)) {
+        const missing = questions.filter(q => isObject(q) && !(field in q)).length;
+        if (missing > 0) {
+          record({
+            field: `questions.${field}`,
+            resolution: 'defaulted',
+            message: `${field.replace('_', ' ')} added as ${JSON.stringify(value)} on ${missing} question${missing === 1 ? '' : 's'}`,
+          });
+        }
+      }
+
+      return {
+        ...data,
+        metadata: { ...(isObject(data.metadata) ? data.metadata : {}), export_version: '2.0' },
+        questions: questions.map(q => (isObject(q) ? { ...defaults, ...q } : q)),
+      };
+    },
+  },
+];
+
+function parseVersion(version: string): number[] {
+  return version.split('.').map(part => parseInt(part, 10) || 0);
+}
+
+/**
+ * Compare two schema versions; negative when `a` is older than `b`
+ */
+export function compareExportVersions(a: string, b: string): number {
+  const [aMajor, aMinor = 0] = parseVersion(a);
+  const [bMajor, bMinor = 0] = parseVersion(b);
+  return aMajor !== bMajor ? aMajor - bMajor : aMinor - bMinor;
+}
+
+function normalizeVersion(version: unknown): string | undefined {
+  if (typeof version === 'number') return Number.isInteger(version) ? `${version}.0` : String(version);
+  if (typeof version !== 'string' || !version.trim()) return undefined;
+  return /^\d+$/.test(version.trim()) ? `${version.trim()}.0` : version.trim();
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Drop unknown fields and default malformed ones so the data matches the
+ * current schema. Structural problems (no metadata, no question list, bad
+ * question text) are left for import validation to report.
+ */
+function normalizeCurrent(data: UntrustedObject, record: RecordChange): UntrustedObject {
+  if (!isObject(data.metadata)) {
+    return data;
+  }
+
+  const metadata = { ...data.metadata };
+  for (const field of Object.keys(metadata)) {
+    if (!METADATA_FIELDS.includes(field)) {
+      delete metadata[field];
+      record({ field: `metadata.${field}`, resolution: 'dropped', message: `Unknown field "${field}" dropped` });
+    }
+  }
+  if (!isStringArray(metadata.tags)) {
+    if (metadata.tags !== undefined) {
+      record({ field: 'metadata.tags', resolution: 'defaulted', message: 'Tags were not a list of names' });
+    }
+    metadata.tags = [];
+  }
+
+  const questions = data.questions;
+  if (!Array.isArray(questions)) {
+    return { ...data, metadata };
+  }
+
+  const knownFields = QUESTION_FIELDS[CURRENT_EXPORT_VERSION];
+  const normalized = questions.map((source: unknown, index: number) => {
+    if (!isObject(source)) return source;
+    const question = { ...source };
+    const change = (field: string, resolution: SchemaChange['resolution'], message: string) =>
+      record({ field, resolution, message, question_index: index });
+
+    for (const field of Object.keys(question)) {
+      if (!knownFields.includes(field)) {
+        delete question[field];
+        change(field, 'dropped', `Unknown field "${field}" dropped`);
+      }
+    }
+
+    if (!isStringArray(question.options)) {
+      if (question.options !== undefined) change('options', 'defaulted', 'Options were not a list of strings');
+      question.options = [];
+    }
+    if (!Number.isInteger(question.points) || (question.points as number) < 1) {
+      if (question.points !== undefined) change('points', 'defaulted', `Invalid points ${JSON.stringify(question.points)}, using 1`);
+      question.points = 1;
+    }
+    if (!Number.isInteger(question.time_limit) || (question.time_limit as number) < 1) {
+      if (question.time_limit !== undefined) {
+        change('time_limit', 'defaulted', `Invalid time limit ${JSON.stringify(question.time_limit)}, using 30`);
+      }
+      question.time_limit = 30;
+    }
+    if (typeof question.difficulty !== 'string' || !DIFFICULTIES.includes(question.difficulty)) {
+      if (question.difficulty !== undefined) {
+        change('difficulty', 'defaulted', `Unknown difficulty ${JSON.stringify(question.difficulty)}, using medium`);
+      }
+      question.difficulty = 'medium';
+    }
+
+    for (const field of ['alternative_answers', 'tags']) {
+      if (!isStringArray(question[field])) {
+        if (question[field] !== undefined) {
+          change(field, 'defaulted', `${field.replace('_', ' ')} were not a list of strings`);
+        }
+        question[field] = [];
+      }
+    }
+
+    if (question.media !== null && question.media !== undefined) {
+      const media = question.media;
+      if (
+        !isObject(media) ||
+        typeof media.url !== 'string' ||
+        typeof media.type !== 'string' ||
+        !MEDIA_TYPES.includes(media.type)
+      ) {
+        change('media', 'dropped', 'Media needs a url and a type of image, audio or video');
+        question.media = null;
+      } else {
+        question.media = Object.fromEntries(
+          Object.entries(media).filter(([key, value]) => {
+            if (MEDIA_FIELDS.includes(key) && (value === undefined || typeof value === 'string')) return true;
+            change(`media.${key}`, 'dropped', `Unknown media field "${key}" dropped`);
+            return false;
+          })
+        );
+      }
+    } else {
+      question.media = null;
+    }
+
+    return question;
+  });
+
+  return { ...data, metadata, questions: normalized };
+}
+
+/**
+ * Upgrade exported data of any supported version to the current schema
+ */
+export function migrateExportData(raw: unknown): {
+  data: QuestionSetExportData;
+  report: SchemaMigrationReport;
+} {
+  if (!isObject(raw)) {
+    throw new Error('Import data must be a JSON object');
+  }
+
+  let data: UntrustedObject = JSON.parse(JSON.stringify(raw));
+  const changes: SchemaChange[] = [];
+  const steps: string[] = [];
+
+  let version = normalizeVersion(isObject(data.metadata) ? data.metadata.export_version : undefined);
+  if (!version) {
+    version = SUPPORTED_EXPORT_VERSIONS[0];
+    changes.push({
+      from_version: version,
+      to_version: version,
+      field: 'metadata.export_version',
+      resolution: 'defaulted',
+      message: `No export version, treating the file as ${version}`,
+    });
+  }
+  if (isObject(data.metadata)) {
+    data.metadata.export_version = version;
+  }
+
+  if (compareExportVersions(version, CURRENT_EXPORT_VERSION) > 0) {
+    throw new Error(
+      `This file uses export version ${version}, which is newer than the supported ${CURRENT_EXPORT_VERSION}`
+    );
+  }
+  if (!SUPPORTED_EXPORT_VERSIONS.includes(version)) {
+    throw new Error(`Unsupported export version ${version}`);
+  }
+
+  const sourceVersion = version;
+  while (version !== CURRENT_EXPORT_VERSION) {
+    const migration = MIGRATIONS.find(m => m.from === version);
+    if (!migration) {
+      throw new Error(`No migration from export version ${version}`);
+    }
+
+    const from = migration.from;
+    data = migration.migrate(data, change =>
+      changes.push({ ...change, from_version: from, to_version: migration.to })
+    );
+    steps.push(`${migration.from} -> ${migration.to}`);
+    version = migration.to;
+  }
+
+  data = normalizeCurrent(data, change =>
+    changes.push({ ...change, from_version: CURRENT_EXPORT_VERSION, to_version: CURRENT_EXPORT_VERSION })
+  );
+
+  return {
+    // Normalized to the current schema; validation reports anything still malformed
+    data: data as unknown as QuestionSetExportData,
+    report: {
+      source_version: sourceVersion,
+      target_version: CURRENT_EXPORT_VERSION,
+      steps,
+      changes,
+    },
+  };
+}
@@ -0,0 +1,86 @@
+// Rate limits are enforced by the database and the edge functions; these
+// helpers recognise their 429s so the UI can say how long to wait
+
+import type { RateLimitAction, RateLimitErrorResponse } from '../types/edgeFunctions';
+
+export type { RateLimitAction };
+
+// SQLSTATE the rate limit triggers raise; PostgREST answers it with a 429
+export const RATE_LIMIT_SQLSTATE = 'PT429';
+
+export interface RateLimitInfo {
+  action?: RateLimitAction;
+  retryAfterSeconds: number;
+  message: string;
+}
+
+export class RateLimitError extends Error {
+  readonly action?: RateLimitAction;
+  readonly retryAfterSeconds: number;
+
+  constructor(info: RateLimitInfo) {
+    super(info.message);
+    this.name = 'RateLimitError';
+    this.action = info.action;
+    this.retryAfterSeconds = info.retryAfterSeconds;
+  }
+}
+
+const DEFAULT_RETRY_SECONDS = 30;
+
+function parseDetails(details: unknown): Partial<RateLimitErrorResponse> {
+  if (typeof details !== 'string') return {};
+  try {
+    const parsed = JSON.parse(details);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Rate limit details from a RateLimitError, a PostgREST error raised by the
+ * rate limit triggers, a 429 body from an edge function or a 429 from
+ * Supabase Auth. Anything else returns null.
+ */
+export function getRateLimitInfo(error: unknown): RateLimitInfo | null {
+  if (error instanceof RateLimitError) {
+    return { action: error.action, retryAfterSeconds: error.retryAfterSeconds, message: error.message };
+  }
+  if (!error || typeof error !== 'object') return null;
+
+  const value = error as Record<string, unknown>;
+  const message = typeof value.message === 'string' && value.message
+    ? value.message
+    : typeof value.error === 'string' ? value.error : 'Too many requests. Please try again later.';
+
+  if (value.code === RATE_LIMIT_SQLSTATE || value.code === 'rate_limited') {
+    const details = value.code === 'rate_limited' ? (value as Partial<RateLimitErrorResponse>) : parseDetails(value.details);
+    return {
+      action: details.action,
+      retryAfterSeconds: Number(details.retryAfterSeconds) || DEFAULT_RETRY_SECONDS,
+      message,
+    };
+  }
+  if (value.status === 429) {
+    return { retryAfterSeconds: DEFAULT_RETRY_SECONDS, message };
+  }
+  return null;
+}
+
+export function isRateLimitError(error: unknown): boolean {
+  return getRateLimitInfo(error) !== null;
+}
+
+export function formatRetryAfter(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+// One line for forms that show errors inline
+export function describeRateLimit(info: RateLimitInfo): string {
+  return `${info.message} Try again in ${formatRetryAfter(info.retryAfterSeconds)}.`;
+}
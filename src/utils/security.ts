@@ -230,85 +230,6 @@ export const SecuritySchemas = {
     .transform(text => sanitizeText(text, 280)),
 } as const;
 
-// ==========================================
-// RATE LIMITING UTILITIES
-// ==========================================
-
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-}
-
-class RateLimiter {
-  private cache = new Map<string, RateLimitEntry>();
-  private readonly maxRequests: number;
-  private readonly windowMs: number;
-
-  constructor(maxRequests: number, windowMs: number) {
-    this.maxRequests = maxRequests;
-    this.windowMs = windowMs;
-  }
-
-  isAllowed(key: string): boolean {
-    const now = Date.now();
-    const entry = this.cache.get(key);
-
-    if (!entry || now > entry.resetTime) {
-      // First request or window expired
-      this.cache.set(key, {
-        count: 1,
-        resetTime: now + this.windowMs,
-      });
-      return true;
-    }
-
-    if (entry.count >= this.maxRequests) {
-      return false;
-    }
-
-    entry.count++;
-    return true;
-  }
-
-  getRemainingRequests(key: string): number {
-    const entry = this.cache.get(key);
-    if (!entry || Date.now() > entry.resetTime) {
-      return this.maxRequests;
-    }
-    return Math.max(0, this.maxRequests - entry.count);
-  }
-
-  getResetTime(key: string): number {
-    const entry = this.cache.get(key);
-    if (!entry || Date.now() > entry.resetTime) {
-      return 0;
-    }
-    return entry.resetTime;
-  }
-
-  clear(): void {
-    this.cache.clear();
-  }
-}
-
-// Create rate limiters for different actions
-export const rateLimiters = {
-  // Answer submissions: 10 per minute
-  answerSubmission: new RateLimiter(10, 60 * 1000),
-  
-  // Team creation: 3 per 5 minutes
-  teamCreation: new RateLimiter(3, 5 * 60 * 1000),
-  
-  // Game room creation: 5 per 10 minutes
-  gameRoomCreation: new RateLimiter(5, 10 * 60 * 1000),
-  
-  // Chat messages: 30 per minute
-  chatMessage: new RateLimiter(30, 60 * 1000),
-  
-  // Login attempts: 5 per 15 minutes
-  loginAttempt: new RateLimiter(5, 15 * 60 * 1000),
-} as const;
-
 // ==========================================
 // SECURITY VALIDATION HELPER
 // ==========================================
@@ -318,19 +239,9 @@ export const rateLimiters = {
  */
 export function validateSecurely<T>(
   schema: z.ZodSchema<T>,
-  data: unknown,
-  rateLimitKey?: string,
-  rateLimiter?: RateLimiter
+  data: unknown
 ): { success: true; data: T } | { success: false; error: string } {
   try {
-    // Check rate limiting first
-    if (rateLimitKey && rateLimiter && !rateLimiter.isAllowed(rateLimitKey)) {
-      return {
-        success: false,
-        error: 'Too many requests. Please try again later.',
-      };
-    }
-
     // Validate with Zod schema
     const result = schema.safeParse(data);
     
@@ -368,6 +279,5 @@ export default {
   filterProfanity,
   ValidationPatterns,
   SecuritySchemas,
-  rateLimiters,
   validateSecurely,
 }; 
\ No newline at end of file
@@ -0,0 +1,98 @@
+// String similarity utilities used for answer matching
+
+/**
+ * Compute the Levenshtein edit distance between two strings
+ * @param a - First string
+ * @param b - Second string
+ * @returns Number of single-character insertions, deletions or substitutions
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Levenshtein distance scaled to a 0-1 similarity
+ * @param a - First string
+ * @param b - Second string
+ * @returns 1 for identical strings, 0 for completely different strings
+ */
+export function levenshteinSimilarity(a: string, b: string): number {
+  const maxLength = Math.max(a.length, b.length);
+  if (maxLength === 0) return 1;
+  return 1 - levenshteinDistance(a, b) / maxLength;
+}
+
+/**
+ * Compute the Jaro-Winkler similarity between two strings
+ * @param a - First string
+ * @param b - Second string
+ * @param prefixScale - Weight given to a shared prefix (default: 0.1, max 0.25)
+ * @returns Similarity between 0 and 1
+ */
+export function jaroWinklerSimilarity(
+  a: string,
+  b: string,
+  prefixScale: number = 0.1
+): number {
+  if (a === b) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const matchWindow = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatches = new Array<boolean>(a.length).fill(false);
+  const bMatches = new Array<boolean>(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - matchWindow);
+    const end = Math.min(i + matchWindow + 1, b.length);
+    for (let j = start; j < end; j++) {
+      if (bMatches[j] || a[i] !== b[j]) continue;
+      aMatches[i] = true;
+      bMatches[j] = true;
+      matches++;
+      break;
+    }
+  }
+
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatches[i]) continue;
+    while (!bMatches[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (
+    matches / a.length +
+    matches / b.length +
+    (matches - transpositions / 2) / matches
+  ) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  return jaro + prefix * Math.min(prefixScale, 0.25) * (1 - jaro);
+}
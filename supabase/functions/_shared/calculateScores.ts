@@ -0,0 +1,153 @@
+import type {
+  CalculateScoresRequest,
+  ScoreCalculationResponse,
+  TeamScore,
+} from '../../../src/types/edgeFunctions.ts';
+import {
+  HttpError,
+  loadGameRoom,
+  loadGameState,
+  requireFields,
+  requireHost,
+  type Handler,
+  type HandlerContext,
+} from './context.ts';
+import type { ScoreLedgerRow, TeamAnswerRow, TeamRow } from './store.ts';
+
+/**
+ * Totals graded answers, plus the host's adjustments from the score ledger,
+ * into standings. Live updates are read-only and open to everyone in the
+ * game; closing a round or the game is host-only and writes the standings to
+ * team_scores.
+ */
+export const handleCalculateScores: Handler<CalculateScoresRequest, ScoreCalculationResponse> = async (
+  request,
+  context
+) => {
+  requireFields(request, ['gameId', 'action']);
+
+  if (request.action === 'live_update') {
+    await requireParticipant(context, request.gameId);
+  } else if (request.action === 'round_end' || request.action === 'game_end') {
+    await requireHost(context, request.gameId);
+  } else {
+    throw new HttpError(400, `Unknown action: ${(request as { action: string }).action}`);
+  }
+
+  const now = context.now();
+  if (request.action === 'round_end') {
+    await closeRound(context, request.gameId, request.roundId, now);
+  }
+
+  const [teams, answers, adjustments, rounds, totalQuestions] = await Promise.all([
+    context.store.getTeams(request.gameId),
+    context.store.getAnswers(request.gameId),
+    context.store.getScoreAdjustments(request.gameId),
+    context.store.getRounds(request.gameId),
+    context.store.countQuestions(request.gameId),
+  ]);
+
+  const standings = rankTeams(teams, answers, request.roundId, adjustments);
+  const totals = standings.map(team => team.totalScore);
+
+  if (request.action !== 'live_update') {
+    await context.store.saveTeamScores(
+      standings.map(team => ({
+        game_room_id: request.gameId,
+        team_id: team.teamId,
+        total_score: team.totalScore,
+        current_rank: team.rank,
+        correct_answers: team.correctAnswers,
+        total_answers: team.totalAnswers,
+        updated_at: now.toISOString(),
+      }))
+    );
+  }
+
+  return {
+    teams: standings,
+    gameStats: {
+      totalQuestions,
+      averageScore: totals.length ? Math.round((totals.reduce((a, b) => a + b, 0) / totals.length) * 100) / 100 : 0,
+      highestScore: totals.length ? Math.max(...totals) : 0,
+      completedRounds: rounds.filter(round => round.status === 'completed').length,
+    },
+  };
+};
+
+// Teams with equal totals share a rank (1, 1, 3). Adjustments are the
+// ledger's non-automatic entries; graded answers already cover the rest.
+export function rankTeams(
+  teams: TeamRow[],
+  answers: TeamAnswerRow[],
+  roundId?: string,
+  adjustments: ScoreLedgerRow[] = []
+): TeamScore[] {
+  const scores = teams.map(team => {
+    const teamAnswers = answers.filter(answer => answer.team_id === team.id);
+    const teamAdjustments = adjustments.filter(entry => entry.entity_type === 'team' && entry.entity_id === team.id);
+    const score: TeamScore = {
+      teamId: team.id,
+      teamName: team.name,
+      totalScore:
+        teamAnswers.reduce((sum, answer) => sum + answer.points_awarded, 0) +
+        teamAdjustments.reduce((sum, entry) => sum + entry.points, 0),
+      rank: 0,
+      correctAnswers: teamAnswers.filter(answer => answer.is_correct).length,
+      totalAnswers: teamAnswers.length,
+    };
+    if (roundId) {
+      score.roundScore =
+        teamAnswers
+          .filter(answer => answer.round_id === roundId)
+          .reduce((sum, answer) => sum + answer.points_awarded, 0) +
+        teamAdjustments
+          .filter(entry => entry.round_id === roundId)
+          .reduce((sum, entry) => sum + entry.points, 0);
+    }
+    return score;
+  });
+
+  scores.sort((a, b) => b.totalScore - a.totalScore || a.teamName.localeCompare(b.teamName));
+  scores.forEach((score, index) => {
+    const previous = scores[index - 1];
+    score.rank = previous && previous.totalScore === score.totalScore ? previous.rank : index + 1;
+  });
+  return scores;
+}
+
+async function requireParticipant(context: HandlerContext, gameId: string): Promise<void> {
+  const room = await loadGameRoom(context, gameId);
+  if (room.host_id === context.callerId) return;
+
+  const teams = await context.store.getTeams(gameId);
+  for (const team of teams) {
+    if (await context.store.isTeamMember(team.id, context.callerId)) return;
+  }
+  throw new HttpError(403, 'You are not playing in this game');
+}
+
+async function closeRound(context: HandlerContext, gameId: string, roundId: string | undefined, now: Date) {
+  const state = await loadGameState(context, gameId);
+  const targetId = roundId ?? state.current_round_id;
+  if (!targetId) {
+    throw new HttpError(409, 'No round to close');
+  }
+
+  const rounds = await context.store.getRounds(gameId);
+  const round = rounds.find(r => r.id === targetId);
+  if (!round) {
+    throw new HttpError(404, 'Round not found in this game');
+  }
+  if (round.status !== 'completed') {
+    await context.store.updateRound(round.id, { status: 'completed', ended_at: now.toISOString() });
+  }
+
+  if (state.current_round_id === round.id) {
+    await context.store.saveGameState({
+      ...state,
+      updated_at: now.toISOString(),
+      data: { ...state.data, roundStatus: 'completed', roundEndsAt: null, pausedRemaining: null },
+    });
+  }
+}
@@ -0,0 +1,20 @@
+import type { ClockPing, ClockPong } from '../../../src/services/clockSync.ts';
+import { requireFields, type Handler } from './context.ts';
+
+/**
+ * Answers a clock ping with the server's time. The server is the game's time
+ * authority: question deadlines are set and answers judged on this clock, so
+ * every device counts down against it.
+ */
+export const handleClockSync: Handler<ClockPing, ClockPong> = async (request, context) => {
+  requireFields(request, ['id', 'clientSentAt']);
+
+  return {
+    id: request.id,
+    clientSentAt: request.clientSentAt,
+    // Measured when the request arrived, before the caller was signed in,
+    // so the sign-in check does not count as network delay
+    serverReceivedAt: (context.receivedAt ?? context.now()).getTime(),
+    serverSentAt: context.now().getTime(),
+  };
+};
@@ -0,0 +1,111 @@
+import { GAME_CONSTRAINTS } from '../../../src/types/game.ts';
+import type { GameRoomRow, GameStateData, GameStateRow, GameStore } from './store.ts';
+
+// Thrown by handlers; the status and message are sent back to the caller
+export class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+// Everything a handler may use. callerId comes from the verified JWT, never
+// from the request body.
+export interface HandlerContext {
+  store: GameStore;
+  callerId: string;
+  now: () => Date;
+  // When the request reached the function
+  receivedAt?: Date;
+  // Overrides ANSWER_GRACE_SECONDS
+  answerGraceSeconds?: number;
+}
+
+export type Handler<TRequest, TResponse> = (
+  request: TRequest,
+  context: HandlerContext
+) => Promise<TResponse>;
+
+// Answers submitted this many seconds after the timer runs out still count
+export const ANSWER_GRACE_SECONDS = 2;
+
+export const IDLE_GAME_STATE: GameStateData = {
+  currentRound: 0,
+  roundStatus: 'waiting',
+  timeLimit: 0,
+  roundEndsAt: null,
+  pausedRemaining: null,
+};
+
+export function requireFields(request: object, fields: string[]): void {
+  const values = request as Record<string, unknown>;
+  const missing = fields.filter(field => values[field] === undefined || values[field] === null || values[field] === '');
+  if (missing.length > 0) {
+    throw new HttpError(400, `Missing required fields: ${missing.join(', ')}`);
+  }
+}
+
+export async function loadGameRoom(context: HandlerContext, gameId: string): Promise<GameRoomRow> {
+  const room = await context.store.getGameRoom(gameId);
+  if (!room) {
+    throw new HttpError(404, 'Game not found');
+  }
+  return room;
+}
+
+// The caller must be the game's host. A hostId in the request has to match
+// the signed-in account so nobody can act on another host's behalf.
+export async function requireHost(
+  context: HandlerContext,
+  gameId: string,
+  claimedHostId?: string
+): Promise<GameRoomRow> {
+  const room = await loadGameRoom(context, gameId);
+  if (room.host_id !== context.callerId || (claimedHostId && claimedHostId !== context.callerId)) {
+    throw new HttpError(403, 'Only the host can do that');
+  }
+  return room;
+}
+
+export async function requireTeamMember(context: HandlerContext, gameId: string, teamId: string): Promise<void> {
+  const team = await context.store.getTeam(teamId);
+  if (!team || team.room_id !== gameId) {
+    throw new HttpError(404, 'Team not found in this game');
+  }
+  if (!(await context.store.isTeamMember(teamId, context.callerId))) {
+    throw new HttpError(403, 'You are not on this team');
+  }
+}
+
+export async function loadGameState(context: HandlerContext, gameId: string): Promise<GameStateRow> {
+  const row = await context.store.getGameState(gameId);
+  return row ?? {
+    game_room_id: gameId,
+    current_round_id: null,
+    state: 'waiting',
+    data: { ...IDLE_GAME_STATE },
+    updated_at: context.now().toISOString(),
+  };
+}
+
+// Whole seconds left on the round timer
+export function getTimeRemaining(data: GameStateData, now: Date): number {
+  if (data.roundStatus === 'paused') {
+    return data.pausedRemaining ?? 0;
+  }
+  if (data.roundStatus !== 'active' || !data.roundEndsAt) {
+    return 0;
+  }
+  return Math.max(0, Math.ceil((new Date(data.roundEndsAt).getTime() - now.getTime()) / 1000));
+}
+
+// Point values a team can spend in a round, alternating like the client's
+// Last Call rounds
+export function pointValuesForRound(roundNumber: number): number[] {
+  return roundNumber % 2 === 1
+    ? [...GAME_CONSTRAINTS.LAST_CALL_ROUND_1_POINTS]
+    : [...GAME_CONSTRAINTS.LAST_CALL_ROUND_2_POINTS];
+}
@@ -0,0 +1,64 @@
+import type { DuePushReminder, GameStore, PushSubscriptionRow } from './store.ts';
+
+// What the service worker receives; url is where a tap on the notification goes
+export interface PushPayload {
+  title: string;
+  body: string;
+  url: string;
+  tag: string;
+}
+
+// 'expired' when the push service no longer knows the subscription
+export type PushDelivery = 'sent' | 'expired';
+
+export type PushSender = (subscription: PushSubscriptionRow, payload: PushPayload) => Promise<PushDelivery>;
+
+export interface SendRemindersResult {
+  reminders: number;
+  sent: number;
+  expired: number;
+  failed: number;
+}
+
+// Reminders deep-link to the join page with the room code filled in
+export function reminderPayload(reminder: DuePushReminder): PushPayload {
+  const minutes = reminder.time_before_minutes;
+  return {
+    title: minutes > 0 ? 'Game Starting Soon' : 'Game Starting Now!',
+    body: minutes > 0 ? `"${reminder.title}" starts in ${minutes} minutes!` : `"${reminder.title}" is starting now!`,
+    url: reminder.room_code ? `/game?code=${encodeURIComponent(reminder.room_code)}` : '/game',
+    tag: `game-reminder:${reminder.scheduled_game_id}`,
+  };
+}
+
+/**
+ * Sends the push reminders that have come due. Reminders are claimed
+ * before anything is sent, so overlapping runs never send one twice; a
+ * push that fails is not retried. Subscriptions the push service reports
+ * as gone are removed.
+ */
+export async function sendDueReminders(store: GameStore, send: PushSender, now: Date): Promise<SendRemindersResult> {
+  const reminders = await store.claimDuePushReminders(now);
+  const result: SendRemindersResult = { reminders: reminders.length, sent: 0, expired: 0, failed: 0 };
+  const expired: string[] = [];
+
+  for (const reminder of reminders) {
+    const payload = reminderPayload(reminder);
+    const deliveries = await Promise.allSettled(reminder.subscriptions.map(subscription => send(subscription, payload)));
+
+    deliveries.forEach((delivery, index) => {
+      if (delivery.status === 'rejected') {
+        console.error('Error sending push reminder:', delivery.reason);
+        result.failed++;
+      } else if (delivery.value === 'expired') {
+        expired.push(reminder.subscriptions[index].endpoint);
+        result.expired++;
+      } else {
+        result.sent++;
+      }
+    });
+  }
+
+  await store.deletePushSubscriptions([...new Set(expired)]);
+  return result;
+}
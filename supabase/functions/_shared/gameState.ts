@@ -0,0 +1,154 @@
+import type { GameStateRequest, GameStateResponse } from '../../../src/types/edgeFunctions.ts';
+import {
+  HttpError,
+  getTimeRemaining,
+  loadGameState,
+  requireFields,
+  requireHost,
+  type Handler,
+  type HandlerContext,
+} from './context.ts';
+import { rateGame } from './skillRatings.ts';
+import type { GameRoomStatus, GameStateRow } from './store.ts';
+
+const ALLOWED_FROM: Record<GameStateRequest['action'], GameRoomStatus[]> = {
+  start: ['waiting'],
+  pause: ['active'],
+  resume: ['paused'],
+  end: ['waiting', 'active', 'paused'],
+  next_round: ['active'],
+};
+
+const MESSAGES: Record<GameStateRequest['action'], string> = {
+  start: 'Game started',
+  pause: 'Game paused',
+  resume: 'Game resumed',
+  end: 'Game ended',
+  next_round: 'Moved to the next round',
+};
+
+/**
+ * Host-only game lifecycle. The room status and round timer live in the
+ * database, so a client that edits its local state changes nothing. Ending
+ * a game rates its teams and players.
+ */
+export const handleManageGameState: Handler<GameStateRequest, GameStateResponse> = async (request, context) => {
+  requireFields(request, ['action', 'gameId', 'hostId']);
+  const room = await requireHost(context, request.gameId, request.hostId);
+
+  if (!(request.action in ALLOWED_FROM)) {
+    throw new HttpError(400, `Unknown action: ${request.action}`);
+  }
+  if (!ALLOWED_FROM[request.action].includes(room.status)) {
+    throw new HttpError(409, `Cannot ${request.action.replace('_', ' ')} a game that is ${room.status}`);
+  }
+
+  const now = context.now();
+  const current = await loadGameState(context, request.gameId);
+  const next = await applyAction(request, current, context, now);
+
+  await context.store.updateGameRoom(request.gameId, {
+    status: next.state,
+    ...(request.action === 'start' ? { started_at: now.toISOString() } : {}),
+    ...(request.action === 'end' ? { ended_at: now.toISOString() } : {}),
+  });
+  await context.store.saveGameState(next);
+
+  // Ratings are bookkeeping; a failure here shouldn't undo ending the game
+  if (request.action === 'end') {
+    try {
+      await rateGame(context, request.gameId);
+    } catch (rateError) {
+      console.error('Error rating game:', rateError);
+    }
+  }
+
+  return {
+    success: true,
+    gameState: {
+      status: next.state,
+      currentRound: next.data.currentRound,
+      roundStatus: next.data.roundStatus,
+      timeRemaining: getTimeRemaining(next.data, now),
+    },
+    message: MESSAGES[request.action],
+  };
+};
+
+async function applyAction(
+  request: GameStateRequest,
+  current: GameStateRow,
+  context: HandlerContext,
+  now: Date
+): Promise<GameStateRow> {
+  const data = { ...current.data };
+  const base = { ...current, updated_at: now.toISOString() };
+
+  switch (request.action) {
+    case 'start':
+      return {
+        ...base,
+        state: 'active',
+        data: request.roundData
+          ? { ...data, currentRound: request.roundData.roundNumber, timeLimit: request.roundData.timeLimit }
+          : data,
+      };
+
+    case 'pause':
+      return {
+        ...base,
+        state: 'paused',
+        data: data.roundStatus === 'active'
+          ? { ...data, roundStatus: 'paused', pausedRemaining: getTimeRemaining(data, now), roundEndsAt: null }
+          : data,
+      };
+
+    case 'resume':
+      return {
+        ...base,
+        state: 'active',
+        data: data.roundStatus === 'paused'
+          ? {
+              ...data,
+              roundStatus: 'active',
+              roundEndsAt: new Date(now.getTime() + (data.pausedRemaining ?? 0) * 1000).toISOString(),
+              pausedRemaining: null,
+            }
+          : data,
+      };
+
+    case 'end':
+      await completeOpenRounds(context, request.gameId, now);
+      return {
+        ...base,
+        state: 'finished',
+        data: { ...data, roundStatus: 'completed', roundEndsAt: null, pausedRemaining: null },
+      };
+
+    case 'next_round': {
+      await completeOpenRounds(context, request.gameId, now);
+      const roundNumber = request.roundData?.roundNumber ?? data.currentRound + 1;
+      if (roundNumber <= data.currentRound) {
+        throw new HttpError(409, `Round ${roundNumber} has already been played`);
+      }
+      return {
+        ...base,
+        current_round_id: null,
+        data: {
+          currentRound: roundNumber,
+          roundStatus: 'waiting',
+          timeLimit: request.roundData?.timeLimit ?? data.timeLimit,
+          roundEndsAt: null,
+          pausedRemaining: null,
+        },
+      };
+    }
+  }
+}
+
+async function completeOpenRounds(context: HandlerContext, gameId: string, now: Date): Promise<void> {
+  const rounds = await context.store.getRounds(gameId);
+  for (const round of rounds.filter(r => r.status !== 'completed')) {
+    await context.store.updateRound(round.id, { status: 'completed', ended_at: now.toISOString() });
+  }
+}
@@ -0,0 +1,272 @@
+import type {
+  DuePushReminder,
+  GameQuestionRow,
+  GameRoomRow,
+  GameRoundRow,
+  GameStateRow,
+  GameStore,
+  NewRow,
+  PointUsageRow,
+  PushSubscriptionRow,
+  RateLimitBucketRow,
+  RatingSourceType,
+  ScoreLedgerRow,
+  SkillRatingRow,
+  SkillRatingUpdate,
+  TeamAnswerRow,
+  TeamRow,
+  TeamScoreRow,
+  TournamentMatchRow,
+} from './store.ts';
+import type { SkillRatingEntity } from '../../../src/types/edgeFunctions.ts';
+import { RATE_LIMIT_POLICIES, takeToken, type RateLimitAction } from './rateLimit.ts';
+
+/**
+ * In-memory stand-in for Postgres used by the local harness. It keeps the
+ * unique keys from the migration so double-spends and double answers fail
+ * the same way they do against the real tables.
+ */
+export class MemoryGameStore implements GameStore {
+  gameRooms: GameRoomRow[] = [];
+  gameStates: GameStateRow[] = [];
+  teams: TeamRow[] = [];
+  teamMembers: { team_id: string; user_id: string }[] = [];
+  rounds: GameRoundRow[] = [];
+  questions: GameQuestionRow[] = [];
+  pointUsage: PointUsageRow[] = [];
+  answers: TeamAnswerRow[] = [];
+  teamScores: TeamScoreRow[] = [];
+  scoreLedger: ScoreLedgerRow[] = [];
+  rateLimitBuckets: RateLimitBucketRow[] = [];
+  tournamentMatches: TournamentMatchRow[] = [];
+  skillRatings: SkillRatingRow[] = [];
+  ratingHistory: (SkillRatingUpdate & { source_type: RatingSourceType; source_id: string })[] = [];
+  // room_code stands in for the join to game_rooms
+  scheduledGames: { id: string; title: string; scheduled_for: string; status: string; room_code: string | null }[] = [];
+  scheduledGameReminders: {
+    id: string;
+    scheduled_game_id: string;
+    reminder_type: 'email' | 'push' | 'in_app';
+    time_before_minutes: number;
+    sent_at: string | null;
+  }[] = [];
+  scheduledGameParticipants: { scheduled_game_id: string; user_id: string; rsvp_status: string }[] = [];
+  pushSubscriptions: PushSubscriptionRow[] = [];
+
+  private nextId = 1;
+
+  private id(prefix: string): string {
+    return `${prefix}-${this.nextId++}`;
+  }
+
+  async getGameRoom(gameId: string) {
+    return copy(this.gameRooms.find(room => room.id === gameId) ?? null);
+  }
+
+  async updateGameRoom(gameId: string, patch: Partial<Omit<GameRoomRow, 'id' | 'host_id'>>) {
+    const room = this.gameRooms.find(r => r.id === gameId);
+    if (room) Object.assign(room, patch);
+  }
+
+  async getGameState(gameId: string) {
+    return copy(this.gameStates.find(state => state.game_room_id === gameId) ?? null);
+  }
+
+  async saveGameState(row: GameStateRow) {
+    this.gameStates = [...this.gameStates.filter(state => state.game_room_id !== row.game_room_id), copy(row)];
+  }
+
+  async getTeam(teamId: string) {
+    return copy(this.teams.find(team => team.id === teamId) ?? null);
+  }
+
+  async getTeams(gameId: string) {
+    return copy(this.teams.filter(team => team.room_id === gameId));
+  }
+
+  async isTeamMember(teamId: string, userId: string) {
+    return this.teamMembers.some(member => member.team_id === teamId && member.user_id === userId);
+  }
+
+  async getTeamMembers(teamId: string) {
+    return this.teamMembers.filter(member => member.team_id === teamId).map(member => member.user_id);
+  }
+
+  async insertRound(row: NewRow<GameRoundRow>) {
+    if (this.rounds.some(r => r.game_room_id === row.game_room_id && r.round_number === row.round_number)) {
+      throw new Error('Failed to create round: duplicate key value violates unique constraint');
+    }
+    const round = { ...copy(row), id: this.id('round') };
+    this.rounds.push(round);
+    return copy(round);
+  }
+
+  async getRounds(gameId: string) {
+    return copy(
+      this.rounds.filter(round => round.game_room_id === gameId).sort((a, b) => a.round_number - b.round_number)
+    );
+  }
+
+  async updateRound(roundId: string, patch: Partial<Pick<GameRoundRow, 'status' | 'ended_at'>>) {
+    const round = this.rounds.find(r => r.id === roundId);
+    if (round) Object.assign(round, patch);
+  }
+
+  async insertQuestions(rows: NewRow<GameQuestionRow>[]) {
+    const inserted = rows.map(row => ({ ...copy(row), id: this.id('question') }));
+    this.questions.push(...inserted);
+    return copy(inserted);
+  }
+
+  async getQuestion(questionId: string) {
+    return copy(this.questions.find(question => question.id === questionId) ?? null);
+  }
+
+  async countQuestions(gameId: string) {
+    return this.questions.filter(question => question.game_room_id === gameId).length;
+  }
+
+  async getPointUsage(gameId: string, teamId: string, roundNumber: number) {
+    return copy(
+      this.pointUsage.filter(
+        row => row.game_room_id === gameId && row.team_id === teamId && row.round_number === roundNumber
+      )
+    );
+  }
+
+  async insertPointUsage(row: NewRow<PointUsageRow>) {
+    const clash = this.pointUsage.some(existing =>
+      existing.team_id === row.team_id && (
+        (existing.game_room_id === row.game_room_id &&
+          existing.round_number === row.round_number &&
+          existing.point_value === row.point_value) ||
+        (row.question_id !== null && existing.question_id === row.question_id)
+      )
+    );
+    if (clash) return null;
+
+    const usage = { ...copy(row), id: this.id('usage') };
+    this.pointUsage.push(usage);
+    return copy(usage);
+  }
+
+  async deletePointUsage(ids: string[]) {
+    this.pointUsage = this.pointUsage.filter(row => !ids.includes(row.id));
+  }
+
+  async getAnswer(teamId: string, questionId: string) {
+    return copy(this.answers.find(answer => answer.team_id === teamId && answer.question_id === questionId) ?? null);
+  }
+
+  async insertAnswer(row: NewRow<TeamAnswerRow>) {
+    if (this.answers.some(answer => answer.team_id === row.team_id && answer.question_id === row.question_id)) {
+      return null;
+    }
+    const answer = { ...copy(row), id: this.id('answer') };
+    this.answers.push(answer);
+    return copy(answer);
+  }
+
+  async getAnswers(gameId: string) {
+    return copy(this.answers.filter(answer => answer.game_room_id === gameId));
+  }
+
+  async saveTeamScores(rows: TeamScoreRow[]) {
+    for (const row of rows) {
+      this.teamScores = [
+        ...this.teamScores.filter(s => !(s.team_id === row.team_id && s.game_room_id === row.game_room_id)),
+        copy(row),
+      ];
+    }
+  }
+
+  async getScoreAdjustments(gameId: string) {
+    return copy(
+      this.scoreLedger
+        .filter(entry => entry.game_room_id === gameId && entry.entity_type === 'team' && entry.entry_type !== 'automatic')
+        .sort((a, b) => a.sequence - b.sequence)
+    );
+  }
+
+  async takeRateLimitToken(action: RateLimitAction, subject: string, now: Date) {
+    const existing = this.rateLimitBuckets.find(bucket => bucket.action === action && bucket.subject === subject);
+    const { bucket, result } = takeToken(existing ?? null, RATE_LIMIT_POLICIES[action], now);
+    if (existing) {
+      Object.assign(existing, bucket);
+    } else {
+      this.rateLimitBuckets.push({ action, subject, ...bucket });
+    }
+    return result;
+  }
+
+  async getTournamentMatch(matchId: string) {
+    return copy(this.tournamentMatches.find(match => match.id === matchId) ?? null);
+  }
+
+  async getSkillRatings(entityType: SkillRatingEntity, entityIds: string[]) {
+    return copy(this.skillRatings.filter(row => row.entity_type === entityType && entityIds.includes(row.entity_id)));
+  }
+
+  async recordSkillRatings(sourceType: RatingSourceType, sourceId: string, updates: SkillRatingUpdate[]) {
+    if (this.ratingHistory.some(entry => entry.source_type === sourceType && entry.source_id === sourceId)) {
+      return false;
+    }
+    for (const update of updates) {
+      const existing = this.skillRatings.find(
+        row => row.entity_type === update.entity_type && row.entity_id === update.entity_id
+      );
+      const row: SkillRatingRow = {
+        entity_type: update.entity_type,
+        entity_id: update.entity_id,
+        rating: update.rating,
+        deviation: update.deviation,
+        volatility: update.volatility,
+        league: update.league,
+        games_rated: (existing?.games_rated ?? 0) + 1,
+        updated_at: new Date().toISOString(),
+      };
+      if (existing) {
+        Object.assign(existing, row);
+      } else {
+        this.skillRatings.push(row);
+      }
+      this.ratingHistory.push({ ...copy(update), source_type: sourceType, source_id: sourceId });
+    }
+    return true;
+  }
+
+  async claimDuePushReminders(now: Date) {
+    const claimed: DuePushReminder[] = [];
+    for (const reminder of this.scheduledGameReminders) {
+      const game = this.scheduledGames.find(g => g.id === reminder.scheduled_game_id);
+      if (!game || reminder.reminder_type !== 'push' || reminder.sent_at || game.status !== 'scheduled') continue;
+
+      const startsAt = new Date(game.scheduled_for).getTime();
+      if (startsAt < now.getTime() || startsAt - reminder.time_before_minutes * 60000 > now.getTime()) continue;
+
+      reminder.sent_at = now.toISOString();
+      const accepted = this.scheduledGameParticipants
+        .filter(p => p.scheduled_game_id === game.id && p.rsvp_status === 'accepted')
+        .map(p => p.user_id);
+      claimed.push({
+        reminder_id: reminder.id,
+        scheduled_game_id: game.id,
+        title: game.title,
+        scheduled_for: game.scheduled_for,
+        time_before_minutes: reminder.time_before_minutes,
+        room_code: game.room_code,
+        subscriptions: copy(this.pushSubscriptions.filter(s => accepted.includes(s.user_id))),
+      });
+    }
+    return claimed;
+  }
+
+  async deletePushSubscriptions(endpoints: string[]) {
+    this.pushSubscriptions = this.pushSubscriptions.filter(s => !endpoints.includes(s.endpoint));
+  }
+}
+
+// Rows leave the store as copies, like rows read back from the database
+function copy<T>(value: T): T {
+  return value === null ? value : structuredClone(value);
+}
@@ -0,0 +1,161 @@
+import type { PointUsageRequest, PointUsageResponse } from '../../../src/types/edgeFunctions.ts';
+import {
+  HttpError,
+  getTimeRemaining,
+  loadGameRoom,
+  loadGameState,
+  requireFields,
+  requireHost,
+  requireTeamMember,
+  type Handler,
+  type HandlerContext,
+} from './context.ts';
+import type { GameRoundRow, PointUsageRow } from './store.ts';
+
+/**
+ * Spends and returns a team's point values for the current round. Each
+ * value can back one question per round; the unique keys on the usage
+ * table stop two devices spending the same value at once. A wager replayed
+ * with the idempotency key it was made with returns the balance again.
+ */
+export const handlePointUsage: Handler<PointUsageRequest, PointUsageResponse> = async (request, context) => {
+  requireFields(request, ['teamId', 'action', 'gameId']);
+
+  if (request.action === 'reset') {
+    await requireHost(context, request.gameId);
+  } else if (request.action === 'check_balance') {
+    const room = await loadGameRoom(context, request.gameId);
+    if (room.host_id !== context.callerId) {
+      await requireTeamMember(context, request.gameId, request.teamId);
+    }
+  } else {
+    await requireTeamMember(context, request.gameId, request.teamId);
+  }
+
+  const round = await loadCurrentRound(context, request.gameId);
+  if (!round) {
+    if (request.action === 'check_balance') {
+      return summarize([], [], 'No round is running');
+    }
+    throw new HttpError(409, 'No round is running');
+  }
+
+  const usage = await context.store.getPointUsage(request.gameId, request.teamId, round.round_number);
+
+  switch (request.action) {
+    case 'check_balance':
+      return summarize(round.point_values, usage);
+
+    case 'wager': {
+      const replayed = request.idempotencyKey
+        ? usage.find(row => row.idempotency_key === request.idempotencyKey)
+        : undefined;
+      if (replayed) {
+        return summarize(round.point_values, usage, `Wagered ${replayed.point_value} points`);
+      }
+
+      await requireOpenRound(context, request.gameId);
+      const questionId = await requireRoundQuestion(context, round, request.questionId);
+      if (!round.point_values.includes(request.pointValue)) {
+        throw new HttpError(400, `${request.pointValue} is not a point value in round ${round.round_number}`);
+      }
+
+      const spent = await context.store.insertPointUsage({
+        game_room_id: request.gameId,
+        team_id: request.teamId,
+        round_number: round.round_number,
+        point_value: request.pointValue,
+        question_id: questionId,
+        idempotency_key: request.idempotencyKey ?? null,
+        created_at: context.now().toISOString(),
+      });
+      if (!spent) {
+        const sameQuestion = usage.some(row => row.question_id === questionId);
+        throw new HttpError(
+          409,
+          sameQuestion
+            ? 'Your team already wagered on this question'
+            : `Your team already used ${request.pointValue} points this round`
+        );
+      }
+      return summarize(round.point_values, [...usage, spent], `Wagered ${request.pointValue} points`);
+    }
+
+    case 'refund': {
+      const questionId = await requireRoundQuestion(context, round, request.questionId);
+      const wager = usage.find(row => row.question_id === questionId && row.point_value === request.pointValue);
+      if (!wager) {
+        throw new HttpError(404, 'No matching wager to refund');
+      }
+      if (await context.store.getAnswer(request.teamId, questionId)) {
+        throw new HttpError(409, 'Points cannot be refunded once the answer has been graded');
+      }
+
+      await context.store.deletePointUsage([wager.id]);
+      return summarize(
+        round.point_values,
+        usage.filter(row => row.id !== wager.id),
+        `Refunded ${request.pointValue} points`
+      );
+    }
+
+    case 'reset':
+      await context.store.deletePointUsage(usage.map(row => row.id));
+      return summarize(round.point_values, [], 'Point values reset for this round');
+
+    default:
+      throw new HttpError(400, `Unknown action: ${(request as { action: string }).action}`);
+  }
+};
+
+async function loadCurrentRound(context: HandlerContext, gameId: string): Promise<GameRoundRow | null> {
+  const state = await loadGameState(context, gameId);
+  if (!state.current_round_id) return null;
+
+  const rounds = await context.store.getRounds(gameId);
+  return rounds.find(round => round.id === state.current_round_id) ?? null;
+}
+
+async function requireOpenRound(context: HandlerContext, gameId: string): Promise<void> {
+  const state = await loadGameState(context, gameId);
+  if (state.data.roundStatus !== 'active' || getTimeRemaining(state.data, context.now()) <= 0) {
+    throw new HttpError(409, 'Wagers are closed for this round');
+  }
+}
+
+async function requireRoundQuestion(
+  context: HandlerContext,
+  round: GameRoundRow,
+  questionId: string | undefined
+): Promise<string> {
+  if (!questionId) {
+    throw new HttpError(400, 'Missing required fields: questionId');
+  }
+  const question = await context.store.getQuestion(questionId);
+  if (!question || question.round_id !== round.id) {
+    throw new HttpError(404, 'Question not found in the current round');
+  }
+  return questionId;
+}
+
+function summarize(pointValues: number[], usage: PointUsageRow[], message?: string): PointUsageResponse {
+  const used = usage.map(row => row.point_value);
+  const availablePoints: { [key: number]: number } = {};
+  for (const value of pointValues) {
+    availablePoints[value] = (availablePoints[value] ?? 0) + 1;
+  }
+  for (const value of used) {
+    if (availablePoints[value]) availablePoints[value] -= 1;
+  }
+
+  const usedPoints = used.reduce((sum, value) => sum + value, 0);
+  const totalPoints = pointValues.reduce((sum, value) => sum + value, 0);
+
+  return {
+    success: true,
+    remainingPoints: totalPoints - usedPoints,
+    usedPoints,
+    availablePoints,
+    ...(message ? { message } : {}),
+  };
+}
@@ -0,0 +1,96 @@
+import type { RateLimitAction } from '../../../src/types/edgeFunctions.ts';
+import { HttpError, type HandlerContext } from './context.ts';
+import type { RateLimitBucketRow } from './store.ts';
+
+export type { RateLimitAction };
+
+export interface RateLimitPolicy {
+  capacity: number;
+  // Seconds to earn back one token
+  refillSeconds: number;
+  message: string;
+}
+
+// Same policies the rate limits migration seeds
+export const RATE_LIMIT_POLICIES: Record<RateLimitAction, RateLimitPolicy> = {
+  answer_submission: {
+    capacity: 10,
+    refillSeconds: 6,
+    message: 'Too many answer submissions. Please wait before submitting again.',
+  },
+  chat_message: {
+    capacity: 10,
+    refillSeconds: 2,
+    message: 'Too many messages. Please slow down.',
+  },
+  team_creation: {
+    capacity: 3,
+    refillSeconds: 100,
+    message: 'Team creation limit reached. Please wait before creating another team.',
+  },
+  game_room_creation: {
+    capacity: 5,
+    refillSeconds: 120,
+    message: 'Game room creation limit reached. Please wait before creating another room.',
+  },
+};
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+// Sent back as a 429 with the action and how long to wait
+export class RateLimitError extends HttpError {
+  readonly action: RateLimitAction;
+  readonly retryAfterSeconds: number;
+
+  constructor(action: RateLimitAction, retryAfterSeconds: number) {
+    super(429, RATE_LIMIT_POLICIES[action].message);
+    this.name = 'RateLimitError';
+    this.action = action;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * Refills the bucket for the time since it was last touched and spends a
+ * token if there is one. Mirrors take_rate_limit_token.
+ */
+export function takeToken(
+  bucket: RateLimitBucketRow | null,
+  policy: RateLimitPolicy,
+  now: Date
+): { bucket: Pick<RateLimitBucketRow, 'tokens' | 'refilled_at'>; result: RateLimitResult } {
+  const elapsedSeconds = bucket ? (now.getTime() - new Date(bucket.refilled_at).getTime()) / 1000 : 0;
+  const tokens = bucket
+    ? Math.min(policy.capacity, bucket.tokens + Math.max(0, elapsedSeconds) / policy.refillSeconds)
+    : policy.capacity;
+  const refilled_at = now.toISOString();
+
+  if (tokens >= 1) {
+    return {
+      bucket: { tokens: tokens - 1, refilled_at },
+      result: { allowed: true, remaining: Math.floor(tokens - 1), retryAfterSeconds: 0 },
+    };
+  }
+  return {
+    bucket: { tokens, refilled_at },
+    result: { allowed: false, remaining: 0, retryAfterSeconds: Math.ceil((1 - tokens) * policy.refillSeconds) },
+  };
+}
+
+// Spends one of the caller's tokens for the action, per game when there is
+// one, or throws a RateLimitError
+export async function enforceRateLimit(
+  context: HandlerContext,
+  action: RateLimitAction,
+  gameId?: string
+): Promise<void> {
+  const subject = gameId ? `user:${context.callerId}:room:${gameId}` : `user:${context.callerId}`;
+  const result = await context.store.takeRateLimitToken(action, subject, context.now());
+  if (!result.allowed) {
+    throw new RateLimitError(action, result.retryAfterSeconds);
+  }
+}
@@ -0,0 +1,89 @@
+import { createClient } from '@supabase/supabase-js';
+import type { RateLimitErrorResponse } from '../../../src/types/edgeFunctions.ts';
+import { HttpError, type Handler } from './context.ts';
+import { RateLimitError } from './rateLimit.ts';
+import { SupabaseGameStore } from './supabaseStore.ts';
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Expose-Headers': 'retry-after',
+};
+
+export function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function graceFromEnv(): number | undefined {
+  const seconds = Number(Deno.env.get('ANSWER_GRACE_SECONDS'));
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined;
+}
+
+/**
+ * Serves a handler: answers CORS preflights and health checks, resolves the
+ * caller from their JWT and runs the handler with a service-role store.
+ */
+export function serve<TRequest, TResponse>(handler: Handler<TRequest, TResponse>): void {
+  Deno.serve(async (req: Request) => {
+    const receivedAt = new Date();
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { headers: corsHeaders });
+    }
+
+    try {
+      let body: TRequest & { action?: string };
+      try {
+        body = await req.json();
+      } catch {
+        throw new HttpError(400, 'Request body must be JSON');
+      }
+
+      if (body?.action === 'health_check') {
+        return json({ status: 'ok' });
+      }
+
+      const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+      if (!token) {
+        throw new HttpError(401, 'Sign in to play');
+      }
+
+      const admin = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+        { auth: { persistSession: false, autoRefreshToken: false } }
+      );
+      const { data: { user }, error } = await admin.auth.getUser(token);
+      if (error || !user) {
+        throw new HttpError(401, 'Sign in to play');
+      }
+
+      const result = await handler(body, {
+        store: new SupabaseGameStore(admin),
+        callerId: user.id,
+        now: () => new Date(),
+        receivedAt,
+        answerGraceSeconds: graceFromEnv(),
+      });
+      return json(result);
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        const body: RateLimitErrorResponse = {
+          error: error.message,
+          code: 'rate_limited',
+          action: error.action,
+          retryAfterSeconds: error.retryAfterSeconds,
+        };
+        return json(body, error.status, { 'Retry-After': String(error.retryAfterSeconds) });
+      }
+      if (error instanceof HttpError) {
+        return json({ error: error.message }, error.status);
+      }
+      console.error('Edge function failed:', error);
+      return json({ error: 'Something went wrong on the server' }, 500);
+    }
+  });
+}
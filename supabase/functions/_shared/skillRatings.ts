@@ -0,0 +1,170 @@
+import type {
+  RateMatchRequest,
+  RateMatchResponse,
+  SkillRatingChange,
+  SkillRatingEntity,
+} from '../../../src/types/edgeFunctions.ts';
+import {
+  DEFAULT_RATING,
+  combineRatings,
+  leagueForRating,
+  rateRanking,
+  rankingResults,
+  updateRating,
+  type Glicko2Rating,
+  type RankedEntry,
+} from '../../../src/utils/glicko2.ts';
+import { rankTeams } from './calculateScores.ts';
+import { HttpError, requireFields, type Handler, type HandlerContext } from './context.ts';
+import type { RatingSourceType, SkillRatingUpdate } from './store.ts';
+
+interface RankedTeam {
+  teamId: string;
+  rank: number;
+}
+
+async function loadRatings(
+  context: HandlerContext,
+  entityType: SkillRatingEntity,
+  entityIds: string[]
+): Promise<Map<string, Glicko2Rating>> {
+  const rows = await context.store.getSkillRatings(entityType, entityIds);
+  return new Map(
+    entityIds.map(id => {
+      const row = rows.find(r => r.entity_id === id);
+      return [id, row ? { rating: row.rating, deviation: row.deviation, volatility: row.volatility } : { ...DEFAULT_RATING }];
+    })
+  );
+}
+
+function toUpdate(
+  entityType: SkillRatingEntity,
+  entityId: string,
+  before: Glicko2Rating,
+  after: Glicko2Rating,
+  rank: number,
+  fieldSize: number
+): SkillRatingUpdate {
+  return {
+    entity_type: entityType,
+    entity_id: entityId,
+    rating: after.rating,
+    deviation: after.deviation,
+    volatility: after.volatility,
+    league: leagueForRating(after),
+    rating_before: before.rating,
+    deviation_before: before.deviation,
+    rank,
+    field_size: fieldSize,
+  };
+}
+
+/**
+ * Rates the teams of a finished ranking and everyone on them. Teams are
+ * compared with each other; players are compared with the other teams'
+ * lineups, a lineup being its members' ratings combined. Resolves to null
+ * when the game or match was already rated.
+ */
+export async function rateTeams(
+  context: HandlerContext,
+  sourceType: RatingSourceType,
+  sourceId: string,
+  ranking: RankedTeam[]
+): Promise<SkillRatingChange[] | null> {
+  if (ranking.length < 2) return [];
+
+  const teamIds = ranking.map(team => team.teamId);
+  const members = new Map(
+    await Promise.all(teamIds.map(async id => [id, await context.store.getTeamMembers(id)] as const))
+  );
+  const playerIds = [...new Set(teamIds.flatMap(id => members.get(id) ?? []))];
+  const [teamRatings, playerRatings] = await Promise.all([
+    loadRatings(context, 'team', teamIds),
+    loadRatings(context, 'player', playerIds),
+  ]);
+
+  const teams: RankedEntry[] = ranking.map(team => ({
+    id: team.teamId,
+    rating: teamRatings.get(team.teamId) ?? { ...DEFAULT_RATING },
+    rank: team.rank,
+  }));
+  const newTeamRatings = rateRanking(teams);
+  const updates = teams.map(team =>
+    toUpdate('team', team.id, team.rating, newTeamRatings.get(team.id) ?? team.rating, team.rank, ranking.length)
+  );
+
+  const lineups: RankedEntry[] = teams
+    .filter(team => (members.get(team.id) ?? []).length > 0)
+    .map(team => ({
+      ...team,
+      rating: combineRatings((members.get(team.id) ?? []).map(id => playerRatings.get(id) ?? DEFAULT_RATING)),
+    }));
+  const rated = new Set<string>();
+  for (const lineup of lineups) {
+    const results = rankingResults(lineup, lineups);
+    for (const playerId of members.get(lineup.id) ?? []) {
+      // Someone listed on two teams is rated once, with the first
+      if (rated.has(playerId)) continue;
+      rated.add(playerId);
+      const before = playerRatings.get(playerId) ?? { ...DEFAULT_RATING };
+      updates.push(toUpdate('player', playerId, before, updateRating(before, results), lineup.rank, ranking.length));
+    }
+  }
+
+  if (!(await context.store.recordSkillRatings(sourceType, sourceId, updates))) {
+    return null;
+  }
+  return updates.map(update => ({
+    entityType: update.entity_type,
+    entityId: update.entity_id,
+    ratingBefore: update.rating_before,
+    rating: update.rating,
+    deviation: update.deviation,
+    league: update.league,
+  }));
+}
+
+// Rates a game that just ended by its final standings. Teams that never
+// answered sat the game out.
+export async function rateGame(context: HandlerContext, gameId: string): Promise<SkillRatingChange[] | null> {
+  const [teams, answers, adjustments] = await Promise.all([
+    context.store.getTeams(gameId),
+    context.store.getAnswers(gameId),
+    context.store.getScoreAdjustments(gameId),
+  ]);
+  const standings = rankTeams(teams, answers, undefined, adjustments).filter(team => team.totalAnswers > 0);
+  return rateTeams(context, 'game', gameId, standings.map(team => ({ teamId: team.teamId, rank: team.rank })));
+}
+
+/**
+ * Rates a completed tournament match between two teams. Matches played in
+ * a game room were already rated when that game ended.
+ */
+export const handleRateMatch: Handler<RateMatchRequest, RateMatchResponse> = async (request, context) => {
+  requireFields(request, ['matchId']);
+
+  const match = await context.store.getTournamentMatch(request.matchId);
+  if (!match) {
+    throw new HttpError(404, 'Match not found');
+  }
+  if (match.host_id !== context.callerId) {
+    throw new HttpError(403, 'Only the tournament host can do that');
+  }
+  if (match.status !== 'completed' || !match.team1_id || !match.team2_id) {
+    throw new HttpError(409, 'Only completed matches between two teams are rated');
+  }
+  if (match.game_room_id) {
+    return { rated: false, changes: [] };
+  }
+
+  const team1Won = match.winner_team_id
+    ? match.winner_team_id === match.team1_id
+    : match.team1_score > match.team2_score;
+  const draw = !match.winner_team_id && match.team1_score === match.team2_score;
+  const changes = await rateTeams(context, 'tournament_match', match.id, [
+    { teamId: match.team1_id, rank: draw || team1Won ? 1 : 2 },
+    { teamId: match.team2_id, rank: draw || !team1Won ? 1 : 2 },
+  ]);
+
+  return changes ? { rated: true, changes } : { rated: false, changes: [] };
+};
@@ -0,0 +1,129 @@
+import type { StartRoundRequest, StartRoundResponse } from '../../../src/types/edgeFunctions.ts';
+import { GAME_CONSTRAINTS } from '../../../src/types/game.ts';
+import {
+  HttpError,
+  getTimeRemaining,
+  loadGameState,
+  pointValuesForRound,
+  requireFields,
+  requireHost,
+  type Handler,
+} from './context.ts';
+
+const ROUND_TYPES: StartRoundRequest['roundType'][] = ['standard', 'picture', 'wager', 'lightning'];
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+/**
+ * Opens a round: stores its questions with their answers server-side and
+ * starts the round timer. Only the host can start rounds, one at a time.
+ */
+export const handleStartGameRound: Handler<StartRoundRequest, StartRoundResponse> = async (request, context) => {
+  requireFields(request, ['gameId', 'hostId', 'roundNumber', 'roundType', 'timeLimit', 'questions']);
+  const room = await requireHost(context, request.gameId, request.hostId);
+
+  if (room.status !== 'active') {
+    throw new HttpError(409, `Cannot start a round while the game is ${room.status}`);
+  }
+  if (!ROUND_TYPES.includes(request.roundType)) {
+    throw new HttpError(400, `Unknown round type: ${request.roundType}`);
+  }
+  if (
+    !Number.isInteger(request.timeLimit) ||
+    request.timeLimit < GAME_CONSTRAINTS.MIN_TIME_LIMIT ||
+    request.timeLimit > GAME_CONSTRAINTS.MAX_TIME_LIMIT
+  ) {
+    throw new HttpError(
+      400,
+      `Time limit must be between ${GAME_CONSTRAINTS.MIN_TIME_LIMIT} and ${GAME_CONSTRAINTS.MAX_TIME_LIMIT} seconds`
+    );
+  }
+  if (
+    !Array.isArray(request.questions) ||
+    request.questions.length < GAME_CONSTRAINTS.MIN_QUESTIONS_PER_ROUND ||
+    request.questions.length > GAME_CONSTRAINTS.MAX_QUESTIONS_PER_ROUND
+  ) {
+    throw new HttpError(
+      400,
+      `A round needs between ${GAME_CONSTRAINTS.MIN_QUESTIONS_PER_ROUND} and ${GAME_CONSTRAINTS.MAX_QUESTIONS_PER_ROUND} questions`
+    );
+  }
+  const incomplete = request.questions.findIndex(q => !q.text?.trim() || !q.correctAnswer?.trim());
+  if (incomplete !== -1) {
+    throw new HttpError(400, `Question ${incomplete + 1} needs text and a correct answer`);
+  }
+  const badDifficulty = request.questions.findIndex(q => q.difficulty != null && !DIFFICULTIES.includes(q.difficulty));
+  if (badDifficulty !== -1) {
+    throw new HttpError(400, `Question ${badDifficulty + 1} has an unknown difficulty`);
+  }
+
+  const now = context.now();
+  const state = await loadGameState(context, request.gameId);
+  const stillRunning = state.data.roundStatus === 'paused' ||
+    (state.data.roundStatus === 'active' && getTimeRemaining(state.data, now) > 0);
+  if (stillRunning) {
+    throw new HttpError(409, `Round ${state.data.currentRound} is still running`);
+  }
+  const played = await context.store.getRounds(request.gameId);
+  if (played.some(round => round.round_number === request.roundNumber)) {
+    throw new HttpError(409, `Round ${request.roundNumber} has already been played`);
+  }
+  // A round whose timer ran out closes when the next one opens
+  for (const round of played.filter(r => r.status !== 'completed')) {
+    await context.store.updateRound(round.id, { status: 'completed', ended_at: now.toISOString() });
+  }
+
+  const round = await context.store.insertRound({
+    game_room_id: request.gameId,
+    round_number: request.roundNumber,
+    round_type: request.roundType,
+    time_limit: request.timeLimit,
+    point_values: pointValuesForRound(request.roundNumber),
+    status: 'active',
+    started_at: now.toISOString(),
+    ended_at: null,
+  });
+
+  const questions = await context.store.insertQuestions(
+    request.questions.map((question, index) => ({
+      game_room_id: request.gameId,
+      round_id: round.id,
+      question_order: index,
+      question_text: question.text.trim(),
+      question_type: question.questionType,
+      correct_answer: question.correctAnswer.trim(),
+      accept_partial: question.acceptPartial ?? false,
+      explanation: question.explanation ?? null,
+      options: question.options ?? null,
+      time_limit: request.timeLimit,
+      category: question.category?.trim() || null,
+      difficulty: question.difficulty ?? null,
+      source_question_id: question.sourceQuestionId ?? null,
+    }))
+  );
+
+  await context.store.saveGameState({
+    ...state,
+    current_round_id: round.id,
+    updated_at: now.toISOString(),
+    data: {
+      currentRound: request.roundNumber,
+      roundStatus: 'active',
+      timeLimit: request.timeLimit,
+      roundEndsAt: new Date(now.getTime() + request.timeLimit * 1000).toISOString(),
+      pausedRemaining: null,
+    },
+  });
+
+  return {
+    success: true,
+    roundId: round.id,
+    questionIds: questions.map(question => question.id),
+    gameState: {
+      currentRound: request.roundNumber,
+      roundStatus: 'active',
+      timeLimit: request.timeLimit,
+      questionsCount: questions.length,
+    },
+    message: `Round ${request.roundNumber} started`,
+  };
+};
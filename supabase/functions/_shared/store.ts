@@ -0,0 +1,248 @@
+// Row shapes and the data access the game functions need. The deployed
+// functions use the Supabase-backed store; the local harness uses the
+// in-memory stand-in, which enforces the same keys as the migration.
+
+import type { SkillRatingChange, SkillRatingEntity } from '../../../src/types/edgeFunctions.ts';
+import type { RateLimitAction, RateLimitResult } from './rateLimit.ts';
+
+export type GameRoomStatus = 'waiting' | 'active' | 'paused' | 'finished';
+export type RoundStatus = 'waiting' | 'active' | 'paused' | 'completed';
+export type PointUsageAction = 'wager' | 'refund' | 'reset';
+
+export interface GameRoomRow {
+  id: string;
+  host_id: string;
+  status: GameRoomStatus;
+  started_at?: string | null;
+  ended_at?: string | null;
+}
+
+export interface GameStateData {
+  currentRound: number;
+  roundStatus: RoundStatus;
+  timeLimit: number;
+  // When the running round's timer runs out, null while paused or idle
+  roundEndsAt: string | null;
+  // Seconds left when the round was paused
+  pausedRemaining: number | null;
+}
+
+export interface GameStateRow {
+  game_room_id: string;
+  current_round_id: string | null;
+  state: GameRoomStatus;
+  data: GameStateData;
+  updated_at: string;
+}
+
+export interface TeamRow {
+  id: string;
+  room_id: string;
+  name: string;
+}
+
+export interface GameRoundRow {
+  id: string;
+  game_room_id: string;
+  round_number: number;
+  round_type: 'standard' | 'picture' | 'wager' | 'lightning';
+  time_limit: number;
+  point_values: number[];
+  status: RoundStatus;
+  started_at: string;
+  ended_at: string | null;
+}
+
+export interface GameQuestionRow {
+  id: string;
+  game_room_id: string;
+  round_id: string;
+  question_order: number;
+  question_text: string;
+  question_type: 'multiple_choice' | 'short_answer' | 'true_false';
+  correct_answer: string;
+  accept_partial: boolean;
+  explanation: string | null;
+  options: string[] | null;
+  time_limit: number;
+  category: string | null;
+  difficulty: 'easy' | 'medium' | 'hard' | null;
+  source_question_id: string | null;
+}
+
+// One point value a team has spent in a round. Refunds and resets delete
+// the row; (game, team, round, value) and (team, question) are unique.
+export interface PointUsageRow {
+  id: string;
+  game_room_id: string;
+  team_id: string;
+  round_number: number;
+  point_value: number;
+  question_id: string | null;
+  idempotency_key?: string | null;
+  created_at: string;
+}
+
+export interface TeamAnswerRow {
+  id: string;
+  game_room_id: string;
+  round_id: string;
+  team_id: string;
+  question_id: string;
+  answer_text: string;
+  point_value: number;
+  is_correct: boolean;
+  points_awarded: number;
+  similarity: number;
+  submitted_by: string;
+  submitted_at: string;
+}
+
+export interface TeamScoreRow {
+  game_room_id: string;
+  team_id: string;
+  total_score: number;
+  current_rank: number;
+  correct_answers: number;
+  total_answers: number;
+  updated_at: string;
+}
+
+// Score ledger entry (see the score_ledger migration). Grading adds the
+// automatic entries; hosts add the rest through adjust_score.
+export interface ScoreLedgerRow {
+  id: string;
+  sequence: number;
+  game_room_id: string;
+  entity_type: 'team' | 'player';
+  entity_id: string;
+  round_id: string | null;
+  question_id: string | null;
+  entry_type: 'automatic' | 'manual' | 'bonus' | 'penalty' | 'revert';
+  points: number;
+  reason: string;
+  performed_by: string | null;
+  reverts_entry_id: string | null;
+  created_at: string;
+}
+
+// Token bucket for one action and subject (see the rate limits migration)
+export interface RateLimitBucketRow {
+  action: RateLimitAction;
+  subject: string;
+  tokens: number;
+  refilled_at: string;
+}
+
+// Completed tournament match with its participants resolved to teams
+export interface TournamentMatchRow {
+  id: string;
+  tournament_id: string;
+  host_id: string;
+  status: 'scheduled' | 'in_progress' | 'completed' | 'cancelled' | 'bye';
+  team1_id: string | null;
+  team2_id: string | null;
+  winner_team_id: string | null;
+  team1_score: number;
+  team2_score: number;
+  game_room_id: string | null;
+}
+
+// Glicko-2 rating of a player or team (see the skill ratings migration)
+export interface SkillRatingRow {
+  entity_type: SkillRatingEntity;
+  entity_id: string;
+  rating: number;
+  deviation: number;
+  volatility: number;
+  games_rated: number;
+  league: SkillRatingChange['league'];
+  updated_at: string;
+}
+
+export type RatingSourceType = 'game' | 'tournament_match';
+
+// One player's or team's new rating from a game or match, with what it was
+export interface SkillRatingUpdate {
+  entity_type: SkillRatingEntity;
+  entity_id: string;
+  rating: number;
+  deviation: number;
+  volatility: number;
+  league: SkillRatingChange['league'];
+  rating_before: number;
+  deviation_before: number;
+  rank: number;
+  field_size: number;
+}
+
+// A browser's Web Push subscription (see the push notifications migration)
+export interface PushSubscriptionRow {
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+// A push reminder for a scheduled game that has come due, with the
+// subscriptions of everyone who accepted the invitation
+export interface DuePushReminder {
+  reminder_id: string;
+  scheduled_game_id: string;
+  title: string;
+  scheduled_for: string;
+  time_before_minutes: number;
+  // Code of the game room, once the host has opened one
+  room_code: string | null;
+  subscriptions: PushSubscriptionRow[];
+}
+
+export type NewRow<T extends { id: string }> = Omit<T, 'id'>;
+
+export interface GameStore {
+  getGameRoom(gameId: string): Promise<GameRoomRow | null>;
+  updateGameRoom(gameId: string, patch: Partial<Omit<GameRoomRow, 'id' | 'host_id'>>): Promise<void>;
+  getGameState(gameId: string): Promise<GameStateRow | null>;
+  saveGameState(row: GameStateRow): Promise<void>;
+
+  getTeam(teamId: string): Promise<TeamRow | null>;
+  getTeams(gameId: string): Promise<TeamRow[]>;
+  isTeamMember(teamId: string, userId: string): Promise<boolean>;
+  getTeamMembers(teamId: string): Promise<string[]>;
+
+  insertRound(row: NewRow<GameRoundRow>): Promise<GameRoundRow>;
+  getRounds(gameId: string): Promise<GameRoundRow[]>;
+  updateRound(roundId: string, patch: Partial<Pick<GameRoundRow, 'status' | 'ended_at'>>): Promise<void>;
+  insertQuestions(rows: NewRow<GameQuestionRow>[]): Promise<GameQuestionRow[]>;
+  getQuestion(questionId: string): Promise<GameQuestionRow | null>;
+  countQuestions(gameId: string): Promise<number>;
+
+  getPointUsage(gameId: string, teamId: string, roundNumber: number): Promise<PointUsageRow[]>;
+  // Resolves to null when the value or question is already spent
+  insertPointUsage(row: NewRow<PointUsageRow>): Promise<PointUsageRow | null>;
+  deletePointUsage(ids: string[]): Promise<void>;
+
+  getAnswer(teamId: string, questionId: string): Promise<TeamAnswerRow | null>;
+  // Resolves to null when the team already answered the question
+  insertAnswer(row: NewRow<TeamAnswerRow>): Promise<TeamAnswerRow | null>;
+  getAnswers(gameId: string): Promise<TeamAnswerRow[]>;
+  saveTeamScores(rows: TeamScoreRow[]): Promise<void>;
+
+  // Manual, bonus, penalty and revert entries for the game's teams
+  getScoreAdjustments(gameId: string): Promise<ScoreLedgerRow[]>;
+
+  // Spends a token from the subject's bucket; the database uses its own clock
+  takeRateLimitToken(action: RateLimitAction, subject: string, now: Date): Promise<RateLimitResult>;
+
+  getTournamentMatch(matchId: string): Promise<TournamentMatchRow | null>;
+  getSkillRatings(entityType: SkillRatingEntity, entityIds: string[]): Promise<SkillRatingRow[]>;
+  // Saves the ratings and their history together; resolves to false when
+  // the game or match was already rated
+  recordSkillRatings(sourceType: RatingSourceType, sourceId: string, updates: SkillRatingUpdate[]): Promise<boolean>;
+
+  // Marks the push reminders due by now as sent and returns them, so each
+  // reminder is claimed by one run only
+  claimDuePushReminders(now: Date): Promise<DuePushReminder[]>;
+  // Forgets subscriptions the push service reports as gone
+  deletePushSubscriptions(endpoints: string[]): Promise<void>;
+}
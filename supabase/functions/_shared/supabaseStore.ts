@@ -0,0 +1,287 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  DuePushReminder,
+  GameQuestionRow,
+  GameRoomRow,
+  GameRoundRow,
+  GameStateRow,
+  GameStore,
+  NewRow,
+  PointUsageRow,
+  RatingSourceType,
+  ScoreLedgerRow,
+  SkillRatingRow,
+  SkillRatingUpdate,
+  TeamAnswerRow,
+  TeamRow,
+  TeamScoreRow,
+  TournamentMatchRow,
+} from './store.ts';
+import type { SkillRatingEntity } from '../../../src/types/edgeFunctions.ts';
+import type { RateLimitAction, RateLimitResult } from './rateLimit.ts';
+
+const UNIQUE_VIOLATION = '23505';
+
+// Runs with the service role: these are the only writes to scores, point
+// usage and grading that the database accepts
+export class SupabaseGameStore implements GameStore {
+  private readonly db: SupabaseClient;
+
+  constructor(db: SupabaseClient) {
+    this.db = db;
+  }
+
+  async getGameRoom(gameId: string): Promise<GameRoomRow | null> {
+    const { data, error } = await this.db
+      .from('game_rooms')
+      .select('id, host_id, status, started_at, ended_at')
+      .eq('id', gameId)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load game: ${error.message}`);
+    return data;
+  }
+
+  async updateGameRoom(gameId: string, patch: Partial<Omit<GameRoomRow, 'id' | 'host_id'>>): Promise<void> {
+    const { error } = await this.db.from('game_rooms').update(patch).eq('id', gameId);
+    if (error) throw new Error(`Failed to update game: ${error.message}`);
+  }
+
+  async getGameState(gameId: string): Promise<GameStateRow | null> {
+    const { data, error } = await this.db
+      .from('game_server_state')
+      .select('game_room_id, current_round_id, state, data, updated_at')
+      .eq('game_room_id', gameId)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load game state: ${error.message}`);
+    return data;
+  }
+
+  async saveGameState(row: GameStateRow): Promise<void> {
+    const { error } = await this.db.from('game_server_state').upsert(row, { onConflict: 'game_room_id' });
+    if (error) throw new Error(`Failed to save game state: ${error.message}`);
+  }
+
+  async getTeam(teamId: string): Promise<TeamRow | null> {
+    const { data, error } = await this.db
+      .from('teams')
+      .select('id, room_id, name')
+      .eq('id', teamId)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load team: ${error.message}`);
+    return data;
+  }
+
+  async getTeams(gameId: string): Promise<TeamRow[]> {
+    const { data, error } = await this.db.from('teams').select('id, room_id, name').eq('room_id', gameId);
+    if (error) throw new Error(`Failed to load teams: ${error.message}`);
+    return data ?? [];
+  }
+
+  async isTeamMember(teamId: string, userId: string): Promise<boolean> {
+    const { count, error } = await this.db
+      .from('team_members')
+      .select('user_id', { count: 'exact', head: true })
+      .eq('team_id', teamId)
+      .eq('user_id', userId);
+    if (error) throw new Error(`Failed to check team membership: ${error.message}`);
+    return (count ?? 0) > 0;
+  }
+
+  async getTeamMembers(teamId: string): Promise<string[]> {
+    const { data, error } = await this.db.from('team_members').select('user_id').eq('team_id', teamId);
+    if (error) throw new Error(`Failed to load team members: ${error.message}`);
+    return (data ?? []).map((member: { user_id: string }) => member.user_id);
+  }
+
+  async insertRound(row: NewRow<GameRoundRow>): Promise<GameRoundRow> {
+    const { data, error } = await this.db.from('game_rounds').insert(row).select().single();
+    if (error) throw new Error(`Failed to create round: ${error.message}`);
+    return data;
+  }
+
+  async getRounds(gameId: string): Promise<GameRoundRow[]> {
+    const { data, error } = await this.db
+      .from('game_rounds')
+      .select('*')
+      .eq('game_room_id', gameId)
+      .order('round_number', { ascending: true });
+    if (error) throw new Error(`Failed to load rounds: ${error.message}`);
+    return data ?? [];
+  }
+
+  async updateRound(roundId: string, patch: Partial<Pick<GameRoundRow, 'status' | 'ended_at'>>): Promise<void> {
+    const { error } = await this.db.from('game_rounds').update(patch).eq('id', roundId);
+    if (error) throw new Error(`Failed to update round: ${error.message}`);
+  }
+
+  async insertQuestions(rows: NewRow<GameQuestionRow>[]): Promise<GameQuestionRow[]> {
+    const { data, error } = await this.db
+      .from('game_questions')
+      .insert(rows)
+      .select()
+      .order('question_order', { ascending: true });
+    if (error) throw new Error(`Failed to save questions: ${error.message}`);
+    return data ?? [];
+  }
+
+  async getQuestion(questionId: string): Promise<GameQuestionRow | null> {
+    const { data, error } = await this.db.from('game_questions').select('*').eq('id', questionId).maybeSingle();
+    if (error) throw new Error(`Failed to load question: ${error.message}`);
+    return data;
+  }
+
+  async countQuestions(gameId: string): Promise<number> {
+    const { count, error } = await this.db
+      .from('game_questions')
+      .select('id', { count: 'exact', head: true })
+      .eq('game_room_id', gameId);
+    if (error) throw new Error(`Failed to count questions: ${error.message}`);
+    return count ?? 0;
+  }
+
+  async getPointUsage(gameId: string, teamId: string, roundNumber: number): Promise<PointUsageRow[]> {
+    const { data, error } = await this.db
+      .from('team_point_usage')
+      .select('*')
+      .eq('game_room_id', gameId)
+      .eq('team_id', teamId)
+      .eq('round_number', roundNumber);
+    if (error) throw new Error(`Failed to load point usage: ${error.message}`);
+    return data ?? [];
+  }
+
+  async insertPointUsage(row: NewRow<PointUsageRow>): Promise<PointUsageRow | null> {
+    const { data, error } = await this.db.from('team_point_usage').insert(row).select().single();
+    if (error?.code === UNIQUE_VIOLATION) return null;
+    if (error) throw new Error(`Failed to record point usage: ${error.message}`);
+    return data;
+  }
+
+  async deletePointUsage(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const { error } = await this.db.from('team_point_usage').delete().in('id', ids);
+    if (error) throw new Error(`Failed to release point usage: ${error.message}`);
+  }
+
+  async getAnswer(teamId: string, questionId: string): Promise<TeamAnswerRow | null> {
+    const { data, error } = await this.db
+      .from('team_answers')
+      .select('*')
+      .eq('team_id', teamId)
+      .eq('question_id', questionId)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load answer: ${error.message}`);
+    return data;
+  }
+
+  async insertAnswer(row: NewRow<TeamAnswerRow>): Promise<TeamAnswerRow | null> {
+    const { data, error } = await this.db.from('team_answers').insert(row).select().single();
+    if (error?.code === UNIQUE_VIOLATION) return null;
+    if (error) throw new Error(`Failed to record answer: ${error.message}`);
+    return data;
+  }
+
+  async getAnswers(gameId: string): Promise<TeamAnswerRow[]> {
+    const { data, error } = await this.db.from('team_answers').select('*').eq('game_room_id', gameId);
+    if (error) throw new Error(`Failed to load answers: ${error.message}`);
+    return data ?? [];
+  }
+
+  async saveTeamScores(rows: TeamScoreRow[]): Promise<void> {
+    if (rows.length === 0) return;
+    const { error } = await this.db.from('team_scores').upsert(rows, { onConflict: 'team_id,game_room_id' });
+    if (error) throw new Error(`Failed to save scores: ${error.message}`);
+  }
+
+  async getScoreAdjustments(gameId: string): Promise<ScoreLedgerRow[]> {
+    const { data, error } = await this.db
+      .from('score_ledger')
+      .select('*')
+      .eq('game_room_id', gameId)
+      .eq('entity_type', 'team')
+      .neq('entry_type', 'automatic')
+      .order('sequence', { ascending: true });
+    if (error) throw new Error(`Failed to load score adjustments: ${error.message}`);
+    return data ?? [];
+  }
+
+  async takeRateLimitToken(action: RateLimitAction, subject: string): Promise<RateLimitResult> {
+    const { data, error } = await this.db
+      .rpc('take_rate_limit_token', { p_action: action, p_subject: subject })
+      .single<{ allowed: boolean; remaining: number; retry_after_seconds: number }>();
+    if (error || !data) throw new Error(`Failed to check rate limit: ${error?.message ?? 'no result'}`);
+    return { allowed: data.allowed, remaining: data.remaining, retryAfterSeconds: data.retry_after_seconds };
+  }
+
+  async getTournamentMatch(matchId: string): Promise<TournamentMatchRow | null> {
+    const { data, error } = await this.db
+      .from('tournament_matches')
+      .select(`
+        id, tournament_id, status, team1_score, team2_score, game_room_id,
+        tournament:tournaments(host_id),
+        team1:tournament_participants!team1_id(team_id),
+        team2:tournament_participants!team2_id(team_id),
+        winner:tournament_participants!winner_id(team_id)
+      `)
+      .eq('id', matchId)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load match: ${error.message}`);
+    if (!data) return null;
+
+    const match = data as unknown as Omit<TournamentMatchRow, 'host_id' | 'team1_id' | 'team2_id' | 'winner_team_id'> & {
+      tournament: { host_id: string };
+      team1: { team_id: string } | null;
+      team2: { team_id: string } | null;
+      winner: { team_id: string } | null;
+    };
+    return {
+      id: match.id,
+      tournament_id: match.tournament_id,
+      host_id: match.tournament.host_id,
+      status: match.status,
+      team1_id: match.team1?.team_id ?? null,
+      team2_id: match.team2?.team_id ?? null,
+      winner_team_id: match.winner?.team_id ?? null,
+      team1_score: match.team1_score ?? 0,
+      team2_score: match.team2_score ?? 0,
+      game_room_id: match.game_room_id,
+    };
+  }
+
+  async getSkillRatings(entityType: SkillRatingEntity, entityIds: string[]): Promise<SkillRatingRow[]> {
+    if (entityIds.length === 0) return [];
+    const { data, error } = await this.db
+      .from('skill_ratings')
+      .select('*')
+      .eq('entity_type', entityType)
+      .in('entity_id', entityIds);
+    if (error) throw new Error(`Failed to load ratings: ${error.message}`);
+    return data ?? [];
+  }
+
+  async recordSkillRatings(
+    sourceType: RatingSourceType,
+    sourceId: string,
+    updates: SkillRatingUpdate[]
+  ): Promise<boolean> {
+    const { data, error } = await this.db.rpc('record_skill_ratings', {
+      p_source_type: sourceType,
+      p_source_id: sourceId,
+      p_updates: updates,
+    });
+    if (error) throw new Error(`Failed to save ratings: ${error.message}`);
+    return data === true;
+  }
+
+  async claimDuePushReminders(now: Date): Promise<DuePushReminder[]> {
+    const { data, error } = await this.db.rpc('claim_due_push_reminders', { p_now: now.toISOString() });
+    if (error) throw new Error(`Failed to claim reminders: ${error.message}`);
+    return data ?? [];
+  }
+
+  async deletePushSubscriptions(endpoints: string[]): Promise<void> {
+    if (endpoints.length === 0) return;
+    const { error } = await this.db.from('push_subscriptions').delete().in('endpoint', endpoints);
+    if (error) throw new Error(`Failed to remove push subscriptions: ${error.message}`);
+  }
+}
@@ -0,0 +1,115 @@
+import type { AnswerValidationResponse, ValidateAnswerRequest } from '../../../src/types/edgeFunctions.ts';
+import { answerMatcher } from '../../../src/services/answerMatcher.ts';
+import type { AnswerStrictness } from '../../../src/types/game.ts';
+import {
+  ANSWER_GRACE_SECONDS,
+  HttpError,
+  loadGameState,
+  requireFields,
+  requireTeamMember,
+  type Handler,
+} from './context.ts';
+import { enforceRateLimit } from './rateLimit.ts';
+import type { GameQuestionRow, GameRoundRow, TeamAnswerRow } from './store.ts';
+
+/**
+ * Grades a team's answer with the same matcher the client uses. The points
+ * at stake come from the team's recorded wager, not the request, and each
+ * question is graded once; asking again returns the stored result. Grading
+ * spends one of the caller's answer submission tokens for the game. The
+ * correct answer and explanation are only sent once the question's round
+ * has closed, so an answer can't be used to fetch them for other teams.
+ */
+export const handleValidateAnswer: Handler<ValidateAnswerRequest, AnswerValidationResponse> = async (
+  request,
+  context
+) => {
+  requireFields(request, ['teamId', 'questionId', 'gameId']);
+  await requireTeamMember(context, request.gameId, request.teamId);
+
+  const question = await context.store.getQuestion(request.questionId);
+  if (!question || question.game_room_id !== request.gameId) {
+    throw new HttpError(404, 'Question not found in this game');
+  }
+
+  const existing = await context.store.getAnswer(request.teamId, request.questionId);
+  if (existing) {
+    const rounds = await context.store.getRounds(request.gameId);
+    return toResponse(existing, question, isRoundClosed(rounds, question));
+  }
+
+  await enforceRateLimit(context, 'answer_submission', request.gameId);
+
+  const state = await loadGameState(context, request.gameId);
+  const now = context.now();
+  const graceSeconds = context.answerGraceSeconds ?? ANSWER_GRACE_SECONDS;
+  if (
+    state.current_round_id !== question.round_id ||
+    !acceptsAnswers(state.data.roundStatus, state.data.roundEndsAt, now, graceSeconds)
+  ) {
+    throw new HttpError(409, 'Answers are closed for this question');
+  }
+
+  const rounds = await context.store.getRounds(request.gameId);
+  const round = rounds.find(r => r.id === question.round_id);
+  const usage = round
+    ? await context.store.getPointUsage(request.gameId, request.teamId, round.round_number)
+    : [];
+  const wager = usage.find(row => row.question_id === question.id);
+  if (!wager) {
+    throw new HttpError(409, 'Wager points on this question before answering');
+  }
+  if (request.pointsWagered !== undefined && request.pointsWagered !== wager.point_value) {
+    throw new HttpError(409, `Your team wagered ${wager.point_value} points on this question`);
+  }
+
+  const match = answerMatcher.match(request.submittedAnswer ?? '', question.correct_answer, {
+    strictness: strictnessFor(question),
+  });
+
+  const saved = await context.store.insertAnswer({
+    game_room_id: request.gameId,
+    round_id: question.round_id,
+    team_id: request.teamId,
+    question_id: question.id,
+    answer_text: request.submittedAnswer ?? '',
+    point_value: wager.point_value,
+    is_correct: match.isMatch,
+    points_awarded: match.isMatch ? wager.point_value : 0,
+    similarity: match.confidence,
+    submitted_by: context.callerId,
+    submitted_at: now.toISOString(),
+  });
+
+  // Another device on the team got there first
+  const answer = saved ?? (await context.store.getAnswer(request.teamId, request.questionId));
+  if (!answer) {
+    throw new HttpError(500, 'Failed to record answer');
+  }
+  return toResponse(answer, question, isRoundClosed(rounds, question));
+};
+
+function acceptsAnswers(roundStatus: string, roundEndsAt: string | null, now: Date, graceSeconds: number): boolean {
+  if (roundStatus !== 'active' || !roundEndsAt) return false;
+  return now.getTime() <= new Date(roundEndsAt).getTime() + graceSeconds * 1000;
+}
+
+function isRoundClosed(rounds: GameRoundRow[], question: GameQuestionRow): boolean {
+  return rounds.find(round => round.id === question.round_id)?.status === 'completed';
+}
+
+// Fixed choices must match exactly; free text follows the question's setting
+function strictnessFor(question: GameQuestionRow): AnswerStrictness {
+  if (question.question_type !== 'short_answer') return 'exact';
+  return question.accept_partial ? 'lenient' : 'standard';
+}
+
+function toResponse(answer: TeamAnswerRow, question: GameQuestionRow, revealed: boolean): AnswerValidationResponse {
+  return {
+    isCorrect: answer.is_correct,
+    pointsAwarded: answer.points_awarded,
+    ...(revealed ? { correctAnswer: question.correct_answer } : {}),
+    ...(revealed && question.explanation ? { explanation: question.explanation } : {}),
+    similarity: answer.similarity,
+  };
+}
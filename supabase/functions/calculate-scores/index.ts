@@ -0,0 +1,4 @@
+import { serve } from '../_shared/serve.ts';
+import { handleCalculateScores } from '../_shared/calculateScores.ts';
+
+serve(handleCalculateScores);
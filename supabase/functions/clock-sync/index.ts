@@ -0,0 +1,4 @@
+import { serve } from '../_shared/serve.ts';
+import { handleClockSync } from '../_shared/clockSync.ts';
+
+serve(handleClockSync);
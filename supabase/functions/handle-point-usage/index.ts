@@ -0,0 +1,4 @@
+import { serve } from '../_shared/serve.ts';
+import { handlePointUsage } from '../_shared/pointUsage.ts';
+
+serve(handlePointUsage);
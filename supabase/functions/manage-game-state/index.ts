@@ -0,0 +1,4 @@
+import { serve } from '../_shared/serve.ts';
+import { handleManageGameState } from '../_shared/gameState.ts';
+
+serve(handleManageGameState);
@@ -0,0 +1,4 @@
+import { serve } from '../_shared/serve.ts';
+import { handleRateMatch } from '../_shared/skillRatings.ts';
+
+serve(handleRateMatch);
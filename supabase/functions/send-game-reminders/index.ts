@@ -0,0 +1,52 @@
+import { createClient } from '@supabase/supabase-js';
+import webpush from 'web-push';
+import { sendDueReminders, type PushSender } from '../_shared/gameReminders.ts';
+import { corsHeaders, json } from '../_shared/serve.ts';
+import { SupabaseGameStore } from '../_shared/supabaseStore.ts';
+
+// Runs every minute from the schedule in the push notifications migration.
+// Only the service role may call it.
+
+webpush.setVapidDetails(
+  Deno.env.get('VAPID_SUBJECT') ?? 'mailto:hello@tonytrivia.app',
+  Deno.env.get('VAPID_PUBLIC_KEY') ?? '',
+  Deno.env.get('VAPID_PRIVATE_KEY') ?? ''
+);
+
+const send: PushSender = async (subscription, payload) => {
+  try {
+    await webpush.sendNotification(
+      { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+      JSON.stringify(payload),
+      // A reminder is no use after the game has started
+      { TTL: 60 * 60 }
+    );
+    return 'sent';
+  } catch (error) {
+    const status = (error as { statusCode?: number }).statusCode;
+    if (status === 404 || status === 410) return 'expired';
+    throw error;
+  }
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!serviceRoleKey || token !== serviceRoleKey) {
+    return json({ error: 'Only the scheduler can send reminders' }, 403);
+  }
+
+  try {
+    const admin = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+    return json(await sendDueReminders(new SupabaseGameStore(admin), send, new Date()));
+  } catch (error) {
+    console.error('Edge function failed:', error);
+    return json({ error: 'Something went wrong on the server' }, 500);
+  }
+});
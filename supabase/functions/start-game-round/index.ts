@@ -0,0 +1,4 @@
+import { serve } from '../_shared/serve.ts';
+import { handleStartGameRound } from '../_shared/startGameRound.ts';
+
+serve(handleStartGameRound);
@@ -0,0 +1,4 @@
+import { serve } from '../_shared/serve.ts';
+import { handleValidateAnswer } from '../_shared/validateAnswer.ts';
+
+serve(handleValidateAnswer);
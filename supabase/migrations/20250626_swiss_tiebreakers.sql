@@ -0,0 +1,57 @@
+-- Swiss system support for Tony Trivia tournaments
+
+-- Tiebreak columns, recalculated by the client after every Swiss result
+ALTER TABLE tournament_standings
+  ADD COLUMN IF NOT EXISTS buchholz_score DECIMAL(10, 2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS sonneborn_berger_score DECIMAL(10, 2) DEFAULT 0;
+
+-- Hosts initialise and maintain standings for their own tournaments
+CREATE POLICY "tournament_standings_manage_policy" ON tournament_standings
+  FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM tournaments 
+      WHERE tournaments.id = tournament_standings.tournament_id 
+      AND tournaments.host_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "tournament_rounds_select_policy" ON tournament_rounds
+  FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "tournament_rounds_manage_policy" ON tournament_rounds
+  FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM tournaments 
+      WHERE tournaments.id = tournament_rounds.tournament_id 
+      AND tournaments.host_id = auth.uid()
+    )
+  );
+
+-- Swiss positions: score, then Buchholz, then Sonneborn-Berger, then points difference
+CREATE OR REPLACE FUNCTION calculate_swiss_positions(p_tournament_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  WITH ranked_teams AS (
+    SELECT 
+      participant_id,
+      ROW_NUMBER() OVER (
+        ORDER BY 
+          (matches_won + matches_drawn * 0.5) DESC,
+          buchholz_score DESC,
+          sonneborn_berger_score DESC,
+          points_difference DESC,
+          points_for DESC
+      ) AS new_position
+    FROM tournament_standings
+    WHERE tournament_id = p_tournament_id
+  )
+  UPDATE tournament_standings
+  SET position = ranked_teams.new_position
+  FROM ranked_teams
+  WHERE tournament_standings.participant_id = ranked_teams.participant_id
+  AND tournament_standings.tournament_id = p_tournament_id;
+END;
+$$ LANGUAGE plpgsql;
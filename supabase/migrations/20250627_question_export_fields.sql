@@ -0,0 +1,12 @@
+-- Question fields carried by the 2.0 question set export schema
+
+-- Extra accepted answers, per-question tags and an optional media reference
+-- ({ "type": "image" | "audio" | "video", "url": "...", "alt_text": "...", ... })
+ALTER TABLE public.custom_questions
+  ADD COLUMN IF NOT EXISTS alternative_answers JSONB DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS tags JSONB DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS media JSONB;
+
+ALTER TABLE public.custom_questions
+  ADD CONSTRAINT custom_questions_media_type_check
+  CHECK (media IS NULL OR media->>'type' IN ('image', 'audio', 'video'));
@@ -0,0 +1,50 @@
+-- Event-sourced game log: the state a game started from plus every accepted
+-- action in order. Game state is rebuilt by replaying the actions.
+
+CREATE TABLE IF NOT EXISTS public.game_logs (
+  game_id TEXT PRIMARY KEY,
+  host_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  initial_state JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Append-only; the primary key keeps sequence numbers unique per game
+CREATE TABLE IF NOT EXISTS public.game_log_actions (
+  game_id TEXT NOT NULL REFERENCES public.game_logs(game_id) ON DELETE CASCADE,
+  sequence INTEGER NOT NULL CHECK (sequence > 0),
+  action_type TEXT NOT NULL,
+  action JSONB NOT NULL,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (game_id, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_game_log_actions_type ON public.game_log_actions(game_id, action_type);
+
+ALTER TABLE public.game_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.game_log_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Hosts can view own game logs" ON public.game_logs
+  FOR SELECT USING (auth.uid() = host_id);
+
+CREATE POLICY "Hosts can create own game logs" ON public.game_logs
+  FOR INSERT WITH CHECK (auth.uid() = host_id);
+
+CREATE POLICY "Hosts can view own game actions" ON public.game_log_actions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.game_logs
+      WHERE game_logs.game_id = game_log_actions.game_id
+      AND game_logs.host_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Hosts can append own game actions" ON public.game_log_actions
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.game_logs
+      WHERE game_logs.game_id = game_log_actions.game_id
+      AND game_logs.host_id = auth.uid()
+    )
+  );
+
+-- No UPDATE or DELETE policies: logged actions can never be rewritten
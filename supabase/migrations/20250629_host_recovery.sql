@@ -0,0 +1,188 @@
+-- Host crash recovery and host hand-off for live games
+
+-- Latest checkpoint per game, written after every phase transition and
+-- refreshed while a question timer runs
+CREATE TABLE IF NOT EXISTS public.game_checkpoints (
+  game_id TEXT PRIMARY KEY REFERENCES public.game_logs(game_id) ON DELETE CASCADE,
+  host_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  sequence INTEGER NOT NULL CHECK (sequence >= 0),
+  phase TEXT NOT NULL,
+  controller_phase TEXT,
+  round_number INTEGER NOT NULL DEFAULT 0,
+  question_id TEXT,
+  timer_remaining NUMERIC(8, 3),
+  is_paused BOOLEAN NOT NULL DEFAULT false,
+  is_complete BOOLEAN NOT NULL DEFAULT false,
+  state JSONB NOT NULL,
+  checkpointed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_game_checkpoints_host ON public.game_checkpoints(host_id, is_complete);
+
+-- Accounts helping to run a game; role is a HostRole ({ id, name, permissions, canDelegate })
+CREATE TABLE IF NOT EXISTS public.game_co_hosts (
+  game_id TEXT NOT NULL REFERENCES public.game_logs(game_id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  display_name TEXT,
+  role JSONB NOT NULL,
+  added_by UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id),
+  added_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (game_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.game_host_transfers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id TEXT NOT NULL REFERENCES public.game_logs(game_id) ON DELETE CASCADE,
+  from_user_id UUID NOT NULL REFERENCES auth.users(id),
+  to_user_id UUID NOT NULL REFERENCES auth.users(id),
+  reason TEXT,
+  transferred_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_game_host_transfers_game ON public.game_host_transfers(game_id, transferred_at);
+
+ALTER TABLE public.game_checkpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.game_co_hosts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.game_host_transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION is_game_co_host(p_game_id TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.game_co_hosts
+    WHERE game_id = p_game_id AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Hosts manage own checkpoints" ON public.game_checkpoints
+  FOR ALL USING (auth.uid() = host_id) WITH CHECK (auth.uid() = host_id);
+
+CREATE POLICY "Co-hosts can view checkpoints" ON public.game_checkpoints
+  FOR SELECT USING (is_game_co_host(game_id));
+
+CREATE POLICY "Hosts manage co-hosts" ON public.game_co_hosts
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.game_logs
+      WHERE game_logs.game_id = game_co_hosts.game_id
+      AND game_logs.host_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Co-hosts can view each other" ON public.game_co_hosts
+  FOR SELECT USING (is_game_co_host(game_id));
+
+CREATE POLICY "Hosts and co-hosts can view transfers" ON public.game_host_transfers
+  FOR SELECT USING (
+    auth.uid() IN (from_user_id, to_user_id) OR is_game_co_host(game_id)
+  );
+
+-- Co-hosts follow the game log and record the actions they take
+CREATE POLICY "Co-hosts can view game logs" ON public.game_logs
+  FOR SELECT USING (is_game_co_host(game_id));
+
+CREATE POLICY "Co-hosts can view game actions" ON public.game_log_actions
+  FOR SELECT USING (is_game_co_host(game_id));
+
+CREATE POLICY "Co-hosts can append game actions" ON public.game_log_actions
+  FOR INSERT WITH CHECK (is_game_co_host(game_id));
+
+-- Keep the newest checkpoint: an older sequence never overwrites a newer one
+CREATE OR REPLACE FUNCTION save_game_checkpoint(
+  p_game_id TEXT,
+  p_sequence INTEGER,
+  p_phase TEXT,
+  p_controller_phase TEXT,
+  p_round_number INTEGER,
+  p_question_id TEXT,
+  p_timer_remaining NUMERIC,
+  p_is_paused BOOLEAN,
+  p_is_complete BOOLEAN,
+  p_state JSONB,
+  p_checkpointed_at TIMESTAMPTZ
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_saved INTEGER;
+BEGIN
+  INSERT INTO public.game_checkpoints (
+    game_id, host_id, sequence, phase, controller_phase, round_number, question_id,
+    timer_remaining, is_paused, is_complete, state, checkpointed_at
+  )
+  VALUES (
+    p_game_id, auth.uid(), p_sequence, p_phase, p_controller_phase, p_round_number, p_question_id,
+    p_timer_remaining, p_is_paused, p_is_complete, p_state, p_checkpointed_at
+  )
+  ON CONFLICT (game_id) DO UPDATE SET
+    sequence = EXCLUDED.sequence,
+    phase = EXCLUDED.phase,
+    controller_phase = EXCLUDED.controller_phase,
+    round_number = EXCLUDED.round_number,
+    question_id = EXCLUDED.question_id,
+    timer_remaining = EXCLUDED.timer_remaining,
+    is_paused = EXCLUDED.is_paused,
+    is_complete = EXCLUDED.is_complete,
+    state = EXCLUDED.state,
+    checkpointed_at = EXCLUDED.checkpointed_at
+  WHERE game_checkpoints.sequence <= EXCLUDED.sequence
+    AND game_checkpoints.host_id = auth.uid();
+
+  GET DIAGNOSTICS v_saved = ROW_COUNT;
+  RETURN v_saved > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Hand hosting to a co-host. The outgoing host stays on as a co-host with
+-- the role the new host had.
+CREATE OR REPLACE FUNCTION transfer_game_host(
+  p_game_id TEXT,
+  p_new_host_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.game_host_transfers AS $$
+DECLARE
+  v_current_host UUID;
+  v_co_host public.game_co_hosts;
+  v_transfer public.game_host_transfers;
+BEGIN
+  SELECT host_id INTO v_current_host
+  FROM public.game_logs
+  WHERE game_id = p_game_id
+  FOR UPDATE;
+
+  IF v_current_host IS NULL THEN
+    RAISE EXCEPTION 'Game % not found', p_game_id;
+  END IF;
+
+  IF v_current_host <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the current host can transfer hosting';
+  END IF;
+
+  SELECT * INTO v_co_host
+  FROM public.game_co_hosts
+  WHERE game_id = p_game_id AND user_id = p_new_host_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The new host must be a co-host of this game';
+  END IF;
+
+  IF NOT (v_co_host.role->'permissions') ? 'control-game-flow' THEN
+    RAISE EXCEPTION 'That co-host is not allowed to run the game flow';
+  END IF;
+
+  UPDATE public.game_logs SET host_id = p_new_host_id WHERE game_id = p_game_id;
+  UPDATE public.game_checkpoints SET host_id = p_new_host_id WHERE game_id = p_game_id;
+
+  DELETE FROM public.game_co_hosts WHERE game_id = p_game_id AND user_id = p_new_host_id;
+  INSERT INTO public.game_co_hosts (game_id, user_id, role, added_by)
+  VALUES (p_game_id, v_current_host, v_co_host.role, p_new_host_id);
+
+  INSERT INTO public.game_host_transfers (game_id, from_user_id, to_user_id, reason)
+  VALUES (p_game_id, v_current_host, p_new_host_id, p_reason)
+  RETURNING * INTO v_transfer;
+
+  RETURN v_transfer;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION save_game_checkpoint(TEXT, INTEGER, TEXT, TEXT, INTEGER, TEXT, NUMERIC, BOOLEAN, BOOLEAN, JSONB, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION transfer_game_host(TEXT, UUID, TEXT) TO authenticated;
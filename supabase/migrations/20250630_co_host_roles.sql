@@ -0,0 +1,226 @@
+-- Co-host invitations with delegated roles, and attribution of every logged
+-- game action to the account that took it
+
+CREATE TABLE IF NOT EXISTS public.game_co_host_invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id TEXT NOT NULL REFERENCES public.game_logs(game_id) ON DELETE CASCADE,
+  invitee_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  display_name TEXT,
+  role JSONB NOT NULL,
+  invited_by UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  responded_at TIMESTAMPTZ,
+  CONSTRAINT game_co_host_invites_status_check CHECK (status IN ('pending', 'accepted', 'declined', 'revoked'))
+);
+
+-- One open invite per person per game
+CREATE UNIQUE INDEX IF NOT EXISTS idx_game_co_host_invites_pending
+  ON public.game_co_host_invites(game_id, invitee_id)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_game_co_host_invites_invitee ON public.game_co_host_invites(invitee_id, status);
+
+ALTER TABLE public.game_co_host_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Invitees can view their invites" ON public.game_co_host_invites
+  FOR SELECT USING (auth.uid() = invitee_id);
+
+CREATE POLICY "Hosts and co-hosts can view game invites" ON public.game_co_host_invites
+  FOR SELECT USING (
+    is_game_co_host(game_id) OR EXISTS (
+      SELECT 1 FROM public.game_logs
+      WHERE game_logs.game_id = game_co_host_invites.game_id
+      AND game_logs.host_id = auth.uid()
+    )
+  );
+
+-- The role the caller holds in a game: every permission for the host, the
+-- co-host role otherwise, NULL for everyone else. Nobody holds a role in a
+-- game with no log yet; whoever creates the log becomes its host.
+CREATE OR REPLACE FUNCTION game_host_role(p_game_id TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_role JSONB;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.game_logs
+    WHERE game_id = p_game_id AND host_id = auth.uid()
+  ) THEN
+    RETURN jsonb_build_object(
+      'id', 'host',
+      'name', 'Host',
+      'permissions', jsonb_build_array(
+        'control-game-flow', 'manage-answers', 'override-scores', 'manage-teams',
+        'view-analytics', 'configure-settings', 'broadcast-messages'
+      ),
+      'canDelegate', true
+    );
+  END IF;
+
+  SELECT role INTO v_role
+  FROM public.game_co_hosts
+  WHERE game_id = p_game_id AND user_id = auth.uid();
+
+  RETURN v_role;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The host permission a logged game action needs; NULL for actions only the
+-- host may take
+CREATE OR REPLACE FUNCTION game_action_permission(p_action_type TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN p_action_type IN (
+      'start-game', 'pause-game', 'resume-game', 'end-game', 'start-round', 'end-round',
+      'present-question', 'advance-question', 'skip-question', 'update-timer', 'undo-action',
+      'transfer-host'
+    ) THEN 'control-game-flow'
+    WHEN p_action_type IN ('submit-answer', 'lock-answers', 'reveal-answers', 'judge-answer') THEN 'manage-answers'
+    WHEN p_action_type IN ('add-player', 'remove-player', 'form-team') THEN 'manage-teams'
+    WHEN p_action_type = 'update-settings' THEN 'configure-settings'
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Invite someone to help run a game. Only the host and co-hosts who may
+-- delegate can invite, and only with permissions they hold themselves.
+CREATE OR REPLACE FUNCTION invite_co_host(
+  p_game_id TEXT,
+  p_invitee_id UUID,
+  p_role JSONB,
+  p_display_name TEXT DEFAULT NULL
+)
+RETURNS public.game_co_host_invites AS $$
+DECLARE
+  v_granter JSONB;
+  v_permission TEXT;
+  v_invite public.game_co_host_invites;
+BEGIN
+  v_granter := game_host_role(p_game_id);
+
+  IF v_granter IS NULL OR NOT COALESCE((v_granter->>'canDelegate')::BOOLEAN, false) THEN
+    RAISE EXCEPTION 'You are not allowed to invite co-hosts to this game';
+  END IF;
+
+  IF COALESCE((p_role->>'canDelegate')::BOOLEAN, false) AND v_granter->>'id' <> 'host' THEN
+    RAISE EXCEPTION 'Only the host can invite co-hosts who may delegate';
+  END IF;
+
+  FOR v_permission IN SELECT jsonb_array_elements_text(p_role->'permissions') LOOP
+    IF NOT (v_granter->'permissions') ? v_permission THEN
+      RAISE EXCEPTION 'You cannot grant the % permission', v_permission;
+    END IF;
+  END LOOP;
+
+  IF EXISTS (
+    SELECT 1 FROM public.game_logs WHERE game_id = p_game_id AND host_id = p_invitee_id
+  ) OR EXISTS (
+    SELECT 1 FROM public.game_co_hosts WHERE game_id = p_game_id AND user_id = p_invitee_id
+  ) THEN
+    RAISE EXCEPTION 'That account already helps run this game';
+  END IF;
+
+  INSERT INTO public.game_co_host_invites (game_id, invitee_id, display_name, role, invited_by)
+  VALUES (p_game_id, p_invitee_id, p_display_name, p_role, auth.uid())
+  RETURNING * INTO v_invite;
+
+  RETURN v_invite;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Accept or decline an invite; accepting makes the caller a co-host
+CREATE OR REPLACE FUNCTION respond_to_co_host_invite(
+  p_invite_id UUID,
+  p_accept BOOLEAN
+)
+RETURNS public.game_co_host_invites AS $$
+DECLARE
+  v_invite public.game_co_host_invites;
+BEGIN
+  SELECT * INTO v_invite
+  FROM public.game_co_host_invites
+  WHERE id = p_invite_id AND invitee_id = auth.uid() AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite not found or already answered';
+  END IF;
+
+  UPDATE public.game_co_host_invites
+  SET status = CASE WHEN p_accept THEN 'accepted' ELSE 'declined' END,
+      responded_at = NOW()
+  WHERE id = p_invite_id
+  RETURNING * INTO v_invite;
+
+  IF p_accept THEN
+    INSERT INTO public.game_co_hosts (game_id, user_id, display_name, role, added_by)
+    VALUES (v_invite.game_id, v_invite.invitee_id, v_invite.display_name, v_invite.role, v_invite.invited_by)
+    ON CONFLICT (game_id, user_id) DO UPDATE SET
+      role = EXCLUDED.role,
+      display_name = EXCLUDED.display_name,
+      added_by = EXCLUDED.added_by;
+  END IF;
+
+  RETURN v_invite;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Withdraw an invite that has not been answered yet
+CREATE OR REPLACE FUNCTION revoke_co_host_invite(p_invite_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_invite public.game_co_host_invites;
+BEGIN
+  SELECT * INTO v_invite
+  FROM public.game_co_host_invites
+  WHERE id = p_invite_id AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite not found or already answered';
+  END IF;
+
+  IF v_invite.invited_by <> auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM public.game_logs WHERE game_id = v_invite.game_id AND host_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the host or the person who sent the invite can revoke it';
+  END IF;
+
+  UPDATE public.game_co_host_invites
+  SET status = 'revoked', responded_at = NOW()
+  WHERE id = p_invite_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Every logged action names the account that took it
+ALTER TABLE public.game_log_actions
+  ADD COLUMN IF NOT EXISTS actor_id UUID DEFAULT auth.uid() REFERENCES auth.users(id);
+
+CREATE INDEX IF NOT EXISTS idx_game_log_actions_actor ON public.game_log_actions(game_id, actor_id);
+
+DROP POLICY IF EXISTS "Hosts can append own game actions" ON public.game_log_actions;
+CREATE POLICY "Hosts can append own game actions" ON public.game_log_actions
+  FOR INSERT WITH CHECK (
+    actor_id = auth.uid() AND EXISTS (
+      SELECT 1 FROM public.game_logs
+      WHERE game_logs.game_id = game_log_actions.game_id
+      AND game_logs.host_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Co-hosts can append game actions" ON public.game_log_actions;
+-- Co-hosts only log actions their role allows
+CREATE POLICY "Co-hosts can append game actions" ON public.game_log_actions
+  FOR INSERT WITH CHECK (
+    actor_id = auth.uid()
+    AND is_game_co_host(game_id)
+    AND COALESCE(
+      (game_host_role(game_id)->'permissions') ? game_action_permission(action_type),
+      false
+    )
+  );
+
+GRANT EXECUTE ON FUNCTION game_host_role(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION invite_co_host(TEXT, UUID, JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION respond_to_co_host_invite(UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_co_host_invite(UUID) TO authenticated;
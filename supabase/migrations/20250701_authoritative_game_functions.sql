@@ -0,0 +1,141 @@
+-- Server-authoritative rounds, point usage, grading and scores. The edge
+-- functions in supabase/functions write these with the service role;
+-- players and hosts can read them but no longer write them directly.
+
+-- The live round and its timer. Kept apart from game_state, which clients
+-- sync freely.
+CREATE TABLE IF NOT EXISTS public.game_server_state (
+  game_room_id UUID PRIMARY KEY REFERENCES public.game_rooms(id) ON DELETE CASCADE,
+  current_round_id UUID,
+  state VARCHAR(20) NOT NULL DEFAULT 'waiting',
+  data JSONB NOT NULL DEFAULT '{}',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT game_server_state_state_check CHECK (state IN ('waiting', 'active', 'paused', 'finished'))
+);
+
+CREATE TABLE IF NOT EXISTS public.game_rounds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_room_id UUID NOT NULL REFERENCES public.game_rooms(id) ON DELETE CASCADE,
+  round_number INTEGER NOT NULL CHECK (round_number > 0),
+  round_type VARCHAR(20) NOT NULL DEFAULT 'standard',
+  time_limit INTEGER NOT NULL CHECK (time_limit > 0),
+  point_values INTEGER[] NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'active',
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ended_at TIMESTAMPTZ,
+  CONSTRAINT game_rounds_type_check CHECK (round_type IN ('standard', 'picture', 'wager', 'lightning')),
+  CONSTRAINT game_rounds_status_check CHECK (status IN ('waiting', 'active', 'paused', 'completed')),
+  UNIQUE (game_room_id, round_number)
+);
+
+-- Questions carry their answers; only the functions read correct_answer
+-- and explanation (see the grants below)
+ALTER TABLE public.game_questions
+  ADD COLUMN IF NOT EXISTS round_id UUID REFERENCES public.game_rounds(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS question_order INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS question_type VARCHAR(20) NOT NULL DEFAULT 'short_answer',
+  ADD COLUMN IF NOT EXISTS correct_answer TEXT,
+  ADD COLUMN IF NOT EXISTS accept_partial BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS explanation TEXT,
+  ADD COLUMN IF NOT EXISTS options JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_game_questions_round ON public.game_questions(round_id, question_order);
+
+-- Each point value backs one question per team per round
+CREATE TABLE IF NOT EXISTS public.team_point_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_room_id UUID NOT NULL REFERENCES public.game_rooms(id) ON DELETE CASCADE,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  round_number INTEGER NOT NULL,
+  point_value INTEGER NOT NULL CHECK (point_value > 0),
+  question_id UUID REFERENCES public.game_questions(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (game_room_id, team_id, round_number, point_value)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_team_point_usage_question
+  ON public.team_point_usage(team_id, question_id)
+  WHERE question_id IS NOT NULL;
+
+-- Graded answers, one per team per question
+ALTER TABLE public.team_answers
+  ADD COLUMN IF NOT EXISTS game_room_id UUID REFERENCES public.game_rooms(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS round_id UUID REFERENCES public.game_rounds(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS is_correct BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS points_awarded INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS similarity NUMERIC(4, 3) NOT NULL DEFAULT 0;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_team_answers_team_question ON public.team_answers(team_id, question_id);
+CREATE INDEX IF NOT EXISTS idx_team_answers_game ON public.team_answers(game_room_id);
+
+ALTER TABLE public.team_scores
+  ADD COLUMN IF NOT EXISTS correct_answers INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS total_answers INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_team_scores_team_game ON public.team_scores(team_id, game_room_id);
+
+-- Whether the signed-in account hosts the game or plays on one of its teams
+CREATE OR REPLACE FUNCTION is_game_participant(p_game_room_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.game_rooms WHERE id = p_game_room_id AND host_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM public.team_members
+    JOIN public.teams ON teams.id = team_members.team_id
+    WHERE teams.room_id = p_game_room_id AND team_members.user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.game_server_state ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.game_rounds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.team_point_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view server game state" ON public.game_server_state
+  FOR SELECT USING (is_game_participant(game_room_id));
+
+CREATE POLICY "Participants can view rounds" ON public.game_rounds
+  FOR SELECT USING (is_game_participant(game_room_id));
+
+CREATE POLICY "Team members and hosts can view point usage" ON public.team_point_usage
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members
+      WHERE team_members.team_id = team_point_usage.team_id
+      AND team_members.user_id = auth.uid()
+    ) OR EXISTS (
+      SELECT 1 FROM public.game_rooms
+      WHERE game_rooms.id = team_point_usage.game_room_id
+      AND game_rooms.host_id = auth.uid()
+    )
+  );
+
+-- No client writes: rounds, point usage, grading, scores and the round timer
+-- only change through the edge functions
+REVOKE INSERT, UPDATE, DELETE ON public.game_server_state FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.game_rounds FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.team_point_usage FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.team_answers FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.team_scores FROM anon, authenticated;
+REVOKE INSERT, UPDATE ON public.game_questions FROM anon, authenticated;
+
+-- Players read their questions but not the answers. Column grants only take
+-- effect without the table-wide one, so every other column is granted back
+-- here; columns added later need a grant of their own.
+REVOKE SELECT ON public.game_questions FROM anon, authenticated;
+DO $$
+BEGIN
+  EXECUTE (
+    SELECT format('GRANT SELECT (%s) ON public.game_questions TO anon, authenticated', string_agg(quote_ident(column_name), ', '))
+    FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'game_questions'
+    AND column_name NOT IN ('correct_answer', 'explanation')
+  );
+END;
+$$;
+
+-- Hosts still edit their room's details, but its status moves with the game
+REVOKE UPDATE ON public.game_rooms FROM anon, authenticated;
+GRANT UPDATE (name, description, max_players, current_players, settings) ON public.game_rooms TO authenticated;
+
+GRANT EXECUTE ON FUNCTION is_game_participant(UUID) TO authenticated;
@@ -0,0 +1,223 @@
+-- Append-only score ledger: every automatic and manual score change, who
+-- made it and why. Reverting appends a compensating entry; nothing is edited.
+
+CREATE TABLE IF NOT EXISTS public.score_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sequence BIGSERIAL NOT NULL UNIQUE,
+  game_room_id UUID NOT NULL REFERENCES public.game_rooms(id) ON DELETE CASCADE,
+  entity_type VARCHAR(10) NOT NULL DEFAULT 'team',
+  entity_id UUID NOT NULL,
+  round_id UUID,
+  question_id TEXT,
+  entry_type VARCHAR(20) NOT NULL,
+  points INTEGER NOT NULL,
+  reason TEXT NOT NULL,
+  performed_by UUID REFERENCES auth.users(id),
+  reverts_entry_id UUID UNIQUE REFERENCES public.score_ledger(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT score_ledger_entity_type_check CHECK (entity_type IN ('team', 'player')),
+  CONSTRAINT score_ledger_entry_type_check CHECK (entry_type IN ('automatic', 'manual', 'bonus', 'penalty', 'revert')),
+  CONSTRAINT score_ledger_revert_check CHECK ((entry_type = 'revert') = (reverts_entry_id IS NOT NULL)),
+  CONSTRAINT score_ledger_reason_check CHECK (length(trim(reason)) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_score_ledger_game ON public.score_ledger(game_room_id, sequence);
+CREATE INDEX IF NOT EXISTS idx_score_ledger_entity ON public.score_ledger(entity_id, sequence);
+
+-- Whether the signed-in account may change scores: the host, or a co-host
+-- whose role includes override-scores
+CREATE OR REPLACE FUNCTION can_override_scores(p_game_room_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.game_rooms WHERE id = p_game_room_id AND host_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM public.game_co_hosts
+    WHERE game_id = p_game_room_id::TEXT
+    AND user_id = auth.uid()
+    AND role->'permissions' ? 'override-scores'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Entries are facts about what happened; they are never rewritten
+CREATE OR REPLACE FUNCTION prevent_score_ledger_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Score ledger entries cannot be changed; revert them instead';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER score_ledger_append_only
+  BEFORE UPDATE ON public.score_ledger
+  FOR EACH ROW EXECUTE FUNCTION prevent_score_ledger_update();
+
+-- Every graded answer is an automatic entry
+CREATE OR REPLACE FUNCTION record_answer_score()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.game_room_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.score_ledger (
+    game_room_id, entity_type, entity_id, round_id, question_id, entry_type, points, reason
+  )
+  VALUES (
+    NEW.game_room_id, 'team', NEW.team_id, NEW.round_id, NEW.question_id::TEXT, 'automatic',
+    NEW.points_awarded,
+    CASE WHEN NEW.is_correct
+      THEN format('Correct answer (%s points wagered)', NEW.point_value)
+      ELSE format('Incorrect answer (%s points wagered)', NEW.point_value)
+    END
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER team_answers_score_ledger
+  AFTER INSERT ON public.team_answers
+  FOR EACH ROW EXECUTE FUNCTION record_answer_score();
+
+-- Manual changes move the saved standings right away; automatic ones are
+-- already counted from team_answers when scores are calculated
+CREATE OR REPLACE FUNCTION apply_score_adjustment()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.entry_type <> 'automatic' AND NEW.entity_type = 'team' THEN
+    UPDATE public.team_scores
+    SET total_score = total_score + NEW.points,
+        updated_at = NOW()
+    WHERE team_id = NEW.entity_id AND game_room_id = NEW.game_room_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER score_ledger_apply_adjustment
+  AFTER INSERT ON public.score_ledger
+  FOR EACH ROW EXECUTE FUNCTION apply_score_adjustment();
+
+-- Add or remove points by hand. The reason is required so the change can be
+-- explained after the game.
+CREATE OR REPLACE FUNCTION adjust_score(
+  p_game_room_id UUID,
+  p_entity_type TEXT,
+  p_entity_id UUID,
+  p_points INTEGER,
+  p_reason TEXT,
+  p_entry_type TEXT DEFAULT 'manual',
+  p_question_id TEXT DEFAULT NULL
+)
+RETURNS public.score_ledger AS $$
+DECLARE
+  v_round_id UUID;
+  v_entry public.score_ledger;
+BEGIN
+  IF NOT can_override_scores(p_game_room_id) THEN
+    RAISE EXCEPTION 'You are not allowed to change scores in this game';
+  END IF;
+
+  IF p_entry_type NOT IN ('manual', 'bonus', 'penalty') THEN
+    RAISE EXCEPTION 'Unknown score change type: %', p_entry_type;
+  END IF;
+
+  IF p_points IS NULL OR p_points = 0 THEN
+    RAISE EXCEPTION 'A score change must add or remove points';
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Give a reason for the score change';
+  END IF;
+
+  IF p_entity_type = 'team' AND NOT EXISTS (
+    SELECT 1 FROM public.teams WHERE id = p_entity_id AND room_id = p_game_room_id
+  ) THEN
+    RAISE EXCEPTION 'Team is not in this game';
+  END IF;
+
+  IF p_entity_type = 'player' AND NOT EXISTS (
+    SELECT 1 FROM public.team_members
+    JOIN public.teams ON teams.id = team_members.team_id
+    WHERE team_members.user_id = p_entity_id AND teams.room_id = p_game_room_id
+  ) THEN
+    RAISE EXCEPTION 'Player is not in this game';
+  END IF;
+
+  SELECT round_id INTO v_round_id
+  FROM public.game_questions
+  WHERE id::TEXT = p_question_id AND game_room_id = p_game_room_id;
+
+  INSERT INTO public.score_ledger (
+    game_room_id, entity_type, entity_id, round_id, question_id, entry_type, points, reason, performed_by
+  )
+  VALUES (
+    p_game_room_id, p_entity_type, p_entity_id, v_round_id, p_question_id, p_entry_type,
+    p_points, trim(p_reason), auth.uid()
+  )
+  RETURNING * INTO v_entry;
+
+  RETURN v_entry;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Cancel an entry with an equal and opposite one. Each entry can be
+-- reverted once, and reverts themselves are not reverted.
+CREATE OR REPLACE FUNCTION revert_score_entry(
+  p_entry_id UUID,
+  p_reason TEXT
+)
+RETURNS public.score_ledger AS $$
+DECLARE
+  v_original public.score_ledger;
+  v_entry public.score_ledger;
+BEGIN
+  SELECT * INTO v_original
+  FROM public.score_ledger
+  WHERE id = p_entry_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Score change not found';
+  END IF;
+
+  IF NOT can_override_scores(v_original.game_room_id) THEN
+    RAISE EXCEPTION 'You are not allowed to change scores in this game';
+  END IF;
+
+  IF v_original.entry_type = 'revert' THEN
+    RAISE EXCEPTION 'A revert cannot be reverted; make a new adjustment instead';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.score_ledger WHERE reverts_entry_id = p_entry_id) THEN
+    RAISE EXCEPTION 'That score change has already been reverted';
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Give a reason for the revert';
+  END IF;
+
+  INSERT INTO public.score_ledger (
+    game_room_id, entity_type, entity_id, round_id, question_id, entry_type, points, reason,
+    performed_by, reverts_entry_id
+  )
+  VALUES (
+    v_original.game_room_id, v_original.entity_type, v_original.entity_id, v_original.round_id,
+    v_original.question_id, 'revert', -v_original.points, trim(p_reason), auth.uid(), v_original.id
+  )
+  RETURNING * INTO v_entry;
+
+  RETURN v_entry;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.score_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Everyone in the game can see how every score came about
+CREATE POLICY "Participants can view the score ledger" ON public.score_ledger
+  FOR SELECT USING (is_game_participant(game_room_id) OR can_override_scores(game_room_id));
+
+-- Writes only go through adjust_score, revert_score_entry and grading
+REVOKE INSERT, UPDATE, DELETE ON public.score_ledger FROM anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION can_override_scores(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION adjust_score(UUID, TEXT, UUID, INTEGER, TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION revert_score_entry(UUID, TEXT) TO authenticated;
@@ -0,0 +1,680 @@
+-- Analytics computed from game history: per-answer and per-question views
+-- plus RPCs for the analytics dashboard and the host's in-game stats.
+-- Everything runs as the caller, so row level security decides which games
+-- count. Filters are applied here rather than in the browser.
+
+-- Questions keep the category and difficulty they had in their question
+-- set, so results can be broken down and filtered by them
+ALTER TABLE public.game_questions
+  ADD COLUMN IF NOT EXISTS category TEXT,
+  ADD COLUMN IF NOT EXISTS difficulty VARCHAR(10);
+
+ALTER TABLE public.game_questions
+  ADD CONSTRAINT game_questions_difficulty_check
+  CHECK (difficulty IS NULL OR difficulty IN ('easy', 'medium', 'hard'));
+
+GRANT SELECT (category, difficulty) ON public.game_questions TO anon, authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_game_questions_game_category ON public.game_questions(game_room_id, category);
+CREATE INDEX IF NOT EXISTS idx_game_rooms_created_at ON public.game_rooms(created_at);
+CREATE INDEX IF NOT EXISTS idx_game_rooms_host ON public.game_rooms(host_id, created_at);
+
+-- Every graded answer with what it is sliced by. Response time is measured
+-- from the start of the round, since a round's questions open together.
+CREATE OR REPLACE VIEW public.analytics_answers
+WITH (security_invoker = true) AS
+SELECT
+  a.id,
+  a.game_room_id,
+  g.host_id,
+  g.created_at AS game_created_at,
+  a.team_id,
+  a.question_id,
+  r.round_number,
+  q.question_order,
+  q.category,
+  q.difficulty,
+  a.is_correct,
+  a.point_value,
+  a.points_awarded,
+  a.submitted_at,
+  GREATEST(0, EXTRACT(EPOCH FROM a.submitted_at - r.started_at))::NUMERIC AS response_seconds
+FROM public.team_answers a
+JOIN public.game_rooms g ON g.id = a.game_room_id
+JOIN public.game_questions q ON q.id = a.question_id
+LEFT JOIN public.game_rounds r ON r.id = a.round_id;
+
+-- Every question asked, with how it was answered
+CREATE OR REPLACE VIEW public.analytics_question_stats
+WITH (security_invoker = true) AS
+SELECT
+  q.id AS question_id,
+  q.game_room_id,
+  q.question_text,
+  q.category,
+  q.difficulty,
+  COUNT(a.id) AS attempts,
+  COUNT(a.id) FILTER (WHERE a.is_correct) AS correct_answers,
+  AVG(a.response_seconds) AS average_response_seconds
+FROM public.game_questions q
+LEFT JOIN public.analytics_answers a ON a.question_id = q.id
+GROUP BY q.id;
+
+-- Games inside the dashboard filters. A category or difficulty filter keeps
+-- games that asked at least one matching question. Status is 'completed'
+-- for finished games and 'abandoned' for the rest.
+CREATE OR REPLACE FUNCTION analytics_filtered_games(
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ,
+  p_categories TEXT[] DEFAULT NULL,
+  p_difficulties TEXT[] DEFAULT NULL,
+  p_host_ids UUID[] DEFAULT NULL,
+  p_statuses TEXT[] DEFAULT NULL
+)
+RETURNS SETOF public.game_rooms AS $$
+  SELECT g.*
+  FROM public.game_rooms g
+  WHERE g.created_at >= p_start
+  AND g.created_at <= p_end
+  AND (p_host_ids IS NULL OR g.host_id = ANY(p_host_ids))
+  AND (
+    p_statuses IS NULL
+    OR (CASE WHEN g.status = 'finished' THEN 'completed' ELSE 'abandoned' END) = ANY(p_statuses)
+  )
+  AND (
+    (p_categories IS NULL AND p_difficulties IS NULL)
+    OR EXISTS (
+      SELECT 1 FROM public.game_questions q
+      WHERE q.game_room_id = g.id
+      AND (p_categories IS NULL OR q.category = ANY(p_categories))
+      AND (p_difficulties IS NULL OR q.difficulty = ANY(p_difficulties))
+    )
+  );
+$$ LANGUAGE sql STABLE;
+
+-- How many games were played, finished and when
+CREATE OR REPLACE FUNCTION get_game_performance_analytics(
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ,
+  p_categories TEXT[] DEFAULT NULL,
+  p_difficulties TEXT[] DEFAULT NULL,
+  p_host_ids UUID[] DEFAULT NULL,
+  p_statuses TEXT[] DEFAULT NULL,
+  p_time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS JSONB AS $$
+  WITH games AS (
+    SELECT * FROM analytics_filtered_games(p_start, p_end, p_categories, p_difficulties, p_host_ids, p_statuses)
+  ),
+  players AS (
+    SELECT t.room_id, COUNT(DISTINCT tm.user_id) AS player_count
+    FROM public.teams t
+    JOIN public.team_members tm ON tm.team_id = t.id
+    WHERE t.room_id IN (SELECT id FROM games)
+    GROUP BY t.room_id
+  )
+  SELECT jsonb_build_object(
+    'total_games', (SELECT COUNT(*) FROM games),
+    'completed_games', (SELECT COUNT(*) FROM games WHERE status = 'finished'),
+    'average_players', COALESCE((
+      SELECT AVG(COALESCE(p.player_count, 0)) FROM games g LEFT JOIN players p ON p.room_id = g.id
+    ), 0),
+    'average_duration_minutes', COALESCE((
+      SELECT AVG(EXTRACT(EPOCH FROM ended_at - started_at) / 60)
+      FROM games
+      WHERE status = 'finished' AND started_at IS NOT NULL AND ended_at IS NOT NULL
+    ), 0),
+    'games_by_hour', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'hour', h,
+        'count', (SELECT COUNT(*) FROM games WHERE EXTRACT(HOUR FROM created_at AT TIME ZONE p_time_zone) = h)
+      ) ORDER BY h)
+      FROM generate_series(0, 23) h
+    ),
+    'games_by_day', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'day', d,
+        'count', (SELECT COUNT(*) FROM games WHERE EXTRACT(DOW FROM created_at AT TIME ZONE p_time_zone) = d)
+      ) ORDER BY d)
+      FROM generate_series(0, 6) d
+    )
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Who plays, whether they come back, and what they engage with. Retention
+-- counts players whose first game in the range was at least N days ago and
+-- who played again N or more days after it.
+CREATE OR REPLACE FUNCTION get_player_engagement_analytics(
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ,
+  p_categories TEXT[] DEFAULT NULL,
+  p_difficulties TEXT[] DEFAULT NULL,
+  p_host_ids UUID[] DEFAULT NULL,
+  p_statuses TEXT[] DEFAULT NULL,
+  p_time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS JSONB AS $$
+  WITH games AS (
+    SELECT * FROM analytics_filtered_games(p_start, p_end, p_categories, p_difficulties, p_host_ids, p_statuses)
+  ),
+  plays AS (
+    SELECT DISTINCT tm.user_id, g.id AS game_room_id, g.created_at
+    FROM games g
+    JOIN public.teams t ON t.room_id = g.id
+    JOIN public.team_members tm ON tm.team_id = t.id
+  ),
+  per_player AS (
+    SELECT user_id, COUNT(*) AS games_played, MIN(created_at) AS first_played
+    FROM plays
+    GROUP BY user_id
+  ),
+  retention AS (
+    SELECT
+      days,
+      COUNT(*) FILTER (WHERE p.first_played <= NOW() - make_interval(days => days)) AS eligible,
+      COUNT(*) FILTER (
+        WHERE p.first_played <= NOW() - make_interval(days => days)
+        AND EXISTS (
+          SELECT 1 FROM public.team_members tm
+          JOIN public.teams t ON t.id = tm.team_id
+          JOIN public.game_rooms g ON g.id = t.room_id
+          WHERE tm.user_id = p.user_id
+          AND g.created_at >= p.first_played + make_interval(days => days)
+        )
+      ) AS retained
+    FROM per_player p
+    CROSS JOIN (VALUES (1), (7), (30)) AS periods(days)
+    GROUP BY days
+  ),
+  answers AS (
+    SELECT a.*
+    FROM public.analytics_answers a
+    WHERE a.game_room_id IN (SELECT id FROM games)
+    AND (p_categories IS NULL OR a.category = ANY(p_categories))
+    AND (p_difficulties IS NULL OR a.difficulty = ANY(p_difficulties))
+  ),
+  -- Answers a category could have had: each of its questions once per team
+  category_reach AS (
+    SELECT q.category, COUNT(*) AS possible
+    FROM public.game_questions q
+    JOIN public.teams t ON t.room_id = q.game_room_id
+    WHERE q.game_room_id IN (SELECT id FROM games)
+    AND q.category IS NOT NULL
+    AND (p_categories IS NULL OR q.category = ANY(p_categories))
+    AND (p_difficulties IS NULL OR q.difficulty = ANY(p_difficulties))
+    GROUP BY q.category
+  )
+  SELECT jsonb_build_object(
+    'total_unique_players', (SELECT COUNT(*) FROM per_player),
+    'returning_players', (SELECT COUNT(*) FROM per_player WHERE games_played > 1),
+    'total_plays', (SELECT COUNT(*) FROM plays),
+    'retention', COALESCE((
+      SELECT jsonb_object_agg(days::TEXT, jsonb_build_object('eligible', eligible, 'retained', retained))
+      FROM retention
+    ), '{}'::JSONB),
+    'categories', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'category', c.category,
+        'answers', (SELECT COUNT(*) FROM answers a WHERE a.category = c.category),
+        'possible_answers', c.possible,
+        'average_points', COALESCE((SELECT AVG(points_awarded) FROM answers a WHERE a.category = c.category), 0)
+      ) ORDER BY c.category)
+      FROM category_reach c
+    ), '[]'::JSONB),
+    'activity', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('day', day, 'hour', hour, 'count', count))
+      FROM (
+        SELECT
+          EXTRACT(DOW FROM submitted_at AT TIME ZONE p_time_zone)::INTEGER AS day,
+          EXTRACT(HOUR FROM submitted_at AT TIME ZONE p_time_zone)::INTEGER AS hour,
+          COUNT(*) AS count
+        FROM answers
+        GROUP BY 1, 2
+      ) activity
+    ), '[]'::JSONB)
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Per-question results for questions matching the filters
+CREATE OR REPLACE FUNCTION get_question_analytics(
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ,
+  p_categories TEXT[] DEFAULT NULL,
+  p_difficulties TEXT[] DEFAULT NULL,
+  p_host_ids UUID[] DEFAULT NULL,
+  p_statuses TEXT[] DEFAULT NULL
+)
+RETURNS SETOF public.analytics_question_stats AS $$
+  SELECT s.*
+  FROM public.analytics_question_stats s
+  WHERE s.game_room_id IN (
+    SELECT id FROM analytics_filtered_games(p_start, p_end, p_categories, p_difficulties, p_host_ids, p_statuses)
+  )
+  AND (p_categories IS NULL OR s.category = ANY(p_categories))
+  AND (p_difficulties IS NULL OR s.difficulty = ANY(p_difficulties));
+$$ LANGUAGE sql STABLE;
+
+-- How each host's games go. Hosts with fewer than p_min_games games in the
+-- range are left out.
+CREATE OR REPLACE FUNCTION get_host_performance_analytics(
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ,
+  p_categories TEXT[] DEFAULT NULL,
+  p_difficulties TEXT[] DEFAULT NULL,
+  p_host_ids UUID[] DEFAULT NULL,
+  p_statuses TEXT[] DEFAULT NULL,
+  p_min_games INTEGER DEFAULT 1,
+  p_time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  host_id UUID,
+  host_name TEXT,
+  games_hosted BIGINT,
+  completed_games BIGINT,
+  average_players NUMERIC,
+  average_game_minutes NUMERIC,
+  average_rounds NUMERIC,
+  categories JSONB,
+  time_slots JSONB
+) AS $$
+  WITH games AS (
+    SELECT * FROM analytics_filtered_games(p_start, p_end, p_categories, p_difficulties, p_host_ids, p_statuses)
+  ),
+  game_players AS (
+    SELECT g.id, g.host_id, COUNT(DISTINCT tm.user_id) AS player_count
+    FROM games g
+    LEFT JOIN public.teams t ON t.room_id = g.id
+    LEFT JOIN public.team_members tm ON tm.team_id = t.id
+    GROUP BY g.id, g.host_id
+  ),
+  round_counts AS (
+    SELECT g.id, COUNT(r.id) AS round_count
+    FROM games g
+    LEFT JOIN public.game_rounds r ON r.game_room_id = g.id
+    GROUP BY g.id
+  )
+  SELECT
+    g.host_id,
+    COALESCE(p.display_name, p.username, 'Unknown host')::TEXT,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE g.status = 'finished'),
+    COALESCE(AVG(gp.player_count), 0),
+    COALESCE(AVG(EXTRACT(EPOCH FROM g.ended_at - g.started_at) / 60)
+      FILTER (WHERE g.status = 'finished' AND g.started_at IS NOT NULL AND g.ended_at IS NOT NULL), 0),
+    COALESCE(AVG(gr.round_count), 0),
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('category', category, 'count', count) ORDER BY count DESC, category)
+      FROM (
+        SELECT q.category, COUNT(DISTINCT q.game_room_id) AS count
+        FROM public.game_questions q
+        JOIN games hg ON hg.id = q.game_room_id
+        WHERE hg.host_id = g.host_id AND q.category IS NOT NULL
+        GROUP BY q.category
+      ) host_categories
+    ), '[]'::JSONB),
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('day', day, 'hour', hour, 'count', count) ORDER BY count DESC, day, hour)
+      FROM (
+        SELECT
+          EXTRACT(DOW FROM hg.created_at AT TIME ZONE p_time_zone)::INTEGER AS day,
+          EXTRACT(HOUR FROM hg.created_at AT TIME ZONE p_time_zone)::INTEGER AS hour,
+          COUNT(*) AS count
+        FROM games hg
+        WHERE hg.host_id = g.host_id
+        GROUP BY 1, 2
+      ) slots
+    ), '[]'::JSONB)
+  FROM games g
+  JOIN game_players gp ON gp.id = g.id
+  JOIN round_counts gr ON gr.id = g.id
+  LEFT JOIN public.profiles p ON p.id = g.host_id
+  GROUP BY g.host_id, p.display_name, p.username
+  HAVING COUNT(*) >= GREATEST(COALESCE(p_min_games, 1), 1)
+  ORDER BY COUNT(*) DESC;
+$$ LANGUAGE sql STABLE;
+
+-- One game's stats for its host: teams with their streaks, bonuses and
+-- penalties, and how each question went
+CREATE OR REPLACE FUNCTION get_game_analytics(p_game_room_id UUID)
+RETURNS JSONB AS $$
+  WITH answers AS (
+    SELECT * FROM public.analytics_answers WHERE game_room_id = p_game_room_id
+  ),
+  ordered AS (
+    SELECT
+      team_id,
+      is_correct,
+      ROW_NUMBER() OVER (PARTITION BY team_id ORDER BY round_number, question_order) AS n,
+      ROW_NUMBER() OVER (PARTITION BY team_id, is_correct ORDER BY round_number, question_order) AS m
+    FROM answers
+  ),
+  streaks AS (
+    SELECT team_id, MAX(run) AS best_streak
+    FROM (
+      SELECT team_id, COUNT(*) AS run FROM ordered WHERE is_correct GROUP BY team_id, n - m
+    ) runs
+    GROUP BY team_id
+  ),
+  -- Correct answers in a row since the last miss
+  current_streaks AS (
+    SELECT team_id, COUNT(*) FILTER (WHERE is_correct AND n > last_miss) AS current_streak
+    FROM (
+      SELECT
+        ordered.*,
+        COALESCE(MAX(n) FILTER (WHERE NOT is_correct) OVER (PARTITION BY team_id), 0) AS last_miss
+      FROM ordered
+    ) marked
+    GROUP BY team_id
+  ),
+  -- The question graded most recently, to tell which way teams are moving
+  latest AS (
+    SELECT question_id FROM answers ORDER BY round_number DESC, question_order DESC LIMIT 1
+  ),
+  ledger AS (
+    SELECT
+      l.entity_id AS team_id,
+      SUM(l.points) FILTER (WHERE l.entry_type = 'bonus') AS bonus_points,
+      -SUM(l.points) FILTER (WHERE l.entry_type = 'penalty') AS penalty_points
+    FROM public.score_ledger l
+    WHERE l.game_room_id = p_game_room_id
+    AND l.entity_type = 'team'
+    AND NOT EXISTS (SELECT 1 FROM public.score_ledger r WHERE r.reverts_entry_id = l.id)
+    GROUP BY l.entity_id
+  ),
+  team_rows AS (
+    SELECT
+      t.id AS team_id,
+      t.name AS team_name,
+      COALESCE(ts.total_score, (SELECT SUM(points_awarded) FROM answers a WHERE a.team_id = t.id), 0) AS score,
+      (SELECT COUNT(*) FROM answers a WHERE a.team_id = t.id AND a.is_correct) AS correct_answers,
+      (SELECT COUNT(*) FROM answers a WHERE a.team_id = t.id) AS total_answers,
+      COALESCE((SELECT AVG(response_seconds) FROM answers a WHERE a.team_id = t.id), 0) AS average_response_seconds,
+      COALESCE(s.best_streak, 0) AS best_streak,
+      COALESCE(cs.current_streak, 0) AS current_streak,
+      COALESCE(l.bonus_points, 0) AS bonus_points,
+      COALESCE(l.penalty_points, 0) AS penalty_points,
+      COALESCE((
+        SELECT SUM(points_awarded) FROM answers a
+        WHERE a.team_id = t.id AND a.question_id IN (SELECT question_id FROM latest)
+      ), 0) AS latest_points,
+      (SELECT COUNT(DISTINCT tm.user_id) FROM public.team_members tm WHERE tm.team_id = t.id) AS player_count
+    FROM public.teams t
+    LEFT JOIN public.team_scores ts ON ts.team_id = t.id AND ts.game_room_id = p_game_room_id
+    LEFT JOIN streaks s ON s.team_id = t.id
+    LEFT JOIN current_streaks cs ON cs.team_id = t.id
+    LEFT JOIN ledger l ON l.team_id = t.id
+    WHERE t.room_id = p_game_room_id
+  )
+  SELECT jsonb_build_object(
+    'total_questions', (SELECT COUNT(*) FROM public.game_questions WHERE game_room_id = p_game_room_id),
+    'questions_answered', (SELECT COUNT(DISTINCT question_id) FROM answers),
+    'teams', COALESCE((SELECT jsonb_agg(to_jsonb(team_rows) ORDER BY score DESC) FROM team_rows), '[]'::JSONB),
+    'questions', COALESCE((
+      SELECT jsonb_agg(to_jsonb(s) ORDER BY s.question_id)
+      FROM public.analytics_question_stats s
+      WHERE s.game_room_id = p_game_room_id AND s.attempts > 0
+    ), '[]'::JSONB)
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Teams are formed per game, so a team is followed from game to game by its
+-- name. Rows carry the team's scores in game order and its answers per
+-- category; trends and strengths are worked out from those.
+CREATE OR REPLACE FUNCTION get_team_performance_analytics(
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ,
+  p_categories TEXT[] DEFAULT NULL,
+  p_difficulties TEXT[] DEFAULT NULL,
+  p_host_ids UUID[] DEFAULT NULL,
+  p_statuses TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  team_id UUID,
+  team_name TEXT,
+  games_played BIGINT,
+  completed_games BIGINT,
+  wins BIGINT,
+  average_score NUMERIC,
+  average_response_seconds NUMERIC,
+  scores JSONB,
+  categories JSONB
+) AS $$
+  WITH games AS (
+    SELECT * FROM analytics_filtered_games(p_start, p_end, p_categories, p_difficulties, p_host_ids, p_statuses)
+  ),
+  team_games AS (
+    SELECT
+      t.id AS team_id,
+      t.name AS team_name,
+      LOWER(TRIM(t.name)) AS team_key,
+      g.id AS game_room_id,
+      g.created_at,
+      g.status,
+      COALESCE(ts.total_score, (SELECT SUM(a.points_awarded) FROM public.team_answers a WHERE a.team_id = t.id), 0) AS score
+    FROM games g
+    JOIN public.teams t ON t.room_id = g.id
+    LEFT JOIN public.team_scores ts ON ts.team_id = t.id AND ts.game_room_id = g.id
+  ),
+  placed AS (
+    SELECT tg.*, RANK() OVER (PARTITION BY tg.game_room_id ORDER BY tg.score DESC) AS place
+    FROM team_games tg
+  ),
+  answers AS (
+    SELECT tg.team_key, a.category, a.is_correct, a.response_seconds
+    FROM team_games tg
+    JOIN public.analytics_answers a ON a.team_id = tg.team_id
+    WHERE (p_categories IS NULL OR a.category = ANY(p_categories))
+    AND (p_difficulties IS NULL OR a.difficulty = ANY(p_difficulties))
+  )
+  SELECT
+    (ARRAY_AGG(p.team_id ORDER BY p.created_at DESC))[1],
+    (ARRAY_AGG(p.team_name ORDER BY p.created_at DESC))[1]::TEXT,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE p.status = 'finished'),
+    COUNT(*) FILTER (WHERE p.status = 'finished' AND p.place = 1),
+    AVG(p.score),
+    COALESCE((SELECT AVG(a.response_seconds) FROM answers a WHERE a.team_key = p.team_key), 0),
+    jsonb_agg(p.score ORDER BY p.created_at),
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('category', category, 'answers', answers, 'correct_answers', correct_answers) ORDER BY category)
+      FROM (
+        SELECT a.category, COUNT(*) AS answers, COUNT(*) FILTER (WHERE a.is_correct) AS correct_answers
+        FROM answers a
+        WHERE a.team_key = p.team_key AND a.category IS NOT NULL
+        GROUP BY a.category
+      ) team_categories
+    ), '[]'::JSONB)
+  FROM placed p
+  GROUP BY p.team_key
+  ORDER BY COUNT(*) FILTER (WHERE p.status = 'finished' AND p.place = 1) DESC, AVG(p.score) DESC;
+$$ LANGUAGE sql STABLE;
+
+-- How each category plays: how often and how quickly it is answered
+-- correctly, how its questions split by difficulty, how many games asked
+-- it and the three teams that did best in it
+CREATE OR REPLACE FUNCTION get_category_performance_analytics(
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ,
+  p_categories TEXT[] DEFAULT NULL,
+  p_difficulties TEXT[] DEFAULT NULL,
+  p_host_ids UUID[] DEFAULT NULL,
+  p_statuses TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  category TEXT,
+  total_questions BIGINT,
+  attempts BIGINT,
+  correct_answers BIGINT,
+  average_response_seconds NUMERIC,
+  games BIGINT,
+  total_games BIGINT,
+  easy BIGINT,
+  medium BIGINT,
+  hard BIGINT,
+  top_teams JSONB
+) AS $$
+  WITH games AS (
+    SELECT * FROM analytics_filtered_games(p_start, p_end, p_categories, p_difficulties, p_host_ids, p_statuses)
+  ),
+  questions AS (
+    SELECT q.*
+    FROM public.game_questions q
+    WHERE q.game_room_id IN (SELECT id FROM games)
+    AND q.category IS NOT NULL
+    AND (p_categories IS NULL OR q.category = ANY(p_categories))
+    AND (p_difficulties IS NULL OR q.difficulty = ANY(p_difficulties))
+  ),
+  answers AS (
+    SELECT a.* FROM public.analytics_answers a WHERE a.question_id IN (SELECT id FROM questions)
+  ),
+  team_results AS (
+    SELECT a.category, a.team_id, t.name AS team_name, COUNT(*) AS answers, COUNT(*) FILTER (WHERE a.is_correct) AS correct_answers
+    FROM answers a
+    JOIN public.teams t ON t.id = a.team_id
+    GROUP BY a.category, a.team_id, t.name
+  )
+  SELECT
+    q.category,
+    COUNT(*),
+    (SELECT COUNT(*) FROM answers a WHERE a.category = q.category),
+    (SELECT COUNT(*) FROM answers a WHERE a.category = q.category AND a.is_correct),
+    COALESCE((SELECT AVG(a.response_seconds) FROM answers a WHERE a.category = q.category), 0),
+    COUNT(DISTINCT q.game_room_id),
+    (SELECT COUNT(*) FROM games),
+    COUNT(*) FILTER (WHERE q.difficulty = 'easy'),
+    COUNT(*) FILTER (WHERE q.difficulty = 'medium'),
+    COUNT(*) FILTER (WHERE q.difficulty = 'hard'),
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'team_id', best.team_id,
+        'team_name', best.team_name,
+        'answers', best.answers,
+        'correct_answers', best.correct_answers
+      ) ORDER BY best.correct_answers::NUMERIC / best.answers DESC, best.answers DESC)
+      FROM (
+        SELECT * FROM team_results tr
+        WHERE tr.category = q.category
+        ORDER BY tr.correct_answers::NUMERIC / tr.answers DESC, tr.answers DESC
+        LIMIT 3
+      ) best
+    ), '[]'::JSONB)
+  FROM questions q
+  GROUP BY q.category
+  ORDER BY COUNT(*) DESC, q.category;
+$$ LANGUAGE sql STABLE;
+
+-- What is happening right now in the games the caller can see
+CREATE OR REPLACE FUNCTION get_realtime_analytics()
+RETURNS JSONB AS $$
+  WITH live AS (
+    SELECT
+      g.id,
+      g.name,
+      g.status,
+      COALESCE(NULLIF(g.settings->>'rounds', '')::INTEGER, 0) AS total_rounds,
+      COALESCE((SELECT MAX(r.round_number) FROM public.game_rounds r WHERE r.game_room_id = g.id), 0) AS current_round,
+      (
+        SELECT COUNT(DISTINCT tm.user_id)
+        FROM public.teams t
+        JOIN public.team_members tm ON tm.team_id = t.id
+        WHERE t.room_id = g.id
+      ) AS player_count
+    FROM public.game_rooms g
+    WHERE g.status IN ('active', 'paused')
+  )
+  SELECT jsonb_build_object(
+    'active_games', (SELECT COUNT(*) FROM live),
+    'active_players', (
+      SELECT COUNT(DISTINCT tm.user_id)
+      FROM public.teams t
+      JOIN public.team_members tm ON tm.team_id = t.id
+      WHERE t.room_id IN (SELECT id FROM live)
+    ),
+    'answers_last_hour', (SELECT COUNT(*) FROM public.team_answers WHERE submitted_at >= NOW() - INTERVAL '1 hour'),
+    'average_response_seconds_last_10_minutes', COALESCE((
+      SELECT AVG(response_seconds) FROM public.analytics_answers WHERE submitted_at >= NOW() - INTERVAL '10 minutes'
+    ), 0),
+    'games', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'game_id', id,
+        'game_name', name,
+        'status', status,
+        'player_count', player_count,
+        'current_round', current_round,
+        'total_rounds', total_rounds
+      ) ORDER BY player_count DESC, name)
+      FROM live
+    ), '[]'::JSONB)
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Sign-ups and activity for the administrative reports. Month-on-month
+-- figures compare the last 30 days with the 30 before; lapsed players
+-- played in the earlier window but not since. Peak concurrency is the most
+-- players in games running at once in the range.
+CREATE OR REPLACE FUNCTION get_administrative_insights(
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ,
+  p_time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS JSONB AS $$
+  WITH plays AS (
+    SELECT DISTINCT tm.user_id, g.id AS game_room_id, g.created_at, g.started_at, g.ended_at
+    FROM public.game_rooms g
+    JOIN public.teams t ON t.room_id = g.id
+    JOIN public.team_members tm ON tm.team_id = t.id
+  ),
+  recent AS (
+    SELECT DISTINCT user_id FROM plays WHERE created_at >= NOW() - INTERVAL '30 days'
+  ),
+  earlier AS (
+    SELECT DISTINCT user_id FROM plays
+    WHERE created_at >= NOW() - INTERVAL '60 days' AND created_at < NOW() - INTERVAL '30 days'
+  ),
+  ranged AS (
+    SELECT * FROM plays WHERE created_at >= p_start AND created_at <= p_end
+  ),
+  concurrent AS (
+    SELECT s.started_at, COUNT(DISTINCT p.user_id) AS players
+    FROM (SELECT DISTINCT started_at FROM ranged WHERE started_at IS NOT NULL) s
+    JOIN ranged p ON p.started_at <= s.started_at AND COALESCE(p.ended_at, NOW()) > s.started_at
+    GROUP BY s.started_at
+  )
+  SELECT jsonb_build_object(
+    'new_users_today', (
+      SELECT COUNT(*) FROM public.profiles
+      WHERE created_at >= date_trunc('day', NOW() AT TIME ZONE p_time_zone) AT TIME ZONE p_time_zone
+    ),
+    'new_users_this_week', (SELECT COUNT(*) FROM public.profiles WHERE created_at >= NOW() - INTERVAL '7 days'),
+    'new_users_this_month', (SELECT COUNT(*) FROM public.profiles WHERE created_at >= NOW() - INTERVAL '30 days'),
+    'new_users_previous_month', (
+      SELECT COUNT(*) FROM public.profiles
+      WHERE created_at >= NOW() - INTERVAL '60 days' AND created_at < NOW() - INTERVAL '30 days'
+    ),
+    'players_previous_month', (SELECT COUNT(*) FROM earlier),
+    'lapsed_players', (SELECT COUNT(*) FROM earlier WHERE user_id NOT IN (SELECT user_id FROM recent)),
+    'peak_concurrent_players', COALESCE((SELECT MAX(players) FROM concurrent), 0),
+    'average_daily_players', COALESCE((
+      SELECT AVG(players)
+      FROM (
+        SELECT (created_at AT TIME ZONE p_time_zone)::DATE AS day, COUNT(DISTINCT user_id) AS players
+        FROM ranged
+        GROUP BY 1
+      ) daily
+    ), 0),
+    'database_bytes', pg_database_size(current_database())
+  );
+$$ LANGUAGE sql STABLE;
+
+GRANT SELECT ON public.analytics_answers TO authenticated;
+GRANT SELECT ON public.analytics_question_stats TO authenticated;
+GRANT EXECUTE ON FUNCTION analytics_filtered_games(TIMESTAMPTZ, TIMESTAMPTZ, TEXT[], TEXT[], UUID[], TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_game_performance_analytics(TIMESTAMPTZ, TIMESTAMPTZ, TEXT[], TEXT[], UUID[], TEXT[], TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_player_engagement_analytics(TIMESTAMPTZ, TIMESTAMPTZ, TEXT[], TEXT[], UUID[], TEXT[], TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_question_analytics(TIMESTAMPTZ, TIMESTAMPTZ, TEXT[], TEXT[], UUID[], TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_host_performance_analytics(TIMESTAMPTZ, TIMESTAMPTZ, TEXT[], TEXT[], UUID[], TEXT[], INTEGER, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_game_analytics(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_team_performance_analytics(TIMESTAMPTZ, TIMESTAMPTZ, TEXT[], TEXT[], UUID[], TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_category_performance_analytics(TIMESTAMPTZ, TIMESTAMPTZ, TEXT[], TEXT[], UUID[], TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_realtime_analytics() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_administrative_insights(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) TO authenticated;
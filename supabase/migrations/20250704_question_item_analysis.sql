@@ -0,0 +1,82 @@
+-- Item analysis for question set questions across every game they were
+-- used in. Game questions remember the question set question they came
+-- from, and team standings in finished games measure how well a question
+-- separates strong teams from weak ones.
+
+ALTER TABLE public.game_questions
+  ADD COLUMN IF NOT EXISTS source_question_id UUID REFERENCES public.custom_questions(id) ON DELETE SET NULL;
+
+GRANT SELECT (source_question_id) ON public.game_questions TO anon, authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_game_questions_source ON public.game_questions(source_question_id)
+  WHERE source_question_id IS NOT NULL;
+
+-- Per question: how often it was answered correctly, the correlation of a
+-- correct answer with the team's final standing (point-biserial, since
+-- correctness is 0 or 1), the points teams backed it with, and how many
+-- teams gave each answer. Every row also carries how many games used the
+-- set at all. Standing is 1 for the winner and 0 for last place so games
+-- of different sizes compare.
+CREATE OR REPLACE FUNCTION get_question_item_stats(p_question_set_id UUID)
+RETURNS TABLE (
+  question_id UUID,
+  games_used BIGINT,
+  attempts BIGINT,
+  correct_answers BIGINT,
+  discrimination DOUBLE PRECISION,
+  average_confidence NUMERIC,
+  average_response_seconds NUMERIC,
+  answer_counts JSONB,
+  set_games_played BIGINT
+) AS $$
+  WITH standings AS (
+    SELECT
+      ts.game_room_id,
+      ts.team_id,
+      CASE
+        WHEN COUNT(*) OVER (PARTITION BY ts.game_room_id) > 1
+          THEN 1 - (ts.current_rank - 1)::DOUBLE PRECISION / (COUNT(*) OVER (PARTITION BY ts.game_room_id) - 1)
+      END AS standing
+    FROM public.team_scores ts
+    JOIN public.game_rooms g ON g.id = ts.game_room_id
+    WHERE g.status = 'finished'
+  ),
+  responses AS (
+    SELECT
+      q.source_question_id AS question_id,
+      a.game_room_id,
+      a.is_correct,
+      a.point_value,
+      a.response_seconds,
+      lower(trim(ta.answer_text)) AS answer,
+      s.standing
+    FROM public.game_questions q
+    JOIN public.custom_questions cq ON cq.id = q.source_question_id
+    JOIN public.analytics_answers a ON a.question_id = q.id
+    JOIN public.team_answers ta ON ta.id = a.id
+    LEFT JOIN standings s ON s.game_room_id = a.game_room_id AND s.team_id = a.team_id
+    WHERE cq.question_set_id = p_question_set_id
+  ),
+  answers AS (
+    SELECT question_id, jsonb_object_agg(answer, teams) AS answer_counts
+    FROM (
+      SELECT question_id, answer, COUNT(*) AS teams FROM responses WHERE answer <> '' GROUP BY question_id, answer
+    ) grouped
+    GROUP BY question_id
+  )
+  SELECT
+    r.question_id,
+    COUNT(DISTINCT r.game_room_id),
+    COUNT(*),
+    COUNT(*) FILTER (WHERE r.is_correct),
+    corr(CASE WHEN r.is_correct THEN 1 ELSE 0 END, r.standing),
+    AVG(r.point_value),
+    AVG(r.response_seconds),
+    COALESCE(a.answer_counts, '{}'::JSONB),
+    (SELECT COUNT(DISTINCT game_room_id) FROM responses)
+  FROM responses r
+  LEFT JOIN answers a ON a.question_id = r.question_id
+  GROUP BY r.question_id, a.answer_counts;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_question_item_stats(UUID) TO authenticated;
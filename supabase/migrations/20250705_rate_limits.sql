@@ -0,0 +1,167 @@
+-- Token-bucket rate limits kept in the database, so a refresh or a second
+-- tab doesn't reset them. Chat messages, teams and game rooms are limited
+-- by insert triggers; answers go through the validate-answer function,
+-- which takes its token with take_rate_limit_token.
+--
+-- Each bucket holds up to capacity tokens and gains one back every
+-- refill_seconds. A request spends one token; an empty bucket rejects the
+-- request with SQLSTATE PT429, which PostgREST returns as HTTP 429.
+
+CREATE TABLE IF NOT EXISTS public.rate_limit_policies (
+  action TEXT PRIMARY KEY,
+  capacity INTEGER NOT NULL CHECK (capacity > 0),
+  refill_seconds NUMERIC NOT NULL CHECK (refill_seconds > 0),
+  message TEXT NOT NULL
+);
+
+INSERT INTO public.rate_limit_policies (action, capacity, refill_seconds, message) VALUES
+  ('answer_submission', 10, 6, 'Too many answer submissions. Please wait before submitting again.'),
+  ('chat_message', 10, 2, 'Too many messages. Please slow down.'),
+  ('team_creation', 3, 100, 'Team creation limit reached. Please wait before creating another team.'),
+  ('game_room_creation', 5, 120, 'Game room creation limit reached. Please wait before creating another room.')
+ON CONFLICT (action) DO NOTHING;
+
+-- subject is who is acting and where, e.g. user:<id>:room:<id>
+CREATE TABLE IF NOT EXISTS public.rate_limit_buckets (
+  action TEXT NOT NULL REFERENCES public.rate_limit_policies(action) ON DELETE CASCADE,
+  subject TEXT NOT NULL,
+  tokens DOUBLE PRECISION NOT NULL,
+  refilled_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (action, subject)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_refilled ON public.rate_limit_buckets(refilled_at);
+
+-- Only the functions below touch the buckets
+ALTER TABLE public.rate_limit_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read rate limit policies" ON public.rate_limit_policies
+  FOR SELECT USING (true);
+
+-- Who is making the request: the signed-in account, else the client's
+-- address. Guests play on an anonymous account, so they have a verified id
+-- too; nothing the client could change between requests picks the bucket.
+CREATE OR REPLACE FUNCTION rate_limit_actor()
+RETURNS TEXT AS $$
+DECLARE
+  v_headers JSON := NULLIF(current_setting('request.headers', true), '')::JSON;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    RETURN 'user:' || auth.uid();
+  END IF;
+  RETURN 'ip:' || COALESCE(split_part(v_headers->>'x-forwarded-for', ',', 1), 'unknown');
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Spend a token from the subject's bucket. Rows are locked while they are
+-- refilled, so concurrent requests can't both spend the last token.
+CREATE OR REPLACE FUNCTION take_rate_limit_token(p_action TEXT, p_subject TEXT)
+RETURNS TABLE (allowed BOOLEAN, remaining INTEGER, retry_after_seconds INTEGER) AS $$
+DECLARE
+  v_policy public.rate_limit_policies;
+  v_tokens DOUBLE PRECISION;
+BEGIN
+  SELECT * INTO v_policy FROM public.rate_limit_policies WHERE action = p_action;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown rate limit: %', p_action;
+  END IF;
+
+  INSERT INTO public.rate_limit_buckets (action, subject, tokens, refilled_at)
+  VALUES (p_action, p_subject, v_policy.capacity, NOW())
+  ON CONFLICT (action, subject) DO UPDATE
+  SET tokens = LEAST(
+        v_policy.capacity,
+        rate_limit_buckets.tokens
+          + EXTRACT(EPOCH FROM NOW() - rate_limit_buckets.refilled_at) / v_policy.refill_seconds
+      ),
+      refilled_at = NOW()
+  RETURNING tokens INTO v_tokens;
+
+  IF v_tokens >= 1 THEN
+    UPDATE public.rate_limit_buckets SET tokens = v_tokens - 1
+    WHERE action = p_action AND subject = p_subject;
+    RETURN QUERY SELECT true, floor(v_tokens - 1)::INTEGER, 0;
+  ELSE
+    RETURN QUERY SELECT false, 0, ceil((1 - v_tokens) * v_policy.refill_seconds)::INTEGER;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Spend a token or fail the statement. DETAIL carries the action and wait
+-- as JSON so the client can say how long to wait.
+CREATE OR REPLACE FUNCTION enforce_rate_limit(p_action TEXT, p_subject TEXT)
+RETURNS VOID AS $$
+DECLARE
+  v_result RECORD;
+BEGIN
+  SELECT * INTO v_result FROM take_rate_limit_token(p_action, p_subject);
+  IF NOT v_result.allowed THEN
+    RAISE SQLSTATE 'PT429' USING
+      MESSAGE = (SELECT message FROM public.rate_limit_policies WHERE action = p_action),
+      DETAIL = json_build_object(
+        'code', 'rate_limited',
+        'action', p_action,
+        'retryAfterSeconds', v_result.retry_after_seconds
+      )::TEXT,
+      HINT = format('Try again in %s seconds', v_result.retry_after_seconds);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Insert trigger: TG_ARGV[0] is the action and TG_ARGV[1], when given, the
+-- column holding the game room the row belongs to. The service role is
+-- trusted; the edge functions limit their own callers.
+CREATE OR REPLACE FUNCTION rate_limit_insert()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_subject TEXT := rate_limit_actor();
+  v_room TEXT;
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_NARGS > 1 THEN
+    v_room := to_jsonb(NEW)->>TG_ARGV[1];
+    IF v_room IS NOT NULL THEN
+      v_subject := v_subject || ':room:' || v_room;
+    END IF;
+  END IF;
+
+  PERFORM enforce_rate_limit(TG_ARGV[0], v_subject);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS chat_messages_rate_limit ON public.chat_messages;
+CREATE TRIGGER chat_messages_rate_limit
+  BEFORE INSERT ON public.chat_messages
+  FOR EACH ROW EXECUTE FUNCTION rate_limit_insert('chat_message', 'game_room_id');
+
+DROP TRIGGER IF EXISTS teams_rate_limit ON public.teams;
+CREATE TRIGGER teams_rate_limit
+  BEFORE INSERT ON public.teams
+  FOR EACH ROW EXECUTE FUNCTION rate_limit_insert('team_creation', 'room_id');
+
+DROP TRIGGER IF EXISTS game_rooms_rate_limit ON public.game_rooms;
+CREATE TRIGGER game_rooms_rate_limit
+  BEFORE INSERT ON public.game_rooms
+  FOR EACH ROW EXECUTE FUNCTION rate_limit_insert('game_room_creation');
+
+-- Full buckets carry no information; drop the ones idle for a day
+CREATE OR REPLACE FUNCTION prune_rate_limit_buckets()
+RETURNS INTEGER AS $$
+  WITH pruned AS (
+    DELETE FROM public.rate_limit_buckets WHERE refilled_at < NOW() - INTERVAL '1 day' RETURNING 1
+  )
+  SELECT COUNT(*)::INTEGER FROM pruned;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Only the service role takes tokens directly; everyone else goes through
+-- the triggers
+REVOKE EXECUTE ON FUNCTION take_rate_limit_token(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION enforce_rate_limit(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION prune_rate_limit_buckets() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION take_rate_limit_token(TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION prune_rate_limit_buckets() TO service_role;
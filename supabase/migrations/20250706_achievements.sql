@@ -0,0 +1,181 @@
+-- Achievements as data. Each definition lists criteria that compare a
+-- metric against a threshold; every criterion must hold. A criterion's
+-- scope says where the metric comes from: the game just recorded, the
+-- player's lifetime statistics or their best streak. The client evaluates
+-- the same rules (src/utils/achievements.ts) to show progress, but only
+-- award_achievements unlocks them.
+
+CREATE TABLE IF NOT EXISTS public.achievement_definitions (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  points INTEGER NOT NULL DEFAULT 0,
+  -- [{ "metric": ..., "comparator": "gte" | "lte" | "eq", "threshold": ..., "scope": "game" | "lifetime" | "streak" }]
+  criteria JSONB NOT NULL CHECK (jsonb_typeof(criteria) = 'array' AND jsonb_array_length(criteria) > 0)
+);
+
+INSERT INTO public.achievement_definitions (id, name, points, criteria) VALUES
+  ('first_win', 'First Victory', 50,
+    '[{"metric": "wins", "comparator": "gte", "threshold": 1, "scope": "lifetime"}]'),
+  ('speed_demon', 'Speed Demon', 200,
+    '[{"metric": "average_response_time", "comparator": "lte", "threshold": 5, "scope": "lifetime"}]'),
+  ('trivia_master', 'Trivia Master', 500,
+    '[{"metric": "games_played", "comparator": "gte", "threshold": 50, "scope": "lifetime"},
+      {"metric": "accuracy", "comparator": "gte", "threshold": 90, "scope": "lifetime"}]'),
+  ('winning_streak_5', 'Hot Streak', 150,
+    '[{"metric": "win_streak", "comparator": "gte", "threshold": 5, "scope": "streak"}]'),
+  ('winning_streak_10', 'Unstoppable', 300,
+    '[{"metric": "win_streak", "comparator": "gte", "threshold": 10, "scope": "streak"}]'),
+  ('high_scorer', 'High Scorer', 100,
+    '[{"metric": "highest_score", "comparator": "gte", "threshold": 1000, "scope": "lifetime"}]'),
+  ('games_10', 'Getting Started', 25,
+    '[{"metric": "games_played", "comparator": "gte", "threshold": 10, "scope": "lifetime"}]'),
+  ('games_50', 'Trivia Enthusiast', 75,
+    '[{"metric": "games_played", "comparator": "gte", "threshold": 50, "scope": "lifetime"}]'),
+  ('games_100', 'Trivia Veteran', 200,
+    '[{"metric": "games_played", "comparator": "gte", "threshold": 100, "scope": "lifetime"}]'),
+  ('games_250', 'Trivia Legend', 400,
+    '[{"metric": "games_played", "comparator": "gte", "threshold": 250, "scope": "lifetime"}]'),
+  ('weekly_warrior', 'Weekly Warrior', 150,
+    '[{"metric": "games_this_week", "comparator": "gte", "threshold": 7, "scope": "lifetime"}]'),
+  ('team_captain', 'Team Captain', 100,
+    '[{"metric": "teams_captained", "comparator": "gte", "threshold": 1, "scope": "lifetime"}]'),
+  ('team_leader', 'Team Leader', 200,
+    '[{"metric": "teams_captained", "comparator": "gte", "threshold": 10, "scope": "lifetime"}]'),
+  ('league_master', 'League Master', 1000,
+    '[{"metric": "league_tier", "comparator": "gte", "threshold": 5, "scope": "lifetime"}]'),
+  ('lightning_fast', 'Lightning Fast', 150,
+    '[{"metric": "fastest_response_time", "comparator": "lte", "threshold": 2, "scope": "lifetime"}]'),
+  ('perfectionist', 'Perfectionist', 200,
+    '[{"metric": "accuracy", "comparator": "eq", "threshold": 100, "scope": "game"}]')
+ON CONFLICT (id) DO NOTHING;
+
+-- One row per badge a player has earned, with the game that earned it
+CREATE TABLE IF NOT EXISTS public.user_achievements (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  achievement_id TEXT NOT NULL REFERENCES public.achievement_definitions(id) ON DELETE CASCADE,
+  unlocked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  game_history_id UUID,
+  xp_awarded INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, achievement_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_achievements_recent ON public.user_achievements(user_id, unlocked_at DESC);
+
+-- Badges show on public profiles; only award_achievements writes them
+ALTER TABLE public.achievement_definitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_achievements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read achievement definitions" ON public.achievement_definitions
+  FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can read unlocked achievements" ON public.user_achievements
+  FOR SELECT USING (true);
+
+-- Whether every criterion holds for the facts, a JSON object of metric
+-- values per scope. A missing metric fails its criterion.
+CREATE OR REPLACE FUNCTION achievement_met(p_criteria JSONB, p_facts JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(bool_and(
+    COALESCE(
+      CASE c->>'comparator'
+        WHEN 'gte' THEN (p_facts->(c->>'scope')->>(c->>'metric'))::NUMERIC >= (c->>'threshold')::NUMERIC
+        WHEN 'lte' THEN (p_facts->(c->>'scope')->>(c->>'metric'))::NUMERIC <= (c->>'threshold')::NUMERIC
+        WHEN 'eq' THEN (p_facts->(c->>'scope')->>(c->>'metric'))::NUMERIC = (c->>'threshold')::NUMERIC
+      END,
+      false
+    )
+  ), false)
+  FROM jsonb_array_elements(p_criteria) c;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Unlocks whatever the caller has newly earned with a recorded game. Each
+-- unlock grants XP_REWARDS.ACHIEVEMENT_UNLOCK, posts an achievement_earned
+-- activity and is listed on the game. Calling it again for the same game
+-- unlocks nothing new.
+CREATE OR REPLACE FUNCTION award_achievements(p_game_history_id UUID)
+RETURNS SETOF public.user_achievements AS $$
+DECLARE
+  v_xp CONSTANT INTEGER := 75;
+  v_game public.game_history;
+  v_stats public.user_statistics;
+  v_facts JSONB;
+  v_definition public.achievement_definitions;
+  v_unlock public.user_achievements;
+BEGIN
+  SELECT * INTO v_game FROM public.game_history
+  WHERE id = p_game_history_id AND user_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Game history % not found', p_game_history_id USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Missing statistics leave their metrics out
+  SELECT * INTO v_stats FROM public.user_statistics WHERE user_id = v_game.user_id;
+
+  v_facts := jsonb_build_object(
+    'game', jsonb_strip_nulls(jsonb_build_object(
+      'score', v_game.final_score,
+      'rank', v_game.final_rank,
+      'correct_answers', v_game.correct_answers,
+      'accuracy', CASE WHEN v_game.questions_answered > 0
+        THEN v_game.correct_answers * 100.0 / v_game.questions_answered END,
+      'average_response_time', v_game.average_response_time
+    )),
+    'lifetime', jsonb_strip_nulls(jsonb_build_object(
+      'games_played', v_stats.total_games_played,
+      'wins', v_stats.total_wins,
+      'podium_finishes', v_stats.total_podium_finishes,
+      'highest_score', v_stats.highest_score,
+      'accuracy', v_stats.overall_accuracy,
+      'average_response_time', v_stats.average_response_time,
+      'fastest_response_time', v_stats.fastest_ever_response,
+      'teams_captained', v_stats.teams_captained,
+      'games_this_week', v_stats.games_this_week,
+      'league_tier', array_position(
+        ARRAY['Bronze', 'Silver', 'Gold', 'Platinum', 'Diamond', 'Master'], v_stats.current_league::TEXT
+      ) - 1
+    )),
+    'streak', jsonb_strip_nulls(jsonb_build_object(
+      'win_streak', GREATEST(v_stats.longest_win_streak, v_stats.current_win_streak),
+      'podium_streak', GREATEST(v_stats.longest_podium_streak, v_stats.current_podium_streak)
+    ))
+  );
+
+  FOR v_definition IN
+    SELECT d.* FROM public.achievement_definitions d
+    WHERE achievement_met(d.criteria, v_facts)
+    ORDER BY d.id
+  LOOP
+    INSERT INTO public.user_achievements (user_id, achievement_id, game_history_id, xp_awarded)
+    VALUES (v_game.user_id, v_definition.id, v_game.id, v_xp)
+    ON CONFLICT (user_id, achievement_id) DO NOTHING
+    RETURNING * INTO v_unlock;
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE public.user_statistics SET total_xp = total_xp + v_xp WHERE user_id = v_game.user_id;
+
+    INSERT INTO public.social_activities (user_id, activity_type, activity_data, visibility)
+    VALUES (
+      v_game.user_id,
+      'achievement_earned',
+      jsonb_build_object(
+        'achievement_id', v_definition.id,
+        'title', v_definition.name,
+        'points', v_definition.points,
+        'game_room_id', v_game.game_room_id
+      ),
+      'friends'
+    );
+
+    UPDATE public.game_history
+    SET achievements_earned = array_append(COALESCE(achievements_earned, '{}'), v_definition.id)
+    WHERE id = v_game.id;
+
+    RETURN NEXT v_unlock;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION award_achievements(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION award_achievements(UUID) TO authenticated;
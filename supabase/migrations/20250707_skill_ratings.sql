@@ -0,0 +1,164 @@
+-- Glicko-2 skill ratings for players and teams. The edge functions rate a
+-- game when the host ends it and a tournament match when its result is
+-- entered (src/utils/glicko2.ts does the maths); record_skill_ratings saves
+-- one game's or match's ratings and history together, and only once.
+--
+-- Leagues come from rating bands on the rating less two deviations, so a
+-- new player climbs by playing, not by winning one small room.
+
+CREATE TABLE IF NOT EXISTS public.skill_ratings (
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('player', 'team')),
+  entity_id UUID NOT NULL,
+  rating DOUBLE PRECISION NOT NULL DEFAULT 1500,
+  deviation DOUBLE PRECISION NOT NULL DEFAULT 350,
+  volatility DOUBLE PRECISION NOT NULL DEFAULT 0.06,
+  games_rated INTEGER NOT NULL DEFAULT 0,
+  league TEXT NOT NULL DEFAULT 'Bronze'
+    CHECK (league IN ('Bronze', 'Silver', 'Gold', 'Platinum', 'Diamond', 'Master')),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (entity_type, entity_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_skill_ratings_leaderboard ON public.skill_ratings(entity_type, rating DESC);
+
+-- Games and matches that have been rated
+CREATE TABLE IF NOT EXISTS public.rated_sources (
+  source_type TEXT NOT NULL CHECK (source_type IN ('game', 'tournament_match')),
+  source_id UUID NOT NULL,
+  rated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (source_type, source_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.skill_rating_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('player', 'team')),
+  entity_id UUID NOT NULL,
+  source_type TEXT NOT NULL,
+  source_id UUID NOT NULL,
+  rating_before DOUBLE PRECISION NOT NULL,
+  deviation_before DOUBLE PRECISION NOT NULL,
+  rating_after DOUBLE PRECISION NOT NULL,
+  deviation_after DOUBLE PRECISION NOT NULL,
+  volatility_after DOUBLE PRECISION NOT NULL,
+  league TEXT NOT NULL,
+  -- Placing among field_size teams
+  rank INTEGER NOT NULL,
+  field_size INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  FOREIGN KEY (source_type, source_id) REFERENCES public.rated_sources(source_type, source_id) ON DELETE CASCADE,
+  UNIQUE (entity_type, entity_id, source_type, source_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_skill_rating_history_entity
+  ON public.skill_rating_history(entity_type, entity_id, created_at DESC);
+
+-- Ratings are public; only the edge functions write them
+ALTER TABLE public.skill_ratings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rated_sources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.skill_rating_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read skill ratings" ON public.skill_ratings
+  FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can read skill rating history" ON public.skill_rating_history
+  FOR SELECT USING (true);
+
+-- p_updates is the edge functions' SkillRatingUpdate[]. Returns false,
+-- changing nothing, when the source was already rated.
+CREATE OR REPLACE FUNCTION record_skill_ratings(p_source_type TEXT, p_source_id UUID, p_updates JSONB)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_leagues CONSTANT TEXT[] := ARRAY['Bronze', 'Silver', 'Gold', 'Platinum', 'Diamond', 'Master'];
+BEGIN
+  INSERT INTO public.rated_sources (source_type, source_id)
+  VALUES (p_source_type, p_source_id)
+  ON CONFLICT DO NOTHING;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.skill_ratings (entity_type, entity_id, rating, deviation, volatility, games_rated, league, updated_at)
+  SELECT u.entity_type, u.entity_id, u.rating, u.deviation, u.volatility, 1, u.league, NOW()
+  FROM jsonb_to_recordset(p_updates) AS u(
+    entity_type TEXT, entity_id UUID, rating DOUBLE PRECISION, deviation DOUBLE PRECISION,
+    volatility DOUBLE PRECISION, league TEXT
+  )
+  ON CONFLICT (entity_type, entity_id) DO UPDATE
+  SET rating = EXCLUDED.rating,
+      deviation = EXCLUDED.deviation,
+      volatility = EXCLUDED.volatility,
+      games_rated = skill_ratings.games_rated + 1,
+      league = EXCLUDED.league,
+      updated_at = NOW();
+
+  INSERT INTO public.skill_rating_history (
+    entity_type, entity_id, source_type, source_id, rating_before, deviation_before,
+    rating_after, deviation_after, volatility_after, league, rank, field_size
+  )
+  SELECT u.entity_type, u.entity_id, p_source_type, p_source_id, u.rating_before, u.deviation_before,
+    u.rating, u.deviation, u.volatility, u.league, u.rank, u.field_size
+  FROM jsonb_to_recordset(p_updates) AS u(
+    entity_type TEXT, entity_id UUID, rating_before DOUBLE PRECISION, deviation_before DOUBLE PRECISION,
+    rating DOUBLE PRECISION, deviation DOUBLE PRECISION, volatility DOUBLE PRECISION, league TEXT,
+    rank INTEGER, field_size INTEGER
+  );
+
+  -- Player statistics show the league the rating earns
+  UPDATE public.user_statistics s
+  SET current_league = u.league,
+      peak_league = CASE
+        WHEN array_position(v_leagues, u.league) > COALESCE(array_position(v_leagues, s.peak_league::TEXT), 0)
+          THEN u.league
+        ELSE s.peak_league
+      END
+  FROM jsonb_to_recordset(p_updates) AS u(entity_type TEXT, entity_id UUID, league TEXT)
+  WHERE u.entity_type = 'player' AND s.user_id = u.entity_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Players or teams by rating. leaderboard_type limits the board to those
+-- rated in the last week or month.
+CREATE OR REPLACE FUNCTION get_rating_leaderboard(
+  p_entity_type TEXT DEFAULT 'player',
+  leaderboard_type TEXT DEFAULT 'all_time',
+  entry_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  user_id UUID,
+  team_id UUID,
+  username TEXT,
+  display_name TEXT,
+  team_name TEXT,
+  score INTEGER,
+  rank BIGINT,
+  games_played INTEGER,
+  metadata JSONB
+) AS $$
+  SELECT
+    CASE WHEN r.entity_type = 'player' THEN r.entity_id END,
+    CASE WHEN r.entity_type = 'team' THEN r.entity_id END,
+    p.username,
+    p.display_name,
+    t.name,
+    round(r.rating)::INTEGER,
+    RANK() OVER (ORDER BY r.rating DESC),
+    r.games_rated,
+    jsonb_build_object('rating', r.rating, 'deviation', r.deviation, 'league', r.league)
+  FROM public.skill_ratings r
+  LEFT JOIN public.profiles p ON r.entity_type = 'player' AND p.id = r.entity_id
+  LEFT JOIN public.teams t ON r.entity_type = 'team' AND t.id = r.entity_id
+  WHERE r.entity_type = p_entity_type
+    AND r.updated_at >= CASE leaderboard_type
+      WHEN 'weekly' THEN NOW() - INTERVAL '7 days'
+      WHEN 'monthly' THEN NOW() - INTERVAL '30 days'
+      ELSE '-infinity'::TIMESTAMPTZ
+    END
+  ORDER BY r.rating DESC
+  LIMIT entry_limit;
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION record_skill_ratings(TEXT, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_skill_ratings(TEXT, UUID, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION get_rating_leaderboard(TEXT, TEXT, INTEGER) TO anon, authenticated;
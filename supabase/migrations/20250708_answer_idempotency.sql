@@ -0,0 +1,11 @@
+-- Answers queued offline are replayed when the device reconnects, and a
+-- replay may repeat a wager the server already recorded before the
+-- connection dropped. The outbox sends the same key with every attempt so
+-- handle-point-usage can tell a replay from a second wager.
+
+ALTER TABLE public.team_point_usage
+  ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_team_point_usage_idempotency
+  ON public.team_point_usage(team_id, idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
@@ -0,0 +1,103 @@
+-- Web Push for scheduled games. Browsers save their push subscription here
+-- when a player turns reminders on; every minute the send-game-reminders
+-- edge function claims the push reminders in scheduled_game_reminders that
+-- have come due and sends them to everyone who accepted the invitation.
+
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON public.push_subscriptions(user_id);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own push subscriptions" ON public.push_subscriptions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add own push subscriptions" ON public.push_subscriptions
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own push subscriptions" ON public.push_subscriptions
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove own push subscriptions" ON public.push_subscriptions
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_game_reminders_pending
+  ON public.scheduled_game_reminders(reminder_type, scheduled_game_id)
+  WHERE sent_at IS NULL;
+
+-- Marks the push reminders due by p_now as sent and returns them with the
+-- subscriptions of the players who accepted. The update locks each
+-- reminder, so overlapping runs never claim the same one.
+CREATE OR REPLACE FUNCTION claim_due_push_reminders(p_now TIMESTAMPTZ DEFAULT NOW())
+RETURNS TABLE (
+  reminder_id UUID,
+  scheduled_game_id UUID,
+  title TEXT,
+  scheduled_for TIMESTAMPTZ,
+  time_before_minutes INTEGER,
+  room_code TEXT,
+  subscriptions JSONB
+) AS $$
+  WITH due AS (
+    UPDATE public.scheduled_game_reminders r
+    SET sent_at = p_now
+    FROM public.scheduled_games g
+    WHERE g.id = r.scheduled_game_id
+      AND r.reminder_type = 'push'
+      AND r.sent_at IS NULL
+      AND g.status = 'scheduled'
+      AND g.scheduled_for >= p_now
+      AND g.scheduled_for - make_interval(mins => r.time_before_minutes) <= p_now
+    RETURNING r.id, r.scheduled_game_id, r.time_before_minutes
+  )
+  SELECT
+    due.id,
+    g.id,
+    g.title::TEXT,
+    g.scheduled_for,
+    due.time_before_minutes,
+    room.code::TEXT,
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'user_id', s.user_id, 'endpoint', s.endpoint, 'p256dh', s.p256dh, 'auth', s.auth
+      ))
+      FROM public.scheduled_game_participants p
+      JOIN public.push_subscriptions s ON s.user_id = p.user_id
+      WHERE p.scheduled_game_id = g.id AND p.rsvp_status = 'accepted'
+    ), '[]'::JSONB)
+  FROM due
+  JOIN public.scheduled_games g ON g.id = due.scheduled_game_id
+  LEFT JOIN public.game_rooms room ON room.id = g.room_id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION claim_due_push_reminders(TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_due_push_reminders(TIMESTAMPTZ) TO service_role;
+
+-- Call send-game-reminders every minute. The project URL and service role
+-- key are read from Vault secrets named project_url and service_role_key.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'send-game-reminders',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-game-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::JSONB
+  );
+  $$
+);
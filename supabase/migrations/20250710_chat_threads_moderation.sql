@@ -0,0 +1,428 @@
+-- Threaded chat: replies, @mentions, edit history and moderation. The host
+-- moderates the whole room and captains moderate their team's messages:
+-- they can delete messages, mute players for a while and work through the
+-- queue of messages players have flagged.
+
+ALTER TABLE public.chat_messages
+  ADD COLUMN IF NOT EXISTS reply_to_id UUID REFERENCES public.chat_messages(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS thread_id UUID REFERENCES public.chat_messages(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS reply_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS mentioned_user_ids UUID[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- History is paged newest first on (created_at, id), separately for the
+-- room and for each thread
+CREATE INDEX IF NOT EXISTS idx_chat_messages_room_page
+  ON public.chat_messages(game_room_id, created_at DESC, id DESC)
+  WHERE thread_id IS NULL AND is_deleted = false;
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_thread_page
+  ON public.chat_messages(thread_id, created_at DESC, id DESC)
+  WHERE is_deleted = false;
+
+CREATE TABLE IF NOT EXISTS public.chat_message_edits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES public.chat_messages(id) ON DELETE CASCADE,
+  previous_message TEXT NOT NULL,
+  edited_by UUID NOT NULL REFERENCES auth.users(id),
+  edited_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_message_edits_message ON public.chat_message_edits(message_id, edited_at);
+
+CREATE TABLE IF NOT EXISTS public.chat_mentions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES public.chat_messages(id) ON DELETE CASCADE,
+  game_room_id UUID NOT NULL,
+  mentioned_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  mentioned_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  read_at TIMESTAMPTZ,
+  UNIQUE (message_id, mentioned_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_mentions_unread
+  ON public.chat_mentions(mentioned_user_id, created_at DESC)
+  WHERE read_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS public.chat_mutes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_room_id UUID NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  muted_by UUID NOT NULL REFERENCES auth.users(id),
+  reason TEXT,
+  muted_until TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (game_room_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.chat_message_flags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES public.chat_messages(id) ON DELETE CASCADE,
+  game_room_id UUID NOT NULL,
+  team_id UUID,
+  flagged_by UUID NOT NULL REFERENCES auth.users(id),
+  reason TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMPTZ,
+  UNIQUE (message_id, flagged_by),
+  CONSTRAINT chat_message_flags_status_check CHECK (status IN ('pending', 'dismissed', 'removed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_message_flags_pending
+  ON public.chat_message_flags(game_room_id, created_at)
+  WHERE status = 'pending';
+
+-- Whether the caller may moderate messages posted in a room, or on a team
+-- within it: the room's host always, a team's captain for that team
+CREATE OR REPLACE FUNCTION can_moderate_chat(p_game_room_id UUID, p_team_id UUID DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.game_rooms WHERE id = p_game_room_id AND host_id = auth.uid()
+  ) OR (p_team_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.team_members
+    JOIN public.teams ON teams.id = team_members.team_id
+    WHERE team_members.team_id = p_team_id
+    AND teams.room_id = p_game_room_id
+    AND team_members.user_id = auth.uid()
+    AND team_members.role = 'captain'
+  ));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether the caller may mute a player: the host anyone, captains the
+-- players on their team
+CREATE OR REPLACE FUNCTION can_moderate_chat_user(p_game_room_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT can_moderate_chat(p_game_room_id) OR EXISTS (
+    SELECT 1 FROM public.team_members
+    JOIN public.teams ON teams.id = team_members.team_id
+    WHERE teams.room_id = p_game_room_id
+    AND team_members.user_id = p_user_id
+    AND can_moderate_chat(p_game_room_id, team_members.team_id)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Keeps only mentions of other people in the room
+CREATE OR REPLACE FUNCTION chat_room_mentions(p_game_room_id UUID, p_sender UUID, p_user_ids UUID[])
+RETURNS UUID[] AS $$
+  SELECT COALESCE(array_agg(DISTINCT candidate), '{}')
+  FROM unnest(p_user_ids) AS candidate
+  WHERE candidate <> p_sender
+  AND (
+    EXISTS (SELECT 1 FROM public.game_rooms WHERE id = p_game_room_id AND host_id = candidate)
+    OR EXISTS (
+      SELECT 1 FROM public.team_members
+      JOIN public.teams ON teams.id = team_members.team_id
+      WHERE teams.room_id = p_game_room_id AND team_members.user_id = candidate
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Turns away muted players, files replies under the thread's first message
+-- and trims mentions to people in the room. Runs before the rate limit so
+-- muted players don't use up their messages.
+CREATE OR REPLACE FUNCTION prepare_chat_message()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_muted_until TIMESTAMPTZ;
+  v_parent public.chat_messages;
+BEGIN
+  SELECT muted_until INTO v_muted_until
+  FROM public.chat_mutes
+  WHERE game_room_id = NEW.game_room_id AND user_id = NEW.user_id AND muted_until > NOW();
+
+  IF v_muted_until IS NOT NULL THEN
+    RAISE EXCEPTION 'You are muted in this chat for % more minutes',
+      CEIL(EXTRACT(EPOCH FROM v_muted_until - NOW()) / 60)::INTEGER;
+  END IF;
+
+  IF NEW.reply_to_id IS NOT NULL THEN
+    SELECT * INTO v_parent FROM public.chat_messages WHERE id = NEW.reply_to_id;
+
+    IF v_parent IS NULL OR v_parent.game_room_id <> NEW.game_room_id OR v_parent.is_deleted THEN
+      RAISE EXCEPTION 'The message you replied to is no longer available';
+    END IF;
+
+    NEW.thread_id := COALESCE(v_parent.thread_id, v_parent.id);
+  ELSE
+    NEW.thread_id := NULL;
+  END IF;
+
+  NEW.reply_count := 0;
+  NEW.edited_at := NULL;
+  NEW.mentioned_user_ids := chat_room_mentions(NEW.game_room_id, NEW.user_id, COALESCE(NEW.mentioned_user_ids, '{}'));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS chat_messages_prepare ON public.chat_messages;
+CREATE TRIGGER chat_messages_prepare
+  BEFORE INSERT ON public.chat_messages
+  FOR EACH ROW EXECUTE FUNCTION prepare_chat_message();
+
+-- Raises a mention for everyone newly mentioned in a message
+CREATE OR REPLACE FUNCTION record_chat_mentions(p_message public.chat_messages, p_already UUID[])
+RETURNS VOID AS $$
+  INSERT INTO public.chat_mentions (message_id, game_room_id, mentioned_user_id, mentioned_by)
+  SELECT p_message.id, p_message.game_room_id, mentioned, p_message.user_id
+  FROM unnest(p_message.mentioned_user_ids) AS mentioned
+  WHERE NOT (mentioned = ANY(p_already))
+  ON CONFLICT (message_id, mentioned_user_id) DO NOTHING;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION chat_message_inserted()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.thread_id IS NOT NULL THEN
+    UPDATE public.chat_messages SET reply_count = reply_count + 1 WHERE id = NEW.thread_id;
+  END IF;
+
+  PERFORM record_chat_mentions(NEW, '{}');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS chat_messages_inserted ON public.chat_messages;
+CREATE TRIGGER chat_messages_inserted
+  AFTER INSERT ON public.chat_messages
+  FOR EACH ROW EXECUTE FUNCTION chat_message_inserted();
+
+-- Messages change only through the functions below
+REVOKE UPDATE, DELETE ON public.chat_messages FROM anon, authenticated;
+
+-- Edit your own message; the text it replaces goes into its edit history
+CREATE OR REPLACE FUNCTION edit_chat_message(
+  p_message_id UUID,
+  p_message TEXT,
+  p_mentioned_user_ids UUID[] DEFAULT '{}'
+)
+RETURNS public.chat_messages AS $$
+DECLARE
+  v_message public.chat_messages;
+  v_previous_mentions UUID[];
+BEGIN
+  SELECT * INTO v_message FROM public.chat_messages WHERE id = p_message_id FOR UPDATE;
+
+  IF v_message IS NULL OR v_message.is_deleted THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF v_message.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'You can only edit your own messages';
+  END IF;
+
+  IF v_message.message_type <> 'text' THEN
+    RAISE EXCEPTION 'Only text messages can be edited';
+  END IF;
+
+  IF length(trim(p_message)) = 0 THEN
+    RAISE EXCEPTION 'A message cannot be empty';
+  END IF;
+
+  IF p_message = v_message.message THEN
+    RETURN v_message;
+  END IF;
+
+  INSERT INTO public.chat_message_edits (message_id, previous_message, edited_by)
+  VALUES (v_message.id, v_message.message, auth.uid());
+
+  v_previous_mentions := v_message.mentioned_user_ids;
+
+  UPDATE public.chat_messages
+  SET message = p_message,
+      mentioned_user_ids = chat_room_mentions(game_room_id, user_id, COALESCE(p_mentioned_user_ids, '{}')),
+      edited_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_message_id
+  RETURNING * INTO v_message;
+
+  PERFORM record_chat_mentions(v_message, v_previous_mentions);
+  RETURN v_message;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Authors delete their own messages; moderators delete anyone's. Pending
+-- flags on the message are resolved as removed.
+CREATE OR REPLACE FUNCTION delete_chat_message(p_message_id UUID)
+RETURNS public.chat_messages AS $$
+DECLARE
+  v_message public.chat_messages;
+BEGIN
+  SELECT * INTO v_message FROM public.chat_messages WHERE id = p_message_id FOR UPDATE;
+
+  IF v_message IS NULL OR v_message.is_deleted THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF v_message.user_id <> auth.uid() AND NOT can_moderate_chat(v_message.game_room_id, v_message.team_id) THEN
+    RAISE EXCEPTION 'You are not allowed to delete this message';
+  END IF;
+
+  UPDATE public.chat_messages
+  SET is_deleted = true, deleted_by = auth.uid(), deleted_at = NOW(), updated_at = NOW()
+  WHERE id = p_message_id
+  RETURNING * INTO v_message;
+
+  IF v_message.thread_id IS NOT NULL THEN
+    UPDATE public.chat_messages SET reply_count = GREATEST(reply_count - 1, 0) WHERE id = v_message.thread_id;
+  END IF;
+
+  UPDATE public.chat_message_flags
+  SET status = 'removed', reviewed_by = auth.uid(), reviewed_at = NOW()
+  WHERE message_id = p_message_id AND status = 'pending';
+
+  RETURN v_message;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Players in the room report a message to the moderation queue
+CREATE OR REPLACE FUNCTION flag_chat_message(p_message_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS public.chat_message_flags AS $$
+DECLARE
+  v_message public.chat_messages;
+  v_flag public.chat_message_flags;
+BEGIN
+  SELECT * INTO v_message FROM public.chat_messages WHERE id = p_message_id;
+
+  IF v_message IS NULL OR v_message.is_deleted OR NOT is_game_participant(v_message.game_room_id) THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF v_message.user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot flag your own message';
+  END IF;
+
+  INSERT INTO public.chat_message_flags (message_id, game_room_id, team_id, flagged_by, reason)
+  VALUES (v_message.id, v_message.game_room_id, v_message.team_id, auth.uid(), NULLIF(trim(p_reason), ''))
+  ON CONFLICT (message_id, flagged_by) DO UPDATE SET reason = EXCLUDED.reason
+  RETURNING * INTO v_flag;
+
+  RETURN v_flag;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Settle a flag: removing deletes the message, dismissing keeps it. Either
+-- way every pending flag on that message is closed.
+CREATE OR REPLACE FUNCTION review_chat_flag(p_flag_id UUID, p_remove BOOLEAN)
+RETURNS VOID AS $$
+DECLARE
+  v_flag public.chat_message_flags;
+BEGIN
+  SELECT * INTO v_flag FROM public.chat_message_flags WHERE id = p_flag_id;
+
+  IF v_flag IS NULL OR NOT can_moderate_chat(v_flag.game_room_id, v_flag.team_id) THEN
+    RAISE EXCEPTION 'You are not allowed to review this flag';
+  END IF;
+
+  IF p_remove THEN
+    PERFORM delete_chat_message(v_flag.message_id);
+  ELSE
+    UPDATE public.chat_message_flags
+    SET status = 'dismissed', reviewed_by = auth.uid(), reviewed_at = NOW()
+    WHERE message_id = v_flag.message_id AND status = 'pending';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Mute a player in a room's chat for a number of minutes. Captains can
+-- only mute players on their own team, and nobody can mute the host.
+CREATE OR REPLACE FUNCTION mute_chat_user(
+  p_game_room_id UUID,
+  p_user_id UUID,
+  p_minutes INTEGER,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.chat_mutes AS $$
+DECLARE
+  v_mute public.chat_mutes;
+BEGIN
+  IF p_minutes IS NULL OR p_minutes < 1 OR p_minutes > 1440 THEN
+    RAISE EXCEPTION 'Mutes last between 1 minute and 24 hours';
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot mute yourself';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.game_rooms WHERE id = p_game_room_id AND host_id = p_user_id) THEN
+    RAISE EXCEPTION 'The host cannot be muted';
+  END IF;
+
+  IF NOT can_moderate_chat_user(p_game_room_id, p_user_id) THEN
+    RAISE EXCEPTION 'You are not allowed to mute this player';
+  END IF;
+
+  INSERT INTO public.chat_mutes (game_room_id, user_id, muted_by, reason, muted_until)
+  VALUES (p_game_room_id, p_user_id, auth.uid(), NULLIF(trim(p_reason), ''), NOW() + make_interval(mins => p_minutes))
+  ON CONFLICT (game_room_id, user_id) DO UPDATE
+  SET muted_by = EXCLUDED.muted_by,
+      reason = EXCLUDED.reason,
+      muted_until = EXCLUDED.muted_until,
+      created_at = NOW()
+  RETURNING * INTO v_mute;
+
+  RETURN v_mute;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION unmute_chat_user(p_game_room_id UUID, p_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT can_moderate_chat_user(p_game_room_id, p_user_id) THEN
+    RAISE EXCEPTION 'You are not allowed to unmute this player';
+  END IF;
+
+  DELETE FROM public.chat_mutes WHERE game_room_id = p_game_room_id AND user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.chat_message_edits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_mentions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_mutes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_message_flags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view edit history" ON public.chat_message_edits
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.chat_messages
+      WHERE chat_messages.id = chat_message_edits.message_id
+      AND is_game_participant(chat_messages.game_room_id)
+    )
+  );
+
+CREATE POLICY "Users can view own mentions" ON public.chat_mentions
+  FOR SELECT USING (auth.uid() = mentioned_user_id);
+
+CREATE POLICY "Users can mark own mentions read" ON public.chat_mentions
+  FOR UPDATE USING (auth.uid() = mentioned_user_id) WITH CHECK (auth.uid() = mentioned_user_id);
+
+CREATE POLICY "Muted players and moderators can view mutes" ON public.chat_mutes
+  FOR SELECT USING (auth.uid() = user_id OR can_moderate_chat_user(game_room_id, user_id));
+
+CREATE POLICY "Flaggers and moderators can view flags" ON public.chat_message_flags
+  FOR SELECT USING (auth.uid() = flagged_by OR can_moderate_chat(game_room_id, team_id));
+
+-- Mentions only change by being marked read; everything else goes through
+-- the functions above
+REVOKE INSERT, UPDATE, DELETE ON public.chat_mentions FROM anon, authenticated;
+GRANT UPDATE (read_at) ON public.chat_mentions TO authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.chat_message_edits FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.chat_mutes FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.chat_message_flags FROM anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION record_chat_mentions(public.chat_messages, UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION can_moderate_chat(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_moderate_chat_user(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION edit_chat_message(UUID, TEXT, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_chat_message(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION flag_chat_message(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION review_chat_flag(UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION mute_chat_user(UUID, UUID, INTEGER, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION unmute_chat_user(UUID, UUID) TO authenticated;
+
+-- Mentions and new flags reach clients as they happen
+ALTER PUBLICATION supabase_realtime ADD TABLE public.chat_mentions, public.chat_message_flags;
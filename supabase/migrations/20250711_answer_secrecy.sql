@@ -0,0 +1,187 @@
+-- Answer secrecy: a team's answers, point selections and team chat reach
+-- only that team's members and the room's host, and so do the score ledger
+-- entries grading its answers until the question's round closes. The
+-- policies here are
+-- restrictive, so they hold whatever other SELECT policies the tables have,
+-- and realtime postgres_changes apply them per subscriber. Broadcast and
+-- presence traffic moves to private `team:<team id>:<purpose>` topics that
+-- only the same people can join; public channel access should be turned off
+-- in the project's realtime settings so the topics can't be joined
+-- without the private flag.
+
+-- Whether a user plays on the team or hosts the room it belongs to
+CREATE OR REPLACE FUNCTION is_team_audience(p_team_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.team_members WHERE team_id = p_team_id AND user_id = p_user_id
+  ) OR EXISTS (
+    SELECT 1 FROM public.teams
+    JOIN public.game_rooms ON game_rooms.id = teams.room_id
+    WHERE teams.id = p_team_id AND game_rooms.host_id = p_user_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether the signed-in account may see the team's private data
+CREATE OR REPLACE FUNCTION can_view_team(p_team_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT auth.uid() IS NOT NULL AND is_team_audience(p_team_id, auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Room-wide messages are for everyone in the game, team messages for the
+-- team and the host
+CREATE OR REPLACE FUNCTION can_view_chat_message(p_game_room_id UUID, p_team_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT is_game_participant(p_game_room_id) AND (p_team_id IS NULL OR can_view_team(p_team_id));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Graded answers show in the score ledger as automatic entries, and a
+-- revert repeats the points it cancels, so both say how a team answered.
+-- They stay with the team, the host and score-overriding co-hosts until the
+-- round closes; manual adjustments are visible to the whole game.
+CREATE OR REPLACE FUNCTION can_view_score_entry(p_entry_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(reverted.entry_type, entry.entry_type) <> 'automatic'
+    OR can_view_team(entry.entity_id)
+    OR can_override_scores(entry.game_room_id)
+    OR EXISTS (
+      SELECT 1 FROM public.game_rounds WHERE id = entry.round_id AND status = 'completed'
+    )
+  FROM public.score_ledger AS entry
+  LEFT JOIN public.score_ledger AS reverted ON reverted.id = entry.reverts_entry_id
+  WHERE entry.id = p_entry_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Private realtime topics are named team:<team id>:<purpose>
+CREATE OR REPLACE FUNCTION can_access_team_topic(p_topic TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT CASE
+    WHEN p_topic ~ '^team:[0-9a-fA-F-]{36}:[a-z_]+$' THEN can_view_team(split_part(p_topic, ':', 2)::UUID)
+    ELSE false
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.team_answers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_messages ENABLE ROW LEVEL SECURITY;
+
+-- team_answers had no SELECT policy of its own; without one the restrictive
+-- policy below would hide answers from their own team too
+CREATE POLICY "Team members and hosts can view answers" ON public.team_answers
+  FOR SELECT USING (can_view_team(team_id));
+
+CREATE POLICY "Answers stay within the team" ON public.team_answers
+  AS RESTRICTIVE FOR SELECT USING (can_view_team(team_id));
+
+CREATE POLICY "Point selections stay within the team" ON public.team_point_usage
+  AS RESTRICTIVE FOR SELECT USING (can_view_team(team_id));
+
+CREATE POLICY "Graded answers stay within the team until the round closes" ON public.score_ledger
+  AS RESTRICTIVE FOR SELECT USING (can_view_score_entry(id));
+
+CREATE POLICY "Team chat stays within the team" ON public.chat_messages
+  AS RESTRICTIVE FOR SELECT USING (can_view_chat_message(game_room_id, team_id));
+
+CREATE POLICY "Players post only to their own team's chat" ON public.chat_messages
+  AS RESTRICTIVE FOR INSERT WITH CHECK (can_view_chat_message(game_room_id, team_id));
+
+CREATE POLICY "Edit history stays within the team" ON public.chat_message_edits
+  AS RESTRICTIVE FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.chat_messages
+      WHERE chat_messages.id = chat_message_edits.message_id
+      AND can_view_chat_message(chat_messages.game_room_id, chat_messages.team_id)
+    )
+  );
+
+-- Presence and broadcasts on a team's private topics, both ways
+CREATE POLICY "Team members and hosts receive team broadcasts" ON realtime.messages
+  FOR SELECT TO authenticated
+  USING (
+    realtime.messages.extension IN ('broadcast', 'presence')
+    AND can_access_team_topic(realtime.topic())
+  );
+
+CREATE POLICY "Team members and hosts send team broadcasts" ON realtime.messages
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    realtime.messages.extension IN ('broadcast', 'presence')
+    AND can_access_team_topic(realtime.topic())
+  );
+
+-- Replies can't reach into another team's thread, even by guessing its id
+CREATE OR REPLACE FUNCTION prepare_chat_message()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_muted_until TIMESTAMPTZ;
+  v_parent public.chat_messages;
+BEGIN
+  SELECT muted_until INTO v_muted_until
+  FROM public.chat_mutes
+  WHERE game_room_id = NEW.game_room_id AND user_id = NEW.user_id AND muted_until > NOW();
+
+  IF v_muted_until IS NOT NULL THEN
+    RAISE EXCEPTION 'You are muted in this chat for % more minutes',
+      CEIL(EXTRACT(EPOCH FROM v_muted_until - NOW()) / 60)::INTEGER;
+  END IF;
+
+  IF NEW.reply_to_id IS NOT NULL THEN
+    SELECT * INTO v_parent FROM public.chat_messages WHERE id = NEW.reply_to_id;
+
+    IF v_parent IS NULL OR v_parent.game_room_id <> NEW.game_room_id OR v_parent.is_deleted
+      OR (v_parent.team_id IS NOT NULL AND NOT is_team_audience(v_parent.team_id, NEW.user_id)) THEN
+      RAISE EXCEPTION 'The message you replied to is no longer available';
+    END IF;
+
+    NEW.thread_id := COALESCE(v_parent.thread_id, v_parent.id);
+  ELSE
+    NEW.thread_id := NULL;
+  END IF;
+
+  NEW.reply_count := 0;
+  NEW.edited_at := NULL;
+  NEW.mentioned_user_ids := chat_room_mentions(NEW.game_room_id, NEW.user_id, COALESCE(NEW.mentioned_user_ids, '{}'));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Mentioning someone outside the team doesn't tell them a team message exists
+CREATE OR REPLACE FUNCTION record_chat_mentions(p_message public.chat_messages, p_already UUID[])
+RETURNS VOID AS $$
+  INSERT INTO public.chat_mentions (message_id, game_room_id, mentioned_user_id, mentioned_by)
+  SELECT p_message.id, p_message.game_room_id, mentioned, p_message.user_id
+  FROM unnest(p_message.mentioned_user_ids) AS mentioned
+  WHERE NOT (mentioned = ANY(p_already))
+  AND (p_message.team_id IS NULL OR is_team_audience(p_message.team_id, mentioned))
+  ON CONFLICT (message_id, mentioned_user_id) DO NOTHING;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Only messages the caller can read may be flagged
+CREATE OR REPLACE FUNCTION flag_chat_message(p_message_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS public.chat_message_flags AS $$
+DECLARE
+  v_message public.chat_messages;
+  v_flag public.chat_message_flags;
+BEGIN
+  SELECT * INTO v_message FROM public.chat_messages WHERE id = p_message_id;
+
+  IF v_message IS NULL OR v_message.is_deleted OR NOT can_view_chat_message(v_message.game_room_id, v_message.team_id) THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF v_message.user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot flag your own message';
+  END IF;
+
+  INSERT INTO public.chat_message_flags (message_id, game_room_id, team_id, flagged_by, reason)
+  VALUES (v_message.id, v_message.game_room_id, v_message.team_id, auth.uid(), NULLIF(trim(p_reason), ''))
+  ON CONFLICT (message_id, flagged_by) DO UPDATE SET reason = EXCLUDED.reason
+  RETURNING * INTO v_flag;
+
+  RETURN v_flag;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION is_team_audience(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION can_view_team(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_view_chat_message(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_view_score_entry(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_access_team_topic(TEXT) TO authenticated;
@@ -0,0 +1,330 @@
+-- Guest-to-account conversion. Guests play on an anonymous Supabase account,
+-- so their team memberships, answers, chat and game history are keyed to
+-- that account's id. While still signed in as the guest, the client takes
+-- a claim token with begin_guest_conversion; once signed in to their real
+-- account it hands the token to complete_guest_conversion, which moves the
+-- guest's rows over, combines their statistics and awards any achievements
+-- the combined record now earns.
+--
+-- Each guest converts once. Completing again with the same account returns
+-- the first result without touching anything; another account is refused.
+-- The score ledger, logged game actions and host hand-offs are records of
+-- who did what at the time, so they keep the guest's id.
+
+CREATE TABLE IF NOT EXISTS public.guest_conversions (
+  guest_id UUID PRIMARY KEY,
+  claim_token UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  summary JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  converted_at TIMESTAMPTZ,
+  CONSTRAINT guest_conversions_completed_check CHECK ((user_id IS NULL) = (converted_at IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_guest_conversions_user ON public.guest_conversions(user_id);
+
+-- Claim tokens are only handed out by the functions below
+ALTER TABLE public.guest_conversions ENABLE ROW LEVEL SECURITY;
+
+-- Mean of two averages weighted by how many games each covers. A missing
+-- average doesn't count.
+CREATE OR REPLACE FUNCTION combine_means(p_a NUMERIC, p_a_weight INTEGER, p_b NUMERIC, p_b_weight INTEGER)
+RETURNS NUMERIC AS $$
+  SELECT (COALESCE(p_a * p_a_weight, 0) + COALESCE(p_b * p_b_weight, 0))
+    / NULLIF(CASE WHEN p_a IS NULL THEN 0 ELSE p_a_weight END + CASE WHEN p_b IS NULL THEN 0 ELSE p_b_weight END, 0);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Adds a guest's lifetime statistics to an account's. Totals add up,
+-- bests keep the better of the two and streaks in progress come from
+-- whichever played last.
+CREATE OR REPLACE FUNCTION merge_user_statistics(p_guest_id UUID, p_user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_leagues CONSTANT TEXT[] := ARRAY['Bronze', 'Silver', 'Gold', 'Platinum', 'Diamond', 'Master'];
+  v_guest public.user_statistics;
+  v_account public.user_statistics;
+  v_guest_latest BOOLEAN;
+  v_games INTEGER;
+  v_questions INTEGER;
+BEGIN
+  SELECT * INTO v_guest FROM public.user_statistics WHERE user_id = p_guest_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_account FROM public.user_statistics WHERE user_id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    UPDATE public.user_statistics SET user_id = p_user_id WHERE user_id = p_guest_id;
+    RETURN;
+  END IF;
+
+  v_guest_latest := COALESCE(v_guest.last_game_at > v_account.last_game_at, v_account.last_game_at IS NULL);
+  v_games := v_account.total_games_played + v_guest.total_games_played;
+  v_questions := v_account.total_questions_answered + v_guest.total_questions_answered;
+
+  UPDATE public.user_statistics
+  SET total_games_played = v_games,
+      total_wins = v_account.total_wins + v_guest.total_wins,
+      total_podium_finishes = v_account.total_podium_finishes + v_guest.total_podium_finishes,
+      total_points_earned = v_account.total_points_earned + v_guest.total_points_earned,
+      average_score = CASE WHEN v_games > 0
+        THEN (v_account.total_points_earned + v_guest.total_points_earned)::NUMERIC / v_games
+        ELSE 0 END,
+      highest_score = GREATEST(v_account.highest_score, v_guest.highest_score),
+      average_rank = combine_means(v_account.average_rank, v_account.total_games_played, v_guest.average_rank, v_guest.total_games_played),
+      best_rank = LEAST(v_account.best_rank, v_guest.best_rank),
+      total_questions_answered = v_questions,
+      total_correct_answers = v_account.total_correct_answers + v_guest.total_correct_answers,
+      overall_accuracy = CASE WHEN v_questions > 0
+        THEN (v_account.total_correct_answers + v_guest.total_correct_answers) * 100.0 / v_questions END,
+      average_response_time = combine_means(
+        v_account.average_response_time, v_account.total_games_played,
+        v_guest.average_response_time, v_guest.total_games_played
+      ),
+      fastest_ever_response = LEAST(v_account.fastest_ever_response, v_guest.fastest_ever_response),
+      current_win_streak = CASE WHEN v_guest_latest THEN v_guest.current_win_streak ELSE v_account.current_win_streak END,
+      longest_win_streak = GREATEST(v_account.longest_win_streak, v_guest.longest_win_streak),
+      current_podium_streak = CASE WHEN v_guest_latest THEN v_guest.current_podium_streak ELSE v_account.current_podium_streak END,
+      longest_podium_streak = GREATEST(v_account.longest_podium_streak, v_guest.longest_podium_streak),
+      total_play_time_minutes = v_account.total_play_time_minutes + v_guest.total_play_time_minutes,
+      games_this_week = v_account.games_this_week + v_guest.games_this_week,
+      games_this_month = v_account.games_this_month + v_guest.games_this_month,
+      peak_league = CASE
+        WHEN COALESCE(array_position(v_leagues, v_guest.peak_league::TEXT), 0) > COALESCE(array_position(v_leagues, v_account.peak_league::TEXT), 0)
+          THEN v_guest.peak_league
+        ELSE v_account.peak_league
+      END,
+      total_xp = v_account.total_xp + v_guest.total_xp,
+      current_level = GREATEST(v_account.current_level, v_guest.current_level),
+      teams_captained = v_account.teams_captained + v_guest.teams_captained,
+      recent_scores = CASE WHEN v_guest_latest THEN v_guest.recent_scores ELSE v_account.recent_scores END,
+      recent_ranks = CASE WHEN v_guest_latest THEN v_guest.recent_ranks ELSE v_account.recent_ranks END,
+      last_game_at = GREATEST(v_account.last_game_at, v_guest.last_game_at)
+  WHERE user_id = p_user_id;
+
+  DELETE FROM public.user_statistics WHERE user_id = p_guest_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Called as the guest. Returns the token that lets an account claim the
+-- guest's progress; asking again returns the same token.
+CREATE OR REPLACE FUNCTION begin_guest_conversion()
+RETURNS UUID AS $$
+DECLARE
+  v_token UUID;
+BEGIN
+  IF auth.uid() IS NULL OR NOT COALESCE((auth.jwt()->>'is_anonymous')::BOOLEAN, false) THEN
+    RAISE EXCEPTION 'Only guest sessions can be converted';
+  END IF;
+
+  INSERT INTO public.guest_conversions (guest_id)
+  VALUES (auth.uid())
+  ON CONFLICT (guest_id) DO UPDATE SET guest_id = EXCLUDED.guest_id
+  RETURNING claim_token INTO v_token;
+
+  RETURN v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Called as the account. Moves everything the guest owns onto the caller
+-- and returns what was moved.
+CREATE OR REPLACE FUNCTION complete_guest_conversion(p_claim_token UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_user UUID := auth.uid();
+  v_conversion public.guest_conversions;
+  v_guest UUID;
+  v_count INTEGER;
+  v_moved JSONB := '{}';
+  v_games UUID[];
+  v_game_id UUID;
+  v_awarded TEXT[] := '{}';
+  v_duplicate_xp INTEGER;
+  v_summary JSONB;
+BEGIN
+  IF v_user IS NULL OR COALESCE((auth.jwt()->>'is_anonymous')::BOOLEAN, false) THEN
+    RAISE EXCEPTION 'Sign in to an account to keep your guest progress';
+  END IF;
+
+  -- Locked so two devices converting at once can't both merge
+  SELECT * INTO v_conversion FROM public.guest_conversions WHERE claim_token = p_claim_token FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Guest session not found';
+  END IF;
+
+  IF v_conversion.user_id IS NOT NULL THEN
+    IF v_conversion.user_id <> v_user THEN
+      RAISE EXCEPTION 'This guest progress was already added to another account';
+    END IF;
+    RETURN v_conversion.summary || jsonb_build_object('already_converted', true);
+  END IF;
+
+  v_guest := v_conversion.guest_id;
+
+  -- A guest upgraded in place already is the account; there is nothing to move
+  IF v_guest <> v_user THEN
+    -- Team memberships. Where both were on the same team the account's
+    -- membership stays, as captain if either was.
+    UPDATE public.team_members account
+    SET role = 'captain'
+    FROM public.team_members guest
+    WHERE account.user_id = v_user AND guest.user_id = v_guest
+    AND guest.team_id = account.team_id AND guest.role = 'captain';
+
+    DELETE FROM public.team_members guest
+    USING public.team_members account
+    WHERE guest.user_id = v_guest AND account.user_id = v_user AND account.team_id = guest.team_id;
+
+    UPDATE public.team_members SET user_id = v_user WHERE user_id = v_guest;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_moved := v_moved || jsonb_build_object('team_members', v_count);
+
+    UPDATE public.game_rooms SET host_id = v_user WHERE host_id = v_guest;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_moved := v_moved || jsonb_build_object('game_rooms', v_count);
+
+    -- Games the guest hosts or helps run, so the account can recover and
+    -- keep running them. Where both co-host a game or hold an open invite
+    -- to it, the account's stays.
+    UPDATE public.game_logs SET host_id = v_user WHERE host_id = v_guest;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_moved := v_moved || jsonb_build_object('game_logs', v_count);
+
+    UPDATE public.game_checkpoints SET host_id = v_user WHERE host_id = v_guest;
+
+    DELETE FROM public.game_co_hosts guest
+    USING public.game_co_hosts account
+    WHERE guest.user_id = v_guest AND account.user_id = v_user AND account.game_id = guest.game_id;
+    UPDATE public.game_co_hosts SET user_id = v_user WHERE user_id = v_guest;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_moved := v_moved || jsonb_build_object('game_co_hosts', v_count);
+
+    UPDATE public.game_co_host_invites guest
+    SET status = 'revoked', responded_at = NOW()
+    FROM public.game_co_host_invites account
+    WHERE guest.invitee_id = v_guest AND guest.status = 'pending'
+    AND account.invitee_id = v_user AND account.status = 'pending' AND account.game_id = guest.game_id;
+    UPDATE public.game_co_host_invites SET invitee_id = v_user WHERE invitee_id = v_guest;
+
+    UPDATE public.team_answers SET submitted_by = v_user WHERE submitted_by = v_guest;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_moved := v_moved || jsonb_build_object('team_answers', v_count);
+
+    -- Chat
+    UPDATE public.chat_messages SET user_id = v_user WHERE user_id = v_guest;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_moved := v_moved || jsonb_build_object('chat_messages', v_count);
+
+    UPDATE public.chat_messages SET deleted_by = v_user WHERE deleted_by = v_guest;
+    UPDATE public.chat_message_edits SET edited_by = v_user WHERE edited_by = v_guest;
+
+    DELETE FROM public.chat_mentions guest
+    USING public.chat_mentions account
+    WHERE guest.mentioned_user_id = v_guest AND account.mentioned_user_id = v_user
+    AND account.message_id = guest.message_id;
+    UPDATE public.chat_mentions SET mentioned_user_id = v_user WHERE mentioned_user_id = v_guest;
+    UPDATE public.chat_mentions SET mentioned_by = v_user WHERE mentioned_by = v_guest;
+
+    DELETE FROM public.chat_message_flags guest
+    USING public.chat_message_flags account
+    WHERE guest.flagged_by = v_guest AND account.flagged_by = v_user AND account.message_id = guest.message_id;
+    UPDATE public.chat_message_flags SET flagged_by = v_user WHERE flagged_by = v_guest;
+
+    -- A mute on either carries over; the longer one wins
+    UPDATE public.chat_mutes account
+    SET muted_until = guest.muted_until
+    FROM public.chat_mutes guest
+    WHERE account.user_id = v_user AND guest.user_id = v_guest
+    AND guest.game_room_id = account.game_room_id AND guest.muted_until > account.muted_until;
+
+    DELETE FROM public.chat_mutes guest
+    USING public.chat_mutes account
+    WHERE guest.user_id = v_guest AND account.user_id = v_user AND account.game_room_id = guest.game_room_id;
+    UPDATE public.chat_mutes SET user_id = v_user WHERE user_id = v_guest;
+
+    -- Game history and statistics
+    WITH moved AS (
+      UPDATE public.game_history SET user_id = v_user WHERE user_id = v_guest RETURNING id
+    )
+    SELECT COALESCE(array_agg(id), '{}') INTO v_games FROM moved;
+    v_moved := v_moved || jsonb_build_object('game_history', cardinality(v_games));
+
+    PERFORM merge_user_statistics(v_guest, v_user);
+
+    -- Badges both earned count once; the duplicate's XP comes off the total
+    SELECT COALESCE(SUM(guest.xp_awarded), 0) INTO v_duplicate_xp
+    FROM public.user_achievements guest
+    JOIN public.user_achievements account
+      ON account.achievement_id = guest.achievement_id AND account.user_id = v_user
+    WHERE guest.user_id = v_guest;
+
+    DELETE FROM public.user_achievements guest
+    USING public.user_achievements account
+    WHERE guest.user_id = v_guest AND account.user_id = v_user AND account.achievement_id = guest.achievement_id;
+
+    UPDATE public.user_achievements SET user_id = v_user WHERE user_id = v_guest;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_moved := v_moved || jsonb_build_object('user_achievements', v_count);
+
+    IF v_duplicate_xp > 0 THEN
+      UPDATE public.user_statistics SET total_xp = GREATEST(total_xp - v_duplicate_xp, 0) WHERE user_id = v_user;
+    END IF;
+
+    -- The account keeps its own rating; the guest's carries over to an
+    -- account that has none. Rated games join the account's history, and
+    -- where both were rated in the same game the account's entry stands
+    -- like its rating does.
+    UPDATE public.skill_ratings SET entity_id = v_user
+    WHERE entity_type = 'player' AND entity_id = v_guest
+    AND NOT EXISTS (SELECT 1 FROM public.skill_ratings WHERE entity_type = 'player' AND entity_id = v_user);
+    DELETE FROM public.skill_ratings WHERE entity_type = 'player' AND entity_id = v_guest;
+
+    UPDATE public.skill_rating_history guest
+    SET entity_id = v_user
+    WHERE guest.entity_type = 'player' AND guest.entity_id = v_guest
+    AND NOT EXISTS (
+      SELECT 1 FROM public.skill_rating_history account
+      WHERE account.entity_type = 'player' AND account.entity_id = v_user
+      AND account.source_type = guest.source_type AND account.source_id = guest.source_id
+    );
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_moved := v_moved || jsonb_build_object('skill_rating_history', v_count);
+    DELETE FROM public.skill_rating_history WHERE entity_type = 'player' AND entity_id = v_guest;
+
+    UPDATE public.push_subscriptions SET user_id = v_user, updated_at = NOW() WHERE user_id = v_guest;
+
+    -- Achievements the combined record earns: each of the guest's games,
+    -- then the latest game for lifetime totals
+    FOR v_game_id IN
+      SELECT id FROM public.game_history
+      WHERE id = ANY(v_games)
+      UNION
+      SELECT id FROM (
+        SELECT id FROM public.game_history WHERE user_id = v_user ORDER BY game_started_at DESC LIMIT 1
+      ) latest
+    LOOP
+      v_awarded := v_awarded || ARRAY(SELECT achievement_id FROM award_achievements(v_game_id));
+    END LOOP;
+  END IF;
+
+  v_summary := jsonb_build_object(
+    'guest_id', v_guest,
+    'user_id', v_user,
+    'moved', v_moved,
+    'games_merged', COALESCE(cardinality(v_games), 0),
+    'achievements_awarded', to_jsonb(v_awarded)
+  );
+
+  UPDATE public.guest_conversions
+  SET user_id = v_user, converted_at = NOW(), summary = v_summary
+  WHERE guest_id = v_guest;
+
+  RETURN v_summary || jsonb_build_object('already_converted', false);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION merge_user_statistics(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION begin_guest_conversion() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION complete_guest_conversion(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION begin_guest_conversion() TO authenticated;
+GRANT EXECUTE ON FUNCTION complete_guest_conversion(UUID) TO authenticated;
@@ -0,0 +1,203 @@
+-- Answer secrecy: players on one team try to read and reach another team's
+-- answers, point selections, graded score entries, chat and realtime topics,
+-- and at the answer key itself. Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(25);
+
+-- Host, two players on the Aces and one on the Brains
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a0', 'host@example.com'),
+  ('00000000-0000-0000-0000-0000000000a1', 'alice@example.com'),
+  ('00000000-0000-0000-0000-0000000000a2', 'amy@example.com'),
+  ('00000000-0000-0000-0000-0000000000b1', 'bob@example.com');
+
+INSERT INTO public.game_rooms (id, code, name, host_id) VALUES
+  ('10000000-0000-0000-0000-000000000001', 'SECRET', 'Quiz night', '00000000-0000-0000-0000-0000000000a0');
+
+INSERT INTO public.teams (id, room_id, name) VALUES
+  ('20000000-0000-0000-0000-00000000000a', '10000000-0000-0000-0000-000000000001', 'Aces'),
+  ('20000000-0000-0000-0000-00000000000b', '10000000-0000-0000-0000-000000000001', 'Brains');
+
+INSERT INTO public.team_members (team_id, user_id, role) VALUES
+  ('20000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-0000000000a1', 'captain'),
+  ('20000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-0000000000a2', 'member'),
+  ('20000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-0000000000b1', 'captain');
+
+INSERT INTO public.game_rounds (id, game_room_id, round_number, time_limit, point_values) VALUES
+  ('30000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001', 1, 60, '{1,3,5}');
+
+INSERT INTO public.game_questions (id, game_room_id, round_id, question_text, correct_answer) VALUES
+  ('40000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001',
+   '30000000-0000-0000-0000-000000000001', 'Capital of France?', 'Paris');
+
+INSERT INTO public.team_answers (game_room_id, round_id, team_id, question_id, answer_text, point_value, submitted_by) VALUES
+  ('10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000001', '20000000-0000-0000-0000-00000000000a',
+   '40000000-0000-0000-0000-000000000001', 'Paris', 5, '00000000-0000-0000-0000-0000000000a1'),
+  ('10000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000001', '20000000-0000-0000-0000-00000000000b',
+   '40000000-0000-0000-0000-000000000001', 'Lyon', 3, '00000000-0000-0000-0000-0000000000b1');
+
+INSERT INTO public.team_point_usage (game_room_id, team_id, round_number, point_value, question_id) VALUES
+  ('10000000-0000-0000-0000-000000000001', '20000000-0000-0000-0000-00000000000a', 1, 5, '40000000-0000-0000-0000-000000000001'),
+  ('10000000-0000-0000-0000-000000000001', '20000000-0000-0000-0000-00000000000b', 1, 3, '40000000-0000-0000-0000-000000000001');
+
+CREATE FUNCTION pg_temp.sign_in(p_user_id UUID) RETURNS VOID AS $$
+  SELECT set_config('request.jwt.claims', json_build_object('sub', p_user_id, 'role', 'authenticated')::TEXT, true);
+  SELECT set_config('role', 'authenticated', true);
+$$ LANGUAGE sql;
+
+-- Alice posts to her team and the host to the whole room
+SELECT pg_temp.sign_in('00000000-0000-0000-0000-0000000000a1');
+INSERT INTO public.chat_messages (id, game_room_id, user_id, team_id, message, message_type, mentioned_user_ids) VALUES
+  ('50000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-0000000000a1',
+   '20000000-0000-0000-0000-00000000000a', 'I think it is Paris, @bob', 'text', '{00000000-0000-0000-0000-0000000000b1}');
+SELECT edit_chat_message('50000000-0000-0000-0000-000000000001', 'Definitely Paris', '{}');
+
+RESET role;
+SELECT pg_temp.sign_in('00000000-0000-0000-0000-0000000000a0');
+INSERT INTO public.chat_messages (id, game_room_id, user_id, message, message_type) VALUES
+  ('50000000-0000-0000-0000-000000000002', '10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-0000000000a0',
+   'Ten seconds left!', 'text');
+
+-- Another team
+RESET role;
+SELECT pg_temp.sign_in('00000000-0000-0000-0000-0000000000b1');
+
+SELECT throws_ok(
+  $$ SELECT correct_answer, explanation FROM public.game_questions $$,
+  '42501',
+  NULL,
+  'Players cannot read the correct answers'
+);
+SELECT lives_ok(
+  $$ SELECT id, question_text FROM public.game_questions $$,
+  'Players still read the questions'
+);
+SELECT is_empty(
+  $$ SELECT 1 FROM public.team_answers WHERE team_id = '20000000-0000-0000-0000-00000000000a' $$,
+  'Players cannot read another team''s answers'
+);
+SELECT results_eq(
+  $$ SELECT answer_text FROM public.team_answers $$,
+  ARRAY['Lyon'],
+  'Players read only their own team''s answers'
+);
+SELECT is_empty(
+  $$ SELECT 1 FROM public.team_point_usage WHERE team_id = '20000000-0000-0000-0000-00000000000a' $$,
+  'Players cannot see which points another team picked'
+);
+SELECT is_empty(
+  $$ SELECT 1 FROM public.score_ledger WHERE entity_id = '20000000-0000-0000-0000-00000000000a' $$,
+  'Players cannot read another team''s graded answers in the score ledger'
+);
+SELECT results_eq(
+  $$ SELECT entity_id FROM public.score_ledger $$,
+  ARRAY['20000000-0000-0000-0000-00000000000b'::UUID],
+  'Players read their own team''s graded answers in the score ledger'
+);
+SELECT is_empty(
+  $$ SELECT 1 FROM public.chat_messages WHERE team_id = '20000000-0000-0000-0000-00000000000a' $$,
+  'Players cannot read another team''s chat'
+);
+SELECT results_eq(
+  $$ SELECT message FROM public.chat_messages $$,
+  ARRAY['Ten seconds left!'],
+  'Players still read messages to the whole room'
+);
+SELECT is_empty(
+  $$ SELECT 1 FROM public.chat_message_edits WHERE message_id = '50000000-0000-0000-0000-000000000001' $$,
+  'Players cannot read the edit history of another team''s messages'
+);
+SELECT is_empty(
+  $$ SELECT 1 FROM public.chat_mentions $$,
+  'Mentions in another team''s chat do not reach the player'
+);
+SELECT throws_ok(
+  $$ INSERT INTO public.chat_messages (game_room_id, user_id, team_id, message, message_type) VALUES
+     ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-0000000000b1',
+      '20000000-0000-0000-0000-00000000000a', 'Psst', 'text') $$,
+  '42501',
+  NULL,
+  'Players cannot post to another team''s chat'
+);
+SELECT throws_ok(
+  $$ INSERT INTO public.chat_messages (game_room_id, user_id, team_id, message, message_type, reply_to_id) VALUES
+     ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-0000000000b1',
+      '20000000-0000-0000-0000-00000000000b', 'Paris?', 'text', '50000000-0000-0000-0000-000000000001') $$,
+  'The message you replied to is no longer available',
+  'Players cannot reply into another team''s thread'
+);
+SELECT throws_ok(
+  $$ SELECT flag_chat_message('50000000-0000-0000-0000-000000000001') $$,
+  'Message not found',
+  'Players cannot flag another team''s messages'
+);
+SELECT ok(
+  NOT can_access_team_topic('team:20000000-0000-0000-0000-00000000000a:presence'),
+  'Players cannot join another team''s realtime topics'
+);
+SELECT ok(
+  can_access_team_topic('team:20000000-0000-0000-0000-00000000000b:game'),
+  'Players join their own team''s realtime topics'
+);
+SELECT ok(
+  NOT can_access_team_topic('team:not-a-team:presence'),
+  'Malformed topics are refused'
+);
+
+-- A teammate
+RESET role;
+SELECT pg_temp.sign_in('00000000-0000-0000-0000-0000000000a2');
+
+SELECT results_eq(
+  $$ SELECT answer_text FROM public.team_answers $$,
+  ARRAY['Paris'],
+  'Teammates read their team''s answers'
+);
+SELECT results_eq(
+  $$ SELECT message FROM public.chat_messages ORDER BY created_at, id $$,
+  ARRAY['Definitely Paris', 'Ten seconds left!'],
+  'Teammates read their team''s chat'
+);
+SELECT isnt_empty(
+  $$ SELECT 1 FROM public.chat_message_edits WHERE message_id = '50000000-0000-0000-0000-000000000001' $$,
+  'Teammates read the edit history'
+);
+SELECT ok(
+  can_access_team_topic('team:20000000-0000-0000-0000-00000000000a:activity'),
+  'Teammates join the team''s realtime topics'
+);
+
+-- The host
+RESET role;
+SELECT pg_temp.sign_in('00000000-0000-0000-0000-0000000000a0');
+
+SELECT results_eq(
+  $$ SELECT count(*)::INTEGER FROM public.team_answers $$,
+  ARRAY[2],
+  'The host reads every team''s answers'
+);
+SELECT results_eq(
+  $$ SELECT count(*)::INTEGER FROM public.chat_messages $$,
+  ARRAY[2],
+  'The host reads every team''s chat'
+);
+SELECT ok(
+  can_access_team_topic('team:20000000-0000-0000-0000-00000000000a:reviews'),
+  'The host joins every team''s realtime topics'
+);
+
+-- Once the round closes
+RESET role;
+UPDATE public.game_rounds SET status = 'completed', ended_at = NOW()
+WHERE id = '30000000-0000-0000-0000-000000000001';
+SELECT pg_temp.sign_in('00000000-0000-0000-0000-0000000000b1');
+
+SELECT results_eq(
+  $$ SELECT count(*)::INTEGER FROM public.score_ledger $$,
+  ARRAY[2],
+  'Every team''s graded answers are in the score ledger after the round'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
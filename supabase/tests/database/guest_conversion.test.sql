@@ -0,0 +1,183 @@
+-- Guest conversion: a guest's rows move to the account that claims them,
+-- statistics add up once, and a second conversion changes nothing. Run
+-- with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(18);
+
+-- An anonymous guest, the account they sign up for and someone else
+INSERT INTO auth.users (id, email, is_anonymous) VALUES
+  ('00000000-0000-0000-0000-00000000000a', NULL, true),
+  ('00000000-0000-0000-0000-0000000000a1', 'quinn@example.com', false),
+  ('00000000-0000-0000-0000-0000000000b1', 'other@example.com', false);
+
+INSERT INTO public.game_rooms (id, code, name, host_id) VALUES
+  ('10000000-0000-0000-0000-000000000001', 'GUESTS', 'Quiz night', '00000000-0000-0000-0000-0000000000b1');
+
+INSERT INTO public.teams (id, room_id, name) VALUES
+  ('20000000-0000-0000-0000-00000000000a', '10000000-0000-0000-0000-000000000001', 'Aces');
+
+INSERT INTO public.team_members (team_id, user_id, role) VALUES
+  ('20000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000a', 'captain');
+
+INSERT INTO public.game_history (id, game_room_id, team_id, user_id, game_name, game_started_at, game_ended_at, final_score, final_rank) VALUES
+  ('60000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001', '20000000-0000-0000-0000-00000000000a',
+   '00000000-0000-0000-0000-00000000000a', 'Quiz night', NOW() - INTERVAL '2 hours', NOW() - INTERVAL '1 hour', 1200, 1);
+
+INSERT INTO public.user_statistics (user_id, total_games_played, total_wins, total_points_earned, highest_score, total_questions_answered, total_correct_answers, last_game_at) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 1, 1, 1200, 1200, 20, 18, NOW() - INTERVAL '1 hour'),
+  ('00000000-0000-0000-0000-0000000000a1', 3, 0, 900, 500, 60, 30, NOW() - INTERVAL '1 week');
+
+-- A game the guest hosts, one they help run, an invite both have to a third
+-- and a game both were rated in
+INSERT INTO public.game_logs (game_id, host_id, initial_state) VALUES
+  ('guest-hosted', '00000000-0000-0000-0000-00000000000a', '{}'),
+  ('co-hosted', '00000000-0000-0000-0000-0000000000b1', '{}'),
+  ('invited', '00000000-0000-0000-0000-0000000000b1', '{}');
+
+INSERT INTO public.game_checkpoints (game_id, host_id, sequence, phase, state) VALUES
+  ('guest-hosted', '00000000-0000-0000-0000-00000000000a', 3, 'question', '{}');
+
+INSERT INTO public.game_co_hosts (game_id, user_id, role, added_by) VALUES
+  ('co-hosted', '00000000-0000-0000-0000-00000000000a', '{"id": "scorekeeper"}', '00000000-0000-0000-0000-0000000000b1');
+
+INSERT INTO public.game_co_host_invites (game_id, invitee_id, role, invited_by) VALUES
+  ('invited', '00000000-0000-0000-0000-00000000000a', '{"id": "scorekeeper"}', '00000000-0000-0000-0000-0000000000b1'),
+  ('invited', '00000000-0000-0000-0000-0000000000a1', '{"id": "moderator"}', '00000000-0000-0000-0000-0000000000b1');
+
+INSERT INTO public.rated_sources (source_type, source_id) VALUES
+  ('game', '10000000-0000-0000-0000-000000000001'),
+  ('game', '10000000-0000-0000-0000-000000000002');
+
+INSERT INTO public.skill_rating_history (
+  entity_type, entity_id, source_type, source_id, rating_before, deviation_before,
+  rating_after, deviation_after, volatility_after, league, rank, field_size
+) VALUES
+  ('player', '00000000-0000-0000-0000-00000000000a', 'game', '10000000-0000-0000-0000-000000000001', 1500, 350, 1640, 290, 0.06, 'Bronze', 1, 4),
+  ('player', '00000000-0000-0000-0000-0000000000a1', 'game', '10000000-0000-0000-0000-000000000001', 1700, 120, 1710, 118, 0.06, 'Silver', 2, 4),
+  ('player', '00000000-0000-0000-0000-00000000000a', 'game', '10000000-0000-0000-0000-000000000002', 1640, 290, 1600, 270, 0.06, 'Bronze', 3, 4);
+
+CREATE FUNCTION pg_temp.sign_in(p_user_id UUID, p_anonymous BOOLEAN DEFAULT false) RETURNS VOID AS $$
+  SELECT set_config('request.jwt.claims', json_build_object(
+    'sub', p_user_id, 'role', 'authenticated', 'is_anonymous', p_anonymous
+  )::TEXT, true);
+  SELECT set_config('role', 'authenticated', true);
+$$ LANGUAGE sql;
+
+-- As the guest
+SELECT pg_temp.sign_in('00000000-0000-0000-0000-00000000000a', true);
+
+INSERT INTO public.chat_messages (game_room_id, user_id, team_id, message, message_type) VALUES
+  ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-00000000000a',
+   '20000000-0000-0000-0000-00000000000a', 'Good game!', 'text');
+
+CREATE TEMP TABLE claim AS SELECT begin_guest_conversion() AS token;
+GRANT SELECT ON claim TO authenticated;
+
+SELECT is(begin_guest_conversion(), (SELECT token FROM claim), 'Asking again returns the same claim token');
+SELECT throws_ok(
+  $$ SELECT complete_guest_conversion((SELECT token FROM claim)) $$,
+  'Sign in to an account to keep your guest progress',
+  'Guests cannot claim progress for themselves'
+);
+
+-- As the new account
+RESET role;
+SELECT pg_temp.sign_in('00000000-0000-0000-0000-0000000000a1');
+
+SELECT throws_ok(
+  $$ SELECT begin_guest_conversion() $$,
+  'Only guest sessions can be converted',
+  'Accounts cannot start a conversion'
+);
+SELECT throws_ok(
+  $$ SELECT complete_guest_conversion(gen_random_uuid()) $$,
+  'Guest session not found',
+  'Unknown claim tokens are refused'
+);
+
+CREATE TEMP TABLE first_result AS SELECT complete_guest_conversion((SELECT token FROM claim)) AS summary;
+
+SELECT is(
+  (SELECT summary->'moved' FROM first_result) @> '{"team_members": 1, "chat_messages": 1, "game_history": 1, "game_logs": 1, "game_co_hosts": 1, "skill_rating_history": 1}',
+  true,
+  'The summary counts what moved'
+);
+SELECT is((SELECT summary->>'already_converted' FROM first_result), 'false', 'The first conversion merges');
+
+RESET role;
+
+SELECT results_eq(
+  $$ SELECT user_id, role FROM public.team_members WHERE team_id = '20000000-0000-0000-0000-00000000000a' $$,
+  $$ VALUES ('00000000-0000-0000-0000-0000000000a1'::UUID, 'captain') $$,
+  'The guest''s team membership belongs to the account'
+);
+SELECT is_empty(
+  $$ SELECT 1 FROM public.chat_messages WHERE user_id = '00000000-0000-0000-0000-00000000000a' $$,
+  'The guest''s chat belongs to the account'
+);
+SELECT is(
+  (SELECT user_id FROM public.game_history WHERE id = '60000000-0000-0000-0000-000000000001'),
+  '00000000-0000-0000-0000-0000000000a1'::UUID,
+  'The guest''s games belong to the account'
+);
+SELECT results_eq(
+  $$ SELECT total_games_played, total_wins, total_points_earned, highest_score, total_correct_answers
+     FROM public.user_statistics WHERE user_id = '00000000-0000-0000-0000-0000000000a1' $$,
+  $$ VALUES (4, 1, 2100, 1200, 48) $$,
+  'Statistics add up on the account'
+);
+SELECT is_empty(
+  $$ SELECT 1 FROM public.user_statistics WHERE user_id = '00000000-0000-0000-0000-00000000000a' $$,
+  'The guest''s statistics are folded in'
+);
+SELECT results_eq(
+  $$ SELECT game_logs.host_id, game_checkpoints.host_id
+     FROM public.game_logs JOIN public.game_checkpoints USING (game_id)
+     WHERE game_id = 'guest-hosted' $$,
+  $$ VALUES ('00000000-0000-0000-0000-0000000000a1'::UUID, '00000000-0000-0000-0000-0000000000a1'::UUID) $$,
+  'The games the guest hosts and their checkpoints belong to the account'
+);
+SELECT results_eq(
+  $$ SELECT user_id FROM public.game_co_hosts WHERE game_id = 'co-hosted' $$,
+  ARRAY['00000000-0000-0000-0000-0000000000a1'::UUID],
+  'The account co-hosts the guest''s games'
+);
+SELECT results_eq(
+  $$ SELECT invitee_id, status::TEXT, role->>'id' FROM public.game_co_host_invites
+     WHERE game_id = 'invited' ORDER BY status $$,
+  $$ VALUES ('00000000-0000-0000-0000-0000000000a1'::UUID, 'pending', 'moderator'),
+            ('00000000-0000-0000-0000-0000000000a1'::UUID, 'revoked', 'scorekeeper') $$,
+  'The account''s open invite stands over the guest''s'
+);
+SELECT results_eq(
+  $$ SELECT entity_id, rating_after FROM public.skill_rating_history
+     WHERE entity_type = 'player' ORDER BY source_id $$,
+  $$ VALUES ('00000000-0000-0000-0000-0000000000a1'::UUID, 1710::DOUBLE PRECISION),
+            ('00000000-0000-0000-0000-0000000000a1'::UUID, 1600::DOUBLE PRECISION) $$,
+  'Rated games join the account''s history and its own entry stands for a game both played'
+);
+SELECT isnt_empty(
+  $$ SELECT 1 FROM public.user_achievements
+     WHERE user_id = '00000000-0000-0000-0000-0000000000a1' AND achievement_id = 'first_win' $$,
+  'Achievements the combined record earns are awarded'
+);
+
+-- Converting twice
+SELECT pg_temp.sign_in('00000000-0000-0000-0000-0000000000a1');
+SELECT is(
+  complete_guest_conversion((SELECT token FROM claim)) - 'already_converted',
+  (SELECT summary - 'already_converted' FROM first_result),
+  'Converting again returns the first result'
+);
+
+RESET role;
+SELECT pg_temp.sign_in('00000000-0000-0000-0000-0000000000b1');
+SELECT throws_ok(
+  $$ SELECT complete_guest_conversion((SELECT token FROM claim)) $$,
+  'This guest progress was already added to another account',
+  'Another account cannot claim the same guest'
+);
+
+SELECT * FROM finish();
+ROLLBACK;